@@ -219,6 +219,10 @@ module.exports = {
     revenuecatAndroidKey: getRevenueCatAndroidKey(),
     enableDevTools: IS_DEV,
     enableAnalytics: IS_PRODUCTION,
+    // Exchange rates: 'live' or 'fixture' (fixed rates for offline dev)
+    fxProvider: process.env.EXPO_PUBLIC_FX_PROVIDER || 'live',
+    // Market quotes: 'live' or 'fixture' (fixed prices; dev mode always uses the fixture)
+    quoteProvider: process.env.EXPO_PUBLIC_QUOTE_PROVIDER || 'live',
     // App URLs
     privacyPolicyUrl: 'https://spendtrak.app/privacy',
     termsOfServiceUrl: 'https://spendtrak.app/terms',
@@ -20,6 +20,9 @@ export default function ModalsLayout() {
       <Stack.Screen name="add-budget" options={{ animation: 'none' }} />
       <Stack.Screen name="add-debt" options={{ animation: 'none' }} />
       <Stack.Screen name="add-bill" options={{ animation: 'none' }} />
+      <Stack.Screen name="target-allocation" options={{ animation: 'none' }} />
+      <Stack.Screen name="watchlist-item" options={{ animation: 'none' }} />
+      <Stack.Screen name="categorization-rule" options={{ animation: 'none' }} />
       <Stack.Screen name="ai-consultant" options={{ animation: 'none' }} />
       <Stack.Screen name="upgrade" options={{ animation: 'none' }} />
     </Stack>
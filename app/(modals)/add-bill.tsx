@@ -12,6 +12,11 @@ import { Toggle } from '../../src/components/ui/Badge';
 import { ModalHeader } from '../../src/components/navigation';
 import { SectionHeader } from '../../src/components/dashboard';
 import { useBillStore } from '../../src/stores/billStore';
+import {
+  ruleFromFrequency,
+  formatRecurrenceRule,
+  type WeekendAdjustment,
+} from '../../src/services/recurrence';
 import { logger } from '../../src/utils/logger';
 
 export default function AddBillModal() {
@@ -22,15 +27,24 @@ export default function AddBillModal() {
 
   const frequencies = [
     { id: 'weekly', label: t('subscriptions.weekly') },
+    { id: 'biweekly', label: t('bills.biweekly') },
     { id: 'monthly', label: t('subscriptions.monthly') },
     { id: 'quarterly', label: t('subscriptions.quarterly') },
     { id: 'yearly', label: t('subscriptions.yearly') },
   ];
 
+  const weekendOptions: { id: WeekendAdjustment; label: string }[] = [
+    { id: 'none', label: t('bills.weekendKeep') },
+    { id: 'previous', label: t('bills.weekendPrevious') },
+    { id: 'next', label: t('bills.weekendNext') },
+  ];
+
   const [name, setName] = useState('');
   const [amount, setAmount] = useState('');
-  const [frequency, setFrequency] = useState<'weekly' | 'monthly' | 'quarterly' | 'yearly'>('monthly');
+  const [frequency, setFrequency] = useState<'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly'>('monthly');
   const [dueDay, setDueDay] = useState('');
+  const [lastBusinessDay, setLastBusinessDay] = useState(false);
+  const [weekendAdjustment, setWeekendAdjustment] = useState<WeekendAdjustment>('none');
   const [payeeName, setPayeeName] = useState('');
   const [isEssential, setIsEssential] = useState(false);
   const [autoPay, setAutoPay] = useState(false);
@@ -49,6 +63,17 @@ export default function AddBillModal() {
     try {
       const dueDayNum = parseInt(dueDay) || 1;
       const today = new Date();
+      const isMonthBased = frequency !== 'weekly' && frequency !== 'biweekly';
+
+      // Only store a custom rule when frequency + due_day can't express the schedule
+      let recurrenceRule: string | null = null;
+      if ((isMonthBased && lastBusinessDay) || weekendAdjustment !== 'none') {
+        const rule = ruleFromFrequency(frequency, today.toISOString(), {
+          dayOfMonth: dueDayNum,
+          weekendAdjustment,
+        });
+        recurrenceRule = formatRecurrenceRule({ ...rule, lastBusinessDay: isMonthBased && lastBusinessDay });
+      }
 
       // Create bill data
       const billData = {
@@ -58,6 +83,7 @@ export default function AddBillModal() {
         frequency: frequency,
         due_day: dueDayNum,
         start_date: today.toISOString(),
+        recurrence_rule: recurrenceRule,
         payee_name: payeeName.trim() || null,
         is_essential: isEssential,
         auto_pay: autoPay,
@@ -139,15 +165,44 @@ export default function AddBillModal() {
             </View>
           </View>
 
+          {frequency !== 'weekly' && frequency !== 'biweekly' && (
+            <>
+              <View style={styles.section}>
+                <View style={styles.toggleRow}>
+                  <SectionHeader title={t('bills.lastBusinessDay')} />
+                  <Toggle value={lastBusinessDay} onValueChange={setLastBusinessDay} />
+                </View>
+              </View>
+
+              {!lastBusinessDay && (
+                <View style={styles.section}>
+                  <Input
+                    label={t('settings.dueDay') || 'Due Day of Month'}
+                    value={dueDay}
+                    onChangeText={setDueDay}
+                    placeholder="1-31"
+                    keyboardType="number-pad"
+                    maxLength={2}
+                  />
+                </View>
+              )}
+            </>
+          )}
+
           <View style={styles.section}>
-            <Input
-              label={t('settings.dueDay') || 'Due Day of Month'}
-              value={dueDay}
-              onChangeText={setDueDay}
-              placeholder="1-31"
-              keyboardType="number-pad"
-              maxLength={2}
-            />
+            <SectionHeader title={t('bills.onWeekends')} />
+            <View style={styles.frequencyGrid}>
+              {weekendOptions.map((option) => (
+                <Chip
+                  key={option.id}
+                  selected={weekendAdjustment === option.id}
+                  onPress={() => setWeekendAdjustment(option.id)}
+                  style={styles.frequencyChip}
+                >
+                  {option.label}
+                </Chip>
+              ))}
+            </View>
           </View>
 
           <View style={styles.section}>
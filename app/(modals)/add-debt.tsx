@@ -49,6 +49,8 @@ export default function AddDebtModal() {
   const [balance, setBalance] = useState('');
   const [interestRate, setInterestRate] = useState('');
   const [minimumPayment, setMinimumPayment] = useState('');
+  const [promoRate, setPromoRate] = useState('');
+  const [promoMonths, setPromoMonths] = useState('');
   const [selectedType, setSelectedType] = useState('credit_card');
   const [selectedIcon, setSelectedIcon] = useState('card-outline');
   const [isSaving, setIsSaving] = useState(false);
@@ -62,6 +64,10 @@ export default function AddDebtModal() {
     try {
       const now = new Date().toISOString();
       const balanceAmount = parseFloat(balance);
+      const promoMonthCount = parseInt(promoMonths, 10);
+      const hasPromo = promoRate.trim() !== '' && promoMonthCount > 0;
+      const promoEnd = new Date();
+      promoEnd.setMonth(promoEnd.getMonth() + promoMonthCount);
       await saveDevDebt({
         id: `debt_${Date.now()}`,
         user_id: 'dev_user',
@@ -70,6 +76,10 @@ export default function AddDebtModal() {
         balance: balanceAmount,
         original_balance: balanceAmount, // Track original balance for progress analytics
         interest_rate: parseFloat(interestRate) || 0,
+        ...(hasPromo && {
+          promo_interest_rate: parseFloat(promoRate) || 0,
+          promo_end_date: promoEnd.toISOString().split('T')[0],
+        }),
         minimum_payment: parseFloat(minimumPayment) || 0,
         icon: selectedIcon,
         status: 'active',
@@ -202,6 +212,30 @@ export default function AddDebtModal() {
             />
           </View>
 
+          {/* Promotional Rate */}
+          <View style={[styles.section, styles.row]}>
+            <View style={styles.flex}>
+              <Input
+                label={t('debts.promoInterestRate')}
+                value={promoRate}
+                onChangeText={setPromoRate}
+                placeholder={t('debts.promoInterestRatePlaceholder')}
+                keyboardType="decimal-pad"
+                testID="promo-rate-input"
+              />
+            </View>
+            <View style={styles.flex}>
+              <Input
+                label={t('debts.promoMonths')}
+                value={promoMonths}
+                onChangeText={setPromoMonths}
+                placeholder={t('debts.promoMonthsPlaceholder')}
+                keyboardType="number-pad"
+                testID="promo-months-input"
+              />
+            </View>
+          </View>
+
           {/* Minimum Payment */}
           <View style={styles.section}>
             <AmountInput
@@ -238,6 +272,10 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: Spacing.lg,
   },
+  row: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
   typeGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
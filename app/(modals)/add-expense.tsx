@@ -13,7 +13,7 @@ import { Input, AmountInput, TextArea } from '../../src/components/ui/Input';
 import { Chip, Toggle } from '../../src/components/ui/Badge';
 import { ModalHeader } from '../../src/components/navigation';
 import { SectionHeader } from '../../src/components/dashboard';
-import { BUDGET_CATEGORIES } from '../../src/constants/categories';
+import { BUDGET_CATEGORIES, matchBudgetCategory, type BudgetCategory } from '../../src/constants/categories';
 // Transaction Store - SINGLE SOURCE OF TRUTH
 import { useTransactionStore, useReceiptStore } from '../../src/stores';
 import { useCurrency } from '../../src/context/CurrencyContext';
@@ -21,6 +21,18 @@ import { successBuzz, errorBuzz, selectionTap } from '../../src/utils/haptics';
 import { useTranslation } from '../../src/context/LanguageContext';
 import { logger } from '../../src/utils/logger';
 import { useUpgradePromptStore } from '../../src/stores';
+import {
+  findIncomingDuplicates,
+  queueIncomingProposal,
+  buildMergeUpdate,
+  type IncomingTransaction,
+} from '../../src/services/reconciliation';
+import { updateTransaction } from '../../src/services/transactions';
+import { saveReceiptItems } from '../../src/services/receiptItems';
+import { splitTransactionByItems } from '../../src/services/transactionSplits';
+import { suggestCategories } from '../../src/services/categoryClassifier';
+import { isDevMode } from '../../src/utils/devMode';
+import type { Transaction } from '../../src/types';
 
 export default function AddExpenseModal() {
   const { t } = useTranslation();
@@ -29,7 +41,7 @@ export default function AddExpenseModal() {
   const params = useLocalSearchParams<{ receiptUri?: string }>();
 
   // Transaction Store
-  const { createTransaction, isLoading } = useTransactionStore();
+  const { createTransaction, fetchTransactions, isLoading } = useTransactionStore();
   const { currencyCode } = useCurrency();
 
   // Contextual Upgrade Engine - screen time tracking
@@ -58,6 +70,7 @@ export default function AddExpenseModal() {
   const [isRecurring, setIsRecurring] = useState(false);
   const [cardLastFour, setCardLastFour] = useState('');
   const [showReceiptImage, setShowReceiptImage] = useState(false);
+  const [suggestions, setSuggestions] = useState<{ category: BudgetCategory; confidence: number }[]>([]);
 
   // Pre-fill form with scanned receipt data
   useEffect(() => {
@@ -117,43 +130,168 @@ export default function AddExpenseModal() {
     };
   }, [lastScanResult]);
 
+  // Suggest categories from the user's history as the merchant and amount are typed
+  useEffect(() => {
+    if (!merchant.trim()) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const ranked = await suggestCategories({
+        merchant_name: merchant.trim(),
+        amount: parseFloat(amount) || undefined,
+        transaction_date: new Date().toISOString().split('T')[0],
+      });
+      if (cancelled) return;
+
+      const mapped: { category: BudgetCategory; confidence: number }[] = [];
+      for (const suggestion of ranked) {
+        const category = matchBudgetCategory(suggestion.categoryId, suggestion.categoryName);
+        if (category && suggestion.confidence > 0 && !mapped.some((m) => m.category.id === category.id)) {
+          mapped.push({ category, confidence: suggestion.confidence });
+        }
+      }
+      setSuggestions(mapped);
+
+      // A scanned receipt without a detected category gets the top suggestion
+      if (lastScanResult && mapped[0]) {
+        setSelectedCategory((current) => current ?? mapped[0].category.id);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [merchant, amount, lastScanResult]);
+
   const isValid = amount && merchant && selectedCategory && parseFloat(amount) > 0;
 
-  const handleSave = async () => {
-    if (!isValid || isLoading) return;
+  const handleSaveError = async (error: unknown) => {
+    // Show error alert with details
+    await errorBuzz();
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    Alert.alert(
+      t('common.error'),
+      `${t('transactions.failedToSave')}: ${errorMessage}`,
+      [{ text: 'OK' }]
+    );
+    logger.transaction.error('Failed to create transaction:', error);
+  };
+
+  // Keep the scanned line items with the saved transaction and split it by item category.
+  // Best effort: the transaction itself is already saved.
+  const saveScannedItems = async (transaction: Transaction) => {
+    if (!lastScanResult?.items?.length) return;
 
     try {
-      // Create the transaction via the store
-      await createTransaction({
-        amount: parseFloat(amount),
-        currency: currencyCode,
-        merchant_name: merchant.trim(),
-        category_id: selectedCategory!,
-        transaction_date: new Date().toISOString().split('T')[0],
-        transaction_type: 'purchase',
-        source: 'manual',
-        notes: notes.trim() || null,
-        is_recurring: isRecurring,
-        card_last_four: cardLastFour || null,
+      const items = await saveReceiptItems(transaction, lastScanResult, {
+        fallbackCategoryId: transaction.category_id,
       });
+      const categories = new Set(items.map(item => item.category_id || transaction.category_id));
+
+      // Splits only exist in the cloud
+      if (categories.size > 1 && !isDevMode()) {
+        await splitTransactionByItems(transaction.id);
+      }
+    } catch (error) {
+      logger.receipt.warn('Failed to save receipt items:', error);
+    }
+  };
+
+  const finishSave = () => {
+    // Track manual entry for Contextual Upgrade Engine (fire-and-forget)
+    upgradeStore.getState().trackManualEntry(merchant.trim(), selectedCategory!);
+
+    // Success - go back (Dashboard will auto-update from store)
+    successBuzz();
+    router.back();
+  };
+
+  const saveTransaction = async (input: IncomingTransaction) => {
+    try {
+      // Create the transaction via the store
+      const transaction = await createTransaction(input);
+      await saveScannedItems(transaction);
+      finishSave();
+    } catch (error) {
+      await handleSaveError(error);
+    }
+  };
 
-      // Track manual entry for Contextual Upgrade Engine (fire-and-forget)
-      upgradeStore.getState().trackManualEntry(merchant.trim(), selectedCategory!);
+  const handleSave = async () => {
+    if (!isValid || isLoading) return;
 
-      // Success - go back (Dashboard will auto-update from store)
-      successBuzz();
-      router.back();
+    const input: IncomingTransaction = {
+      amount: parseFloat(amount),
+      currency: currencyCode,
+      merchant_name: merchant.trim(),
+      merchant_name_clean: null,
+      category_id: selectedCategory!,
+      transaction_date: new Date().toISOString().split('T')[0],
+      transaction_time: null,
+      transaction_type: 'purchase',
+      source: 'manual',
+      card_last_four: cardLastFour || null,
+      bank_name: null,
+      receipt_image_url: null,
+      notes: notes.trim() || null,
+      is_recurring: isRecurring,
+      is_reviewed: false,
+      is_deleted: false,
+      deleted_at: null,
+      metadata: {},
+    };
+
+    // Offer to merge with a matching email/import transaction instead of double counting
+    let match;
+    try {
+      [match] = await findIncomingDuplicates(input);
     } catch (error) {
-      // Show error alert with details
-      await errorBuzz();
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      Alert.alert(
-        t('common.error'),
-        `${t('transactions.failedToSave')}: ${errorMessage}`,
-        [{ text: 'OK' }]
-      );
-      logger.transaction.error('Failed to create transaction:', error);
+      logger.transaction.warn('Duplicate check failed, saving anyway:', error);
     }
+
+    if (!match) {
+      await saveTransaction(input);
+      return;
+    }
+
+    Alert.alert(
+      t('reconciliation.duplicateFoundTitle'),
+      t('reconciliation.duplicateFoundMessage', {
+        merchant: match.transaction.merchant_name,
+        date: match.transaction.transaction_date,
+      }),
+      [
+        {
+          text: t('reconciliation.merge'),
+          onPress: async () => {
+            try {
+              const merged = await updateTransaction(match.transaction.id, buildMergeUpdate(match.transaction, input));
+              await saveScannedItems(merged);
+              await fetchTransactions();
+              finishSave();
+            } catch (error) {
+              await handleSaveError(error);
+            }
+          },
+        },
+        { text: t('reconciliation.saveAnyway'), onPress: () => saveTransaction(input) },
+        {
+          text: t('reconciliation.reviewLater'),
+          onPress: async () => {
+            try {
+              await queueIncomingProposal(input, match);
+              finishSave();
+            } catch (error) {
+              await handleSaveError(error);
+            }
+          },
+        },
+      ]
+    );
   };
 
   return (
@@ -234,6 +372,35 @@ export default function AddExpenseModal() {
           {/* Category - Scrollable Grid */}
           <View style={styles.section}>
             <SectionHeader title={t('transactions.category')} />
+            {suggestions.length > 0 && (
+              <View style={styles.suggestionsRow}>
+                <GradientText variant="muted" style={styles.suggestionsLabel}>
+                  {t('categoryClassifier.suggested')}
+                </GradientText>
+                {suggestions.map(({ category, confidence }) => {
+                  const isSelected = selectedCategory === category.id;
+                  return (
+                    <HapticTouchableOpacity
+                      key={category.id}
+                      testID={`suggested-category-${category.id}`}
+                      onPress={() => { selectionTap(); setSelectedCategory(category.id); }}
+                      style={[styles.categoryChipItem, isSelected && styles.categoryChipSelected]}
+                      activeOpacity={0.7}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('categoryClassifier.suggestionLabel', {
+                        category: category.name,
+                        confidence: Math.round(confidence * 100),
+                      })}
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <Text style={[styles.categoryText, isSelected && styles.categoryTextSelected]}>
+                        {category.name} {Math.round(confidence * 100)}%
+                      </Text>
+                    </HapticTouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
             <View style={styles.categoryContainer}>
               <ScrollView
                 showsVerticalScrollIndicator={false}
@@ -350,6 +517,16 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: Spacing.lg,
   },
+  suggestionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: Spacing.sm,
+  },
+  suggestionsLabel: {
+    fontSize: 12,
+  },
   categoryContainer: {
     maxHeight: 220,
     borderRadius: 12,
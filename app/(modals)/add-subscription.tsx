@@ -30,6 +30,7 @@ export default function AddSubscriptionModal() {
   const [amount, setAmount] = useState('');
   const [frequency, setFrequency] = useState('monthly');
   const [billingDay, setBillingDay] = useState('');
+  const [trialDays, setTrialDays] = useState('');
   const [isSaving, setIsSaving] = useState(false);
 
   // Connect to Zustand store
@@ -61,6 +62,15 @@ export default function AddSubscriptionModal() {
         }
       }
 
+      // A free trial bills for the first time when it ends
+      const trialDaysNum = parseInt(trialDays) || 0;
+      let trialEndDate: string | null = null;
+      if (trialDaysNum > 0) {
+        const trialEnd = new Date(today.getFullYear(), today.getMonth(), today.getDate() + trialDaysNum);
+        trialEndDate = trialEnd.toISOString().split('T')[0];
+        nextBillingDate = trialEnd;
+      }
+
       // Create subscription data - use correct field names expected by service
       const subscriptionData = {
         merchant_name: name.trim(),
@@ -69,6 +79,7 @@ export default function AddSubscriptionModal() {
         frequency: frequency as 'weekly' | 'monthly' | 'quarterly' | 'yearly',
         billing_day: billingDayNum,
         next_billing_date: nextBillingDate.toISOString().split('T')[0],
+        trial_end_date: trialEndDate,
         status: 'active' as const,
         currency: currencyCode,
       };
@@ -122,6 +133,10 @@ export default function AddSubscriptionModal() {
             <Input label={t('subscriptions.nextBilling')} value={billingDay} onChangeText={setBillingDay} placeholder="1-31" keyboardType="number-pad" maxLength={2} />
           </View>
 
+          <View style={styles.section}>
+            <Input label={t('subscriptions.freeTrialDays')} value={trialDays} onChangeText={setTrialDays} placeholder={t('subscriptions.freeTrialDaysPlaceholder')} keyboardType="number-pad" maxLength={3} />
+          </View>
+
           <View style={{ height: Spacing.xxl }} />
         </ScrollView>
       </KeyboardAvoidingView>
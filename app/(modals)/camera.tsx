@@ -9,12 +9,13 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Colors, FontFamily, FontSize, Spacing, BorderRadius } from '../../src/design/cinematic';
 import { GradientText } from '../../src/components/ui/GradientText';
 import { Button, IconButton } from '../../src/components/ui/Button';
-import { CloseIcon, CameraIcon } from '../../src/components/icons';
+import { CloseIcon, CameraIcon, CheckIcon, TrashIcon } from '../../src/components/icons';
 import { AnimatedScanIcon } from '../../src/components/icons/AnimatedIcons';
 import { useTranslation } from '../../src/context/LanguageContext';
 import { useReceiptStore } from '../../src/stores/receiptStore';
 import { OfflineReceiptBanner } from '../../src/components/receipt/OfflineReceiptBanner';
 import { hasPremiumAccess } from '../../src/stores/tierStore';
+import { MAX_RECEIPT_PAGES } from '../../src/services/receiptScanner';
 
 export default function CameraModal() {
   const { t } = useTranslation();
@@ -23,6 +24,8 @@ export default function CameraModal() {
   const cameraRef = useRef<CameraView>(null);
   const [permission, requestPermission] = useCameraPermissions();
   const [isCapturing, setIsCapturing] = useState(false);
+  // Photos of the current receipt - long receipts are captured in overlapping parts
+  const [pages, setPages] = useState<string[]>([]);
 
   // Receipt store for offline handling
   const {
@@ -53,7 +56,7 @@ export default function CameraModal() {
   };
 
   const takePicture = async () => {
-    if (!cameraRef.current || isCapturing) return;
+    if (!cameraRef.current || isCapturing || pages.length >= MAX_RECEIPT_PAGES) return;
 
     setIsCapturing(true);
     try {
@@ -63,18 +66,37 @@ export default function CameraModal() {
         throw new Error('No photo URI returned from camera');
       }
 
-      logger.receipt.info('Photo taken:', photo.uri);
+      logger.receipt.info(`Photo taken (page ${pages.length + 1}):`, photo.uri);
+      setPages(current => [...current, photo.uri]);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to capture photo');
+      handleCameraError(err, 'Failed to take picture');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
 
-      // Attempt to scan with offline handling
-      const result = await scanReceiptWithOffline(photo.uri);
+  const removeLastPage = () => {
+    setPages(current => current.slice(0, -1));
+  };
+
+  const scanPages = async () => {
+    if (pages.length === 0 || isScanning) return;
+
+    const receiptUri = pages[0];
+    try {
+      // Attempt to scan with offline handling; all pages count as one receipt
+      const result = await scanReceiptWithOffline(pages.length === 1 ? receiptUri : pages);
 
       if (result.success) {
         // Online scan succeeded - go to add expense with scanned data
+        setPages([]);
         router.push({
           pathname: '/(modals)/add-expense',
-          params: { receiptUri: photo.uri },
+          params: { receiptUri },
         });
       } else if (result.error === 'OFFLINE_QUEUED') {
+        setPages([]);
         // Receipt queued for later processing
         Alert.alert(
           t('camera.offlineTitle') || 'Receipt Saved Offline',
@@ -82,7 +104,6 @@ export default function CameraModal() {
           [
             {
               text: t('camera.captureAnother') || 'Capture Another',
-              onPress: () => setIsCapturing(false),
             },
             {
               text: t('common.done') || 'Done',
@@ -105,17 +126,15 @@ export default function CameraModal() {
               text: t('camera.addManually') || 'Add Manually',
               onPress: () => router.push({
                 pathname: '/(modals)/add-expense',
-                params: { receiptUri: photo.uri },
+                params: { receiptUri },
               }),
             },
           ]
         );
       }
     } catch (error) {
-      const err = error instanceof Error ? error : new Error('Failed to capture photo');
-      handleCameraError(err, 'Failed to take picture');
-    } finally {
-      setIsCapturing(false);
+      const err = error instanceof Error ? error : new Error('Failed to scan receipt');
+      handleCameraError(err, 'Failed to scan receipt');
     }
   };
 
@@ -204,7 +223,7 @@ export default function CameraModal() {
               </View>
             </View>
             <GradientText variant="muted" style={styles.hint}>
-              {t('camera.positionReceipt')}
+              {pages.length === 0 ? t('camera.positionReceipt') : t('camera.captureNextPart')}
             </GradientText>
           </View>
 
@@ -237,18 +256,49 @@ export default function CameraModal() {
             colors={['transparent', Colors.void]}
             style={[styles.gradientBottom, { paddingBottom: insets.bottom + Spacing.lg }]}
           >
-            <Pressable
-              onPress={takePicture}
-              disabled={isCapturing || isScanning}
-              style={[styles.captureButton, (isCapturing || isScanning) && styles.captureButtonDisabled]}
-            >
-              <LinearGradient
-                colors={Colors.gradients.buttonPrimary}
-                style={styles.captureButtonGradient}
+            {pages.length > 0 && (
+              <Text style={styles.pageCount}>
+                {t('camera.pagesCaptured', { count: pages.length, max: MAX_RECEIPT_PAGES })}
+              </Text>
+            )}
+            <View style={styles.controls}>
+              <View style={styles.sideControl}>
+                {pages.length > 0 && (
+                  <IconButton
+                    icon={<TrashIcon size={22} color={Colors.text.primary} />}
+                    onPress={removeLastPage}
+                    variant="default"
+                    accessibilityLabel={t('camera.removeLastPage')}
+                  />
+                )}
+              </View>
+              <Pressable
+                onPress={takePicture}
+                disabled={isCapturing || isScanning || pages.length >= MAX_RECEIPT_PAGES}
+                style={[
+                  styles.captureButton,
+                  (isCapturing || isScanning || pages.length >= MAX_RECEIPT_PAGES) && styles.captureButtonDisabled,
+                ]}
               >
-                <View style={styles.captureButtonInner} />
-              </LinearGradient>
-            </Pressable>
+                <LinearGradient
+                  colors={Colors.gradients.buttonPrimary}
+                  style={styles.captureButtonGradient}
+                >
+                  <View style={styles.captureButtonInner} />
+                </LinearGradient>
+              </Pressable>
+              <View style={styles.sideControl}>
+                {pages.length > 0 && (
+                  <IconButton
+                    icon={<CheckIcon size={22} color={Colors.neon} />}
+                    onPress={scanPages}
+                    disabled={isScanning}
+                    variant="default"
+                    accessibilityLabel={t('camera.scanPages')}
+                  />
+                )}
+              </View>
+            </View>
           </LinearGradient>
         </View>
       </CameraView>
@@ -383,6 +433,22 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingTop: Spacing.xxl,
   },
+  pageCount: {
+    fontFamily: FontFamily.medium,
+    fontSize: FontSize.sm,
+    color: Colors.text.secondary,
+    marginBottom: Spacing.md,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sideControl: {
+    width: 44,
+    marginHorizontal: Spacing.xl,
+    alignItems: 'center',
+  },
   captureButton: {
     width: 72,
     height: 72,
@@ -0,0 +1,459 @@
+// SPENDTRAK CINEMATIC EDITION - Categorization Rule Modal
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Text, KeyboardAvoidingView, Platform, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Colors, Spacing, FontFamily, FontSize } from '../../src/design/cinematic';
+import { useTranslation } from '../../src/context/LanguageContext';
+import { Input } from '../../src/components/ui/Input';
+import { Chip, Toggle } from '../../src/components/ui/Badge';
+import { Button } from '../../src/components/ui/Button';
+import { GradientText } from '../../src/components/ui/GradientText';
+import { ModalHeader } from '../../src/components/navigation';
+import { SectionHeader } from '../../src/components/dashboard';
+import { BUDGET_CATEGORIES } from '../../src/constants/categories';
+import { useTransactionStore } from '../../src/stores/transactionStore';
+import {
+  getRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  previewRuleOnPast,
+  applyRuleToPast,
+  isValidMerchantPattern,
+  escapeMerchantPattern,
+  type RuleInput,
+  type RulePreviewItem,
+} from '../../src/services/categorizationRules';
+import type { CategorizationRule, TransactionSource } from '../../src/types';
+import { logger } from '../../src/utils/logger';
+
+const sources: { id: TransactionSource | null; labelKey: string }[] = [
+  { id: null, labelKey: 'categorizationRules.anySource' },
+  { id: 'email', labelKey: 'categorizationRules.sourceEmail' },
+  { id: 'receipt', labelKey: 'categorizationRules.sourceReceipt' },
+  { id: 'manual', labelKey: 'categorizationRules.sourceManual' },
+  { id: 'import', labelKey: 'categorizationRules.sourceImport' },
+];
+
+const recurringOptions: { id: boolean | null; labelKey: string }[] = [
+  { id: null, labelKey: 'categorizationRules.leaveAsIs' },
+  { id: true, labelKey: 'categorizationRules.markRecurring' },
+  { id: false, labelKey: 'categorizationRules.markNotRecurring' },
+];
+
+// Past transactions listed in the preview; the rest are applied unseen
+const PREVIEW_LIMIT = 20;
+
+const toInput = (value: number | string | null | undefined) => (value != null ? String(value) : '');
+const toAmount = (text: string) => (text.trim() ? parseFloat(text) : null);
+const toText = (text: string) => text.trim() || null;
+
+export default function CategorizationRuleModal() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { id, merchant, categoryId } = useLocalSearchParams<{ id?: string; merchant?: string; categoryId?: string }>();
+  const { fetchTransactions } = useTransactionStore();
+
+  const [existing, setExisting] = useState<CategorizationRule | null>(null);
+  const [name, setName] = useState(merchant ?? '');
+  const [pattern, setPattern] = useState(merchant ? escapeMerchantPattern(merchant) : '');
+  const [amountMin, setAmountMin] = useState('');
+  const [amountMax, setAmountMax] = useState('');
+  const [cardLastFour, setCardLastFour] = useState('');
+  const [bankName, setBankName] = useState('');
+  const [source, setSource] = useState<TransactionSource | null>(null);
+  const [category, setCategory] = useState<string | null>(categoryId ?? null);
+  const [renameTo, setRenameTo] = useState('');
+  const [appendNotes, setAppendNotes] = useState('');
+  const [recurring, setRecurring] = useState<boolean | null>(null);
+  const [isActive, setIsActive] = useState(true);
+  const [preview, setPreview] = useState<RulePreviewItem[] | null>(null);
+  const [selectedPast, setSelectedPast] = useState<Set<string>>(new Set());
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    getRules()
+      .then((rules) => {
+        const rule = rules.find((r) => r.id === id);
+        if (!rule) return;
+        setExisting(rule);
+        setName(rule.name);
+        setPattern(rule.merchant_pattern ?? '');
+        setAmountMin(toInput(rule.amount_min));
+        setAmountMax(toInput(rule.amount_max));
+        setCardLastFour(rule.card_last_four ?? '');
+        setBankName(rule.bank_name ?? '');
+        setSource(rule.source);
+        setCategory(BUDGET_CATEGORIES.some((c) => c.id === rule.set_category_id) ? rule.set_category_id : null);
+        setRenameTo(rule.set_merchant_name ?? '');
+        setAppendNotes(rule.append_notes ?? '');
+        setRecurring(rule.set_recurring);
+        setIsActive(rule.is_active);
+      })
+      .catch((error) => logger.transaction.error('Failed to load categorization rule:', error));
+  }, [id]);
+
+  const patternValid = !pattern.trim() || isValidMerchantPattern(pattern.trim());
+  const min = toAmount(amountMin);
+  const max = toAmount(amountMax);
+  const rangeValid = min === null || max === null || min <= max;
+  const hasAction = Boolean(category || renameTo.trim() || appendNotes.trim() || recurring !== null);
+  const isValid = name.trim().length > 0 && patternValid && rangeValid && hasAction && !isSaving;
+
+  const buildRule = (): RuleInput => ({
+    name: name.trim(),
+    is_active: isActive,
+    merchant_pattern: toText(pattern),
+    amount_min: min,
+    amount_max: max,
+    card_last_four: toText(cardLastFour),
+    source,
+    bank_name: toText(bankName),
+    // Keep a category the picker can't show (e.g. a custom one) unless the user picks another
+    set_category_id: category ?? (existing && !BUDGET_CATEGORIES.some((c) => c.id === existing.set_category_id) ? existing.set_category_id : null),
+    set_merchant_name: toText(renameTo),
+    append_notes: toText(appendNotes),
+    set_recurring: recurring,
+  });
+
+  const handlePreview = async () => {
+    if (!patternValid || !rangeValid || !hasAction) return;
+    setIsPreviewing(true);
+    try {
+      const items = await previewRuleOnPast(buildRule());
+      setPreview(items);
+      setSelectedPast(new Set(items.map((item) => item.transaction.id)));
+    } catch (error) {
+      logger.transaction.error('Failed to preview categorization rule:', error);
+      Alert.alert(t('common.error'), (error as Error).message);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const togglePast = (transactionId: string) => {
+    setSelectedPast((current) => {
+      const next = new Set(current);
+      if (next.has(transactionId)) next.delete(transactionId);
+      else next.add(transactionId);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      const rule = existing ? await updateRule(existing.id, buildRule()) : await createRule(buildRule());
+
+      if (preview && selectedPast.size > 0) {
+        const updated = await applyRuleToPast(rule, [...selectedPast]);
+        await fetchTransactions();
+        Alert.alert(t('common.success'), t('categorizationRules.appliedToPast', { count: updated }));
+      }
+      router.back();
+    } catch (error) {
+      logger.transaction.error('Failed to save categorization rule:', error);
+      Alert.alert(t('common.error'), t('categorizationRules.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!existing) return;
+    Alert.alert(
+      t('categorizationRules.deleteRule'),
+      t('categorizationRules.deleteConfirm', { name: existing.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteRule(existing.id);
+              router.back();
+            } catch (error) {
+              logger.transaction.error('Failed to delete categorization rule:', error);
+              Alert.alert(t('common.error'), (error as Error).message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const categoryName = (value: string | null | undefined) =>
+    BUDGET_CATEGORIES.find((c) => c.id === value)?.name ?? value ?? '—';
+
+  return (
+    <View style={styles.container}>
+      <View style={{ paddingTop: insets.top }}>
+        <ModalHeader
+          title={t(existing ? 'categorizationRules.editRule' : 'categorizationRules.newRule')}
+          onClose={() => router.back()}
+          onSave={handleSave}
+          saveDisabled={!isValid}
+          saveLabel={isSaving ? t('common.loading') : t('common.save')}
+        />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.section}>
+            <Input
+              label={t('categorizationRules.name')}
+              value={name}
+              onChangeText={setName}
+              placeholder={t('categorizationRules.namePlaceholder')}
+            />
+          </View>
+          {existing && (
+            <View style={styles.toggleRow}>
+              <GradientText variant="bright">{t('categorizationRules.active')}</GradientText>
+              <Toggle value={isActive} onValueChange={setIsActive} />
+            </View>
+          )}
+
+          {/* Conditions */}
+          <SectionHeader title={t('categorizationRules.conditions')} />
+          <View style={styles.section}>
+            <Input
+              label={t('categorizationRules.merchantPattern')}
+              value={pattern}
+              onChangeText={(text) => { setPattern(text); setPreview(null); }}
+              placeholder="starbucks|costa"
+              autoCapitalize="none"
+              autoCorrect={false}
+              hint={t('categorizationRules.merchantPatternHint')}
+              error={patternValid ? undefined : t('categorizationRules.invalidPattern')}
+            />
+          </View>
+          <View style={styles.row}>
+            <View style={styles.flex}>
+              <Input
+                label={t('categorizationRules.amountMin')}
+                value={amountMin}
+                onChangeText={(text) => { setAmountMin(text); setPreview(null); }}
+                placeholder="0.00"
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <View style={styles.flex}>
+              <Input
+                label={t('categorizationRules.amountMax')}
+                value={amountMax}
+                onChangeText={(text) => { setAmountMax(text); setPreview(null); }}
+                placeholder="0.00"
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </View>
+          {!rangeValid && (
+            <Text style={styles.hint}>{t('categorizationRules.amountRangeInvalid')}</Text>
+          )}
+          <View style={styles.section}>
+            <Input
+              label={t('categorizationRules.cardLastFour')}
+              value={cardLastFour}
+              onChangeText={(text) => { setCardLastFour(text.replace(/\D/g, '').slice(0, 4)); setPreview(null); }}
+              placeholder="1234"
+              keyboardType="number-pad"
+            />
+          </View>
+          <View style={styles.section}>
+            <Input
+              label={t('categorizationRules.bankName')}
+              value={bankName}
+              onChangeText={(text) => { setBankName(text); setPreview(null); }}
+            />
+          </View>
+          <GradientText variant="muted" style={styles.label}>{t('categorizationRules.source')}</GradientText>
+          <View style={styles.chips}>
+            {sources.map((option) => (
+              <Chip
+                key={option.labelKey}
+                selected={source === option.id}
+                onPress={() => { setSource(option.id); setPreview(null); }}
+              >
+                {t(option.labelKey)}
+              </Chip>
+            ))}
+          </View>
+
+          {/* Actions */}
+          <SectionHeader title={t('categorizationRules.actions')} />
+          <GradientText variant="muted" style={styles.label}>{t('categorizationRules.setCategory')}</GradientText>
+          <View style={styles.chips}>
+            {BUDGET_CATEGORIES.map((option) => (
+              <Chip
+                key={option.id}
+                selected={category === option.id}
+                onPress={() => { setCategory(category === option.id ? null : option.id); setPreview(null); }}
+              >
+                {option.name}
+              </Chip>
+            ))}
+          </View>
+          <View style={styles.section}>
+            <Input
+              label={t('categorizationRules.renameMerchant')}
+              value={renameTo}
+              onChangeText={(text) => { setRenameTo(text); setPreview(null); }}
+            />
+          </View>
+          <View style={styles.section}>
+            <Input
+              label={t('categorizationRules.appendNotes')}
+              value={appendNotes}
+              onChangeText={(text) => { setAppendNotes(text); setPreview(null); }}
+            />
+          </View>
+          <GradientText variant="muted" style={styles.label}>{t('categorizationRules.recurring')}</GradientText>
+          <View style={styles.chips}>
+            {recurringOptions.map((option) => (
+              <Chip
+                key={option.labelKey}
+                selected={recurring === option.id}
+                onPress={() => { setRecurring(option.id); setPreview(null); }}
+              >
+                {t(option.labelKey)}
+              </Chip>
+            ))}
+          </View>
+          {!hasAction && (
+            <Text style={styles.hint}>{t('categorizationRules.needsAction')}</Text>
+          )}
+
+          {/* Apply to past transactions */}
+          <SectionHeader title={t('categorizationRules.pastTransactions')} />
+          {preview === null ? (
+            <Button
+              variant="secondary"
+              fullWidth
+              onPress={handlePreview}
+              loading={isPreviewing}
+              disabled={!patternValid || !rangeValid || !hasAction}
+            >
+              {t('categorizationRules.previewPast')}
+            </Button>
+          ) : preview.length === 0 ? (
+            <GradientText variant="subtle">{t('categorizationRules.noPastMatches')}</GradientText>
+          ) : (
+            <>
+              <GradientText variant="subtle" style={styles.previewSummary}>
+                {t('categorizationRules.pastMatches', { count: preview.length })}
+              </GradientText>
+              {preview.slice(0, PREVIEW_LIMIT).map(({ transaction, changes }) => (
+                <View key={transaction.id} style={styles.previewRow}>
+                  <Chip selected={selectedPast.has(transaction.id)} onPress={() => togglePast(transaction.id)}>
+                    {transaction.transaction_date}
+                  </Chip>
+                  <View style={styles.previewText}>
+                    <GradientText variant="bright" numberOfLines={1}>
+                      {changes.merchant_name ? `${transaction.merchant_name} → ${changes.merchant_name}` : transaction.merchant_name}
+                    </GradientText>
+                    {changes.category_id !== undefined && (
+                      <GradientText variant="subtle" style={styles.previewDetail}>
+                        {`${transaction.category?.name ?? categoryName(transaction.category_id)} → ${categoryName(category ?? changes.category_id)}`}
+                      </GradientText>
+                    )}
+                  </View>
+                </View>
+              ))}
+              <GradientText variant="muted" style={styles.previewSummary}>
+                {t('categorizationRules.applyToPast', { count: selectedPast.size })}
+              </GradientText>
+            </>
+          )}
+
+          {existing && (
+            <Button variant="danger" fullWidth onPress={handleDelete} style={styles.removeButton}>
+              {t('categorizationRules.deleteRule')}
+            </Button>
+          )}
+
+          <View style={{ height: Spacing.xxl }} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.void,
+  },
+  flex: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.lg,
+  },
+  section: {
+    marginBottom: Spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.lg,
+  },
+  label: {
+    fontSize: FontSize.caption,
+    marginBottom: Spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  hint: {
+    fontSize: FontSize.caption,
+    fontFamily: FontFamily.regular,
+    color: Colors.status.warning,
+    marginBottom: Spacing.md,
+  },
+  previewSummary: {
+    fontSize: FontSize.caption,
+    marginBottom: Spacing.md,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  previewText: {
+    flex: 1,
+  },
+  previewDetail: {
+    fontSize: FontSize.caption,
+  },
+  removeButton: {
+    marginTop: Spacing.xl,
+  },
+});
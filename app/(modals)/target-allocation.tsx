@@ -0,0 +1,190 @@
+// SPENDTRAK CINEMATIC EDITION - Target Allocation Modal
+import React, { useState, useMemo } from 'react';
+import { View, ScrollView, StyleSheet, Text, KeyboardAvoidingView, Platform, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Colors, Spacing, FontFamily, FontSize } from '../../src/design/cinematic';
+import { useTranslation } from '../../src/context/LanguageContext';
+import { Input } from '../../src/components/ui/Input';
+import { Chip } from '../../src/components/ui/Badge';
+import { ModalHeader } from '../../src/components/navigation';
+import { SectionHeader } from '../../src/components/dashboard';
+import { useInvestmentStore } from '../../src/stores/investmentStore';
+import type { InvestmentType, TargetAllocation } from '../../src/types';
+import { logger } from '../../src/utils/logger';
+
+type TargetType = TargetAllocation['target_type'];
+
+const assetClasses: { id: InvestmentType; labelKey: string }[] = [
+  { id: 'stock', labelKey: 'settings.typeStock' },
+  { id: 'etf', labelKey: 'settings.typeETF' },
+  { id: 'mutual_fund', labelKey: 'settings.typeMutualFund' },
+  { id: 'bond', labelKey: 'settings.typeBond' },
+  { id: 'cryptocurrency', labelKey: 'settings.typeCrypto' },
+  { id: 'real_estate', labelKey: 'settings.typeRealEstate' },
+  { id: 'commodity', labelKey: 'settings.typeCommodity' },
+  { id: 'cash', labelKey: 'settings.typeCash' },
+  { id: 'other', labelKey: 'settings.typeOther' },
+];
+
+const toInputs = (allocations: Record<string, number>): Record<string, string> =>
+  Object.fromEntries(Object.entries(allocations).map(([key, value]) => [key, String(value)]));
+
+export default function TargetAllocationModal() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+
+  const { holdings, cryptoHoldings, targetAllocation, saveTargetAllocation } = useInvestmentStore();
+
+  const [targetType, setTargetType] = useState<TargetType>(targetAllocation?.target_type ?? 'type');
+  const [percentages, setPercentages] = useState<Record<string, string>>(
+    toInputs(targetAllocation?.allocations ?? {})
+  );
+  const [driftThreshold, setDriftThreshold] = useState(String(targetAllocation?.drift_threshold ?? 5));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Holdings that share a symbol are targeted together
+  const rows = useMemo(() => {
+    if (targetType === 'type') {
+      return assetClasses.map((c) => ({ key: c.id as string, label: t(c.labelKey) }));
+    }
+    const bySymbol = new Map<string, string>();
+    for (const h of [...holdings, ...cryptoHoldings]) {
+      const symbol = h.symbol.toUpperCase();
+      if (!bySymbol.has(symbol)) bySymbol.set(symbol, `${h.name} (${symbol})`);
+    }
+    return [...bySymbol.entries()].map(([key, label]) => ({ key, label }));
+  }, [targetType, holdings, cryptoHoldings, t]);
+
+  const total = rows.reduce((sum, row) => sum + (parseFloat(percentages[row.key]) || 0), 0);
+  const isValid = Math.abs(total - 100) <= 0.01 && !isSaving;
+
+  const handleTypeChange = (type: TargetType) => {
+    if (type === targetType) return;
+    setTargetType(type);
+    setPercentages(targetAllocation?.target_type === type ? toInputs(targetAllocation.allocations) : {});
+  };
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      await saveTargetAllocation({
+        target_type: targetType,
+        allocations: Object.fromEntries(rows.map((row) => [row.key, parseFloat(percentages[row.key]) || 0])),
+        drift_threshold: parseFloat(driftThreshold) || 0,
+      });
+      router.back();
+    } catch (error) {
+      logger.investment.error('Failed to save target allocation:', error);
+      Alert.alert(t('common.error'), (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={{ paddingTop: insets.top }}>
+        <ModalHeader
+          title={t('settings.targetAllocation')}
+          onClose={() => router.back()}
+          onSave={handleSave}
+          saveDisabled={!isValid}
+          saveLabel={isSaving ? t('common.loading') : t('common.save')}
+        />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Target Type */}
+          <View style={styles.typeRow}>
+            <Chip selected={targetType === 'type'} onPress={() => handleTypeChange('type')}>
+              {t('settings.byAssetClass')}
+            </Chip>
+            <Chip selected={targetType === 'holding'} onPress={() => handleTypeChange('holding')}>
+              {t('settings.byHolding')}
+            </Chip>
+          </View>
+
+          {/* Percentages */}
+          <View style={styles.section}>
+            <SectionHeader
+              title={t('settings.targetAllocation')}
+              action={t('settings.targetTotal', { percent: total.toFixed(1) })}
+            />
+            {rows.map((row) => (
+              <View key={row.key} style={styles.row}>
+                <Input
+                  label={row.label}
+                  value={percentages[row.key] ?? ''}
+                  onChangeText={(text) => setPercentages((prev) => ({ ...prev, [row.key]: text }))}
+                  placeholder="0"
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            ))}
+            {!isValid && !isSaving && (
+              <Text style={styles.hint}>{t('settings.targetsMustTotal100')}</Text>
+            )}
+          </View>
+
+          {/* Drift Threshold */}
+          <View style={styles.section}>
+            <Input
+              label={t('settings.driftThreshold')}
+              value={driftThreshold}
+              onChangeText={setDriftThreshold}
+              placeholder="5"
+              keyboardType="decimal-pad"
+            />
+          </View>
+
+          <View style={{ height: Spacing.xxl }} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.void,
+  },
+  flex: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.lg,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  row: {
+    marginBottom: Spacing.sm,
+  },
+  hint: {
+    fontSize: FontSize.caption,
+    fontFamily: FontFamily.regular,
+    color: Colors.status.warning,
+    marginTop: Spacing.xs,
+  },
+});
@@ -0,0 +1,227 @@
+// SPENDTRAK CINEMATIC EDITION - Watchlist Item Modal
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet, Text, KeyboardAvoidingView, Platform, Alert } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Colors, Spacing, FontFamily, FontSize } from '../../src/design/cinematic';
+import { useTranslation } from '../../src/context/LanguageContext';
+import { Input } from '../../src/components/ui/Input';
+import { Chip } from '../../src/components/ui/Badge';
+import { Button } from '../../src/components/ui/Button';
+import { ModalHeader } from '../../src/components/navigation';
+import { useInvestmentStore } from '../../src/stores/investmentStore';
+import type { InvestmentType } from '../../src/types';
+import { logger } from '../../src/utils/logger';
+
+const watchTypes: { id: InvestmentType; labelKey: string }[] = [
+  { id: 'stock', labelKey: 'settings.typeStock' },
+  { id: 'etf', labelKey: 'settings.typeETF' },
+  { id: 'cryptocurrency', labelKey: 'settings.typeCrypto' },
+];
+
+const toInput = (value: number | null | undefined) => (value ? String(value) : '');
+const toLevel = (text: string) => (text.trim() ? parseFloat(text) : null);
+
+export default function WatchlistItemModal() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+
+  const { watchlist, addToWatchlist, updateWatchlistItem, removeFromWatchlist } = useInvestmentStore();
+  const existing = id ? watchlist.find((item) => item.id === id) : undefined;
+
+  const [symbol, setSymbol] = useState(existing?.symbol ?? '');
+  const [name, setName] = useState(existing?.name ?? '');
+  const [investmentType, setInvestmentType] = useState<InvestmentType>(existing?.investment_type ?? 'stock');
+  const [targetPrice, setTargetPrice] = useState(toInput(existing?.target_price));
+  const [alertAbove, setAlertAbove] = useState(toInput(existing?.alert_above));
+  const [alertBelow, setAlertBelow] = useState(toInput(existing?.alert_below));
+  const [percentChange, setPercentChange] = useState(toInput(existing?.alert_percent_change));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const levels = [targetPrice, alertAbove, alertBelow, percentChange].map(toLevel);
+  const levelsValid = levels.every((level) => level === null || level > 0);
+  const isValid = symbol.trim().length > 0 && levelsValid && !isSaving;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    const [target_price, alert_above, alert_below, alert_percent_change] = levels;
+    setIsSaving(true);
+    try {
+      if (existing) {
+        await updateWatchlistItem(existing.id, {
+          name: name.trim() || existing.symbol,
+          target_price,
+          alert_above,
+          alert_below,
+          alert_percent_change,
+        });
+      } else {
+        await addToWatchlist({
+          symbol,
+          name,
+          investment_type: investmentType,
+          target_price,
+          alert_above,
+          alert_below,
+          alert_percent_change,
+        });
+      }
+      router.back();
+    } catch (error) {
+      logger.investment.error('Failed to save watchlist item:', error);
+      Alert.alert(t('common.error'), (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!existing) return;
+    try {
+      await removeFromWatchlist(existing.id);
+      router.back();
+    } catch (error) {
+      logger.investment.error('Failed to remove watchlist item:', error);
+      Alert.alert(t('common.error'), (error as Error).message);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={{ paddingTop: insets.top }}>
+        <ModalHeader
+          title={t(existing ? 'settings.editWatchlistItem' : 'settings.addToWatchlist')}
+          onClose={() => router.back()}
+          onSave={handleSave}
+          saveDisabled={!isValid}
+          saveLabel={isSaving ? t('common.loading') : t('common.save')}
+        />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Symbol */}
+          <View style={styles.section}>
+            <Input
+              label={t('settings.symbol')}
+              value={symbol}
+              onChangeText={setSymbol}
+              placeholder="AAPL"
+              autoCapitalize="characters"
+              editable={!existing}
+            />
+          </View>
+          <View style={styles.section}>
+            <Input
+              label={t('settings.watchlistName')}
+              value={name}
+              onChangeText={setName}
+              placeholder="Apple Inc."
+            />
+          </View>
+          {!existing && (
+            <View style={styles.typeRow}>
+              {watchTypes.map((type) => (
+                <Chip key={type.id} selected={investmentType === type.id} onPress={() => setInvestmentType(type.id)}>
+                  {t(type.labelKey)}
+                </Chip>
+              ))}
+            </View>
+          )}
+
+          {/* Alerts */}
+          <View style={styles.section}>
+            <Input
+              label={t('settings.targetPrice')}
+              value={targetPrice}
+              onChangeText={setTargetPrice}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={styles.section}>
+            <Input
+              label={t('settings.alertAbove')}
+              value={alertAbove}
+              onChangeText={setAlertAbove}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={styles.section}>
+            <Input
+              label={t('settings.alertBelow')}
+              value={alertBelow}
+              onChangeText={setAlertBelow}
+              placeholder="0.00"
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={styles.section}>
+            <Input
+              label={t('settings.alertPercentMove')}
+              value={percentChange}
+              onChangeText={setPercentChange}
+              placeholder="5"
+              keyboardType="decimal-pad"
+            />
+          </View>
+          {!levelsValid && (
+            <Text style={styles.hint}>{t('settings.alertLevelsPositive')}</Text>
+          )}
+
+          {existing && (
+            <Button variant="danger" fullWidth onPress={handleRemove} style={styles.removeButton}>
+              {t('settings.removeFromWatchlist')}
+            </Button>
+          )}
+
+          <View style={{ height: Spacing.xxl }} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.void,
+  },
+  flex: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: Spacing.lg,
+  },
+  section: {
+    marginBottom: Spacing.md,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  hint: {
+    fontSize: FontSize.caption,
+    fontFamily: FontFamily.regular,
+    color: Colors.status.warning,
+    marginBottom: Spacing.md,
+  },
+  removeButton: {
+    marginTop: Spacing.lg,
+  },
+});
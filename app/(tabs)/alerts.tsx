@@ -34,6 +34,7 @@ import {
   getDevDebts,
   getDevTransactions,
 } from '../../src/services/devStorage';
+import { getAlerts } from '../../src/services/alerts';
 import { logger } from '../../src/utils/logger';
 
 const DELETE_THRESHOLD = 100;
@@ -487,6 +488,38 @@ async function generateSpendingAlerts(
   return alerts;
 }
 
+async function generateWatchlistAlerts(
+  t: (key: string, params?: Record<string, string | number>) => string,
+): Promise<AppAlert[]> {
+  const alerts: AppAlert[] = [];
+
+  try {
+    // Price alerts are raised when watchlist quotes refresh and stored server-side
+    const { data } = await getAlerts({ type: 'price_target', pageSize: 10 });
+    const now = Date.now();
+
+    for (const alert of data) {
+      const createdAt = new Date(alert.created_at).getTime();
+      const daysAgo = Math.floor((now - createdAt) / (1000 * 60 * 60 * 24));
+      alerts.push({
+        id: `price_${alert.id}`,
+        type: 'price_target',
+        title: alert.title,
+        message: alert.message,
+        severity: 'info',
+        time: daysAgo === 0 ? t('alerts.todayTime') : t('alerts.daysAgo', { days: daysAgo }),
+        read: false,
+        route: '/settings/investments',
+        createdAt,
+      });
+    }
+  } catch (error) {
+    logger.general.error('Error loading watchlist alerts:', error);
+  }
+
+  return alerts;
+}
+
 /**
  * Generate all alerts from real app data
  */
@@ -494,13 +527,14 @@ async function generateAllAlerts(
   formatCurrency: (amount: number) => string,
   t: (key: string, params?: Record<string, any>) => string,
 ): Promise<AppAlert[]> {
-  const [budgetAlerts, goalAlerts, subAlerts, billAlerts, debtAlerts, spendingAlerts] = await Promise.all([
+  const [budgetAlerts, goalAlerts, subAlerts, billAlerts, debtAlerts, spendingAlerts, watchlistAlerts] = await Promise.all([
     generateBudgetAlerts(formatCurrency, t),
     generateGoalAlerts(formatCurrency, t),
     generateSubscriptionAlerts(formatCurrency, t),
     generateBillAlerts(formatCurrency, t),
     generateDebtAlerts(formatCurrency, t),
     generateSpendingAlerts(formatCurrency, t),
+    generateWatchlistAlerts(t),
   ]);
 
   const all = [
@@ -510,6 +544,7 @@ async function generateAllAlerts(
     ...billAlerts,
     ...debtAlerts,
     ...spendingAlerts,
+    ...watchlistAlerts,
   ];
 
   // Sort: errors first, then warnings, then info, then success — and by createdAt
@@ -850,6 +885,7 @@ function AlertsScreen() {
         return <CalendarIcon size={20} color={color} />;
       case 'unusual_spending':
       case 'large_transaction':
+      case 'price_target':
         return <TrendUpIcon size={20} color={color} />;
       case 'goal_milestone':
         return <TrendUpIcon size={20} color={color} />;
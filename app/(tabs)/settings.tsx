@@ -14,8 +14,10 @@ import {
   CurrencyIcon, GlobeIcon, ClockIcon,
   ExportIcon, EmailIcon,
   PrivacyIcon, TermsIcon, HelpIcon, LogoutIcon, StarIcon,
-  FilterIcon,
+  FilterIcon, EditIcon, ShoppingIcon,
   StatsIcon,
+  RefreshIcon,
+  TransactionsIcon,
 } from '../../src/components/icons';
 import { useAuthStore } from '../../src/stores/authStore';
 import { useCurrency } from '../../src/context/CurrencyContext';
@@ -33,6 +35,7 @@ function SettingsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { signOut } = useAuthStore();
+  const digestPrefs = useAuthStore((state) => state.user?.notification_preferences);
   const [showSignOutModal, setShowSignOutModal] = useState(false);
   const [showClearDataModal, setShowClearDataModal] = useState(false);
   const { currency } = useCurrency();
@@ -116,16 +119,26 @@ function SettingsScreen() {
       title: t('settings.preferences'),
       items: [
         { icon: <FilterIcon size={20} color={Colors.neon} />, label: t('categories.title'), value: t('common.manage'), route: '/settings/categories' },
+        { icon: <EditIcon size={20} color={Colors.primary} />, label: t('categorizationRules.title'), value: t('common.manage'), route: '/settings/categorization-rules' },
+        { icon: <ShoppingIcon size={20} color={Colors.primary} />, label: t('merchants.title'), value: t('common.manage'), route: '/settings/merchants' },
         { icon: <CurrencyIcon size={20} color={Colors.primary} />, label: t('settings.currency'), value: currency.code, route: '/settings/currency' },
         { icon: <GlobeIcon size={20} color={Colors.deep} />, label: t('settings.language'), value: language.name, route: '/settings/language' },
         { icon: <ClockIcon size={20} color={Colors.medium} />, label: t('settings.dailyLimit'), route: '/settings/daily-limit' },
+        {
+          icon: <EmailIcon size={20} color={Colors.neon} />,
+          label: t('emailDigest.title'),
+          value: digestPrefs?.email_digest ? t(`emailDigest.${digestPrefs.email_digest_frequency ?? 'weekly'}`) : t('emailDigest.off'),
+          route: '/settings/email-digest',
+        },
       ],
     },
     {
       title: t('settings.data'),
       items: [
         { icon: <ExportIcon size={20} color={Colors.neon} />, label: t('settings.exportData'), route: '/settings/export' },
+        { icon: <TransactionsIcon size={20} color={Colors.primary} />, label: t('statementImport.title'), route: '/settings/import-statement' },
         { icon: <EmailIcon size={20} color={Colors.primary} />, label: t('settings.connectEmail'), route: '/settings/connect-email' },
+        { icon: <RefreshIcon size={20} color={Colors.deep} />, label: t('reconciliation.title'), route: '/settings/reconciliation' },
       ],
     },
     {
@@ -171,7 +184,7 @@ function SettingsScreen() {
         { icon: <TrashIcon size={20} color={Colors.semantic.expense} />, label: t('settings.clearData') || 'Clear All Data', route: '', action: () => setShowClearDataModal(true) },
       ],
     }] : []),
-  ], [currency.code, language.name, tier, t, isDevMode, handleToggleDevPlan, analyticsEnabled, setAnalyticsEnabled]);
+  ], [currency.code, language.name, digestPrefs, tier, t, isDevMode, handleToggleDevPlan, analyticsEnabled, setAnalyticsEnabled]);
 
   return (
     <View style={styles.container}>
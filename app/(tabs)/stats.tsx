@@ -59,7 +59,7 @@ import {
 } from '../../src/components/analytics';
 
 // Services
-import { calculateHealthScore, HealthScore } from '../../src/services/financialHealth';
+import { calculateHealthScore, HealthScore, HealthFactor } from '../../src/services/financialHealth';
 import {
   getMonthlyKPIs,
   getCashFlowTrend,
@@ -504,6 +504,14 @@ function StatsScreen() {
     [cashFlow]
   );
 
+  // Lowest-scoring health factor, explained under the gauge
+  const weakestHealthFactor = useMemo((): HealthFactor | null => {
+    if (!healthScore) return null;
+    const [factor, score] = (Object.entries(healthScore.factors) as [HealthFactor, number][])
+      .reduce((lowest, entry) => (entry[1] < lowest[1] ? entry : lowest));
+    return score < 70 ? factor : null;
+  }, [healthScore]);
+
   return (
     <View style={styles.container}>
 
@@ -709,6 +717,20 @@ function StatsScreen() {
                             label={t('analytics.factorEmergency')}
                           />
                         </View>
+                        {healthScore.change !== null && (
+                          <Text style={styles.healthTrendText}>
+                            {healthScore.change > 0
+                              ? t('analytics.healthScoreUp', { points: healthScore.change })
+                              : healthScore.change < 0
+                                ? t('analytics.healthScoreDown', { points: Math.abs(healthScore.change) })
+                                : t('analytics.healthScoreSame')}
+                          </Text>
+                        )}
+                        {weakestHealthFactor && (
+                          <Text style={styles.dataStatusText}>
+                            {healthScore.explanations[weakestHealthFactor].summary}
+                          </Text>
+                        )}
                         {healthScore.dataStatus && healthScore.dataStatus !== 'Score based on your complete financial data' && (
                           <Text style={styles.dataStatusText}>{healthScore.dataStatus}</Text>
                         )}
@@ -1172,6 +1194,13 @@ const styles = StyleSheet.create({
     marginTop: Spacing.lg,
     paddingHorizontal: Spacing.md,
   },
+  healthTrendText: {
+    fontFamily: FontFamily.medium,
+    fontSize: FontSize.caption,
+    color: Colors.text.secondary,
+    textAlign: 'center',
+    marginTop: Spacing.md,
+  },
   dataStatusText: {
     fontFamily: FontFamily.regular,
     fontSize: FontSize.caption,
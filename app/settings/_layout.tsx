@@ -26,7 +26,12 @@ export default function SettingsLayout() {
       <Stack.Screen name="terms" />
       <Stack.Screen name="help" />
       <Stack.Screen name="export" />
+      <Stack.Screen name="import-statement" />
+      <Stack.Screen name="reconciliation" />
       <Stack.Screen name="daily-limit" />
+      <Stack.Screen name="email-digest" />
+      <Stack.Screen name="categorization-rules" />
+      <Stack.Screen name="merchants" />
       <Stack.Screen name="connect-email" />
       <Stack.Screen name="achievements" />
       <Stack.Screen name="goals" />
@@ -26,28 +26,26 @@ import { EmptyState } from '../../src/components/premium';
 import { UtilitiesIcon, HomeExpenseIcon, PlusIcon, CalendarIcon, TrashIcon } from '../../src/components/icons';
 import { useTranslation } from '../../src/context/LanguageContext';
 import { useTransition } from '../../src/context/TransitionContext';
+import { useBillStore } from '../../src/stores/billStore';
+import { getNextBillDueDate } from '../../src/services/billCalendar';
+import { formatDate } from '../../src/utils/formatters';
 import { logger } from '../../src/utils/logger';
+import type { IncomeFrequency } from '../../src/types';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const DELETE_THRESHOLD = 100;
 
-// Bill type
+// Bill card view model
 interface Bill {
   id: string;
   name: string;
   amount: number;
-  dueDate: string;
+  nextDueDate: string | null;
+  frequency: IncomeFrequency;
   iconType: 'utilities' | 'home';
   status: 'upcoming' | 'paid';
 }
 
-// Initial mock bills data
-const initialBills: Bill[] = [
-  { id: '1', name: 'Electricity', amount: 450, dueDate: '25', iconType: 'utilities', status: 'upcoming' },
-  { id: '2', name: 'Internet', amount: 350, dueDate: '15', iconType: 'home', status: 'paid' },
-  { id: '3', name: 'Rent', amount: 5000, dueDate: '1', iconType: 'home', status: 'upcoming' },
-];
-
 // Helper to get icon component
 const getBillIcon = (iconType: string, color: string, size: number = 24) => {
   switch (iconType) {
@@ -59,6 +57,16 @@ const getBillIcon = (iconType: string, color: string, size: number = 24) => {
   }
 };
 
+// Translation key for a bill frequency
+const FREQUENCY_LABEL_KEYS: Record<IncomeFrequency, string> = {
+  one_time: 'bills.oneTime',
+  weekly: 'subscriptions.weekly',
+  biweekly: 'bills.biweekly',
+  monthly: 'subscriptions.monthly',
+  quarterly: 'subscriptions.quarterly',
+  yearly: 'subscriptions.yearly',
+};
+
 // Swipeable Bill Card Component
 interface SwipeableBillCardProps {
   bill: Bill;
@@ -174,7 +182,12 @@ const SwipeableBillCard: React.FC<SwipeableBillCardProps> = memo(({
                 <GradientText variant={isPaid ? 'muted' : 'bright'} style={styles.billName}>{bill.name}</GradientText>
                 <View style={styles.dueDateRow}>
                   <CalendarIcon size={14} color={Colors.text.tertiary} />
-                  <GradientText variant="muted" style={styles.dueDate}>{t('bills.due')} {bill.dueDate}{t('bills.daySuffix')}</GradientText>
+                  <GradientText variant="muted" style={styles.dueDate}>
+                    {bill.nextDueDate
+                      ? t('bills.nextDue', { date: formatDate(`${bill.nextDueDate}T00:00:00`, 'MMM d') })
+                      : t('bills.ended')}
+                    {' · '}{t(FREQUENCY_LABEL_KEYS[bill.frequency])}
+                  </GradientText>
                 </View>
               </View>
               {/* Bills are outgoing - red for unpaid, muted for paid */}
@@ -202,8 +215,36 @@ export default function BillsScreen() {
   const { t } = useTranslation();
   const { triggerBlackout } = useTransition();
 
-  // Local bills state (for deletion)
-  const [bills, setBills] = useState<Bill[]>(initialBills);
+  const { bills: storeBills, calendarData, fetchBills, fetchCalendarMonth, deleteBill } = useBillStore();
+
+  useEffect(() => {
+    fetchBills();
+    fetchCalendarMonth();
+  }, [fetchBills, fetchCalendarMonth]);
+
+  // Next due date follows each bill's own schedule (weekly, quarterly, last business day...)
+  const bills = useMemo<Bill[]>(() => {
+    const paid = new Set(
+      (calendarData?.bills || [])
+        .filter((occurrence) => occurrence.status === 'paid')
+        .map((occurrence) => `${occurrence.bill_id}:${occurrence.due_date}`)
+    );
+
+    return storeBills
+      .map((bill) => {
+        const nextDueDate = getNextBillDueDate(bill);
+        return {
+          id: bill.id,
+          name: bill.name,
+          amount: bill.amount,
+          nextDueDate,
+          frequency: bill.frequency,
+          iconType: bill.is_essential ? 'home' as const : 'utilities' as const,
+          status: paid.has(`${bill.id}:${nextDueDate}`) ? 'paid' as const : 'upcoming' as const,
+        };
+      })
+      .sort((a, b) => (a.nextDueDate || '9999').localeCompare(b.nextDueDate || '9999'));
+  }, [storeBills, calendarData]);
 
   // Delete confirmation modal state
   const [deleteModalVisible, setDeleteModalVisible] = useState(false);
@@ -235,13 +276,17 @@ export default function BillsScreen() {
   }, [billToDelete]);
 
   // Actually delete the bill
-  const handleDeleteConfirm = useCallback(() => {
+  const handleDeleteConfirm = useCallback(async () => {
     if (!billToDelete) return;
 
-    setBills((prev) => prev.filter((bill) => bill.id !== billToDelete.id));
     setDeleteModalVisible(false);
     setBillToDelete(null);
-  }, [billToDelete]);
+    try {
+      await deleteBill(billToDelete.id);
+    } catch (error) {
+      logger.general.error('Failed to delete bill:', error);
+    }
+  }, [billToDelete, deleteBill]);
 
   const handleEditBill = useCallback((bill: Bill) => {
     // Future: navigate to edit bill screen
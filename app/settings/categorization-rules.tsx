@@ -0,0 +1,193 @@
+// SPENDTRAK CINEMATIC EDITION - Categorization Rules Screen
+// User-defined rules applied to new transactions, in priority order
+import React, { useState, useCallback, memo } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Pressable } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Spacing, FontSize } from '../../src/design/cinematic';
+import { GradientText } from '../../src/components/ui/GradientText';
+import { GlassCard } from '../../src/components/ui/GlassCard';
+import { Toggle } from '../../src/components/ui/Badge';
+import { Button } from '../../src/components/ui/Button';
+import { Header } from '../../src/components/navigation';
+import { EmptyState } from '../../src/components/premium';
+import { EditIcon, PlusIcon } from '../../src/components/icons';
+import { useTranslation } from '../../src/context/LanguageContext';
+import { useTransition } from '../../src/context/TransitionContext';
+import { getRules, updateRule, reorderRules } from '../../src/services/categorizationRules';
+import type { CategorizationRule } from '../../src/types';
+import { logger } from '../../src/utils/logger';
+
+interface RuleCardProps {
+  rule: CategorizationRule;
+  isFirst: boolean;
+  isLast: boolean;
+  onPress: (rule: CategorizationRule) => void;
+  onToggle: (rule: CategorizationRule, active: boolean) => void;
+  onMove: (rule: CategorizationRule, direction: -1 | 1) => void;
+}
+
+const RuleCard: React.FC<RuleCardProps> = memo(({ rule, isFirst, isLast, onPress, onToggle, onMove }) => {
+  const { t } = useTranslation();
+  const conditions = [
+    rule.merchant_pattern && `/${rule.merchant_pattern}/`,
+    (rule.amount_min != null || rule.amount_max != null) && `${rule.amount_min ?? 0}–${rule.amount_max ?? '∞'}`,
+    rule.card_last_four && `•••• ${rule.card_last_four}`,
+    rule.source,
+    rule.bank_name,
+  ].filter(Boolean);
+
+  return (
+    <GlassCard variant="default" style={styles.card}>
+      <Pressable onPress={() => onPress(rule)} style={styles.cardHeader}>
+        <View style={styles.cardBody}>
+          <GradientText variant={rule.is_active ? 'bright' : 'muted'} style={styles.name} numberOfLines={1}>
+            {rule.name}
+          </GradientText>
+          {conditions.length > 0 && (
+            <GradientText variant="muted" style={styles.meta} numberOfLines={1}>
+              {conditions.join(' · ')}
+            </GradientText>
+          )}
+          <GradientText variant="subtle" style={styles.meta}>
+            {rule.is_active ? t('categorizationRules.matchCount', { count: rule.match_count }) : t('categorizationRules.paused')}
+          </GradientText>
+        </View>
+        <Toggle value={rule.is_active} onValueChange={(active) => onToggle(rule, active)} />
+      </Pressable>
+
+      <View style={styles.actions}>
+        <Pressable
+          onPress={() => onMove(rule, -1)}
+          disabled={isFirst}
+          accessibilityLabel={t('categorizationRules.moveUp')}
+          style={styles.moveButton}
+        >
+          <Ionicons name="arrow-up" size={18} color={isFirst ? Colors.text.disabled : Colors.text.secondary} />
+        </Pressable>
+        <Pressable
+          onPress={() => onMove(rule, 1)}
+          disabled={isLast}
+          accessibilityLabel={t('categorizationRules.moveDown')}
+          style={styles.moveButton}
+        >
+          <Ionicons name="arrow-down" size={18} color={isLast ? Colors.text.disabled : Colors.text.secondary} />
+        </Pressable>
+      </View>
+    </GlassCard>
+  );
+});
+
+RuleCard.displayName = 'RuleCard';
+
+export default function CategorizationRulesScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { triggerBlackout } = useTransition();
+
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setRules(await getRules());
+    } catch (error) {
+      logger.transaction.error('Failed to load categorization rules:', error);
+    }
+  }, []);
+
+  // Reload when coming back from the rule modal
+  useFocusEffect(
+    useCallback(() => {
+      loadRules();
+    }, [loadRules])
+  );
+
+  const handleOpen = useCallback((rule?: CategorizationRule) => {
+    router.push(rule
+      ? { pathname: '/(modals)/categorization-rule', params: { id: rule.id } }
+      : '/(modals)/categorization-rule');
+  }, [router]);
+
+  const handleToggle = useCallback(async (rule: CategorizationRule, active: boolean) => {
+    try {
+      await updateRule(rule.id, { is_active: active });
+      await loadRules();
+    } catch (error) {
+      logger.transaction.error('Failed to update categorization rule:', error);
+      Alert.alert(t('common.error'), t('categorizationRules.saveError'));
+    }
+  }, [loadRules, t]);
+
+  const handleMove = useCallback(async (rule: CategorizationRule, direction: -1 | 1) => {
+    const ids = rules.map((r) => r.id);
+    const index = ids.indexOf(rule.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    try {
+      setRules(await reorderRules(ids));
+    } catch (error) {
+      logger.transaction.error('Failed to reorder categorization rules:', error);
+      Alert.alert(t('common.error'), t('categorizationRules.saveError'));
+    }
+  }, [rules, t]);
+
+  return (
+    <View style={styles.container}>
+      <Header title={t('categorizationRules.title')} showBack onBack={() => triggerBlackout(() => router.back())} />
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xxl }]} showsVerticalScrollIndicator={false}>
+        <GradientText variant="muted" style={styles.subtitle}>{t('categorizationRules.description')}</GradientText>
+
+        <Button
+          variant="secondary"
+          fullWidth
+          icon={<PlusIcon size={18} color={Colors.neon} />}
+          onPress={() => handleOpen()}
+          style={styles.addButton}
+        >
+          {t('categorizationRules.addRule')}
+        </Button>
+
+        {rules.length > 0 ? (
+          rules.map((rule, index) => (
+            <RuleCard
+              key={rule.id}
+              rule={rule}
+              isFirst={index === 0}
+              isLast={index === rules.length - 1}
+              onPress={handleOpen}
+              onToggle={handleToggle}
+              onMove={handleMove}
+            />
+          ))
+        ) : (
+          <EmptyState
+            icon={<EditIcon size={48} color={Colors.text.tertiary} />}
+            title={t('categorizationRules.title')}
+            description={t('categorizationRules.empty')}
+          />
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: 'transparent' },
+  scrollView: { flex: 1 },
+  content: { paddingHorizontal: Spacing.lg, paddingTop: Spacing.lg },
+  subtitle: { fontSize: FontSize.caption, marginBottom: Spacing.md },
+  addButton: { marginBottom: Spacing.lg },
+  card: { marginBottom: Spacing.md },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: Spacing.md },
+  cardBody: { flex: 1 },
+  name: { fontSize: FontSize.md, marginBottom: 2 },
+  meta: { fontSize: FontSize.caption },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: Spacing.sm, marginTop: Spacing.sm },
+  moveButton: { padding: Spacing.xs },
+});
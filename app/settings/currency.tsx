@@ -2,17 +2,21 @@
 // Uses CurrencyContext for global currency management with real exchange rates
 // Performance optimized with FlatList for large lists
 import React, { useState, useMemo, useCallback, memo } from 'react';
-import { View, FlatList, StyleSheet, Pressable, ActivityIndicator, ListRenderItem, Platform, KeyboardAvoidingView } from 'react-native';
+import { View, FlatList, StyleSheet, Pressable, ActivityIndicator, ListRenderItem, Platform, KeyboardAvoidingView, Alert } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Colors, Spacing, FontSize } from '../../src/design/cinematic';
 import { GradientText } from '../../src/components/ui/GradientText';
 import { GlassCard } from '../../src/components/ui/GlassCard';
 import { SearchInput } from '../../src/components/ui/Input';
+import { Button } from '../../src/components/ui/Button';
 import { Header } from '../../src/components/navigation';
 import { CheckIcon, RefreshIcon } from '../../src/components/icons';
 import { useCurrency } from '../../src/context/CurrencyContext';
 import { useTranslation } from '../../src/context/LanguageContext';
 import { useTransition } from '../../src/context/TransitionContext';
+import { backfillTransactionRates } from '../../src/services/rateHistory';
+import { logger } from '../../src/utils/logger';
+import { formatRelativeTime } from '../../src/utils/formatters';
 
 export default function CurrencyScreen() {
   const router = useRouter();
@@ -25,8 +29,13 @@ export default function CurrencyScreen() {
     exchangeRates,
     ratesLoading,
     refreshRates,
+    ratesUpdatedAt,
+    ratesProvider,
+    ratesStale,
+    ratesFallback,
   } = useCurrency();
   const [searchQuery, setSearchQuery] = useState('');
+  const [backfillProgress, setBackfillProgress] = useState<{ processed: number; total: number } | null>(null);
 
   // Filter currencies based on search
   const filteredCurrencies = useMemo(() => {
@@ -44,6 +53,35 @@ export default function CurrencyScreen() {
     await setCurrency(code);
   };
 
+  // Record the rate from each transaction's date on older transactions
+  const handleBackfillRates = useCallback(async () => {
+    setBackfillProgress({ processed: 0, total: 0 });
+    try {
+      const result = await backfillTransactionRates({
+        baseCurrency: selectedCurrency.code,
+        onProgress: (processed, total) => setBackfillProgress({ processed, total }),
+      });
+      Alert.alert(t('settings.backfillRates'), t('settings.backfillRatesDone', {
+        updated: result.updated,
+        skipped: result.skipped + result.failed,
+      }));
+    } catch (error) {
+      logger.currency.error('Exchange rate backfill failed:', error);
+      Alert.alert(t('common.error'), t('settings.backfillRatesError'));
+    } finally {
+      setBackfillProgress(null);
+    }
+  }, [selectedCurrency.code, t]);
+
+  // Describe how fresh the displayed rates are
+  const ratesStatus = useMemo(() => {
+    if (ratesFallback || !ratesUpdatedAt) return t('settings.exchangeRatesOffline');
+    const time = formatRelativeTime(ratesUpdatedAt);
+    return ratesStale
+      ? t('settings.exchangeRatesStale', { time })
+      : t('settings.exchangeRatesUpdatedAgo', { time, provider: ratesProvider ?? '' });
+  }, [ratesFallback, ratesUpdatedAt, ratesStale, ratesProvider, t]);
+
   // Get exchange rate display for a currency (relative to USD)
   const getExchangeRateDisplay = useCallback((code: string): string => {
     if (code === 'USD') return '1.00';
@@ -117,7 +155,7 @@ export default function CurrencyScreen() {
         showBack
         onBack={() => triggerBlackout(() => router.back())}
         rightElement={
-          <Pressable onPress={refreshRates} style={styles.refreshButton}>
+          <Pressable onPress={() => refreshRates(true)} style={styles.refreshButton}>
             {ratesLoading ? (
               <ActivityIndicator size="small" color={Colors.neon} />
             ) : (
@@ -143,8 +181,11 @@ export default function CurrencyScreen() {
 
       {/* Rate info banner */}
       <View style={styles.rateInfoBanner}>
-        <GradientText variant="muted" style={styles.rateInfoText}>
-          {t('settings.exchangeRatesUpdated')}
+        <GradientText
+          variant={ratesStale || ratesFallback ? 'bronze' : 'muted'}
+          style={styles.rateInfoText}
+        >
+          {ratesStatus}
         </GradientText>
       </View>
 
@@ -155,6 +196,20 @@ export default function CurrencyScreen() {
         </GradientText>
       </View>
 
+      <View style={styles.backfillContainer}>
+        <Button
+          variant="outline"
+          size="small"
+          fullWidth
+          disabled={!!backfillProgress}
+          onPress={handleBackfillRates}
+        >
+          {backfillProgress
+            ? t('settings.backfillRatesRunning', backfillProgress)
+            : t('settings.backfillRates')}
+        </Button>
+      </View>
+
       <GlassCard variant="default" style={styles.listCard}>
         <FlatList
           data={filteredCurrencies}
@@ -216,6 +271,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 16,
   },
+  backfillContainer: {
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
   scrollView: {
     flex: 1,
   },
@@ -20,16 +20,37 @@ import { useCurrency } from '../../src/context/CurrencyContext';
 import { GradientText } from '../../src/components/ui/GradientText';
 import { GlassCard } from '../../src/components/ui/GlassCard';
 import { FAB } from '../../src/components/ui/Button';
+import { Chip } from '../../src/components/ui/Badge';
+import { AmountInput } from '../../src/components/ui/Input';
+import { LineChart } from '../../src/components/charts';
 import { ConfirmationModal } from '../../src/components/ui/ConfirmationModal';
 import { Header } from '../../src/components/navigation';
 import { ProgressRing, EmptyState } from '../../src/components/premium';
 import { DebtIcon, PlusIcon, TrashIcon } from '../../src/components/icons';
 import { getDevDebts, deleteDevDebt, DevDebt } from '../../src/services/devStorage';
+import { simulatePayoff, PayoffDebt } from '../../src/services/debtManagement';
+import { formatDate } from '../../src/utils/formatters';
 import { useTranslation } from '../../src/context/LanguageContext';
 import { useTransition } from '../../src/context/TransitionContext';
 import { logger } from '../../src/utils/logger';
 
 const DELETE_THRESHOLD = 100;
+const MAX_CHART_POINTS = 12;
+
+type ChartStrategy = 'snowball' | 'avalanche';
+
+// Dev debts store rates in percent; the simulator expects decimals
+function toPayoffDebt(debt: DevDebt): PayoffDebt {
+  return {
+    id: debt.id,
+    name: debt.name,
+    current_balance: debt.balance,
+    interest_rate: debt.interest_rate / 100,
+    minimum_payment: debt.minimum_payment,
+    promo_interest_rate: debt.promo_interest_rate != null ? debt.promo_interest_rate / 100 : null,
+    promo_end_date: debt.promo_end_date ?? null,
+  };
+}
 
 // Swipeable Debt Card Component
 interface SwipeableDebtCardProps {
@@ -171,11 +192,13 @@ SwipeableDebtCard.displayName = 'SwipeableDebtCard';
 export default function DebtsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { format: formatCurrency } = useCurrency();
+  const { format: formatCurrency, currencyCode } = useCurrency();
   const { t } = useTranslation();
   const { triggerBlackout } = useTransition();
   const [debts, setDebts] = useState<DevDebt[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [strategy, setStrategy] = useState<ChartStrategy>('avalanche');
+  const [extraPayment, setExtraPayment] = useState('');
 
   // Delete confirmation modal state
   const [deleteModalVisible, setDeleteModalVisible] = useState(false);
@@ -239,6 +262,27 @@ export default function DebtsScreen() {
     totalMinPayment: debts.reduce((sum, d) => sum + d.minimum_payment, 0),
   }), [debts]);
 
+  // Simulate both strategies so the savings of avalanche can be shown
+  const { schedule, avalancheSavings } = useMemo(() => {
+    const payoffDebts = debts.filter(d => d.status !== 'paid_off').map(toPayoffDebt);
+    const extra = parseFloat(extraPayment) || 0;
+    const snowball = simulatePayoff(payoffDebts, { strategy: 'snowball', extraPayment: extra });
+    const avalanche = simulatePayoff(payoffDebts, { strategy: 'avalanche', extraPayment: extra });
+    return {
+      schedule: strategy === 'snowball' ? snowball : avalanche,
+      avalancheSavings: snowball.total_interest - avalanche.total_interest,
+    };
+  }, [debts, strategy, extraPayment]);
+
+  const balanceChartData = useMemo(() => {
+    const step = Math.max(1, Math.ceil(schedule.months.length / MAX_CHART_POINTS));
+    const points = schedule.months.filter((m, i) => i % step === 0 || i === schedule.months.length - 1);
+    return points.map(m => ({
+      label: formatDate(`${m.date}T00:00:00`, 'MMM yy'),
+      value: m.total_balance,
+    }));
+  }, [schedule]);
+
   return (
     <View style={styles.container}>
       <Header title={t('debts.title')} showBack onBack={() => triggerBlackout(() => router.back())} />
@@ -265,6 +309,61 @@ export default function DebtsScreen() {
           </GlassCard>
         )}
 
+        {/* Payoff Plan */}
+        {debts.length > 0 && (
+          <GlassCard variant="default" style={styles.payoffCard}>
+            <GradientText variant="bright" style={styles.payoffTitle}>
+              {t('debts.payoffPlan')}
+            </GradientText>
+            <View style={styles.strategyRow}>
+              {(['avalanche', 'snowball'] as ChartStrategy[]).map((option) => (
+                <Chip
+                  key={option}
+                  selected={strategy === option}
+                  onPress={() => setStrategy(option)}
+                >
+                  {t(option === 'avalanche' ? 'debts.strategyAvalanche' : 'debts.strategySnowball')}
+                </Chip>
+              ))}
+            </View>
+            <AmountInput
+              label={t('debts.extraPayment')}
+              value={extraPayment}
+              onChangeText={setExtraPayment}
+              placeholder="0.00"
+              currency={currencyCode}
+              testID="extra-payment-input"
+            />
+            {schedule.is_complete ? (
+              <>
+                <LineChart
+                  data={balanceChartData}
+                  height={160}
+                  showLabels
+                  style={styles.payoffChart}
+                  accessibilityTitle={t('debts.payoffPlan')}
+                  formatValue={formatCurrency}
+                />
+                <Text style={[styles.payoffText, { color: Colors.semantic.income }]}>
+                  {t('debts.debtFreeBy', { date: formatDate(`${schedule.debt_free_date}T00:00:00`, 'MMMM yyyy') })}
+                </Text>
+                <Text style={[styles.payoffText, { color: Colors.semantic.neutral }]}>
+                  {t('debts.payoffInterest', { amount: formatCurrency(schedule.total_interest) })}
+                </Text>
+                {avalancheSavings > 0 && (
+                  <Text style={[styles.payoffText, { color: Colors.semantic.neutral }]}>
+                    {t('debts.avalancheSaves', { amount: formatCurrency(avalancheSavings) })}
+                  </Text>
+                )}
+              </>
+            ) : (
+              <Text style={[styles.payoffText, { color: Colors.status.warning }]}>
+                {t('debts.payoffNeverEnds')}
+              </Text>
+            )}
+          </GlassCard>
+        )}
+
         {/* Swipe Hint */}
         {debts.length > 0 && (
           <View style={styles.swipeHint}>
@@ -367,6 +466,29 @@ const styles = StyleSheet.create({
     fontFamily: FontFamily.regular,
   },
 
+  // Payoff Plan
+  payoffCard: {
+    marginBottom: Spacing.lg,
+  },
+  payoffTitle: {
+    fontSize: FontSize.md,
+    fontFamily: FontFamily.semiBold,
+    marginBottom: Spacing.sm,
+  },
+  strategyRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  payoffChart: {
+    marginVertical: Spacing.md,
+  },
+  payoffText: {
+    fontSize: FontSize.caption,
+    fontFamily: FontFamily.regular,
+    marginTop: Spacing.xs,
+  },
+
   // Swipe Hint
   swipeHint: {
     alignItems: 'center',
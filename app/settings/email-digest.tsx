@@ -0,0 +1,133 @@
+// SPENDTRAK CINEMATIC EDITION - Email Digest Screen
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Colors, Spacing, FontSize } from '../../src/design/cinematic';
+import { useTranslation } from '../../src/context/LanguageContext';
+import { GradientText } from '../../src/components/ui/GradientText';
+import { GlassCard } from '../../src/components/ui/GlassCard';
+import { Chip, Toggle } from '../../src/components/ui/Badge';
+import { Button } from '../../src/components/ui/Button';
+import { Header } from '../../src/components/navigation';
+import { useTransition } from '../../src/context/TransitionContext';
+import { useAuthStore } from '../../src/stores/authStore';
+import { logger } from '../../src/utils/logger';
+import type { DigestFrequency } from '../../src/types';
+
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+// Stop at 28 so every month has the chosen day
+const MONTH_DAYS = Array.from({ length: 28 }, (_, i) => i + 1);
+
+export default function EmailDigestScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { triggerBlackout } = useTransition();
+  const { user, updateProfile } = useAuthStore();
+  const prefs = user?.notification_preferences;
+
+  const [enabled, setEnabled] = useState(prefs?.email_digest ?? false);
+  const [frequency, setFrequency] = useState<DigestFrequency>(prefs?.email_digest_frequency ?? 'weekly');
+  const [day, setDay] = useState(prefs?.email_digest_day ?? 1);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFrequencyChange = (next: DigestFrequency) => {
+    setFrequency(next);
+    // Weekdays and days of the month share the field; keep the day valid
+    if (next === 'weekly' && day > 6) setDay(1);
+  };
+
+  const handleSave = async () => {
+    if (!prefs) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await updateProfile({
+        notification_preferences: {
+          ...prefs,
+          email_digest: enabled,
+          email_digest_frequency: frequency,
+          email_digest_day: day,
+        },
+      });
+      triggerBlackout(() => router.back());
+    } catch (saveError) {
+      logger.general.error('Error saving email digest settings:', saveError);
+      setError(t('emailDigest.saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Header title={t('emailDigest.title')} showBack onBack={() => triggerBlackout(() => router.back())} />
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xxl }]} showsVerticalScrollIndicator={false}>
+        <GradientText variant="subtle" style={styles.description}>
+          {t('emailDigest.description', { email: user?.email ?? '' })}
+        </GradientText>
+
+        <GlassCard variant="default">
+          <View style={styles.settingRow}>
+            <GradientText variant="bright">{t('emailDigest.enable')}</GradientText>
+            <Toggle value={enabled} onValueChange={setEnabled} />
+          </View>
+        </GlassCard>
+
+        {enabled && (
+          <>
+            <GradientText variant="muted" style={styles.sectionLabel}>{t('emailDigest.frequency')}</GradientText>
+            <View style={styles.grid}>
+              {(['weekly', 'monthly'] as const).map((option) => (
+                <Chip key={option} selected={frequency === option} onPress={() => handleFrequencyChange(option)} style={styles.chip}>
+                  {t(`emailDigest.${option}`)}
+                </Chip>
+              ))}
+            </View>
+
+            <GradientText variant="muted" style={styles.sectionLabel}>
+              {frequency === 'weekly' ? t('emailDigest.sendOn') : t('emailDigest.dayOfMonth')}
+            </GradientText>
+            <View style={styles.grid}>
+              {frequency === 'weekly'
+                ? WEEKDAY_KEYS.map((key, weekday) => (
+                    <Chip key={key} selected={day === weekday} onPress={() => setDay(weekday)} style={styles.chip}>
+                      {t(`time.${key}`)}
+                    </Chip>
+                  ))
+                : MONTH_DAYS.map((monthDay) => (
+                    <Chip key={monthDay} selected={day === monthDay} onPress={() => setDay(monthDay)} style={styles.chip}>
+                      {String(monthDay)}
+                    </Chip>
+                  ))}
+            </View>
+            <GradientText variant="subtle" style={styles.hint}>
+              {frequency === 'weekly' ? t('emailDigest.weeklyHint') : t('emailDigest.monthlyHint')}
+            </GradientText>
+          </>
+        )}
+
+        {error && <GradientText variant="subtle" style={styles.error}>{error}</GradientText>}
+
+        <Button variant="primary" onPress={handleSave} loading={saving} style={styles.saveButton}>{t('common.save')}</Button>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.void },
+  scrollView: { flex: 1 },
+  content: { paddingHorizontal: Spacing.lg, paddingTop: Spacing.lg },
+  description: { marginBottom: Spacing.lg },
+  settingRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+  sectionLabel: { fontSize: FontSize.caption, textTransform: 'uppercase', letterSpacing: 1, marginBottom: Spacing.md, marginTop: Spacing.lg },
+  grid: { flexDirection: 'row', flexWrap: 'wrap', marginHorizontal: -Spacing.xs },
+  chip: { marginHorizontal: Spacing.xs, marginBottom: Spacing.sm },
+  hint: { fontSize: FontSize.caption, marginTop: Spacing.xs },
+  error: { color: Colors.semantic.expense, marginTop: Spacing.lg },
+  saveButton: { marginTop: Spacing.xxl },
+});
@@ -1,11 +1,12 @@
 // SPENDTRAK CINEMATIC EDITION - Export Data Screen
-// Themed export with PDF generation and native sharing
+// Themed export with PDF statements, XLSX workbooks and native sharing
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { View, ScrollView, StyleSheet, Pressable, Text, ActivityIndicator, AppState } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { File, Paths } from 'expo-file-system/next';
 import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors, Spacing, FontFamily, FontSize, BorderRadius } from '../../src/design/cinematic';
 import { useTranslation } from '../../src/context/LanguageContext';
@@ -22,12 +23,25 @@ import { logger } from '../../src/utils/logger';
 // Import stores and services for real data
 import { useTransactionStore } from '../../src/stores/transactionStore';
 import { useAuthStore } from '../../src/stores/authStore';
+import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
 import { getDevBudgets, getDevGoals, DevBudget, DevGoal } from '../../src/services/devStorage';
+import { exportReportXLSX, exportStatementPDF, exportAllDataJSON } from '../../src/services/export';
+import {
+  previewBackup,
+  readBackupFile,
+  restoreBackup,
+  BackupValidationError,
+  RestoreRolledBackError,
+  type BackupPreview,
+  type RestoreMode,
+} from '../../src/services/backup';
+import type { ReportData } from '../../src/services/exportFormats';
 
 // Export format options
 const exportFormats = [
   { id: 'pdf', nameKey: 'settings.pdfReport', descKey: 'settings.formattedReport', icon: 'document-text' },
-  { id: 'csv', nameKey: 'settings.csvSpreadsheet', descKey: 'settings.forExcelOrSheets', icon: 'grid' },
+  { id: 'excel', nameKey: 'settings.excelWorkbook', descKey: 'settings.multiSheetWorkbook', icon: 'grid' },
+  { id: 'csv', nameKey: 'settings.csvSpreadsheet', descKey: 'settings.forExcelOrSheets', icon: 'list' },
   { id: 'json', nameKey: 'settings.jsonBackup', descKey: 'settings.completeDataBackup', icon: 'code-slash' },
 ];
 
@@ -40,432 +54,8 @@ const dateRanges = [
   { id: 'all', nameKey: 'settings.allTime', days: -1 },
 ];
 
-// Export data interface
-interface ExportData {
-  user: {
-    name: string;
-    email: string;
-    currency: string;
-    exportDate: string;
-  };
-  summary: {
-    totalIncome: number;
-    totalExpenses: number;
-    netSavings: number;
-    savingsRate: number;
-    transactionCount: number;
-  };
-  transactions: Array<{
-    date: string;
-    merchant: string;
-    category: string;
-    amount: number;
-    notes?: string;
-  }>;
-  budgets: Array<{
-    category: string;
-    budget: number;
-    spent: number;
-    remaining: number;
-  }>;
-  goals: Array<{
-    name: string;
-    target: number;
-    current: number;
-    progress: number;
-  }>;
-  categoryBreakdown: Array<{
-    category: string;
-    total: number;
-    percentage: number;
-    count: number;
-  }>;
-}
-
-// Generate HTML content for PDF with Cinzel font (brand identity)
-const generatePDFContent = (data: ExportData, rangeName: string): string => {
-  const { user, summary, transactions, budgets, goals, categoryBreakdown } = data;
-
-  return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>SpendTrak Financial Report</title>
-  <!-- Cinzel Font - Brand Identity -->
-  <link rel="preconnect" href="https://fonts.googleapis.com">
-  <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
-  <link href="https://fonts.googleapis.com/css2?family=Cinzel:wght@400;500;600;700&display=swap" rel="stylesheet">
-  <style>
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    body {
-      font-family: 'Cinzel', serif;
-      background: linear-gradient(135deg, #000000 0%, #001a0f 50%, #002a17 100%);
-      color: #00ff88;
-      padding: 40px;
-      min-height: 100vh;
-    }
-    .container { max-width: 800px; margin: 0 auto; }
-
-    /* Header */
-    .header {
-      text-align: center;
-      margin-bottom: 40px;
-      padding-bottom: 30px;
-      border-bottom: 2px solid #00ff8840;
-    }
-    .logo {
-      font-family: 'Cinzel', serif;
-      font-size: 42px;
-      font-weight: 700;
-      background: linear-gradient(135deg, #00ff88, #00cc6a, #008545);
-      -webkit-background-clip: text;
-      -webkit-text-fill-color: transparent;
-      margin-bottom: 10px;
-      letter-spacing: 4px;
-    }
-    .subtitle {
-      font-family: 'Cinzel', serif;
-      color: #00cc6a;
-      font-size: 14px;
-      letter-spacing: 3px;
-      text-transform: uppercase;
-      font-weight: 500;
-    }
-    .export-info {
-      margin-top: 15px;
-      color: #008545;
-      font-size: 12px;
-      font-weight: 400;
-    }
-    .user-info {
-      margin-top: 10px;
-      color: #00cc6a;
-      font-size: 13px;
-    }
-
-    /* Section */
-    .section {
-      background: linear-gradient(135deg, #051a0f 0%, #020806 100%);
-      border: 1px solid #00ff8830;
-      border-radius: 16px;
-      padding: 24px;
-      margin-bottom: 24px;
-    }
-    .section-title {
-      font-family: 'Cinzel', serif;
-      font-size: 18px;
-      font-weight: 600;
-      color: #00ff88;
-      margin-bottom: 20px;
-      padding-bottom: 10px;
-      border-bottom: 1px solid #00ff8820;
-      letter-spacing: 2px;
-      text-transform: uppercase;
-    }
-
-    /* Summary Cards */
-    .summary-grid {
-      display: grid;
-      grid-template-columns: repeat(2, 1fr);
-      gap: 16px;
-    }
-    .summary-grid-3 {
-      display: grid;
-      grid-template-columns: repeat(3, 1fr);
-      gap: 16px;
-    }
-    .summary-card {
-      background: #001a0f;
-      border: 1px solid #00ff8820;
-      border-radius: 12px;
-      padding: 16px;
-      text-align: center;
-    }
-    .summary-label {
-      font-family: 'Cinzel', serif;
-      color: #008545;
-      font-size: 11px;
-      text-transform: uppercase;
-      letter-spacing: 1px;
-      margin-bottom: 8px;
-      font-weight: 500;
-    }
-    .summary-value {
-      font-family: 'Cinzel', serif;
-      font-size: 22px;
-      font-weight: 700;
-    }
-    .income { color: #39FF14; }
-    .expense { color: #ff3366; }
-    .neutral { color: #E6A756; }
-    .positive { color: #39FF14; }
-
-    /* Table */
-    .table {
-      width: 100%;
-      border-collapse: collapse;
-    }
-    .table th {
-      font-family: 'Cinzel', serif;
-      text-align: left;
-      padding: 12px 8px;
-      color: #008545;
-      font-size: 10px;
-      text-transform: uppercase;
-      letter-spacing: 1px;
-      border-bottom: 1px solid #00ff8830;
-      font-weight: 600;
-    }
-    .table td {
-      font-family: 'Cinzel', serif;
-      padding: 12px 8px;
-      border-bottom: 1px solid #00ff8810;
-      font-size: 12px;
-      font-weight: 400;
-    }
-    .table tr:hover { background: #00ff8808; }
-    .amount-positive { color: #39FF14; font-weight: 600; }
-    .amount-negative { color: #ff3366; font-weight: 600; }
-
-    /* Progress Bar */
-    .progress-container {
-      display: flex;
-      align-items: center;
-      gap: 12px;
-      margin-bottom: 16px;
-    }
-    .progress-info { flex: 1; }
-    .progress-name {
-      font-family: 'Cinzel', serif;
-      color: #00cc6a;
-      margin-bottom: 6px;
-      font-weight: 500;
-      font-size: 13px;
-    }
-    .progress-bar {
-      height: 10px;
-      background: #001a0f;
-      border-radius: 5px;
-      overflow: hidden;
-    }
-    .progress-fill {
-      height: 100%;
-      background: linear-gradient(90deg, #00ff88, #00cc6a);
-      border-radius: 5px;
-    }
-    .progress-text {
-      font-family: 'Cinzel', serif;
-      color: #E6A756;
-      font-size: 11px;
-      min-width: 80px;
-      text-align: right;
-      font-weight: 500;
-    }
-
-    /* Category breakdown */
-    .category-grid {
-      display: grid;
-      grid-template-columns: repeat(2, 1fr);
-      gap: 12px;
-    }
-    .category-item {
-      background: #001a0f;
-      border: 1px solid #00ff8815;
-      border-radius: 8px;
-      padding: 12px;
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-    }
-    .category-name {
-      font-family: 'Cinzel', serif;
-      color: #00cc6a;
-      font-size: 12px;
-      font-weight: 500;
-    }
-    .category-amount {
-      font-family: 'Cinzel', serif;
-      color: #ff3366;
-      font-size: 13px;
-      font-weight: 600;
-    }
-    .category-percent {
-      font-family: 'Cinzel', serif;
-      color: #E6A756;
-      font-size: 10px;
-      margin-left: 8px;
-    }
-
-    /* Footer */
-    .footer {
-      text-align: center;
-      margin-top: 40px;
-      padding-top: 20px;
-      border-top: 1px solid #00ff8820;
-      color: #008545;
-      font-size: 11px;
-    }
-    .footer p {
-      font-family: 'Cinzel', serif;
-      font-weight: 400;
-    }
-    .confidential {
-      margin-top: 12px;
-      font-size: 10px;
-      color: #00ff8850;
-      letter-spacing: 1px;
-    }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <!-- Header -->
-    <div class="header">
-      <div class="logo">SPENDTRAK</div>
-      <div class="subtitle">Financial Report</div>
-      <div class="user-info">${user.name} • ${user.email}</div>
-      <div class="export-info">
-        ${rangeName} • Generated on ${user.exportDate}
-      </div>
-    </div>
-
-    <!-- Financial Summary -->
-    <div class="section">
-      <div class="section-title">Financial Summary</div>
-      <div class="summary-grid">
-        <div class="summary-card">
-          <div class="summary-label">Total Income</div>
-          <div class="summary-value income">${user.currency} ${summary.totalIncome.toLocaleString()}</div>
-        </div>
-        <div class="summary-card">
-          <div class="summary-label">Total Expenses</div>
-          <div class="summary-value expense">${user.currency} ${summary.totalExpenses.toLocaleString()}</div>
-        </div>
-        <div class="summary-card">
-          <div class="summary-label">Net Savings</div>
-          <div class="summary-value positive">${user.currency} ${summary.netSavings.toLocaleString()}</div>
-        </div>
-        <div class="summary-card">
-          <div class="summary-label">Savings Rate</div>
-          <div class="summary-value neutral">${summary.savingsRate.toFixed(1)}%</div>
-        </div>
-      </div>
-      <div style="margin-top: 16px; text-align: center; color: #008545; font-size: 12px;">
-        Total Transactions: ${summary.transactionCount}
-      </div>
-    </div>
-
-    <!-- Category Breakdown -->
-    ${categoryBreakdown.length > 0 ? `
-    <div class="section">
-      <div class="section-title">Spending by Category</div>
-      <div class="category-grid">
-        ${categoryBreakdown.map(cat => `
-          <div class="category-item">
-            <span class="category-name">${cat.category}</span>
-            <span>
-              <span class="category-amount">${user.currency} ${cat.total.toLocaleString()}</span>
-              <span class="category-percent">(${cat.percentage.toFixed(1)}%)</span>
-            </span>
-          </div>
-        `).join('')}
-      </div>
-    </div>
-    ` : ''}
-
-    <!-- All Transactions -->
-    <div class="section">
-      <div class="section-title">Transaction History (${transactions.length} transactions)</div>
-      ${transactions.length > 0 ? `
-      <table class="table">
-        <thead>
-          <tr>
-            <th>Date</th>
-            <th>Description</th>
-            <th>Category</th>
-            <th style="text-align: right;">Amount</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${transactions.map(tx => `
-            <tr>
-              <td>${tx.date}</td>
-              <td>${tx.merchant}${tx.notes ? ` - ${tx.notes}` : ''}</td>
-              <td>${tx.category}</td>
-              <td style="text-align: right;" class="${tx.amount >= 0 ? 'amount-positive' : 'amount-negative'}">
-                ${tx.amount >= 0 ? '+' : ''}${user.currency} ${Math.abs(tx.amount).toFixed(2)}
-              </td>
-            </tr>
-          `).join('')}
-        </tbody>
-      </table>
-      ` : '<p style="color: #008545; text-align: center;">No transactions in selected period</p>'}
-    </div>
-
-    <!-- Budget Status -->
-    ${budgets.length > 0 ? `
-    <div class="section">
-      <div class="section-title">Budget Status</div>
-      ${budgets.map(b => {
-        const percentage = b.budget > 0 ? Math.round((b.spent / b.budget) * 100) : 0;
-        const isOverBudget = percentage > 100;
-        return `
-          <div class="progress-container">
-            <div class="progress-info">
-              <div class="progress-name">${b.category}</div>
-              <div class="progress-bar">
-                <div class="progress-fill" style="width: ${Math.min(percentage, 100)}%; background: ${isOverBudget ? 'linear-gradient(90deg, #ff3366, #ff6699)' : 'linear-gradient(90deg, #00ff88, #00cc6a)'}"></div>
-              </div>
-            </div>
-            <div class="progress-text" style="color: ${isOverBudget ? '#ff3366' : '#E6A756'}">${percentage}% used</div>
-          </div>
-          <div style="display: flex; justify-content: space-between; margin-bottom: 20px; padding-left: 4px; font-size: 11px;">
-            <span style="color: #008545;">Spent: ${user.currency} ${b.spent.toFixed(2)}</span>
-            <span style="color: #008545;">Budget: ${user.currency} ${b.budget.toFixed(2)}</span>
-            <span style="color: ${b.remaining >= 0 ? '#39FF14' : '#ff3366'};">Remaining: ${user.currency} ${b.remaining.toFixed(2)}</span>
-          </div>
-        `;
-      }).join('')}
-    </div>
-    ` : ''}
-
-    <!-- Goals Progress -->
-    ${goals.length > 0 ? `
-    <div class="section">
-      <div class="section-title">Savings Goals</div>
-      ${goals.map(g => `
-        <div class="progress-container">
-          <div class="progress-info">
-            <div class="progress-name">${g.name}</div>
-            <div class="progress-bar">
-              <div class="progress-fill" style="width: ${Math.min(g.progress, 100)}%"></div>
-            </div>
-          </div>
-          <div class="progress-text">${g.progress.toFixed(0)}%</div>
-        </div>
-        <div style="display: flex; justify-content: space-between; margin-bottom: 20px; padding-left: 4px; font-size: 11px;">
-          <span style="color: #39FF14;">Current: ${user.currency} ${g.current.toLocaleString()}</span>
-          <span style="color: #E6A756;">Target: ${user.currency} ${g.target.toLocaleString()}</span>
-        </div>
-      `).join('')}
-    </div>
-    ` : ''}
-
-    <!-- Footer -->
-    <div class="footer">
-      <p>Generated by SpendTrak • Your Personal Finance Companion</p>
-      <p class="confidential">This report is confidential and for personal use only.</p>
-    </div>
-  </div>
-</body>
-</html>
-  `;
-};
-
 // Generate comprehensive CSV content
-const generateCSVContent = (data: ExportData): string => {
+const generateCSVContent = (data: ReportData): string => {
   const { user, summary, transactions, budgets, goals, categoryBreakdown } = data;
   let csv = '';
 
@@ -525,19 +115,6 @@ const generateCSVContent = (data: ExportData): string => {
   return csv;
 };
 
-// Generate comprehensive JSON content
-const generateJSONContent = (data: ExportData): string => {
-  return JSON.stringify({
-    exportInfo: {
-      app: 'SpendTrak',
-      version: '1.0.0',
-      exportDate: data.user.exportDate,
-      format: 'SpendTrak Backup Format',
-    },
-    ...data,
-  }, null, 2);
-};
-
 export default function ExportScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
@@ -549,32 +126,43 @@ export default function ExportScreen() {
   const [isExporting, setIsExporting] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [isReady, setIsReady] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{
+    contents: string;
+    mode: RestoreMode;
+    preview: BackupPreview;
+  } | null>(null);
+  const [restoreMessage, setRestoreMessage] = useState<string | null>(null);
   const appStateRef = useRef(AppState.currentState);
 
   // Get real data from stores
   const transactions = useTransactionStore((state) => state.transactions);
   const user = useAuthStore((state) => state.user);
+  const subscriptions = useSubscriptionStore((state) => state.subscriptions);
+  const fetchTransactions = useTransactionStore((state) => state.fetchTransactions);
+  const fetchSubscriptions = useSubscriptionStore((state) => state.fetchSubscriptions);
 
   // State for budgets and goals from devStorage
   const [budgets, setBudgets] = useState<DevBudget[]>([]);
   const [goals, setGoals] = useState<DevGoal[]>([]);
 
+  const loadData = useCallback(async () => {
+    try {
+      const [loadedBudgets, loadedGoals] = await Promise.all([
+        getDevBudgets(),
+        getDevGoals(),
+      ]);
+      setBudgets(loadedBudgets);
+      setGoals(loadedGoals);
+    } catch (error) {
+      logger.general.error('Error loading export data:', error);
+    }
+  }, []);
+
   // Load budgets and goals on mount
   useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [loadedBudgets, loadedGoals] = await Promise.all([
-          getDevBudgets(),
-          getDevGoals(),
-        ]);
-        setBudgets(loadedBudgets);
-        setGoals(loadedGoals);
-      } catch (error) {
-        logger.general.error('Error loading export data:', error);
-      }
-    };
     loadData();
-  }, []);
+  }, [loadData]);
 
   // Reset state when screen comes into focus (handles return from share)
   useFocusEffect(
@@ -602,7 +190,7 @@ export default function ExportScreen() {
   }, []);
 
   // Build export data from real stores
-  const buildExportData = useCallback((): ExportData => {
+  const buildExportData = useCallback((): ReportData => {
     const rangeData = dateRanges.find(r => r.id === selectedRange);
     const days = rangeData?.days || -1;
 
@@ -654,10 +242,11 @@ export default function ExportScreen() {
     const formattedTransactions = filteredTransactions
       .sort((a, b) => new Date(b.transaction_date || b.created_at).getTime() - new Date(a.transaction_date || a.created_at).getTime())
       .map(tx => ({
-        date: new Date(tx.transaction_date || tx.created_at).toLocaleDateString(),
+        date: (tx.transaction_date || tx.created_at).split('T')[0],
         merchant: tx.merchant_name || 'Unknown',
         category: tx.category?.name || 'Uncategorized',
         amount: tx.amount || 0,
+        currency: tx.currency || currencyCode,
         notes: tx.notes || '',
       }));
 
@@ -686,6 +275,19 @@ export default function ExportScreen() {
       progress: (g.target_amount || 0) > 0 ? ((g.current_amount || 0) / (g.target_amount || 1)) * 100 : 0,
     }));
 
+    const formattedSubscriptions = subscriptions
+      .filter(s => s.status !== 'cancelled')
+      .map(s => ({
+        name: s.display_name || s.merchant_name,
+        amount: s.amount,
+        currency: s.currency,
+        frequency: s.frequency,
+        status: s.status,
+        nextBillingDate: s.next_billing_date,
+      }));
+
+    const startDate = days === -1 ? null : new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
     return {
       user: {
         name: user?.display_name || 'SpendTrak User',
@@ -695,6 +297,11 @@ export default function ExportScreen() {
           year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit'
         }),
       },
+      period: {
+        label: rangeData ? t(rangeData.nameKey as any) : t('settings.allTime'),
+        startDate: startDate ? startDate.toISOString().split('T')[0] : null,
+        endDate: now.toISOString().split('T')[0],
+      },
       summary: {
         totalIncome,
         totalExpenses,
@@ -705,9 +312,10 @@ export default function ExportScreen() {
       transactions: formattedTransactions,
       budgets: formattedBudgets,
       goals: formattedGoals,
+      subscriptions: formattedSubscriptions,
       categoryBreakdown,
     };
-  }, [transactions, budgets, goals, user, currencyCode, selectedRange]);
+  }, [transactions, budgets, goals, subscriptions, user, currencyCode, selectedRange, t]);
 
   const handleExport = async () => {
     if (isExporting) return;
@@ -715,35 +323,27 @@ export default function ExportScreen() {
 
     try {
       const data = buildExportData();
-      const rangeData = dateRanges.find(r => r.id === selectedRange);
-      const rangeName = rangeData ? t(rangeData.nameKey as any) : t('settings.allTime');
       const timestamp = new Date().toISOString().split('T')[0];
 
-      let content: string;
-      let filename: string;
-      let mimeType: string;
-
-      switch (selectedFormat) {
-        case 'pdf':
-          // For PDF, we create an HTML file that can be opened/printed as PDF
-          content = generatePDFContent(data, rangeName);
-          filename = `SpendTrak_Report_${timestamp}.html`;
-          mimeType = 'text/html';
-          break;
-        case 'csv':
-          content = generateCSVContent(data);
-          filename = `SpendTrak_Export_${timestamp}.csv`;
-          mimeType = 'text/csv';
-          break;
-        case 'json':
-          content = generateJSONContent(data);
-          filename = `SpendTrak_Backup_${timestamp}.json`;
-          mimeType = 'application/json';
-          break;
-        default:
-          throw new Error('Invalid format');
+      // PDF, XLSX and backups are rendered, shared and logged by the export service
+      if (selectedFormat === 'json') {
+        await exportAllDataJSON();
+        return;
+      }
+      if (selectedFormat === 'pdf' || selectedFormat === 'excel') {
+        const filters = { range: selectedRange, startDate: data.period.startDate, endDate: data.period.endDate };
+        if (selectedFormat === 'pdf') {
+          await exportStatementPDF(data, filters);
+        } else {
+          await exportReportXLSX(data, filters);
+        }
+        return;
       }
 
+      const content = generateCSVContent(data);
+      const filename = `SpendTrak_Export_${timestamp}.csv`;
+      const mimeType = 'text/csv';
+
       // Save file to cache directory using new expo-file-system API
       const file = new File(Paths.cache, filename);
       file.write(content);
@@ -770,6 +370,52 @@ export default function ExportScreen() {
     }
   };
 
+  // Pick a backup file and show what it contains before restoring
+  const handlePickBackup = async (mode: RestoreMode) => {
+    if (isRestoring) return;
+    setRestoreMessage(null);
+
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      const contents = await readBackupFile(picked.assets[0].uri);
+      setPendingRestore({ contents, mode, preview: previewBackup(contents) });
+    } catch (error) {
+      logger.general.error('Backup read error:', error);
+      setRestoreMessage(error instanceof BackupValidationError ? error.message : t('settings.restoreFailed'));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingRestore) return;
+    const { contents, mode } = pendingRestore;
+    setPendingRestore(null);
+    setIsRestoring(true);
+
+    try {
+      const result = await restoreBackup(contents, { mode });
+      const restored = Object.values(result.restored).reduce((sum, count) => sum + (count || 0), 0);
+      const skipped = Object.values(result.skipped).reduce((sum, count) => sum + (count || 0), 0);
+      const failed = Object.values(result.failed).reduce((sum, count) => sum + (count || 0), 0);
+      setRestoreMessage(t('settings.restoreDone', { restored, skipped, failed }));
+
+      await Promise.all([fetchTransactions(), fetchSubscriptions(), loadData()]);
+    } catch (error) {
+      logger.general.error('Restore error:', error);
+      if (error instanceof RestoreRolledBackError) {
+        setRestoreMessage(t('settings.restoreRolledBack'));
+      } else {
+        setRestoreMessage(error instanceof BackupValidationError ? error.message : t('settings.restoreFailed'));
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   const selectedFormatObj = exportFormats.find(f => f.id === selectedFormat);
   const selectedRangeObj = dateRanges.find(r => r.id === selectedRange);
 
@@ -902,9 +548,58 @@ export default function ExportScreen() {
           )}
         </Button>
 
+        {/* Restore from Backup */}
+        <View style={[styles.sectionContainer, styles.restoreSection]}>
+          <GradientText variant="muted" style={styles.sectionLabel}>
+            {t('settings.restoreBackup')}
+          </GradientText>
+          <GlassCard variant="default" style={styles.restoreCard}>
+            <Text style={styles.infoText}>{t('settings.restoreBackupDescription')}</Text>
+            <View style={styles.restoreButtons}>
+              <Button
+                variant="outline"
+                size="small"
+                onPress={() => handlePickBackup('merge')}
+                disabled={isRestoring}
+                style={styles.restoreButton}
+              >
+                {t('settings.restoreMerge')}
+              </Button>
+              <Button
+                variant="secondary"
+                size="small"
+                onPress={() => handlePickBackup('replace')}
+                disabled={isRestoring}
+                style={styles.restoreButton}
+              >
+                {t('settings.restoreReplace')}
+              </Button>
+            </View>
+            {isRestoring && <ActivityIndicator size="small" color={Colors.neon} />}
+            {restoreMessage && <Text style={styles.restoreMessage}>{restoreMessage}</Text>}
+          </GlassCard>
+        </View>
+
         <View style={{ height: Spacing.xxl }} />
       </ScrollView>
 
+      {/* Restore Confirmation */}
+      <ConfirmationModal
+        visible={!!pendingRestore}
+        onClose={() => setPendingRestore(null)}
+        onConfirm={handleRestore}
+        title={pendingRestore?.mode === 'replace' ? t('settings.restoreReplaceTitle') : t('settings.restoreMergeTitle')}
+        message={pendingRestore
+          ? t(pendingRestore.mode === 'replace' ? 'settings.restoreReplaceMessage' : 'settings.restoreMergeMessage', {
+              count: pendingRestore.preview.total,
+              date: new Date(pendingRestore.preview.createdAt).toLocaleDateString(),
+            })
+          : ''}
+        confirmText={t('settings.restore')}
+        cancelText={t('common.cancel')}
+        variant={pendingRestore?.mode === 'replace' ? 'danger' : 'info'}
+      />
+
       {/* Success Modal (fallback when sharing unavailable) */}
       <ConfirmationModal
         visible={showSuccessModal}
@@ -1046,6 +741,26 @@ const styles = StyleSheet.create({
     lineHeight: 18,
   },
 
+  // Restore
+  restoreSection: {
+    marginTop: Spacing.xl,
+  },
+  restoreCard: {
+    gap: Spacing.md,
+  },
+  restoreButtons: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  restoreButton: {
+    flex: 1,
+  },
+  restoreMessage: {
+    fontSize: FontSize.caption,
+    color: Colors.text.secondary,
+    fontFamily: FontFamily.regular,
+  },
+
   // Export Button
   exportButton: {
     marginTop: Spacing.md,
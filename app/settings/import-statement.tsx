@@ -0,0 +1,376 @@
+// SPENDTRAK CINEMATIC EDITION - Import Statement Screen
+// Pick a bank statement, confirm the CSV column mapping and review the preview before importing
+import React, { useState, useCallback, useMemo, memo } from 'react';
+import { View, ScrollView, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { File } from 'expo-file-system/next';
+import * as DocumentPicker from 'expo-document-picker';
+import { Colors, Spacing, FontSize } from '../../src/design/cinematic';
+import { GradientText } from '../../src/components/ui/GradientText';
+import { GlassCard } from '../../src/components/ui/GlassCard';
+import { Chip, Toggle } from '../../src/components/ui/Badge';
+import { Button } from '../../src/components/ui/Button';
+import { Header } from '../../src/components/navigation';
+import { useTranslation } from '../../src/context/LanguageContext';
+import { useTransition } from '../../src/context/TransitionContext';
+import { useCurrency } from '../../src/context/CurrencyContext';
+import { useTransactionStore } from '../../src/stores/transactionStore';
+import {
+  detectStatementFormat,
+  parseCsv,
+  suggestCsvMapping,
+  parseStatement,
+  buildStatementPreview,
+  commitStatementImport,
+  type CsvColumnMapping,
+  type StatementDateFormat,
+  type StatementFormat,
+  type StatementImportResult,
+  type StatementPreviewItem,
+} from '../../src/services/statementImport';
+import { logger } from '../../src/utils/logger';
+
+type ColumnField = 'date' | 'description' | 'amount' | 'debit' | 'credit' | 'currency' | 'notes';
+
+const COLUMN_FIELDS: { field: ColumnField; required: boolean }[] = [
+  { field: 'date', required: true },
+  { field: 'description', required: true },
+  { field: 'amount', required: false },
+  { field: 'debit', required: false },
+  { field: 'credit', required: false },
+  { field: 'currency', required: false },
+  { field: 'notes', required: false },
+];
+
+const DATE_FORMATS: StatementDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+const DECIMAL_SEPARATORS: CsvColumnMapping['decimalSeparator'][] = ['.', ','];
+const PREVIEW_ROWS = 20;
+
+interface PickedStatement {
+  name: string;
+  content: string;
+  format: StatementFormat;
+}
+
+const formatAmount = (amount: number, currency: string) => `${amount < 0 ? '-' : '+'}${Math.abs(amount).toFixed(2)} ${currency}`;
+
+const PreviewRow: React.FC<{ item: StatementPreviewItem }> = memo(({ item }) => (
+  <View style={styles.previewRow}>
+    <View style={styles.previewBody}>
+      <GradientText variant="bright" style={styles.merchant} numberOfLines={1}>
+        {item.row.description}
+      </GradientText>
+      <GradientText variant="muted" style={styles.meta}>{item.row.date}</GradientText>
+    </View>
+    <GradientText variant={item.row.amount < 0 ? 'expense' : 'income'} style={styles.amount}>
+      {formatAmount(item.row.amount, item.transaction.currency || '')}
+    </GradientText>
+  </View>
+));
+
+PreviewRow.displayName = 'PreviewRow';
+
+export default function ImportStatementScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { triggerBlackout } = useTransition();
+  const { currencyCode } = useCurrency();
+  const fetchTransactions = useTransactionStore((state) => state.fetchTransactions);
+
+  const [statement, setStatement] = useState<PickedStatement | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [skipCredits, setSkipCredits] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [result, setResult] = useState<StatementImportResult | null>(null);
+
+  const handlePick = useCallback(async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'application/x-ofx', 'application/vnd.intu.qfx', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      const asset = picked.assets[0];
+      const content = await new File(asset.uri).text();
+      const format = detectStatementFormat(content, asset.name);
+
+      setStatement({ name: asset.name, content, format });
+      setMapping(format === 'csv' ? suggestCsvMapping(content) : null);
+      setResult(null);
+    } catch (error) {
+      logger.transaction.error('Failed to read statement file:', error);
+      Alert.alert(t('common.error'), t('statementImport.readError'));
+    }
+  }, [t]);
+
+  // Column headers to map from: the header row, or numbered columns without one
+  const columns = useMemo(() => {
+    if (!statement || !mapping) return [];
+    const [first = []] = parseCsv(statement.content, mapping.delimiter);
+    return first.map((cell, index) =>
+      mapping.hasHeader && cell.trim() ? cell.trim() : t('statementImport.column', { number: index + 1 })
+    );
+  }, [statement, mapping, t]);
+
+  // Re-parsed whenever the mapping changes so the preview always matches it
+  const preview = useMemo(() => {
+    if (!statement) return null;
+    const parsed = parseStatement(statement.content, {
+      fileName: statement.name,
+      csvMapping: mapping ?? undefined,
+    });
+    return buildStatementPreview(parsed, { defaultCurrency: currencyCode, skipCredits });
+  }, [statement, mapping, currencyCode, skipCredits]);
+
+  const updateMapping = useCallback((changes: Partial<CsvColumnMapping>) => {
+    setMapping((current) => (current ? { ...current, ...changes } : current));
+  }, []);
+
+  const setColumn = useCallback((field: ColumnField, column: number | undefined) => {
+    setMapping((current) => {
+      if (!current) return current;
+      const next = { ...current, [field]: column };
+      // A single signed amount column replaces separate debit/credit columns
+      if (field === 'amount' && column !== undefined) {
+        next.debit = undefined;
+        next.credit = undefined;
+      } else if ((field === 'debit' || field === 'credit') && column !== undefined) {
+        next.amount = undefined;
+      }
+      return next;
+    });
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!preview || preview.items.length === 0) return;
+    setImporting(true);
+    setProgress({ completed: 0, total: preview.items.length });
+
+    try {
+      const imported = await commitStatementImport(preview.items, {
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      });
+      setResult(imported);
+      setStatement(null);
+      setMapping(null);
+      await fetchTransactions();
+    } catch (error) {
+      logger.transaction.error('Statement import failed:', error);
+      Alert.alert(t('common.error'), t('statementImport.importError'));
+    } finally {
+      setImporting(false);
+      setProgress(null);
+    }
+  }, [preview, fetchTransactions, t]);
+
+  const hasAmountColumn = !mapping || mapping.amount !== undefined || mapping.debit !== undefined || mapping.credit !== undefined;
+
+  return (
+    <View style={styles.container}>
+      <Header title={t('statementImport.title')} showBack onBack={() => triggerBlackout(() => router.back())} />
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xxl }]} showsVerticalScrollIndicator={false}>
+        <GradientText variant="muted" style={styles.subtitle}>{t('statementImport.description')}</GradientText>
+
+        <Button variant={statement ? 'outline' : 'primary'} fullWidth onPress={handlePick} disabled={importing}>
+          {statement ? t('statementImport.chooseAnother') : t('statementImport.chooseFile')}
+        </Button>
+
+        {result && (
+          <GlassCard variant="glow" style={styles.card}>
+            <GradientText variant="bright" style={styles.sectionTitle}>{t('statementImport.doneTitle')}</GradientText>
+            <GradientText variant="muted" style={styles.meta}>
+              {t('statementImport.doneMessage', {
+                imported: result.imported.length,
+                skipped: result.skipped.length,
+                queued: result.queued.length,
+                failed: result.failed.length,
+              })}
+            </GradientText>
+            {result.queued.length > 0 && (
+              <Button variant="ghost" fullWidth onPress={() => router.push('/settings/reconciliation')}>
+                {t('reconciliation.title')}
+              </Button>
+            )}
+          </GlassCard>
+        )}
+
+        {statement && (
+          <GradientText variant="subtle" style={styles.fileName} numberOfLines={1}>
+            {t('statementImport.fileSummary', { name: statement.name, format: statement.format.toUpperCase() })}
+          </GradientText>
+        )}
+
+        {/* Column mapping (CSV only; OFX and QIF are self-describing) */}
+        {statement && mapping && (
+          <GlassCard variant="default" style={styles.card}>
+            <GradientText variant="bright" style={styles.sectionTitle}>{t('statementImport.mappingTitle')}</GradientText>
+            <GradientText variant="muted" style={styles.meta}>{t('statementImport.mappingDescription')}</GradientText>
+
+            {COLUMN_FIELDS.map(({ field, required }) => (
+              <View key={field} style={styles.field}>
+                <GradientText variant="subtle" style={styles.fieldLabel}>{t(`statementImport.fields.${field}`)}</GradientText>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.columnChips}>
+                  {!required && (
+                    <Chip selected={mapping[field] === undefined} onPress={() => setColumn(field, undefined)}>
+                      {t('statementImport.notMapped')}
+                    </Chip>
+                  )}
+                  {columns.map((column, index) => (
+                    <Chip key={`${field}-${index}`} selected={mapping[field] === index} onPress={() => setColumn(field, index)}>
+                      {column}
+                    </Chip>
+                  ))}
+                </ScrollView>
+              </View>
+            ))}
+
+            <View style={styles.field}>
+              <GradientText variant="subtle" style={styles.fieldLabel}>{t('statementImport.dateFormat')}</GradientText>
+              <View style={styles.chips}>
+                {DATE_FORMATS.map((format) => (
+                  <Chip key={format} selected={mapping.dateFormat === format} onPress={() => updateMapping({ dateFormat: format })}>
+                    {format}
+                  </Chip>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.field}>
+              <GradientText variant="subtle" style={styles.fieldLabel}>{t('statementImport.decimalSeparator')}</GradientText>
+              <View style={styles.chips}>
+                {DECIMAL_SEPARATORS.map((separator) => (
+                  <Chip key={separator} selected={mapping.decimalSeparator === separator} onPress={() => updateMapping({ decimalSeparator: separator })}>
+                    {separator === '.' ? '1,234.56' : '1.234,56'}
+                  </Chip>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.toggleRow}>
+              <GradientText variant="subtle" style={styles.toggleLabel}>{t('statementImport.hasHeader')}</GradientText>
+              <Toggle value={mapping.hasHeader} onValueChange={(hasHeader) => updateMapping({ hasHeader })} size="small" />
+            </View>
+            <View style={styles.toggleRow}>
+              <GradientText variant="subtle" style={styles.toggleLabel}>{t('statementImport.invertSign')}</GradientText>
+              <Toggle value={mapping.invertSign} onValueChange={(invertSign) => updateMapping({ invertSign })} size="small" />
+            </View>
+          </GlassCard>
+        )}
+
+        {/* Preview */}
+        {statement && preview && (
+          <GlassCard variant="default" style={styles.card}>
+            <GradientText variant="bright" style={styles.sectionTitle}>{t('statementImport.previewTitle')}</GradientText>
+            <GradientText variant="muted" style={styles.meta}>
+              {preview.dateRange
+                ? t('statementImport.previewSummary', {
+                    count: preview.items.length,
+                    start: preview.dateRange.start,
+                    end: preview.dateRange.end,
+                  })
+                : t('statementImport.previewEmpty')}
+            </GradientText>
+            <GradientText variant="muted" style={styles.meta}>
+              {t('statementImport.previewTotals', {
+                debits: preview.totalDebits.toFixed(2),
+                credits: preview.totalCredits.toFixed(2),
+              })}
+            </GradientText>
+
+            <View style={styles.toggleRow}>
+              <GradientText variant="subtle" style={styles.toggleLabel}>{t('statementImport.skipCredits')}</GradientText>
+              <Toggle value={skipCredits} onValueChange={setSkipCredits} size="small" />
+            </View>
+            {preview.skippedCredits > 0 && (
+              <GradientText variant="muted" style={styles.meta}>
+                {t('statementImport.skippedCredits', { count: preview.skippedCredits })}
+              </GradientText>
+            )}
+
+            {!hasAmountColumn && (
+              <GradientText variant="expense" style={styles.meta}>{t('statementImport.noAmountColumn')}</GradientText>
+            )}
+            {preview.errors.length > 0 && (
+              <View style={styles.errors}>
+                <GradientText variant="expense" style={styles.meta}>
+                  {t('statementImport.rowErrors', { count: preview.errors.length })}
+                </GradientText>
+                {preview.errors.slice(0, 3).map((error) => (
+                  <GradientText key={`${error.line}-${error.message}`} variant="muted" style={styles.meta} numberOfLines={1}>
+                    {t('statementImport.rowError', { line: error.line, message: error.message })}
+                  </GradientText>
+                ))}
+              </View>
+            )}
+
+            {preview.items.slice(0, PREVIEW_ROWS).map((item, index) => (
+              <PreviewRow key={`${item.row.date}-${index}`} item={item} />
+            ))}
+            {preview.items.length > PREVIEW_ROWS && (
+              <GradientText variant="muted" style={styles.meta}>
+                {t('statementImport.moreRows', { count: preview.items.length - PREVIEW_ROWS })}
+              </GradientText>
+            )}
+          </GlassCard>
+        )}
+
+        {statement && preview && (
+          <>
+            <Button
+              variant="primary"
+              fullWidth
+              loading={importing}
+              disabled={importing || preview.items.length === 0}
+              onPress={handleImport}
+            >
+              {t('statementImport.import', { count: preview.items.length })}
+            </Button>
+            {progress && (
+              <View style={styles.progress}>
+                <ActivityIndicator size="small" color={Colors.neon} />
+                <GradientText variant="muted" style={styles.meta}>
+                  {t('statementImport.importing', { completed: progress.completed, total: progress.total })}
+                </GradientText>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: 'transparent' },
+  scrollView: { flex: 1 },
+  content: { paddingHorizontal: Spacing.lg, paddingTop: Spacing.lg },
+  subtitle: { fontSize: FontSize.caption, marginBottom: Spacing.md },
+  fileName: { fontSize: FontSize.caption, marginTop: Spacing.md },
+  card: { marginTop: Spacing.lg, gap: Spacing.sm },
+  sectionTitle: { fontSize: FontSize.md },
+  meta: { fontSize: FontSize.caption },
+  field: { marginTop: Spacing.sm, gap: Spacing.xs },
+  fieldLabel: { fontSize: FontSize.caption },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: Spacing.sm },
+  columnChips: { flexDirection: 'row', gap: Spacing.sm },
+  toggleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: Spacing.sm },
+  toggleLabel: { flex: 1, fontSize: FontSize.body },
+  errors: { gap: 2 },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border.subtle,
+  },
+  previewBody: { flex: 1 },
+  merchant: { fontSize: FontSize.body },
+  amount: { fontSize: FontSize.body },
+  progress: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: Spacing.sm, marginTop: Spacing.md },
+});
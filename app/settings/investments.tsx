@@ -1,7 +1,7 @@
 // SPENDTRAK CINEMATIC EDITION - Investments Screen with Swipe-to-Delete
 // Performance optimized with React.memo and useMemo
 import React, { useState, useCallback, useEffect, useMemo, memo } from 'react';
-import { View, ScrollView, StyleSheet, Text, Dimensions, ActivityIndicator } from 'react-native';
+import { View, ScrollView, StyleSheet, Text, Dimensions, ActivityIndicator, Alert, Pressable } from 'react-native';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
@@ -24,6 +24,9 @@ import { ConfirmationModal } from '../../src/components/ui/ConfirmationModal';
 import { Header } from '../../src/components/navigation';
 import { SectionHeader } from '../../src/components/dashboard';
 import { EmptyState } from '../../src/components/premium';
+import { Chip } from '../../src/components/ui/Badge';
+import { AmountInput } from '../../src/components/ui/Input';
+import { BarChart } from '../../src/components/charts';
 import {
   InvestmentIcon,
   PlusIcon,
@@ -32,6 +35,10 @@ import {
   TrashIcon,
 } from '../../src/components/icons';
 import { useInvestmentStore } from '../../src/stores/investmentStore';
+import { calculateRebalancePlan, daysUntilExDividend } from '../../src/services/investments';
+import { exportGainsReportCSV } from '../../src/services/export';
+import { formatDate } from '../../src/utils/formatters';
+import type { InvestmentType, RebalanceMode, RebalanceRecommendation } from '../../src/types';
 import { useTransition } from '../../src/context/TransitionContext';
 import { logger } from '../../src/utils/logger';
 
@@ -191,18 +198,70 @@ const SwipeableInvestmentCard: React.FC<SwipeableInvestmentCardProps> = memo(({
 // Display name for debugging
 SwipeableInvestmentCard.displayName = 'SwipeableInvestmentCard';
 
+// Current vs target allocation per key; the marker shows the target
+interface AllocationDriftChartProps {
+  recommendations: RebalanceRecommendation[];
+}
+
+const AllocationDriftChart: React.FC<AllocationDriftChartProps> = memo(({ recommendations }) => {
+  const { t } = useTranslation();
+
+  return (
+    <View accessibilityRole="image" accessibilityLabel={t('settings.rebalancing')}>
+      {recommendations.map((rec) => {
+        const driftColor = rec.exceeds_threshold ? Colors.status.warning : Colors.semantic.neutral;
+        return (
+          <View key={rec.symbol} style={styles.driftRow}>
+            <View style={styles.driftLabelRow}>
+              <Text style={styles.driftLabel} numberOfLines={1}>{rec.name}</Text>
+              <Text style={[styles.driftValue, { color: driftColor }]}>
+                {`${rec.current_allocation.toFixed(1)}% · ${rec.difference >= 0 ? '+' : ''}${rec.difference.toFixed(1)}`}
+              </Text>
+            </View>
+            <View style={styles.driftTrack}>
+              <View
+                style={[
+                  styles.driftBar,
+                  { width: `${Math.min(rec.current_allocation, 100)}%`, backgroundColor: driftColor },
+                ]}
+              />
+              <View style={[styles.driftTarget, { left: `${Math.min(rec.target_allocation, 100)}%` }]} />
+            </View>
+            <Text style={styles.driftTargetText}>
+              {t('settings.targetPercent', { percent: rec.target_allocation.toFixed(1) })}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+});
+
+AllocationDriftChart.displayName = 'AllocationDriftChart';
+
 export default function InvestmentsScreen() {
   const router = useRouter();
   const { t } = useTranslation();
   const { triggerBlackout } = useTransition();
   const insets = useSafeAreaInsets();
-  const { format: formatCurrency } = useCurrency();
+  const { format: formatCurrency, currencyCode } = useCurrency();
 
   // Connect to Zustand store
   const {
     holdings: storeHoldings,
+    cryptoHoldings,
+    targetAllocation,
+    dividendSummary,
+    gainsReport,
+    watchlist,
     isLoading,
     fetchHoldings,
+    fetchCryptoHoldings,
+    fetchTargetAllocation,
+    fetchDividendSummary,
+    fetchGainsReport,
+    fetchWatchlist,
+    refreshPricesIfStale,
     deleteHolding,
   } = useInvestmentStore();
 
@@ -214,14 +273,30 @@ export default function InvestmentsScreen() {
   const [investmentToDelete, setInvestmentToDelete] = useState<Investment | null>(null);
   const [resetSwipeId, setResetSwipeId] = useState<string | null>(null);
 
+  // Rebalancing inputs
+  const [rebalanceMode, setRebalanceMode] = useState<RebalanceMode>('full');
+  const [contribution, setContribution] = useState('');
+
+  // Capital gains tax year
+  const currentYear = new Date().getFullYear();
+  const [gainsYear, setGainsYear] = useState(currentYear);
+
   // Fetch investments when screen is focused
   useFocusEffect(
     useCallback(() => {
       logger.investment.debug('Investments screen focused - fetching holdings...');
-      fetchHoldings();
+      fetchHoldings().then(refreshPricesIfStale);
+      fetchCryptoHoldings();
+      fetchTargetAllocation();
+      fetchDividendSummary();
+      fetchWatchlist();
     }, [])
   );
 
+  useEffect(() => {
+    fetchGainsReport(gainsYear);
+  }, [gainsYear]);
+
   // Merge store holdings with local investments - use useMemo instead of useCallback
   const investments = useMemo(() => {
     // Convert store holdings to display format
@@ -242,6 +317,39 @@ export default function InvestmentsScreen() {
   // Memoize total calculation
   const totalValue = useMemo(() => investments.reduce((sum, i) => sum + i.value, 0), [investments]);
 
+  const rebalancePlan = useMemo(() => {
+    if (!targetAllocation) return null;
+    return calculateRebalancePlan(
+      [
+        ...storeHoldings,
+        ...cryptoHoldings.map((c) => ({ ...c, investment_type: 'cryptocurrency' as InvestmentType })),
+      ],
+      targetAllocation,
+      { mode: rebalanceMode, contribution: parseFloat(contribution) || 0 }
+    );
+  }, [storeHoldings, cryptoHoldings, targetAllocation, rebalanceMode, contribution]);
+
+  const trades = rebalancePlan?.recommendations.filter((r) => r.action !== 'hold') ?? [];
+
+  const dividendChartData = useMemo(
+    () => Object.entries(dividendSummary?.projected_by_month ?? {}).map(([month, amount]) => ({
+      label: formatDate(`${month}-01T00:00:00`, 'MMM'),
+      value: amount,
+    })),
+    [dividendSummary]
+  );
+  const hasDividends = !!dividendSummary &&
+    (dividendSummary.trailing_12m_dividends > 0 || dividendSummary.upcoming_dividends.length > 0);
+
+  const handleExportGains = useCallback(async () => {
+    try {
+      await exportGainsReportCSV(gainsYear);
+    } catch (error) {
+      logger.investment.error('Failed to export gains report:', error);
+      Alert.alert(t('common.error'), (error as Error).message);
+    }
+  }, [gainsYear, t]);
+
   // Show delete confirmation modal
   const handleDeleteRequest = useCallback((investment: Investment) => {
     setInvestmentToDelete(investment);
@@ -319,6 +427,211 @@ export default function InvestmentsScreen() {
           </GradientText>
         </GlassCard>
 
+        {/* Rebalancing */}
+        {investments.length > 0 && (
+          <View style={styles.section}>
+            <SectionHeader
+              title={t('settings.rebalancing')}
+              action={t(targetAllocation ? 'settings.editTargets' : 'settings.setTargets')}
+              onAction={() => triggerBlackout(() => router.push('/(modals)/target-allocation'))}
+            />
+            <GlassCard variant="default">
+              {rebalancePlan ? (
+                <>
+                  <AllocationDriftChart recommendations={rebalancePlan.recommendations} />
+                  <View style={styles.rebalanceModeRow}>
+                    {(['full', 'contributions_only'] as RebalanceMode[]).map((mode) => (
+                      <Chip key={mode} selected={rebalanceMode === mode} onPress={() => setRebalanceMode(mode)}>
+                        {t(mode === 'full' ? 'settings.rebalanceFull' : 'settings.rebalanceContributionsOnly')}
+                      </Chip>
+                    ))}
+                  </View>
+                  <AmountInput
+                    label={t('settings.newContribution')}
+                    value={contribution}
+                    onChangeText={setContribution}
+                    placeholder="0.00"
+                    currency={currencyCode}
+                  />
+                  {trades.length > 0 ? (
+                    trades.map((trade) => (
+                      <Text
+                        key={trade.symbol}
+                        style={[
+                          styles.rebalanceText,
+                          { color: trade.action === 'buy' ? Colors.semantic.income : Colors.semantic.expense },
+                        ]}
+                      >
+                        {t(trade.action === 'buy' ? 'settings.rebalanceBuy' : 'settings.rebalanceSell', {
+                          amount: formatCurrency(trade.amount),
+                          name: trade.name,
+                        })}
+                        {trade.shares > 0 ? ` (${t('settings.rebalanceShares', { shares: trade.shares })})` : ''}
+                      </Text>
+                    ))
+                  ) : (
+                    <Text style={[styles.rebalanceText, { color: Colors.semantic.neutral }]}>
+                      {t('settings.driftWithinThreshold', {
+                        threshold: rebalancePlan.target_allocation.drift_threshold,
+                      })}
+                    </Text>
+                  )}
+                </>
+              ) : (
+                <Text style={[styles.rebalanceText, { color: Colors.text.tertiary }]}>
+                  {t('settings.noTargetAllocation')}
+                </Text>
+              )}
+            </GlassCard>
+          </View>
+        )}
+
+        {/* Dividends */}
+        {hasDividends && dividendSummary && (
+          <View style={styles.section}>
+            <SectionHeader title={t('settings.dividends')} />
+            <GlassCard variant="default">
+              <View style={styles.dividendStats}>
+                <View style={styles.dividendStat}>
+                  <Text style={styles.dividendStatLabel}>{t('settings.dividendsYtd')}</Text>
+                  <Text style={styles.dividendStatValue}>{formatCurrency(dividendSummary.total_dividends_ytd)}</Text>
+                </View>
+                <View style={styles.dividendStat}>
+                  <Text style={styles.dividendStatLabel}>{t('settings.yieldOnCost')}</Text>
+                  <Text style={styles.dividendStatValue}>{`${dividendSummary.yield_on_cost.toFixed(2)}%`}</Text>
+                </View>
+                <View style={styles.dividendStat}>
+                  <Text style={styles.dividendStatLabel}>{t('settings.projectedDividends')}</Text>
+                  <Text style={[styles.dividendStatValue, { color: Colors.semantic.income }]}>
+                    {formatCurrency(dividendSummary.projected_12m_income)}
+                  </Text>
+                </View>
+              </View>
+              {dividendSummary.projected_12m_income > 0 && (
+                <BarChart
+                  data={dividendChartData}
+                  height={140}
+                  barWidth={16}
+                  barGap={8}
+                  showValues={false}
+                  style={styles.dividendChart}
+                  accessibilityTitle={t('settings.projectedDividends')}
+                  formatValue={formatCurrency}
+                />
+              )}
+              {dividendSummary.upcoming_dividends.slice(0, 5).map((entry) => (
+                <View key={entry.symbol} style={styles.dividendRow}>
+                  <View style={styles.dividendInfo}>
+                    <Text style={styles.dividendSymbol}>{entry.symbol}</Text>
+                    <Text style={styles.dividendDates}>
+                      {t('settings.dividendDates', {
+                        exDate: formatDate(`${entry.ex_date}T00:00:00`, 'MMM d'),
+                        payDate: formatDate(`${entry.pay_date}T00:00:00`, 'MMM d'),
+                        days: Math.max(0, daysUntilExDividend(entry.ex_date)),
+                      })}
+                    </Text>
+                  </View>
+                  <Text style={[styles.dividendAmount, { color: Colors.semantic.income }]}>
+                    {formatCurrency(entry.estimated_amount)}
+                  </Text>
+                </View>
+              ))}
+            </GlassCard>
+          </View>
+        )}
+
+        {/* Capital Gains */}
+        {investments.length > 0 && (
+          <View style={styles.section}>
+            <SectionHeader
+              title={t('settings.capitalGains')}
+              action={t('settings.exportGains')}
+              onAction={handleExportGains}
+            />
+            <GlassCard variant="default">
+              <View style={styles.gainsYearRow}>
+                {[currentYear, currentYear - 1].map((year) => (
+                  <Chip key={year} selected={gainsYear === year} onPress={() => setGainsYear(year)}>
+                    {String(year)}
+                  </Chip>
+                ))}
+              </View>
+              <View style={styles.gainsRow}>
+                <Text style={styles.gainsLabel} />
+                <Text style={styles.gainsHeading}>{t('settings.shortTermGains')}</Text>
+                <Text style={styles.gainsHeading}>{t('settings.longTermGains')}</Text>
+              </View>
+              {[
+                { label: t('settings.realizedGains'), short: gainsReport?.short_term.gain ?? 0, long: gainsReport?.long_term.gain ?? 0 },
+                { label: t('settings.unrealizedGains'), short: gainsReport?.unrealized_short_term ?? 0, long: gainsReport?.unrealized_long_term ?? 0 },
+              ].map((row) => (
+                <View key={row.label} style={styles.gainsRow}>
+                  <Text style={styles.gainsLabel}>{row.label}</Text>
+                  {[row.short, row.long].map((gain, index) => (
+                    <Text
+                      key={index}
+                      style={[
+                        styles.gainsValue,
+                        { color: gain >= 0 ? Colors.semantic.income : Colors.semantic.expense },
+                      ]}
+                    >
+                      {formatCurrency(gain)}
+                    </Text>
+                  ))}
+                </View>
+              ))}
+            </GlassCard>
+          </View>
+        )}
+
+        {/* Watchlist */}
+        <View style={styles.section}>
+          <SectionHeader
+            title={t('settings.watchlist')}
+            action={t('settings.addToWatchlist')}
+            onAction={() => triggerBlackout(() => router.push('/(modals)/watchlist-item'))}
+          />
+          <GlassCard variant="default">
+            {watchlist.length > 0 ? (
+              watchlist.map((item) => (
+                <Pressable
+                  key={item.id}
+                  style={styles.watchlistRow}
+                  onPress={() => triggerBlackout(() => router.push(`/(modals)/watchlist-item?id=${item.id}`))}
+                >
+                  <View style={styles.watchlistInfo}>
+                    <Text style={styles.watchlistSymbol}>{item.symbol}</Text>
+                    {item.distance_to_target !== null && (
+                      <Text style={styles.watchlistDetail}>
+                        {t('settings.toTarget', {
+                          percent: `${item.distance_to_target >= 0 ? '+' : ''}${item.distance_to_target.toFixed(2)}`,
+                        })}
+                      </Text>
+                    )}
+                  </View>
+                  <View style={styles.watchlistPrice}>
+                    <Text style={styles.watchlistSymbol}>
+                      {item.current_price > 0 ? `${item.current_price.toFixed(2)} ${item.currency}` : '—'}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.watchlistDetail,
+                        { color: item.day_change_percentage >= 0 ? Colors.semantic.income : Colors.semantic.expense },
+                      ]}
+                    >
+                      {`${item.day_change_percentage >= 0 ? '+' : ''}${item.day_change_percentage.toFixed(2)}%`}
+                    </Text>
+                  </View>
+                </Pressable>
+              ))
+            ) : (
+              <Text style={[styles.rebalanceText, { color: Colors.text.tertiary }]}>
+                {t('settings.watchlistEmpty')}
+              </Text>
+            )}
+          </GlassCard>
+        </View>
+
         {/* Swipe Hint */}
         {investments.length > 0 && (
           <View style={styles.swipeHint}>
@@ -428,6 +741,156 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.lg,
   },
 
+  // Rebalancing
+  rebalanceModeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginVertical: Spacing.md,
+  },
+  rebalanceText: {
+    fontSize: FontSize.caption,
+    fontFamily: FontFamily.regular,
+    marginTop: Spacing.xs,
+  },
+  driftRow: {
+    marginBottom: Spacing.sm,
+  },
+  driftLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.xs,
+  },
+  driftLabel: {
+    flex: 1,
+    fontSize: FontSize.caption,
+    color: Colors.text.secondary,
+    fontFamily: FontFamily.medium,
+  },
+  driftValue: {
+    fontSize: FontSize.caption,
+    fontFamily: FontFamily.medium,
+  },
+  driftTrack: {
+    height: 8,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.transparent.neon10,
+  },
+  driftBar: {
+    height: 8,
+    borderRadius: BorderRadius.sm,
+  },
+  driftTarget: {
+    position: 'absolute',
+    top: -2,
+    width: 2,
+    height: 12,
+    marginLeft: -1,
+    backgroundColor: Colors.text.primary,
+  },
+  driftTargetText: {
+    fontSize: FontSize.caption,
+    color: Colors.text.tertiary,
+    fontFamily: FontFamily.regular,
+    marginTop: 2,
+  },
+
+  // Dividends
+  dividendStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  dividendStat: {
+    flex: 1,
+  },
+  dividendStatLabel: {
+    fontSize: FontSize.caption,
+    color: Colors.text.tertiary,
+    fontFamily: FontFamily.regular,
+  },
+  dividendStatValue: {
+    fontSize: FontSize.body,
+    color: Colors.text.primary,
+    fontFamily: FontFamily.semiBold,
+    marginTop: 2,
+  },
+  dividendChart: {
+    marginTop: Spacing.md,
+  },
+  gainsYearRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  gainsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+  },
+  gainsLabel: {
+    flex: 1,
+    fontSize: FontSize.caption,
+    color: Colors.text.tertiary,
+    fontFamily: FontFamily.regular,
+  },
+  gainsHeading: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: FontSize.caption,
+    color: Colors.text.tertiary,
+    fontFamily: FontFamily.regular,
+  },
+  gainsValue: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: FontSize.body,
+    fontFamily: FontFamily.semiBold,
+  },
+  dividendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+  },
+  dividendInfo: {
+    flex: 1,
+  },
+  dividendSymbol: {
+    fontSize: FontSize.body,
+    color: Colors.text.primary,
+    fontFamily: FontFamily.medium,
+  },
+  dividendDates: {
+    fontSize: FontSize.caption,
+    color: Colors.text.tertiary,
+    fontFamily: FontFamily.regular,
+  },
+  dividendAmount: {
+    fontSize: FontSize.body,
+    fontFamily: FontFamily.semiBold,
+  },
+
+  // Watchlist
+  watchlistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+  },
+  watchlistInfo: {
+    flex: 1,
+  },
+  watchlistPrice: {
+    alignItems: 'flex-end',
+  },
+  watchlistSymbol: {
+    fontSize: FontSize.body,
+    color: Colors.text.primary,
+    fontFamily: FontFamily.medium,
+  },
+  watchlistDetail: {
+    fontSize: FontSize.caption,
+    color: Colors.text.tertiary,
+    fontFamily: FontFamily.regular,
+  },
+
   // Swipeable Container
   swipeContainer: {
     position: 'relative',
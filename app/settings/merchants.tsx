@@ -0,0 +1,216 @@
+// SPENDTRAK CINEMATIC EDITION - Merchants Screen
+// Canonical merchants from the user's transactions; select several to merge them
+import React, { useState, useCallback, memo } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Pressable, Image, Text } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors, Spacing, FontSize, BorderRadius } from '../../src/design/cinematic';
+import { GradientText } from '../../src/components/ui/GradientText';
+import { GlassCard } from '../../src/components/ui/GlassCard';
+import { Chip } from '../../src/components/ui/Badge';
+import { Button } from '../../src/components/ui/Button';
+import { Header } from '../../src/components/navigation';
+import { EmptyState } from '../../src/components/premium';
+import { ShoppingIcon } from '../../src/components/icons';
+import { useTranslation } from '../../src/context/LanguageContext';
+import { useTransition } from '../../src/context/TransitionContext';
+import { getMerchantSummaries, mergeMerchants, type MerchantSummary } from '../../src/services/merchants';
+import { logger } from '../../src/utils/logger';
+
+interface MerchantCardProps {
+  summary: MerchantSummary;
+  selected: boolean;
+  onPress: (summary: MerchantSummary) => void;
+}
+
+const MerchantCard: React.FC<MerchantCardProps> = memo(({ summary, selected, onPress }) => {
+  const { t } = useTranslation();
+  const { merchant, transactionCount, variants } = summary;
+
+  return (
+    <Pressable onPress={() => onPress(summary)} accessibilityRole="checkbox" accessibilityState={{ checked: selected }}>
+      <GlassCard variant={selected ? 'glow' : 'default'} style={styles.card}>
+        <View style={styles.cardRow}>
+          <View style={styles.logo}>
+            {merchant.logo_url ? (
+              <Image source={{ uri: merchant.logo_url }} style={styles.logoImage} />
+            ) : (
+              <Text style={styles.logoText}>{merchant.icon ?? merchant.name.charAt(0).toUpperCase()}</Text>
+            )}
+          </View>
+          <View style={styles.cardBody}>
+            <GradientText variant="bright" style={styles.name} numberOfLines={1}>
+              {merchant.name}
+            </GradientText>
+            <GradientText variant="muted" style={styles.meta} numberOfLines={1}>
+              {variants.join(' · ')}
+            </GradientText>
+            <GradientText variant="subtle" style={styles.meta}>
+              {t('merchants.transactionCount', { count: transactionCount })}
+            </GradientText>
+          </View>
+          <Ionicons
+            name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+            size={22}
+            color={selected ? Colors.neon : Colors.text.tertiary}
+          />
+        </View>
+      </GlassCard>
+    </Pressable>
+  );
+});
+
+MerchantCard.displayName = 'MerchantCard';
+
+export default function MerchantsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { triggerBlackout } = useTransition();
+
+  const [summaries, setSummaries] = useState<MerchantSummary[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [targetKey, setTargetKey] = useState<string | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const loadMerchants = useCallback(async () => {
+    try {
+      setSummaries(await getMerchantSummaries());
+    } catch (error) {
+      logger.transaction.error('Failed to load merchants:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadMerchants();
+    }, [loadMerchants])
+  );
+
+  const handleToggle = useCallback((summary: MerchantSummary) => {
+    const key = summary.merchant.key;
+    const next = selectedKeys.includes(key) ? selectedKeys.filter((k) => k !== key) : [...selectedKeys, key];
+    setSelectedKeys(next);
+    // The first merchant picked is kept unless the user chooses another
+    setTargetKey((current) => (current && next.includes(current) ? current : next[0] ?? null));
+  }, [selectedKeys]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedKeys([]);
+    setTargetKey(null);
+  }, []);
+
+  const selected = summaries.filter((summary) => selectedKeys.includes(summary.merchant.key));
+  const target = selected.find((summary) => summary.merchant.key === targetKey);
+
+  const handleMerge = useCallback(() => {
+    if (!target) return;
+    const sources = selected.filter((summary) => summary !== target);
+
+    Alert.alert(
+      t('merchants.mergeTitle', { merchant: target.merchant.name }),
+      t('merchants.mergeMessage', {
+        merchants: sources.map((summary) => summary.merchant.name).join(', '),
+        merchant: target.merchant.name,
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('merchants.merge', { count: selected.length }),
+          onPress: async () => {
+            setMerging(true);
+            try {
+              const updated = await mergeMerchants(target.merchant.key, sources.map((summary) => summary.merchant.key));
+              clearSelection();
+              await loadMerchants();
+              Alert.alert(t('common.success'), t('merchants.merged', { count: updated }));
+            } catch (error) {
+              logger.transaction.error('Failed to merge merchants:', error);
+              Alert.alert(t('common.error'), t('merchants.mergeError'));
+            } finally {
+              setMerging(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [target, selected, t, clearSelection, loadMerchants]);
+
+  return (
+    <View style={styles.container}>
+      <Header title={t('merchants.title')} showBack onBack={() => triggerBlackout(() => router.back())} />
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xxl }]} showsVerticalScrollIndicator={false}>
+        <GradientText variant="muted" style={styles.subtitle}>{t('merchants.description')}</GradientText>
+
+        {selected.length >= 2 && (
+          <GlassCard variant="default" style={styles.mergePanel}>
+            <GradientText variant="subtle" style={styles.meta}>{t('merchants.keepAs')}</GradientText>
+            <View style={styles.chips}>
+              {selected.map((summary) => (
+                <Chip
+                  key={summary.merchant.key}
+                  selected={summary.merchant.key === targetKey}
+                  onPress={() => setTargetKey(summary.merchant.key)}
+                >
+                  {summary.merchant.name}
+                </Chip>
+              ))}
+            </View>
+            <Button variant="primary" fullWidth loading={merging} disabled={!target || merging} onPress={handleMerge}>
+              {t('merchants.merge', { count: selected.length })}
+            </Button>
+            <Button variant="ghost" fullWidth onPress={clearSelection} style={styles.clearButton}>
+              {t('merchants.clearSelection')}
+            </Button>
+          </GlassCard>
+        )}
+
+        {summaries.length > 0 ? (
+          summaries.map((summary) => (
+            <MerchantCard
+              key={summary.merchant.key}
+              summary={summary}
+              selected={selectedKeys.includes(summary.merchant.key)}
+              onPress={handleToggle}
+            />
+          ))
+        ) : (
+          <EmptyState
+            icon={<ShoppingIcon size={48} color={Colors.text.tertiary} />}
+            title={t('merchants.title')}
+            description={t('merchants.empty')}
+          />
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: 'transparent' },
+  scrollView: { flex: 1 },
+  content: { paddingHorizontal: Spacing.lg, paddingTop: Spacing.lg },
+  subtitle: { fontSize: FontSize.caption, marginBottom: Spacing.md },
+  mergePanel: { marginBottom: Spacing.lg, gap: Spacing.sm },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: Spacing.sm, marginBottom: Spacing.sm },
+  clearButton: { marginTop: Spacing.xs },
+  card: { marginBottom: Spacing.md },
+  cardRow: { flexDirection: 'row', alignItems: 'center', gap: Spacing.md },
+  logo: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.background.tertiary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  logoImage: { width: 40, height: 40 },
+  logoText: { fontSize: FontSize.md, color: Colors.text.secondary },
+  cardBody: { flex: 1 },
+  name: { fontSize: FontSize.md, marginBottom: 2 },
+  meta: { fontSize: FontSize.caption },
+});
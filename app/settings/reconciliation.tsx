@@ -0,0 +1,225 @@
+// SPENDTRAK CINEMATIC EDITION - Duplicate Review Screen
+// Review queue for transactions that look like duplicates across sources
+import React, { useState, useCallback, useEffect, memo } from 'react';
+import { View, ScrollView, StyleSheet, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Colors, Spacing, FontSize } from '../../src/design/cinematic';
+import { GradientText } from '../../src/components/ui/GradientText';
+import { GlassCard } from '../../src/components/ui/GlassCard';
+import { Button } from '../../src/components/ui/Button';
+import { Header } from '../../src/components/navigation';
+import { SectionHeader } from '../../src/components/dashboard';
+import { EmptyState } from '../../src/components/premium';
+import { CheckIcon, RefreshIcon } from '../../src/components/icons';
+import { useTranslation } from '../../src/context/LanguageContext';
+import { useTransition } from '../../src/context/TransitionContext';
+import { useTransactionStore } from '../../src/stores/transactionStore';
+import {
+  getReconciliationQueue,
+  scanForDuplicates,
+  resolveProposal,
+  type ReconciliationProposal,
+  type ReconciliationResolution,
+} from '../../src/services/reconciliation';
+import { logger } from '../../src/utils/logger';
+
+interface TransactionSummary {
+  merchant_name: string;
+  amount: number;
+  currency: string;
+  transaction_date: string;
+  source: string;
+  card_last_four: string | null;
+}
+
+const formatAmount = (amount: number, currency: string) => `${Math.abs(amount).toFixed(2)} ${currency}`;
+
+const TransactionRow: React.FC<{ label: string; transaction: TransactionSummary }> = memo(({ label, transaction }) => (
+  <View style={styles.row}>
+    <GradientText variant="muted" style={styles.rowLabel}>{label}</GradientText>
+    <View style={styles.rowBody}>
+      <GradientText variant="bright" style={styles.merchant} numberOfLines={1}>
+        {transaction.merchant_name}
+      </GradientText>
+      <GradientText variant="muted" style={styles.meta}>
+        {transaction.transaction_date} · {transaction.source}
+        {transaction.card_last_four ? ` · •••• ${transaction.card_last_four}` : ''}
+      </GradientText>
+    </View>
+    <GradientText variant="expense" style={styles.amount}>
+      {formatAmount(transaction.amount, transaction.currency)}
+    </GradientText>
+  </View>
+));
+
+TransactionRow.displayName = 'TransactionRow';
+
+interface ProposalCardProps {
+  proposal: ReconciliationProposal;
+  busy: boolean;
+  onResolve: (proposal: ReconciliationProposal, resolution: ReconciliationResolution) => void;
+}
+
+const ProposalCard: React.FC<ProposalCardProps> = memo(({ proposal, busy, onResolve }) => {
+  const { t } = useTranslation();
+  const other = (proposal.incoming ?? proposal.duplicate) as TransactionSummary;
+
+  return (
+    <GlassCard variant="default" style={styles.card}>
+      <View style={styles.cardHeader}>
+        <GradientText variant="primary" style={styles.score}>
+          {t('reconciliation.match', { percent: Math.round(proposal.score * 100) })}
+        </GradientText>
+        <GradientText variant="muted" style={styles.reasons} numberOfLines={2}>
+          {proposal.reasons.map((reason) => t(`reconciliation.reasons.${reason}`)).join(' · ')}
+        </GradientText>
+      </View>
+
+      <TransactionRow label={t('reconciliation.existing')} transaction={proposal.existing} />
+      <TransactionRow
+        label={proposal.kind === 'incoming' ? t('reconciliation.incoming') : t('reconciliation.duplicate')}
+        transaction={other}
+      />
+
+      <View style={styles.actions}>
+        <Button size="small" variant="primary" disabled={busy} onPress={() => onResolve(proposal, 'merge')}>
+          {t('reconciliation.merge')}
+        </Button>
+        <Button size="small" variant="outline" disabled={busy} onPress={() => onResolve(proposal, 'keep_both')}>
+          {t('reconciliation.keepBoth')}
+        </Button>
+        <Button size="small" variant="ghost" disabled={busy} onPress={() => onResolve(proposal, 'discard')}>
+          {t('reconciliation.discard')}
+        </Button>
+      </View>
+    </GlassCard>
+  );
+});
+
+ProposalCard.displayName = 'ProposalCard';
+
+export default function ReconciliationScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { triggerBlackout } = useTransition();
+  const fetchTransactions = useTransactionStore((state) => state.fetchTransactions);
+
+  const [proposals, setProposals] = useState<ReconciliationProposal[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setProposals(await getReconciliationQueue());
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleScan = useCallback(async () => {
+    setScanning(true);
+    try {
+      const found = await scanForDuplicates();
+      await loadQueue();
+      Alert.alert(t('reconciliation.title'), t('reconciliation.scanComplete', { count: found.length }));
+    } catch (error) {
+      logger.transaction.error('Duplicate scan failed:', error);
+    } finally {
+      setScanning(false);
+    }
+  }, [loadQueue, t]);
+
+  const handleResolve = useCallback(async (proposal: ReconciliationProposal, resolution: ReconciliationResolution) => {
+    setResolvingId(proposal.id);
+    try {
+      await resolveProposal(proposal.id, resolution);
+      await loadQueue();
+      fetchTransactions();
+    } catch (error) {
+      logger.transaction.error('Failed to resolve duplicate:', error);
+      Alert.alert(t('common.error'), t('reconciliation.resolveError'));
+    } finally {
+      setResolvingId(null);
+    }
+  }, [loadQueue, fetchTransactions, t]);
+
+  return (
+    <View style={styles.container}>
+      <Header title={t('reconciliation.title')} showBack onBack={() => triggerBlackout(() => router.back())} />
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + Spacing.xxl }]} showsVerticalScrollIndicator={false}>
+        <GradientText variant="muted" style={styles.subtitle}>{t('reconciliation.subtitle')}</GradientText>
+
+        <Button
+          variant="secondary"
+          fullWidth
+          loading={scanning}
+          icon={<RefreshIcon size={18} color={Colors.neon} />}
+          onPress={handleScan}
+          style={styles.scanButton}
+        >
+          {scanning ? t('reconciliation.scanning') : t('reconciliation.scanNow')}
+        </Button>
+
+        <View style={styles.section}>
+          <SectionHeader
+            title={t('reconciliation.title')}
+            action={t('reconciliation.pendingCount', { count: proposals.length })}
+          />
+
+          {proposals.length > 0 ? (
+            proposals.map((proposal) => (
+              <ProposalCard
+                key={proposal.id}
+                proposal={proposal}
+                busy={resolvingId === proposal.id}
+                onResolve={handleResolve}
+              />
+            ))
+          ) : (
+            <EmptyState
+              icon={<CheckIcon size={48} color={Colors.text.tertiary} />}
+              title={t('reconciliation.noProposals')}
+              description={t('reconciliation.noProposalsDescription')}
+            />
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: 'transparent' },
+  scrollView: { flex: 1 },
+  content: { paddingHorizontal: Spacing.lg, paddingTop: Spacing.lg },
+  subtitle: { fontSize: FontSize.caption, marginBottom: Spacing.md },
+  scanButton: { marginBottom: Spacing.lg },
+  section: { marginBottom: Spacing.lg },
+
+  // Proposal Card
+  card: { marginBottom: Spacing.md },
+  cardHeader: { marginBottom: Spacing.sm },
+  score: { fontSize: FontSize.body },
+  reasons: { fontSize: FontSize.caption, marginTop: 2 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: Colors.transparent.neon10,
+  },
+  rowLabel: { width: 72, fontSize: FontSize.xs },
+  rowBody: { flex: 1, marginRight: Spacing.sm },
+  merchant: { fontSize: FontSize.body },
+  meta: { fontSize: FontSize.xs, marginTop: 2 },
+  amount: { fontSize: FontSize.body },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+    paddingTop: Spacing.sm,
+  },
+});
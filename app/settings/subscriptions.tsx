@@ -19,7 +19,7 @@ import { Colors, Spacing, FontFamily, FontSize, BorderRadius } from '../../src/d
 import { useCurrency } from '../../src/context/CurrencyContext';
 import { GradientText } from '../../src/components/ui/GradientText';
 import { GlassCard } from '../../src/components/ui/GlassCard';
-import { FAB } from '../../src/components/ui/Button';
+import { Button, FAB } from '../../src/components/ui/Button';
 import { Badge } from '../../src/components/ui/Badge';
 import { ConfirmationModal } from '../../src/components/ui/ConfirmationModal';
 import { Header } from '../../src/components/navigation';
@@ -35,6 +35,7 @@ import {
   TrashIcon,
 } from '../../src/components/icons';
 import { useSubscriptionStore } from '../../src/stores/subscriptionStore';
+import type { RecurringChargeCandidate } from '../../src/services/subscriptionDetection';
 import { useTranslation } from '../../src/context/LanguageContext';
 import { useTransition } from '../../src/context/TransitionContext';
 import { logger } from '../../src/utils/logger';
@@ -278,6 +279,11 @@ export default function SubscriptionsScreen() {
     isLoading,
     fetchSubscriptions,
     cancelSubscription,
+    detectedCharges,
+    isDetecting,
+    detectRecurringCharges,
+    acceptDetectedCharge,
+    dismissDetectedCharge,
   } = useSubscriptionStore();
 
   // Convert store subscriptions to local format + include mock data for demo
@@ -292,7 +298,7 @@ export default function SubscriptionsScreen() {
   useFocusEffect(
     useCallback(() => {
       logger.general.debug('Subscriptions screen focused - fetching subscriptions...');
-      fetchSubscriptions();
+      fetchSubscriptions().then(() => detectRecurringCharges());
     }, [])
   );
 
@@ -365,6 +371,14 @@ export default function SubscriptionsScreen() {
     setSubscriptionToDelete(null);
   }, [subscriptionToDelete, storeSubscriptions, cancelSubscription, fetchSubscriptions]);
 
+  const handleAcceptDetected = useCallback(async (candidate: RecurringChargeCandidate) => {
+    try {
+      await acceptDetectedCharge(candidate);
+    } catch (error) {
+      logger.general.error('Failed to add detected subscription:', error);
+    }
+  }, [acceptDetectedCharge]);
+
   const handleEditSubscription = useCallback((subscription: Subscription) => {
     router.push({
       pathname: '/(modals)/edit-subscription',
@@ -431,6 +445,60 @@ export default function SubscriptionsScreen() {
           <Text style={styles.swipeHintText}>{t('subscriptions.swipeRightToDelete')}</Text>
         </View>
 
+        {/* Detected Recurring Charges */}
+        {(isDetecting || detectedCharges.length > 0) && (
+          <View style={styles.section}>
+            <SectionHeader title={t('subscriptions.detectedTitle')} />
+
+            {isDetecting && detectedCharges.length === 0 ? (
+              <Text style={styles.swipeHintText}>{t('subscriptions.detecting')}</Text>
+            ) : (
+              detectedCharges.map((candidate) => (
+                <GlassCard key={candidate.key} variant="outlined" size="compact" style={styles.subscriptionCard}>
+                  <View style={styles.subscriptionRow}>
+                    <View style={styles.subscriptionInfo}>
+                      <GradientText variant="bright" style={styles.subscriptionName}>
+                        {candidate.displayName}
+                      </GradientText>
+                      <Text style={styles.subscriptionFrequency}>
+                        {t('subscriptions.detectedSummary', {
+                          frequency: t(`subscriptions.${candidate.frequency}` as any),
+                          count: candidate.occurrences,
+                          confidence: Math.round(candidate.confidence * 100),
+                        })}
+                      </Text>
+                      {candidate.nextBillingDate && (
+                        <Text style={styles.subscriptionFrequency}>
+                          {t('subscriptions.detectedNextCharge', {
+                            date: new Date(candidate.nextBillingDate).toLocaleDateString(languageCode, { month: 'short', day: 'numeric' }),
+                          })}
+                        </Text>
+                      )}
+                      {candidate.priceIncrease && (
+                        <Text style={styles.priceIncreaseText}>
+                          {t('subscriptions.priceIncreased', {
+                            percent: candidate.priceIncrease.changePercent,
+                            amount: formatCurrency(candidate.priceIncrease.previousAmount),
+                          })}
+                        </Text>
+                      )}
+                    </View>
+                    <Text style={styles.amountValue}>{formatCurrency(candidate.amount)}</Text>
+                  </View>
+                  <View style={styles.detectedActions}>
+                    <Button variant="ghost" size="small" onPress={() => dismissDetectedCharge(candidate.key)}>
+                      {t('subscriptions.dismissDetected')}
+                    </Button>
+                    <Button variant="primary" size="small" onPress={() => handleAcceptDetected(candidate)}>
+                      {candidate.existingSubscriptionId ? t('subscriptions.updateAmount') : t('subscriptions.addDetected')}
+                    </Button>
+                  </View>
+                </GlassCard>
+              ))
+            )}
+          </View>
+        )}
+
         {/* Subscriptions List */}
         <View style={styles.section}>
           <SectionHeader
@@ -692,6 +760,20 @@ const styles = StyleSheet.create({
     fontFamily: FontFamily.regular,
   },
 
+  // Detected Charges
+  detectedActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  priceIncreaseText: {
+    fontSize: FontSize.caption,
+    color: Colors.semantic.expense,
+    fontFamily: FontFamily.medium,
+    marginTop: 2,
+  },
+
   // Loading State
   loadingState: {
     alignItems: 'center',
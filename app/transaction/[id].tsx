@@ -12,8 +12,13 @@ import { GradientText } from '../../src/components/ui/GradientText';
 import { GlassCard } from '../../src/components/ui/GlassCard';
 import { PremiumPressable } from '../../src/components/ui/PremiumPressable';
 import { AnimatedScreen } from '../../src/components/ui/AnimatedScreen';
+import { Chip } from '../../src/components/ui/Badge';
 import { useTransactionStore } from '../../src/stores/transactionStore';
 import { useCurrency } from '../../src/context/CurrencyContext';
+import { useTranslation } from '../../src/context/LanguageContext';
+import { BUDGET_CATEGORIES, matchBudgetCategory, type BudgetCategory } from '../../src/constants/categories';
+import { suggestCategories } from '../../src/services/categoryClassifier';
+import { logger } from '../../src/utils/logger';
 import { format } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 import type { Transaction } from '../../src/types';
@@ -22,10 +27,13 @@ export default function TransactionDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { transactions, deleteTransaction, isLoading } = useTransactionStore();
+  const { transactions, deleteTransaction, updateTransaction, isLoading } = useTransactionStore();
   const { format: formatAmount } = useCurrency();
+  const { t } = useTranslation();
   const [transaction, setTransaction] = useState<Transaction | null>(null);
   const [loading, setLoading] = useState(true);
+  const [pickingCategory, setPickingCategory] = useState(false);
+  const [suggestions, setSuggestions] = useState<{ category: BudgetCategory; confidence: number }[]>([]);
 
   useEffect(() => {
     if (id) {
@@ -36,6 +44,31 @@ export default function TransactionDetailScreen() {
     }
   }, [id, transactions]);
 
+  // Imported transactions awaiting review get suggestions learned from the user's history
+  useEffect(() => {
+    if (!transaction || transaction.is_reviewed || (transaction.source !== 'email' && transaction.source !== 'receipt')) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    suggestCategories(transaction).then((ranked) => {
+      if (cancelled) return;
+      const mapped: { category: BudgetCategory; confidence: number }[] = [];
+      for (const suggestion of ranked) {
+        const category = matchBudgetCategory(suggestion.categoryId, suggestion.categoryName);
+        if (category && suggestion.confidence > 0 && !mapped.some((m) => m.category.id === category.id)) {
+          mapped.push({ category, confidence: suggestion.confidence });
+        }
+      }
+      setSuggestions(mapped);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [transaction]);
+
   const handleEdit = () => {
     router.push({
       pathname: '/(modals)/add-expense',
@@ -43,6 +76,37 @@ export default function TransactionDetailScreen() {
     });
   };
 
+  // Correct the category, then offer to turn the correction into a rule
+  const handleCategoryChange = async (categoryId: string) => {
+    if (!transaction) return;
+    setPickingCategory(false);
+    if (categoryId === transaction.category_id) return;
+
+    try {
+      await updateTransaction(transaction.id, { category_id: categoryId });
+    } catch (error) {
+      logger.transaction.error('Failed to change category:', error);
+      Alert.alert(t('common.error'), (error as Error).message);
+      return;
+    }
+
+    const category = BUDGET_CATEGORIES.find(c => c.id === categoryId)?.name ?? categoryId;
+    Alert.alert(
+      t('categorizationRules.createRuleTitle', { merchant: transaction.merchant_name }),
+      t('categorizationRules.createRuleMessage', { merchant: transaction.merchant_name, category }),
+      [
+        { text: t('categorizationRules.notNow'), style: 'cancel' },
+        {
+          text: t('categorizationRules.createRule'),
+          onPress: () => router.push({
+            pathname: '/(modals)/categorization-rule',
+            params: { merchant: transaction.merchant_name, categoryId },
+          }),
+        },
+      ]
+    );
+  };
+
   const handleDelete = () => {
     Alert.alert(
       'Delete Transaction',
@@ -166,11 +230,48 @@ export default function TransactionDetailScreen() {
                 <GradientText variant="subtle" style={styles.detailLabel}>
                   Category
                 </GradientText>
-                <View style={styles.categoryBadge} testID="detail-category">
+                <PremiumPressable
+                  onPress={() => setPickingCategory(!pickingCategory)}
+                  style={styles.categoryBadge}
+                  testID="detail-category"
+                >
                   <GradientText style={styles.categoryText}>
                     {transaction.category_id || 'Uncategorized'}
                   </GradientText>
-                </View>
+                </PremiumPressable>
+                {suggestions.length > 0 && !pickingCategory && (
+                  <View style={styles.categoryPicker}>
+                    <GradientText variant="subtle" style={styles.detailLabel}>
+                      {t('categoryClassifier.suggested')}
+                    </GradientText>
+                    {suggestions.map(({ category, confidence }) => (
+                      <Chip
+                        key={category.id}
+                        selected={transaction.category_id === category.id}
+                        onPress={() => handleCategoryChange(category.id)}
+                        accessibilityLabel={t('categoryClassifier.suggestionLabel', {
+                          category: category.name,
+                          confidence: Math.round(confidence * 100),
+                        })}
+                      >
+                        {`${category.name} ${Math.round(confidence * 100)}%`}
+                      </Chip>
+                    ))}
+                  </View>
+                )}
+                {pickingCategory && (
+                  <View style={styles.categoryPicker}>
+                    {BUDGET_CATEGORIES.map((category) => (
+                      <Chip
+                        key={category.id}
+                        selected={transaction.category_id === category.id}
+                        onPress={() => handleCategoryChange(category.id)}
+                      >
+                        {category.name}
+                      </Chip>
+                    ))}
+                  </View>
+                )}
               </View>
             </View>
 
@@ -326,6 +427,12 @@ const styles = StyleSheet.create({
   categoryText: {
     fontSize: FontSize.body,
   },
+  categoryPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
   receiptLink: {
     color: Colors.primary,
     textDecorationLine: 'underline',
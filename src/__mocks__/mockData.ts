@@ -32,6 +32,8 @@ export const mockUser: User = {
   notification_preferences: {
     push_enabled: true,
     email_digest: false,
+    email_digest_frequency: 'weekly',
+    email_digest_day: 1,
     alert_unusual_spending: true,
     alert_subscriptions: true,
     alert_budget: true,
@@ -236,6 +238,7 @@ export const mockSubscription: Subscription = {
   status: 'active',
   next_billing_date: '2024-02-01T00:00:00Z',
   last_billing_date: null,
+  trial_end_date: null,
   cancellation_url: null,
   cancellation_instructions: null,
   auto_detected: false,
@@ -264,6 +267,7 @@ export const mockSubscriptions: Subscription[] = [
     status: 'active',
     next_billing_date: '2024-01-25T00:00:00Z',
     last_billing_date: null,
+    trial_end_date: null,
     cancellation_url: null,
     cancellation_instructions: null,
     auto_detected: false,
@@ -289,6 +293,7 @@ export const mockSubscriptions: Subscription[] = [
     status: 'active',
     next_billing_date: '2024-02-05T00:00:00Z',
     last_billing_date: null,
+    trial_end_date: null,
     cancellation_url: null,
     cancellation_instructions: null,
     auto_detected: false,
@@ -44,9 +44,10 @@ jest.mock('@/stores/authStore', () => ({
 // Mock settingsStore
 jest.mock('@/stores/settingsStore', () => ({
   useSettingsStore: {
-    getState: jest.fn(() => ({
+    // Plain function so resetMocks doesn't clear the state between tests
+    getState: () => ({
       currency: 'USD',
-    })),
+    }),
   },
 }));
 
@@ -0,0 +1,159 @@
+/**
+ * Merchant Directory
+ * Canonical records for well-known merchants and the normalization that turns
+ * raw bank, email and receipt descriptors into merchant keys
+ */
+
+export interface KnownMerchant {
+  /** Canonical key, stored in transactions.merchant_name_clean */
+  id: string;
+  name: string;
+  icon: string;
+  /** DEFAULT_CATEGORIES id */
+  category: string;
+  website: string;
+  /** Normalized descriptors (see cleanMerchantName) that mean this merchant */
+  aliases: string[];
+  /**
+   * Aliases that only match the whole normalized name, for short names that
+   * start other businesses' descriptors ("EMIRATES NBD", "DU JOUR")
+   */
+  exactAliases?: string[];
+}
+
+export const MERCHANT_DIRECTORY: KnownMerchant[] = [
+  // Shopping
+  {
+    id: 'amazon',
+    name: 'Amazon',
+    icon: '📦',
+    category: 'shopping',
+    website: 'https://www.amazon.com',
+    aliases: ['amazon', 'amzn', 'amzn mktp', 'amazon mktplace', 'amazon marketplace', 'amazon retail'],
+  },
+  { id: 'noon', name: 'noon', icon: '🛍️', category: 'shopping', website: 'https://www.noon.com', aliases: ['noon', 'noon minutes'] },
+  { id: 'ikea', name: 'IKEA', icon: '🪑', category: 'shopping', website: 'https://www.ikea.com', aliases: ['ikea'] },
+  { id: 'sharaf dg', name: 'Sharaf DG', icon: '💻', category: 'shopping', website: 'https://uae.sharafdg.com', aliases: ['sharaf dg', 'sharafdg'] },
+  { id: 'apple', name: 'Apple', icon: '🍎', category: 'shopping', website: 'https://www.apple.com', aliases: ['apple', 'apple store', 'itunes'] },
+
+  // Groceries
+  { id: 'carrefour', name: 'Carrefour', icon: '🛒', category: 'food-dining', website: 'https://www.carrefouruae.com', aliases: ['carrefour', 'maf carrefour', 'mafcarrefour'] },
+  { id: 'lulu', name: 'LuLu Hypermarket', icon: '🛒', category: 'food-dining', website: 'https://www.luluhypermarket.com', aliases: ['lulu', 'lulu hypermarket'] },
+  { id: 'spinneys', name: 'Spinneys', icon: '🛒', category: 'food-dining', website: 'https://www.spinneys.com', aliases: ['spinneys'] },
+  { id: 'waitrose', name: 'Waitrose', icon: '🛒', category: 'food-dining', website: 'https://www.waitrose.ae', aliases: ['waitrose'] },
+
+  // Food & coffee
+  { id: 'starbucks', name: 'Starbucks', icon: '☕', category: 'food-dining', website: 'https://www.starbucks.com', aliases: ['starbucks', 'sbux'] },
+  { id: 'costa', name: 'Costa Coffee', icon: '☕', category: 'food-dining', website: 'https://www.costa.co.uk', aliases: ['costa', 'costa coffee'] },
+  { id: 'tim hortons', name: 'Tim Hortons', icon: '☕', category: 'food-dining', website: 'https://www.timhortons.com', aliases: ['tim hortons', 'timhortons'] },
+  { id: 'mcdonalds', name: "McDonald's", icon: '🍔', category: 'food-dining', website: 'https://www.mcdonalds.com', aliases: ['mcdonalds', 'mcdonald s', 'mcd'] },
+  { id: 'kfc', name: 'KFC', icon: '🍗', category: 'food-dining', website: 'https://www.kfc.com', aliases: ['kfc'] },
+  { id: 'talabat', name: 'talabat', icon: '🛵', category: 'food-dining', website: 'https://www.talabat.com', aliases: ['talabat'] },
+  { id: 'deliveroo', name: 'Deliveroo', icon: '🛵', category: 'food-dining', website: 'https://deliveroo.ae', aliases: ['deliveroo'] },
+
+  // Transport & fuel
+  { id: 'careem', name: 'Careem', icon: '🚗', category: 'transportation', website: 'https://www.careem.com', aliases: ['careem', 'careem ride', 'careem hala'] },
+  { id: 'uber', name: 'Uber', icon: '🚗', category: 'transportation', website: 'https://www.uber.com', aliases: ['uber', 'uber trip', 'uber bv'] },
+  { id: 'enoc', name: 'ENOC', icon: '⛽', category: 'transportation', website: 'https://www.enoc.com', aliases: ['enoc', 'eppco'] },
+  { id: 'adnoc', name: 'ADNOC', icon: '⛽', category: 'transportation', website: 'https://www.adnocdistribution.ae', aliases: ['adnoc', 'adnoc distribution'] },
+  { id: 'salik', name: 'Salik', icon: '🛣️', category: 'transportation', website: 'https://www.salik.ae', aliases: ['salik'] },
+
+  // Bills
+  { id: 'dewa', name: 'DEWA', icon: '💡', category: 'bills-utilities', website: 'https://www.dewa.gov.ae', aliases: ['dewa', 'dubai electricity'] },
+  { id: 'etisalat', name: 'e& (Etisalat)', icon: '📱', category: 'bills-utilities', website: 'https://www.etisalat.ae', aliases: ['etisalat'] },
+  { id: 'du', name: 'du', icon: '📱', category: 'bills-utilities', website: 'https://www.du.ae', aliases: ['du telecom', 'du prepaid', 'du postpaid', 'du bill', 'du recharge', 'emirates integrated telecom'], exactAliases: ['du'] },
+
+  // Travel
+  { id: 'emirates', name: 'Emirates', icon: '✈️', category: 'travel', website: 'https://www.emirates.com', aliases: ['emirates airline', 'emirates airlines', 'emirates com', 'emirates holidays'], exactAliases: ['emirates'] },
+  { id: 'flydubai', name: 'flydubai', icon: '✈️', category: 'travel', website: 'https://www.flydubai.com', aliases: ['flydubai', 'fly dubai'] },
+];
+
+// Payment processors and card-network noise in front of the merchant
+// ("SQ *BLUE BOTTLE", "PAYPAL *SPOTIFY", "POS PURCHASE CARREFOUR")
+const PROCESSOR_PREFIX = /^(?:(?:sq|tst|sp|pp|paypal|google|apple\.com\/bill|ecom|pos|visa|mc)\s*[*#:]\s*|(?:debit card purchase|card purchase|pos purchase|purchase|pos|ecom)\s+)/;
+
+// Legal-entity words that never tell two merchants apart
+const LEGAL_SUFFIXES = /\b(?:llc|l l c|inc|ltd|limited|fz|fze|fzco|fz llc|dmcc|co|corp|bv|plc|gmbh)\b/g;
+
+// Cities, emirates and countries banks append after the merchant
+const LOCATION_SUFFIX = /(?:\s+(?:dubai|abu dhabi|sharjah|ajman|fujairah|ras al khaimah|umm al quwain|al ain|rak|uae|ae|are|ksa|sa|riyadh|jeddah|doha|qa|us|usa|gb|uk|london|ie|nl|lu))+$/;
+
+/**
+ * Reduce a merchant descriptor to its normalized form: lowercase, without
+ * processor prefixes, reference codes, store numbers, domains, legal suffixes
+ * or trailing locations. "AMZN Mktp US*2K3" -> "amzn mktp".
+ */
+export function cleanMerchantName(merchantName: string | null | undefined): string {
+  if (!merchantName) return '';
+
+  const cleaned = merchantName
+    .toLowerCase()
+    .trim()
+    .replace(PROCESSOR_PREFIX, '')
+    .replace(/\bwww\./g, '')
+    .replace(/\*.*$/, '')
+    .replace(/#\s*\w*/g, ' ')
+    .replace(/\b(?:store|branch|str|no)\.?\s*\d+\b/g, ' ')
+    .replace(/\.(?:com|net|org|io|ae|co\.uk|co|sa)\b/g, ' ')
+    .replace(/[^a-z0-9\u00c0-\u024f\u0600-\u06ff\s]+/g, ' ')
+    .replace(/\b\d[\d\s]*\b/g, ' ')
+    .replace(LEGAL_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Keep the location when it is all there is ("DUBAI" stays "dubai")
+  const withoutLocation = cleaned.replace(LOCATION_SUFFIX, '').trim();
+  return withoutLocation || cleaned;
+}
+
+/**
+ * Whether a normalized name is the alias itself or starts with it as whole words
+ */
+export function matchesMerchantAlias(cleanedName: string, alias: string): boolean {
+  return cleanedName === alias || cleanedName.startsWith(`${alias} `);
+}
+
+// Longest aliases first so the most specific one wins
+const DIRECTORY_ALIASES = MERCHANT_DIRECTORY
+  .flatMap((merchant) => [
+    ...[merchant.id, ...merchant.aliases]
+      .filter((alias) => !merchant.exactAliases?.includes(alias))
+      .map((alias) => ({ alias, merchant, exact: false })),
+    ...(merchant.exactAliases ?? []).map((alias) => ({ alias, merchant, exact: true })),
+  ])
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+/**
+ * Get a directory merchant by its key
+ */
+export function getKnownMerchant(id: string): KnownMerchant | undefined {
+  return MERCHANT_DIRECTORY.find((merchant) => merchant.id === id);
+}
+
+/**
+ * Find the well-known merchant a normalized name belongs to
+ */
+export function findKnownMerchant(cleanedName: string): KnownMerchant | null {
+  if (!cleanedName) return null;
+  return DIRECTORY_ALIASES.find(
+    ({ alias, exact }) => (exact ? cleanedName === alias : matchesMerchantAlias(cleanedName, alias))
+  )?.merchant ?? null;
+}
+
+/**
+ * Merchant key for a descriptor without the user's own merchants: the
+ * directory key, else the normalized name ("AMZN Mktp US*2K3" -> "amazon")
+ */
+export function getMerchantKey(merchantName: string | null | undefined): string {
+  const cleaned = cleanMerchantName(merchantName);
+  return findKnownMerchant(cleaned)?.id ?? cleaned;
+}
+
+/**
+ * Display name for a merchant missing from the directory ("blue bottle" -> "Blue Bottle")
+ */
+export function titleCaseMerchant(cleanedName: string): string {
+  return cleanedName.replace(/(^|\s)(\S)/g, (_, space: string, letter: string) => space + letter.toUpperCase());
+}
+
+export default MERCHANT_DIRECTORY;
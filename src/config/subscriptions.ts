@@ -3,6 +3,8 @@
  * Used to identify subscriptions from emails and transactions
  */
 
+import { getMerchantKey } from './merchants';
+
 export interface SubscriptionPattern {
   id: string;
   merchantName: string;
@@ -562,6 +564,15 @@ export function detectSubscription(merchantName: string | null | undefined): Sub
   return null;
 }
 
+/**
+ * Key subscriptions and their charges are matched on: the known service a
+ * descriptor belongs to, else its merchant key ("PAYPAL *SPOTIFY P2A1B" -> "spotify")
+ */
+export function getSubscriptionKey(merchantName: string | null | undefined): string {
+  if (!merchantName) return '';
+  return detectSubscription(merchantName)?.id ?? getMerchantKey(merchantName);
+}
+
 /**
  * Check if email indicates a subscription
  */
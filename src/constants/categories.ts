@@ -61,6 +61,18 @@ export function getCategoryById(id: string): BudgetCategory | undefined {
   return BUDGET_CATEGORIES.find((cat) => cat.id === id);
 }
 
+// Match a category from another id scheme (config slug, DB name) by id,
+// then by name, then by the first word of the name ("Food & Dining" -> Food)
+export function matchBudgetCategory(id: string, name?: string | null): BudgetCategory | undefined {
+  const byId = getCategoryById(id);
+  if (byId || !name) return byId;
+
+  const lower = name.toLowerCase();
+  const firstWord = lower.split(/[^a-z]+/)[0];
+  return BUDGET_CATEGORIES.find((cat) => cat.name.toLowerCase() === lower)
+    || BUDGET_CATEGORIES.find((cat) => cat.id === firstWord || cat.name.toLowerCase() === firstWord);
+}
+
 // Get category name by ID
 export function getCategoryName(id: string): string {
   const category = getCategoryById(id);
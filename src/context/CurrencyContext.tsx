@@ -13,10 +13,10 @@ import {
 } from '../config/currencies';
 import { useSettingsStore } from '../stores/settingsStore';
 import {
-  fetchExchangeRates,
   convertCurrency as convertAmount,
   getFallbackRates,
 } from '../services/exchangeRates';
+import { getRates, isSnapshotStale, RATES_CACHE_DURATION } from '../services/rateProvider';
 
 const CURRENCY_STORAGE_KEY = 'spendtrak_selected_currency';
 
@@ -34,9 +34,15 @@ interface CurrencyContextType {
   ratesLoading: boolean;
   ratesError: string | null;
 
+  // Rate freshness
+  ratesUpdatedAt: Date | null;
+  ratesProvider: string | null;
+  ratesStale: boolean;
+  ratesFallback: boolean;
+
   // Actions
   setCurrency: (code: string) => Promise<void>;
-  refreshRates: () => Promise<void>;
+  refreshRates: (force?: boolean) => Promise<void>;
 
   // Conversion helpers
   convert: (amount: number, fromCurrency: string) => number;
@@ -67,6 +73,10 @@ export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children })
   const [exchangeRates, setExchangeRates] = useState<Record<string, number>>(getFallbackRates());
   const [ratesLoading, setRatesLoading] = useState(true);
   const [ratesError, setRatesError] = useState<string | null>(null);
+  const [ratesUpdatedAt, setRatesUpdatedAt] = useState<Date | null>(null);
+  const [ratesProvider, setRatesProvider] = useState<string | null>(null);
+  const [ratesStale, setRatesStale] = useState(true);
+  const [ratesFallback, setRatesFallback] = useState(true);
 
   // Get current language from settings store
   const language = useSettingsStore((state) => state.language) || 'en';
@@ -99,13 +109,20 @@ export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children })
   }, []);
 
   // Refresh exchange rates
-  const refreshRates = useCallback(async () => {
+  const refreshRates = useCallback(async (force: boolean = false) => {
     setRatesLoading(true);
     setRatesError(null);
 
     try {
-      const rates = await fetchExchangeRates('USD');
-      setExchangeRates(rates);
+      const snapshot = await getRates('USD', { forceRefresh: force });
+      setExchangeRates(snapshot.rates);
+      setRatesUpdatedAt(snapshot.isFallback ? null : new Date(snapshot.fetchedAt));
+      setRatesProvider(snapshot.provider);
+      setRatesStale(isSnapshotStale(snapshot));
+      setRatesFallback(snapshot.isFallback);
+      if (snapshot.isFallback) {
+        setRatesError('Failed to fetch exchange rates');
+      }
     } catch (error) {
       logger.currency.error('Error fetching exchange rates:', error);
       setRatesError('Failed to fetch exchange rates');
@@ -115,6 +132,15 @@ export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children })
     }
   }, []);
 
+  // Mark rates stale once they outlive the cache window
+  useEffect(() => {
+    if (!ratesUpdatedAt || ratesStale) return;
+
+    const remaining = ratesUpdatedAt.getTime() + RATES_CACHE_DURATION - Date.now();
+    const timer = setTimeout(() => setRatesStale(true), Math.max(remaining, 0));
+    return () => clearTimeout(timer);
+  }, [ratesUpdatedAt, ratesStale]);
+
   // Set currency and persist
   const setCurrency = useCallback(async (code: string) => {
     const newCurrency = getCurrencyByCode(code);
@@ -239,6 +265,10 @@ export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children })
     exchangeRates,
     ratesLoading,
     ratesError,
+    ratesUpdatedAt,
+    ratesProvider,
+    ratesStale,
+    ratesFallback,
     setCurrency,
     refreshRates,
     convert,
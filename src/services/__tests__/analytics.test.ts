@@ -17,6 +17,7 @@ import {
   getDebtOverview,
   getNetWorthSummary,
   getSubscriptionAnalytics,
+  getUpcomingBills,
   getDailyBreakdown,
   getWeekComparison,
   getWeekProjection,
@@ -38,8 +39,8 @@ jest.mock('@/stores/settingsStore', () => ({
     getState: () => ({ currency: 'USD' }),
   },
 }));
-jest.mock('../currencyConverter', () => ({
-  convertCurrency: jest.fn((amount: number) => Promise.resolve(amount)),
+jest.mock('../rateHistory', () => ({
+  convertAtTransactionRate: jest.fn((amount: number) => Promise.resolve(amount)),
 }));
 
 import * as devStorage from '../devStorage';
@@ -374,6 +375,29 @@ describe('Analytics Service', () => {
       expect(result).toEqual([]);
     });
 
+    it('should measure last month when asked', async () => {
+      const now = new Date();
+      const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 15);
+      mockBudgets.push({
+        id: 'b1',
+        amount: 200,
+        category_id: 'food-dining',
+        is_active: true,
+        category: { name: 'Food & Dining', icon: 'restaurant' },
+      });
+      mockTransactions.push(
+        createTx({ amount: -180, type: 'expense', category_id: 'food-dining', transaction_date: lastMonth.toISOString() }),
+        createTx({ amount: -20, type: 'expense', category_id: 'food-dining', transaction_date: now.toISOString() }),
+      );
+
+      const [lastMonthResult] = await getBudgetPerformance('last_month');
+      const [thisMonthResult] = await getBudgetPerformance();
+
+      expect(lastMonthResult.spent).toBe(180);
+      expect(lastMonthResult.status).toBe('warning');
+      expect(thisMonthResult.spent).toBe(20);
+    });
+
     it('should calculate budget spending', async () => {
       const now = new Date();
       mockBudgets.push({
@@ -677,6 +701,20 @@ describe('Analytics Service', () => {
       expect(result.totalLiabilities).toBe(20000);
       expect(result.netWorth).toBe(60000);
     });
+
+    it('should measure change against the snapshot on or before a date', async () => {
+      mockAssets.push({ id: 'a1', value: 55000 });
+      mockLiabilities.push({ id: 'l1', value: 5000 });
+      (devStorage.getDevNetWorthSnapshotForDate as jest.Mock).mockResolvedValue({ net_worth: 40000 });
+
+      const since = new Date();
+      since.setDate(since.getDate() - 7);
+      const result = await getNetWorthSummary(since);
+
+      expect(devStorage.getDevNetWorthSnapshotForDate).toHaveBeenCalledWith(since);
+      expect(result.change).toBe(10000);
+      expect(result.changePercentage).toBe(25);
+    });
   });
 
   // ==========================================
@@ -728,6 +766,57 @@ describe('Analytics Service', () => {
     });
   });
 
+  // ==========================================
+  // UPCOMING BILLS
+  // ==========================================
+  describe('getUpcomingBills', () => {
+    const inDays = (days: number) => {
+      const date = new Date();
+      date.setDate(date.getDate() + days);
+      return date;
+    };
+    const dateString = (date: Date) =>
+      `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+    const bill = (overrides: Record<string, unknown>) => ({
+      frequency: 'monthly',
+      is_paid: false,
+      created_at: inDays(-60).toISOString(),
+      ...overrides,
+    });
+
+    it('should list unpaid bills due within the window, soonest first', async () => {
+      (devStorage.getDevBills as jest.Mock).mockResolvedValue([
+        bill({ id: 'b1', name: 'Internet', amount: 60, due_date: inDays(5).getDate() }),
+        bill({ id: 'b2', name: 'Rent', amount: 1500, due_date: inDays(2).getDate() }),
+        bill({ id: 'b3', name: 'Phone', amount: 40, due_date: inDays(3).getDate(), is_paid: true }),
+        bill({ id: 'b4', name: 'Insurance', amount: 200, due_date: inDays(20).getDate() }),
+      ]);
+
+      const result = await getUpcomingBills(7);
+
+      expect(result).toEqual([
+        { id: 'b2', name: 'Rent', amount: 1500, date: dateString(inDays(2)) },
+        { id: 'b1', name: 'Internet', amount: 60, date: dateString(inDays(5)) },
+      ]);
+    });
+
+    it('should follow each bill\'s frequency', async () => {
+      (devStorage.getDevBills as jest.Mock).mockResolvedValue([
+        // Added on the weekday three days from now, so it repeats on that weekday
+        bill({ id: 'w1', name: 'Cleaner', amount: 30, frequency: 'weekly', due_date: inDays(-4).getDate(), created_at: inDays(-4).toISOString() }),
+        // Yearly bills only fall due in the month they were added
+        bill({ id: 'y1', name: 'Car registration', amount: 400, frequency: 'yearly', due_date: inDays(2).getDate(), created_at: inDays(-120).toISOString() }),
+      ]);
+
+      const result = await getUpcomingBills(7);
+
+      expect(result).toEqual([
+        { id: 'w1', name: 'Cleaner', amount: 30, date: dateString(inDays(3)) },
+      ]);
+    });
+  });
+
   // ==========================================
   // DAILY BREAKDOWN (Weekly)
   // ==========================================
@@ -0,0 +1,299 @@
+/**
+ * Backup & Restore Service Tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../supabase';
+import { isDevMode } from '@/utils/devMode';
+import {
+  createBackup,
+  parseBackup,
+  previewBackup,
+  restoreBackup,
+  BackupValidationError,
+  RestoreRolledBackError,
+  BACKUP_VERSION,
+} from '../backup';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(),
+}));
+
+jest.mock('../supabase', () => ({
+  supabase: {
+    auth: { getUser: jest.fn() },
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('@/utils/devMode', () => ({
+  isDevMode: jest.fn(),
+}));
+
+jest.mock('@/stores/authStore', () => ({
+  useAuthStore: { getState: () => ({ user: { id: 'dev-user-1' } }) },
+}));
+
+jest.mock('@/stores/settingsStore', () => {
+  let state: Record<string, unknown> = {};
+  return {
+    useSettingsStore: {
+      getState: () => state,
+      setState: (updates: Record<string, unknown>) => {
+        state = { ...state, ...updates };
+      },
+    },
+  };
+});
+
+jest.mock('@/stores/categoryStore', () => {
+  let state: { customCategories: any[] } = { customCategories: [] };
+  return {
+    useCategoryStore: {
+      getState: () => ({ ...state, getAllCategories: () => state.customCategories }),
+      setState: (updates: { customCategories: any[] }) => {
+        state = { ...state, ...updates };
+      },
+    },
+  };
+});
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    storage: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  },
+}));
+
+const Crypto = require('expo-crypto');
+const { useSettingsStore } = require('@/stores/settingsStore');
+const { useCategoryStore } = require('@/stores/categoryStore');
+
+const devTransaction = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  user_id: 'dev-user-old',
+  amount: 42.5,
+  currency: 'AED',
+  merchant_name: 'Carrefour',
+  category_id: 'food-dining',
+  transaction_date: '2026-01-10',
+  transaction_type: 'purchase',
+  source: 'manual',
+  is_deleted: false,
+  type: 'expense',
+  metadata: {},
+  created_at: '2026-01-10T10:00:00Z',
+  updated_at: '2026-01-10T10:00:00Z',
+  ...overrides,
+});
+
+const seedDevice = (storage: Record<string, string>) => {
+  storage['@dev_transactions'] = JSON.stringify([
+    devTransaction('dev-txn-1'),
+    devTransaction('dev-txn-2', { merchant_name: 'Uber', amount: 18, category_id: 'custom_old_1' }),
+  ]);
+  storage['@dev_budgets'] = JSON.stringify([
+    { id: 'dev-budget-1', user_id: 'dev-user-old', category_id: 'food-dining', amount: 1500, alert_threshold: 80, is_active: true, created_at: '', updated_at: '' },
+  ]);
+  storage['@dev_debts'] = JSON.stringify([
+    { id: 'dev-debt-1', user_id: 'dev-user-old', name: 'Visa', type: 'credit_card', balance: 3000, original_balance: 5000, interest_rate: 19.9, minimum_payment: 150, icon: 'card', status: 'active', created_at: '', updated_at: '' },
+  ]);
+};
+
+describe('Backup Service', () => {
+  let storage: Record<string, string>;
+  let uuid: number;
+
+  beforeEach(() => {
+    storage = {};
+    uuid = 0;
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => storage[key] ?? null);
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      storage[key] = value;
+    });
+    (Crypto.randomUUID as jest.Mock).mockImplementation(() => `uuid-${++uuid}`);
+    (isDevMode as jest.Mock).mockReturnValue(true);
+    useSettingsStore.setState({ currency: 'AED', theme: 'dark', isPremium: false });
+    useCategoryStore.setState({
+      customCategories: [{ id: 'custom_old_1', name: 'Rides', icon: 'TransportIcon', color: '#0088ff', isSystem: false, order: 11 }],
+    });
+  });
+
+  describe('parseBackup', () => {
+    it('should reject files that are not backups', () => {
+      expect(() => parseBackup('not json')).toThrow('not valid JSON');
+      expect(() => parseBackup({ hello: 'world' })).toThrow('not a SpendTrak backup');
+    });
+
+    it('should reject backups from a newer app version', () => {
+      expect(() => parseBackup({ format: 'spendtrak-backup', version: BACKUP_VERSION + 1, data: {} }))
+        .toThrow('newer version');
+    });
+
+    it('should list invalid records', () => {
+      try {
+        parseBackup({
+          format: 'spendtrak-backup',
+          version: BACKUP_VERSION,
+          createdAt: '2026-01-01T00:00:00Z',
+          data: { transactions: [{ id: 't1', amount: 'lots', transaction_date: '2026-01-01', merchant_name: 'X' }, { amount: 1 }] },
+        });
+        fail('expected a validation error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(BackupValidationError);
+        expect((error as BackupValidationError).issues).toEqual(expect.arrayContaining([
+          'transactions[0]: amount should be a number',
+          'transactions[1]: missing id',
+        ]));
+      }
+    });
+
+    it('should migrate the unversioned all-data export', () => {
+      const preview = previewBackup({
+        exportDate: '2025-12-01T00:00:00Z',
+        dataType: 'all',
+        transactions: { count: 1, data: [{ ...devTransaction('t1'), category: { id: 'c1', name: 'Groceries' } }] },
+        subscriptions: { count: 0, data: [] },
+        budgets: { count: 1, data: [{ id: 'b1', amount: 100, category: { name: 'Groceries' }, spent: 20, remaining: 80, percentage: 20 }] },
+      });
+
+      expect(preview).toMatchObject({ originalVersion: 1, version: BACKUP_VERSION, source: 'cloud', total: 2 });
+
+      const { backup } = parseBackup({
+        exportDate: '2025-12-01T00:00:00Z',
+        dataType: 'all',
+        budgets: { data: [{ id: 'b1', amount: 100, category: { name: 'Groceries' }, spent: 20 }] },
+      });
+      expect(backup.data.budgets[0]).toEqual({ id: 'b1', amount: 100, _category_name: 'Groceries' });
+    });
+  });
+
+  describe('device backups', () => {
+    it('should round-trip dev storage with fresh IDs', async () => {
+      seedDevice(storage);
+      const backup = JSON.parse(JSON.stringify(await createBackup()));
+
+      expect(backup).toMatchObject({ format: 'spendtrak-backup', version: BACKUP_VERSION, source: 'device' });
+      expect(backup.preferences.settings).toMatchObject({ currency: 'AED', theme: 'dark' });
+      expect(backup.preferences.settings).not.toHaveProperty('isPremium');
+
+      const result = await restoreBackup(backup, { mode: 'replace' });
+      const transactions = JSON.parse(storage['@dev_transactions']);
+
+      expect(result.restored).toMatchObject({ transactions: 2, budgets: 1, debts: 1 });
+      expect(transactions).toHaveLength(2);
+      expect(transactions.map((t: any) => t.id)).not.toContain('dev-txn-1');
+      expect(transactions[0]).toMatchObject({ user_id: 'dev-user-1', category_id: 'food-dining', type: 'expense' });
+      expect(Object.keys(transactions[0]).some((key) => key.startsWith('_'))).toBe(false);
+      // Custom categories are recreated and references follow them
+      const rides = useCategoryStore.getState().customCategories.find((c: any) => c.name === 'Rides');
+      expect(rides.id).not.toBe('custom_old_1');
+      expect(transactions[1].category_id).toBe(rides.id);
+      expect(JSON.parse(storage['@dev_debts'])[0]).toMatchObject({ name: 'Visa', balance: 3000, icon: 'card' });
+    });
+
+    it('should skip records that already exist when merging', async () => {
+      seedDevice(storage);
+      const backup = await createBackup();
+
+      const result = await restoreBackup(backup, { mode: 'merge' });
+
+      expect(result.restored).toMatchObject({ transactions: 0, budgets: 0, debts: 0 });
+      expect(result.skipped).toMatchObject({ transactions: 2, budgets: 1, debts: 1 });
+      expect(JSON.parse(storage['@dev_transactions'])).toHaveLength(2);
+    });
+  });
+
+  describe('restoring into the cloud', () => {
+    it('should map dev records to table rows and match categories by name', async () => {
+      seedDevice(storage);
+      const backup = await createBackup();
+
+      (isDevMode as jest.Mock).mockReturnValue(false);
+      (supabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: 'user-1' } } });
+      const inserted: Record<string, any[]> = {};
+      (supabase.from as jest.Mock).mockImplementation((table: string) => {
+        const rows = table === 'categories' ? [{ id: 'cat-food', name: 'Food & Dining' }] : [];
+        const query: any = {
+          select: () => query,
+          in: () => query,
+          range: () => Promise.resolve({ data: [], error: null }),
+          insert: (batch: any[]) => {
+            inserted[table] = [...(inserted[table] || []), ...batch];
+            return Promise.resolve({ error: null });
+          },
+          then: (resolve: any) => resolve({ data: rows, error: null }),
+        };
+        return query;
+      });
+
+      const result = await restoreBackup(backup, { mode: 'merge' });
+
+      expect(result.restored).toMatchObject({ transactions: 2, budgets: 1, debts: 1 });
+      expect(result.warnings).toEqual([]);
+      expect(inserted.transactions[0]).toMatchObject({ user_id: 'user-1', category_id: 'cat-food' });
+      expect(inserted.transactions[0]).not.toHaveProperty('_device');
+      // "Rides" only exists on the device, so the cloud row is left uncategorized
+      expect(inserted.transactions[1].category_id).toBeNull();
+      expect(inserted.debts[0]).toMatchObject({ debt_type: 'credit_card', current_balance: 3000, is_active: true });
+      expect(inserted.debts[0]).not.toHaveProperty('balance');
+    });
+
+    it('should put the previous data back when a replace fails partway', async () => {
+      seedDevice(storage);
+      const backup = await createBackup();
+
+      (isDevMode as jest.Mock).mockReturnValue(false);
+      (supabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: 'user-1' } } });
+      const tables: Record<string, any[]> = {
+        transactions: [{ id: 'cloud-txn-1', user_id: 'user-1', amount: 12, merchant_name: 'Spinneys', transaction_date: '2026-02-01' }],
+        debts: [{ id: 'cloud-debt-1', user_id: 'user-1', name: 'Mortgage' }],
+      };
+      let rejectDebts = true;
+      (supabase.from as jest.Mock).mockImplementation((table: string) => {
+        const rows = () => tables[table] || [];
+        const query: any = {
+          select: () => query,
+          in: () => query,
+          range: () => Promise.resolve({ data: rows(), error: null }),
+          delete: () => ({
+            eq: () => {
+              tables[table] = [];
+              return Promise.resolve({ error: null });
+            },
+          }),
+          insert: (batch: any) => {
+            // Only the backup's debts are rejected, not the rows put back afterwards
+            const restoring = (Array.isArray(batch) ? batch : [batch]).every((row: any) => String(row.id).startsWith('cloud-'));
+            if (table === 'debts' && rejectDebts && !restoring) {
+              return Promise.resolve({ error: { message: 'violates check constraint' } });
+            }
+            tables[table] = [...rows(), ...(Array.isArray(batch) ? batch : [batch])];
+            return Promise.resolve({ error: null });
+          },
+          then: (resolve: any) => resolve({ data: table === 'categories' ? [] : rows(), error: null }),
+        };
+        return query;
+      });
+
+      const restore = restoreBackup(backup, { mode: 'replace' });
+      await expect(restore).rejects.toBeInstanceOf(RestoreRolledBackError);
+
+      expect(tables.transactions).toEqual([
+        { id: 'cloud-txn-1', user_id: 'user-1', amount: 12, merchant_name: 'Spinneys', transaction_date: '2026-02-01' },
+      ]);
+      expect(tables.debts).toEqual([{ id: 'cloud-debt-1', user_id: 'user-1', name: 'Mortgage' }]);
+
+      // The same restore goes through once every row is accepted
+      rejectDebts = false;
+      const result = await restoreBackup(backup, { mode: 'replace' });
+      expect(result.restored).toMatchObject({ transactions: 2, debts: 1 });
+      expect(tables.transactions.map((t) => t.id)).not.toContain('cloud-txn-1');
+    });
+  });
+});
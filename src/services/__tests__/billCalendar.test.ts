@@ -9,6 +9,8 @@ import {
   updateBill,
   deleteBill,
   generateBillPayments,
+  getBillDueDates,
+  getNextBillDueDate,
   getBillPayments,
   markBillAsPaid,
   getBillCalendarMonth,
@@ -233,6 +235,41 @@ describe('Bill Calendar Service', () => {
     });
   });
 
+  describe('getBillDueDates', () => {
+    const baseBill = {
+      due_day: 15,
+      start_date: '2024-01-01',
+      end_date: null,
+    };
+
+    it('should follow the bill frequency instead of stepping monthly', () => {
+      expect(
+        getBillDueDates({ ...baseBill, frequency: 'quarterly' }, '2024-01-01', '2024-12-31')
+      ).toEqual(['2024-01-15', '2024-04-15', '2024-07-15', '2024-10-15']);
+
+      expect(
+        getBillDueDates({ ...baseBill, frequency: 'biweekly' }, '2024-01-01', '2024-01-31')
+      ).toEqual(['2024-01-01', '2024-01-15', '2024-01-29']);
+    });
+
+    it('should use a stored recurrence rule when present', () => {
+      const bill = {
+        ...baseBill,
+        frequency: 'monthly' as const,
+        recurrence_rule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+      };
+
+      expect(getBillDueDates(bill, '2024-03-01', '2024-04-30')).toEqual(['2024-03-29', '2024-04-30']);
+    });
+
+    it('should stop after the bill end date', () => {
+      const bill = { ...baseBill, frequency: 'monthly' as const, end_date: '2024-02-20' };
+
+      expect(getNextBillDueDate(bill, '2024-02-01')).toBe('2024-02-15');
+      expect(getNextBillDueDate(bill, '2024-02-16')).toBeNull();
+    });
+  });
+
   describe('getBillPayments', () => {
     it('should fetch payments for a date range', async () => {
       const mockPayments = [
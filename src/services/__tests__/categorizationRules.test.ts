@@ -0,0 +1,306 @@
+/**
+ * Categorization Rules Service Tests
+ * Rule matching, priority order, rule storage and applying rules to past transactions
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isDevMode } from '@/utils/devMode';
+import { supabase } from '../supabase';
+import {
+  matchesRule,
+  applyRules,
+  escapeMerchantPattern,
+  getRules,
+  createRule,
+  reorderRules,
+  applyRulesToNewTransaction,
+  invalidateRules,
+  previewRuleOnPast,
+  applyRuleToPast,
+  type RuleDefinition,
+  type RuleTarget,
+} from '../categorizationRules';
+import type { CategorizationRule, Transaction } from '@/types';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+jest.mock('../supabase', () => ({
+  supabase: { from: jest.fn(), rpc: jest.fn(), auth: { getUser: jest.fn() } },
+}));
+
+jest.mock('../transactions', () => ({
+  resolveCategoryId: jest.fn(),
+}));
+
+jest.mock('@/utils/devMode', () => ({
+  isDevMode: jest.fn(),
+}));
+
+jest.mock('@/stores/authStore', () => ({
+  useAuthStore: { getState: () => ({ user: { id: 'dev-user-1' } }) },
+}));
+
+jest.mock('@/stores/settingsStore', () => ({
+  useSettingsStore: { getState: () => ({ currency: 'AED' }) },
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    storage: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+    transaction: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  },
+}));
+
+const rule = (overrides: Partial<RuleDefinition> = {}): RuleDefinition => ({
+  id: 'rule-1',
+  name: 'Rule',
+  priority: 0,
+  is_active: true,
+  merchant_pattern: null,
+  amount_min: null,
+  amount_max: null,
+  card_last_four: null,
+  source: null,
+  bank_name: null,
+  set_category_id: null,
+  set_merchant_name: null,
+  append_notes: null,
+  set_recurring: null,
+  ...overrides,
+});
+
+const target = (overrides: Partial<RuleTarget> = {}): RuleTarget => ({
+  merchant_name: 'STARBUCKS #1234 DUBAI',
+  amount: -24.5,
+  card_last_four: '4242',
+  source: 'email',
+  bank_name: 'Emirates NBD',
+  category_id: 'other',
+  notes: null,
+  is_recurring: false,
+  metadata: {},
+  ...overrides,
+});
+
+const transaction = (id: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  user_id: 'dev-user-1',
+  currency: 'AED',
+  merchant_name_clean: null,
+  transaction_date: '2026-10-01',
+  transaction_time: null,
+  receipt_image_url: null,
+  transaction_type: 'purchase',
+  is_reviewed: false,
+  is_deleted: false,
+  deleted_at: null,
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+  ...target(),
+  ...overrides,
+} as Transaction);
+
+describe('Categorization Rules Service', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    storage = {};
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => storage[key] ?? null);
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      storage[key] = value;
+    });
+    (isDevMode as jest.Mock).mockReturnValue(true);
+    invalidateRules();
+  });
+
+  describe('matchesRule', () => {
+    it('should match the merchant pattern case-insensitively', () => {
+      expect(matchesRule(rule({ merchant_pattern: 'starbucks|costa' }), target())).toBe(true);
+      expect(matchesRule(rule({ merchant_pattern: '^costa' }), target())).toBe(false);
+    });
+
+    it('should compare the absolute amount against the range', () => {
+      expect(matchesRule(rule({ amount_min: 20, amount_max: 30 }), target())).toBe(true);
+      expect(matchesRule(rule({ amount_min: 25 }), target())).toBe(false);
+      expect(matchesRule(rule({ amount_max: 24 }), target())).toBe(false);
+    });
+
+    it('should require every condition that is set', () => {
+      const conditions = { card_last_four: '4242', source: 'email' as const, bank_name: 'emirates nbd' };
+      expect(matchesRule(rule(conditions), target())).toBe(true);
+      expect(matchesRule(rule({ ...conditions, card_last_four: '1111' }), target())).toBe(false);
+      expect(matchesRule(rule({ ...conditions, source: 'receipt' }), target())).toBe(false);
+      expect(matchesRule(rule({ ...conditions, bank_name: 'ADCB' }), target({ bank_name: null }))).toBe(false);
+    });
+
+    it('should never match an invalid pattern', () => {
+      expect(matchesRule(rule({ merchant_pattern: 'star(' }), target())).toBe(false);
+    });
+  });
+
+  describe('applyRules', () => {
+    it('should let the first matching rule win each change', () => {
+      const { changes, ruleIds } = applyRules(target(), [
+        rule({ id: 'coffee', merchant_pattern: 'starbucks', set_category_id: 'coffee', set_merchant_name: 'Starbucks' }),
+        rule({ id: 'cards', card_last_four: '4242', set_category_id: 'shopping', append_notes: 'Work card' }),
+        rule({ id: 'never', merchant_pattern: 'netflix', set_recurring: true }),
+      ]);
+
+      expect(ruleIds).toEqual(['coffee', 'cards']);
+      expect(changes).toEqual({
+        category_id: 'coffee',
+        merchant_name: 'Starbucks',
+        notes: 'Work card',
+        metadata: { applied_rules: ['coffee', 'cards'], original_merchant_name: 'STARBUCKS #1234 DUBAI' },
+      });
+    });
+
+    it('should skip paused rules and keep a category the user picked', () => {
+      const rules = [
+        rule({ id: 'paused', is_active: false, set_recurring: true }),
+        rule({ id: 'coffee', set_category_id: 'coffee', append_notes: 'Coffee' }),
+      ];
+      const { changes, ruleIds } = applyRules(target({ notes: 'Meeting' }), rules, { keepCategory: true });
+
+      expect(ruleIds).toEqual(['coffee']);
+      expect(changes.category_id).toBeUndefined();
+      expect(changes.is_recurring).toBeUndefined();
+      expect(changes.notes).toBe('Meeting\nCoffee');
+    });
+
+    it('should change nothing when no rule matches', () => {
+      expect(applyRules(target(), [rule({ merchant_pattern: 'uber', set_category_id: 'transport' })]))
+        .toEqual({ changes: {}, ruleIds: [] });
+    });
+  });
+
+  it('should escape merchant names into literal patterns', () => {
+    expect(escapeMerchantPattern(' AMZN Mktp US*2K3 ')).toBe('AMZN Mktp US\\*2K3');
+    expect(matchesRule(rule({ merchant_pattern: escapeMerchantPattern('AMZN Mktp US*2K3') }), target({ merchant_name: 'amzn mktp us*2k3' })))
+      .toBe(true);
+  });
+
+  describe('rules', () => {
+    it('should reject invalid patterns and rules without an action', async () => {
+      await expect(createRule(rule({ merchant_pattern: 'star(', set_category_id: 'coffee' }))).rejects.toThrow('Invalid merchant pattern');
+      await expect(createRule(rule({ merchant_pattern: 'starbucks' }))).rejects.toThrow('A rule needs at least one action');
+    });
+
+    it('should add new rules after existing ones and reorder them', async () => {
+      const first = await createRule({ ...rule({ name: 'First', set_category_id: 'coffee' }), priority: undefined });
+      const second = await createRule({ ...rule({ name: 'Second', set_category_id: 'food' }), priority: undefined });
+      expect([first.priority, second.priority]).toEqual([0, 1]);
+
+      await reorderRules([second.id, first.id]);
+      expect((await getRules()).map((r) => r.name)).toEqual(['Second', 'First']);
+    });
+
+    it('should apply active rules to new transactions and count the match', async () => {
+      const created = await createRule({
+        ...rule({ name: 'Coffee', merchant_pattern: 'starbucks', set_category_id: 'coffee' }),
+        priority: undefined,
+      });
+
+      const result = await applyRulesToNewTransaction(target({ source: 'receipt' }));
+      expect(result.category_id).toBe('coffee');
+      expect(result.metadata).toEqual({ applied_rules: [created.id] });
+
+      // A category picked on a manual entry stays
+      const manual = await applyRulesToNewTransaction(target({ source: 'manual', category_id: 'food' }));
+      expect(manual.category_id).toBe('food');
+
+      const [saved] = await getRules();
+      expect(saved.match_count).toBe(1);
+      expect(saved.last_matched_at).not.toBeNull();
+    });
+
+    it('should store the canonical key of the merchant name a rule sets', async () => {
+      const created = await createRule({
+        ...rule({ name: 'Coffee', merchant_pattern: 'sbux', set_merchant_name: 'SBUX Dubai Mall' }),
+        priority: undefined,
+      });
+
+      expect(created.set_merchant_key).toBe('starbucks');
+    });
+
+    it('should load the rules once and add matches in the database', async () => {
+      (isDevMode as jest.Mock).mockReturnValue(false);
+      (supabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: 'user-1' } } });
+      (supabase.rpc as jest.Mock).mockResolvedValue({ error: null });
+      const saved = {
+        ...rule({ id: 'rule-9', merchant_pattern: 'starbucks', set_category_id: 'coffee' }),
+        set_merchant_key: null,
+        user_id: 'user-1',
+        match_count: 41,
+        last_matched_at: null,
+        created_at: '2026-10-01T00:00:00.000Z',
+        updated_at: '2026-10-01T00:00:00.000Z',
+      } as CategorizationRule;
+      const query = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        order: jest.fn().mockReturnThis(),
+        then: (resolve: (value: unknown) => void) => resolve({ data: [saved], error: null }),
+      };
+      (supabase.from as jest.Mock).mockReturnValue(query);
+
+      await applyRulesToNewTransaction(target());
+      await applyRulesToNewTransaction(target());
+
+      expect(query.select).toHaveBeenCalledTimes(1);
+      expect(supabase.rpc).toHaveBeenCalledTimes(2);
+      expect(supabase.rpc).toHaveBeenCalledWith('record_rule_matches', { rule_ids: ['rule-9'], counts: [1] });
+    });
+  });
+
+  describe('past transactions', () => {
+    beforeEach(() => {
+      storage['@dev_transactions'] = JSON.stringify([
+        transaction('txn-1', { transaction_date: '2026-09-01' }),
+        transaction('txn-2', { transaction_date: '2026-10-05', merchant_name: 'Starbucks Mall' }),
+        transaction('txn-3', { merchant_name: 'Uber' }),
+        transaction('txn-4', { category_id: 'coffee' }),
+      ]);
+    });
+
+    it('should preview the transactions a rule would change, newest first', async () => {
+      const preview = await previewRuleOnPast(rule({ id: undefined, merchant_pattern: 'starbucks', set_category_id: 'coffee' }));
+
+      expect(preview.map((item) => item.transaction.id)).toEqual(['txn-2', 'txn-1']);
+      expect(preview[0].changes.category_id).toBe('coffee');
+    });
+
+    it('should apply a rule to the chosen past transactions', async () => {
+      const saved = await createRule({
+        ...rule({ name: 'Coffee', merchant_pattern: 'starbucks', set_category_id: 'coffee' }),
+        priority: undefined,
+      });
+
+      expect(await applyRuleToPast(saved, ['txn-1'])).toBe(1);
+
+      const stored: Transaction[] = JSON.parse(storage['@dev_transactions']);
+      expect(stored.find((t) => t.id === 'txn-1')?.category_id).toBe('coffee');
+      expect(stored.find((t) => t.id === 'txn-2')?.category_id).toBe('other');
+      expect((await getRules())[0].match_count).toBe(1);
+    });
+
+    it('should resolve the canonical merchant of a renamed transaction', async () => {
+      const saved = await createRule({
+        ...rule({ name: 'Coffee', merchant_pattern: 'starbucks mall', set_merchant_name: 'SBUX Dubai Mall' }),
+        priority: undefined,
+      });
+
+      expect(await applyRuleToPast(saved)).toBe(1);
+
+      const stored: Transaction[] = JSON.parse(storage['@dev_transactions']);
+      expect(stored.find((t) => t.id === 'txn-2')).toMatchObject({
+        merchant_name: 'SBUX Dubai Mall',
+        merchant_name_clean: 'starbucks',
+      });
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Category Classifier Service Tests
+ * Features, training, ranking and falling back to keyword suggestions
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isDevMode } from '@/utils/devMode';
+import {
+  extractFeatures,
+  trainCategoryClassifier,
+  hasEnoughData,
+  classifyTransaction,
+  suggestWithModel,
+  suggestCategories,
+  learnCategory,
+  invalidateCategoryClassifier,
+  type TrainingExample,
+} from '../categoryClassifier';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+jest.mock('../supabase', () => ({
+  supabase: { from: jest.fn(), auth: { getUser: jest.fn() } },
+}));
+
+jest.mock('@/utils/devMode', () => ({
+  isDevMode: jest.fn(),
+}));
+
+jest.mock('@/stores/authStore', () => ({
+  useAuthStore: { getState: () => ({ user: { id: 'dev-user-1' } }) },
+}));
+
+jest.mock('@/stores/settingsStore', () => ({
+  useSettingsStore: { getState: () => ({ currency: 'AED' }) },
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    storage: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+    transaction: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  },
+}));
+
+const example = (merchant_name: string, category_id: string, overrides: Partial<TrainingExample> = {}): TrainingExample => ({
+  merchant_name,
+  category_id,
+  amount: 20,
+  ...overrides,
+});
+
+// Twelve categorized transactions across three categories
+const history: TrainingExample[] = [
+  ...['Starbucks Mall', 'STARBUCKS #12', 'Tim Hortons', 'Starbucks DXB', 'Costa Coffee'].map((m) =>
+    example(m, 'coffee', { amount: 18, transaction_time: '08:15' })),
+  ...['Carrefour City', 'Carrefour Hypermarket', 'Spinneys', 'Carrefour Market'].map((m) =>
+    example(m, 'groceries', { amount: 180, transaction_time: '19:30' })),
+  ...['Careem Ride', 'Careem', 'Uber Trip'].map((m) =>
+    example(m, 'transport', { amount: 35 })),
+];
+
+describe('Category Classifier Service', () => {
+  beforeEach(() => {
+    (isDevMode as jest.Mock).mockReturnValue(true);
+    invalidateCategoryClassifier();
+  });
+
+  describe('extractFeatures', () => {
+    it('should combine merchant tokens, amount bucket, weekday and time of day', () => {
+      expect(extractFeatures({
+        merchant_name: 'STARBUCKS #1234 Dubai Mall',
+        amount: -24.5,
+        transaction_date: '2026-10-19',
+        transaction_time: '08:30:00',
+      })).toEqual(['m:starbucks', 'm:dubai', 'm:mall', 'amt:2', 'dow:1', 'tod:morning']);
+    });
+
+    it('should drop repeated, one-letter and numeric tokens', () => {
+      expect(extractFeatures({ merchant_name: 'Uber  uber 7' })).toEqual(['m:uber']);
+    });
+  });
+
+  describe('classifyTransaction', () => {
+    it('should rank the category learned for a merchant first', () => {
+      const model = trainCategoryClassifier(history);
+      const ranked = classifyTransaction(model, { merchant_name: 'Starbucks Marina', amount: 22 });
+
+      expect(ranked).toHaveLength(3);
+      expect(ranked[0].categoryId).toBe('coffee');
+      expect(ranked[0].confidence).toBeGreaterThan(0.8);
+      expect(ranked[0].source).toBe('classifier');
+      expect(ranked.reduce((sum, s) => sum + s.confidence, 0)).toBeCloseTo(1);
+    });
+
+    it('should use amount and time to split merchants seen under several categories', () => {
+      const model = trainCategoryClassifier([
+        ...history,
+        example('Carrefour Cafe', 'coffee', { amount: 15, transaction_time: '08:00' }),
+      ]);
+
+      expect(classifyTransaction(model, { merchant_name: 'Carrefour', amount: 16, transaction_time: '08:40' }, 1)[0].categoryId)
+        .toBe('coffee');
+      expect(classifyTransaction(model, { merchant_name: 'Carrefour', amount: 220, transaction_time: '20:00' }, 1)[0].categoryId)
+        .toBe('groceries');
+    });
+  });
+
+  describe('suggestWithModel', () => {
+    it('should fall back to keywords when there is too little history', () => {
+      const model = trainCategoryClassifier(history.slice(0, 4));
+
+      expect(hasEnoughData(model)).toBe(false);
+      expect(suggestWithModel(model, { merchant_name: 'Netflix' })).toEqual([
+        { categoryId: 'entertainment', categoryName: 'Entertainment', confidence: 0.5, source: 'keywords' },
+      ]);
+    });
+
+    it('should prefer keywords for a merchant the model has never seen', () => {
+      const model = trainCategoryClassifier(history);
+
+      expect(suggestWithModel(model, { merchant_name: 'Netflix' })[0].source).toBe('keywords');
+      // No keyword matches either, so the model still ranks it
+      expect(suggestWithModel(model, { merchant_name: 'Zzq Trading', amount: 180 })[0].source).toBe('classifier');
+    });
+  });
+
+  describe('suggestCategories', () => {
+    beforeEach(() => {
+      const stored = history.map((t, i) => ({ ...t, id: `txn-${i}`, is_deleted: false, category: { name: t.category_id } }));
+      (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) =>
+        key === '@dev_transactions' ? JSON.stringify(stored) : null);
+    });
+
+    it('should train on the stored transactions and cache the model', async () => {
+      const [top] = await suggestCategories({ merchant_name: 'Careem Food' }, { limit: 1 });
+      expect(top.categoryId).toBe('transport');
+
+      await suggestCategories({ merchant_name: 'Starbucks' });
+      expect(AsyncStorage.getItem).toHaveBeenCalledTimes(1);
+    });
+
+    it('should learn new transactions without retraining', async () => {
+      await suggestCategories({ merchant_name: 'Starbucks' });
+      for (const amount of [14, 16, 18]) {
+        learnCategory({ user_id: 'dev-user-1', merchant_name: 'Zaatar w Zeit', category_id: 'transport', amount });
+      }
+      learnCategory({ user_id: 'another-user', merchant_name: 'Zaatar w Zeit', category_id: 'coffee', amount: 15 });
+
+      const [top] = await suggestCategories({ merchant_name: 'Zaatar w Zeit', amount: 15 }, { limit: 1 });
+      expect(top).toMatchObject({ categoryId: 'transport', source: 'classifier' });
+      expect(AsyncStorage.getItem).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return nothing without a merchant and keywords when loading fails', async () => {
+      expect(await suggestCategories({ merchant_name: '  ' })).toEqual([]);
+
+      (AsyncStorage.getItem as jest.Mock).mockRejectedValue(new Error('storage unavailable'));
+      const [fallback] = await suggestCategories({ merchant_name: 'Uber' });
+      expect(fallback.source).toBe('keywords');
+    });
+  });
+});
@@ -11,6 +11,7 @@ import {
   hasValidCache,
   getCacheInfo,
 } from '../currencyConverter';
+import { getFixtureRates } from '../rateProvider';
 
 // Mock fetch
 global.fetch = jest.fn();
@@ -24,6 +25,12 @@ jest.mock('@/utils/logger', () => ({
       warn: jest.fn(),
       debug: jest.fn(),
     },
+    exchange: {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    },
   },
 }));
 
@@ -56,7 +63,8 @@ describe('currencyConverter', () => {
 
       expect(rate).toBe(0.92);
       expect(fetch).toHaveBeenCalledWith(
-        expect.stringContaining('exchangerate-api.com/v4/latest/USD')
+        expect.stringContaining('exchangerate-api.com/v4/latest/USD'),
+        expect.any(Object)
       );
     });
 
@@ -90,13 +98,16 @@ describe('currencyConverter', () => {
       );
     });
 
-    it('should throw error on API failure', async () => {
-      (fetch as jest.Mock).mockResolvedValueOnce({
+    it('should fall back to fixture rates when every provider fails', async () => {
+      (fetch as jest.Mock).mockResolvedValue({
         ok: false,
         status: 500,
       });
 
-      await expect(getExchangeRate('USD', 'EUR')).rejects.toThrow();
+      const rate = await getExchangeRate('USD', 'EUR');
+
+      expect(rate).toBe(getFixtureRates().EUR);
+      expect(hasValidCache()).toBe(false);
     });
   });
 
@@ -7,7 +7,12 @@ import {
   getDebtSummary,
   calculatePayoffPlan,
   compareStrategies,
+  simulatePayoff,
+  matchPaymentToDebt,
+  reconcileDebtPayments,
 } from '../debtManagement';
+import type { PayoffDebt, PaymentTransaction } from '../debtManagement';
+import type { Debt } from '@/types';
 import { supabase } from '../supabase';
 
 // Mock Supabase
@@ -26,8 +31,12 @@ const mockSupabase = supabase as jest.Mocked<typeof supabase>;
 function createMockQuery(resolvedData: any) {
   const mockQuery: any = {
     select: jest.fn(() => mockQuery),
+    insert: jest.fn(() => mockQuery),
     eq: jest.fn(() => mockQuery),
+    not: jest.fn(() => mockQuery),
+    gte: jest.fn(() => mockQuery),
     order: jest.fn(() => mockQuery),
+    limit: jest.fn(() => mockQuery),
     single: jest.fn(() => Promise.resolve({ data: resolvedData, error: null })),
   };
   // Make the query thenable for await
@@ -228,4 +237,211 @@ describe('Debt Management Service', () => {
       expect(comparison.savings).toBeGreaterThanOrEqual(0);
     });
   });
+
+  describe('simulatePayoff', () => {
+    const debt = (overrides: Partial<PayoffDebt>): PayoffDebt => ({
+      id: 'debt',
+      name: 'Debt',
+      current_balance: 1000,
+      interest_rate: 0,
+      minimum_payment: 100,
+      ...overrides,
+    });
+    const START = '2026-01-01';
+
+    it('should roll freed minimums into the next debt', () => {
+      const schedule = simulatePayoff([
+        debt({ id: 'small', current_balance: 1000 }),
+        debt({ id: 'large', current_balance: 3000 }),
+      ], { strategy: 'snowball', startDate: START });
+
+      // 10 months at 100 each, then 200/month clears the remaining 2000 in 10 more
+      expect(schedule.plans.map(p => [p.debt_id, p.months_to_payoff])).toEqual([['small', 10], ['large', 20]]);
+      expect(schedule.months[10].entries).toEqual([
+        { debt_id: 'large', payment: 200, interest: 0, principal: 200, balance: 1800 },
+      ]);
+      expect(schedule.months_to_debt_free).toBe(20);
+      expect(schedule.debt_free_date).toBe('2027-08-01');
+      expect(schedule.is_complete).toBe(true);
+    });
+
+    it('should spill the extra payment over once the focus debt clears', () => {
+      const schedule = simulatePayoff([
+        debt({ id: 'a', current_balance: 120, minimum_payment: 50 }),
+        debt({ id: 'b', current_balance: 1000, minimum_payment: 50 }),
+      ], { strategy: 'snowball', extraPayment: 100, startDate: START });
+
+      expect(schedule.months[0].entries.map(e => [e.debt_id, e.payment, e.balance])).toEqual([
+        ['a', 120, 0],
+        ['b', 80, 920],
+      ]);
+      expect(schedule.plans[0].recommended_payment).toBe(120);
+    });
+
+    it('should accrue monthly interest before payments', () => {
+      const schedule = simulatePayoff([
+        debt({ current_balance: 1200, interest_rate: 0.12 }),
+      ], { startDate: START });
+
+      expect(schedule.months[0].entries[0]).toMatchObject({ interest: 12, principal: 88, balance: 1112 });
+      expect(schedule.total_paid).toBeCloseTo(1200 + schedule.total_interest, 2);
+    });
+
+    it('should apply targeted and untargeted lump sums', () => {
+      const debts = [
+        debt({ id: 'card', current_balance: 2000, interest_rate: 0.2 }),
+        debt({ id: 'car', current_balance: 5000, interest_rate: 0.05 }),
+      ];
+
+      const targeted = simulatePayoff(debts, {
+        startDate: START,
+        lumpSums: [{ month: 1, amount: 1000, debt_id: 'car' }],
+      });
+      const untargeted = simulatePayoff(debts, {
+        startDate: START,
+        lumpSums: [{ month: 1, amount: 1000 }],
+      });
+
+      expect(targeted.months[0].entries.find(e => e.debt_id === 'car')?.payment).toBe(1100);
+      expect(untargeted.months[0].entries.find(e => e.debt_id === 'card')?.payment).toBe(1100);
+      expect(untargeted.total_interest).toBeLessThan(targeted.total_interest);
+    });
+
+    it('should use the promotional rate until it ends', () => {
+      const schedule = simulatePayoff([
+        debt({ id: 'transfer', current_balance: 3000, interest_rate: 0.24, promo_interest_rate: 0, promo_end_date: '2026-04-01' }),
+        debt({ id: 'loan', current_balance: 3000, interest_rate: 0.1 }),
+      ], { strategy: 'avalanche', extraPayment: 200, startDate: START });
+
+      const transfer = (month: number) => schedule.months[month - 1].entries.find(e => e.debt_id === 'transfer')!;
+      expect(transfer(3).interest).toBe(0);
+      expect(transfer(4).interest).toBeGreaterThan(0);
+      // The extra goes to the loan while the promotion lasts, then to the card
+      expect(transfer(3).payment).toBe(100);
+      expect(transfer(4).payment).toBe(300);
+    });
+
+    it('should follow a custom order', () => {
+      const schedule = simulatePayoff([
+        debt({ id: 'a', current_balance: 500, interest_rate: 0.2 }),
+        debt({ id: 'b', current_balance: 5000, interest_rate: 0.05 }),
+      ], { strategy: 'custom', customOrder: ['b', 'a'], extraPayment: 300, startDate: START });
+
+      expect(schedule.plans.map(p => p.debt_id)).toEqual(['b', 'a']);
+      expect(schedule.months[0].entries.find(e => e.debt_id === 'b')?.payment).toBe(400);
+    });
+
+    it('should stop at the horizon when payments never cover the interest', () => {
+      const schedule = simulatePayoff([
+        debt({ current_balance: 10000, interest_rate: 0.24, minimum_payment: 150 }),
+      ], { startDate: START, maxMonths: 24 });
+
+      expect(schedule.is_complete).toBe(false);
+      expect(schedule.debt_free_date).toBeNull();
+      expect(schedule.months).toHaveLength(24);
+      expect(schedule.months[23].total_balance).toBeGreaterThan(10000);
+    });
+  });
+
+  describe('payment reconciliation', () => {
+    const debt = (overrides: Partial<Debt>): Debt => ({
+      id: 'debt-card',
+      user_id: 'user-123',
+      name: 'Platinum Card',
+      debt_type: 'credit_card',
+      original_balance: 5000,
+      current_balance: 3000,
+      interest_rate: 0.24,
+      promo_interest_rate: null,
+      promo_end_date: null,
+      minimum_payment: 150,
+      due_date: 5,
+      currency: 'AED',
+      lender_name: 'Emirates NBD',
+      account_number_last_four: '4821',
+      start_date: null,
+      target_payoff_date: null,
+      notes: null,
+      is_active: true,
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+      ...overrides,
+    });
+    const card = debt({});
+    const loan = debt({
+      id: 'debt-loan',
+      name: 'Car Loan',
+      debt_type: 'auto_loan',
+      current_balance: 40000,
+      minimum_payment: 1800,
+      account_number_last_four: null,
+    });
+
+    const payment = (overrides: Partial<PaymentTransaction>): PaymentTransaction => ({
+      id: 'txn-1',
+      merchant_name: 'CARD PAYMENT',
+      amount: -1000,
+      currency: 'AED',
+      transaction_date: '2026-03-05',
+      transaction_type: 'payment',
+      card_last_four: null,
+      notes: null,
+      ...overrides,
+    });
+
+    it('should match payments by account digits, lender or debt name', () => {
+      expect(matchPaymentToDebt(payment({ merchant_name: 'CC PAYMENT XXXX4821' }), [card, loan])?.id).toBe('debt-card');
+      expect(matchPaymentToDebt(payment({ card_last_four: '4821' }), [card, loan])?.id).toBe('debt-card');
+      expect(matchPaymentToDebt(payment({ merchant_name: 'CAR LOAN INSTALMENT', amount: -1800 }), [card, loan])?.id).toBe('debt-loan');
+    });
+
+    it('should use the minimum payment to split debts at the same lender', () => {
+      expect(matchPaymentToDebt(payment({ merchant_name: 'EMIRATES NBD TRANSFER', amount: -1800 }), [card, loan])?.id).toBe('debt-loan');
+      // Same lender, unrelated amount: ambiguous
+      expect(matchPaymentToDebt(payment({ merchant_name: 'EMIRATES NBD TRANSFER', amount: -700 }), [card, loan])).toBeNull();
+    });
+
+    it('should ignore purchases, other currencies and paid-off debts', () => {
+      expect(matchPaymentToDebt(payment({ card_last_four: '4821', transaction_type: 'purchase' }), [card])).toBeNull();
+      expect(matchPaymentToDebt(payment({ card_last_four: '4821', currency: 'USD' }), [card])).toBeNull();
+      expect(matchPaymentToDebt(payment({ card_last_four: '4821' }), [debt({ current_balance: 0 })])).toBeNull();
+    });
+
+    it('should record matched payments once and skip those already recorded', async () => {
+      const inserted: any[] = [];
+      (mockSupabase.from as jest.Mock).mockImplementation((table: string) => {
+        if (table === 'debts') {
+          const query = createMockQuery([{ ...card }, { ...loan }]);
+          query.single = jest.fn(() => Promise.resolve({ data: card, error: null }));
+          return query;
+        }
+        if (table === 'transactions') {
+          return createMockQuery([
+            payment({ id: 'txn-recorded', card_last_four: '4821' }),
+            payment({ id: 'txn-new', card_last_four: '4821', amount: -500 }),
+            payment({ id: 'txn-other', merchant_name: 'DEWA' }),
+          ]);
+        }
+        const query = createMockQuery([{ transaction_id: 'txn-recorded' }]);
+        query.insert = jest.fn((row: any) => {
+          inserted.push(row);
+          return query;
+        });
+        query.single = jest.fn(() => Promise.resolve({ data: { id: 'payment-1', ...inserted[inserted.length - 1] }, error: null }));
+        return query;
+      });
+
+      const reconciled = await reconcileDebtPayments('2026-01-01');
+
+      expect(reconciled.map(r => [r.transaction_id, r.debt_id])).toEqual([['txn-new', 'debt-card']]);
+      expect(inserted).toEqual([expect.objectContaining({
+        debt_id: 'debt-card',
+        amount: 500,
+        payment_date: '2026-03-05',
+        transaction_id: 'txn-new',
+        interest_amount: 60,
+        balance_after: 2560,
+      })]);
+    });
+  });
 });
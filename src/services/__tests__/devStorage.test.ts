@@ -53,9 +53,9 @@ jest.mock('@/config/categories', () => ({
   }),
 }));
 
-// Mock currencyConverter
-jest.mock('../currencyConverter', () => ({
-  convertCurrency: jest.fn((amount) => Promise.resolve(amount)),
+// Mock rateHistory
+jest.mock('../rateHistory', () => ({
+  convertAtTransactionRate: jest.fn((amount) => Promise.resolve(amount)),
 }));
 
 // Mock settingsStore
@@ -0,0 +1,235 @@
+/**
+ * Dividend Service Tests
+ * Ledger recording, yield on cost, 12-month projection and calendar
+ */
+
+import { recordDividend, syncDividendLedger, summarizeDividends } from '../dividends';
+import { supabase } from '../supabase';
+import { recordDividendIncome } from '../incomeTracking';
+import type { DividendPayment, InvestmentTransaction } from '@/types';
+
+jest.mock('../supabase', () => ({
+  supabase: { from: jest.fn(), auth: { getUser: jest.fn() } },
+}));
+
+jest.mock('../incomeTracking', () => ({
+  recordDividendIncome: jest.fn(),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logger: { investment: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } },
+}));
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+function createMockQuery(resolvedData: any, error: any = null) {
+  const mockQuery: any = {
+    select: jest.fn(() => mockQuery),
+    insert: jest.fn(() => mockQuery),
+    update: jest.fn(() => mockQuery),
+    eq: jest.fn(() => mockQuery),
+    not: jest.fn(() => mockQuery),
+    maybeSingle: jest.fn(() => Promise.resolve({ data: resolvedData, error })),
+    single: jest.fn(() => Promise.resolve({ data: resolvedData, error })),
+  };
+  mockQuery.then = (resolve: any) => {
+    resolve({ data: resolvedData, error });
+    return mockQuery;
+  };
+  return mockQuery;
+}
+
+const transaction = (overrides: Partial<InvestmentTransaction> = {}): InvestmentTransaction => ({
+  id: 'txn-1',
+  user_id: 'user-123',
+  holding_id: 'holding-1',
+  symbol: 'voo',
+  transaction_type: 'dividend',
+  quantity: 20,
+  price: 1.75,
+  amount: 35,
+  fees: 0,
+  currency: 'USD',
+  transaction_date: '2026-09-29',
+  notes: null,
+  is_manual: true,
+  plaid_transaction_id: null,
+  created_at: '2026-09-29T00:00:00Z',
+  updated_at: '2026-09-29T00:00:00Z',
+  ...overrides,
+});
+
+const payment = (overrides: Partial<DividendPayment> = {}): DividendPayment => ({
+  id: `div-${overrides.symbol ?? 'VOO'}-${overrides.payment_date ?? '2026-09-29'}`,
+  user_id: 'user-123',
+  holding_id: null,
+  investment_transaction_id: null,
+  income_id: null,
+  symbol: 'VOO',
+  amount: 17.5,
+  currency: 'USD',
+  amount_per_share: 1.75,
+  shares: 10,
+  ex_dividend_date: '2026-09-26',
+  payment_date: '2026-09-29',
+  record_date: null,
+  dividend_type: 'regular',
+  reinvested: false,
+  reinvested_shares: null,
+  created_at: '2026-09-29T00:00:00Z',
+  ...overrides,
+});
+
+describe('Dividend Service', () => {
+  beforeEach(() => {
+    (mockSupabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: 'user-123' } } });
+    (recordDividendIncome as jest.Mock).mockResolvedValue({ id: 'income-1' });
+  });
+
+  describe('recordDividend', () => {
+    it('should add the dividend to the ledger and link it to income', async () => {
+      const lookup = createMockQuery(null);
+      const insert = createMockQuery(payment({ id: 'div-1', symbol: 'VOO', amount: 35 }));
+      const link = createMockQuery(null);
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(lookup)
+        .mockReturnValueOnce(insert)
+        .mockReturnValueOnce(link);
+
+      const result = await recordDividend(transaction(), { ex_dividend_date: '2026-09-26' });
+
+      expect(insert.insert).toHaveBeenCalledWith(expect.objectContaining({
+        symbol: 'VOO',
+        amount: 35,
+        amount_per_share: 1.75,
+        shares: 20,
+        ex_dividend_date: '2026-09-26',
+        payment_date: '2026-09-29',
+        investment_transaction_id: 'txn-1',
+      }));
+      expect(recordDividendIncome).toHaveBeenCalledWith(expect.objectContaining({ id: 'div-1', amount: 35 }));
+      expect(link.update).toHaveBeenCalledWith({ income_id: 'income-1' });
+      expect(result?.income_id).toBe('income-1');
+    });
+
+    it('should return the existing entry for a transaction already recorded', async () => {
+      const existing = payment({ id: 'div-1', investment_transaction_id: 'txn-1' });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(createMockQuery(existing));
+
+      expect(await recordDividend(transaction())).toEqual(existing);
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+      expect(recordDividendIncome).not.toHaveBeenCalled();
+    });
+
+    it('should ignore other transaction types', async () => {
+      expect(await recordDividend(transaction({ transaction_type: 'buy' }))).toBeNull();
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should keep the ledger entry when income cannot be recorded', async () => {
+      (recordDividendIncome as jest.Mock).mockRejectedValue(new Error('Not authenticated'));
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(createMockQuery(null))
+        .mockReturnValueOnce(createMockQuery(payment({ id: 'div-1' })));
+
+      const result = await recordDividend(transaction());
+
+      expect(result?.id).toBe('div-1');
+      expect(result?.income_id).toBeNull();
+    });
+  });
+
+  describe('syncDividendLedger', () => {
+    it('should record dividend transactions missing from the ledger', async () => {
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(createMockQuery([transaction({ id: 'txn-1' }), transaction({ id: 'txn-2' })]))
+        .mockReturnValueOnce(createMockQuery([{ investment_transaction_id: 'txn-1' }]))
+        .mockReturnValueOnce(createMockQuery(null))
+        .mockReturnValueOnce(createMockQuery(payment({ id: 'div-2' })))
+        .mockReturnValueOnce(createMockQuery(null));
+
+      expect(await syncDividendLedger()).toBe(1);
+      expect(recordDividendIncome).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('summarizeDividends', () => {
+    const today = new Date('2026-10-19T12:00:00Z');
+
+    // VOO pays quarterly; 10 shares last year, 20 now
+    const vooPayments = [
+      ['2024-12-27', 15], ['2025-03-28', 15], ['2025-06-30', 15], ['2025-09-29', 15],
+      ['2025-12-29', 17.5], ['2026-03-30', 17.5], ['2026-06-29', 17.5], ['2026-09-29', 17.5],
+    ].map(([date, amount]) => payment({
+      symbol: 'VOO',
+      payment_date: date as string,
+      ex_dividend_date: date as string,
+      amount: amount as number,
+      amount_per_share: (amount as number) / 10,
+    }));
+    vooPayments[vooPayments.length - 1].ex_dividend_date = '2026-09-26';
+
+    // O pays monthly on the 15th, ex-date on the 1st
+    const oPayments = Array.from({ length: 12 }, (_, i) => {
+      const month = new Date(Date.UTC(2025, 10 + i, 15)).toISOString().split('T')[0];
+      return payment({
+        symbol: 'O',
+        payment_date: month,
+        ex_dividend_date: `${month.slice(0, 8)}01`,
+        amount: 25,
+        amount_per_share: 0.25,
+        shares: 100,
+      });
+    });
+
+    const holdings = [
+      { symbol: 'VOO', name: 'Vanguard S&P 500 ETF', quantity: 20, cost_basis: 8000 },
+      { symbol: 'O', name: 'Realty Income', quantity: 100, cost_basis: 5000 },
+    ];
+
+    it('should total received dividends and yield on cost', () => {
+      const summary = summarizeDividends([...vooPayments, ...oPayments], holdings, today);
+
+      expect(summary.total_dividends_ytd).toBe(302.5);
+      expect(summary.total_dividends_last_year).toBe(112.5);
+      expect(summary.trailing_12m_dividends).toBe(370);
+      expect(summary.dividend_growth_rate).toBe(516.67);
+      expect(summary.yield_on_cost).toBe(2.85);
+      expect(summary.dividend_by_month['2026-09']).toBe(42.5);
+      expect(Object.keys(summary.dividend_by_month)).toHaveLength(12);
+      expect(summary.holdings.find((h) => h.symbol === 'VOO')).toMatchObject({
+        trailing_dividends: 70,
+        yield_on_cost: 0.88,
+        frequency: 'quarterly',
+      });
+    });
+
+    it('should project the next 12 months at current share counts', () => {
+      const summary = summarizeDividends([...vooPayments, ...oPayments], holdings, today);
+
+      // VOO: 4 x 1.75 x 20 shares; O: Nov through Sep, 11 x 25
+      expect(summary.projected_12m_income).toBe(415);
+      expect(summary.projected_by_month['2026-10']).toBe(0);
+      expect(summary.projected_by_month['2026-12']).toBe(60);
+      expect(summary.upcoming_dividends).toEqual([
+        expect.objectContaining({ symbol: 'O', ex_date: '2026-11-01', pay_date: '2026-11-15', estimated_amount: 25, frequency: 'monthly' }),
+        expect.objectContaining({ symbol: 'VOO', ex_date: '2026-12-26', pay_date: '2026-12-29', estimated_amount: 35 }),
+      ]);
+    });
+
+    it('should not project special dividends or positions that were sold', () => {
+      const summary = summarizeDividends(
+        [
+          payment({ symbol: 'KO', payment_date: '2026-05-01', amount: 10, dividend_type: 'special' }),
+          payment({ symbol: 'XYZ', payment_date: '2026-08-01', amount: 12 }),
+        ],
+        [{ symbol: 'KO', name: 'Coca-Cola', quantity: 10, cost_basis: 500 }],
+        today
+      );
+
+      expect(summary.trailing_12m_dividends).toBe(22);
+      expect(summary.projected_12m_income).toBe(0);
+      expect(summary.upcoming_dividends).toEqual([]);
+    });
+  });
+});
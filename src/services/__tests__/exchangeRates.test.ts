@@ -9,6 +9,7 @@ import {
   getExchangeRate,
   getFallbackRates,
 } from '../exchangeRates';
+import { clearRatesCache } from '../rateProvider';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Mock AsyncStorage
@@ -33,10 +34,11 @@ jest.mock('@/utils/logger', () => ({
 }));
 
 describe('exchangeRates', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
     (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
     (AsyncStorage.setItem as jest.Mock).mockResolvedValue(undefined);
+    await clearRatesCache();
   });
 
   describe('fetchExchangeRates', () => {
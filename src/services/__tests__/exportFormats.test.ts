@@ -0,0 +1,133 @@
+/**
+ * Export Formats Tests
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+import {
+  buildWorkbook,
+  buildReportWorksheets,
+  buildCategoryPivot,
+  buildStatementHTML,
+  columnName,
+  type ReportData,
+} from '../exportFormats';
+
+const makeReport = (transactionCount = 3): ReportData => ({
+  user: { name: 'Test User', email: 'test@example.com', currency: 'AED', exportDate: 'January 31, 2026' },
+  period: { label: 'Last 30 days', startDate: '2026-01-01', endDate: '2026-01-31' },
+  summary: { totalIncome: 5000, totalExpenses: 1250.5, netSavings: 3749.5, savingsRate: 74.99, transactionCount },
+  transactions: Array.from({ length: transactionCount }, (_, i) => ({
+    date: i % 2 === 0 ? '2026-01-15' : '2025-12-20',
+    merchant: i === 0 ? 'Café <Bistro> & "Co"' : `Merchant ${i}`,
+    category: i % 2 === 0 ? 'Food' : 'Transport',
+    amount: -(100 + i),
+    currency: 'AED',
+  })),
+  budgets: [{ category: 'Food', budget: 1000, spent: 250.25, remaining: 749.75 }],
+  goals: [],
+  subscriptions: [
+    { name: 'Netflix', amount: 45, currency: 'AED', frequency: 'monthly', status: 'active', nextBillingDate: '2026-02-05' },
+  ],
+  categoryBreakdown: [
+    { category: 'Food', total: 202, percentage: 66.2, count: 2 },
+    { category: 'Transport', total: 101, percentage: 33.8, count: 1 },
+  ],
+});
+
+describe('Export Formats', () => {
+  describe('columnName', () => {
+    it('should map indexes to spreadsheet column letters', () => {
+      expect(columnName(0)).toBe('A');
+      expect(columnName(25)).toBe('Z');
+      expect(columnName(26)).toBe('AA');
+      expect(columnName(701)).toBe('ZZ');
+    });
+  });
+
+  describe('buildCategoryPivot', () => {
+    it('should total spending per category per month', () => {
+      const pivot = buildCategoryPivot([
+        { date: '2026-01-03', merchant: 'A', category: 'Food', amount: -10, currency: 'AED' },
+        { date: '2026-01-20', merchant: 'B', category: 'Food', amount: -5.5, currency: 'AED' },
+        { date: '2026-02-01', merchant: 'C', category: 'Rent', amount: -100, currency: 'AED' },
+        { date: '2026-02-01', merchant: 'Payroll', category: 'Salary', amount: 500, currency: 'AED' },
+      ]);
+
+      expect(pivot.months).toEqual(['2026-01', '2026-02']);
+      expect(pivot.rows).toEqual([
+        { category: 'Rent', values: [0, 100], total: 100 },
+        { category: 'Food', values: [15.5, 0], total: 15.5 },
+      ]);
+      expect(pivot.totals).toEqual([15.5, 100]);
+      expect(pivot.grandTotal).toBe(115.5);
+    });
+  });
+
+  describe('buildWorkbook', () => {
+    it('should produce a valid XLSX package with one worksheet per sheet', () => {
+      const files = unzipSync(buildWorkbook(buildReportWorksheets(makeReport())));
+
+      expect(Object.keys(files)).toEqual(expect.arrayContaining([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/styles.xml',
+        'xl/worksheets/sheet5.xml',
+      ]));
+
+      const workbook = strFromU8(files['xl/workbook.xml']);
+      for (const name of ['Summary', 'Transactions', 'Budgets', 'Subscriptions', 'Category Pivot']) {
+        expect(workbook).toContain(`name="${name}"`);
+      }
+    });
+
+    it('should escape text and store numbers and dates as typed cells', () => {
+      const files = unzipSync(buildWorkbook(buildReportWorksheets(makeReport())));
+      const transactions = strFromU8(files['xl/worksheets/sheet2.xml']);
+
+      expect(transactions).toContain('Café &lt;Bistro&gt; &amp; &quot;Co&quot;');
+      // 2026-01-15 as an Excel serial date
+      expect(transactions).toContain('<c r="A2" s="3"><v>46037</v></c>');
+      expect(transactions).toContain('<c r="D2"><v>-100</v></c>');
+      expect(transactions).toContain('state="frozen"');
+      expect(transactions).toContain('<autoFilter ref="A1:F4"/>');
+    });
+
+    it('should make sheet names unique and Excel-safe', () => {
+      const files = unzipSync(buildWorkbook([
+        { name: 'Q1/Q2 [draft]', columns: ['A'], rows: [] },
+        { name: 'Q1/Q2 [draft]', columns: ['A'], rows: [] },
+      ]));
+      const workbook = strFromU8(files['xl/workbook.xml']);
+
+      expect(workbook).toContain('name="Q1 Q2  draft"');
+      expect(workbook).toContain('name="Q1 Q2  draft 2"');
+    });
+
+    it('should reject an empty workbook', () => {
+      expect(() => buildWorkbook([])).toThrow('at least one sheet');
+    });
+  });
+
+  describe('buildStatementHTML', () => {
+    it('should number every page and chart spending', () => {
+      const { html, pageCount } = buildStatementHTML(makeReport());
+
+      // Summary, categories, budgets, subscriptions, transactions
+      expect(pageCount).toBe(5);
+      expect(html).toContain('Page 5 of 5');
+      expect(html.match(/class="page"/g)).toHaveLength(5);
+      expect(html).toContain('<svg');
+      expect(html).toContain('AED 5,000.00');
+      expect(html).toContain('Café &lt;Bistro&gt;');
+    });
+
+    it('should split long transaction lists across pages', () => {
+      const { html, pageCount } = buildStatementHTML(makeReport(60));
+
+      expect(pageCount).toBe(7);
+      expect(html.match(/Transactions \(cont\.\)/g)).toHaveLength(2);
+    });
+  });
+});
@@ -6,46 +6,147 @@
 import {
   calculateHealthScore,
   getHealthFactorDetails,
+  getHealthScoreHistory,
   getSavingsRate,
   getEmergencyFundRatio,
 } from '../financialHealth';
+import {
+  setHealthDataSource,
+  getHealthDataSource,
+  deviceHealthDataSource,
+  cloudHealthDataSource,
+} from '../healthDataSource';
+import type { HealthDataSource, HealthTransaction, HealthAccount, HealthBudget } from '../healthDataSource';
+import * as devStorage from '../devStorage';
+import { isDevMode } from '@/utils/devMode';
+import type { FinancialHealthSnapshot } from '@/types';
+
+jest.mock('../supabase', () => ({
+  supabase: { from: jest.fn(), auth: { getUser: jest.fn() } },
+}));
 
-// Mock devStorage
 jest.mock('../devStorage', () => ({
-  getDevAssets: jest.fn().mockResolvedValue([
-    { id: '1', name: 'Savings', category: 'savings', value: 5000 },
-    { id: '2', name: 'Checking', category: 'checking', value: 2000 },
-    { id: '3', name: 'Investment', category: 'investment', value: 10000 },
-  ]),
-  getDevLiabilities: jest.fn().mockResolvedValue([
-    { id: '1', name: 'Credit Card', value: 1000 },
-  ]),
-  getDevBudgets: jest.fn().mockResolvedValue([
-    { id: '1', category: 'food', amount: 500, spent: 450 },
-    { id: '2', category: 'entertainment', amount: 200, spent: 180 },
-  ]),
-  getDevDebts: jest.fn().mockResolvedValue([
-    { id: '1', name: 'Student Loan', balance: 5000 },
-  ]),
+  getDevTransactions: jest.fn(),
+  getDevAssets: jest.fn(),
+  getDevLiabilities: jest.fn(),
+  getDevDebts: jest.fn(),
+  getDevBudgets: jest.fn(),
+  getDevCollection: jest.fn(),
+  setDevCollection: jest.fn(),
+}));
+
+jest.mock('../rateHistory', () => ({
+  convertAtTransactionRate: jest.fn(),
 }));
 
-// Mock analytics
-jest.mock('../analytics', () => ({
-  getCashFlowTrend: jest.fn().mockResolvedValue([
-    { month: 'Jan', income: 5000, expenses: 4000 },
-    { month: 'Feb', income: 5000, expenses: 3800 },
-    { month: 'Mar', income: 5200, expenses: 4100 },
-  ]),
-  getBudgetPerformance: jest.fn().mockResolvedValue([
-    { category: 'food', budgeted: 500, spent: 450, percentage: 90 },
-    { category: 'entertainment', budgeted: 200, spent: 180, percentage: 90 },
-    { category: 'transport', budgeted: 300, spent: 350, percentage: 117 },
-  ]),
+jest.mock('@/stores/settingsStore', () => ({
+  useSettingsStore: { getState: () => ({ currency: 'AED' }) },
 }));
 
+jest.mock('@/utils/devMode', () => ({
+  isDevMode: jest.fn(),
+}));
+
+// Dates relative to today so the 3-month window always covers the fixtures
+const pad = (n: number) => String(n).padStart(2, '0');
+const dayInMonth = (offset: number, day: number) => {
+  const date = new Date(new Date().getFullYear(), new Date().getMonth() + offset, day);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+const THIS_MONTH = dayInMonth(0, 1);
+
+let nextId = 0;
+const txn = (
+  amount: number,
+  offset: number,
+  overrides: Partial<HealthTransaction> = {}
+): HealthTransaction => ({
+  id: `t${++nextId}`,
+  merchant_name: 'Merchant',
+  amount,
+  currency: 'AED',
+  transaction_date: dayInMonth(offset, 2),
+  transaction_type: 'purchase',
+  category_id: 'rent',
+  category_name: 'Rent',
+  metadata: {},
+  ...overrides,
+});
+
+// Income 5000 / 5000 / 5200, expenses 4000 / 3800 / 4100 (current month last)
+const TRANSACTIONS: HealthTransaction[] = [
+  txn(5000, -2, { merchant_name: 'Salary' }),
+  txn(-4000, -2, { merchant_name: 'Landlord' }),
+  txn(5000, -1, { merchant_name: 'Salary' }),
+  txn(-3800, -1, { merchant_name: 'Landlord' }),
+  txn(5200, 0, { merchant_name: 'Salary' }),
+  txn(-3120, 0, { merchant_name: 'Landlord' }),
+  txn(-450, 0, { merchant_name: 'Carrefour', category_id: 'food', category_name: 'Food' }),
+  txn(-180, 0, { merchant_name: 'Vox Cinemas', category_id: 'entertainment', category_name: 'Entertainment' }),
+  txn(-300, 0, { merchant_name: 'Careem', category_id: 'transport', category_name: 'Transport' }),
+  txn(-50, 0, { merchant_name: 'Salik', category_id: 'transport', category_name: 'Transport' }),
+];
+
+const ACCOUNTS: HealthAccount[] = [
+  { id: 'a1', name: 'Savings', kind: 'asset', value: 5000, currency: 'AED', is_liquid: true },
+  { id: 'a2', name: 'Checking', kind: 'asset', value: 2000, currency: 'AED', is_liquid: true },
+  { id: 'a3', name: 'Investment', kind: 'asset', value: 10000, currency: 'AED', is_liquid: false },
+  { id: 'l1', name: 'Credit Card', kind: 'debt', value: 1000, currency: 'AED', is_liquid: false },
+  { id: 'd1', name: 'Student Loan', kind: 'debt', value: 5000, currency: 'AED', is_liquid: false },
+];
+
+const BUDGETS: HealthBudget[] = [
+  { id: 'b1', category_id: 'food', category_name: 'Food', amount: 500 },
+  { id: 'b2', category_id: 'entertainment', category_name: 'Entertainment', amount: 200 },
+  { id: 'b3', category_id: 'transport', category_name: 'Transport', amount: 300 },
+];
+
+function fixtureSource(
+  overrides: { transactions?: HealthTransaction[]; accounts?: HealthAccount[]; budgets?: HealthBudget[] } = {}
+) {
+  let snapshots: FinancialHealthSnapshot[] = [];
+  const source = {
+    id: 'device' as const,
+    getTransactions: jest.fn(async () => overrides.transactions ?? TRANSACTIONS),
+    getAccounts: jest.fn(async () => overrides.accounts ?? ACCOUNTS),
+    getBudgets: jest.fn(async () => overrides.budgets ?? BUDGETS),
+    getSnapshots: jest.fn(async (limit: number) =>
+      [...snapshots].sort((a, b) => b.month.localeCompare(a.month)).slice(0, limit)
+    ),
+    saveSnapshot: jest.fn(async (snapshot) => {
+      const saved = { ...snapshot, id: snapshot.month, user_id: 'u1', created_at: '', updated_at: '' };
+      snapshots = [...snapshots.filter((s) => s.month !== snapshot.month), saved];
+      return saved;
+    }),
+    seed: (records: FinancialHealthSnapshot[]) => {
+      snapshots = records;
+    },
+  };
+  return source satisfies HealthDataSource & { seed: unknown };
+}
+
+const snapshot = (month: string, overall: number): FinancialHealthSnapshot => ({
+  id: month,
+  user_id: 'u1',
+  month,
+  overall,
+  grade: 'Fair',
+  factors: {},
+  details: {},
+  created_at: '',
+  updated_at: '',
+});
+
 describe('financialHealth', () => {
+  let source: ReturnType<typeof fixtureSource>;
+
   beforeEach(() => {
-    jest.clearAllMocks();
+    source = fixtureSource();
+    setHealthDataSource(source);
+  });
+
+  afterAll(() => {
+    setHealthDataSource(null);
   });
 
   describe('calculateHealthScore', () => {
@@ -89,35 +190,81 @@ describe('financialHealth', () => {
     it('should calculate correct savings rate', async () => {
       const result = await calculateHealthScore();
 
-      // With income of ~15200 and expenses of ~11900, savings rate should be ~21.7%
+      // With income of 15200 and expenses of 11900, savings rate should be ~21.7%
       expect(result.details.savingsRateActual).toBeGreaterThan(15);
       expect(result.details.savingsRateActual).toBeLessThan(30);
     });
 
-    it('should return Excellent grade for high scores', async () => {
-      const { getDevAssets, getDevLiabilities, getDevDebts } = require('../devStorage');
-      const { getCashFlowTrend, getBudgetPerformance } = require('../analytics');
+    it('should only use this month for budget adherence', async () => {
+      const result = await calculateHealthScore();
 
-      // Mock excellent financial situation
-      getDevAssets.mockResolvedValueOnce([
-        { id: '1', name: 'Savings', category: 'savings', value: 50000 },
-        { id: '2', name: 'Checking', category: 'checking', value: 10000 },
-      ]);
-      getDevLiabilities.mockResolvedValueOnce([]);
-      getDevDebts.mockResolvedValueOnce([]);
-      getCashFlowTrend.mockResolvedValueOnce([
-        { month: 'Jan', income: 10000, expenses: 5000 },
-        { month: 'Feb', income: 10000, expenses: 5000 },
-        { month: 'Mar', income: 10000, expenses: 5000 },
-      ]);
-      getBudgetPerformance.mockResolvedValueOnce([
-        { category: 'food', budgeted: 500, spent: 400, percentage: 80 },
-      ]);
+      // Food 90%, entertainment 90%, transport 117%
+      expect(result.details.budgetAdherenceAvg).toBeCloseTo(98.9, 1);
+    });
+
+    it('should return Excellent grade for high scores', async () => {
+      setHealthDataSource(fixtureSource({
+        transactions: [
+          txn(10000, -2), txn(-5000, -2),
+          txn(10000, -1), txn(-5000, -1),
+          txn(10000, 0), txn(-400, 0, { category_id: 'food' }), txn(-4600, 0),
+        ],
+        accounts: [
+          { id: 'a1', name: 'Savings', kind: 'asset', value: 50000, currency: 'AED', is_liquid: true },
+          { id: 'a2', name: 'Checking', kind: 'asset', value: 10000, currency: 'AED', is_liquid: true },
+        ],
+        budgets: [{ id: 'b1', category_id: 'food', category_name: 'Food', amount: 500 }],
+      }));
 
       const result = await calculateHealthScore();
 
       expect(result.overall).toBeGreaterThan(80);
     });
+
+    it('should explain each factor with the transactions behind it', async () => {
+      const { explanations } = await calculateHealthScore();
+
+      expect(explanations.savingsRate.summary).toContain('21.7%');
+      expect(explanations.savingsRate.drivers[0]).toMatchObject({ kind: 'transaction', label: 'Landlord', amount: 4000 });
+      expect(explanations.budgetAdherence.summary).toContain('Transport');
+      expect(explanations.budgetAdherence.drivers.map(d => d.label)).toEqual(['Careem', 'Salik']);
+      expect(explanations.debtRatio.drivers[0]).toMatchObject({ kind: 'account', label: 'Student Loan', amount: 5000 });
+      expect(explanations.emergencyFund.drivers.slice(0, 2).map(d => d.label)).toEqual(['Savings', 'Checking']);
+    });
+
+    it('should store a snapshot for this month and compare with the last one', async () => {
+      source.seed([snapshot(dayInMonth(-1, 1), 50)]);
+
+      const result = await calculateHealthScore();
+
+      expect(result.month).toBe(THIS_MONTH);
+      expect(result.change).toBe(result.overall - 50);
+      expect(source.saveSnapshot).toHaveBeenCalledWith(expect.objectContaining({
+        month: THIS_MONTH,
+        overall: result.overall,
+        factors: result.factors,
+      }));
+    });
+
+    it('should not store a snapshot without data', async () => {
+      setHealthDataSource(source = fixtureSource({ transactions: [], accounts: [], budgets: [] }));
+
+      const result = await calculateHealthScore();
+
+      expect(result.hasEnoughData).toBe(false);
+      expect(result.change).toBeNull();
+      expect(source.saveSnapshot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHealthScoreHistory', () => {
+    it('should return snapshots oldest first', async () => {
+      source.seed([snapshot('2026-03-01', 60), snapshot('2026-01-01', 40), snapshot('2026-02-01', 55)]);
+
+      const history = await getHealthScoreHistory(2);
+
+      expect(history.map(s => s.month)).toEqual(['2026-02-01', '2026-03-01']);
+    });
   });
 
   describe('getHealthFactorDetails', () => {
@@ -133,7 +280,7 @@ describe('financialHealth', () => {
       ]);
     });
 
-    it('should include score, actual, target, status, and tip', async () => {
+    it('should include score, actual, target, status, tip and explanation', async () => {
       const details = await getHealthFactorDetails();
 
       details.forEach(detail => {
@@ -143,6 +290,8 @@ describe('financialHealth', () => {
         expect(detail).toHaveProperty('target');
         expect(detail).toHaveProperty('status');
         expect(detail).toHaveProperty('tip');
+        expect(detail.explanation).toEqual(expect.any(String));
+        expect(Array.isArray(detail.drivers)).toBe(true);
       });
     });
 
@@ -169,12 +318,7 @@ describe('financialHealth', () => {
     });
 
     it('should return 0 when no income', async () => {
-      const { getCashFlowTrend } = require('../analytics');
-      getCashFlowTrend.mockResolvedValueOnce([
-        { month: 'Jan', income: 0, expenses: 1000 },
-        { month: 'Feb', income: 0, expenses: 1000 },
-        { month: 'Mar', income: 0, expenses: 1000 },
-      ]);
+      setHealthDataSource(fixtureSource({ transactions: [txn(-1000, -2), txn(-1000, -1), txn(-1000, 0)] }));
 
       const rate = await getSavingsRate();
 
@@ -201,16 +345,46 @@ describe('financialHealth', () => {
     });
 
     it('should return 12 when no expenses', async () => {
-      const { getCashFlowTrend } = require('../analytics');
-      getCashFlowTrend.mockResolvedValueOnce([
-        { month: 'Jan', income: 5000, expenses: 0 },
-        { month: 'Feb', income: 5000, expenses: 0 },
-        { month: 'Mar', income: 5000, expenses: 0 },
-      ]);
+      setHealthDataSource(fixtureSource({ transactions: [txn(5000, -2), txn(5000, -1), txn(5000, 0)] }));
 
       const ratio = await getEmergencyFundRatio();
 
       expect(ratio).toBe(12);
     });
   });
+
+  describe('data sources', () => {
+    beforeEach(() => {
+      setHealthDataSource(null);
+    });
+
+    it('should use device storage in dev mode and Supabase otherwise', () => {
+      (isDevMode as jest.Mock).mockReturnValue(true);
+      expect(getHealthDataSource()).toBe(deviceHealthDataSource);
+
+      (isDevMode as jest.Mock).mockReturnValue(false);
+      expect(getHealthDataSource()).toBe(cloudHealthDataSource);
+    });
+
+    it('should map dev assets, liabilities and debts to accounts', async () => {
+      (devStorage.getDevAssets as jest.Mock).mockResolvedValue([
+        { id: 'a1', name: 'Emergency', category: 'Savings', value: 5000 },
+        { id: 'a2', name: 'Flat', category: 'property', value: 900000 },
+      ]);
+      (devStorage.getDevLiabilities as jest.Mock).mockResolvedValue([{ id: 'l1', name: 'Card', value: 1000 }]);
+      (devStorage.getDevDebts as jest.Mock).mockResolvedValue([
+        { id: 'd1', name: 'Car Loan', balance: 20000, status: 'active' },
+        { id: 'd2', name: 'Old Loan', balance: 0, status: 'paid_off' },
+      ]);
+
+      const accounts = await deviceHealthDataSource.getAccounts();
+
+      expect(accounts.map(a => [a.id, a.kind, a.is_liquid])).toEqual([
+        ['a1', 'asset', true],
+        ['a2', 'asset', false],
+        ['l1', 'debt', false],
+        ['d1', 'debt', false],
+      ]);
+    });
+  });
 });
@@ -7,6 +7,7 @@ import {
   getCashFlowForPeriod,
   getIncomeBySource,
   getTotalRecurringMonthlyIncome,
+  recordDividendIncome,
 } from '../incomeTracking';
 import { supabase } from '../supabase';
 
@@ -26,6 +27,7 @@ const mockSupabase = supabase as jest.Mocked<typeof supabase>;
 function createMockQuery(resolvedData: any) {
   const mockQuery: any = {
     select: jest.fn(() => mockQuery),
+    insert: jest.fn(() => mockQuery),
     eq: jest.fn(() => mockQuery),
     gte: jest.fn(() => mockQuery),
     lte: jest.fn(() => mockQuery),
@@ -198,4 +200,29 @@ describe('Income Tracking Service', () => {
       expect(result).toBe(0);
     });
   });
+
+  describe('recordDividendIncome', () => {
+    it('should record the dividend as investment income on the pay date', async () => {
+      const mockQuery = createMockQuery({ id: 'income-1' });
+      (mockSupabase.from as jest.Mock).mockReturnValue(mockQuery);
+
+      await recordDividendIncome({
+        symbol: 'VOO',
+        amount: 42.5,
+        currency: 'USD',
+        payment_date: '2026-03-31',
+        reinvested: false,
+      });
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('income');
+      expect(mockQuery.insert).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: 'user-123',
+        amount: 42.5,
+        source: 'investment',
+        payer_name: 'VOO',
+        income_date: '2026-03-31',
+        is_recurring: false,
+      }));
+    });
+  });
 });
@@ -14,11 +14,18 @@ import {
   getPortfolioSummary,
   createSnapshot,
   getPerformance,
+  updatePrices,
+  saveTargetAllocation,
+  calculateRebalancePlan,
   formatCurrency,
   formatPercentage,
   getGainColor,
 } from '../investments';
 import { supabase } from '../supabase';
+import type { TargetAllocation } from '@/types';
+import { setQuoteProviders, createFixtureQuoteProvider } from '../quoteProvider';
+import { getRates } from '../rateProvider';
+import { prepareSale, recordSale, openLot } from '../taxLots';
 
 // Mock Supabase
 jest.mock('../supabase', () => ({
@@ -32,6 +39,22 @@ jest.mock('../supabase', () => ({
   },
 }));
 
+jest.mock('../../utils/locale', () => ({
+  getCurrentLocale: () => 'en-US',
+}));
+
+jest.mock('../taxLots', () => ({
+  prepareSale: jest.fn(),
+  recordSale: jest.fn(),
+  openLot: jest.fn(),
+  applySplit: jest.fn(),
+}));
+
+jest.mock('../rateProvider', () => ({
+  ...jest.requireActual('../rateProvider'),
+  getRates: jest.fn(),
+}));
+
 const mockSupabase = supabase as jest.Mocked<typeof supabase>;
 
 // Helper to create chainable mock query
@@ -48,6 +71,7 @@ function createMockQuery(resolvedData: any, error: any = null) {
     not: jest.fn(() => mockQuery),
     order: jest.fn(() => mockQuery),
     limit: jest.fn(() => mockQuery),
+    maybeSingle: jest.fn(() => Promise.resolve({ data: resolvedData, error })),
     single: jest.fn(() => Promise.resolve({ data: resolvedData, error })),
   };
   mockQuery.then = (resolve: any) => {
@@ -287,6 +311,52 @@ describe('Investment Service', () => {
 
       expect(result.id).toBe('tx-new');
       expect(result.amount).toBe(800);
+      expect(openLot).toHaveBeenCalledWith(createdTransaction, 'buy');
+    });
+
+    it('should remove the cost basis of the lots sold from the holding', async () => {
+      const sale = { lots: [], selections: [{ lot_id: 'lot-1', quantity: 5 }] };
+      const createdTransaction = { id: 'tx-sell', symbol: 'AAPL', transaction_type: 'sell', quantity: 5, price: 200 };
+      const updateQuery = createMockQuery({});
+
+      (mockSupabase.auth.getUser as jest.Mock)
+        .mockResolvedValue({ data: { user: mockUser }, error: null });
+      (prepareSale as jest.Mock).mockResolvedValue(sale);
+      (recordSale as jest.Mock).mockResolvedValue([{ cost_basis: 400 }, { cost_basis: 250 }]);
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(createMockQuery(createdTransaction))
+        .mockReturnValueOnce(createMockQuery({ quantity: 10, cost_basis: 1500 }))
+        .mockReturnValueOnce(updateQuery);
+
+      await recordTransaction({
+        holding_id: 'holding-1',
+        symbol: 'AAPL',
+        transaction_type: 'sell',
+        quantity: 5,
+        price: 200,
+        transaction_date: '2026-03-01',
+        lot_method: 'highest_cost',
+      });
+
+      expect(prepareSale).toHaveBeenCalledWith(expect.objectContaining({ lot_method: 'highest_cost' }));
+      expect(recordSale).toHaveBeenCalledWith(createdTransaction, sale);
+      expect(updateQuery.update).toHaveBeenCalledWith(expect.objectContaining({ quantity: 5, cost_basis: 850 }));
+    });
+
+    it('should not record a sell the lots cannot cover', async () => {
+      (mockSupabase.auth.getUser as jest.Mock)
+        .mockResolvedValue({ data: { user: mockUser }, error: null });
+      (prepareSale as jest.Mock).mockRejectedValue(new Error('Not enough shares to sell: 10 held'));
+
+      await expect(recordTransaction({
+        holding_id: 'holding-1',
+        symbol: 'AAPL',
+        transaction_type: 'sell',
+        quantity: 15,
+        price: 200,
+        transaction_date: '2026-03-01',
+      })).rejects.toThrow('Not enough shares');
+      expect(mockSupabase.from).not.toHaveBeenCalled();
     });
   });
 
@@ -397,6 +467,206 @@ describe('Investment Service', () => {
     });
   });
 
+  describe('updatePrices', () => {
+    let queries: Record<string, Record<string, jest.Mock>>;
+
+    const mockTables = (tables: Record<string, unknown>) => {
+      queries = Object.fromEntries(Object.entries(tables).map(([table, data]) => [table, createMockQuery(data)]));
+      (mockSupabase.from as jest.Mock).mockImplementation((table: string) => queries[table]);
+    };
+
+    beforeEach(() => {
+      setQuoteProviders([
+        createFixtureQuoteProvider(
+          {
+            AAPL: { name: 'Apple Inc.', price: 200, currency: 'USD' },
+            EMAAR: { name: 'Emaar Properties', price: 13, currency: 'AED' },
+          },
+          { BTC: { name: 'Bitcoin', price: 100000 } }
+        ),
+      ]);
+      (getRates as jest.Mock).mockResolvedValue({ base: 'USD', rates: { USD: 1, AED: 3.6725 } });
+    });
+
+    it('should price holdings in their own currency and record history', async () => {
+      mockTables({
+        investment_holdings: [
+          { id: 'h-1', symbol: 'AAPL', investment_type: 'stock', quantity: 10, currency: 'AED' },
+          { id: 'h-2', symbol: 'EMAAR', investment_type: 'stock', quantity: 100, currency: 'AED' },
+          { id: 'h-3', symbol: 'HOUSE', investment_type: 'real_estate', quantity: 1, currency: 'USD' },
+          { id: 'h-4', symbol: 'PRIVATE', investment_type: 'stock', quantity: 5, currency: 'USD' },
+        ],
+        crypto_holdings: [{ id: 'c-1', symbol: 'BTC', quantity: 0.5, currency: 'USD' }],
+        investment_prices: null,
+        investment_snapshots: { id: 'snapshot-1' },
+      });
+
+      const result = await updatePrices();
+
+      expect(result).toMatchObject({
+        updated: 3,
+        missing: ['PRIVATE'],
+        providers: ['fixture'],
+        snapshot_created: true,
+      });
+      expect(queries.investment_holdings.update).toHaveBeenCalledWith(expect.objectContaining({
+        current_price: 734.5,
+        current_value: 7345,
+      }));
+      expect(queries.investment_holdings.update).toHaveBeenCalledWith(expect.objectContaining({
+        current_price: 13,
+        current_value: 1300,
+      }));
+      expect(queries.crypto_holdings.update).toHaveBeenCalledWith(expect.objectContaining({
+        current_price: 100000,
+        current_value: 50000,
+      }));
+      expect(queries.investment_prices.upsert).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ symbol: 'AAPL', price: 734.5, currency: 'AED', source: 'fixture' }),
+          expect.objectContaining({ symbol: 'BTC', price: 100000, currency: 'USD' }),
+        ]),
+        { onConflict: 'symbol,currency,price_date' }
+      );
+      expect(queries.investment_snapshots.upsert).toHaveBeenCalledWith(
+        expect.any(Object),
+        { onConflict: 'user_id,snapshot_date' }
+      );
+    });
+
+    it('should skip exchange rates and the snapshot when nothing was quoted', async () => {
+      mockTables({
+        investment_holdings: [{ id: 'h-1', symbol: 'PRIVATE', investment_type: 'stock', quantity: 5, currency: 'USD' }],
+        crypto_holdings: [],
+      });
+
+      const result = await updatePrices();
+
+      expect(result).toMatchObject({ updated: 0, missing: ['PRIVATE'], snapshot_created: false });
+      expect(getRates).not.toHaveBeenCalled();
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('investment_prices');
+    });
+  });
+
+  describe('saveTargetAllocation', () => {
+    it('should reject targets that do not add up to 100%', async () => {
+      await expect(
+        saveTargetAllocation({ target_type: 'type', allocations: { stock: 60, bond: 30 } })
+      ).rejects.toThrow('Target allocations must add up to 100%');
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should update the active target in place and drop zero targets', async () => {
+      const existing = createMockQuery({ id: 'target-1', target_type: 'type' });
+      const saved = createMockQuery({ id: 'target-1', target_type: 'holding' });
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(existing).mockReturnValueOnce(saved);
+      existing.maybeSingle = jest.fn(() => Promise.resolve({ data: { id: 'target-1' }, error: null }));
+
+      await saveTargetAllocation({
+        target_type: 'holding',
+        allocations: { voo: 80, bnd: 20, btc: 0 },
+        drift_threshold: 3,
+      });
+
+      expect(saved.update).toHaveBeenCalledWith({
+        name: 'My Target',
+        target_type: 'holding',
+        allocations: { VOO: 80, BND: 20 },
+        drift_threshold: 3,
+      });
+      expect(saved.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('calculateRebalancePlan', () => {
+    const target = (overrides: Partial<TargetAllocation> = {}): TargetAllocation => ({
+      id: 'target-1',
+      user_id: 'user-123',
+      name: 'My Target',
+      target_type: 'type',
+      allocations: { stock: 60, bond: 40 },
+      drift_threshold: 5,
+      is_active: true,
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+      ...overrides,
+    });
+
+    const holdings = [
+      { symbol: 'VOO', name: 'Vanguard S&P 500', investment_type: 'etf' as const, quantity: 10, current_value: 5000 },
+      { symbol: 'AAPL', name: 'Apple', investment_type: 'stock' as const, quantity: 10, current_value: 2000 },
+      { symbol: 'BND', name: 'Total Bond', investment_type: 'bond' as const, quantity: 30, current_value: 3000 },
+    ];
+
+    it('should sell overweight and buy underweight asset classes past the threshold', () => {
+      const plan = calculateRebalancePlan(holdings, target({ allocations: { stock: 20, etf: 40, bond: 40 } }));
+
+      expect(plan.total_value).toBe(10000);
+      expect(plan.max_drift).toBe(10);
+      expect(plan.needs_rebalance).toBe(true);
+      expect(plan.recommendations.map((r) => [r.symbol, r.action, r.amount])).toEqual([
+        ['etf', 'sell', 1000],
+        ['bond', 'buy', 1000],
+        ['stock', 'hold', 0],
+      ]);
+      expect(plan.estimated_trades).toBe(2);
+    });
+
+    it('should hold when every key is within the drift threshold', () => {
+      const plan = calculateRebalancePlan(
+        holdings,
+        target({ allocations: { stock: 22, etf: 48, bond: 30 }, drift_threshold: 5 })
+      );
+
+      expect(plan.needs_rebalance).toBe(false);
+      expect(plan.recommendations.every((r) => r.action === 'hold')).toBe(true);
+    });
+
+    it('should only buy with new money in contributions-only mode', () => {
+      const plan = calculateRebalancePlan(
+        holdings,
+        target({ allocations: { stock: 20, etf: 40, bond: 40 } }),
+        { mode: 'contributions_only', contribution: 1000 }
+      );
+
+      // Shortfalls of 200 (stock) and 1400 (bond) share the 1000 proportionally
+      const buys = Object.fromEntries(plan.recommendations.map((r) => [r.symbol, [r.action, r.amount]]));
+      expect(buys).toEqual({ bond: ['buy', 875], etf: ['hold', 0], stock: ['buy', 125] });
+    });
+
+    it('should spread leftover contributions by target weight', () => {
+      const plan = calculateRebalancePlan(
+        holdings,
+        target({ allocations: { stock: 20, etf: 50, bond: 30 } }),
+        { mode: 'contributions_only', contribution: 1000 }
+      );
+
+      const buys = Object.fromEntries(plan.recommendations.map((r) => [r.symbol, r.amount]));
+      expect(buys).toEqual({ stock: 200, etf: 500, bond: 300 });
+    });
+
+    it('should compute shares for holding-level targets and sell untargeted holdings', () => {
+      const plan = calculateRebalancePlan(
+        holdings,
+        target({ target_type: 'holding', allocations: { VOO: 70, BND: 30 } }),
+        { trade_fee: 4.95 }
+      );
+
+      expect(plan.recommendations.find((r) => r.symbol === 'AAPL')).toMatchObject({
+        action: 'sell',
+        amount: 2000,
+        shares: 10,
+        target_allocation: 0,
+      });
+      expect(plan.recommendations.find((r) => r.symbol === 'VOO')).toMatchObject({
+        action: 'buy',
+        amount: 2000,
+        shares: 4,
+      });
+      expect(plan.estimated_cost).toBe(9.9);
+    });
+  });
+
   describe('formatCurrency', () => {
     it('should format currency correctly', () => {
       expect(formatCurrency(1234.56)).toBe('$1,234.56');
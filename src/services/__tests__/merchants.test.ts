@@ -0,0 +1,245 @@
+/**
+ * Merchants Service Tests
+ * Descriptor normalization, canonical merchant resolution and merging
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isDevMode } from '@/utils/devMode';
+import { cleanMerchantName } from '@/config/merchants';
+import {
+  createMerchantResolver,
+  getMerchants,
+  getMerchantSummaries,
+  mergeMerchants,
+  resolveMerchant,
+  invalidateMerchantResolver,
+} from '../merchants';
+import type { Merchant, Transaction } from '@/types';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+jest.mock('../supabase', () => ({
+  supabase: { from: jest.fn(), auth: { getUser: jest.fn() } },
+}));
+
+jest.mock('@/utils/devMode', () => ({
+  isDevMode: jest.fn(),
+}));
+
+jest.mock('@/stores/authStore', () => ({
+  useAuthStore: { getState: () => ({ user: { id: 'dev-user-1' } }) },
+}));
+
+jest.mock('@/stores/settingsStore', () => ({
+  useSettingsStore: { getState: () => ({ currency: 'AED' }) },
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    storage: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+    transaction: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  },
+}));
+
+const merchant = (key: string, overrides: Partial<Merchant> = {}): Merchant => ({
+  id: `merchant-${key}`,
+  user_id: 'dev-user-1',
+  key,
+  name: key,
+  aliases: [],
+  icon: null,
+  logo_url: null,
+  website: null,
+  default_category_id: null,
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const transaction = (id: string, merchant_name: string, merchant_name_clean: string | null = null): Transaction => ({
+  id,
+  user_id: 'dev-user-1',
+  amount: -20,
+  currency: 'AED',
+  merchant_name,
+  merchant_name_clean,
+  category_id: null,
+  transaction_date: '2026-10-01',
+  transaction_time: null,
+  source: 'email',
+  card_last_four: null,
+  bank_name: null,
+  receipt_image_url: null,
+  notes: null,
+  transaction_type: 'purchase',
+  is_recurring: false,
+  is_reviewed: false,
+  is_deleted: false,
+  deleted_at: null,
+  metadata: {},
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+});
+
+describe('Merchants Service', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    storage = {};
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => storage[key] ?? null);
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      storage[key] = value;
+    });
+    (isDevMode as jest.Mock).mockReturnValue(true);
+    invalidateMerchantResolver();
+  });
+
+  describe('cleanMerchantName', () => {
+    it('should strip processor prefixes, reference codes and store numbers', () => {
+      expect(cleanMerchantName('AMZN Mktp US*2K3')).toBe('amzn mktp');
+      expect(cleanMerchantName('SQ *BLUE BOTTLE #123')).toBe('blue bottle');
+      expect(cleanMerchantName('POS PURCHASE CARREFOUR STORE 512')).toBe('carrefour');
+      expect(cleanMerchantName('NETFLIX.COM 866-579-7172')).toBe('netflix');
+    });
+
+    it('should strip trailing locations and legal suffixes', () => {
+      expect(cleanMerchantName('Blue Bottle Coffee LLC Dubai UAE')).toBe('blue bottle coffee');
+      expect(cleanMerchantName('DUBAI')).toBe('dubai');
+      expect(cleanMerchantName('')).toBe('');
+    });
+  });
+
+  describe('createMerchantResolver', () => {
+    it('should map descriptor variants to one directory merchant', () => {
+      const resolve = createMerchantResolver();
+      const keys = ['AMZN Mktp US*2K3', 'Amazon.com', 'AMAZON'].map((name) => resolve(name).key);
+
+      expect(keys).toEqual(['amazon', 'amazon', 'amazon']);
+      expect(resolve('AMAZON')).toMatchObject({
+        name: 'Amazon',
+        website: 'https://www.amazon.com',
+        default_category_id: 'shopping',
+      });
+    });
+
+    it('should name merchants missing from the directory after the cleaned descriptor', () => {
+      expect(createMerchantResolver()('SQ *BLUE BOTTLE #123')).toMatchObject({ key: 'blue bottle', name: 'Blue Bottle', icon: null });
+    });
+
+    it('should leave banks and cafes whose names start with a short merchant name alone', () => {
+      const resolve = createMerchantResolver();
+
+      expect(resolve('EMIRATES NBD ATM WDL 0042').key).toBe('emirates nbd atm wdl');
+      expect(resolve('EMIRATES ISLAMIC BANK DUBAI').key).toBe('emirates islamic bank');
+      expect(resolve('DU JOUR CAFE').key).toBe('du jour cafe');
+      expect(['EMIRATES.COM', 'EMIRATES AIRLINE 1762345', 'EMIRATES DUBAI'].map((name) => resolve(name).key)).toEqual([
+        'emirates',
+        'emirates',
+        'emirates',
+      ]);
+      expect(['DU PREPAID RECHARGE', 'DU', 'EMIRATES INTEGRATED TELECOM'].map((name) => resolve(name).key)).toEqual([
+        'du',
+        'du',
+        'du',
+      ]);
+    });
+
+    it("should prefer the user's merchants and their aliases", () => {
+      const resolve = createMerchantResolver([
+        merchant('amazon', { name: 'Amazon', aliases: ['noon'], default_category_id: 'gifts' }),
+        merchant('blue bottle', { name: 'Blue Bottle Coffee', logo_url: 'https://example.com/bb.png' }),
+      ]);
+
+      expect(resolve('NOON.COM').key).toBe('amazon');
+      expect(resolve('AMZN Mktp US*9').default_category_id).toBe('gifts');
+      // Directory fields still fill in what the user's record leaves empty
+      expect(resolve('Amazon.com').website).toBe('https://www.amazon.com');
+      expect(resolve('SQ *BLUE BOTTLE #1')).toMatchObject({ name: 'Blue Bottle Coffee', logo_url: 'https://example.com/bb.png' });
+    });
+  });
+
+  describe('merging', () => {
+    beforeEach(() => {
+      storage['@dev_transactions'] = JSON.stringify([
+        transaction('txn-1', 'AMZN Mktp US*2K3', 'amazon'),
+        transaction('txn-2', 'Amazon.com', 'amazon'),
+        transaction('txn-3', 'NOON.COM', 'noon'),
+        transaction('txn-4', 'noon minutes', 'noon'),
+        transaction('txn-5', 'Careem Ride', 'careem'),
+      ]);
+    });
+
+    it('should list merchants by how often they appear', async () => {
+      const summaries = await getMerchantSummaries();
+
+      expect(summaries.map((s) => [s.merchant.key, s.transactionCount])).toEqual([
+        ['amazon', 2],
+        ['noon', 2],
+        ['careem', 1],
+      ]);
+      expect(summaries[0].variants).toEqual(['AMZN Mktp US*2K3', 'Amazon.com']);
+    });
+
+    it('should merge merchants and backfill their transactions', async () => {
+      const updated = await mergeMerchants('amazon', ['noon']);
+
+      expect(updated).toBe(2);
+      const stored: Transaction[] = JSON.parse(storage['@dev_transactions']);
+      expect(stored.map((t) => t.merchant_name_clean)).toEqual(['amazon', 'amazon', 'amazon', 'amazon', 'careem']);
+
+      const [saved] = await getMerchants();
+      expect(saved).toMatchObject({ key: 'amazon', name: 'Amazon', aliases: ['noon'] });
+      expect((await resolveMerchant('noon minutes')).name).toBe('Amazon');
+    });
+
+    it('should fold a merged merchant and its aliases into the new target', async () => {
+      await mergeMerchants('amazon', ['noon']);
+      await mergeMerchants('careem', ['amazon']);
+
+      const merchants = await getMerchants();
+      expect(merchants).toHaveLength(1);
+      expect(merchants[0]).toMatchObject({ key: 'careem', aliases: ['amazon', 'noon'] });
+      expect((await resolveMerchant('NOON.COM')).key).toBe('careem');
+    });
+
+    it('should backfill transactions stored under keys the merged merchant absorbed', async () => {
+      await mergeMerchants('amazon', ['noon']);
+      const updated = await mergeMerchants('careem', ['amazon']);
+
+      expect(updated).toBe(4);
+      const stored: Transaction[] = JSON.parse(storage['@dev_transactions']);
+      expect(stored.every((t) => t.merchant_name_clean === 'careem')).toBe(true);
+    });
+
+    it('should backfill transactions without a key or under an old-style key', async () => {
+      const stored: Transaction[] = JSON.parse(storage['@dev_transactions']);
+      storage['@dev_transactions'] = JSON.stringify([
+        ...stored,
+        transaction('txn-6', 'NOON MINUTES DUBAI', null),
+        transaction('txn-7', 'noon.com', 'noon com'),
+      ]);
+
+      const updated = await mergeMerchants('amazon', ['noon']);
+
+      expect(updated).toBe(4);
+      const backfilled: Transaction[] = JSON.parse(storage['@dev_transactions']);
+      expect(backfilled.filter((t) => t.merchant_name_clean === 'amazon').map((t) => t.id)).toEqual([
+        'txn-1',
+        'txn-2',
+        'txn-3',
+        'txn-4',
+        'txn-6',
+        'txn-7',
+      ]);
+    });
+
+    it('should ignore merging a merchant into itself', async () => {
+      expect(await mergeMerchants('amazon', ['amazon'])).toBe(0);
+      expect(await getMerchants()).toEqual([]);
+    });
+  });
+});
@@ -16,6 +16,7 @@ import {
   calculateNetWorth,
   createNetWorthSnapshot,
   getNetWorthHistory,
+  linkLiabilityToDebt,
 } from '../netWorth';
 import { supabase } from '../supabase';
 
@@ -426,4 +427,26 @@ describe('Net Worth Service', () => {
       expect(result.year_change_percentage).toBe(50);
     });
   });
+
+  describe('linkLiabilityToDebt', () => {
+    it('should link the liability and adopt the debt balance', async () => {
+      const debtQuery = createMockQuery({ current_balance: 2560 });
+      const liabilityQuery = createMockQuery({ id: 'liability-1', linked_debt_id: 'debt-1', current_balance: 2560 });
+      (mockSupabase.from as jest.Mock).mockImplementation((table: string) =>
+        table === 'debts' ? debtQuery : liabilityQuery
+      );
+
+      const result = await linkLiabilityToDebt('liability-1', 'debt-1');
+
+      expect(debtQuery.eq).toHaveBeenCalledWith('id', 'debt-1');
+      expect(liabilityQuery.update).toHaveBeenCalledWith({ linked_debt_id: 'debt-1', current_balance: 2560 });
+      expect(result.current_balance).toBe(2560);
+    });
+
+    it('should fail when the debt cannot be loaded', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValue(createMockQuery(null, { message: 'not found' }));
+
+      await expect(linkLiabilityToDebt('liability-1', 'missing')).rejects.toThrow('Failed to fetch debt: not found');
+    });
+  });
 });
@@ -0,0 +1,126 @@
+/**
+ * Market Quote Provider Tests
+ */
+
+import {
+  getStockQuotes,
+  getCryptoQuotes,
+  setQuoteProviders,
+  resetQuoteProviders,
+  getQuoteProviders,
+  clearQuoteCache,
+  createFixtureQuoteProvider,
+  fixtureQuoteProvider,
+  yahooFinanceProvider,
+  coinGeckoProvider,
+  QUOTE_CACHE_DURATION,
+  type QuoteProvider,
+} from '../quoteProvider';
+import { isDevMode } from '@/utils/devMode';
+
+jest.mock('@/utils/devMode', () => ({
+  isDevMode: jest.fn(),
+}));
+
+const failingProvider = (id: string): QuoteProvider => ({
+  id,
+  fetchStockQuotes: jest.fn().mockRejectedValue(new Error('offline')),
+  fetchCryptoQuotes: jest.fn().mockRejectedValue(new Error('offline')),
+});
+
+describe('Market Quote Provider', () => {
+  beforeEach(() => {
+    (isDevMode as jest.Mock).mockReturnValue(false);
+    resetQuoteProviders();
+  });
+
+  describe('getQuoteProviders', () => {
+    it('should use live backends for signed-in users and the fixture in dev mode', () => {
+      expect(getQuoteProviders().map((p) => p.id)).toEqual([yahooFinanceProvider.id, coinGeckoProvider.id]);
+
+      (isDevMode as jest.Mock).mockReturnValue(true);
+      expect(getQuoteProviders()).toEqual([fixtureQuoteProvider]);
+    });
+  });
+
+  describe('getStockQuotes', () => {
+    it('should fall through the chain for symbols a provider cannot quote', async () => {
+      setQuoteProviders([
+        failingProvider('down'),
+        createFixtureQuoteProvider({ AAPL: { name: 'Apple', price: 200, currency: 'USD' } }, {}, 'primary'),
+        createFixtureQuoteProvider({ EMAAR: { name: 'Emaar', price: 13, currency: 'AED' } }, {}, 'backup'),
+      ]);
+
+      const batch = await getStockQuotes(['aapl', 'EMAAR', 'NOPE', 'AAPL']);
+
+      expect(batch.quotes.AAPL).toMatchObject({ price: 200, currency: 'USD' });
+      expect(batch.quotes.EMAAR).toMatchObject({ price: 13, currency: 'AED' });
+      expect(batch.sources).toEqual({ AAPL: 'primary', EMAAR: 'backup' });
+      expect(batch.missing).toEqual(['NOPE']);
+    });
+
+    it('should batch large symbol lists', async () => {
+      const symbols = Array.from({ length: 120 }, (_, i) => `SYM${i}`);
+      const provider = createFixtureQuoteProvider(
+        Object.fromEntries(symbols.map((s) => [s, { name: s, price: 1, currency: 'USD' }])),
+        {}
+      );
+      const spy = jest.spyOn(provider, 'fetchStockQuotes');
+      setQuoteProviders([provider]);
+
+      const batch = await getStockQuotes(symbols);
+
+      expect(spy).toHaveBeenCalledTimes(3);
+      expect(Object.keys(batch.quotes)).toHaveLength(120);
+    });
+
+    it('should serve cached quotes until they expire', async () => {
+      const provider = createFixtureQuoteProvider();
+      const spy = jest.spyOn(provider, 'fetchStockQuotes');
+      setQuoteProviders([provider]);
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+      await getStockQuotes(['AAPL']);
+      await getStockQuotes(['AAPL']);
+      expect(spy).toHaveBeenCalledTimes(1);
+
+      await getStockQuotes(['AAPL'], { forceRefresh: true });
+      expect(spy).toHaveBeenCalledTimes(2);
+
+      now.mockReturnValue(1_000_000 + QUOTE_CACHE_DURATION + 1);
+      await getStockQuotes(['AAPL']);
+      expect(spy).toHaveBeenCalledTimes(3);
+
+      clearQuoteCache();
+      now.mockRestore();
+    });
+  });
+
+  describe('getCryptoQuotes', () => {
+    it('should quote crypto in USD from the fixture table', async () => {
+      setQuoteProviders([fixtureQuoteProvider]);
+
+      const batch = await getCryptoQuotes(['btc', 'eth', 'DOGE']);
+
+      expect(batch.quotes.BTC).toMatchObject({ price: 102150, currency: 'USD' });
+      expect(batch.quotes.ETH.price).toBe(3290);
+      expect(batch.missing).toEqual(['DOGE']);
+    });
+
+    it('should keep the largest coin when several share a ticker', async () => {
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: async () => [
+          { symbol: 'eth', name: 'Ethereum', current_price: 3300, market_cap: 400e9 },
+          { symbol: 'eth', name: 'Ethereum Wormhole', current_price: 3100, market_cap: 1e6 },
+        ],
+      } as Response);
+      setQuoteProviders([coinGeckoProvider]);
+
+      const batch = await getCryptoQuotes(['ETH']);
+
+      expect(batch.quotes.ETH).toMatchObject({ name: 'Ethereum', price: 3300 });
+      fetchMock.mockRestore();
+    });
+  });
+});
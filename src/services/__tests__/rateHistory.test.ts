@@ -0,0 +1,210 @@
+/**
+ * Exchange Rate History Tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getRatesForDate,
+  recordRates,
+  getRateHistory,
+  clearRateHistory,
+  buildFxSnapshot,
+  convertAtTransactionRate,
+  backfillTransactionRates,
+} from '../rateHistory';
+import { getTransactions, updateTransaction } from '../transactions';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+jest.mock('../transactions', () => ({
+  getTransactions: jest.fn(),
+  updateTransaction: jest.fn(),
+}));
+
+const mockFetch = global.fetch as jest.Mock;
+
+const respondWith = (rates: Record<string, number>) =>
+  mockFetch.mockResolvedValue({ ok: true, json: async () => ({ base: 'USD', rates }) });
+
+const makeTransaction = (overrides: Record<string, unknown> = {}) => ({
+  id: 'tx-1',
+  amount: 100,
+  currency: 'EUR',
+  transaction_date: '2024-03-10',
+  metadata: {},
+  ...overrides,
+});
+
+describe('Exchange Rate History', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(async () => {
+    storage = {};
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => storage[key] ?? null);
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      storage[key] = value;
+    });
+    (AsyncStorage.removeItem as jest.Mock).mockImplementation(async (key: string) => {
+      delete storage[key];
+    });
+    await clearRateHistory();
+  });
+
+  describe('getRatesForDate', () => {
+    it('should use stored rates without hitting the network', async () => {
+      await recordRates('2024-03-10', { EUR: 0.9, AED: 3.6725 });
+
+      const result = await getRatesForDate('2024-03-10', ['EUR']);
+
+      expect(result).toMatchObject({ date: '2024-03-10', source: 'historical' });
+      expect(result.rates.EUR).toBe(0.9);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch past dates, add USD pegs and store them', async () => {
+      respondWith({ EUR: 0.92, GBP: 0.79 });
+
+      const result = await getRatesForDate('2024-02-01', ['EUR', 'AED']);
+
+      expect(mockFetch.mock.calls[0][0]).toContain('/2024-02-01?from=USD');
+      expect(result.rates).toMatchObject({ EUR: 0.92, AED: 3.6725, USD: 1 });
+      expect(result.source).toBe('historical');
+      expect((await getRateHistory()).map((entry) => entry.date)).toEqual(['2024-02-01']);
+    });
+
+    it('should fall back to the nearest stored day when offline', async () => {
+      mockFetch.mockRejectedValue(new Error('Network request failed'));
+      await recordRates('2024-01-01', { EUR: 0.91 });
+      await recordRates('2024-03-01', { EUR: 0.93 });
+      await recordRates('2024-03-20', { EUR: 0.95 });
+
+      const result = await getRatesForDate('2024-03-10', ['EUR']);
+
+      expect(result).toMatchObject({ date: '2024-03-01', source: 'stored' });
+      expect(result.rates.EUR).toBe(0.93);
+    });
+
+    it('should use built-in rates when nothing is stored', async () => {
+      mockFetch.mockRejectedValue(new Error('Network request failed'));
+
+      const result = await getRatesForDate('2024-03-10', ['EUR']);
+
+      expect(result.source).toBe('fallback');
+      expect(result.rates.EUR).toBeGreaterThan(0);
+      expect(await getRateHistory()).toEqual([]);
+    });
+  });
+
+  describe('buildFxSnapshot', () => {
+    it('should keep only the transaction and base currency rates', async () => {
+      await recordRates('2024-03-10', { EUR: 0.9, AED: 3.6725, GBP: 0.78 });
+
+      expect(await buildFxSnapshot('EUR', '2024-03-10', 'AED')).toEqual({
+        date: '2024-03-10',
+        base: 'USD',
+        rates: { EUR: 0.9, AED: 3.6725 },
+        source: 'historical',
+      });
+    });
+
+    it('should build a cached-only snapshot from the nearest stored day without the network', async () => {
+      await recordRates('2024-03-01', { EUR: 0.93, AED: 3.6725 });
+
+      expect(await buildFxSnapshot('EUR', '2024-03-10', 'AED', { cachedOnly: true })).toMatchObject({
+        date: '2024-03-01',
+        rates: { EUR: 0.93, AED: 3.6725 },
+        source: 'stored',
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should not snapshot built-in fallback rates', async () => {
+      mockFetch.mockRejectedValue(new Error('Network request failed'));
+      expect(await buildFxSnapshot('EUR', '2024-03-10', 'AED')).toBeNull();
+    });
+  });
+
+  describe('convertAtTransactionRate', () => {
+    it('should convert at the rate recorded on the transaction', async () => {
+      // Today's history says otherwise, but the recorded rate wins
+      await recordRates('2024-03-10', { EUR: 0.5, AED: 3.6725 });
+      const transaction = makeTransaction({
+        metadata: { fx: { date: '2024-03-10', base: 'USD', rates: { EUR: 0.9, AED: 3.6725 }, source: 'historical' } },
+      });
+
+      expect(await convertAtTransactionRate(90, transaction, 'AED')).toBe(367.25);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should use the history for the transaction date when no rate is recorded', async () => {
+      await recordRates('2024-03-10', { EUR: 0.8, GBP: 0.75 });
+
+      expect(await convertAtTransactionRate(80, makeTransaction(), 'GBP')).toBe(75);
+    });
+
+    it('should leave amounts in the same currency untouched', async () => {
+      expect(await convertAtTransactionRate(12.345, makeTransaction(), 'EUR')).toBe(12.345);
+    });
+  });
+
+  describe('backfillTransactionRates', () => {
+    it('should record rates on transactions that are missing them', async () => {
+      await recordRates('2024-03-10', { EUR: 0.9, AED: 3.6725 });
+      const existing = { date: '2024-03-01', base: 'USD', rates: { EUR: 0.93 }, source: 'historical' };
+      (getTransactions as jest.Mock).mockResolvedValue({
+        data: [
+          makeTransaction({ id: 'missing', metadata: { tag: 'x' } }),
+          makeTransaction({ id: 'done', metadata: { fx: existing } }),
+        ],
+        hasMore: false,
+      });
+      const onProgress = jest.fn();
+
+      const result = await backfillTransactionRates({ baseCurrency: 'AED', onProgress });
+
+      expect(result).toEqual({ updated: 1, skipped: 0, failed: 0 });
+      expect(updateTransaction).toHaveBeenCalledTimes(1);
+      expect(updateTransaction).toHaveBeenCalledWith('missing', {
+        metadata: {
+          tag: 'x',
+          fx: { date: '2024-03-10', base: 'USD', rates: { EUR: 0.9, AED: 3.6725 }, source: 'historical' },
+        },
+      });
+      expect(onProgress).toHaveBeenLastCalledWith(1, 1);
+    });
+
+    it('should replace provisional snapshots once the date has its own rates', async () => {
+      const provisional = { date: '2023-11-20', base: 'USD', rates: { EUR: 0.95, AED: 3.6725 }, source: 'stored' };
+      (getTransactions as jest.Mock).mockResolvedValue({
+        data: [makeTransaction({ id: 'provisional', metadata: { fx: provisional } })],
+        hasMore: false,
+      });
+
+      mockFetch.mockRejectedValue(new Error('Network request failed'));
+      await recordRates('2023-11-20', { EUR: 0.95, AED: 3.6725 });
+      expect(await backfillTransactionRates({ baseCurrency: 'AED' })).toEqual({ updated: 0, skipped: 1, failed: 0 });
+
+      // Back online (clearing the history also resets the retry backoff)
+      await clearRateHistory();
+      respondWith({ EUR: 0.9, AED: 3.6725 });
+      expect(await backfillTransactionRates({ baseCurrency: 'AED' })).toEqual({ updated: 1, skipped: 0, failed: 0 });
+      expect(updateTransaction).toHaveBeenCalledWith('provisional', {
+        metadata: { fx: { date: '2024-03-10', base: 'USD', rates: { EUR: 0.9, AED: 3.6725 }, source: 'historical' } },
+      });
+    });
+
+    it('should skip transactions with no real rates available', async () => {
+      mockFetch.mockRejectedValue(new Error('Network request failed'));
+      (getTransactions as jest.Mock).mockResolvedValue({ data: [makeTransaction()], hasMore: false });
+
+      const result = await backfillTransactionRates({ baseCurrency: 'AED' });
+
+      expect(result).toEqual({ updated: 0, skipped: 1, failed: 0 });
+      expect(updateTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
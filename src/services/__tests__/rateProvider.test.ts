@@ -0,0 +1,172 @@
+/**
+ * Exchange Rate Provider Tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getRates,
+  getHistoricalRates,
+  setRateProviders,
+  resetRateProviders,
+  clearRatesCache,
+  createFixtureProvider,
+  fixtureRateProvider,
+  exchangeRateApiProvider,
+  frankfurterProvider,
+  getFixtureRates,
+  isSnapshotStale,
+  rebaseRates,
+  RATES_CACHE_DURATION,
+  type RateProvider,
+} from '../rateProvider';
+import { fetchExchangeRates, convertCurrency as convertSync } from '../exchangeRates';
+import { convertCurrency as convertAsync } from '../currencyConverter';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+const failingProvider = (id: string): RateProvider => ({
+  id,
+  fetchLatestRates: jest.fn().mockRejectedValue(new Error('offline')),
+});
+
+describe('Exchange Rate Provider', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(async () => {
+    storage = {};
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => storage[key] ?? null);
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      storage[key] = value;
+    });
+    (AsyncStorage.removeItem as jest.Mock).mockImplementation(async (key: string) => {
+      delete storage[key];
+    });
+    resetRateProviders();
+    await clearRatesCache();
+  });
+
+  describe('rebaseRates', () => {
+    it('should express rates against another currency', () => {
+      const rebased = rebaseRates({ USD: 1, EUR: 0.8, AED: 3.6 }, 'USD', 'EUR');
+      expect(rebased).toEqual({ USD: 1.25, EUR: 1, AED: 4.5 });
+    });
+  });
+
+  describe('getRates', () => {
+    it('should try providers in order and cache the first answer', async () => {
+      setRateProviders([failingProvider('down'), createFixtureProvider({ USD: 1, EUR: 0.5 }, 'backup')]);
+
+      const snapshot = await getRates('USD');
+
+      expect(snapshot).toMatchObject({ provider: 'backup', isFallback: false, rates: { EUR: 0.5 } });
+      expect(JSON.parse(storage.spendtrak_exchange_rates)).toMatchObject({ provider: 'backup', baseCurrency: 'USD' });
+    });
+
+    it('should serve persisted rates without calling providers', async () => {
+      const provider = createFixtureProvider({ USD: 1, EUR: 0.5 }, 'backup');
+      const spy = jest.spyOn(provider, 'fetchLatestRates');
+      setRateProviders([provider]);
+      storage.spendtrak_exchange_rates = JSON.stringify({
+        rates: { USD: 1, EUR: 0.7 },
+        baseCurrency: 'USD',
+        timestamp: Date.now(),
+        provider: 'backup',
+      });
+
+      expect((await getRates('USD')).rates.EUR).toBe(0.7);
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should ignore rates cached by a provider outside the chain', async () => {
+      setRateProviders([fixtureRateProvider]);
+      storage.spendtrak_exchange_rates = JSON.stringify({
+        rates: { USD: 1, EUR: 0.7 },
+        baseCurrency: 'USD',
+        timestamp: Date.now(),
+        provider: 'exchangerate-api',
+      });
+
+      expect((await getRates('USD')).rates.EUR).toBe(getFixtureRates().EUR);
+    });
+
+    it('should prefer stale cached rates over fixtures when offline', async () => {
+      setRateProviders([failingProvider('down')]);
+      const fetchedAt = Date.now() - RATES_CACHE_DURATION - 1000;
+      storage.spendtrak_exchange_rates = JSON.stringify({
+        rates: { USD: 1, EUR: 0.7 },
+        baseCurrency: 'USD',
+        timestamp: fetchedAt,
+        provider: 'down',
+      });
+
+      const snapshot = await getRates('USD');
+
+      expect(snapshot).toMatchObject({ provider: 'down', fetchedAt, isFallback: false });
+      expect(isSnapshotStale(snapshot)).toBe(true);
+    });
+
+    it('should fall back to fixture rates when nothing else is available', async () => {
+      setRateProviders([failingProvider('down')]);
+
+      const snapshot = await getRates('AED');
+
+      expect(snapshot.isFallback).toBe(true);
+      expect(isSnapshotStale(snapshot)).toBe(true);
+      expect(snapshot.rates.AED).toBe(1);
+      expect(snapshot.rates.USD).toBeCloseTo(1 / 3.6725, 6);
+    });
+  });
+
+  describe('getHistoricalRates', () => {
+    it('should skip providers without history', async () => {
+      setRateProviders([failingProvider('latest-only'), fixtureRateProvider]);
+
+      const result = await getHistoricalRates('2020-01-01');
+
+      expect(result.provider).toBe('fixture');
+      expect(result.rates).toEqual(getFixtureRates());
+    });
+
+    it('should throw when no provider has the date', async () => {
+      setRateProviders([failingProvider('latest-only')]);
+      await expect(getHistoricalRates('2020-01-01')).rejects.toThrow('No exchange rates available');
+    });
+  });
+
+  describe('built-in providers', () => {
+    const respondWith = (body: unknown) =>
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => body });
+
+    it('should read the rate table and add Gulf pegs to Frankfurter rates', async () => {
+      respondWith({ base: 'USD', rates: { EUR: 0.92 } });
+
+      expect(await exchangeRateApiProvider.fetchLatestRates('USD')).toEqual({ EUR: 0.92 });
+      expect(await frankfurterProvider.fetchLatestRates('USD')).toMatchObject({ EUR: 0.92, USD: 1, AED: 3.6725 });
+    });
+
+    it('should reject responses whose shape changed instead of returning NaN rates', async () => {
+      respondWith({ base: 'USD', conversion_rates: { EUR: 0.92 } });
+      await expect(exchangeRateApiProvider.fetchLatestRates('USD')).rejects.toThrow('Invalid exchange rate response');
+
+      respondWith({ base: 'USD', rates: { EUR: '0.92' } });
+      await expect(frankfurterProvider.fetchLatestRates('USD')).rejects.toThrow('Invalid EUR rate');
+    });
+  });
+
+  describe('fixture provider', () => {
+    it('should give the same answer through both conversion services', async () => {
+      setRateProviders([fixtureRateProvider]);
+
+      const rates = await fetchExchangeRates('USD');
+      const sync = convertSync(250, 'EUR', 'AED', rates);
+      const async = await convertAsync(250, 'EUR', 'AED');
+
+      expect(async).toBe(Math.round(sync * 100) / 100);
+      expect(async).toBe(997.96);
+    });
+  });
+});
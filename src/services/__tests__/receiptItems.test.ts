@@ -0,0 +1,255 @@
+/**
+ * Receipt Items Service Tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../supabase';
+import { isDevMode } from '@/utils/devMode';
+import { convertAtTransactionRate } from '../rateHistory';
+import { resolveCategoryId } from '../transactions';
+import {
+  normalizeItemName,
+  matchesItemQuery,
+  buildReceiptLineItems,
+  saveReceiptItems,
+  getReceiptItems,
+  getItemSpending,
+  getItemPriceTrend,
+} from '../receiptItems';
+import type { ReceiptData } from '@/types/receipt';
+import type { ReceiptLineItemInsert } from '@/types';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+jest.mock('expo-crypto', () => ({
+  randomUUID: jest.fn(),
+}));
+
+jest.mock('../supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../transactions', () => ({
+  resolveCategoryId: jest.fn(),
+}));
+
+jest.mock('../rateHistory', () => ({
+  convertAtTransactionRate: jest.fn(),
+}));
+
+jest.mock('@/utils/devMode', () => ({
+  isDevMode: jest.fn(),
+}));
+
+jest.mock('@/stores/authStore', () => ({
+  useAuthStore: { getState: () => ({ user: { id: 'dev-user-1' } }) },
+}));
+
+jest.mock('@/stores/settingsStore', () => ({
+  useSettingsStore: { getState: () => ({ currency: 'AED' }) },
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    storage: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+    receipt: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  },
+}));
+
+const Crypto = require('expo-crypto');
+
+const makeReceipt = (items: ReceiptData['items']): ReceiptData => ({
+  merchant: { name: 'Carrefour' },
+  transaction: { date: '2026-03-01' },
+  items,
+  payment: { subtotal: 0, total: 0 },
+  currency: 'AED',
+  confidence_score: 0.9,
+});
+
+const makeTransaction = (id: string, merchant: string, date: string, currency = 'AED') => ({
+  id,
+  user_id: 'dev-user-1',
+  merchant_name: merchant,
+  transaction_date: date,
+  currency,
+});
+
+describe('Receipt Items Service', () => {
+  let storage: Record<string, string>;
+  let uuid: number;
+
+  beforeEach(() => {
+    storage = {};
+    uuid = 0;
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => storage[key] ?? null);
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      storage[key] = value;
+    });
+    (Crypto.randomUUID as jest.Mock).mockImplementation(() => `item-${++uuid}`);
+    (isDevMode as jest.Mock).mockReturnValue(true);
+  });
+
+  describe('normalizeItemName', () => {
+    it('should drop sizes, pack counts and punctuation', () => {
+      expect(normalizeItemName('MILK FULL FAT 2L')).toBe('milk full fat');
+      expect(normalizeItemName('Milk full-fat 1.5 L x2')).toBe('milk full fat');
+      expect(normalizeItemName('Café Latte 6pk')).toBe('cafe latte');
+    });
+  });
+
+  describe('matchesItemQuery', () => {
+    it('should match whole words and ignore plurals', () => {
+      expect(matchesItemQuery('almarai fresh milk', 'milk')).toBe(true);
+      expect(matchesItemQuery('free range eggs', 'egg')).toBe(true);
+      expect(matchesItemQuery('milkshake', 'milk')).toBe(false);
+      expect(matchesItemQuery('fresh milk', 'oat milk')).toBe(false);
+    });
+  });
+
+  describe('buildReceiptLineItems', () => {
+    it('should map scanner categories to app categories and fill unit prices', () => {
+      const rows = buildReceiptLineItems(
+        makeTransaction('txn-1', 'Carrefour', '2026-03-01'),
+        makeReceipt([
+          { name: 'Milk 2L', quantity: 2, unit_price: 0, total_price: 13, category: 'food' },
+          { name: 'Batteries', quantity: 1, unit_price: 20, total_price: 20 },
+          { name: '  ', quantity: 1, unit_price: 1, total_price: 1 },
+        ]),
+        { fallbackCategoryId: 'shopping' }
+      );
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        transaction_id: 'txn-1',
+        position: 0,
+        normalized_name: 'milk',
+        unit_price: 6.5,
+        category_id: 'food-dining',
+        item_category: 'food',
+        merchant_name: 'Carrefour',
+        purchase_date: '2026-03-01',
+      });
+      expect(rows[1]).toMatchObject({ category_id: 'shopping', item_category: null });
+    });
+  });
+
+  describe('device storage', () => {
+    it('should replace the items of a transaction when saved again', async () => {
+      const transaction = makeTransaction('txn-1', 'Carrefour', '2026-03-01');
+      await saveReceiptItems(transaction, makeReceipt([
+        { name: 'Milk', quantity: 1, unit_price: 6, total_price: 6 },
+        { name: 'Bread', quantity: 1, unit_price: 4, total_price: 4 },
+      ]));
+      await saveReceiptItems(transaction, makeReceipt([
+        { name: 'Eggs', quantity: 1, unit_price: 12, total_price: 12 },
+      ]));
+
+      const items = await getReceiptItems('txn-1');
+      expect(items.map((item) => item.name)).toEqual(['Eggs']);
+      expect(items[0].id).toBe('item-3');
+    });
+  });
+
+  describe('item analytics', () => {
+    beforeEach(async () => {
+      await saveReceiptItems(makeTransaction('txn-1', 'Carrefour', '2026-01-05'), makeReceipt([
+        { name: 'Fresh Milk 1L', quantity: 2, unit_price: 6, total_price: 12 },
+        { name: 'Bread', quantity: 1, unit_price: 4, total_price: 4 },
+      ]));
+      await saveReceiptItems(makeTransaction('txn-2', 'Lulu', '2026-02-10'), makeReceipt([
+        { name: 'MILK FRESH 1L', quantity: 1, unit_price: 5.5, total_price: 5.5 },
+      ]));
+      await saveReceiptItems(makeTransaction('txn-3', 'Carrefour', '2026-03-15', 'USD'), makeReceipt([
+        { name: 'Fresh milk', quantity: 1, unit_price: 2, total_price: 2 },
+      ]));
+      await saveReceiptItems(makeTransaction('txn-old', 'Carrefour', '2025-12-20'), makeReceipt([
+        { name: 'Milk', quantity: 1, unit_price: 5, total_price: 5 },
+      ]));
+      (convertAtTransactionRate as jest.Mock).mockImplementation(async (amount: number) => amount * 3.5);
+    });
+
+    it('should total spending on an item in the user currency', async () => {
+      const summary = await getItemSpending('milk', { startDate: '2026-01-01', endDate: '2026-12-31' });
+
+      expect(summary).toMatchObject({
+        currency: 'AED',
+        totalSpent: 24.5,
+        quantity: 4,
+        purchaseCount: 3,
+        averageUnitPrice: 6.13,
+        firstPurchase: '2026-01-05',
+        lastPurchase: '2026-03-15',
+      });
+      expect(summary.byMerchant).toEqual([
+        expect.objectContaining({ merchant: 'Carrefour', totalSpent: 19, quantity: 3, purchaseCount: 2 }),
+        expect.objectContaining({ merchant: 'Lulu', totalSpent: 5.5, quantity: 1, purchaseCount: 1 }),
+      ]);
+      expect(convertAtTransactionRate).toHaveBeenCalledWith(
+        2,
+        expect.objectContaining({ currency: 'USD', transaction_date: '2026-03-15' }),
+        'AED'
+      );
+    });
+
+    it('should compare unit prices across stores', async () => {
+      const trend = await getItemPriceTrend('milk', { startDate: '2026-01-01' });
+
+      expect(trend.points.map((p) => [p.date, p.merchant, p.unitPrice])).toEqual([
+        ['2026-01-05', 'Carrefour', 6],
+        ['2026-02-10', 'Lulu', 5.5],
+        ['2026-03-15', 'Carrefour', 7],
+      ]);
+      expect(trend.cheapestMerchant).toBe('Lulu');
+      expect(trend.byMerchant[1]).toMatchObject({
+        merchant: 'Carrefour',
+        averageUnitPrice: 6.5,
+        minUnitPrice: 6,
+        maxUnitPrice: 7,
+        latestUnitPrice: 7,
+      });
+      expect(trend.changePercent).toBe(16.67);
+    });
+  });
+
+  describe('cloud storage', () => {
+    it('should resolve category slugs before inserting', async () => {
+      (isDevMode as jest.Mock).mockReturnValue(false);
+      (resolveCategoryId as jest.Mock).mockResolvedValue('cat-uuid-food');
+      interface ReceiptItemsQuery {
+        delete: () => ReceiptItemsQuery;
+        eq: () => Promise<{ error: null }>;
+        insert: (rows: ReceiptLineItemInsert[]) => ReceiptItemsQuery;
+        select: () => Promise<{ data: ReceiptLineItemInsert[]; error: null }>;
+      }
+      const inserted: ReceiptLineItemInsert[] = [];
+      (supabase.from as jest.Mock).mockImplementation(() => {
+        const query: ReceiptItemsQuery = {
+          delete: () => query,
+          eq: () => Promise.resolve({ error: null }),
+          insert: (rows) => {
+            inserted.push(...rows);
+            return query;
+          },
+          select: () => Promise.resolve({ data: inserted, error: null }),
+        };
+        return query;
+      });
+
+      const items = await saveReceiptItems(
+        makeTransaction('txn-1', 'Carrefour', '2026-03-01'),
+        makeReceipt([{ name: 'Milk', quantity: 1, unit_price: 6, total_price: 6, category: 'food' }])
+      );
+
+      expect(resolveCategoryId).toHaveBeenCalledWith('Food & Dining');
+      expect(items[0]).toMatchObject({ category_id: 'cat-uuid-food', normalized_name: 'milk' });
+      expect(supabase.from).toHaveBeenCalledWith('receipt_items');
+    });
+  });
+});
@@ -9,7 +9,12 @@ import {
   getScanUsageStats,
   clearScanCache,
   getEstimatedScanCost,
+  mergeReceiptPages,
+  scanReceiptPages,
 } from '../receiptScanner';
+import * as FileSystem from 'expo-file-system';
+import { supabase } from '../supabase';
+import type { ReceiptData } from '@/types/receipt';
 
 // Mock dependencies
 jest.mock('expo-file-system', () => ({
@@ -28,6 +33,13 @@ jest.mock('@/utils/logger', () => ({
   },
 }));
 
+jest.mock('../supabase', () => ({
+  supabase: {
+    auth: { getSession: jest.fn() },
+    functions: { invoke: jest.fn() },
+  },
+}));
+
 const mockHasPremiumAccess = jest.fn();
 
 jest.mock('@/stores/tierStore', () => ({
@@ -114,4 +126,112 @@ describe('receiptScanner', () => {
       expect(() => clearScanCache()).not.toThrow();
     });
   });
+
+  describe('mergeReceiptPages', () => {
+    const page = (overrides: Partial<ReceiptData>): ReceiptData => ({
+      merchant: { name: '' },
+      transaction: { date: '' },
+      items: [],
+      payment: { subtotal: 0, total: 0 },
+      currency: 'AED',
+      confidence_score: 0.9,
+      ...overrides,
+    });
+
+    it('should drop items repeated where photos overlap', () => {
+      const merged = mergeReceiptPages([
+        page({
+          merchant: { name: 'Carrefour' },
+          transaction: { date: '2026-03-01' },
+          items: [
+            { name: 'Milk', quantity: 1, unit_price: 6, total_price: 6 },
+            { name: 'Bread', quantity: 1, unit_price: 4, total_price: 4 },
+            { name: 'Eggs', quantity: 1, unit_price: 12, total_price: 12 },
+          ],
+        }),
+        page({
+          items: [
+            { name: 'BREAD', quantity: 1, unit_price: 4, total_price: 4 },
+            { name: 'Eggs', quantity: 1, unit_price: 12, total_price: 12 },
+            { name: 'Milk', quantity: 1, unit_price: 6, total_price: 6 },
+          ],
+          payment: { subtotal: 28, tax: 1.4, total: 29.4, card_last_four: '4242' },
+          confidence_score: 0.8,
+        }),
+      ]);
+
+      expect(merged.items.map((item) => item.name)).toEqual(['Milk', 'Bread', 'Eggs', 'Milk']);
+      expect(merged.merchant.name).toBe('Carrefour');
+      expect(merged.transaction.date).toBe('2026-03-01');
+      expect(merged.payment).toMatchObject({ subtotal: 28, tax: 1.4, total: 29.4, card_last_four: '4242' });
+      expect(merged.page_count).toBe(2);
+      expect(merged.reconciliation).toEqual({ items_total: 28, difference: 0, balanced: true, duplicates_removed: 2 });
+      expect(merged.confidence_score).toBe(0.8);
+    });
+
+    it('should fill in missing totals from the items', () => {
+      const merged = mergeReceiptPages([
+        page({ items: [{ name: 'Soap', quantity: 2, unit_price: 5, total_price: 10 }] }),
+        page({ items: [{ name: 'Rice', quantity: 1, unit_price: 20, total_price: 20 }], payment: { subtotal: 0, tax: 1.5, total: 0 } }),
+      ]);
+
+      expect(merged.payment).toMatchObject({ subtotal: 30, total: 31.5 });
+      expect(merged.reconciliation?.balanced).toBe(true);
+    });
+
+    it('should flag and lower confidence when items do not add up', () => {
+      const merged = mergeReceiptPages([
+        page({ items: [{ name: 'Soap', quantity: 1, unit_price: 10, total_price: 10 }] }),
+        page({ items: [], payment: { subtotal: 50, total: 52.5 } }),
+      ]);
+
+      expect(merged.reconciliation).toMatchObject({ items_total: 10, difference: -40, balanced: false });
+      expect(merged.confidence_score).toBe(0.6);
+    });
+  });
+
+  describe('scanReceiptPages', () => {
+    beforeEach(() => {
+      mockHasPremiumAccess.mockReturnValue(true);
+      (FileSystem.readAsStringAsync as jest.Mock).mockImplementation(async (uri: string) => `base64-${uri}`);
+      (supabase.auth.getSession as jest.Mock).mockResolvedValue({ data: { session: { access_token: 'token' } } });
+    });
+
+    it('should scan every page and check the quota once', async () => {
+      (supabase.functions.invoke as jest.Mock).mockImplementation(async (_name: string, { body }: any) => ({
+        data: {
+          success: true,
+          data: {
+            merchant: { name: 'Lulu' },
+            transaction: { date: '2026-03-01' },
+            items: [{ name: `Item ${body.page.index}`, quantity: 1, unit_price: 5, total_price: 5 }],
+            payment: body.page.index === body.page.count ? { subtotal: 10, total: 10 } : { subtotal: 0, total: 0 },
+            currency: 'AED',
+            confidence_score: 0.9,
+          },
+        },
+        error: null,
+      }));
+
+      const result = await scanReceiptPages(['file://page1.jpg', 'file://page2.jpg'], { compressImage: false });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.items).toHaveLength(2);
+      expect(result.data?.payment.total).toBe(10);
+      expect(supabase.functions.invoke).toHaveBeenCalledTimes(2);
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('scan-receipt', {
+        body: expect.objectContaining({ page: { index: 2, count: 2 } }),
+      });
+      expect(mockHasPremiumAccess).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not scan when the quota is exhausted', async () => {
+      mockHasPremiumAccess.mockReturnValue(false);
+
+      const result = await scanReceiptPages(['file://page1.jpg', 'file://page2.jpg'], { compressImage: false });
+
+      expect(result).toMatchObject({ success: false, quotaExceeded: true });
+      expect(supabase.functions.invoke).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,355 @@
+/**
+ * Reconciliation Service Tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  fingerprintTransaction,
+  merchantSimilarity,
+  scoreDuplicate,
+  findDuplicateCandidates,
+  buildMergeUpdate,
+  isSameBankTransaction,
+  findIncomingDuplicates,
+  queueIncomingProposal,
+  scanForDuplicates,
+  scanRecentDuplicates,
+  getReconciliationQueue,
+  resolveProposal,
+} from '../reconciliation';
+import {
+  getTransactions,
+  createTransaction,
+  updateTransaction,
+  deleteTransaction,
+} from '../transactions';
+import type { Transaction } from '@/types';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+let mockUserId = 'user-1';
+jest.mock('@/stores/authStore', () => ({
+  useAuthStore: { getState: () => ({ user: { id: mockUserId } }) },
+}));
+
+jest.mock('../transactions', () => ({
+  getTransactions: jest.fn(),
+  createTransaction: jest.fn(),
+  updateTransaction: jest.fn(),
+  deleteTransaction: jest.fn(),
+}));
+
+const makeTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'tx-1',
+  user_id: 'user-1',
+  amount: 45.5,
+  currency: 'AED',
+  merchant_name: 'Carrefour',
+  merchant_name_clean: null,
+  category_id: null,
+  transaction_date: '2024-03-10',
+  transaction_time: null,
+  source: 'manual',
+  card_last_four: null,
+  bank_name: null,
+  receipt_image_url: null,
+  notes: null,
+  transaction_type: 'purchase',
+  is_recurring: false,
+  is_reviewed: false,
+  is_deleted: false,
+  deleted_at: null,
+  metadata: {},
+  created_at: '2024-03-10T10:00:00Z',
+  updated_at: '2024-03-10T10:00:00Z',
+  ...overrides,
+});
+
+const toIncoming = (tx: Transaction) => {
+  const { id, user_id, created_at, updated_at, ...incoming } = tx;
+  return incoming;
+};
+
+const queueIfDuplicate = async (incoming: ReturnType<typeof toIncoming>) => {
+  const [match] = await findIncomingDuplicates(incoming);
+  return match ? queueIncomingProposal(incoming, match) : null;
+};
+
+describe('Reconciliation Service', () => {
+  let storage: Record<string, string>;
+
+  beforeEach(() => {
+    storage = {};
+    mockUserId = 'user-1';
+    (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => storage[key] ?? null);
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      storage[key] = value;
+    });
+    (AsyncStorage.removeItem as jest.Mock).mockImplementation(async (key: string) => {
+      delete storage[key];
+    });
+  });
+
+  describe('fingerprintTransaction', () => {
+    it('should key merchants by their canonical merchant', () => {
+      const merchantKey = (merchant_name: string) => fingerprintTransaction(makeTransaction({ merchant_name })).merchantKey;
+
+      expect(merchantKey('SQ *BLUE BOTTLE #123')).toBe('blue bottle');
+      expect(merchantKey('Blue Bottle Coffee LLC')).toBe('blue bottle coffee');
+      expect(merchantKey('AMAZON.COM')).toBe('amazon');
+      expect(merchantKey('AMZN Mktp US*2K3')).toBe('amazon');
+    });
+
+    it('should compare amounts by absolute value', () => {
+      const fingerprint = fingerprintTransaction(makeTransaction({ amount: -45.5, currency: 'aed' }));
+      expect(fingerprint).toMatchObject({ amountCents: 4550, currency: 'AED', date: '2024-03-10' });
+    });
+  });
+
+  describe('merchantSimilarity', () => {
+    it('should rate prefixes and shared tokens', () => {
+      expect(merchantSimilarity('carrefour', 'carrefour')).toBe(1);
+      expect(merchantSimilarity('carrefour', 'carrefour city centre')).toBe(0.9);
+      expect(merchantSimilarity('blue bottle', 'bottle blue')).toBe(1);
+      expect(merchantSimilarity('noon', 'amazon')).toBe(0);
+    });
+  });
+
+  describe('scoreDuplicate', () => {
+    it('should score an email and receipt copy of the same purchase', () => {
+      const email = makeTransaction({ amount: -45.5, source: 'email', merchant_name: 'CARREFOUR' });
+      const receipt = makeTransaction({
+        id: 'tx-2',
+        source: 'receipt',
+        merchant_name: 'Carrefour City Centre',
+        transaction_date: '2024-03-11',
+      });
+
+      const result = scoreDuplicate(email, receipt);
+      expect(result).not.toBeNull();
+      expect(result!.score).toBeGreaterThanOrEqual(0.8);
+      expect(result!.reasons).toEqual(['amount_exact', 'date_window', 'merchant_exact']);
+    });
+
+    it('should match similar names of merchants missing from the directory', () => {
+      const email = makeTransaction({ amount: -45.5, source: 'email', merchant_name: 'SQ *BLUE BOTTLE #123' });
+      const receipt = makeTransaction({ id: 'tx-2', source: 'receipt', merchant_name: 'Blue Bottle Coffee LLC' });
+
+      const result = scoreDuplicate(email, receipt);
+      expect(result).not.toBeNull();
+      expect(result!.reasons).toEqual(['amount_exact', 'same_day', 'merchant_similar']);
+    });
+
+    it('should rule out different cards, currencies and distant dates', () => {
+      const base = makeTransaction({ card_last_four: '1234' });
+      expect(scoreDuplicate(base, makeTransaction({ card_last_four: '9999' }))).toBeNull();
+      expect(scoreDuplicate(base, makeTransaction({ currency: 'USD' }))).toBeNull();
+      expect(scoreDuplicate(base, makeTransaction({ transaction_date: '2024-03-20' }))).toBeNull();
+      expect(scoreDuplicate(base, makeTransaction({ amount: 60 }))).toBeNull();
+    });
+
+    it('should require the merchant or card to agree', () => {
+      const a = makeTransaction({ merchant_name: 'Starbucks' });
+      expect(scoreDuplicate(a, makeTransaction({ merchant_name: 'ENOC' }))).toBeNull();
+      expect(
+        scoreDuplicate(
+          makeTransaction({ merchant_name: 'Starbucks', card_last_four: '1234' }),
+          makeTransaction({ merchant_name: 'SBUX DXB', card_last_four: '1234' })
+        )?.reasons
+      ).toContain('card_match');
+    });
+
+    it('should treat matching bank IDs as certain duplicates', () => {
+      const a = makeTransaction({ metadata: { import: { fit_id: 'ABC' } } });
+      const b = makeTransaction({ merchant_name: 'Other', metadata: { import: { fit_id: 'ABC' } } });
+      expect(scoreDuplicate(a, b)).toEqual({ score: 1, reasons: ['same_bank_id'] });
+      expect(isSameBankTransaction(scoreDuplicate(a, b)!)).toBe(true);
+    });
+
+    it('should only trust bank IDs within one account', () => {
+      const a = makeTransaction({ card_last_four: '1111', metadata: { import: { fit_id: 'ABC' } } });
+      const b = makeTransaction({ card_last_four: '2222', metadata: { import: { fit_id: 'ABC' } } });
+      expect(scoreDuplicate(a, b)).toBeNull();
+    });
+  });
+
+  describe('findDuplicateCandidates', () => {
+    it('should return matches sorted by score and skip the candidate itself', () => {
+      const candidate = makeTransaction({ id: 'self' });
+      const exact = makeTransaction({ id: 'exact' });
+      const close = makeTransaction({ id: 'close', transaction_date: '2024-03-12' });
+
+      const matches = findDuplicateCandidates(candidate, [close, candidate, exact]);
+      expect(matches.map((m) => m.transaction.id)).toEqual(['exact', 'close']);
+    });
+  });
+
+  describe('buildMergeUpdate', () => {
+    it('should fill empty fields and record merged sources', () => {
+      const primary = makeTransaction({ source: 'email', merchant_name: 'CARREFOUR 0042', notes: 'From email' });
+      const receipt = makeTransaction({
+        id: 'tx-2',
+        source: 'receipt',
+        merchant_name: 'Carrefour',
+        receipt_image_url: 'https://example.com/r.jpg',
+        card_last_four: '1234',
+        category_id: 'shopping',
+        notes: 'Milk, bread',
+      });
+
+      const update = buildMergeUpdate(primary, receipt);
+
+      expect(update).toMatchObject({
+        merchant_name: 'Carrefour',
+        receipt_image_url: 'https://example.com/r.jpg',
+        card_last_four: '1234',
+        category_id: 'shopping',
+        notes: 'From email\nMilk, bread',
+        metadata: { merged_sources: ['email', 'receipt'], merged_from: ['tx-2'] },
+      });
+    });
+
+    it('should keep the primary merchant name when it comes from a richer source', () => {
+      const primary = makeTransaction({ source: 'receipt', merchant_name: 'Carrefour' });
+      const update = buildMergeUpdate(primary, toIncoming(makeTransaction({ source: 'email', merchant_name: 'CRF' })));
+      expect(update.merchant_name).toBeUndefined();
+    });
+  });
+
+  describe('findIncomingDuplicates', () => {
+    it('should find nothing when no duplicate exists', async () => {
+      (getTransactions as jest.Mock).mockResolvedValue({ data: [] });
+
+      expect(await findIncomingDuplicates(toIncoming(makeTransaction()))).toEqual([]);
+      expect(getTransactions).toHaveBeenCalledWith(
+        expect.objectContaining({ startDate: '2024-03-07', endDate: '2024-03-13' })
+      );
+    });
+
+    it('should queue a likely duplicate for review', async () => {
+      const existing = makeTransaction({ id: 'existing', source: 'email', amount: -45.5 });
+      (getTransactions as jest.Mock).mockResolvedValue({ data: [existing] });
+
+      expect(await queueIfDuplicate(toIncoming(makeTransaction({ source: 'receipt' })))).not.toBeNull();
+
+      const queue = await getReconciliationQueue();
+      expect(queue).toHaveLength(1);
+      expect(queue[0]).toMatchObject({ kind: 'incoming', existing: { id: 'existing' } });
+    });
+
+    it('should match against every page of a large window', async () => {
+      const existing = makeTransaction({ id: 'existing', source: 'email', amount: -45.5 });
+      (getTransactions as jest.Mock)
+        .mockResolvedValueOnce({ data: [makeTransaction({ id: 'other', merchant_name: 'Netflix', amount: 9 })], hasMore: true })
+        .mockResolvedValueOnce({ data: [existing], hasMore: false });
+
+      const matches = await findIncomingDuplicates(toIncoming(makeTransaction({ source: 'receipt' })));
+
+      expect(getTransactions).toHaveBeenCalledTimes(2);
+      expect(getTransactions).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+      expect(matches.map((m) => m.transaction.id)).toEqual(['existing']);
+    });
+
+    it("should keep each user's review queue separate", async () => {
+      (getTransactions as jest.Mock).mockResolvedValue({ data: [makeTransaction({ id: 'existing', source: 'email' })] });
+      await queueIfDuplicate(toIncoming(makeTransaction({ source: 'receipt' })));
+
+      mockUserId = 'user-2';
+      expect(await getReconciliationQueue()).toEqual([]);
+
+      mockUserId = 'user-1';
+      expect(await getReconciliationQueue()).toHaveLength(1);
+    });
+  });
+
+  describe('scanForDuplicates', () => {
+    it('should queue each duplicate pair once and keep the older record', async () => {
+      const today = new Date().toISOString().split('T')[0];
+      const first = makeTransaction({ id: 'a', transaction_date: today, created_at: '2024-01-01T00:00:00Z' });
+      const second = makeTransaction({ id: 'b', transaction_date: today, created_at: '2024-01-02T00:00:00Z' });
+      const unrelated = makeTransaction({ id: 'c', transaction_date: today, merchant_name: 'Netflix', amount: 9 });
+      (getTransactions as jest.Mock).mockResolvedValue({ data: [second, unrelated, first] });
+
+      const proposals = await scanForDuplicates();
+      expect(proposals).toHaveLength(1);
+      expect(proposals[0]).toMatchObject({ kind: 'existing', existing: { id: 'a' }, duplicate: { id: 'b' } });
+
+      // Re-scanning doesn't duplicate the pending proposal
+      expect(await scanForDuplicates()).toHaveLength(0);
+    });
+
+    it('should scan recent webhook rows in the background at most every few minutes', async () => {
+      const today = new Date().toISOString().split('T')[0];
+      (getTransactions as jest.Mock).mockResolvedValue({
+        data: [
+          makeTransaction({ id: 'a', source: 'email', transaction_date: today, created_at: '2024-01-01T00:00:00Z' }),
+          makeTransaction({ id: 'b', source: 'email', transaction_date: today, created_at: '2024-01-02T00:00:00Z' }),
+        ],
+      });
+
+      expect(await scanRecentDuplicates()).toHaveLength(1);
+      expect(getTransactions).toHaveBeenCalledWith(expect.objectContaining({ endDate: today }));
+
+      (getTransactions as jest.Mock).mockClear();
+      expect(await scanRecentDuplicates()).toEqual([]);
+      expect(getTransactions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveProposal', () => {
+    it('should merge an incoming transaction into the existing one', async () => {
+      const existing = makeTransaction({ id: 'existing', source: 'email' });
+      (getTransactions as jest.Mock).mockResolvedValue({ data: [existing] });
+      (updateTransaction as jest.Mock).mockResolvedValue(existing);
+      const incoming = toIncoming(makeTransaction({ source: 'receipt', receipt_image_url: 'r.jpg' }));
+
+      const queued = await queueIfDuplicate(incoming);
+      if (!queued) throw new Error('expected queued');
+
+      await resolveProposal(queued.id, 'merge');
+
+      expect(updateTransaction).toHaveBeenCalledWith(
+        'existing',
+        expect.objectContaining({ receipt_image_url: 'r.jpg' })
+      );
+      expect(await getReconciliationQueue()).toEqual([]);
+    });
+
+    it('should insert the incoming transaction when keeping both', async () => {
+      (getTransactions as jest.Mock).mockResolvedValue({ data: [makeTransaction({ id: 'existing' })] });
+      (createTransaction as jest.Mock).mockResolvedValue(makeTransaction({ id: 'second' }));
+
+      const queued = await queueIfDuplicate(toIncoming(makeTransaction()));
+      if (!queued) throw new Error('expected queued');
+
+      const result = await resolveProposal(queued.id, 'keep_both');
+      expect(result?.id).toBe('second');
+    });
+
+    it('should delete the duplicate of an existing pair and remember dismissed pairs', async () => {
+      const today = new Date().toISOString().split('T')[0];
+      const pair = [
+        makeTransaction({ id: 'a', transaction_date: today, created_at: '2024-01-01T00:00:00Z' }),
+        makeTransaction({ id: 'b', transaction_date: today, created_at: '2024-01-02T00:00:00Z' }),
+      ];
+      (getTransactions as jest.Mock).mockResolvedValue({ data: pair });
+      (updateTransaction as jest.Mock).mockResolvedValue(pair[0]);
+
+      const [proposal] = await scanForDuplicates();
+      await resolveProposal(proposal.id, 'merge');
+      expect(deleteTransaction).toHaveBeenCalledWith('b');
+
+      const [again] = await scanForDuplicates();
+      await resolveProposal(again.id, 'keep_both');
+      expect(await scanForDuplicates()).toHaveLength(0);
+    });
+
+    it('should throw for unknown proposals', async () => {
+      await expect(resolveProposal('missing', 'merge')).rejects.toThrow('Reconciliation proposal not found');
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Recurrence Engine Tests
+ */
+
+import {
+  createRecurrenceRule,
+  ruleFromFrequency,
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  getOccurrences,
+  getNextOccurrence,
+  adjustForWeekend,
+  lastBusinessDayOfMonth,
+  resolveMonthDay,
+} from '../recurrence';
+
+describe('Recurrence Engine', () => {
+  describe('date helpers', () => {
+    it('should clamp month days to the end of short months', () => {
+      expect(resolveMonthDay(2024, 2, 31)).toBe('2024-02-29');
+      expect(resolveMonthDay(2023, 2, 30)).toBe('2023-02-28');
+      expect(resolveMonthDay(2024, 4, -1)).toBe('2024-04-30');
+    });
+
+    it('should find the last business day of a month', () => {
+      // 2024-03-31 is a Sunday
+      expect(lastBusinessDayOfMonth(2024, 3)).toBe('2024-03-29');
+      expect(lastBusinessDayOfMonth(2024, 4)).toBe('2024-04-30');
+    });
+
+    it('should shift or skip weekend dates', () => {
+      // 2024-06-15 is a Saturday
+      expect(adjustForWeekend('2024-06-15', 'none')).toBe('2024-06-15');
+      expect(adjustForWeekend('2024-06-15', 'previous')).toBe('2024-06-14');
+      expect(adjustForWeekend('2024-06-15', 'next')).toBe('2024-06-17');
+      expect(adjustForWeekend('2024-06-15', 'skip')).toBeNull();
+      expect(adjustForWeekend('2024-06-14', 'skip')).toBe('2024-06-14');
+    });
+  });
+
+  describe('ruleFromFrequency', () => {
+    it('should step biweekly rules by two weeks', () => {
+      const rule = ruleFromFrequency('biweekly', '2024-01-05');
+      expect(getOccurrences(rule, '2024-01-01', '2024-02-29')).toEqual([
+        '2024-01-05',
+        '2024-01-19',
+        '2024-02-02',
+        '2024-02-16',
+      ]);
+    });
+
+    it('should step quarterly rules by three months on the due day', () => {
+      const rule = ruleFromFrequency('quarterly', '2024-01-10', { dayOfMonth: 15 });
+      expect(getOccurrences(rule, '2024-01-01', '2024-12-31')).toEqual([
+        '2024-01-15',
+        '2024-04-15',
+        '2024-07-15',
+        '2024-10-15',
+      ]);
+    });
+
+    it('should clamp monthly rules anchored at the end of the month', () => {
+      const rule = ruleFromFrequency('monthly', '2024-01-31');
+      expect(getOccurrences(rule, '2024-01-01', '2024-04-30')).toEqual([
+        '2024-01-31',
+        '2024-02-29',
+        '2024-03-31',
+        '2024-04-30',
+      ]);
+    });
+
+    it('should handle leap days in yearly rules', () => {
+      const rule = ruleFromFrequency('yearly', '2024-02-29');
+      expect(getOccurrences(rule, '2024-01-01', '2026-12-31')).toEqual([
+        '2024-02-29',
+        '2025-02-28',
+        '2026-02-28',
+      ]);
+    });
+
+    it('should produce a single occurrence for one-time entries', () => {
+      const rule = ruleFromFrequency('one_time', '2024-05-01');
+      expect(getOccurrences(rule, '2024-01-01', '2025-01-01')).toEqual(['2024-05-01']);
+    });
+
+    it('should stop at the end date', () => {
+      const rule = ruleFromFrequency('weekly', '2024-01-01', { until: '2024-01-20' });
+      expect(getOccurrences(rule, '2024-01-01', '2024-12-31')).toHaveLength(3);
+    });
+  });
+
+  describe('getOccurrences', () => {
+    it('should shift weekend occurrences', () => {
+      // 2024-06-15 and 2024-09-15 fall on weekends
+      const rule = ruleFromFrequency('quarterly', '2024-03-15', { weekendAdjustment: 'next' });
+      expect(getOccurrences(rule, '2024-03-01', '2024-12-31')).toEqual([
+        '2024-03-15',
+        '2024-06-17',
+        '2024-09-16',
+        '2024-12-16',
+      ]);
+    });
+
+    it('should skip weekend occurrences when configured', () => {
+      const rule = ruleFromFrequency('monthly', '2024-06-15', { weekendAdjustment: 'skip' });
+      expect(getOccurrences(rule, '2024-06-01', '2024-08-31')).toEqual(['2024-07-15', '2024-08-15']);
+    });
+
+    it('should use the last business day of each month', () => {
+      const rule = createRecurrenceRule({ frequency: 'monthly', start: '2024-01-01', lastBusinessDay: true });
+      expect(getOccurrences(rule, '2024-01-01', '2024-03-31')).toEqual([
+        '2024-01-31',
+        '2024-02-29',
+        '2024-03-29',
+      ]);
+    });
+
+    it('should support several days per month', () => {
+      const rule = createRecurrenceRule({ frequency: 'monthly', start: '2024-01-01', byMonthDay: [15, 1] });
+      expect(getOccurrences(rule, '2024-01-10', '2024-02-20')).toEqual([
+        '2024-01-15',
+        '2024-02-01',
+        '2024-02-15',
+      ]);
+    });
+
+    it('should count occurrences from the start date', () => {
+      const rule = createRecurrenceRule({ frequency: 'monthly', start: '2024-01-05', count: 3 });
+      expect(getOccurrences(rule, '2024-02-01', '2024-12-31')).toEqual(['2024-02-05', '2024-03-05']);
+    });
+
+    it('should jump ahead efficiently for ranges far from the start', () => {
+      const rule = ruleFromFrequency('weekly', '2000-01-03');
+      expect(getOccurrences(rule, '2024-01-01', '2024-01-14')).toEqual(['2024-01-01', '2024-01-08']);
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should return the first occurrence on or after the date', () => {
+      const rule = ruleFromFrequency('biweekly', '2024-01-05');
+      expect(getNextOccurrence(rule, '2024-01-05')).toBe('2024-01-05');
+      expect(getNextOccurrence(rule, '2024-01-06')).toBe('2024-01-19');
+    });
+
+    it('should return null once the schedule has ended', () => {
+      const rule = ruleFromFrequency('monthly', '2024-01-01', { until: '2024-03-01' });
+      expect(getNextOccurrence(rule, '2024-03-02')).toBeNull();
+    });
+  });
+
+  describe('RRULE strings', () => {
+    it('should round-trip rules', () => {
+      const rule = createRecurrenceRule({
+        frequency: 'monthly',
+        start: '2024-01-01',
+        interval: 3,
+        lastBusinessDay: true,
+        weekendAdjustment: 'previous',
+        until: '2025-12-31',
+      });
+
+      const rrule = formatRecurrenceRule(rule);
+      expect(rrule).toBe(
+        'FREQ=MONTHLY;INTERVAL=3;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;UNTIL=20251231;X-WEEKEND=PREVIOUS'
+      );
+      expect(parseRecurrenceRule(rrule, '2024-01-01')).toEqual(rule);
+    });
+
+    it('should parse month days and counts', () => {
+      const rule = parseRecurrenceRule('RRULE:FREQ=MONTHLY;BYMONTHDAY=1,-1;COUNT=4', '2024-01-01');
+      expect(getOccurrences(rule!, '2024-01-01', '2024-12-31')).toEqual([
+        '2024-01-01',
+        '2024-01-31',
+        '2024-02-01',
+        '2024-02-29',
+      ]);
+    });
+
+    it('should reject rules without a supported frequency', () => {
+      expect(parseRecurrenceRule('INTERVAL=2', '2024-01-01')).toBeNull();
+      expect(parseRecurrenceRule('FREQ=HOURLY', '2024-01-01')).toBeNull();
+    });
+  });
+});
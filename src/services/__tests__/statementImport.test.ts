@@ -0,0 +1,395 @@
+/**
+ * Statement Import Service Tests
+ */
+
+import {
+  detectStatementFormat,
+  parseCsv,
+  parseStatementAmount,
+  parseStatementDate,
+  suggestCsvMapping,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement,
+  buildStatementPreview,
+  commitStatementImport,
+} from '../statementImport';
+import { createTransaction, getTransactions } from '../transactions';
+import { getTransactionsInWindow, queueIncomingProposal } from '../reconciliation';
+
+jest.mock('../transactions', () => ({
+  createTransaction: jest.fn(),
+  getTransactions: jest.fn(),
+}));
+
+jest.mock('../reconciliation', () => ({
+  ...jest.requireActual('../reconciliation'),
+  getTransactionsInWindow: jest.fn(),
+  queueIncomingProposal: jest.fn(),
+}));
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><FI><ORG>Emirates NBD<FID>1234</FI></SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>AED
+<BANKACCTFROM><BANKID>999<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>POS
+<DTPOSTED>20240115120000[+4:GST]
+<TRNAMT>-45.50
+<FITID>TXN001
+<NAME>CARREFOUR CITY CENTRE
+<MEMO>Card purchase
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>ATM
+<DTPOSTED>20240116
+<TRNAMT>-200.00
+<FITID>TXN002
+<NAME>ATM WITHDRAWAL DXB
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DIRECTDEP
+<DTPOSTED>20240125
+<TRNAMT>15000.00
+<FITID>TXN003
+<NAME>SALARY ACME &amp; CO
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const OFX_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CURDEF>USD</CURDEF>
+<CCACCTFROM><ACCTID>4111111111111111</ACCTID></CCACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240301</DTPOSTED><TRNAMT>-12.99</TRNAMT><FITID>A1</FITID><NAME>NETFLIX.COM</NAME></STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+const QIF = `!Type:Bank
+D01/05/2024
+T-25.00
+PStarbucks
+MMorning coffee
+^
+D1/6'24
+T-1,250.00
+N1042
+PLandlord
+^
+D01/07/2024
+T100.00
+PRefund Amazon
+^
+`;
+
+describe('Statement Import Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('detectStatementFormat', () => {
+    it('should detect format from file extension', () => {
+      expect(detectStatementFormat('', 'statement.QFX')).toBe('ofx');
+      expect(detectStatementFormat('', 'export.qif')).toBe('qif');
+      expect(detectStatementFormat('', 'export.csv')).toBe('csv');
+    });
+
+    it('should detect format from content when extension is unknown', () => {
+      expect(detectStatementFormat(OFX_SGML)).toBe('ofx');
+      expect(detectStatementFormat(OFX_XML)).toBe('ofx');
+      expect(detectStatementFormat(QIF)).toBe('qif');
+      expect(detectStatementFormat('Date,Description,Amount')).toBe('csv');
+    });
+  });
+
+  describe('parseStatementAmount', () => {
+    it('should parse common amount notations', () => {
+      expect(parseStatementAmount('1,234.56')).toBe(1234.56);
+      expect(parseStatementAmount('-12.00')).toBe(-12);
+      expect(parseStatementAmount('(45.10)')).toBe(-45.1);
+      expect(parseStatementAmount('12.00-')).toBe(-12);
+      expect(parseStatementAmount('AED 99.90')).toBe(99.9);
+      expect(parseStatementAmount('50.00 DR')).toBe(-50);
+      expect(parseStatementAmount('1.234,56', ',')).toBe(1234.56);
+    });
+
+    it('should return null for non-numeric values', () => {
+      expect(parseStatementAmount('')).toBeNull();
+      expect(parseStatementAmount('Amount')).toBeNull();
+    });
+  });
+
+  describe('parseStatementDate', () => {
+    it('should respect the configured date format', () => {
+      expect(parseStatementDate('03/04/2024', 'MM/DD/YYYY')).toBe('2024-03-04');
+      expect(parseStatementDate('03/04/2024', 'DD/MM/YYYY')).toBe('2024-04-03');
+      expect(parseStatementDate('2024-04-03', 'DD/MM/YYYY')).toBe('2024-04-03');
+      expect(parseStatementDate("1/6'24", 'MM/DD/YYYY')).toBe('2024-01-06');
+    });
+
+    it('should reject impossible dates', () => {
+      expect(parseStatementDate('02/30/2024', 'MM/DD/YYYY')).toBeNull();
+      expect(parseStatementDate('not a date', 'MM/DD/YYYY')).toBeNull();
+    });
+  });
+
+  describe('CSV', () => {
+    it('should handle quoted fields with delimiters and escaped quotes', () => {
+      const rows = parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\n');
+      expect(rows).toEqual([
+        ['a', 'b, c', 'say "hi"'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    it('should suggest a mapping from header names', () => {
+      const csv = 'Posting Date,Description,Debit,Credit,Reference\n15/01/2024,Carrefour,45.50,,REF1\n';
+      const mapping = suggestCsvMapping(csv);
+
+      expect(mapping.hasHeader).toBe(true);
+      expect(mapping.date).toBe(0);
+      expect(mapping.description).toBe(1);
+      expect(mapping.amount).toBeUndefined();
+      expect(mapping.debit).toBe(2);
+      expect(mapping.credit).toBe(3);
+      expect(mapping.notes).toBe(4);
+      expect(mapping.dateFormat).toBe('DD/MM/YYYY');
+    });
+
+    it('should detect semicolon delimiters and comma decimals', () => {
+      const csv = 'Datum;Beschreibung;Betrag\n15.01.2024;REWE;-12,50\n';
+      const mapping = suggestCsvMapping(csv);
+
+      expect(mapping.delimiter).toBe(';');
+      expect(mapping.decimalSeparator).toBe(',');
+
+      const result = parseCsvStatement(csv, mapping);
+      expect(result.rows[0]).toMatchObject({ date: '2024-01-15', amount: -12.5, description: 'REWE' });
+    });
+
+    it('should parse rows with debit/credit columns and report bad rows', () => {
+      const csv = [
+        'Date,Description,Debit,Credit',
+        '01/15/2024,Coffee Shop,4.50,',
+        '01/16/2024,Refund,,20.00',
+        'bad-date,Broken,1.00,',
+        '01/17/2024,No amount,,',
+      ].join('\n');
+
+      const result = parseCsvStatement(csv, suggestCsvMapping(csv));
+
+      expect(result.rows).toHaveLength(2);
+      expect(result.rows[0]).toMatchObject({ date: '2024-01-15', amount: -4.5, description: 'Coffee Shop' });
+      expect(result.rows[1]).toMatchObject({ amount: 20 });
+      expect(result.errors).toEqual([
+        { line: 4, message: 'Invalid date "bad-date"' },
+        { line: 5, message: 'Missing or invalid amount' },
+      ]);
+    });
+
+    it('should invert signs for card statements', () => {
+      const csv = 'Date,Description,Amount\n2024-02-01,Amazon,30.00\n';
+      const mapping = { ...suggestCsvMapping(csv), invertSign: true };
+
+      const result = parseCsvStatement(csv, mapping);
+      expect(result.rows[0].amount).toBe(-30);
+    });
+  });
+
+  describe('parseOfxStatement', () => {
+    it('should parse SGML OFX statements', () => {
+      const result = parseOfxStatement(OFX_SGML);
+
+      expect(result.errors).toEqual([]);
+      expect(result.currency).toBe('AED');
+      expect(result.bankName).toBe('Emirates NBD');
+      expect(result.accountLastFour).toBe('6789');
+      expect(result.rows).toHaveLength(3);
+      expect(result.rows[0]).toEqual({
+        date: '2024-01-15',
+        amount: -45.5,
+        description: 'CARREFOUR CITY CENTRE',
+        memo: 'Card purchase',
+        currency: 'AED',
+        fitId: 'TXN001',
+        checkNumber: null,
+        rawType: 'POS',
+      });
+      expect(result.rows[2].description).toBe('SALARY ACME & CO');
+    });
+
+    it('should parse XML OFX statements', () => {
+      const result = parseOfxStatement(OFX_XML);
+
+      expect(result.currency).toBe('USD');
+      expect(result.accountLastFour).toBe('1111');
+      expect(result.rows).toEqual([
+        expect.objectContaining({ date: '2024-03-01', amount: -12.99, fitId: 'A1', description: 'NETFLIX.COM' }),
+      ]);
+    });
+  });
+
+  describe('parseQifStatement', () => {
+    it('should parse QIF records', () => {
+      const result = parseQifStatement(QIF);
+
+      expect(result.errors).toEqual([]);
+      expect(result.rows).toHaveLength(3);
+      expect(result.rows[0]).toMatchObject({
+        date: '2024-01-05',
+        amount: -25,
+        description: 'Starbucks',
+        memo: 'Morning coffee',
+      });
+      expect(result.rows[1]).toMatchObject({ date: '2024-01-06', amount: -1250, checkNumber: '1042' });
+    });
+  });
+
+  describe('buildStatementPreview', () => {
+    it('should convert rows to import transactions', () => {
+      const preview = buildStatementPreview(parseOfxStatement(OFX_SGML), { defaultCurrency: 'USD' });
+
+      expect(preview.items).toHaveLength(3);
+      expect(preview.totalDebits).toBe(245.5);
+      expect(preview.totalCredits).toBe(15000);
+      expect(preview.dateRange).toEqual({ start: '2024-01-15', end: '2024-01-25' });
+
+      const [purchase, atm, salary] = preview.items.map((item) => item.transaction);
+      expect(purchase).toMatchObject({
+        amount: 45.5,
+        currency: 'AED',
+        merchant_name: 'CARREFOUR CITY CENTRE',
+        source: 'import',
+        transaction_type: 'purchase',
+        card_last_four: '6789',
+        bank_name: 'Emirates NBD',
+        notes: 'Card purchase',
+        metadata: { import: expect.objectContaining({ format: 'ofx', fit_id: 'TXN001', direction: 'debit' }) },
+      });
+      expect(atm.transaction_type).toBe('atm');
+      expect(salary.transaction_type).toBe('transfer');
+    });
+
+    it('should skip credits when requested', () => {
+      const preview = buildStatementPreview(parseQifStatement(QIF), {
+        defaultCurrency: 'AED',
+        skipCredits: true,
+      });
+
+      expect(preview.items).toHaveLength(2);
+      expect(preview.skippedCredits).toBe(1);
+      expect(preview.items[0].transaction.currency).toBe('AED');
+    });
+  });
+
+  describe('commitStatementImport', () => {
+    beforeEach(() => {
+      (getTransactionsInWindow as jest.Mock).mockResolvedValue([]);
+      (getTransactions as jest.Mock).mockResolvedValue({ data: [], hasMore: false });
+    });
+
+    it('should create each transaction and collect failures', async () => {
+      const preview = buildStatementPreview(parseQifStatement(QIF), { defaultCurrency: 'AED' });
+      (createTransaction as jest.Mock)
+        .mockResolvedValueOnce({ id: 'tx-1' })
+        .mockRejectedValueOnce(new Error('Network down'))
+        .mockResolvedValueOnce({ id: 'tx-3' });
+      const onProgress = jest.fn();
+
+      const result = await commitStatementImport(preview.items, { onProgress });
+
+      expect(getTransactionsInWindow).toHaveBeenCalledWith('2024-01-02', '2024-01-10');
+      expect(createTransaction).toHaveBeenCalledTimes(3);
+      expect(createTransaction).toHaveBeenCalledWith(expect.objectContaining({ source: 'import' }));
+      expect(result.imported).toEqual([{ id: 'tx-1' }, { id: 'tx-3' }]);
+      expect(result.failed).toHaveLength(1);
+      expect(result.failed[0].error).toBe('Network down');
+      expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+    });
+
+    it('should queue rows that match existing transactions', async () => {
+      const preview = buildStatementPreview(parseQifStatement(QIF), { defaultCurrency: 'AED' });
+      (getTransactionsInWindow as jest.Mock).mockResolvedValue([
+        {
+          id: 'existing-1',
+          amount: 25,
+          currency: 'AED',
+          merchant_name: 'STARBUCKS',
+          transaction_date: '2024-01-05',
+          card_last_four: null,
+          source: 'email',
+          metadata: {},
+        },
+      ]);
+      (queueIncomingProposal as jest.Mock).mockResolvedValue({ id: 'recon-1' });
+      (createTransaction as jest.Mock).mockResolvedValue({ id: 'tx-new' });
+
+      const result = await commitStatementImport(preview.items);
+
+      expect(queueIncomingProposal).toHaveBeenCalledWith(
+        expect.objectContaining({ merchant_name: 'Starbucks' }),
+        expect.objectContaining({ transaction: expect.objectContaining({ id: 'existing-1' }) })
+      );
+      expect(result.queued).toEqual([{ id: 'recon-1' }]);
+      expect(result.imported).toHaveLength(2);
+    });
+
+    it('should skip rows whose bank transaction id is already on file', async () => {
+      const preview = buildStatementPreview(parseOfxStatement(OFX_SGML), { defaultCurrency: 'AED' });
+      (getTransactionsInWindow as jest.Mock).mockResolvedValue([
+        { ...preview.items[0].transaction, id: 'existing-1' },
+      ]);
+      (createTransaction as jest.Mock).mockResolvedValue({ id: 'tx-new' });
+
+      const result = await commitStatementImport(preview.items);
+
+      expect(result.skipped.map((item) => item.row.fitId)).toEqual(['TXN001']);
+      expect(queueIncomingProposal).not.toHaveBeenCalled();
+      expect(result.imported).toHaveLength(preview.items.length - 1);
+    });
+
+    it('should import nothing the second time the same file is imported', async () => {
+      const stored: Record<string, unknown>[] = [];
+      (createTransaction as jest.Mock).mockImplementation(async (transaction) => {
+        const saved = { ...transaction, id: `tx-${stored.length + 1}` };
+        stored.push(saved);
+        return saved;
+      });
+      (getTransactions as jest.Mock).mockImplementation(async () => ({ data: stored, hasMore: false }));
+      const parsed = parseOfxStatement(OFX_SGML);
+      const { items } = buildStatementPreview(parsed, { defaultCurrency: 'AED' });
+
+      const first = await commitStatementImport(items, { reconcile: false });
+      const second = await commitStatementImport(items, { reconcile: false });
+
+      expect(first.imported).toHaveLength(items.length);
+      expect(second.imported).toEqual([]);
+      expect(second.skipped).toHaveLength(items.length);
+      expect(getTransactions).toHaveBeenCalledWith(expect.objectContaining({ source: 'import' }));
+
+      // The same ids on another account are different transactions
+      const otherAccount = buildStatementPreview(parsed, { defaultCurrency: 'AED', cardLastFour: '1111' });
+      const third = await commitStatementImport(otherAccount.items, { reconcile: false });
+      expect(third.imported).toHaveLength(items.length);
+    });
+
+    it('should skip reconciliation when disabled', async () => {
+      const preview = buildStatementPreview(parseQifStatement(QIF), { defaultCurrency: 'AED' });
+      (createTransaction as jest.Mock).mockResolvedValue({ id: 'tx' });
+
+      const result = await commitStatementImport(preview.items, { reconcile: false });
+
+      expect(getTransactionsInWindow).not.toHaveBeenCalled();
+      expect(result.imported).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Subscription Detection Service Tests
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSubscriptionKey } from '@/config/subscriptions';
+import {
+  inferCadence,
+  findPriceIncrease,
+  detectRecurringCharges,
+  acceptRecurringCharge,
+  dismissRecurringCharge,
+  getDismissedRecurringCharges,
+} from '../subscriptionDetection';
+import type { ChargeTransaction } from '../subscriptionDetection';
+import { createSubscription, getSubscription, updateSubscription } from '../subscriptions';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+jest.mock('../supabase', () => ({
+  supabase: { from: jest.fn(), auth: { getSession: jest.fn() } },
+}));
+
+jest.mock('../devStorage', () => ({
+  getDevTransactions: jest.fn(),
+}));
+
+jest.mock('../subscriptions', () => ({
+  ...jest.requireActual('../subscriptions'),
+  createSubscription: jest.fn(),
+  updateSubscription: jest.fn(),
+  getSubscription: jest.fn(),
+  getSubscriptions: jest.fn(),
+}));
+
+jest.mock('@/stores/authStore', () => ({
+  useAuthStore: { getState: () => ({ user: { id: 'dev-user-1' } }) },
+}));
+
+jest.mock('@/utils/devMode', () => ({
+  isDevMode: jest.fn(() => true),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logger: { general: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } },
+}));
+
+let nextId = 0;
+const charge = (merchant: string, amount: number, date: string, currency = 'AED'): ChargeTransaction => ({
+  id: `txn-${++nextId}`,
+  merchant_name: merchant,
+  amount: -amount,
+  currency,
+  transaction_date: date,
+  transaction_type: 'purchase',
+  category_id: 'entertainment',
+});
+
+const TODAY = '2026-06-20';
+
+describe('Subscription Detection Service', () => {
+  describe('getSubscriptionKey', () => {
+    it('should map known services to their pattern id', () => {
+      expect(getSubscriptionKey('NETFLIX.COM 866-579-7172')).toBe('netflix');
+      expect(getSubscriptionKey('PAYPAL *SPOTIFY P2A1B')).toBe('spotify');
+    });
+
+    it('should fall back to the merchant key for other merchants', () => {
+      expect(getSubscriptionKey('SQ *URBAN YOGA DMCC 00123')).toBe('urban yoga');
+      expect(getSubscriptionKey('Urban Yoga LLC')).toBe('urban yoga');
+      expect(getSubscriptionKey('CAREEM HALA RIDE')).toBe('careem');
+    });
+  });
+
+  describe('inferCadence', () => {
+    it('should recognise monthly charges despite short months', () => {
+      expect(inferCadence(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30'])).toEqual({
+        frequency: 'monthly',
+        intervalDays: 30,
+        regularity: 1,
+      });
+    });
+
+    it('should recognise weekly, quarterly and yearly cadences', () => {
+      expect(inferCadence(['2026-05-01', '2026-05-08', '2026-05-15'])?.frequency).toBe('weekly');
+      expect(inferCadence(['2025-09-10', '2025-12-10', '2026-03-10'])?.frequency).toBe('quarterly');
+      expect(inferCadence(['2024-07-01', '2025-07-01'])?.frequency).toBe('yearly');
+    });
+
+    it('should reject irregular gaps', () => {
+      expect(inferCadence(['2026-01-01', '2026-01-20', '2026-03-02'])).toBeNull();
+    });
+  });
+
+  describe('findPriceIncrease', () => {
+    it('should report the latest step up still in effect', () => {
+      expect(findPriceIncrease([39, 39, 45, 45], ['a', 'b', 'c', 'd'])).toEqual({
+        previousAmount: 39,
+        currentAmount: 45,
+        changePercent: 15.38,
+        effectiveDate: 'c',
+      });
+      expect(findPriceIncrease([39, 45, 39], ['a', 'b', 'c'])).toBeNull();
+      expect(findPriceIncrease([39, 39.2], ['a', 'b'])).toBeNull();
+    });
+  });
+
+  describe('detectRecurringCharges', () => {
+    it('should propose a monthly subscription with its next billing date', () => {
+      const candidates = detectRecurringCharges([
+        charge('NETFLIX.COM', 55, '2026-02-15'),
+        charge('NETFLIX.COM', 55, '2026-03-15'),
+        charge('NETFLIX.COM', 55, '2026-04-15'),
+        charge('NETFLIX.COM', 55, '2026-05-15'),
+        charge('NETFLIX.COM', 55, '2026-06-15'),
+      ], { today: TODAY });
+
+      expect(candidates).toHaveLength(1);
+      expect(candidates[0]).toMatchObject({
+        key: 'netflix|AED',
+        displayName: 'Netflix',
+        amount: 55,
+        frequency: 'monthly',
+        billingDay: 15,
+        lastBillingDate: '2026-06-15',
+        nextBillingDate: '2026-07-15',
+        occurrences: 5,
+        priceIncrease: null,
+      });
+      expect(candidates[0].confidence).toBeGreaterThan(0.9);
+    });
+
+    it('should keep a subscription together across a price increase and flag it', () => {
+      const candidates = detectRecurringCharges([
+        charge('Fitness First LLC', 199, '2026-01-03'),
+        charge('FITNESS FIRST', 199, '2026-02-03'),
+        charge('Fitness First LLC', 199, '2026-03-03'),
+        charge('Fitness First LLC', 249, '2026-04-03'),
+        charge('Fitness First LLC', 249, '2026-05-03'),
+        charge('Fitness First LLC', 249, '2026-06-03'),
+      ], { today: TODAY });
+
+      expect(candidates).toHaveLength(1);
+      expect(candidates[0]).toMatchObject({
+        displayName: 'Fitness First',
+        amount: 249,
+        occurrences: 6,
+        priceIncrease: { previousAmount: 199, currentAmount: 249, changePercent: 25.13, effectiveDate: '2026-04-03' },
+      });
+    });
+
+    it('should separate plans at different prices from the same merchant', () => {
+      const candidates = detectRecurringCharges([
+        charge('Apple Services', 3.99, '2026-03-02'),
+        charge('Apple Services', 39.99, '2026-03-10'),
+        charge('Apple Services', 3.99, '2026-04-02'),
+        charge('Apple Services', 39.99, '2026-04-10'),
+        charge('Apple Services', 3.99, '2026-05-02'),
+        charge('Apple Services', 39.99, '2026-05-10'),
+        charge('Apple Services', 3.99, '2026-06-02'),
+        charge('Apple Services', 39.99, '2026-06-10'),
+      ], { today: TODAY });
+
+      expect(candidates.map((c) => c.amount).sort((a, b) => a - b)).toEqual([3.99, 39.99]);
+    });
+
+    it('should ignore irregular spending, refunds and charges that stopped', () => {
+      const candidates = detectRecurringCharges([
+        charge('Carrefour', 120, '2026-05-01'),
+        charge('Carrefour', 118, '2026-05-04'),
+        charge('Carrefour', 125, '2026-05-19'),
+        { ...charge('Gym', 150, '2026-04-01'), transaction_type: 'refund' },
+        { ...charge('Gym', 150, '2026-05-01'), transaction_type: 'refund' },
+        { ...charge('Gym', 150, '2026-06-01'), transaction_type: 'refund' },
+        charge('Old Magazine', 20, '2025-10-05'),
+        charge('Old Magazine', 20, '2025-11-05'),
+        charge('Old Magazine', 20, '2025-12-05'),
+      ], { today: TODAY });
+
+      expect(candidates).toEqual([]);
+    });
+
+    it('should skip tracked subscriptions unless their price went up', () => {
+      const transactions = [
+        charge('Spotify', 21.99, '2026-03-20'),
+        charge('Spotify', 21.99, '2026-04-20'),
+        charge('Spotify', 21.99, '2026-05-20'),
+      ];
+      const existing = [{ id: 'sub-1', merchant_name: 'Spotify', display_name: null, status: 'active' as const }];
+
+      expect(detectRecurringCharges(transactions, { today: TODAY, existingSubscriptions: existing })).toEqual([]);
+
+      const raised = detectRecurringCharges(
+        [...transactions, charge('Spotify', 26.99, '2026-06-20')],
+        { today: TODAY, existingSubscriptions: existing }
+      );
+      expect(raised[0]).toMatchObject({ existingSubscriptionId: 'sub-1', amount: 26.99 });
+    });
+  });
+
+  describe('acceptRecurringCharge', () => {
+    const candidate = detectRecurringCharges([
+      charge('NETFLIX.COM', 55, '2026-04-15'),
+      charge('NETFLIX.COM', 55, '2026-05-15'),
+      charge('NETFLIX.COM', 55, '2026-06-15'),
+    ], { today: TODAY })[0];
+
+    it('should create an auto-detected subscription', async () => {
+      (createSubscription as jest.Mock).mockResolvedValue({ id: 'sub-new' });
+
+      await acceptRecurringCharge(candidate);
+
+      expect(createSubscription).toHaveBeenCalledWith(expect.objectContaining({
+        merchant_name: 'NETFLIX.COM',
+        amount: 55,
+        frequency: 'monthly',
+        next_billing_date: '2026-07-15',
+        auto_detected: true,
+        detection_confidence: candidate.confidence,
+        metadata: { detection: expect.objectContaining({ detected_from: candidate.transactionIds }) },
+      }));
+    });
+
+    it('should update the tracked subscription after a price increase', async () => {
+      (getSubscription as jest.Mock).mockResolvedValue({ id: 'sub-1', metadata: { source: 'manual' } });
+      (updateSubscription as jest.Mock).mockResolvedValue({ id: 'sub-1' });
+
+      await acceptRecurringCharge({ ...candidate, existingSubscriptionId: 'sub-1', amount: 60 });
+
+      expect(createSubscription).not.toHaveBeenCalled();
+      expect(updateSubscription).toHaveBeenCalledWith('sub-1', expect.objectContaining({
+        amount: 60,
+        metadata: expect.objectContaining({ source: 'manual', detection: expect.any(Object) }),
+      }));
+    });
+  });
+
+  describe('dismissed proposals', () => {
+    it('should remember dismissed keys', async () => {
+      const storage: Record<string, string> = {};
+      (AsyncStorage.getItem as jest.Mock).mockImplementation(async (key: string) => storage[key] ?? null);
+      (AsyncStorage.setItem as jest.Mock).mockImplementation(async (key: string, value: string) => {
+        storage[key] = value;
+      });
+
+      await dismissRecurringCharge('carrefour|AED');
+      await dismissRecurringCharge('carrefour|AED');
+
+      expect(await getDismissedRecurringCharges()).toEqual(['carrefour|AED']);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Subscription Price History Tests
+ * Charge matching, price-increase / trial-conversion alerts and missed renewals
+ */
+
+import {
+  matchChargeToSubscription,
+  recordSubscriptionCharge,
+  checkMissedRenewals,
+  trackSubscriptionCharges,
+} from '../subscriptions';
+import type { ChargeableTransaction } from '../subscriptions';
+import * as devStorage from '../devStorage';
+import { createAlert } from '../alerts';
+import { isDevMode } from '@/utils/devMode';
+import type { Subscription, SubscriptionCharge } from '@/types';
+
+jest.mock('../supabase', () => ({
+  supabase: { from: jest.fn(), auth: { getSession: jest.fn(), getUser: jest.fn() } },
+}));
+
+jest.mock('../devStorage', () => ({
+  getDevCollection: jest.fn(),
+  setDevCollection: jest.fn(),
+  getDevSubscriptions: jest.fn(),
+  updateDevSubscription: jest.fn(),
+  getDevTransactions: jest.fn(),
+}));
+
+jest.mock('../alerts', () => ({
+  createAlert: jest.fn(),
+}));
+
+jest.mock('@/stores/authStore', () => ({
+  useAuthStore: { getState: () => ({ user: { id: 'dev-user-1' } }) },
+}));
+
+jest.mock('@/utils/devMode', () => ({
+  isDevMode: jest.fn(),
+}));
+
+jest.mock('@/utils/logger', () => ({
+  logger: { general: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } },
+}));
+
+const subscription = (overrides: Partial<Subscription> = {}): Subscription => ({
+  id: 'sub-1',
+  user_id: 'dev-user-1',
+  merchant_name: 'NETFLIX.COM',
+  display_name: 'Netflix',
+  icon: null,
+  category_id: null,
+  amount: 55,
+  currency: 'AED',
+  frequency: 'monthly',
+  billing_day: 15,
+  next_billing_date: '2026-06-15',
+  last_billing_date: '2026-05-15',
+  trial_end_date: null,
+  status: 'active',
+  cancellation_url: null,
+  cancellation_instructions: null,
+  auto_detected: false,
+  detection_confidence: null,
+  last_used_at: null,
+  usage_count: 0,
+  notes: null,
+  metadata: {},
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const transaction = (overrides: Partial<ChargeableTransaction> = {}): ChargeableTransaction => ({
+  id: 'txn-1',
+  merchant_name: 'NETFLIX.COM 866-579-7172',
+  amount: -55,
+  currency: 'AED',
+  transaction_date: '2026-06-15',
+  transaction_type: 'purchase',
+  ...overrides,
+});
+
+const recordedCharge = (overrides: Partial<SubscriptionCharge> = {}): SubscriptionCharge => ({
+  id: 'charge-1',
+  user_id: 'dev-user-1',
+  subscription_id: 'sub-1',
+  transaction_id: 'txn-0',
+  amount: 55,
+  currency: 'AED',
+  charged_on: '2026-05-15',
+  previous_amount: null,
+  change_percent: null,
+  created_at: '2026-05-15T00:00:00Z',
+  ...overrides,
+});
+
+describe('Subscription Price History', () => {
+  let storedCharges: SubscriptionCharge[];
+
+  beforeEach(() => {
+    storedCharges = [];
+    (isDevMode as jest.Mock).mockReturnValue(true);
+    (devStorage.getDevCollection as jest.Mock).mockImplementation(async () => [...storedCharges]);
+    (devStorage.setDevCollection as jest.Mock).mockImplementation(async (_key: string, records: SubscriptionCharge[]) => {
+      storedCharges = records;
+    });
+    (devStorage.updateDevSubscription as jest.Mock).mockImplementation(async (id: string, updates: Partial<Subscription>) =>
+      subscription({ id, ...updates })
+    );
+    (createAlert as jest.Mock).mockResolvedValue({ id: 'alert-1' });
+  });
+
+  describe('matchChargeToSubscription', () => {
+    it('should match descriptors to the plan closest in price', () => {
+      const plans = [
+        subscription({ id: 'basic', merchant_name: 'Apple Services', display_name: null, amount: 3.99 }),
+        subscription({ id: 'one', merchant_name: 'Apple Services', display_name: null, amount: 39.99 }),
+      ];
+
+      expect(matchChargeToSubscription(transaction({ merchant_name: 'APPLE SERVICES LLC', amount: -42.99 }), plans)?.id).toBe('one');
+      expect(matchChargeToSubscription(transaction({ merchant_name: 'Apple Services', amount: -3.99 }), plans)?.id).toBe('basic');
+    });
+
+    it('should ignore refunds, other currencies, inactive plans and unrelated amounts', () => {
+      const plans = [subscription()];
+
+      expect(matchChargeToSubscription(transaction({ transaction_type: 'refund' }), plans)).toBeNull();
+      expect(matchChargeToSubscription(transaction({ currency: 'USD' }), plans)).toBeNull();
+      expect(matchChargeToSubscription(transaction({ amount: -400 }), plans)).toBeNull();
+      expect(matchChargeToSubscription(transaction(), [subscription({ status: 'cancelled' })])).toBeNull();
+    });
+  });
+
+  describe('recordSubscriptionCharge', () => {
+    it('should record the charge and roll the billing dates forward', async () => {
+      storedCharges = [recordedCharge()];
+
+      const result = await recordSubscriptionCharge(subscription(), transaction());
+
+      expect(result?.events).toEqual([]);
+      expect(result?.charge).toMatchObject({ amount: 55, charged_on: '2026-06-15', previous_amount: 55, change_percent: 0 });
+      expect(storedCharges).toHaveLength(2);
+      expect(devStorage.updateDevSubscription).toHaveBeenCalledWith('sub-1', {
+        last_billing_date: '2026-06-15',
+        next_billing_date: '2026-07-15',
+      });
+      expect(createAlert).not.toHaveBeenCalled();
+    });
+
+    it('should raise a price_increase alert and store the new amount', async () => {
+      const result = await recordSubscriptionCharge(subscription(), transaction({ amount: -63 }));
+
+      expect(result?.events).toEqual(['price_increase']);
+      expect(createAlert).toHaveBeenCalledWith(expect.objectContaining({
+        alert_type: 'price_increase',
+        related_entity_id: 'sub-1',
+        data: expect.objectContaining({ previous_amount: 55, new_amount: 63, change_percent: 14.55 }),
+      }));
+      expect(devStorage.updateDevSubscription).toHaveBeenCalledWith('sub-1', expect.objectContaining({ amount: 63 }));
+    });
+
+    it('should treat small differences as noise', async () => {
+      const result = await recordSubscriptionCharge(subscription(), transaction({ amount: -55.5 }));
+
+      expect(result?.events).toEqual([]);
+      expect(createAlert).not.toHaveBeenCalled();
+    });
+
+    it('should raise a trial_converted alert for the first paid charge after a trial', async () => {
+      const trial = subscription({ trial_end_date: '2026-06-15', last_billing_date: null });
+
+      const result = await recordSubscriptionCharge(trial, transaction({ amount: -65 }));
+
+      expect(result?.events).toEqual(['trial_converted']);
+      expect(createAlert).toHaveBeenCalledTimes(1);
+      expect(createAlert).toHaveBeenCalledWith(expect.objectContaining({ alert_type: 'trial_converted' }));
+      expect(devStorage.updateDevSubscription).toHaveBeenCalledWith('sub-1', expect.objectContaining({
+        trial_end_date: null,
+        amount: 65,
+      }));
+    });
+
+    it('should skip transactions that were already recorded', async () => {
+      storedCharges = [recordedCharge({ transaction_id: 'txn-1' })];
+
+      expect(await recordSubscriptionCharge(subscription(), transaction())).toBeNull();
+      expect(devStorage.setDevCollection).not.toHaveBeenCalled();
+    });
+
+    it('should still record the charge when the alert cannot be created', async () => {
+      (createAlert as jest.Mock).mockRejectedValue(new Error('Not authenticated'));
+
+      const result = await recordSubscriptionCharge(subscription(), transaction({ amount: -70 }));
+
+      expect(result?.events).toEqual(['price_increase']);
+      expect(storedCharges).toHaveLength(1);
+    });
+  });
+
+  describe('checkMissedRenewals', () => {
+    const context = (sub: Subscription) => ({ subscriptions: [sub], charges: [recordedCharge()] });
+
+    it('should report a renewal that is overdue past the grace period', async () => {
+      const missed = await checkMissedRenewals('2026-06-25', context(subscription()));
+
+      expect(missed).toHaveLength(1);
+      expect(createAlert).toHaveBeenCalledWith(expect.objectContaining({
+        alert_type: 'missed_renewal',
+        data: expect.objectContaining({ expected_date: '2026-06-15', last_charge_date: '2026-05-15' }),
+      }));
+      expect(devStorage.updateDevSubscription).toHaveBeenCalledWith('sub-1', {
+        metadata: { missed_renewal_date: '2026-06-15' },
+      });
+    });
+
+    it('should wait for the grace period and report each date once', async () => {
+      expect(await checkMissedRenewals('2026-06-18', context(subscription()))).toEqual([]);
+      expect(
+        await checkMissedRenewals('2026-06-25', context(subscription({ metadata: { missed_renewal_date: '2026-06-15' } })))
+      ).toEqual([]);
+      expect(createAlert).not.toHaveBeenCalled();
+    });
+
+    it('should skip subscriptions without a charge history', async () => {
+      expect(await checkMissedRenewals('2026-06-25', { subscriptions: [subscription()], charges: [] })).toEqual([]);
+    });
+  });
+
+  describe('trackSubscriptionCharges', () => {
+    it('should match recent transactions once and report missed renewals', async () => {
+      storedCharges = [recordedCharge({ transaction_id: 'txn-old' })];
+      (devStorage.getDevSubscriptions as jest.Mock).mockResolvedValue([subscription()]);
+      (devStorage.getDevTransactions as jest.Mock).mockResolvedValue([
+        { ...transaction({ id: 'txn-old', transaction_date: '2026-05-15' }), is_deleted: false },
+        { ...transaction({ id: 'txn-new', amount: -59.99 }), is_deleted: false },
+        { ...transaction({ id: 'txn-food', merchant_name: 'Carrefour', amount: -120 }), is_deleted: false },
+      ]);
+
+      const result = await trackSubscriptionCharges('2026-06-20');
+
+      expect(result.charges.map((c) => c.charge.transaction_id)).toEqual(['txn-new']);
+      expect(result.charges[0].events).toEqual(['price_increase']);
+      expect(result.missedRenewals).toEqual([]);
+    });
+  });
+});
@@ -158,6 +158,7 @@ describe('Subscriptions Service', () => {
         billing_day: null,
         next_billing_date: null,
         last_billing_date: null,
+        trial_end_date: null,
         status: 'active' as const,
         cancellation_url: null,
         cancellation_instructions: null,
@@ -192,6 +193,7 @@ describe('Subscriptions Service', () => {
           billing_day: null,
           next_billing_date: null,
           last_billing_date: null,
+          trial_end_date: null,
           status: 'active',
           cancellation_url: null,
           cancellation_instructions: null,
@@ -0,0 +1,264 @@
+/**
+ * Tax Lot Service Tests
+ * Lot selection, disposals, splits and the yearly gains report
+ */
+
+import {
+  selectLots,
+  disposeLots,
+  splitLot,
+  gainTerm,
+  openingLotFor,
+  buildGainsReport,
+  prepareSale,
+  type LotHolding,
+} from '../taxLots';
+import { supabase } from '../supabase';
+import type { TaxLot, LotDisposal } from '@/types';
+
+jest.mock('../supabase', () => ({
+  supabase: { from: jest.fn(), auth: { getUser: jest.fn() } },
+}));
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+function createMockQuery(resolvedData: any, error: any = null) {
+  const mockQuery: any = {
+    select: jest.fn(() => mockQuery),
+    insert: jest.fn(() => mockQuery),
+    update: jest.fn(() => mockQuery),
+    eq: jest.fn(() => mockQuery),
+    is: jest.fn(() => mockQuery),
+    order: jest.fn(() => mockQuery),
+    maybeSingle: jest.fn(() => Promise.resolve({ data: resolvedData, error })),
+    single: jest.fn(() => Promise.resolve({ data: resolvedData, error })),
+  };
+  mockQuery.then = (resolve: any) => {
+    resolve({ data: resolvedData, error });
+    return mockQuery;
+  };
+  return mockQuery;
+}
+
+const lot = (overrides: Partial<TaxLot>): TaxLot => ({
+  id: 'lot-1',
+  user_id: 'user-123',
+  holding_id: 'holding-1',
+  investment_transaction_id: null,
+  symbol: 'AAPL',
+  source: 'buy',
+  acquired_date: '2024-01-10',
+  quantity: 10,
+  remaining_quantity: 10,
+  cost_per_share: 100,
+  currency: 'USD',
+  created_at: '2024-01-10T00:00:00Z',
+  updated_at: '2024-01-10T00:00:00Z',
+  ...overrides,
+});
+
+const holding = (overrides: Partial<LotHolding> = {}): LotHolding => ({
+  id: 'holding-1',
+  user_id: 'user-123',
+  symbol: 'AAPL',
+  quantity: 30,
+  cost_basis: 4500,
+  current_price: 200,
+  currency: 'USD',
+  created_at: '2023-06-01T12:00:00Z',
+  ...overrides,
+});
+
+// Bought cheap, then expensive, then in between
+const lots = [
+  lot({ id: 'old', acquired_date: '2024-01-10', cost_per_share: 100 }),
+  lot({ id: 'high', acquired_date: '2025-06-01', cost_per_share: 180 }),
+  lot({ id: 'new', acquired_date: '2026-02-01', cost_per_share: 150 }),
+];
+
+describe('Tax Lot Service', () => {
+  describe('selectLots', () => {
+    it('should sell the oldest lots first by default', () => {
+      expect(selectLots(lots, 15)).toEqual([
+        { lot_id: 'old', quantity: 10 },
+        { lot_id: 'high', quantity: 5 },
+      ]);
+    });
+
+    it('should sell the newest lots first with LIFO', () => {
+      expect(selectLots(lots, 12, 'lifo')).toEqual([
+        { lot_id: 'new', quantity: 10 },
+        { lot_id: 'high', quantity: 2 },
+      ]);
+    });
+
+    it('should sell the most expensive lots first with highest cost', () => {
+      expect(selectLots(lots, 12, 'highest_cost')).toEqual([
+        { lot_id: 'high', quantity: 10 },
+        { lot_id: 'new', quantity: 2 },
+      ]);
+    });
+
+    it('should skip closed lots and reject sells larger than the position', () => {
+      const partlySold = [lot({ id: 'old', remaining_quantity: 0 }), lot({ id: 'new', remaining_quantity: 4 })];
+
+      expect(selectLots(partlySold, 3)).toEqual([{ lot_id: 'new', quantity: 3 }]);
+      expect(() => selectLots(partlySold, 5)).toThrow('Not enough shares to sell: 4 held');
+    });
+
+    it('should use specific lots as given and check them', () => {
+      const selections = [{ lot_id: 'new', quantity: 4 }, { lot_id: 'old', quantity: 2 }];
+
+      expect(selectLots(lots, 6, 'specific_id', selections)).toEqual(selections);
+      expect(() => selectLots(lots, 7, 'specific_id', selections)).toThrow('must add up');
+      expect(() => selectLots(lots, 11, 'specific_id', [{ lot_id: 'old', quantity: 11 }])).toThrow('only 10 shares left');
+      expect(() => selectLots(lots, 1, 'specific_id', [{ lot_id: 'gone', quantity: 1 }])).toThrow('not open');
+    });
+  });
+
+  describe('disposeLots', () => {
+    it('should split net proceeds across lots and classify the term', () => {
+      const disposals = disposeLots(
+        lots,
+        [{ lot_id: 'old', quantity: 10 }, { lot_id: 'new', quantity: 5 }],
+        { quantity: 15, price: 200, fees: 15, date: '2026-03-01', transaction_id: 'txn-sell' }
+      );
+
+      expect(disposals).toEqual([
+        expect.objectContaining({
+          lot_id: 'old', quantity: 10, proceeds: 1990, cost_basis: 1000, realized_gain: 990,
+          term: 'long', acquired_date: '2024-01-10', disposed_date: '2026-03-01', sell_transaction_id: 'txn-sell',
+        }),
+        expect.objectContaining({ lot_id: 'new', quantity: 5, proceeds: 995, cost_basis: 750, realized_gain: 245, term: 'short' }),
+      ]);
+    });
+  });
+
+  describe('gainTerm', () => {
+    it('should be long term only after more than a year', () => {
+      expect(gainTerm('2025-03-10', '2026-03-10')).toBe('short');
+      expect(gainTerm('2025-03-10', '2026-03-11')).toBe('long');
+      expect(gainTerm('2024-02-29', '2025-03-01')).toBe('long');
+    });
+  });
+
+  describe('splitLot', () => {
+    it('should multiply shares and divide cost per share', () => {
+      expect(splitLot(lot({ quantity: 10, remaining_quantity: 6, cost_per_share: 300 }), 3)).toEqual({
+        quantity: 30,
+        remaining_quantity: 18,
+        cost_per_share: 100,
+      });
+      expect(splitLot(lot({ quantity: 100, remaining_quantity: 100, cost_per_share: 2 }), 0.1)).toEqual({
+        quantity: 10,
+        remaining_quantity: 10,
+        cost_per_share: 20,
+      });
+    });
+  });
+
+  describe('openingLotFor', () => {
+    it('should cover the shares and cost no lot accounts for', () => {
+      const opening = openingLotFor(holding(), [lot({ id: 'new', cost_per_share: 150 })]);
+
+      expect(opening).toMatchObject({
+        holding_id: 'holding-1',
+        source: 'opening_balance',
+        acquired_date: '2023-06-01',
+        quantity: 20,
+        remaining_quantity: 20,
+        cost_per_share: 150,
+      });
+    });
+
+    it('should return null when lots cover the holding', () => {
+      expect(openingLotFor(holding({ quantity: 10 }), [lot({})])).toBeNull();
+    });
+  });
+
+  describe('buildGainsReport', () => {
+    const disposal = (overrides: Partial<LotDisposal>): LotDisposal => ({
+      id: 'd-1',
+      user_id: 'user-123',
+      lot_id: 'old',
+      sell_transaction_id: null,
+      symbol: 'AAPL',
+      quantity: 5,
+      acquired_date: '2024-01-10',
+      disposed_date: '2026-03-01',
+      proceeds: 1000,
+      cost_basis: 500,
+      realized_gain: 500,
+      term: 'long',
+      currency: 'USD',
+      created_at: '2026-03-01T00:00:00Z',
+      ...overrides,
+    });
+
+    it('should total realized gains for the year by term', () => {
+      const report = buildGainsReport(
+        [],
+        [
+          disposal({ id: 'd-1' }),
+          disposal({ id: 'd-2', term: 'short', proceeds: 300, cost_basis: 400, realized_gain: -100, disposed_date: '2026-05-01' }),
+          disposal({ id: 'd-3', disposed_date: '2025-12-31' }),
+        ],
+        [],
+        2026,
+        new Date('2026-10-19T12:00:00Z')
+      );
+
+      expect(report.realized.map((d) => d.id)).toEqual(['d-1', 'd-2']);
+      expect(report.long_term).toEqual({ proceeds: 1000, cost_basis: 500, gain: 500 });
+      expect(report.short_term).toEqual({ proceeds: 300, cost_basis: 400, gain: -100 });
+      expect(report.total_realized_gain).toBe(400);
+    });
+
+    it('should value open lots and untracked shares at current prices', () => {
+      const report = buildGainsReport(
+        [lot({ id: 'new', acquired_date: '2026-02-01', cost_per_share: 150 })],
+        [],
+        [holding()],
+        2026,
+        new Date('2026-10-19T12:00:00Z')
+      );
+
+      expect(report.unrealized).toEqual([
+        expect.objectContaining({ lot_id: 'opening-holding-1', quantity: 20, cost_basis: 3000, market_value: 4000, unrealized_gain: 1000, term: 'long' }),
+        expect.objectContaining({ lot_id: 'new', quantity: 10, cost_basis: 1500, market_value: 2000, unrealized_gain: 500, term: 'short' }),
+      ]);
+      expect(report.unrealized_long_term).toBe(1000);
+      expect(report.unrealized_short_term).toBe(500);
+      expect(report.total_unrealized_gain).toBe(1500);
+    });
+  });
+
+  describe('prepareSale', () => {
+    beforeEach(() => {
+      (mockSupabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: 'user-123' } } });
+    });
+
+    it('should open a lot for untracked shares before selecting', async () => {
+      const openingLot = lot({ id: 'opening', source: 'opening_balance', acquired_date: '2023-06-01', quantity: 20, remaining_quantity: 20 });
+      const insert = createMockQuery(openingLot);
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(createMockQuery([lot({ id: 'new', acquired_date: '2026-02-01' })]))
+        .mockReturnValueOnce(createMockQuery(holding()))
+        .mockReturnValueOnce(insert);
+
+      const sale = await prepareSale({ holding_id: 'holding-1', symbol: 'AAPL', quantity: 25 });
+
+      expect(insert.insert).toHaveBeenCalledWith(expect.objectContaining({ source: 'opening_balance', quantity: 20 }));
+      expect(sale?.selections).toEqual([
+        { lot_id: 'opening', quantity: 20 },
+        { lot_id: 'new', quantity: 5 },
+      ]);
+    });
+
+    it('should return null for positions without lots', async () => {
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(createMockQuery([]));
+
+      expect(await prepareSale({ symbol: 'AAPL', quantity: 5 })).toBeNull();
+    });
+  });
+});
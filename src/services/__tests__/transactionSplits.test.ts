@@ -6,6 +6,8 @@ import {
   getTransactionSplits,
   splitTransaction,
   unsplitTransaction,
+  allocateItemSplits,
+  splitTransactionByItems,
 } from '../transactionSplits';
 import { supabase } from '../supabase';
 
@@ -201,4 +203,67 @@ describe('Transaction Splits Service', () => {
       expect(mockDeleteQuery.eq).toHaveBeenCalledWith('transaction_id', 'tx-1');
     });
   });
+
+  describe('allocateItemSplits', () => {
+    it('should group items by category and share tax proportionally', () => {
+      const splits = allocateItemSplits([
+        { name: 'Milk', category_id: 'food', total_price: 6 },
+        { name: 'Bread', category_id: 'food', total_price: 4 },
+        { name: 'Detergent', category_id: 'household', total_price: 20 },
+      ], 31.5);
+
+      expect(splits).toEqual([
+        { category_id: 'household', amount: 21, notes: 'Detergent' },
+        { category_id: 'food', amount: 10.5, notes: 'Milk, Bread' },
+      ]);
+    });
+
+    it('should put rounding residue on the largest split', () => {
+      const splits = allocateItemSplits([
+        { name: 'A', category_id: 'food', total_price: 1 },
+        { name: 'B', category_id: 'household', total_price: 1 },
+        { name: 'C', category_id: 'health', total_price: 1 },
+      ], 10);
+
+      expect(splits.map((s) => s.amount)).toEqual([3.34, 3.33, 3.33]);
+      expect(splits.reduce((sum, s) => sum + s.amount, 0)).toBeCloseTo(10, 2);
+    });
+
+    it('should use the fallback category for uncategorized items', () => {
+      const splits = allocateItemSplits([
+        { name: 'Mystery', category_id: null, total_price: 5 },
+        { name: 'Apples', category_id: 'food', total_price: 5 },
+      ], 10, 'food');
+
+      expect(splits).toEqual([{ category_id: 'food', amount: 10, notes: 'Mystery, Apples' }]);
+    });
+  });
+
+  describe('splitTransactionByItems', () => {
+    it('should not split when every item is in one category', async () => {
+      const txQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: { amount: 12, category_id: 'food' }, error: null }),
+      };
+      const itemsQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockResolvedValue({
+          data: [
+            { name: 'Milk', category_id: 'food', total_price: 6 },
+            { name: 'Eggs', category_id: null, total_price: 6 },
+          ],
+          error: null,
+        }),
+      };
+
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(txQuery)
+        .mockReturnValueOnce(itemsQuery);
+
+      await expect(splitTransactionByItems('tx-1')).resolves.toEqual([]);
+      expect(mockSupabase.from).toHaveBeenCalledWith('receipt_items');
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('transaction_splits');
+    });
+  });
 });
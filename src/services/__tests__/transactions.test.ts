@@ -13,6 +13,7 @@ import {
   getTopMerchants,
 } from '../transactions';
 import { supabase } from '../supabase';
+import { buildFxSnapshot, convertAtTransactionRate } from '../rateHistory';
 import { mockTransactions, mockTransaction, mockTransactionWithCategory } from '@/__mocks__/mockData';
 
 // Create mock implementations
@@ -46,10 +47,17 @@ jest.mock('../supabase', () => ({
   },
 }));
 
+jest.mock('../rateHistory', () => ({
+  buildFxSnapshot: jest.fn(),
+  convertAtTransactionRate: jest.fn(),
+}));
+
 describe('Transactions Service', () => {
   beforeEach(() => {
     // Reset and setup default mock behavior
     (supabase.from as jest.Mock).mockReturnValue(createQueryBuilder());
+    (buildFxSnapshot as jest.Mock).mockResolvedValue(null);
+    (convertAtTransactionRate as jest.Mock).mockImplementation(async (amount: number) => amount);
     // Mock all auth methods - default: no authenticated user
     (supabase.auth.getSession as jest.Mock).mockResolvedValue({
       data: { session: null },
@@ -275,6 +283,30 @@ describe('Transactions Service', () => {
       expect(mockFrom).toHaveBeenCalledWith('transactions');
     });
 
+    it('should record the exchange rate for the transaction date', async () => {
+      const insert = jest.fn().mockReturnThis();
+      (supabase.from as jest.Mock).mockReturnValue({
+        insert,
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: mockTransaction, error: null }),
+      });
+      const fx = { date: '2024-01-15', base: 'USD', rates: { EUR: 0.91, USD: 1 }, source: 'historical' };
+      (buildFxSnapshot as jest.Mock).mockResolvedValue(fx);
+
+      await createTransaction({
+        ...mockTransaction,
+        currency: 'EUR',
+        transaction_date: '2024-01-15',
+        metadata: { note: 'kept' },
+      });
+
+      expect(buildFxSnapshot).toHaveBeenCalledWith('EUR', '2024-01-15', expect.any(String), { cachedOnly: true });
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({ metadata: { note: 'kept', fx } })
+      );
+    });
+
     it('should throw when not authenticated', async () => {
       // Reset all auth mocks to return no user
       (supabase.auth.getSession as jest.Mock).mockResolvedValue({
@@ -434,6 +466,30 @@ describe('Transactions Service', () => {
       expect(result.total).toBe(150);
       expect(result.transactionCount).toBe(2);
     });
+
+    it('should convert amounts at each transaction rate', async () => {
+      const mockFrom = supabase.from as jest.Mock;
+      mockFrom.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        gte: jest.fn().mockReturnThis(),
+        lte: jest.fn().mockResolvedValue({
+          data: [
+            { amount: 100, currency: 'EUR', transaction_date: '2024-01-05', metadata: {}, source: 'email', category: null },
+            { amount: 50, currency: 'AED', transaction_date: '2024-01-06', metadata: {}, source: 'manual', category: null },
+          ],
+          error: null,
+        }),
+      });
+      (convertAtTransactionRate as jest.Mock).mockImplementation(async (amount: number, t: any) =>
+        t.currency === 'EUR' ? amount * 4 : amount
+      );
+
+      const result = await getMonthlySummary();
+
+      expect(result.total).toBe(450);
+      expect(result.bySource).toMatchObject({ email: 400, manual: 50 });
+    });
   });
 
   describe('searchTransactions', () => {
@@ -0,0 +1,196 @@
+/**
+ * Watchlist Service Tests
+ * Price triggers, re-arming and alerts raised on refresh
+ */
+
+import {
+  evaluateWatchlistTriggers,
+  nextTriggerState,
+  withPrice,
+  refreshWatchlist,
+  addToWatchlist,
+} from '../watchlist';
+import { supabase } from '../supabase';
+import { getStockQuotes } from '../quoteProvider';
+import { createAlert, sendAlertNotification } from '../alerts';
+import type { WatchlistItem } from '@/types';
+
+jest.mock('../supabase', () => ({
+  supabase: { from: jest.fn(), auth: { getUser: jest.fn() } },
+}));
+
+jest.mock('../quoteProvider', () => ({
+  getStockQuotes: jest.fn(),
+  getCryptoQuotes: jest.fn(),
+}));
+
+jest.mock('../alerts', () => ({
+  createAlert: jest.fn(),
+  sendAlertNotification: jest.fn(),
+}));
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+interface MockQuery {
+  select: jest.Mock;
+  insert: jest.Mock;
+  update: jest.Mock;
+  eq: jest.Mock;
+  order: jest.Mock;
+  single: jest.Mock;
+  then: (resolve: (result: { data: unknown; error: unknown }) => void) => MockQuery;
+}
+
+function createMockQuery(resolvedData: unknown, error: unknown = null): MockQuery {
+  const mockQuery: MockQuery = {
+    select: jest.fn(() => mockQuery),
+    insert: jest.fn(() => mockQuery),
+    update: jest.fn(() => mockQuery),
+    eq: jest.fn(() => mockQuery),
+    order: jest.fn(() => mockQuery),
+    single: jest.fn(() => Promise.resolve({ data: resolvedData, error })),
+    then: (resolve) => {
+      resolve({ data: resolvedData, error });
+      return mockQuery;
+    },
+  };
+  return mockQuery;
+}
+
+const item = (overrides: Partial<WatchlistItem> = {}): WatchlistItem => ({
+  id: 'watch-1',
+  user_id: 'user-123',
+  symbol: 'NVDA',
+  name: 'NVIDIA',
+  investment_type: 'stock',
+  target_price: null,
+  alert_above: null,
+  alert_below: null,
+  alert_percent_change: null,
+  reference_price: 100,
+  last_price: 100,
+  last_price_update: '2026-10-18T12:00:00Z',
+  notes: null,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-18T12:00:00Z',
+  ...overrides,
+});
+
+const quote = (price: number) => ({
+  quotes: { NVDA: { symbol: 'NVDA', price, currency: 'USD', change: 1, change_percent: 0.8 } },
+  sources: { NVDA: 'fixture' },
+  missing: [],
+});
+
+describe('Watchlist Service', () => {
+  describe('evaluateWatchlistTriggers', () => {
+    it('should fire the target when the price moves through it from either side', () => {
+      expect(evaluateWatchlistTriggers(item({ target_price: 110 }), 112)).toEqual([
+        { type: 'target', symbol: 'NVDA', price: 112, threshold: 110 },
+      ]);
+      expect(evaluateWatchlistTriggers(item({ target_price: 90, last_price: 95 }), 89)).toHaveLength(1);
+      expect(evaluateWatchlistTriggers(item({ target_price: 110, last_price: 112 }), 115)).toEqual([]);
+    });
+
+    it('should fire above/below levels once per crossing', () => {
+      const levels = { alert_above: 120, alert_below: 80 };
+
+      expect(evaluateWatchlistTriggers(item(levels), 121).map((t) => t.type)).toEqual(['above']);
+      expect(evaluateWatchlistTriggers(item({ ...levels, last_price: 121 }), 125)).toEqual([]);
+      expect(evaluateWatchlistTriggers(item(levels), 79).map((t) => t.type)).toEqual(['below']);
+      expect(evaluateWatchlistTriggers(item({ ...levels, last_price: null }), 70).map((t) => t.type)).toEqual(['below']);
+    });
+
+    it('should fire the percent move against the reference price', () => {
+      const watched = item({ alert_percent_change: 5, last_price: 103 });
+
+      expect(evaluateWatchlistTriggers(watched, 104)).toEqual([]);
+      expect(evaluateWatchlistTriggers(watched, 94.333)).toEqual([
+        { type: 'percent_move', symbol: 'NVDA', price: 94.333, threshold: -5.67 },
+      ]);
+    });
+  });
+
+  describe('nextTriggerState', () => {
+    it('should re-arm the percent move from the price it fired at', () => {
+      const watched = item({ alert_percent_change: 5 });
+
+      expect(nextTriggerState(watched, 103, [])).toEqual({ last_price: 103, reference_price: 100 });
+      expect(
+        nextTriggerState(watched, 106, [{ type: 'percent_move', symbol: 'NVDA', price: 106, threshold: 6 }])
+      ).toEqual({ last_price: 106, reference_price: 106 });
+      expect(nextTriggerState(item({ reference_price: null }), 50, [])).toEqual({ last_price: 50, reference_price: 50 });
+    });
+  });
+
+  describe('withPrice', () => {
+    it('should show the distance to target from the current price', () => {
+      const priced = withPrice(item({ target_price: 150 }), { price: 120, currency: 'USD', change: 2, change_percent: 1.7 });
+
+      expect(priced).toMatchObject({ current_price: 120, day_change_percentage: 1.7, distance_to_target: 25 });
+      expect(withPrice(item()).distance_to_target).toBeNull();
+    });
+  });
+
+  describe('refreshWatchlist', () => {
+    beforeEach(() => {
+      (mockSupabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: 'user-123' } } });
+      (createAlert as jest.Mock).mockImplementation(async (alert) => ({ id: 'alert-1', ...alert }));
+      (sendAlertNotification as jest.Mock).mockResolvedValue(true);
+    });
+
+    it('should save the new price and raise a pushed alert for each trigger', async () => {
+      const update = createMockQuery(null);
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(createMockQuery([item({ alert_above: 110 })]))
+        .mockReturnValueOnce(update);
+      (getStockQuotes as jest.Mock).mockResolvedValue(quote(112));
+
+      const result = await refreshWatchlist({ forceRefresh: true });
+
+      expect(getStockQuotes).toHaveBeenCalledWith(['NVDA'], { forceRefresh: true });
+      expect(update.update).toHaveBeenCalledWith(expect.objectContaining({ last_price: 112, reference_price: 100 }));
+      expect(createAlert).toHaveBeenCalledWith(expect.objectContaining({
+        alert_type: 'price_target',
+        title: 'NVDA rose above 110.00 USD',
+        related_entity_id: 'watch-1',
+      }));
+      expect(sendAlertNotification).toHaveBeenCalledWith(expect.objectContaining({ id: 'alert-1' }));
+      expect(result.alerts).toHaveLength(1);
+      expect(result.items[0]).toMatchObject({ current_price: 112, last_price: 112 });
+    });
+
+    it('should not alert when the new price could not be saved', async () => {
+      (mockSupabase.from as jest.Mock)
+        .mockReturnValueOnce(createMockQuery([item({ alert_above: 110 })]))
+        .mockReturnValueOnce(createMockQuery(null, { message: 'offline' }));
+      (getStockQuotes as jest.Mock).mockResolvedValue(quote(112));
+
+      const result = await refreshWatchlist();
+
+      expect(createAlert).not.toHaveBeenCalled();
+      expect(result.alerts).toEqual([]);
+      expect(result.items[0].current_price).toBe(112);
+    });
+  });
+
+  describe('addToWatchlist', () => {
+    it('should reject duplicate symbols with a readable error', async () => {
+      (mockSupabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: 'user-123' } } });
+      (getStockQuotes as jest.Mock).mockResolvedValue(quote(100));
+      (mockSupabase.from as jest.Mock).mockReturnValueOnce(createMockQuery(null, { code: '23505' }));
+
+      await expect(
+        addToWatchlist({ symbol: 'nvda', name: '', investment_type: 'stock' })
+      ).rejects.toThrow('NVDA is already on your watchlist');
+    });
+
+    it('should reject alert levels at or below zero', async () => {
+      (mockSupabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: 'user-123' } } });
+
+      await expect(
+        addToWatchlist({ symbol: 'NVDA', name: 'NVIDIA', investment_type: 'stock', alert_below: 0 })
+      ).rejects.toThrow('Alert levels must be greater than zero');
+    });
+  });
+});
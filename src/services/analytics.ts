@@ -16,13 +16,17 @@ import {
   getDevAssets,
   getDevLiabilities,
   getDevStartOfYearNetWorthSnapshot,
+  getDevNetWorthSnapshotForDate,
+  getDevBills,
   autoSaveNetWorthSnapshot,
   DevBudget,
   DevGoal,
   DevDebt,
 } from './devStorage';
 import { useSettingsStore } from '@/stores/settingsStore';
-import { convertCurrency } from './currencyConverter';
+import { convertAtTransactionRate } from './rateHistory';
+import { getMerchantResolver } from './merchants';
+import { addDays, getNextOccurrence, ruleFromFrequency } from './recurrence';
 import type { TransactionWithCategory, CategorySpending } from '@/types';
 
 // Dev transactions have a 'type' field added by devStorage that doesn't exist on the base Transaction type.
@@ -93,7 +97,7 @@ export interface SpendingVelocity {
 // TYPES - Period
 // ============================================
 
-export type AnalyticsPeriod = 'week' | 'month' | 'year';
+export type AnalyticsPeriod = 'week' | 'month' | 'last_month' | 'year';
 
 // ============================================
 // HELPER FUNCTIONS
@@ -118,6 +122,15 @@ function getWeekOfMonth(date: Date): number {
   return Math.ceil((dayOfMonth + firstDayOfWeek) / 7);
 }
 
+/**
+ * YYYY-MM-DD in local time (toISOString would shift it to UTC)
+ */
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
 /**
  * Get date range based on period type
  */
@@ -140,6 +153,11 @@ function getPeriodDateRange(period: AnalyticsPeriod): { start: Date; end: Date }
       start = new Date(now.getFullYear(), now.getMonth(), 1);
       start.setHours(0, 0, 0, 0);
       break;
+    case 'last_month':
+      // Previous calendar month
+      start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+      end.setTime(new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59, 999).getTime());
+      break;
     case 'year':
       // Current calendar year
       start = new Date(now.getFullYear(), 0, 1);
@@ -176,6 +194,13 @@ function getPreviousPeriodDateRange(period: AnalyticsPeriod): { start: Date; end
       end.setHours(23, 59, 59, 999);
       return { start, end };
     }
+    case 'last_month': {
+      // The calendar month before last
+      const start = new Date(now.getFullYear(), now.getMonth() - 2, 1);
+      const end = new Date(now.getFullYear(), now.getMonth() - 1, 0);
+      end.setHours(23, 59, 59, 999);
+      return { start, end };
+    }
     case 'year': {
       // Previous calendar year
       const start = new Date(now.getFullYear() - 1, 0, 1);
@@ -221,7 +246,7 @@ export async function getCashFlowTrend(months: number = 12): Promise<CashFlowDat
 
       if (txCurrency !== userCurrency) {
         try {
-          amount = await convertCurrency(amount, txCurrency, userCurrency);
+          amount = await convertAtTransactionRate(amount, t, userCurrency);
         } catch (error) {
           // Use original amount if conversion fails
         }
@@ -288,7 +313,7 @@ export async function getSpendingHeatmap(period: AnalyticsPeriod = 'month'): Pro
 
     if (txCurrency !== userCurrency) {
       try {
-        amount = await convertCurrency(amount, txCurrency, userCurrency);
+        amount = await convertAtTransactionRate(amount, t, userCurrency);
       } catch (error) {
         // Use original amount
       }
@@ -342,6 +367,7 @@ export async function getSpendingHeatmap(period: AnalyticsPeriod = 'month'): Pro
 export async function getTopMerchants(limit: number = 5, period: AnalyticsPeriod = 'month'): Promise<MerchantData[]> {
   const transactions = await getDevTransactions() as DevTransaction[];
   const userCurrency = useSettingsStore.getState().currency || 'AED';
+  const resolve = await getMerchantResolver();
 
   const { start, end } = getPeriodDateRange(period);
 
@@ -352,38 +378,39 @@ export async function getTopMerchants(limit: number = 5, period: AnalyticsPeriod
            (t.type === 'expense' || Number(t.amount) < 0);
   });
 
-  // Group by merchant
-  const merchantMap = new Map<string, { amount: number; count: number }>();
+  // Group by canonical merchant, so descriptor variants count as one
+  const merchantMap = new Map<string, { merchant: string; amount: number; count: number }>();
 
   for (const t of periodExpenses) {
-    const merchantName = t.merchant_name_clean || t.merchant_name || 'Unknown';
+    const { key, name } = resolve(t.merchant_name);
     const txCurrency = t.currency || 'AED';
     let amount = Math.abs(Number(t.amount));
 
     if (txCurrency !== userCurrency) {
       try {
-        amount = await convertCurrency(amount, txCurrency, userCurrency);
+        amount = await convertAtTransactionRate(amount, t, userCurrency);
       } catch (error) {}
     }
 
-    const existing = merchantMap.get(merchantName) || { amount: 0, count: 0 };
-    merchantMap.set(merchantName, {
+    const existing = merchantMap.get(key) || { merchant: name, amount: 0, count: 0 };
+    merchantMap.set(key, {
+      merchant: existing.merchant,
       amount: existing.amount + amount,
       count: existing.count + 1,
     });
   }
 
   // Sort by amount and take top N
-  const sorted = Array.from(merchantMap.entries())
-    .sort((a, b) => b[1].amount - a[1].amount)
+  const sorted = Array.from(merchantMap.values())
+    .sort((a, b) => b.amount - a.amount)
     .slice(0, limit);
 
   // Calculate total for percentages
-  const total = sorted.reduce((sum, [_, data]) => sum + data.amount, 0);
+  const total = sorted.reduce((sum, data) => sum + data.amount, 0);
 
-  return sorted.map(([merchant, data], index) => ({
+  return sorted.map((data, index) => ({
     rank: index + 1,
-    merchant,
+    merchant: data.merchant,
     amount: data.amount,
     count: data.count,
     percentage: total > 0 ? (data.amount / total) * 100 : 0,
@@ -427,7 +454,7 @@ export async function getBurnRate(period: AnalyticsPeriod = 'month'): Promise<Bu
     let amount = Math.abs(Number(t.amount));
     if (txCurrency !== userCurrency) {
       try {
-        amount = await convertCurrency(amount, txCurrency, userCurrency);
+        amount = await convertAtTransactionRate(amount, t, userCurrency);
       } catch (error) {}
     }
     currentExpenses += amount;
@@ -446,7 +473,7 @@ export async function getBurnRate(period: AnalyticsPeriod = 'month'): Promise<Bu
     let amount = Math.abs(Number(t.amount));
     if (txCurrency !== userCurrency) {
       try {
-        amount = await convertCurrency(amount, txCurrency, userCurrency);
+        amount = await convertAtTransactionRate(amount, t, userCurrency);
       } catch (error) {}
     }
     prevTotal += amount;
@@ -515,7 +542,7 @@ export async function getMonthlyKPIs(period: AnalyticsPeriod = 'month'): Promise
 
       if (txCurrency !== userCurrency) {
         try {
-          amount = await convertCurrency(amount, txCurrency, userCurrency);
+          amount = await convertAtTransactionRate(amount, t, userCurrency);
         } catch (error) {}
       }
 
@@ -553,16 +580,19 @@ export async function getMonthlyKPIs(period: AnalyticsPeriod = 'month'): Promise
 // ============================================
 
 /**
- * Get budget performance for all budgets
+ * Get budget performance for all budgets, for this month or last month
  */
-export async function getBudgetPerformance(): Promise<BudgetPerformance[]> {
+export async function getBudgetPerformance(
+  period: 'month' | 'last_month' = 'month'
+): Promise<BudgetPerformance[]> {
   const budgets = await getDevBudgets();
   const transactions = await getDevTransactions() as DevTransaction[];
   const userCurrency = useSettingsStore.getState().currency || 'AED';
 
   const now = new Date();
-  const startOfMonth = getStartOfMonth(now);
-  const endOfMonth = getEndOfMonth(now);
+  const { start: startOfMonth, end: endOfMonth } = period === 'last_month'
+    ? getPeriodDateRange('last_month')
+    : { start: getStartOfMonth(now), end: getEndOfMonth(now) };
 
   const result: BudgetPerformance[] = [];
 
@@ -585,7 +615,7 @@ export async function getBudgetPerformance(): Promise<BudgetPerformance[]> {
 
       if (txCurrency !== userCurrency) {
         try {
-          amount = await convertCurrency(amount, txCurrency, userCurrency);
+          amount = await convertAtTransactionRate(amount, t, userCurrency);
         } catch (error) {
           // Use original amount
         }
@@ -654,7 +684,7 @@ export async function getSpendingVelocity(): Promise<SpendingVelocity> {
       const txCurrency = t.currency || 'AED';
       if (txCurrency !== userCurrency) {
         try {
-          amount = await convertCurrency(amount, txCurrency, userCurrency);
+          amount = await convertAtTransactionRate(amount, t, userCurrency);
         } catch (error) {}
       }
       total += amount;
@@ -725,7 +755,7 @@ export async function getCategorySpending(period: AnalyticsPeriod = 'month'): Pr
 
     if (txCurrency !== userCurrency) {
       try {
-        amount = await convertCurrency(amount, txCurrency, userCurrency);
+        amount = await convertAtTransactionRate(amount, t, userCurrency);
       } catch (error) {}
     }
 
@@ -846,22 +876,24 @@ export interface NetWorthData {
 }
 
 /**
- * Get net worth summary
+ * Get net worth summary. With `since`, change is measured against the
+ * closest snapshot on or before that date.
  */
-export async function getNetWorthSummary(): Promise<NetWorthData> {
-  const [assets, liabilities] = await Promise.all([
+export async function getNetWorthSummary(since?: Date): Promise<NetWorthData> {
+  const [assets, liabilities, snapshot] = await Promise.all([
     getDevAssets(),
     getDevLiabilities(),
+    since ? getDevNetWorthSnapshotForDate(since) : Promise.resolve(null),
   ]);
 
   const totalAssets = assets.reduce((sum, a) => sum + a.value, 0);
   const totalLiabilities = liabilities.reduce((sum, l) => sum + l.value, 0);
   const netWorth = totalAssets - totalLiabilities;
 
-  // For change tracking, we'd need historical data
-  // For now, use placeholder
-  const change = 0;
-  const changePercentage = 0;
+  const change = snapshot ? netWorth - snapshot.net_worth : 0;
+  const changePercentage = snapshot && snapshot.net_worth !== 0
+    ? (change / Math.abs(snapshot.net_worth)) * 100
+    : 0;
 
   return {
     netWorth,
@@ -944,6 +976,51 @@ export async function getSubscriptionAnalytics(): Promise<SubscriptionAnalytics>
   };
 }
 
+// ============================================
+// UPCOMING BILLS
+// ============================================
+
+export interface UpcomingBill {
+  id: string;
+  name: string;
+  amount: number;
+  date: string;
+}
+
+/**
+ * Get unpaid bills falling due in the next `days` days. Each bill repeats by
+ * its frequency from the first due day after it was added; is_paid covers
+ * the occurrence currently due, so a paid bill shows its following one.
+ */
+export async function getUpcomingBills(days: number = 7): Promise<UpcomingBill[]> {
+  const bills = await getDevBills();
+
+  const today = toDateString(new Date());
+  const horizon = addDays(today, days);
+
+  const upcoming: UpcomingBill[] = [];
+
+  for (const bill of bills) {
+    const added = (bill.created_at || today).slice(0, 10);
+    const firstDue = getNextOccurrence(ruleFromFrequency('monthly', added, { dayOfMonth: bill.due_date }), added);
+    if (!firstDue) continue;
+
+    const rule = ruleFromFrequency(bill.frequency, firstDue, { dayOfMonth: bill.due_date });
+    let due = getNextOccurrence(rule, today);
+    if (due && bill.is_paid) due = getNextOccurrence(rule, addDays(due, 1));
+    if (!due || due > horizon) continue;
+
+    upcoming.push({
+      id: bill.id,
+      name: bill.name,
+      amount: bill.amount,
+      date: due,
+    });
+  }
+
+  return upcoming.sort((a, b) => a.date.localeCompare(b.date));
+}
+
 // ============================================
 // BUDGET EFFICIENCY
 // ============================================
@@ -1026,7 +1103,7 @@ export async function getDailyBreakdown(): Promise<WeeklySummary> {
 
     if (txCurrency !== userCurrency) {
       try {
-        amount = await convertCurrency(amount, txCurrency, userCurrency);
+        amount = await convertAtTransactionRate(amount, t, userCurrency);
       } catch (error) {}
     }
 
@@ -1124,7 +1201,7 @@ export async function getWeekComparison(): Promise<WeekComparison> {
       let amount = Math.abs(Number(t.amount));
       if (txCurrency !== userCurrency) {
         try {
-          amount = await convertCurrency(amount, txCurrency, userCurrency);
+          amount = await convertAtTransactionRate(amount, t, userCurrency);
         } catch (error) {}
       }
       total += amount;
@@ -1211,7 +1288,7 @@ export async function getWeekProjection(): Promise<WeekProjection> {
     let amount = Math.abs(Number(t.amount));
     if (txCurrency !== userCurrency) {
       try {
-        amount = await convertCurrency(amount, txCurrency, userCurrency);
+        amount = await convertAtTransactionRate(amount, t, userCurrency);
       } catch (error) {}
     }
     currentSpend += amount;
@@ -1233,7 +1310,7 @@ export async function getWeekProjection(): Promise<WeekProjection> {
     let amount = Math.abs(Number(t.amount));
     if (txCurrency !== userCurrency) {
       try {
-        amount = await convertCurrency(amount, txCurrency, userCurrency);
+        amount = await convertAtTransactionRate(amount, t, userCurrency);
       } catch (error) {}
     }
     lastWeekTotal += amount;
@@ -1312,7 +1389,7 @@ export async function getMonthByMonthTrend(): Promise<YearlyTrend> {
 
       if (txCurrency !== userCurrency) {
         try {
-          amount = await convertCurrency(amount, txCurrency, userCurrency);
+          amount = await convertAtTransactionRate(amount, t, userCurrency);
         } catch (error) {}
       }
 
@@ -1422,7 +1499,7 @@ export async function getYearOverYearComparison(): Promise<YearOverYear> {
 
       if (txCurrency !== userCurrency) {
         try {
-          amount = await convertCurrency(amount, txCurrency, userCurrency);
+          amount = await convertAtTransactionRate(amount, t, userCurrency);
         } catch (error) {}
       }
 
@@ -1688,6 +1765,7 @@ export default {
   getDebtOverview,
   getNetWorthSummary,
   getSubscriptionAnalytics,
+  getUpcomingBills,
   getBudgetEfficiency,
   // Weekly Analytics
   getDailyBreakdown,
@@ -271,6 +271,8 @@ export const devSignIn: (() => Promise<AuthResult>) | undefined = __DEV__
           notification_preferences: {
             push_enabled: true,
             email_digest: false,
+            email_digest_frequency: 'weekly',
+            email_digest_day: 1,
             alert_unusual_spending: true,
             alert_subscriptions: true,
             alert_budget: true,
@@ -503,6 +505,8 @@ export async function getCurrentUser(): Promise<User | null> {
 const DEFAULT_NOTIFICATION_PREFERENCES = {
   push_enabled: true,
   email_digest: false,
+  email_digest_frequency: 'weekly',
+  email_digest_day: 1,
   alert_unusual_spending: true,
   alert_subscriptions: true,
   alert_budget: true,
@@ -0,0 +1,1128 @@
+/**
+ * Backup & Restore Service
+ * Versioned full-account JSON backups. Records are stored in the database
+ * shape, so a backup taken in dev mode can be restored into a real account
+ * and vice versa. Restores validate the file, migrate older versions, give
+ * every record a fresh ID and either merge with or replace existing data.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+import { getDevCollection, setDevCollection, type DevCollection } from './devStorage';
+import { DEFAULT_CATEGORIES, getCategoryById } from '@/config/categories';
+import { useAuthStore } from '@/stores/authStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useCategoryStore, type Category as LocalCategory } from '@/stores/categoryStore';
+import { isDevMode } from '@/utils/devMode';
+import { logger } from '@/utils/logger';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const BACKUP_FORMAT = 'spendtrak-backup';
+export const BACKUP_VERSION = 2;
+
+export type BackupCollection =
+  | 'categories'
+  | 'transactions'
+  | 'transactionSplits'
+  | 'receiptItems'
+  | 'subscriptions'
+  | 'subscriptionCharges'
+  | 'budgets'
+  | 'budgetHistory'
+  | 'goals'
+  | 'bills'
+  | 'debts'
+  | 'assets'
+  | 'liabilities'
+  | 'netWorthSnapshots'
+  | 'investmentHoldings'
+  | 'cryptoHoldings'
+  | 'investmentTransactions';
+
+/**
+ * A record in database column shape. Keys starting with `_` are hints that
+ * never reach the database: `_device` keeps the original dev-mode record so
+ * device-to-device restores are lossless, `_category_name` helps match
+ * categories across accounts.
+ */
+export type BackupRecord = Record<string, unknown> & { id: string };
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  /** Where the backup was taken: dev-mode device storage or the cloud database */
+  source: 'device' | 'cloud';
+  data: Record<BackupCollection, BackupRecord[]>;
+  preferences: {
+    settings: Record<string, unknown>;
+    customCategories: LocalCategory[];
+  };
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupPreview {
+  version: number;
+  /** Version the file was written with, before migration */
+  originalVersion: number;
+  createdAt: string;
+  source: BackupFile['source'];
+  counts: Record<BackupCollection, number>;
+  total: number;
+}
+
+export interface RestoreResult {
+  mode: RestoreMode;
+  restored: Partial<Record<BackupCollection, number>>;
+  skipped: Partial<Record<BackupCollection, number>>;
+  failed: Partial<Record<BackupCollection, number>>;
+  warnings: string[];
+}
+
+/** A replace restore failed and the account's previous data was put back */
+export class RestoreRolledBackError extends Error {
+  result: RestoreResult;
+  constructor(message: string, result: RestoreResult) {
+    super(message);
+    this.name = 'RestoreRolledBackError';
+    this.result = result;
+  }
+}
+
+export class BackupValidationError extends Error {
+  issues: string[];
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'BackupValidationError';
+    this.issues = issues;
+  }
+}
+
+type RestoreTarget = 'device' | 'cloud';
+
+/** What a replace restore overwrites, kept so a failed restore can be undone */
+interface RestoreSnapshot {
+  /** Cloud rows, or dev storage records exactly as stored */
+  records: Partial<Record<BackupCollection, Record<string, unknown>[]>>;
+  preferences: BackupFile['preferences'];
+}
+
+interface CollectionSpec {
+  key: BackupCollection;
+  /** Supabase table, when the collection exists in the cloud */
+  table?: string;
+  /** Dev storage collection, when the collection exists in dev mode */
+  device?: DevCollection;
+  /** Table has a user_id column */
+  userScoped: boolean;
+  /** Required link to a parent record; children of unrestored parents are skipped */
+  parent?: { field: string; collection: BackupCollection };
+  /** Fields holding IDs of other records */
+  references: string[];
+  /** Fields every record must have, with their type */
+  required: Record<string, 'string' | 'number'>;
+  /** Identity used to spot duplicates when merging */
+  naturalKey: (record: BackupRecord) => string;
+  /** Dev-mode record to database shape */
+  fromDevice?: (record: BackupRecord) => BackupRecord;
+  /** Database shape to dev-mode record (used when the record didn't come from a device) */
+  toDevice?: (record: BackupRecord) => Record<string, unknown>;
+}
+
+// ============================================
+// COLLECTIONS
+// ============================================
+
+const lower = (value: unknown): string => String(value ?? '').trim().toLowerCase();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A field of a value that may not be an object */
+const fieldOf = (value: unknown, key: string): unknown => (isObject(value) ? value[key] : undefined);
+
+const categoryName = (categoryId: unknown): string | undefined =>
+  typeof categoryId === 'string' ? getCategoryById(categoryId)?.name : undefined;
+
+/** Keep the dev record and drop the embedded category join */
+function deviceRecord(record: BackupRecord): BackupRecord {
+  const { category, ...rest } = record;
+  return {
+    ...rest,
+    _category_name: fieldOf(category, 'name') ?? categoryName(record.category_id),
+    _device: rest,
+  };
+}
+
+// Restored in this order; replace mode deletes in reverse
+const COLLECTIONS: CollectionSpec[] = [
+  {
+    key: 'categories',
+    table: 'categories',
+    userScoped: true,
+    references: [],
+    required: { name: 'string' },
+    naturalKey: (r) => lower(r.name),
+  },
+  {
+    key: 'transactions',
+    table: 'transactions',
+    device: 'TRANSACTIONS',
+    userScoped: true,
+    references: ['category_id', 'bank_account_id'],
+    required: { amount: 'number', transaction_date: 'string', merchant_name: 'string' },
+    naturalKey: (r) => `${r.transaction_date}|${Number(r.amount).toFixed(2)}|${lower(r.merchant_name)}`,
+    fromDevice: deviceRecord,
+  },
+  {
+    key: 'transactionSplits',
+    table: 'transaction_splits',
+    userScoped: false,
+    parent: { field: 'transaction_id', collection: 'transactions' },
+    references: ['category_id'],
+    required: { amount: 'number' },
+    naturalKey: (r) => `${r.transaction_id}|${r.category_id}|${Number(r.amount).toFixed(2)}`,
+  },
+  {
+    key: 'receiptItems',
+    table: 'receipt_items',
+    device: 'RECEIPT_ITEMS',
+    userScoped: true,
+    parent: { field: 'transaction_id', collection: 'transactions' },
+    // Receipt scans aren't backed up, so receipt_scan_id is cleared on restore
+    references: ['category_id', 'receipt_scan_id'],
+    required: { name: 'string', total_price: 'number' },
+    naturalKey: (r) => `${r.transaction_id}|${r.position}|${lower(r.name)}`,
+    fromDevice: deviceRecord,
+  },
+  {
+    key: 'subscriptions',
+    table: 'subscriptions',
+    device: 'SUBSCRIPTIONS',
+    userScoped: true,
+    references: ['category_id'],
+    required: { merchant_name: 'string', amount: 'number' },
+    naturalKey: (r) => `${lower(r.merchant_name)}|${Number(r.amount).toFixed(2)}|${r.frequency}`,
+    fromDevice: deviceRecord,
+  },
+  {
+    key: 'subscriptionCharges',
+    table: 'subscription_charges',
+    device: 'SUBSCRIPTION_CHARGES',
+    userScoped: true,
+    parent: { field: 'subscription_id', collection: 'subscriptions' },
+    references: ['transaction_id'],
+    required: { amount: 'number', charged_on: 'string' },
+    naturalKey: (r) => `${r.subscription_id}|${r.charged_on}|${Number(r.amount).toFixed(2)}`,
+  },
+  {
+    key: 'budgets',
+    table: 'budgets',
+    device: 'BUDGETS',
+    userScoped: true,
+    references: ['category_id'],
+    required: { amount: 'number' },
+    naturalKey: (r) => `${r.category_id ?? lower(r.name)}|${r.period ?? 'monthly'}`,
+    fromDevice: (d) => {
+      const base = deviceRecord(d);
+      return { ...base, name: fieldOf(d.category, 'name') ?? base._category_name ?? null, period: 'monthly' };
+    },
+    toDevice: (r) => ({
+      id: r.id,
+      user_id: r.user_id,
+      category_id: r.category_id,
+      amount: r.amount,
+      alert_threshold: r.alert_threshold ?? 80,
+      is_active: r.is_active ?? true,
+      created_at: r.created_at,
+      updated_at: r.updated_at,
+    }),
+  },
+  {
+    key: 'budgetHistory',
+    table: 'budget_history',
+    userScoped: false,
+    parent: { field: 'budget_id', collection: 'budgets' },
+    references: [],
+    required: { period_start: 'string' },
+    naturalKey: (r) => `${r.budget_id}|${r.period_start}`,
+  },
+  {
+    key: 'goals',
+    table: 'financial_goals',
+    device: 'GOALS',
+    userScoped: true,
+    references: [],
+    required: { name: 'string', target_amount: 'number' },
+    naturalKey: (r) => lower(r.name),
+    fromDevice: (d) => ({ ...d, _device: d }),
+  },
+  {
+    key: 'bills',
+    table: 'bills',
+    device: 'BILLS',
+    userScoped: true,
+    references: ['category_id', 'household_id'],
+    required: { name: 'string', amount: 'number' },
+    naturalKey: (r) => `${lower(r.name)}|${Number(r.amount).toFixed(2)}`,
+    fromDevice: (d) => ({
+      id: d.id,
+      user_id: d.user_id,
+      name: d.name,
+      amount: d.amount,
+      due_day: d.due_date,
+      frequency: d.frequency,
+      notes: d.notes ?? null,
+      is_active: true,
+      created_at: d.created_at,
+      updated_at: d.updated_at,
+      _category_name: categoryName(d.category) ?? d.category,
+      _device: d,
+    }),
+    toDevice: (r) => ({
+      id: r.id,
+      user_id: r.user_id,
+      name: r.name,
+      amount: r.amount,
+      due_date: r.due_day ?? 1,
+      category: r.category_id ?? 'other',
+      icon: 'receipt',
+      is_paid: false,
+      frequency: r.frequency ?? 'monthly',
+      notes: r.notes ?? undefined,
+      created_at: r.created_at,
+      updated_at: r.updated_at,
+    }),
+  },
+  {
+    key: 'debts',
+    table: 'debts',
+    device: 'DEBTS',
+    userScoped: true,
+    references: [],
+    required: { name: 'string' },
+    naturalKey: (r) => lower(r.name),
+    fromDevice: (d) => ({
+      id: d.id,
+      user_id: d.user_id,
+      name: d.name,
+      debt_type: d.type,
+      current_balance: d.balance,
+      original_balance: d.original_balance ?? d.balance,
+      interest_rate: d.interest_rate,
+      minimum_payment: d.minimum_payment,
+      is_active: d.status !== 'paid_off',
+      created_at: d.created_at,
+      updated_at: d.updated_at,
+      _device: d,
+    }),
+    toDevice: (r) => ({
+      id: r.id,
+      user_id: r.user_id,
+      name: r.name,
+      type: r.debt_type ?? 'other',
+      balance: r.current_balance ?? 0,
+      original_balance: r.original_balance ?? r.current_balance ?? 0,
+      interest_rate: r.interest_rate ?? 0,
+      minimum_payment: r.minimum_payment ?? 0,
+      icon: 'card',
+      status: r.is_active === false ? 'paid_off' : 'active',
+      created_at: r.created_at,
+      updated_at: r.updated_at,
+    }),
+  },
+  {
+    key: 'assets',
+    table: 'assets',
+    device: 'ASSETS',
+    userScoped: true,
+    references: [],
+    required: { name: 'string' },
+    naturalKey: (r) => lower(r.name),
+    fromDevice: (d) => ({
+      id: d.id,
+      user_id: d.user_id,
+      name: d.name,
+      asset_type: d.category,
+      current_value: d.value,
+      notes: d.notes ?? null,
+      created_at: d.created_at,
+      updated_at: d.updated_at,
+      _device: d,
+    }),
+    toDevice: (r) => ({
+      id: r.id,
+      user_id: r.user_id,
+      name: r.name,
+      category: r.asset_type ?? 'other',
+      value: r.current_value ?? 0,
+      icon: 'wallet',
+      notes: r.notes ?? undefined,
+      created_at: r.created_at,
+      updated_at: r.updated_at,
+    }),
+  },
+  {
+    key: 'liabilities',
+    table: 'liabilities',
+    device: 'LIABILITIES',
+    userScoped: true,
+    references: ['linked_debt_id'],
+    required: { name: 'string' },
+    naturalKey: (r) => lower(r.name),
+    fromDevice: (d) => ({
+      id: d.id,
+      user_id: d.user_id,
+      name: d.name,
+      liability_type: d.category,
+      current_balance: d.value,
+      interest_rate: d.interest_rate ?? null,
+      notes: d.notes ?? null,
+      created_at: d.created_at,
+      updated_at: d.updated_at,
+      _device: d,
+    }),
+    toDevice: (r) => ({
+      id: r.id,
+      user_id: r.user_id,
+      name: r.name,
+      category: r.liability_type ?? 'other',
+      value: r.current_balance ?? 0,
+      icon: 'card',
+      interest_rate: r.interest_rate ?? undefined,
+      notes: r.notes ?? undefined,
+      created_at: r.created_at,
+      updated_at: r.updated_at,
+    }),
+  },
+  {
+    key: 'netWorthSnapshots',
+    device: 'NET_WORTH_SNAPSHOTS',
+    userScoped: true,
+    references: [],
+    required: { date: 'string' },
+    naturalKey: (r) => String(r.date),
+    fromDevice: (d) => ({ ...d, _device: d }),
+  },
+  {
+    key: 'investmentHoldings',
+    table: 'investment_holdings',
+    userScoped: true,
+    references: ['bank_account_id'],
+    required: { symbol: 'string' },
+    naturalKey: (r) => `${lower(r.symbol)}|${lower(r.institution)}`,
+  },
+  {
+    key: 'cryptoHoldings',
+    table: 'crypto_holdings',
+    userScoped: true,
+    references: [],
+    required: { symbol: 'string' },
+    naturalKey: (r) => `${lower(r.symbol)}|${lower(r.exchange)}|${lower(r.wallet_address)}`,
+  },
+  {
+    key: 'investmentTransactions',
+    table: 'investment_transactions',
+    userScoped: true,
+    references: ['holding_id'],
+    required: { transaction_date: 'string' },
+    naturalKey: (r) => `${lower(r.symbol)}|${r.type}|${r.transaction_date}|${r.quantity}|${r.price_per_unit}`,
+  },
+];
+
+const COLLECTION_KEYS = COLLECTIONS.map((spec) => spec.key);
+
+// Settings worth carrying to a new device. Premium state comes from the store
+// receipt and consent has to be given again on each device, so neither is restored.
+const BACKED_UP_SETTINGS = [
+  'theme',
+  'language',
+  'currency',
+  'currencySymbol',
+  'pushNotifications',
+  'emailDigest',
+  'alertUnusualSpending',
+  'alertSubscriptions',
+  'alertBudget',
+  'alertBills',
+  'quietHoursEnabled',
+  'quietHoursStart',
+  'quietHoursEnd',
+  'showCents',
+  'weekStartsOn',
+  'dateFormat',
+  'quantumSoundsEnabled',
+] as const;
+
+const emptyData = (): Record<BackupCollection, BackupRecord[]> =>
+  Object.fromEntries(COLLECTION_KEYS.map((key) => [key, []])) as unknown as Record<BackupCollection, BackupRecord[]>;
+
+const FETCH_PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 200;
+const ID_CHUNK_SIZE = 200;
+
+// ============================================
+// CREATE BACKUP
+// ============================================
+
+async function getCloudUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  return user.id;
+}
+
+/**
+ * Fetch every row matching a filter, page by page
+ */
+async function fetchAllRows(table: string, column: string, values: string[]): Promise<BackupRecord[]> {
+  const rows: BackupRecord[] = [];
+
+  for (let i = 0; i < values.length; i += ID_CHUNK_SIZE) {
+    const chunk = values.slice(i, i + ID_CHUNK_SIZE);
+    for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .in(column, chunk)
+        .range(from, from + FETCH_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...((data || []) as BackupRecord[]));
+      if (!data || data.length < FETCH_PAGE_SIZE) break;
+    }
+  }
+
+  return rows;
+}
+
+async function readCloudData(): Promise<Record<BackupCollection, BackupRecord[]>> {
+  const userId = await getCloudUserId();
+  const data = emptyData();
+
+  // Category names let records find the matching category in another account
+  const { data: categories } = await supabase.from('categories').select('id, name');
+  const categoryNames = new Map(
+    ((categories || []) as Array<{ id: string; name: string }>).map((category) => [category.id, category.name])
+  );
+
+  for (const spec of COLLECTIONS) {
+    if (!spec.table) continue;
+
+    if (spec.parent) {
+      const parentIds = data[spec.parent.collection].map((record) => record.id);
+      data[spec.key] = parentIds.length > 0 ? await fetchAllRows(spec.table, spec.parent.field, parentIds) : [];
+    } else {
+      data[spec.key] = await fetchAllRows(spec.table, 'user_id', [userId]);
+    }
+
+    if (spec.references.includes('category_id')) {
+      data[spec.key] = data[spec.key].map((record) => ({
+        ...record,
+        _category_name: categoryNames.get(String(record.category_id)),
+      }));
+    }
+  }
+
+  return data;
+}
+
+async function readDeviceData(): Promise<Record<BackupCollection, BackupRecord[]>> {
+  const data = emptyData();
+
+  for (const spec of COLLECTIONS) {
+    if (!spec.device) continue;
+    const records = await getDevCollection<BackupRecord>(spec.device);
+    data[spec.key] = records.map((record) => (spec.fromDevice ? spec.fromDevice(record) : record));
+  }
+
+  return data;
+}
+
+function readPreferences(): BackupFile['preferences'] {
+  const state = useSettingsStore.getState() as unknown as Record<string, unknown>;
+  const settings: Record<string, unknown> = {};
+  for (const key of BACKED_UP_SETTINGS) {
+    settings[key] = state[key];
+  }
+
+  return {
+    settings,
+    customCategories: useCategoryStore.getState().customCategories,
+  };
+}
+
+/**
+ * Build a backup of everything the current user has, from dev storage in
+ * dev mode or from the database otherwise
+ */
+export async function createBackup(): Promise<BackupFile> {
+  const source = isDevMode() ? 'device' : 'cloud';
+  const data = source === 'device' ? await readDeviceData() : await readCloudData();
+
+  logger.storage.info(`Created ${source} backup with ${countRecords(data)} records`);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    source,
+    data,
+    preferences: readPreferences(),
+  };
+}
+
+function countRecords(data: Record<BackupCollection, BackupRecord[]>): number {
+  return COLLECTION_KEYS.reduce((sum, key) => sum + (data[key]?.length || 0), 0);
+}
+
+// ============================================
+// VALIDATION & MIGRATION
+// ============================================
+
+/**
+ * Version 1 is the "all data" dump written by exportAllDataJSON before
+ * backups were versioned: cloud rows with joined categories and computed
+ * budget progress.
+ */
+function migrateV1(raw: Record<string, unknown>): Record<string, unknown> {
+  const strip = (records: unknown, fields: string[]): BackupRecord[] =>
+    (Array.isArray(records) ? records : []).map((record: unknown) => {
+      // Non-objects are kept so validation reports them
+      if (!isObject(record)) return record as BackupRecord;
+      const copy: Record<string, unknown> = { ...record, _category_name: fieldOf(record.category, 'name') };
+      for (const field of fields) delete copy[field];
+      return copy as BackupRecord;
+    });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: 2,
+    createdAt: typeof raw.exportDate === 'string' ? raw.exportDate : new Date().toISOString(),
+    source: 'cloud',
+    data: {
+      ...emptyData(),
+      transactions: strip(fieldOf(raw.transactions, 'data'), ['category']),
+      subscriptions: strip(fieldOf(raw.subscriptions, 'data'), ['category']),
+      budgets: strip(fieldOf(raw.budgets, 'data'), ['category', 'spent', 'remaining', 'percentage']),
+    },
+    preferences: { settings: {}, customCategories: [] },
+  };
+}
+
+/** Upgrades from each version to the next */
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  1: migrateV1,
+};
+
+function detectVersion(raw: unknown): number {
+  if (!isObject(raw)) {
+    throw new BackupValidationError('This file is not a SpendTrak backup');
+  }
+  if (raw.format === BACKUP_FORMAT) {
+    if (typeof raw.version !== 'number' || !Number.isInteger(raw.version)) {
+      throw new BackupValidationError('Backup version is missing');
+    }
+    return raw.version;
+  }
+  if (raw.dataType === 'all' && typeof raw.exportDate === 'string') {
+    return 1;
+  }
+  throw new BackupValidationError('This file is not a SpendTrak backup');
+}
+
+function validateRecords(file: BackupFile): string[] {
+  const issues: string[] = [];
+
+  for (const spec of COLLECTIONS) {
+    const records = file.data[spec.key];
+    if (!Array.isArray(records)) {
+      issues.push(`${spec.key}: expected a list`);
+      continue;
+    }
+
+    const seen = new Set<string>();
+    records.forEach((record, index) => {
+      if (!record || typeof record !== 'object') {
+        issues.push(`${spec.key}[${index}]: not an object`);
+        return;
+      }
+      if (typeof record.id !== 'string' || record.id === '') {
+        issues.push(`${spec.key}[${index}]: missing id`);
+      } else if (seen.has(record.id)) {
+        issues.push(`${spec.key}[${index}]: duplicate id ${record.id}`);
+      } else {
+        seen.add(record.id);
+      }
+      for (const [field, type] of Object.entries(spec.required)) {
+        const value = type === 'number' ? Number(record[field]) : record[field];
+        if (type === 'number' ? !Number.isFinite(value) : typeof value !== 'string') {
+          issues.push(`${spec.key}[${index}]: ${field} should be a ${type}`);
+        }
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Check a parsed backup and bring it up to the current version.
+ * Throws BackupValidationError listing what's wrong.
+ */
+export function parseBackup(input: unknown): { backup: BackupFile; originalVersion: number } {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new BackupValidationError('Backup file is not valid JSON');
+    }
+  }
+
+  const originalVersion = detectVersion(raw);
+  if (originalVersion > BACKUP_VERSION) {
+    throw new BackupValidationError('This backup was made by a newer version of SpendTrak. Update the app to restore it.');
+  }
+  if (originalVersion < 1) {
+    throw new BackupValidationError(`Unsupported backup version ${originalVersion}`);
+  }
+
+  let migrated = isObject(raw) ? raw : {};
+  for (let version = originalVersion; version < BACKUP_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+
+  const data = isObject(migrated.data) ? (migrated.data as Partial<Record<BackupCollection, BackupRecord[]>>) : {};
+  const settings = fieldOf(migrated.preferences, 'settings');
+  const customCategories = fieldOf(migrated.preferences, 'customCategories');
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: typeof migrated.createdAt === 'string' ? migrated.createdAt : new Date().toISOString(),
+    source: migrated.source === 'device' ? 'device' : 'cloud',
+    data: { ...emptyData(), ...data },
+    preferences: {
+      settings: isObject(settings) ? settings : {},
+      customCategories: Array.isArray(customCategories) ? (customCategories as LocalCategory[]) : [],
+    },
+  };
+
+  const issues = validateRecords(backup);
+  if (issues.length > 0) {
+    throw new BackupValidationError(
+      `Backup contains ${issues.length} invalid record${issues.length === 1 ? '' : 's'}`,
+      issues.slice(0, 20)
+    );
+  }
+
+  return { backup, originalVersion };
+}
+
+/**
+ * Summarize a backup before restoring it
+ */
+export function previewBackup(input: unknown): BackupPreview {
+  const { backup, originalVersion } = parseBackup(input);
+  const counts = Object.fromEntries(
+    COLLECTION_KEYS.map((key) => [key, backup.data[key].length])
+  ) as Record<BackupCollection, number>;
+
+  return {
+    version: backup.version,
+    originalVersion,
+    createdAt: backup.createdAt,
+    source: backup.source,
+    counts,
+    total: countRecords(backup.data),
+  };
+}
+
+/**
+ * Read a backup file picked by the user
+ */
+export async function readBackupFile(uri: string): Promise<string> {
+  return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.UTF8 });
+}
+
+// ============================================
+// RESTORE
+// ============================================
+
+interface RestoreContext {
+  target: RestoreTarget;
+  userId: string;
+  mode: RestoreMode;
+  /** Backup ID -> restored (or matched existing) ID */
+  idMap: Map<string, string>;
+  /** Lowercased category name -> category ID in the target */
+  categoriesByName: Map<string, string>;
+  categoryIds: Set<string>;
+  result: RestoreResult;
+}
+
+const newId = (): string => Crypto.randomUUID();
+
+function bump(counts: Partial<Record<BackupCollection, number>>, key: BackupCollection, by = 1): void {
+  counts[key] = (counts[key] || 0) + by;
+}
+
+/**
+ * Map a category reference into the target account: restored IDs first, then
+ * IDs that already exist there, then a category with the same name
+ */
+function resolveCategory(ctx: RestoreContext, value: unknown, nameHint: unknown): string | null {
+  if (typeof value === 'string') {
+    const mapped = ctx.idMap.get(value);
+    if (mapped) return mapped;
+    if (ctx.categoryIds.has(value)) return value;
+  }
+
+  const name = typeof nameHint === 'string' ? nameHint : categoryName(value);
+  return (name && ctx.categoriesByName.get(lower(name))) || null;
+}
+
+/**
+ * Give a backup record a fresh ID and point its references at restored records.
+ * Returns null when its parent wasn't restored.
+ */
+function prepareRecord(ctx: RestoreContext, spec: CollectionSpec, record: BackupRecord): BackupRecord | null {
+  const prepared: BackupRecord = { ...record, id: newId() };
+  if (spec.userScoped) prepared.user_id = ctx.userId;
+
+  if (spec.parent) {
+    const parentId = ctx.idMap.get(String(record[spec.parent.field]));
+    if (!parentId) return null;
+    prepared[spec.parent.field] = parentId;
+  }
+
+  for (const field of spec.references) {
+    const value = record[field];
+    if (field === 'category_id') {
+      if (value != null || record._category_name) {
+        prepared[field] = resolveCategory(ctx, value, record._category_name);
+      }
+    } else if (value != null) {
+      prepared[field] = ctx.idMap.get(String(value)) ?? null;
+    }
+  }
+
+  return prepared;
+}
+
+function toDeviceRecord(spec: CollectionSpec, record: BackupRecord): Record<string, unknown> {
+  const device = record._device as Record<string, unknown> | undefined;
+  const base = device ? { ...device } : spec.toDevice ? spec.toDevice(record) : { ...record };
+
+  // Carry over the new ID and remapped references
+  base.id = record.id;
+  if (spec.userScoped) base.user_id = record.user_id;
+  for (const field of [...spec.references, ...(spec.parent ? [spec.parent.field] : [])]) {
+    if (field in base) base[field] = record[field];
+  }
+  if (spec.key === 'bills' && record.category_id) base.category = record.category_id;
+
+  for (const key of Object.keys(base)) {
+    if (key.startsWith('_')) delete base[key];
+  }
+  return base;
+}
+
+function toCloudRow(record: BackupRecord): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!key.startsWith('_')) row[key] = value;
+  }
+  return row;
+}
+
+async function loadCategories(ctx: RestoreContext): Promise<void> {
+  if (ctx.target === 'device') {
+    for (const category of DEFAULT_CATEGORIES) {
+      ctx.categoryIds.add(category.id);
+      ctx.categoriesByName.set(lower(category.name), category.id);
+    }
+    for (const category of useCategoryStore.getState().getAllCategories()) {
+      ctx.categoryIds.add(category.id);
+      ctx.categoriesByName.set(lower(category.name), category.id);
+    }
+    return;
+  }
+
+  // System categories have no user_id; RLS limits the rest to this user
+  const { data, error } = await supabase.from('categories').select('id, name');
+  if (error) throw error;
+  for (const category of (data || []) as Array<{ id: string; name: string }>) {
+    ctx.categoryIds.add(category.id);
+    ctx.categoriesByName.set(lower(category.name), category.id);
+  }
+}
+
+function restoreCustomCategories(ctx: RestoreContext, categories: LocalCategory[]): void {
+  const store = useCategoryStore.getState();
+  const existing = ctx.mode === 'replace' ? [] : store.customCategories;
+  const byName = new Map(existing.map((category) => [lower(category.name), category.id]));
+  const restored: LocalCategory[] = [...existing];
+  let order = Math.max(-1, ...store.getAllCategories().map((category) => category.order));
+
+  // Local categories can only be referenced by dev-mode records; cloud
+  // records point at the categories table instead
+  const linkIds = ctx.target === 'device';
+
+  for (const category of categories) {
+    if (!category?.id || !category.name || category.isSystem) continue;
+
+    const match = byName.get(lower(category.name));
+    if (match) {
+      if (linkIds) ctx.idMap.set(category.id, match);
+      continue;
+    }
+
+    // Local custom IDs aren't UUIDs; keep their prefix so they still look custom
+    const id = `custom_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    if (linkIds) ctx.idMap.set(category.id, id);
+    byName.set(lower(category.name), id);
+    restored.push({ ...category, id, isSystem: false, order: ++order });
+  }
+
+  useCategoryStore.setState({ customCategories: restored });
+
+  if (!linkIds) return;
+  for (const category of restored) {
+    ctx.categoryIds.add(category.id);
+    ctx.categoriesByName.set(lower(category.name), category.id);
+  }
+}
+
+function restoreSettings(settings: Record<string, unknown>): void {
+  const updates: Record<string, unknown> = {};
+  for (const key of BACKED_UP_SETTINGS) {
+    if (settings[key] !== undefined) updates[key] = settings[key];
+  }
+  if (Object.keys(updates).length > 0) {
+    useSettingsStore.setState(updates as Partial<ReturnType<typeof useSettingsStore.getState>>);
+  }
+}
+
+async function readExisting(ctx: RestoreContext, spec: CollectionSpec): Promise<BackupRecord[]> {
+  if (ctx.mode === 'replace') return [];
+
+  if (ctx.target === 'device') {
+    if (!spec.device) return [];
+    const records = await getDevCollection<BackupRecord>(spec.device);
+    return records.map((record) => (spec.fromDevice ? spec.fromDevice(record) : record));
+  }
+
+  if (!spec.table) return [];
+  if (spec.parent) {
+    const parentIds = Array.from(new Set(ctx.idMap.values()));
+    return parentIds.length > 0 ? fetchAllRows(spec.table, spec.parent.field, parentIds) : [];
+  }
+  return fetchAllRows(spec.table, 'user_id', [ctx.userId]);
+}
+
+async function insertCloudRows(ctx: RestoreContext, spec: CollectionSpec, records: BackupRecord[]): Promise<void> {
+  for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+    const batch = records.slice(i, i + INSERT_BATCH_SIZE).map(toCloudRow);
+    const { error } = await supabase.from(spec.table!).insert(batch);
+    if (!error) {
+      bump(ctx.result.restored, spec.key, batch.length);
+      continue;
+    }
+
+    // Find the bad rows instead of losing the whole batch
+    logger.storage.warn(`Batch restore into ${spec.table} failed, retrying row by row:`, error);
+    for (const row of batch) {
+      const { error: rowError } = await supabase.from(spec.table!).insert(row);
+      if (rowError) {
+        bump(ctx.result.failed, spec.key);
+        ctx.idMap.delete(String(row.id));
+      } else {
+        bump(ctx.result.restored, spec.key);
+      }
+    }
+  }
+}
+
+async function clearCloudData(userId: string): Promise<void> {
+  // Children without user_id go with their parents (ON DELETE CASCADE)
+  for (const spec of [...COLLECTIONS].reverse()) {
+    if (!spec.table || !spec.userScoped) continue;
+    const { error } = await supabase.from(spec.table).delete().eq('user_id', userId);
+    if (error) throw error;
+  }
+}
+
+async function takeSnapshot(target: RestoreTarget): Promise<RestoreSnapshot> {
+  const records: RestoreSnapshot['records'] = {};
+
+  if (target === 'cloud') {
+    const data = await readCloudData();
+    for (const spec of COLLECTIONS) {
+      if (spec.table) records[spec.key] = data[spec.key].map(toCloudRow);
+    }
+  } else {
+    for (const spec of COLLECTIONS) {
+      if (spec.device) records[spec.key] = await getDevCollection(spec.device);
+    }
+  }
+
+  return { records, preferences: readPreferences() };
+}
+
+/**
+ * Put back everything a replace restore overwrote. Rows keep their original
+ * IDs, so references between them still hold.
+ */
+async function restoreSnapshot(target: RestoreTarget, userId: string, snapshot: RestoreSnapshot): Promise<void> {
+  if (target === 'cloud') {
+    await clearCloudData(userId);
+    for (const spec of COLLECTIONS) {
+      const rows = snapshot.records[spec.key] ?? [];
+      if (!spec.table) continue;
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const { error } = await supabase.from(spec.table).insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+        if (error) throw error;
+      }
+    }
+  } else {
+    for (const spec of COLLECTIONS) {
+      if (spec.device) await setDevCollection(spec.device, snapshot.records[spec.key] ?? []);
+    }
+  }
+
+  useCategoryStore.setState({ customCategories: snapshot.preferences.customCategories });
+  restoreSettings(snapshot.preferences.settings);
+}
+
+async function restoreCollection(ctx: RestoreContext, spec: CollectionSpec, records: BackupRecord[]): Promise<void> {
+  const supported = ctx.target === 'device' ? !!spec.device : !!spec.table;
+  if (!supported) {
+    if (records.length > 0) {
+      bump(ctx.result.skipped, spec.key, records.length);
+      ctx.result.warnings.push(
+        `${records.length} ${spec.key} can't be stored ${ctx.target === 'device' ? 'in dev mode' : 'in your account'} and were skipped`
+      );
+    }
+    return;
+  }
+
+  const existing = await readExisting(ctx, spec);
+  const existingKeys = new Map(existing.map((record) => [spec.naturalKey(record), record.id]));
+  const toWrite: BackupRecord[] = [];
+  let orphans = 0;
+
+  for (const record of records) {
+    const prepared = prepareRecord(ctx, spec, record);
+    if (!prepared) {
+      orphans++;
+      bump(ctx.result.skipped, spec.key);
+      continue;
+    }
+
+    const duplicateOf = existingKeys.get(spec.naturalKey(prepared));
+    if (duplicateOf) {
+      ctx.idMap.set(record.id, duplicateOf);
+      bump(ctx.result.skipped, spec.key);
+      continue;
+    }
+
+    ctx.idMap.set(record.id, prepared.id);
+    existingKeys.set(spec.naturalKey(prepared), prepared.id);
+    toWrite.push(prepared);
+  }
+
+  if (orphans > 0) {
+    ctx.result.warnings.push(`${orphans} ${spec.key} belonged to records that weren't restored and were skipped`);
+  }
+
+  if (ctx.target === 'device') {
+    const current = ctx.mode === 'replace' ? [] : await getDevCollection(spec.device!);
+    await setDevCollection(spec.device!, [...current, ...toWrite.map((record) => toDeviceRecord(spec, record))]);
+    bump(ctx.result.restored, spec.key, toWrite.length);
+  } else if (toWrite.length > 0) {
+    await insertCloudRows(ctx, spec, toWrite);
+  }
+}
+
+/**
+ * Restore a backup into the current account (dev storage in dev mode).
+ * 'merge' adds records that aren't already there; 'replace' deletes the
+ * existing data first. Every restored record gets a new ID. A replace that
+ * fails partway puts the previous data back and throws RestoreRolledBackError.
+ */
+export async function restoreBackup(
+  input: unknown,
+  options: { mode: RestoreMode; onProgress?: (collection: BackupCollection) => void }
+): Promise<RestoreResult> {
+  const { backup } = parseBackup(input);
+  const target: RestoreTarget = isDevMode() ? 'device' : 'cloud';
+  const userId = target === 'device'
+    ? useAuthStore.getState().user?.id || 'dev_user'
+    : await getCloudUserId();
+
+  const ctx: RestoreContext = {
+    target,
+    userId,
+    mode: options.mode,
+    idMap: new Map(),
+    categoriesByName: new Map(),
+    categoryIds: new Set(),
+    result: { mode: options.mode, restored: {}, skipped: {}, failed: {}, warnings: [] },
+  };
+
+  const snapshot = options.mode === 'replace' ? await takeSnapshot(target) : null;
+
+  try {
+    if (options.mode === 'replace' && target === 'cloud') {
+      await clearCloudData(userId);
+    }
+
+    await loadCategories(ctx);
+    restoreCustomCategories(ctx, backup.preferences.customCategories);
+    restoreSettings(backup.preferences.settings);
+
+    for (const spec of COLLECTIONS) {
+      options.onProgress?.(spec.key);
+      await restoreCollection(ctx, spec, backup.data[spec.key]);
+
+      if (spec.key === 'categories') {
+        // Later records can now reference restored categories by name too
+        for (const record of backup.data.categories) {
+          const id = ctx.idMap.get(record.id);
+          if (id) {
+            ctx.categoryIds.add(id);
+            ctx.categoriesByName.set(lower(record.name), id);
+          }
+        }
+      }
+    }
+
+    // A replace is all or nothing: partial data would leave the account half wiped
+    const failed = Object.values(ctx.result.failed).reduce((sum, count) => sum + (count || 0), 0);
+    if (snapshot && failed > 0) {
+      throw new Error(`${failed} records could not be restored`);
+    }
+  } catch (error) {
+    if (!snapshot) throw error;
+
+    logger.storage.error('Replace restore failed, putting the previous data back:', error);
+    await restoreSnapshot(target, userId, snapshot);
+    throw new RestoreRolledBackError('The backup could not be restored. Your previous data was kept.', ctx.result);
+  }
+
+  logger.storage.info(`Restored ${backup.source} backup into ${target} (${options.mode})`, ctx.result);
+  return ctx.result;
+}
+
+export default {
+  createBackup,
+  parseBackup,
+  previewBackup,
+  readBackupFile,
+  restoreBackup,
+};
@@ -4,6 +4,12 @@
  */
 
 import { supabase } from './supabase';
+import {
+  getBillRecurrenceRule,
+  getOccurrences,
+  getNextOccurrence,
+  type BillSchedule,
+} from './recurrence';
 import type {
   Bill,
   BillInsert,
@@ -17,7 +23,6 @@ import type {
   BillCalendarMonth,
   BillSummary,
   BillStatus,
-  IncomeFrequency,
   Category,
 } from '@/types';
 
@@ -168,7 +173,25 @@ export async function deleteBill(billId: string): Promise<void> {
 // ============================================
 
 /**
- * Generate bill payment occurrences for future months
+ * Get a bill's due dates between two dates (inclusive)
+ */
+export function getBillDueDates(bill: BillSchedule, startDate: string, endDate: string): string[] {
+  return getOccurrences(getBillRecurrenceRule(bill), startDate, endDate);
+}
+
+/**
+ * Get a bill's next due date on or after a date (defaults to today)
+ */
+export function getNextBillDueDate(
+  bill: BillSchedule,
+  from: string = new Date().toISOString().split('T')[0]
+): string | null {
+  return getNextOccurrence(getBillRecurrenceRule(bill), from);
+}
+
+/**
+ * Generate bill payment occurrences from the start of this month through the
+ * next few months, following the bill's frequency
  */
 export async function generateBillPayments(
   billId: string,
@@ -183,28 +206,24 @@ export async function generateBillPayments(
   const payments: BillPaymentInsert[] = [];
   const today = new Date();
 
-  for (let i = 0; i < monthsAhead; i++) {
-    const dueDate = new Date(today.getFullYear(), today.getMonth() + i, bill.due_day || 1);
-
-    // Skip if due date is before bill start date
-    if (dueDate < new Date(bill.start_date)) continue;
-
-    // Skip if due date is after bill end date
-    if (bill.end_date && dueDate > new Date(bill.end_date)) continue;
+  const windowStart = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-01`;
+  const windowEndMonth = new Date(Date.UTC(today.getFullYear(), today.getMonth() + monthsAhead, 0));
+  const windowEnd = windowEndMonth.toISOString().split('T')[0];
 
+  for (const dueDate of getBillDueDates(bill, windowStart, windowEnd)) {
     // Check if payment already exists for this due date
     const { data: existing } = await supabase
       .from('bill_payments')
       .select('id')
       .eq('bill_id', billId)
-      .eq('due_date', dueDate.toISOString().split('T')[0])
+      .eq('due_date', dueDate)
       .single();
 
     if (!existing) {
       payments.push({
         bill_id: billId,
         user_id: user.id,
-        due_date: dueDate.toISOString().split('T')[0],
+        due_date: dueDate,
         amount_due: bill.amount,
         amount_paid: 0,
         status: 'pending',
@@ -557,7 +576,8 @@ export async function getBillSummary(): Promise<BillSummary> {
 // ============================================
 
 /**
- * Get pending reminders for today
+ * Get pending reminders for today. The run-alert-checks scheduler creates
+ * them along with each upcoming_bill alert.
  */
 export async function getTodayReminders(): Promise<BillReminder[]> {
   const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -601,66 +621,6 @@ export async function markReminderSent(reminderId: string): Promise<void> {
   }
 }
 
-/**
- * Create reminders for upcoming bills
- */
-export async function createUpcomingReminders(): Promise<void> {
-  const { data: { user }, error: authError } = await supabase.auth.getUser();
-  if (authError || !user) {
-    throw new Error('Not authenticated');
-  }
-
-  // Get active bills with reminder settings
-  const { data: bills } = await supabase
-    .from('bills')
-    .select('id, due_day, reminder_days')
-    .eq('user_id', user.id)
-    .eq('is_active', true)
-    .gt('reminder_days', 0);
-
-  if (!bills || bills.length === 0) return;
-
-  const today = new Date();
-  const reminders: Array<{ bill_id: string; user_id: string; reminder_date: string }> = [];
-
-  for (const bill of bills) {
-    // Calculate next due date
-    let nextDueDate = new Date(today.getFullYear(), today.getMonth(), bill.due_day || 1);
-    if (nextDueDate < today) {
-      nextDueDate = new Date(today.getFullYear(), today.getMonth() + 1, bill.due_day || 1);
-    }
-
-    // Calculate reminder date
-    const reminderDate = new Date(nextDueDate);
-    reminderDate.setDate(reminderDate.getDate() - (bill.reminder_days || 3));
-
-    // Only create reminder if it's in the future
-    if (reminderDate > today) {
-      const reminderDateStr = reminderDate.toISOString().split('T')[0];
-
-      // Check if reminder already exists
-      const { data: existing } = await supabase
-        .from('bill_reminders')
-        .select('id')
-        .eq('bill_id', bill.id)
-        .eq('reminder_date', reminderDateStr)
-        .single();
-
-      if (!existing) {
-        reminders.push({
-          bill_id: bill.id,
-          user_id: user.id,
-          reminder_date: reminderDateStr,
-        });
-      }
-    }
-  }
-
-  if (reminders.length > 0) {
-    await supabase.from('bill_reminders').insert(reminders);
-  }
-}
-
 /**
  * Get bills by day of month for calendar view
  */
@@ -0,0 +1,547 @@
+/**
+ * Categorization Rules Service
+ * User-defined rules for new transactions: when the merchant (regex), amount
+ * range, card, source and bank match, set the category, rename the merchant,
+ * add notes or mark the transaction recurring. Rules run in ascending
+ * priority and, for each action, the first matching rule wins.
+ *
+ * createTransaction runs applyRules before it resolves the merchant, so a
+ * renamed merchant gets its own canonical key. For real accounts the
+ * apply_categorization_rules trigger also runs the rules on inserts from other
+ * sources (the email webhooks), using the key each rule stores for its new
+ * merchant name; keep the two in step.
+ */
+
+import { supabase } from './supabase';
+import { getDevCollection, setDevCollection, getDevTransactions, updateDevTransaction } from './devStorage';
+import { resolveCategoryId } from './transactions';
+import { getMerchantResolver } from './merchants';
+import { useAuthStore } from '@/stores/authStore';
+import { isDevMode } from '@/utils/devMode';
+import { logger } from '@/utils/logger';
+import type {
+  CategorizationRule,
+  CategorizationRuleInsert,
+  CategorizationRuleUpdate,
+  Transaction,
+  TransactionUpdate,
+  TransactionWithCategory,
+} from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RuleInput = Omit<CategorizationRuleInsert, 'priority' | 'is_active'> &
+  Partial<Pick<CategorizationRuleInsert, 'priority' | 'is_active'>>;
+
+/** A saved rule, or one still being edited */
+export type RuleDefinition = RuleInput & { id?: string };
+
+export type RuleTarget = Pick<
+  Transaction,
+  'merchant_name' | 'amount' | 'card_last_four' | 'source' | 'bank_name' | 'category_id' | 'notes' | 'is_recurring' | 'metadata'
+>;
+
+export interface ApplyRulesOptions {
+  /** Keep the transaction's category (the user picked it) */
+  keepCategory?: boolean;
+}
+
+export interface RuleApplication {
+  /** Fields the rules change; empty when nothing matched */
+  changes: TransactionUpdate;
+  /** Rules that matched and set at least one field */
+  ruleIds: string[];
+}
+
+export interface RulePreviewItem {
+  transaction: TransactionWithCategory;
+  changes: TransactionUpdate;
+}
+
+/** How many past transactions "apply to past" looks through */
+const PAST_LIMIT = 1000;
+/** Reload the active rules at most this often unless a rule changes */
+const RULES_TTL_MS = 10 * 60 * 1000;
+
+let cachedRules: { userId: string; loadedAt: number; rules: CategorizationRule[] } | null = null;
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function getUserId(): Promise<string> {
+  if (isDevMode()) {
+    const userId = useAuthStore.getState().user?.id;
+    if (!userId) throw new Error('Not authenticated');
+    return userId;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  return user.id;
+}
+
+function byPriority(a: CategorizationRule, b: CategorizationRule): number {
+  return a.priority - b.priority || a.created_at.localeCompare(b.created_at);
+}
+
+/**
+ * Whether a merchant pattern compiles as a case-insensitive regular expression
+ */
+export function isValidMerchantPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pattern matching a merchant name literally, for rules created from a correction
+ */
+export function escapeMerchantPattern(merchantName: string): string {
+  return merchantName.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function validateRule(rule: Partial<RuleInput>): void {
+  if (rule.name !== undefined && !rule.name.trim()) {
+    throw new Error('Rule name is required');
+  }
+  if (rule.merchant_pattern && !isValidMerchantPattern(rule.merchant_pattern)) {
+    throw new Error('Invalid merchant pattern');
+  }
+  if (
+    rule.amount_min != null && rule.amount_max != null && rule.amount_min > rule.amount_max
+  ) {
+    throw new Error('Minimum amount must not exceed the maximum');
+  }
+}
+
+function hasAction(rule: Partial<RuleInput>): boolean {
+  return Boolean(
+    rule.set_category_id || rule.set_merchant_name?.trim() || rule.append_notes?.trim() || rule.set_recurring != null
+  );
+}
+
+/**
+ * Canonical key of the merchant name a rule sets, for the insert trigger
+ */
+async function resolveMerchantKey(merchantName: string | null): Promise<string | null> {
+  if (!merchantName) return null;
+  const resolve = await getMerchantResolver();
+  return resolve(merchantName).key;
+}
+
+/**
+ * Category slugs from the picker are stored as category UUIDs for real accounts
+ */
+async function resolveRuleCategory<T extends Partial<RuleInput>>(rule: T): Promise<T> {
+  if (!rule.set_category_id || isDevMode()) return rule;
+  return { ...rule, set_category_id: await resolveCategoryId(rule.set_category_id) };
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Whether every condition the rule sets matches the transaction.
+ * Amounts are compared by absolute value; an invalid pattern never matches.
+ */
+export function matchesRule(rule: RuleDefinition, transaction: RuleTarget): boolean {
+  if (rule.merchant_pattern) {
+    if (!isValidMerchantPattern(rule.merchant_pattern)) return false;
+    if (!new RegExp(rule.merchant_pattern, 'i').test(transaction.merchant_name || '')) return false;
+  }
+
+  const amount = Math.abs(transaction.amount);
+  if (rule.amount_min != null && amount < rule.amount_min) return false;
+  if (rule.amount_max != null && amount > rule.amount_max) return false;
+
+  if (rule.card_last_four && transaction.card_last_four !== rule.card_last_four) return false;
+  if (rule.source && transaction.source !== rule.source) return false;
+  if (rule.bank_name && transaction.bank_name?.toLowerCase() !== rule.bank_name.toLowerCase()) return false;
+
+  return true;
+}
+
+/**
+ * Run rules, in the order given, against a transaction. Conditions are
+ * tested on the transaction as it came in, so a rename by one rule doesn't
+ * change which later rules match.
+ */
+export function applyRules(
+  transaction: RuleTarget,
+  rules: RuleDefinition[],
+  options: ApplyRulesOptions = {}
+): RuleApplication {
+  const changes: TransactionUpdate = {};
+  const ruleIds: string[] = [];
+  const done = { category: Boolean(options.keepCategory), merchant: false, notes: false, recurring: false };
+
+  for (const rule of rules) {
+    if (rule.is_active === false || !matchesRule(rule, transaction)) continue;
+    let used = false;
+
+    if (rule.set_category_id && !done.category) {
+      done.category = used = true;
+      if (rule.set_category_id !== transaction.category_id) changes.category_id = rule.set_category_id;
+    }
+
+    if (rule.set_merchant_name && !done.merchant) {
+      done.merchant = used = true;
+      if (rule.set_merchant_name !== transaction.merchant_name) changes.merchant_name = rule.set_merchant_name;
+    }
+
+    if (rule.append_notes && !done.notes) {
+      done.notes = used = true;
+      const notes = transaction.notes || '';
+      if (!notes.includes(rule.append_notes)) {
+        changes.notes = notes ? `${notes}\n${rule.append_notes}` : rule.append_notes;
+      }
+    }
+
+    if (rule.set_recurring != null && !done.recurring) {
+      done.recurring = used = true;
+      if (rule.set_recurring !== transaction.is_recurring) changes.is_recurring = rule.set_recurring;
+    }
+
+    if (used && rule.id) ruleIds.push(rule.id);
+  }
+
+  if (ruleIds.length > 0) {
+    changes.metadata = {
+      ...(transaction.metadata || {}),
+      applied_rules: ruleIds,
+      ...(changes.merchant_name ? { original_merchant_name: transaction.merchant_name } : {}),
+    };
+  }
+
+  return { changes, ruleIds };
+}
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Get the user's rules in the order they run
+ */
+export async function getRules(): Promise<CategorizationRule[]> {
+  if (isDevMode()) {
+    const rules = await getDevCollection<CategorizationRule>('CATEGORIZATION_RULES');
+    return [...rules].sort(byPriority);
+  }
+
+  const userId = await getUserId();
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Active rules for the signed-in user, cached until a rule changes
+ */
+async function getActiveRules(): Promise<CategorizationRule[]> {
+  const userId = await getUserId();
+  if (cachedRules && cachedRules.userId === userId && Date.now() - cachedRules.loadedAt < RULES_TTL_MS) {
+    return cachedRules.rules;
+  }
+
+  let rules = (await getRules()).filter((rule) => rule.is_active);
+
+  // Rename rules saved before rules stored their merchant key
+  const unkeyed = rules.filter((rule) => rule.set_merchant_name && !rule.set_merchant_key);
+  if (unkeyed.length > 0) {
+    try {
+      const keyed = await Promise.all(unkeyed.map((rule) => updateRule(rule.id, { set_merchant_name: rule.set_merchant_name })));
+      rules = rules.map((rule) => keyed.find((updated) => updated.id === rule.id) ?? rule);
+    } catch (error) {
+      logger.transaction.warn('Could not store merchant keys on categorization rules:', error);
+    }
+  }
+
+  cachedRules = { userId, loadedAt: Date.now(), rules };
+  return rules;
+}
+
+/**
+ * Forget the cached rules so the next transaction sees the latest ones
+ */
+export function invalidateRules(): void {
+  cachedRules = null;
+}
+
+/**
+ * Create a rule. New rules run after the existing ones unless a priority is given.
+ */
+export async function createRule(input: RuleInput): Promise<CategorizationRule> {
+  validateRule(input);
+  if (!hasAction(input)) throw new Error('A rule needs at least one action');
+
+  const userId = await getUserId();
+  const existing = await getRules();
+  const priority = input.priority ?? (existing.length > 0 ? Math.max(...existing.map((r) => r.priority)) + 1 : 0);
+  const row = await resolveRuleCategory({
+    ...input,
+    name: input.name.trim(),
+    priority,
+    is_active: input.is_active ?? true,
+    set_merchant_key: await resolveMerchantKey(input.set_merchant_name),
+  });
+  invalidateRules();
+
+  if (isDevMode()) {
+    const now = new Date().toISOString();
+    const rule: CategorizationRule = {
+      ...row,
+      id: `dev-rule-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      user_id: userId,
+      match_count: 0,
+      last_matched_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+    await setDevCollection('CATEGORIZATION_RULES', [...existing, rule]);
+    logger.transaction.info(`Created categorization rule "${rule.name}"`);
+    return rule;
+  }
+
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .insert({ ...row, user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  logger.transaction.info(`Created categorization rule "${data.name}"`);
+  return data;
+}
+
+/**
+ * Update a rule
+ */
+export async function updateRule(id: string, updates: CategorizationRuleUpdate): Promise<CategorizationRule> {
+  validateRule(updates);
+  const row = await resolveRuleCategory(
+    updates.set_merchant_name === undefined
+      ? updates
+      : { ...updates, set_merchant_key: await resolveMerchantKey(updates.set_merchant_name) }
+  );
+  invalidateRules();
+
+  if (isDevMode()) {
+    const rules = await getDevCollection<CategorizationRule>('CATEGORIZATION_RULES');
+    const current = rules.find((rule) => rule.id === id);
+    if (!current) throw new Error('Rule not found');
+
+    const updated: CategorizationRule = { ...current, ...row, updated_at: new Date().toISOString() };
+    if (!hasAction(updated)) throw new Error('A rule needs at least one action');
+    await setDevCollection('CATEGORIZATION_RULES', rules.map((rule) => (rule.id === id ? updated : rule)));
+    return updated;
+  }
+
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .update(row)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Delete a rule
+ */
+export async function deleteRule(id: string): Promise<void> {
+  invalidateRules();
+  if (isDevMode()) {
+    const rules = await getDevCollection<CategorizationRule>('CATEGORIZATION_RULES');
+    await setDevCollection('CATEGORIZATION_RULES', rules.filter((rule) => rule.id !== id));
+    return;
+  }
+
+  const { error } = await supabase
+    .from('categorization_rules')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Set the order rules run in; the first id runs first
+ */
+export async function reorderRules(orderedIds: string[]): Promise<CategorizationRule[]> {
+  invalidateRules();
+  if (isDevMode()) {
+    const rules = await getDevCollection<CategorizationRule>('CATEGORIZATION_RULES');
+    const reordered = rules.map((rule) => {
+      const index = orderedIds.indexOf(rule.id);
+      return index === -1 ? rule : { ...rule, priority: index };
+    });
+    await setDevCollection('CATEGORIZATION_RULES', reordered);
+    return reordered.sort(byPriority);
+  }
+
+  await Promise.all(
+    orderedIds.map(async (id, priority) => {
+      const { error } = await supabase
+        .from('categorization_rules')
+        .update({ priority })
+        .eq('id', id);
+      if (error) throw error;
+    })
+  );
+  return getRules();
+}
+
+/**
+ * Bump the match count of rules that changed transactions
+ */
+async function recordMatches(matches: Record<string, number>): Promise<void> {
+  const ids = Object.keys(matches);
+  if (ids.length === 0) return;
+
+  if (isDevMode()) {
+    const now = new Date().toISOString();
+    const rules = await getDevCollection<CategorizationRule>('CATEGORIZATION_RULES');
+    await setDevCollection(
+      'CATEGORIZATION_RULES',
+      rules.map((rule) =>
+        matches[rule.id]
+          ? { ...rule, match_count: rule.match_count + matches[rule.id], last_matched_at: now }
+          : rule
+      )
+    );
+    return;
+  }
+
+  // Added in the database so concurrent inserts don't overwrite each other's counts
+  const { error } = await supabase.rpc('record_rule_matches', {
+    rule_ids: ids,
+    counts: ids.map((id) => matches[id]),
+  });
+  if (error) logger.transaction.warn('Failed to record categorization rule matches:', error);
+}
+
+// ============================================
+// APPLYING
+// ============================================
+
+/**
+ * Apply the user's active rules to a transaction about to be saved, before
+ * its merchant is resolved
+ */
+export async function applyRulesToNewTransaction<T extends RuleTarget>(transaction: T): Promise<T> {
+  const rules = await getActiveRules();
+  if (rules.length === 0) return transaction;
+
+  const { changes, ruleIds } = applyRules(transaction, rules, {
+    keepCategory: transaction.source === 'manual' && Boolean(transaction.category_id),
+  });
+  if (ruleIds.length === 0) return transaction;
+
+  await recordMatches(Object.fromEntries(ruleIds.map((id) => [id, 1])));
+  logger.transaction.info(`Applied ${ruleIds.length} categorization rule(s) to "${transaction.merchant_name}"`);
+  return { ...transaction, ...changes };
+}
+
+/**
+ * Past transactions a rule would change, most recent first, with the changes
+ */
+export async function previewRuleOnPast(rule: RuleDefinition): Promise<RulePreviewItem[]> {
+  validateRule(rule);
+  const resolved = await resolveRuleCategory(rule);
+
+  let transactions: TransactionWithCategory[];
+  if (isDevMode()) {
+    transactions = (await getDevTransactions()).filter((t) => !t.is_deleted);
+  } else {
+    const userId = await getUserId();
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*, category:categories(*)')
+      .eq('user_id', userId)
+      .eq('is_deleted', false)
+      .order('transaction_date', { ascending: false })
+      .limit(PAST_LIMIT);
+
+    if (error) throw error;
+    transactions = data || [];
+  }
+
+  return transactions
+    .map((transaction) => {
+      const { changes } = applyRules(transaction, [{ ...resolved, is_active: true }]);
+      const { metadata: _metadata, ...fields } = changes;
+      return { transaction, changes, changed: Object.keys(fields).length > 0 };
+    })
+    .filter((item) => item.changed)
+    .map(({ transaction, changes }) => ({ transaction, changes }))
+    .sort((a, b) => b.transaction.transaction_date.localeCompare(a.transaction.transaction_date));
+}
+
+/**
+ * Apply a saved rule to past transactions from its preview.
+ * Returns how many transactions were updated.
+ */
+export async function applyRuleToPast(
+  rule: CategorizationRule,
+  transactionIds?: string[]
+): Promise<number> {
+  const preview = await previewRuleOnPast(rule);
+  const selected = transactionIds
+    ? preview.filter((item) => transactionIds.includes(item.transaction.id))
+    : preview;
+  const resolve = await getMerchantResolver();
+
+  for (const { transaction, changes: ruleChanges } of selected) {
+    // A renamed merchant gets the canonical key of its new name
+    const changes = ruleChanges.merchant_name
+      ? { ...ruleChanges, merchant_name_clean: resolve(ruleChanges.merchant_name).key }
+      : ruleChanges;
+
+    if (isDevMode()) {
+      await updateDevTransaction(transaction.id, changes);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('transactions')
+      .update(changes)
+      .eq('id', transaction.id);
+    if (error) throw error;
+  }
+
+  if (selected.length > 0) await recordMatches({ [rule.id]: selected.length });
+  logger.transaction.info(`Applied rule "${rule.name}" to ${selected.length} past transaction(s)`);
+  return selected.length;
+}
+
+export default {
+  isValidMerchantPattern,
+  escapeMerchantPattern,
+  matchesRule,
+  applyRules,
+  getRules,
+  invalidateRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  reorderRules,
+  applyRulesToNewTransaction,
+  previewRuleOnPast,
+  applyRuleToPast,
+};
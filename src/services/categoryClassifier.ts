@@ -0,0 +1,327 @@
+/**
+ * Category Classifier Service
+ * Learns each user's categorization from their own categorized transactions
+ * and suggests categories for new ones. A multinomial naive Bayes model over
+ * merchant tokens, an amount bucket, the weekday and the time of day, trained
+ * and run on device. Until there is enough history it falls back to the
+ * keyword scan in suggestCategory.
+ */
+
+import { supabase } from './supabase';
+import { getDevTransactions } from './devStorage';
+import { suggestCategory } from '@/config/categories';
+import { useAuthStore } from '@/stores/authStore';
+import { isDevMode } from '@/utils/devMode';
+import { logger } from '@/utils/logger';
+import type { Transaction } from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ClassifierInput = Pick<Transaction, 'merchant_name'> &
+  Partial<Pick<Transaction, 'amount' | 'transaction_date' | 'transaction_time'>>;
+
+export interface TrainingExample extends ClassifierInput {
+  category_id: string;
+  /** Category name, when known, so suggestions can be matched across id schemes */
+  category_name?: string | null;
+}
+
+export interface CategorySuggestion {
+  categoryId: string;
+  categoryName: string | null;
+  /** 0-1; classifier confidences across all categories sum to 1 */
+  confidence: number;
+  source: 'classifier' | 'keywords';
+}
+
+interface LabelStats {
+  documents: number;
+  /** Feature occurrences across the label's examples */
+  total: number;
+  features: Record<string, number>;
+}
+
+export interface CategoryClassifierModel {
+  documents: number;
+  labels: Record<string, LabelStats>;
+  names: Record<string, string>;
+  vocabulary: Record<string, true>;
+}
+
+export interface SuggestOptions {
+  limit?: number;
+}
+
+/** Fewer categorized transactions than this and the keyword scan is used */
+export const MIN_TRAINING_EXAMPLES = 10;
+const MIN_LABELS = 2;
+const DEFAULT_LIMIT = 3;
+/** Most recent categorized transactions the model learns from */
+const TRAINING_LIMIT = 2000;
+/** Retrain at most this often unless invalidated by a (re)categorization */
+const MODEL_TTL_MS = 10 * 60 * 1000;
+const KEYWORD_CONFIDENCE = 0.5;
+const AMOUNT_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000];
+
+let cachedModel: { userId: string; trainedAt: number; model: CategoryClassifierModel } | null = null;
+
+// ============================================
+// FEATURES
+// ============================================
+
+function merchantTokens(merchantName: string): string[] {
+  const tokens = merchantName
+    .toLowerCase()
+    .replace(/[^a-z0-9\u00c0-\u024f\u0600-\u06ff]+/g, ' ')
+    .split(' ')
+    .filter((token) => token.length >= 2 && !/^\d+$/.test(token));
+  return [...new Set(tokens)];
+}
+
+function amountBucket(amount: number): number {
+  const value = Math.abs(amount);
+  const index = AMOUNT_BUCKETS.findIndex((limit) => value < limit);
+  return index === -1 ? AMOUNT_BUCKETS.length : index;
+}
+
+function timeOfDay(time: string): string | null {
+  const hour = Number(time.split(':')[0]);
+  if (Number.isNaN(hour)) return null;
+  if (hour < 5) return 'night';
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  if (hour < 22) return 'evening';
+  return 'night';
+}
+
+/**
+ * Features the model sees for a transaction: merchant tokens plus amount
+ * bucket, weekday and time of day when they are known
+ */
+export function extractFeatures(input: ClassifierInput): string[] {
+  const features = merchantTokens(input.merchant_name || '').map((token) => `m:${token}`);
+
+  if (typeof input.amount === 'number' && Number.isFinite(input.amount) && input.amount !== 0) {
+    features.push(`amt:${amountBucket(input.amount)}`);
+  }
+  if (input.transaction_date) {
+    const [year, month, day] = input.transaction_date.slice(0, 10).split('-').map(Number);
+    const weekday = new Date(year, month - 1, day).getDay();
+    if (!Number.isNaN(weekday)) features.push(`dow:${weekday}`);
+  }
+  if (input.transaction_time) {
+    const period = timeOfDay(input.transaction_time);
+    if (period) features.push(`tod:${period}`);
+  }
+
+  return features;
+}
+
+// ============================================
+// MODEL
+// ============================================
+
+function addExample(model: CategoryClassifierModel, example: TrainingExample): void {
+  if (!example.category_id || !example.merchant_name) return;
+
+  const stats = (model.labels[example.category_id] ??= { documents: 0, total: 0, features: {} });
+  stats.documents += 1;
+  model.documents += 1;
+  if (example.category_name) model.names[example.category_id] = example.category_name;
+
+  for (const feature of extractFeatures(example)) {
+    stats.features[feature] = (stats.features[feature] ?? 0) + 1;
+    stats.total += 1;
+    model.vocabulary[feature] = true;
+  }
+}
+
+/**
+ * Train a model from categorized transactions
+ */
+export function trainCategoryClassifier(examples: TrainingExample[]): CategoryClassifierModel {
+  const model: CategoryClassifierModel = { documents: 0, labels: {}, names: {}, vocabulary: {} };
+  for (const example of examples) addExample(model, example);
+  return model;
+}
+
+/**
+ * Whether the model has seen enough to beat the keyword scan
+ */
+export function hasEnoughData(model: CategoryClassifierModel): boolean {
+  return model.documents >= MIN_TRAINING_EXAMPLES && Object.keys(model.labels).length >= MIN_LABELS;
+}
+
+/**
+ * Rank the model's categories for a transaction, most likely first.
+ * Features the model never saw are ignored; Laplace smoothing covers
+ * features seen under other categories.
+ */
+export function classifyTransaction(
+  model: CategoryClassifierModel,
+  input: ClassifierInput,
+  limit: number = DEFAULT_LIMIT
+): CategorySuggestion[] {
+  const labels = Object.keys(model.labels);
+  if (labels.length === 0) return [];
+
+  const vocabularySize = Object.keys(model.vocabulary).length;
+  const features = extractFeatures(input).filter((feature) => model.vocabulary[feature]);
+
+  const scores = labels.map((label) => {
+    const stats = model.labels[label];
+    let score = Math.log(stats.documents / model.documents);
+    for (const feature of features) {
+      score += Math.log(((stats.features[feature] ?? 0) + 1) / (stats.total + vocabularySize));
+    }
+    return { label, score };
+  });
+
+  // Softmax of the log scores, shifted by the max to stay finite
+  const max = Math.max(...scores.map((s) => s.score));
+  const weights = scores.map((s) => ({ label: s.label, weight: Math.exp(s.score - max) }));
+  const sum = weights.reduce((total, w) => total + w.weight, 0);
+
+  return weights
+    .map(({ label, weight }) => ({
+      categoryId: label,
+      categoryName: model.names[label] ?? null,
+      confidence: weight / sum,
+      source: 'classifier' as const,
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+function keywordSuggestion(merchantName: string): CategorySuggestion {
+  const category = suggestCategory(merchantName);
+  return {
+    categoryId: category.id,
+    categoryName: category.name,
+    confidence: category.id === 'other' ? 0 : KEYWORD_CONFIDENCE,
+    source: 'keywords',
+  };
+}
+
+/**
+ * Suggestions from a trained model, or the keyword scan when the model is
+ * too small or knows none of the merchant's words but the keywords do
+ */
+export function suggestWithModel(
+  model: CategoryClassifierModel,
+  input: ClassifierInput,
+  limit: number = DEFAULT_LIMIT
+): CategorySuggestion[] {
+  if (!hasEnoughData(model)) return [keywordSuggestion(input.merchant_name)];
+
+  const knowsMerchant = merchantTokens(input.merchant_name).some((token) => model.vocabulary[`m:${token}`]);
+  if (!knowsMerchant) {
+    const keywords = keywordSuggestion(input.merchant_name);
+    if (keywords.confidence > 0) return [keywords];
+  }
+
+  return classifyTransaction(model, input, limit);
+}
+
+// ============================================
+// TRAINING DATA
+// ============================================
+
+async function getUserId(): Promise<string | null> {
+  if (isDevMode()) return useAuthStore.getState().user?.id ?? null;
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.id ?? null;
+}
+
+type TrainingRow = Pick<Transaction, 'merchant_name' | 'amount' | 'transaction_date' | 'transaction_time' | 'category_id'> & {
+  category: { name: string } | null;
+};
+
+async function loadTrainingExamples(userId: string): Promise<TrainingExample[]> {
+  if (isDevMode()) {
+    const transactions = await getDevTransactions();
+    return transactions
+      .filter((t) => !t.is_deleted && t.category_id)
+      .slice(0, TRAINING_LIMIT)
+      .map((t) => ({ ...t, category_id: t.category_id!, category_name: t.category?.name ?? null }));
+  }
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('merchant_name, amount, transaction_date, transaction_time, category_id, category:categories(name)')
+    .eq('user_id', userId)
+    .eq('is_deleted', false)
+    .not('category_id', 'is', null)
+    .order('transaction_date', { ascending: false })
+    .limit(TRAINING_LIMIT);
+
+  if (error) throw error;
+  return ((data || []) as unknown as TrainingRow[]).map(({ category, ...row }) => ({
+    ...row,
+    category_id: row.category_id!,
+    category_name: category?.name ?? null,
+  }));
+}
+
+async function getModel(): Promise<CategoryClassifierModel | null> {
+  const userId = await getUserId();
+  if (!userId) return null;
+
+  if (cachedModel && cachedModel.userId === userId && Date.now() - cachedModel.trainedAt < MODEL_TTL_MS) {
+    return cachedModel.model;
+  }
+
+  const model = trainCategoryClassifier(await loadTrainingExamples(userId));
+  cachedModel = { userId, trainedAt: Date.now(), model };
+  logger.transaction.info(`Trained category classifier on ${model.documents} transactions`);
+  return model;
+}
+
+/**
+ * Add a newly created transaction to the trained model, if there is one,
+ * so inserts don't force a retrain
+ */
+export function learnCategory(transaction: ClassifierInput & Pick<Transaction, 'user_id' | 'category_id'>): void {
+  if (!cachedModel || cachedModel.userId !== transaction.user_id || !transaction.category_id) return;
+  addExample(cachedModel.model, { ...transaction, category_id: transaction.category_id });
+}
+
+/**
+ * Forget the trained model so the next suggestion learns from the latest
+ * categories (call after a transaction's category is corrected)
+ */
+export function invalidateCategoryClassifier(): void {
+  cachedModel = null;
+}
+
+/**
+ * Ranked category suggestions for a transaction from the user's own history
+ */
+export async function suggestCategories(
+  input: ClassifierInput,
+  options: SuggestOptions = {}
+): Promise<CategorySuggestion[]> {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  if (!input.merchant_name?.trim()) return [];
+
+  try {
+    const model = await getModel();
+    if (model) return suggestWithModel(model, input, limit);
+  } catch (error) {
+    logger.transaction.warn('Category classifier unavailable, using keywords:', error);
+  }
+  return [keywordSuggestion(input.merchant_name)];
+}
+
+export default {
+  extractFeatures,
+  trainCategoryClassifier,
+  hasEnoughData,
+  classifyTransaction,
+  suggestWithModel,
+  suggestCategories,
+  learnCategory,
+  invalidateCategoryClassifier,
+};
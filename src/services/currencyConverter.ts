@@ -1,58 +1,14 @@
 /**
  * Currency Converter Service
- * Converts amounts between currencies using real-time exchange rates
+ * Converts amounts between currencies using the shared rate provider
  */
 
-import { logger } from '@/utils/logger';
-
-// Exchange rate API - Free tier with reasonable limits
-const EXCHANGE_RATE_API_URL = 'https://api.exchangerate-api.com/v4/latest';
-
-// Cache for exchange rates (valid for 1 hour)
-interface RateCache {
-  rates: Record<string, number>;
-  baseCurrency: string;
-  timestamp: number;
-}
-
-let rateCache: RateCache | null = null;
-const CACHE_DURATION = 60 * 60 * 1000; // 1 hour in milliseconds
-
-/**
- * Fetch exchange rates for a base currency
- */
-async function fetchExchangeRates(baseCurrency: string): Promise<Record<string, number>> {
-  // Check cache first
-  if (
-    rateCache &&
-    rateCache.baseCurrency === baseCurrency &&
-    Date.now() - rateCache.timestamp < CACHE_DURATION
-  ) {
-    return rateCache.rates;
-  }
-
-  try {
-    const response = await fetch(`${EXCHANGE_RATE_API_URL}/${baseCurrency}`);
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch exchange rates: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Cache the rates
-    rateCache = {
-      rates: data.rates,
-      baseCurrency,
-      timestamp: Date.now(),
-    };
-
-    return data.rates;
-  } catch (error) {
-    logger.currency.error('Failed to fetch exchange rates:', error);
-    throw error;
-  }
-}
+import {
+  getRates,
+  getLastRatesSnapshot,
+  isSnapshotStale,
+  clearRatesCache,
+} from './rateProvider';
 
 /**
  * Get the exchange rate between two currencies
@@ -65,14 +21,15 @@ export async function getExchangeRate(
     return 1;
   }
 
-  const rates = await fetchExchangeRates(fromCurrency);
-  const rate = rates[toCurrency];
+  const { base, rates } = await getRates('USD');
+  const fromRate = fromCurrency === base ? 1 : rates[fromCurrency];
+  const toRate = toCurrency === base ? 1 : rates[toCurrency];
 
-  if (!rate) {
+  if (!fromRate || !toRate) {
     throw new Error(`Exchange rate not found for ${fromCurrency} to ${toCurrency}`);
   }
 
-  return rate;
+  return toRate / fromRate;
 }
 
 /**
@@ -128,27 +85,27 @@ export async function convertCurrencyWithDetails(
  * Clear the exchange rate cache
  */
 export function clearRateCache(): void {
-  rateCache = null;
+  void clearRatesCache();
 }
 
 /**
  * Check if rates are cached and fresh
  */
 export function hasValidCache(): boolean {
-  return !!(
-    rateCache && Date.now() - rateCache.timestamp < CACHE_DURATION
-  );
+  const snapshot = getLastRatesSnapshot();
+  return !!snapshot && !isSnapshotStale(snapshot);
 }
 
 /**
  * Get cached rates info (for debugging/display)
  */
 export function getCacheInfo(): { baseCurrency: string; age: number } | null {
-  if (!rateCache) return null;
+  const snapshot = getLastRatesSnapshot();
+  if (!snapshot) return null;
 
   return {
-    baseCurrency: rateCache.baseCurrency,
-    age: Math.round((Date.now() - rateCache.timestamp) / 1000 / 60), // age in minutes
+    baseCurrency: snapshot.base,
+    age: Math.round((Date.now() - snapshot.fetchedAt) / 1000 / 60), // age in minutes
   };
 }
 
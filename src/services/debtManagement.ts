@@ -14,6 +14,10 @@ import type {
   DebtUpdate,
   DebtPaymentInsert,
   PayoffStrategy,
+  PayoffSchedule,
+  PayoffScheduleEntry,
+  PayoffScheduleMonth,
+  Transaction,
 } from '@/types';
 
 // ============================================
@@ -152,10 +156,15 @@ export async function deleteDebt(debtId: string): Promise<void> {
 // PAYMENT OPERATIONS
 // ============================================
 
+/** Payment details; the principal/interest split and new balance are calculated */
+export type DebtPaymentInput = Pick<DebtPaymentInsert, 'debt_id' | 'amount' | 'payment_date'> &
+  Partial<Pick<DebtPaymentInsert, 'notes' | 'transaction_id'>>;
+
 /**
  * Record a debt payment
+ * The debt balance (and any liability linked to it) is updated by database triggers.
  */
-export async function recordPayment(payment: Omit<DebtPaymentInsert, 'user_id'>): Promise<DebtPayment> {
+export async function recordPayment(payment: DebtPaymentInput): Promise<DebtPayment> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('Not authenticated');
 
@@ -208,6 +217,150 @@ export async function getPaymentHistory(debtId: string): Promise<DebtPayment[]>
   return data || [];
 }
 
+// ============================================
+// PAYMENT RECONCILIATION
+// ============================================
+
+/** Transaction fields needed to match a payment to a debt */
+export type PaymentTransaction = Pick<
+  Transaction,
+  'id' | 'merchant_name' | 'amount' | 'currency' | 'transaction_date' | 'transaction_type' | 'card_last_four' | 'notes'
+>;
+
+export interface ReconciledDebtPayment {
+  transaction_id: string;
+  debt_id: string;
+  payment: DebtPayment;
+}
+
+const PAYMENT_LOOKBACK_DAYS = 90;
+const MIN_PAYMENT_MATCH_SCORE = 2;
+
+/**
+ * Find the debt a 'payment' transaction pays down.
+ *
+ * The account's last four digits are the strongest signal, then the lender
+ * or debt name in the description. Returns null when nothing matches well
+ * enough or when two debts match equally.
+ */
+export function matchPaymentToDebt(transaction: PaymentTransaction, debts: Debt[]): Debt | null {
+  if (transaction.transaction_type !== 'payment') return null;
+  const amount = Math.abs(Number(transaction.amount));
+  if (amount === 0) return null;
+
+  const text = ` ${normalizeText(`${transaction.merchant_name} ${transaction.notes ?? ''}`)} `;
+  const mentions = (value: string | null) => {
+    const normalized = value ? normalizeText(value) : '';
+    return normalized.length >= 3 && text.includes(` ${normalized} `);
+  };
+
+  const scored = debts
+    .filter(d => Number(d.current_balance) > 0 && d.currency === transaction.currency)
+    .map(debt => {
+      let score = 0;
+      const lastFour = debt.account_number_last_four;
+      if (lastFour && (transaction.card_last_four === lastFour || text.includes(lastFour))) score += 3;
+      if (mentions(debt.lender_name)) score += 2;
+      if (mentions(debt.name)) score += 2;
+      // Paying the minimum separates debts held with the same lender
+      const minimum = Number(debt.minimum_payment);
+      if (minimum > 0 && Math.abs(amount - minimum) <= minimum * 0.05) score += 1;
+      return { debt, score };
+    })
+    .filter(m => m.score >= MIN_PAYMENT_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) return null;
+  if (scored.length > 1 && scored[0].score === scored[1].score) return null;
+  return scored[0].debt;
+}
+
+/**
+ * Record a 'payment' transaction against the debt it matches.
+ * Returns null when it matches no debt or was already recorded.
+ */
+export async function reconcileDebtPayment(
+  transaction: PaymentTransaction,
+  debts?: Debt[]
+): Promise<ReconciledDebtPayment | null> {
+  if (transaction.transaction_type !== 'payment') return null;
+
+  const { data: existing, error } = await supabase
+    .from('debt_payments')
+    .select('id')
+    .eq('transaction_id', transaction.id)
+    .limit(1);
+
+  if (error) throw error;
+  if (existing && existing.length > 0) return null;
+
+  const debt = matchPaymentToDebt(transaction, debts ?? await getDebts(true));
+  if (!debt) return null;
+
+  const payment = await recordPayment({
+    debt_id: debt.id,
+    amount: Math.abs(Number(transaction.amount)),
+    payment_date: transaction.transaction_date,
+    transaction_id: transaction.id,
+  });
+
+  return { transaction_id: transaction.id, debt_id: debt.id, payment };
+}
+
+/**
+ * Match recent 'payment' transactions to debts and record the ones not yet recorded
+ */
+export async function reconcileDebtPayments(since?: string): Promise<ReconciledDebtPayment[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const debts = await getDebts(true);
+  if (debts.length === 0) return [];
+
+  const from = since ?? new Date(Date.now() - PAYMENT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  const [transactions, recorded] = await Promise.all([
+    supabase
+      .from('transactions')
+      .select('id, merchant_name, amount, currency, transaction_date, transaction_type, card_last_four, notes')
+      .eq('user_id', user.id)
+      .eq('transaction_type', 'payment')
+      .eq('is_deleted', false)
+      .gte('transaction_date', from)
+      .order('transaction_date', { ascending: true }),
+    supabase
+      .from('debt_payments')
+      .select('transaction_id')
+      .eq('user_id', user.id)
+      .not('transaction_id', 'is', null),
+  ]);
+
+  if (transactions.error) throw transactions.error;
+  if (recorded.error) throw recorded.error;
+
+  const recordedIds = new Set((recorded.data || []).map(p => p.transaction_id));
+  const reconciled: ReconciledDebtPayment[] = [];
+
+  for (const transaction of (transactions.data || []) as PaymentTransaction[]) {
+    if (recordedIds.has(transaction.id)) continue;
+
+    const debt = matchPaymentToDebt(transaction, debts);
+    if (!debt) continue;
+
+    const payment = await recordPayment({
+      debt_id: debt.id,
+      amount: Math.abs(Number(transaction.amount)),
+      payment_date: transaction.transaction_date,
+      transaction_id: transaction.id,
+    });
+    // Keep the local copy in step so a debt paid off here stops matching
+    debt.current_balance = payment.balance_after;
+    reconciled.push({ transaction_id: transaction.id, debt_id: debt.id, payment });
+  }
+
+  return reconciled;
+}
+
 // ============================================
 // DEBT SUMMARY & ANALYTICS
 // ============================================
@@ -268,103 +421,209 @@ export async function getDebtSummary(): Promise<DebtSummary> {
 }
 
 // ============================================
-// PAYOFF STRATEGIES
+// PAYOFF SIMULATION
 // ============================================
 
+/** Debt fields the simulator needs; rates are annual decimals (0.1999 = 19.99%) */
+export type PayoffDebt = Pick<Debt, 'id' | 'name' | 'current_balance' | 'interest_rate' | 'minimum_payment'> &
+  Partial<Pick<Debt, 'promo_interest_rate' | 'promo_end_date'>>;
+
+export interface LumpSumPayment {
+  month: number; // 1 = first simulated month
+  amount: number;
+  /** Apply to this debt; otherwise it goes to the current focus debt */
+  debt_id?: string;
+}
+
+export interface PayoffSimulationOptions {
+  strategy?: PayoffStrategy;
+  extraPayment?: number;
+  lumpSums?: LumpSumPayment[];
+  /** Debt IDs in payoff priority for the 'custom' strategy; unlisted debts follow by avalanche */
+  customOrder?: string[];
+  /** First simulated month, YYYY-MM-DD (defaults to next month) */
+  startDate?: string;
+  maxMonths?: number;
+}
+
+const MAX_SIMULATION_MONTHS = 600;
+
+interface SimulatedDebt {
+  debt: PayoffDebt;
+  balance: number;
+  interestPaid: number;
+  totalPaid: number;
+  firstPayment: number;
+  payoffMonth: number | null;
+}
+
 /**
- * Calculate payoff plan using specified strategy
+ * Simulate paying off all debts together, month by month.
+ *
+ * Every month each debt accrues interest (at its promotional rate while the
+ * promotion lasts) and gets its minimum payment. The extra payment, any lump
+ * sums and the minimums freed by debts already paid off all go to the focus
+ * debt chosen by the strategy, spilling over to the next one when it clears.
  */
-export async function calculatePayoffPlan(
-  strategy: PayoffStrategy = 'avalanche',
-  extraPayment: number = 0
-): Promise<PayoffPlan[]> {
-  const debts = await getDebts(true);
-  if (debts.length === 0) return [];
+export function simulatePayoff(
+  debts: PayoffDebt[],
+  options: PayoffSimulationOptions = {}
+): PayoffSchedule {
+  const {
+    strategy = 'avalanche',
+    extraPayment = 0,
+    lumpSums = [],
+    customOrder = [],
+    maxMonths = MAX_SIMULATION_MONTHS,
+  } = options;
+  const start = options.startDate ? new Date(`${options.startDate.slice(0, 7)}-01T00:00:00`) : nextMonthStart();
+
+  const simulated: SimulatedDebt[] = debts.map(debt => ({
+    debt,
+    balance: roundCents(Number(debt.current_balance)),
+    interestPaid: 0,
+    totalPaid: 0,
+    firstPayment: 0,
+    payoffMonth: Number(debt.current_balance) > 0 ? null : 0,
+  }));
+
+  // Freed minimums roll over, so the monthly budget never shrinks
+  const monthlyBudget = debts.reduce((sum, d) => sum + Number(d.minimum_payment), 0) + Math.max(0, extraPayment);
+  const priority = orderForPayoff(simulated, strategy, monthDate(start, 1), customOrder);
+  const months: PayoffScheduleMonth[] = [];
+
+  for (let month = 1; month <= maxMonths && simulated.some(s => s.balance > 0); month++) {
+    const date = monthDate(start, month);
+    const active = simulated.filter(s => s.balance > 0);
+    const entries = new Map<string, PayoffScheduleEntry>();
+    const pay = (s: SimulatedDebt, amount: number): number => {
+      const paid = roundCents(Math.min(amount, s.balance));
+      if (paid <= 0) return 0;
+      s.balance = roundCents(s.balance - paid);
+      s.totalPaid += paid;
+      entries.get(s.debt.id)!.payment = roundCents(entries.get(s.debt.id)!.payment + paid);
+      return paid;
+    };
 
-  // Sort debts based on strategy
-  const sortedDebts = [...debts].sort((a, b) => {
-    if (strategy === 'snowball') {
-      // Smallest balance first
-      return Number(a.current_balance) - Number(b.current_balance);
-    } else if (strategy === 'avalanche') {
-      // Highest interest rate first
-      return Number(b.interest_rate) - Number(a.interest_rate);
+    for (const s of active) {
+      const interest = roundCents(s.balance * annualRateFor(s.debt, date) / 12);
+      s.balance = roundCents(s.balance + interest);
+      s.interestPaid += interest;
+      entries.set(s.debt.id, { debt_id: s.debt.id, payment: 0, interest, principal: 0, balance: 0 });
     }
-    return 0;
-  });
 
-  const totalMinimum = debts.reduce((sum, d) => sum + Number(d.minimum_payment), 0);
-  const totalPayment = totalMinimum + extraPayment;
+    let available = monthlyBudget;
+    for (const s of active) {
+      available -= pay(s, Math.min(Number(s.debt.minimum_payment), available));
+    }
 
-  const plans: PayoffPlan[] = [];
-  let remainingExtra = extraPayment;
+    for (const lump of lumpSums.filter(l => l.month === month)) {
+      const target = lump.debt_id ? active.find(s => s.debt.id === lump.debt_id) : undefined;
+      available += lump.amount - (target ? pay(target, lump.amount) : 0);
+    }
 
-  sortedDebts.forEach((debt, index) => {
-    // Calculate recommended payment (minimum + extra for focused debt)
-    const recommendedPayment = index === 0
-      ? Number(debt.minimum_payment) + remainingExtra
-      : Number(debt.minimum_payment);
+    for (const s of orderForPayoff(active, strategy, date, customOrder)) {
+      if (available <= 0) break;
+      available -= pay(s, available);
+    }
 
-    const monthsToPayoff = calculateMonthsToPayoff(
-      debt.current_balance,
-      debt.interest_rate,
-      recommendedPayment
-    );
+    for (const s of active) {
+      const entry = entries.get(s.debt.id)!;
+      entry.principal = roundCents(entry.payment - entry.interest);
+      entry.balance = s.balance;
+      if (month === 1) s.firstPayment = entry.payment;
+      if (s.balance <= 0 && s.payoffMonth === null) s.payoffMonth = month;
+    }
 
-    const totalInterest = calculateTotalInterest(
-      debt.current_balance,
-      debt.interest_rate,
-      recommendedPayment,
-      monthsToPayoff
-    );
+    const monthEntries = [...entries.values()];
+    months.push({
+      month,
+      date: toDateString(date),
+      entries: monthEntries,
+      total_payment: roundCents(monthEntries.reduce((sum, e) => sum + e.payment, 0)),
+      total_interest: roundCents(monthEntries.reduce((sum, e) => sum + e.interest, 0)),
+      total_balance: roundCents(simulated.reduce((sum, s) => sum + s.balance, 0)),
+    });
+  }
 
-    const payoffDate = new Date();
-    payoffDate.setMonth(payoffDate.getMonth() + monthsToPayoff);
+  const isComplete = simulated.every(s => s.balance <= 0);
+  const monthsToDebtFree = isComplete ? months.length : maxMonths;
 
-    plans.push({
-      debt_id: debt.id,
-      debt_name: debt.name,
-      current_balance: Number(debt.current_balance),
-      interest_rate: Number(debt.interest_rate),
-      minimum_payment: Number(debt.minimum_payment),
-      recommended_payment: recommendedPayment,
+  const plans: PayoffPlan[] = priority.map((s, index) => {
+    const payoffMonth = s.payoffMonth ?? maxMonths;
+    return {
+      debt_id: s.debt.id,
+      debt_name: s.debt.name,
+      current_balance: Number(s.debt.current_balance),
+      interest_rate: Number(s.debt.interest_rate),
+      minimum_payment: Number(s.debt.minimum_payment),
+      recommended_payment: s.firstPayment,
       payoff_order: index + 1,
-      months_to_payoff: monthsToPayoff,
-      total_interest: Math.round(totalInterest * 100) / 100,
-      payoff_date: payoffDate.toISOString().split('T')[0],
-    });
+      months_to_payoff: payoffMonth,
+      total_interest: roundCents(s.interestPaid),
+      payoff_date: toDateString(monthDate(start, Math.max(payoffMonth, 1))),
+    };
   });
 
-  return plans;
+  return {
+    strategy,
+    months,
+    plans,
+    total_interest: roundCents(simulated.reduce((sum, s) => sum + s.interestPaid, 0)),
+    total_paid: roundCents(simulated.reduce((sum, s) => sum + s.totalPaid, 0)),
+    months_to_debt_free: monthsToDebtFree,
+    debt_free_date: isComplete && months.length > 0 ? months[months.length - 1].date : null,
+    is_complete: isComplete,
+  };
+}
+
+/**
+ * Simulate the payoff of the user's active debts
+ */
+export async function getPayoffSchedule(options: PayoffSimulationOptions = {}): Promise<PayoffSchedule> {
+  const debts = await getDebts(true);
+  return simulatePayoff(debts, options);
+}
+
+/**
+ * Calculate payoff plan using specified strategy
+ */
+export async function calculatePayoffPlan(
+  strategy: PayoffStrategy = 'avalanche',
+  extraPayment: number = 0,
+  options: Omit<PayoffSimulationOptions, 'strategy' | 'extraPayment'> = {}
+): Promise<PayoffPlan[]> {
+  const schedule = await getPayoffSchedule({ ...options, strategy, extraPayment });
+  return schedule.plans;
 }
 
 /**
  * Compare payoff strategies
  */
-export async function compareStrategies(extraPayment: number = 0): Promise<{
-  snowball: { totalInterest: number; monthsToDebtFree: number };
-  avalanche: { totalInterest: number; monthsToDebtFree: number };
+export async function compareStrategies(
+  extraPayment: number = 0,
+  options: Omit<PayoffSimulationOptions, 'strategy' | 'extraPayment'> = {}
+): Promise<{
+  snowball: { totalInterest: number; monthsToDebtFree: number; debtFreeDate: string | null };
+  avalanche: { totalInterest: number; monthsToDebtFree: number; debtFreeDate: string | null };
   savings: number;
 }> {
-  const snowballPlan = await calculatePayoffPlan('snowball', extraPayment);
-  const avalanchePlan = await calculatePayoffPlan('avalanche', extraPayment);
-
-  const snowballTotalInterest = snowballPlan.reduce((sum, p) => sum + p.total_interest, 0);
-  const avalancheTotalInterest = avalanchePlan.reduce((sum, p) => sum + p.total_interest, 0);
-
-  const snowballMonths = Math.max(...snowballPlan.map(p => p.months_to_payoff), 0);
-  const avalancheMonths = Math.max(...avalanchePlan.map(p => p.months_to_payoff), 0);
+  const debts = await getDebts(true);
+  const snowball = simulatePayoff(debts, { ...options, strategy: 'snowball', extraPayment });
+  const avalanche = simulatePayoff(debts, { ...options, strategy: 'avalanche', extraPayment });
 
   return {
     snowball: {
-      totalInterest: Math.round(snowballTotalInterest * 100) / 100,
-      monthsToDebtFree: snowballMonths,
+      totalInterest: snowball.total_interest,
+      monthsToDebtFree: snowball.months_to_debt_free,
+      debtFreeDate: snowball.debt_free_date,
     },
     avalanche: {
-      totalInterest: Math.round(avalancheTotalInterest * 100) / 100,
-      monthsToDebtFree: avalancheMonths,
+      totalInterest: avalanche.total_interest,
+      monthsToDebtFree: avalanche.months_to_debt_free,
+      debtFreeDate: avalanche.debt_free_date,
     },
-    savings: Math.round((snowballTotalInterest - avalancheTotalInterest) * 100) / 100,
+    savings: roundCents(snowball.total_interest - avalanche.total_interest),
   };
 }
 
@@ -403,16 +662,66 @@ function calculateMonthsToPayoff(
 }
 
 /**
- * Calculate total interest paid over the life of the debt
+ * Annual rate charged in a given month, honouring promotional periods
  */
-function calculateTotalInterest(
-  balance: number,
-  annualRate: number,
-  monthlyPayment: number,
-  months: number
-): number {
-  const totalPaid = monthlyPayment * months;
-  return Math.max(0, totalPaid - balance);
+function annualRateFor(debt: PayoffDebt, date: Date): number {
+  if (debt.promo_interest_rate != null && debt.promo_end_date && toDateString(date) < debt.promo_end_date) {
+    return Number(debt.promo_interest_rate);
+  }
+  return Number(debt.interest_rate);
+}
+
+/**
+ * Order debts by payoff priority for a strategy
+ */
+function orderForPayoff(
+  debts: SimulatedDebt[],
+  strategy: PayoffStrategy,
+  date: Date,
+  customOrder: string[]
+): SimulatedDebt[] {
+  const customRank = (s: SimulatedDebt) => {
+    const index = customOrder.indexOf(s.debt.id);
+    return index === -1 ? customOrder.length : index;
+  };
+  const byRate = (a: SimulatedDebt, b: SimulatedDebt) =>
+    annualRateFor(b.debt, date) - annualRateFor(a.debt, date) || a.balance - b.balance;
+
+  return [...debts].sort((a, b) => {
+    if (strategy === 'snowball') {
+      // Smallest balance first
+      return a.balance - b.balance || byRate(a, b);
+    }
+    if (strategy === 'custom' && customRank(a) !== customRank(b)) {
+      return customRank(a) - customRank(b);
+    }
+    // Highest interest rate first
+    return byRate(a, b);
+  });
+}
+
+function nextMonthStart(): Date {
+  const today = new Date();
+  return new Date(today.getFullYear(), today.getMonth() + 1, 1);
+}
+
+/** First day of the nth simulated month (1-based) */
+function monthDate(start: Date, month: number): Date {
+  return new Date(start.getFullYear(), start.getMonth() + month - 1, 1);
+}
+
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
 }
 
 /**
@@ -451,7 +760,12 @@ export default {
   deleteDebt,
   recordPayment,
   getPaymentHistory,
+  matchPaymentToDebt,
+  reconcileDebtPayment,
+  reconcileDebtPayments,
   getDebtSummary,
+  simulatePayoff,
+  getPayoffSchedule,
   calculatePayoffPlan,
   compareStrategies,
   getUpcomingPayments,
@@ -17,7 +17,8 @@ import type {
   SubscriptionFrequency,
 } from '@/types';
 import { DEFAULT_CATEGORIES, getCategoryById } from '@/config/categories';
-import { convertCurrency } from './currencyConverter';
+import { convertAtTransactionRate } from './rateHistory';
+import type { MerchantResolver } from './merchants';
 import { useSettingsStore } from '@/stores/settingsStore';
 
 const STORAGE_KEYS = {
@@ -32,6 +33,11 @@ const STORAGE_KEYS = {
   HOUSEHOLDS: '@dev_households',
   HOUSEHOLD_MEMBERS: '@dev_household_members',
   NET_WORTH_SNAPSHOTS: '@dev_net_worth_snapshots',
+  RECEIPT_ITEMS: '@dev_receipt_items',
+  SUBSCRIPTION_CHARGES: '@dev_subscription_charges',
+  HEALTH_SNAPSHOTS: '@dev_health_snapshots',
+  CATEGORIZATION_RULES: '@dev_categorization_rules',
+  MERCHANTS: '@dev_merchants',
 };
 
 /**
@@ -187,7 +193,7 @@ export async function getDevMonthlySummary(month: Date = new Date()): Promise<{
 
     if (txCurrency !== userCurrency) {
       try {
-        convertedAmount = await convertCurrency(Number(t.amount), txCurrency, userCurrency);
+        convertedAmount = await convertAtTransactionRate(Number(t.amount), t, userCurrency);
       } catch (error) {
         logger.storage.warn(`Failed to convert ${txCurrency} to ${userCurrency}, using original amount`);
       }
@@ -276,7 +282,7 @@ export async function getDevSpendingTrend(): Promise<{ month: string; amount: nu
 
       if (txCurrency !== userCurrency) {
         try {
-          amount = await convertCurrency(amount, txCurrency, userCurrency);
+          amount = await convertAtTransactionRate(amount, t, userCurrency);
         } catch (error) {
           // Use original amount if conversion fails
         }
@@ -308,11 +314,13 @@ export async function searchDevTransactions(query: string, limit: number = 10):
 
 /**
  * Get top merchants from dev transactions
- * Converts all amounts to user's main currency
+ * Converts all amounts to user's main currency; groups by canonical merchant
+ * when given a resolver
  */
 export async function getDevTopMerchants(
   limit: number = 5,
-  month?: Date
+  month?: Date,
+  resolve?: MerchantResolver
 ): Promise<{ merchant: string; amount: number; count: number }[]> {
   let transactions = await getDevTransactions();
   const userCurrency = useSettingsStore.getState().currency || 'AED';
@@ -327,28 +335,28 @@ export async function getDevTopMerchants(
     });
   }
 
-  const merchantMap = new Map<string, { amount: number; count: number }>();
+  const merchantMap = new Map<string, { merchant: string; amount: number; count: number }>();
 
   for (const t of transactions) {
+    const { key, name } = resolve ? resolve(t.merchant_name) : { key: t.merchant_name, name: t.merchant_name };
     const txCurrency = t.currency || 'AED';
     let amount = Number(t.amount);
 
     if (txCurrency !== userCurrency) {
       try {
-        amount = await convertCurrency(amount, txCurrency, userCurrency);
+        amount = await convertAtTransactionRate(amount, t, userCurrency);
       } catch (error) {
         // Use original amount if conversion fails
       }
     }
 
-    const existing = merchantMap.get(t.merchant_name) || { amount: 0, count: 0 };
+    const existing = merchantMap.get(key) || { merchant: name, amount: 0, count: 0 };
     existing.amount += amount;
     existing.count += 1;
-    merchantMap.set(t.merchant_name, existing);
+    merchantMap.set(key, existing);
   }
 
-  return Array.from(merchantMap.entries())
-    .map(([merchant, data]) => ({ merchant, ...data }))
+  return Array.from(merchantMap.values())
     .sort((a, b) => b.amount - a.amount)
     .slice(0, limit);
 }
@@ -895,6 +903,9 @@ export interface DevDebt {
   balance: number;
   original_balance: number; // Balance at time of creation, used for progress tracking
   interest_rate: number;
+  /** Promotional APR in percent, charged until promo_end_date */
+  promo_interest_rate?: number;
+  promo_end_date?: string;
   minimum_payment: number;
   icon: string;
   status: 'active' | 'paid_off';
@@ -1606,6 +1617,32 @@ export async function clearDevHouseholds(): Promise<void> {
   await AsyncStorage.removeItem(STORAGE_KEYS.HOUSEHOLD_MEMBERS);
 }
 
+// ============================================
+// RAW COLLECTIONS (backup & restore)
+// ============================================
+
+export type DevCollection = keyof typeof STORAGE_KEYS;
+
+/**
+ * Read a dev collection exactly as stored (no category enrichment or migrations)
+ */
+export async function getDevCollection<T = Record<string, unknown>>(collection: DevCollection): Promise<T[]> {
+  try {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS[collection]);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    logger.storage.error(`Error reading dev collection ${collection}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Overwrite a dev collection
+ */
+export async function setDevCollection<T>(collection: DevCollection, records: T[]): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEYS[collection], JSON.stringify(records));
+}
+
 /**
  * Clear ALL dev data (for debugging/reset)
  * Use with caution - this removes all local data
@@ -1623,6 +1660,11 @@ export async function clearAllDevData(): Promise<void> {
     AsyncStorage.removeItem(STORAGE_KEYS.HOUSEHOLDS),
     AsyncStorage.removeItem(STORAGE_KEYS.HOUSEHOLD_MEMBERS),
     AsyncStorage.removeItem(STORAGE_KEYS.NET_WORTH_SNAPSHOTS),
+    AsyncStorage.removeItem(STORAGE_KEYS.RECEIPT_ITEMS),
+    AsyncStorage.removeItem(STORAGE_KEYS.SUBSCRIPTION_CHARGES),
+    AsyncStorage.removeItem(STORAGE_KEYS.HEALTH_SNAPSHOTS),
+    AsyncStorage.removeItem(STORAGE_KEYS.CATEGORIZATION_RULES),
+    AsyncStorage.removeItem(STORAGE_KEYS.MERCHANTS),
   ]);
   logger.storage.info('All dev data cleared');
 }
@@ -0,0 +1,391 @@
+/**
+ * Dividend Service
+ * Keeps a ledger of dividends received from 'dividend' investment
+ * transactions, links each to an 'investment' income entry so cash flow
+ * includes it, and summarizes yield on cost, projected income and the
+ * upcoming ex-date / pay-date calendar.
+ */
+
+import { supabase } from './supabase';
+import { recordDividendIncome } from './incomeTracking';
+import { logger } from '@/utils/logger';
+import type {
+  DividendPayment,
+  DividendPaymentInsert,
+  DividendType,
+  DividendFrequency,
+  DividendCalendarEntry,
+  DividendHoldingYield,
+  DividendSummary,
+  InvestmentHolding,
+  InvestmentTransaction,
+} from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DividendHolding = Pick<InvestmentHolding, 'symbol' | 'name' | 'quantity' | 'cost_basis'>;
+
+export interface DividendDetails {
+  ex_dividend_date?: string;
+  dividend_type?: DividendType;
+  /** Shares bought by reinvesting the payment */
+  reinvested_shares?: number;
+}
+
+const FREQUENCY_MONTHS: Record<DividendFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semi_annual: 6,
+  annual: 12,
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function getUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  return user.id;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/** Add months to a YYYY-MM-DD date, clamping to the end of shorter months */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return toDateString(new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))));
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/** Payment frequency implied by the number of regular payments in a year */
+function frequencyFromCount(count: number): DividendFrequency | null {
+  if (count >= 10) return 'monthly';
+  if (count >= 3) return 'quarterly';
+  if (count === 2) return 'semi_annual';
+  if (count === 1) return 'annual';
+  return null;
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+/**
+ * Get recorded dividends, newest first
+ */
+export async function getDividendPayments(options: {
+  since?: string;
+  symbol?: string;
+} = {}): Promise<DividendPayment[]> {
+  const userId = await getUserId();
+
+  let query = supabase
+    .from('dividend_payments')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (options.since) {
+    query = query.gte('payment_date', options.since);
+  }
+  if (options.symbol) {
+    query = query.eq('symbol', options.symbol.toUpperCase());
+  }
+
+  const { data, error } = await query.order('payment_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Record a 'dividend' investment transaction in the ledger and as income.
+ * Recording the same transaction twice returns the existing entry.
+ */
+export async function recordDividend(
+  transaction: InvestmentTransaction,
+  details: DividendDetails = {}
+): Promise<DividendPayment | null> {
+  if (transaction.transaction_type !== 'dividend') return null;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('dividend_payments')
+    .select('*')
+    .eq('investment_transaction_id', transaction.id)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing) return existing;
+
+  const amount = Number(transaction.amount) || transaction.quantity * transaction.price;
+  const payment: DividendPaymentInsert = {
+    user_id: transaction.user_id,
+    holding_id: transaction.holding_id,
+    investment_transaction_id: transaction.id,
+    income_id: null,
+    symbol: transaction.symbol.toUpperCase(),
+    amount: roundCents(amount),
+    currency: transaction.currency || 'USD',
+    amount_per_share: transaction.quantity > 0 ? transaction.price : null,
+    shares: transaction.quantity > 0 ? transaction.quantity : null,
+    ex_dividend_date: details.ex_dividend_date || transaction.transaction_date,
+    payment_date: transaction.transaction_date,
+    record_date: null,
+    dividend_type: details.dividend_type || 'regular',
+    reinvested: !!details.reinvested_shares,
+    reinvested_shares: details.reinvested_shares || null,
+  };
+
+  const { data, error } = await supabase
+    .from('dividend_payments')
+    .insert(payment)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  // The ledger entry stands on its own; income is linked best-effort
+  try {
+    const income = await recordDividendIncome(data);
+    await supabase
+      .from('dividend_payments')
+      .update({ income_id: income.id })
+      .eq('id', data.id);
+    return { ...data, income_id: income.id };
+  } catch (incomeError) {
+    logger.investment.warn('Failed to record dividend income:', incomeError);
+    return data;
+  }
+}
+
+/**
+ * Record dividend transactions that are not in the ledger yet
+ * (e.g. imported from a brokerage). Returns the number recorded.
+ */
+export async function syncDividendLedger(): Promise<number> {
+  const userId = await getUserId();
+
+  const [transactions, recorded] = await Promise.all([
+    supabase
+      .from('investment_transactions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('transaction_type', 'dividend'),
+    supabase
+      .from('dividend_payments')
+      .select('investment_transaction_id')
+      .eq('user_id', userId)
+      .not('investment_transaction_id', 'is', null),
+  ]);
+
+  if (transactions.error) throw transactions.error;
+  if (recorded.error) throw recorded.error;
+
+  const recordedIds = new Set((recorded.data || []).map((r) => r.investment_transaction_id));
+  let count = 0;
+
+  for (const transaction of transactions.data || []) {
+    if (recordedIds.has(transaction.id)) continue;
+    try {
+      await recordDividend(transaction);
+      count++;
+    } catch (error) {
+      logger.investment.warn(`Failed to record dividend ${transaction.id}:`, error);
+    }
+  }
+
+  return count;
+}
+
+// ============================================
+// SUMMARY
+// ============================================
+
+/**
+ * Summarize received dividends and project the next 12 months.
+ *
+ * Each payer's frequency is inferred from its regular payments over the
+ * trailing 12 months; the latest per-share amount times the current share
+ * count is projected forward on that cadence. Special dividends count as
+ * received income but are not projected.
+ */
+export function summarizeDividends(
+  payments: DividendPayment[],
+  holdings: DividendHolding[],
+  today: Date = new Date()
+): DividendSummary {
+  const todayStr = toDateString(today);
+  const currentMonth = `${todayStr.slice(0, 7)}-01`;
+  const yearStart = `${todayStr.slice(0, 4)}-01-01`;
+  const lastYear = String(Number(todayStr.slice(0, 4)) - 1);
+  const ttmStart = addMonths(todayStr, -12);
+  const priorStart = addMonths(todayStr, -24);
+  // Projection covers the current month and the 11 after it
+  const horizon = addDays(addMonths(currentMonth, 12), -1);
+
+  const received = payments.filter((p) => p.payment_date <= todayStr);
+  const sum = (list: DividendPayment[]) => list.reduce((total, p) => total + Number(p.amount), 0);
+
+  const ytd = sum(received.filter((p) => p.payment_date >= yearStart));
+  const lastYearTotal = sum(received.filter((p) => p.payment_date.startsWith(lastYear)));
+  const trailing = received.filter((p) => p.payment_date > ttmStart);
+  const trailingTotal = sum(trailing);
+  const priorTotal = sum(received.filter((p) => p.payment_date > priorStart && p.payment_date <= ttmStart));
+
+  const dividendByMonth: Record<string, number> = {};
+  const projectedByMonth: Record<string, number> = {};
+  for (let i = 0; i < 12; i++) {
+    dividendByMonth[addMonths(currentMonth, i - 11).slice(0, 7)] = 0;
+    projectedByMonth[addMonths(currentMonth, i).slice(0, 7)] = 0;
+  }
+  for (const payment of trailing) {
+    const month = payment.payment_date.slice(0, 7);
+    if (month in dividendByMonth) dividendByMonth[month] += Number(payment.amount);
+  }
+
+  const holdingsBySymbol = new Map<string, DividendHolding>();
+  for (const holding of holdings) {
+    const symbol = holding.symbol.toUpperCase();
+    const existing = holdingsBySymbol.get(symbol);
+    holdingsBySymbol.set(symbol, existing
+      ? {
+        ...existing,
+        quantity: existing.quantity + holding.quantity,
+        cost_basis: existing.cost_basis + holding.cost_basis,
+      }
+      : holding);
+  }
+
+  const symbols = [...new Set(trailing.map((p) => p.symbol.toUpperCase()))];
+  const calendar: DividendCalendarEntry[] = [];
+  const holdingYields: DividendHoldingYield[] = [];
+
+  for (const symbol of symbols) {
+    const symbolPayments = trailing.filter((p) => p.symbol.toUpperCase() === symbol);
+    const regular = symbolPayments
+      .filter((p) => p.dividend_type !== 'special')
+      .sort((a, b) => a.payment_date.localeCompare(b.payment_date));
+    const frequency = frequencyFromCount(regular.length);
+    const holding = holdingsBySymbol.get(symbol);
+    const symbolTrailing = sum(symbolPayments);
+    const costBasis = holding?.cost_basis ?? 0;
+
+    holdingYields.push({
+      symbol,
+      name: holding?.name ?? symbol,
+      trailing_dividends: roundCents(symbolTrailing),
+      cost_basis: roundCents(costBasis),
+      yield_on_cost: costBasis > 0 ? roundCents((symbolTrailing / costBasis) * 100) : 0,
+      frequency,
+    });
+
+    // Sold positions stop paying
+    if (!frequency || !holding || holding.quantity <= 0) continue;
+
+    const latest = regular[regular.length - 1];
+    const perShare = latest.amount_per_share
+      ?? (latest.shares ? Number(latest.amount) / latest.shares : null);
+    const estimated = roundCents(perShare !== null ? perShare * holding.quantity : Number(latest.amount));
+    const exOffset = Math.max(0, daysBetween(latest.ex_dividend_date, latest.payment_date));
+    const interval = FREQUENCY_MONTHS[frequency];
+
+    let step = 1;
+    let payDate = addMonths(latest.payment_date, interval);
+    while (payDate <= todayStr) {
+      payDate = addMonths(latest.payment_date, interval * ++step);
+    }
+
+    for (; payDate <= horizon; payDate = addMonths(latest.payment_date, interval * ++step)) {
+      projectedByMonth[payDate.slice(0, 7)] += estimated;
+      calendar.push({
+        symbol,
+        name: holding.name,
+        ex_date: addDays(payDate, -exOffset),
+        pay_date: payDate,
+        estimated_amount: estimated,
+        frequency,
+      });
+    }
+  }
+
+  // Next expected payment per payer
+  const upcoming = calendar
+    .sort((a, b) => a.ex_date.localeCompare(b.ex_date))
+    .filter((entry, index, all) => all.findIndex((e) => e.symbol === entry.symbol) === index);
+
+  const totalCostBasis = [...holdingsBySymbol.values()].reduce((total, h) => total + h.cost_basis, 0);
+  const projectedTotal = Object.values(projectedByMonth).reduce((total, amount) => total + amount, 0);
+
+  return {
+    total_dividends_ytd: roundCents(ytd),
+    total_dividends_last_year: roundCents(lastYearTotal),
+    trailing_12m_dividends: roundCents(trailingTotal),
+    average_monthly_dividends: roundCents(trailingTotal / 12),
+    dividend_growth_rate: priorTotal > 0 ? roundCents(((trailingTotal - priorTotal) / priorTotal) * 100) : 0,
+    yield_on_cost: totalCostBasis > 0 ? roundCents((trailingTotal / totalCostBasis) * 100) : 0,
+    projected_12m_income: roundCents(projectedTotal),
+    upcoming_dividends: upcoming,
+    dividend_by_month: Object.fromEntries(
+      Object.entries(dividendByMonth).map(([month, amount]) => [month, roundCents(amount)])
+    ),
+    projected_by_month: Object.fromEntries(
+      Object.entries(projectedByMonth).map(([month, amount]) => [month, roundCents(amount)])
+    ),
+    holdings: holdingYields.sort((a, b) => b.trailing_dividends - a.trailing_dividends),
+  };
+}
+
+/**
+ * Dividend summary for the current user's active holdings
+ */
+export async function getDividendSummary(): Promise<DividendSummary> {
+  const userId = await getUserId();
+  const today = new Date();
+
+  const [payments, holdings] = await Promise.all([
+    getDividendPayments({ since: addMonths(toDateString(today), -24) }),
+    supabase
+      .from('investment_holdings')
+      .select('symbol, name, quantity, cost_basis')
+      .eq('user_id', userId)
+      .eq('is_active', true),
+  ]);
+
+  if (holdings.error) throw holdings.error;
+
+  return summarizeDividends(
+    payments,
+    (holdings.data || []).map((h) => ({
+      ...h,
+      quantity: Number(h.quantity) || 0,
+      cost_basis: Number(h.cost_basis) || 0,
+    })),
+    today
+  );
+}
+
+export default {
+  getDividendPayments,
+  recordDividend,
+  syncDividendLedger,
+  summarizeDividends,
+  getDividendSummary,
+};
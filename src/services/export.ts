@@ -1,6 +1,6 @@
 /**
  * Export Service
- * Export transactions and data to CSV/Excel/JSON formats
+ * Export transactions and data to CSV/Excel/PDF/JSON formats
  */
 
 import * as FileSystemModule from 'expo-file-system';
@@ -8,8 +8,14 @@ import * as FileSystemModule from 'expo-file-system';
 // Cast to any to handle API differences across expo-file-system versions
 const FileSystem = FileSystemModule as any;
 import * as Sharing from 'expo-sharing';
+import * as Print from 'expo-print';
+import { strFromU8 } from 'fflate';
 import { supabase } from './supabase';
+import { buildWorkbook, buildReportWorksheets, buildStatementHTML, type ReportData } from './exportFormats';
+import { createBackup } from './backup';
+import { getGainsReport } from './taxLots';
 import type {
+  GainsReport,
   TransactionWithCategory,
   Subscription,
   BudgetWithCategory,
@@ -150,6 +156,62 @@ function budgetsToCSV(budgets: BudgetWithCategory[]): string {
   return csvContent;
 }
 
+/**
+ * Convert a gains report to CSV string.
+ * One row per lot sold during the year, then one per open lot, then totals.
+ */
+function gainsReportToCSV(report: GainsReport): string {
+  const headers = [
+    'Status',
+    'Symbol',
+    'Quantity',
+    'Date Acquired',
+    'Date Sold',
+    'Proceeds / Value',
+    'Cost Basis',
+    'Gain',
+    'Term',
+  ];
+
+  const term = (value: 'short' | 'long') => (value === 'long' ? 'Long-term' : 'Short-term');
+
+  const rows = [
+    ...report.realized.map((d) => [
+      'Realized',
+      d.symbol,
+      d.quantity,
+      d.acquired_date,
+      d.disposed_date,
+      d.proceeds.toFixed(2),
+      d.cost_basis.toFixed(2),
+      d.realized_gain.toFixed(2),
+      term(d.term),
+    ]),
+    ...report.unrealized.map((u) => [
+      'Unrealized',
+      u.symbol,
+      u.quantity,
+      u.acquired_date,
+      '',
+      u.market_value.toFixed(2),
+      u.cost_basis.toFixed(2),
+      u.unrealized_gain.toFixed(2),
+      term(u.term),
+    ]),
+    ['Total realized', '', '', '', '', report.short_term.proceeds.toFixed(2), report.short_term.cost_basis.toFixed(2), report.short_term.gain.toFixed(2), 'Short-term'],
+    ['Total realized', '', '', '', '', report.long_term.proceeds.toFixed(2), report.long_term.cost_basis.toFixed(2), report.long_term.gain.toFixed(2), 'Long-term'],
+    ['Total unrealized', '', '', '', '', '', '', report.unrealized_short_term.toFixed(2), 'Short-term'],
+    ['Total unrealized', '', '', '', '', '', '', report.unrealized_long_term.toFixed(2), 'Long-term'],
+  ];
+
+  const csvContent = [
+    headers.map(escapeCSV).join(CSV_DELIMITER),
+    ...rows.map((row) => row.map(escapeCSV).join(CSV_DELIMITER)),
+  ].join(LINE_ENDING);
+
+  return csvContent;
+}
+
 /**
  * Fetch transactions for export
  * SECURITY: Explicit user_id filter for defense-in-depth (in addition to RLS)
@@ -289,7 +351,8 @@ async function saveExportHistory(
   exportType: ExportType,
   dataType: ExportDataType,
   rowCount: number,
-  filters?: Record<string, unknown>
+  filters?: Record<string, unknown>,
+  fileSizeBytes: number | null = null
 ): Promise<void> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return;
@@ -301,7 +364,7 @@ async function saveExportHistory(
     row_count: rowCount,
     filters: filters || null,
     file_url: null,
-    file_size_bytes: null,
+    file_size_bytes: fileSizeBytes,
     expires_at: null,
   };
 
@@ -397,6 +460,36 @@ export async function exportBudgetsCSV(): Promise<void> {
   await saveExportHistory('csv', 'budgets', budgets.length);
 }
 
+/**
+ * Export the realized and unrealized gains report for a tax year to CSV and share
+ */
+export async function exportGainsReportCSV(year: number = new Date().getFullYear()): Promise<void> {
+  const report = await getGainsReport(year);
+  const rowCount = report.realized.length + report.unrealized.length;
+
+  if (rowCount === 0) {
+    throw new Error('No investment gains to export');
+  }
+
+  const csvContent = gainsReportToCSV(report);
+  const fileName = `spendtrak_gains_${year}.csv`;
+  const filePath = `${FileSystem.cacheDirectory}${fileName}`;
+
+  await FileSystem.writeAsStringAsync(filePath, csvContent, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(filePath, {
+      mimeType: 'text/csv',
+      dialogTitle: 'Export Gains Report',
+      UTI: 'public.comma-separated-values-text',
+    });
+  }
+
+  await saveExportHistory('csv', 'investments', rowCount, { year });
+}
+
 /**
  * Export transactions to JSON and share
  */
@@ -439,43 +532,19 @@ export async function exportTransactionsJSON(
 }
 
 /**
- * Export all data to JSON
+ * Export a full backup to JSON and share.
+ * Uses the versioned backup format, so the file can be restored with restoreBackup.
  */
 export async function exportAllDataJSON(): Promise<void> {
-  const [transactions, subscriptions, budgets] = await Promise.all([
-    fetchTransactionsForExport(),
-    fetchSubscriptionsForExport(),
-    fetchBudgetsForExport(),
-  ]);
-
-  const totalCount = transactions.length + subscriptions.length + budgets.length;
+  const backup = await createBackup();
+  const totalCount = Object.values(backup.data).reduce((sum, records) => sum + records.length, 0);
 
   if (totalCount === 0) {
     throw new Error('No data to export');
   }
 
-  const jsonContent = JSON.stringify(
-    {
-      exportDate: new Date().toISOString(),
-      dataType: 'all',
-      transactions: {
-        count: transactions.length,
-        data: transactions,
-      },
-      subscriptions: {
-        count: subscriptions.length,
-        data: subscriptions,
-      },
-      budgets: {
-        count: budgets.length,
-        data: budgets,
-      },
-    },
-    null,
-    2
-  );
-
-  const fileName = `spendtrak_all_data_${new Date().toISOString().split('T')[0]}.json`;
+  const jsonContent = JSON.stringify(backup, null, 2);
+  const fileName = `spendtrak_backup_${new Date().toISOString().split('T')[0]}.json`;
   const filePath = `${FileSystem.cacheDirectory}${fileName}`;
 
   await FileSystem.writeAsStringAsync(filePath, jsonContent, {
@@ -485,12 +554,81 @@ export async function exportAllDataJSON(): Promise<void> {
   if (await Sharing.isAvailableAsync()) {
     await Sharing.shareAsync(filePath, {
       mimeType: 'application/json',
-      dialogTitle: 'Export All Data',
+      dialogTitle: 'Export Backup',
       UTI: 'public.json',
     });
   }
 
-  await saveExportHistory('json', 'all', totalCount);
+  await saveExportHistory('json', 'all', totalCount, undefined, jsonContent.length);
+}
+
+/**
+ * Export a report as a multi-sheet XLSX workbook and share.
+ * Sheets: summary, transactions, budgets, subscriptions and a category-by-month pivot.
+ */
+export async function exportReportXLSX(
+  data: ReportData,
+  filters?: Record<string, unknown>
+): Promise<void> {
+  const rowCount = data.transactions.length + data.budgets.length + data.subscriptions.length;
+
+  if (rowCount === 0) {
+    throw new Error('No data to export');
+  }
+
+  const workbook = buildWorkbook(buildReportWorksheets(data));
+  const fileName = `spendtrak_report_${new Date().toISOString().split('T')[0]}.xlsx`;
+  const filePath = `${FileSystem.cacheDirectory}${fileName}`;
+
+  // writeAsStringAsync only takes strings, so hand the zip over as base64
+  await FileSystem.writeAsStringAsync(filePath, btoa(strFromU8(workbook, true)), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(filePath, {
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      dialogTitle: 'Export Report',
+      UTI: 'org.openxmlformats.spreadsheetml.sheet',
+    });
+  }
+
+  await saveExportHistory('excel', 'all', rowCount, filters, workbook.byteLength);
+}
+
+/**
+ * Render a paginated PDF statement with charts and share
+ */
+export async function exportStatementPDF(
+  data: ReportData,
+  filters?: Record<string, unknown>
+): Promise<void> {
+  const { html } = buildStatementHTML(data);
+  const { uri } = await Print.printToFileAsync({ html });
+
+  // expo-print names files with a random UUID; give the statement a readable name
+  const fileName = `spendtrak_statement_${new Date().toISOString().split('T')[0]}.pdf`;
+  const filePath = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.deleteAsync(filePath, { idempotent: true });
+  await FileSystem.moveAsync({ from: uri, to: filePath });
+
+  const info = await FileSystem.getInfoAsync(filePath);
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(filePath, {
+      mimeType: 'application/pdf',
+      dialogTitle: 'Export Statement',
+      UTI: 'com.adobe.pdf',
+    });
+  }
+
+  await saveExportHistory(
+    'pdf',
+    'all',
+    data.transactions.length,
+    filters,
+    info?.exists && typeof info.size === 'number' ? info.size : null
+  );
 }
 
 /**
@@ -516,7 +654,10 @@ export default {
   exportTransactionsCSV,
   exportSubscriptionsCSV,
   exportBudgetsCSV,
+  exportGainsReportCSV,
   exportTransactionsJSON,
   exportAllDataJSON,
+  exportReportXLSX,
+  exportStatementPDF,
   getExportHistory,
 };
@@ -0,0 +1,589 @@
+/**
+ * Export Formats
+ * Builds XLSX workbooks and printable PDF statements (as HTML for expo-print)
+ * from report data prepared by the export screen
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReportData {
+  user: {
+    name: string;
+    email: string;
+    currency: string;
+    exportDate: string;
+  };
+  period: {
+    label: string;
+    startDate: string | null;
+    endDate: string;
+  };
+  summary: {
+    totalIncome: number;
+    totalExpenses: number;
+    netSavings: number;
+    savingsRate: number;
+    transactionCount: number;
+  };
+  /** Income is positive, spending is negative. Dates are YYYY-MM-DD. */
+  transactions: Array<{
+    date: string;
+    merchant: string;
+    category: string;
+    amount: number;
+    currency: string;
+    notes?: string;
+  }>;
+  budgets: Array<{
+    category: string;
+    budget: number;
+    spent: number;
+    remaining: number;
+  }>;
+  goals: Array<{
+    name: string;
+    target: number;
+    current: number;
+    progress: number;
+  }>;
+  subscriptions: Array<{
+    name: string;
+    amount: number;
+    currency: string;
+    frequency: string;
+    status: string;
+    nextBillingDate: string | null;
+  }>;
+  categoryBreakdown: Array<{
+    category: string;
+    total: number;
+    percentage: number;
+    count: number;
+  }>;
+}
+
+export type SheetCell = string | number | boolean | null | undefined;
+
+export interface WorksheetData {
+  name: string;
+  columns: string[];
+  rows: SheetCell[][];
+  /** Column widths in characters */
+  widths?: number[];
+}
+
+export interface CategoryPivot {
+  months: string[];
+  rows: Array<{ category: string; values: number[]; total: number }>;
+  totals: number[];
+  grandTotal: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cell style indexes in styles.xml
+const STYLE_HEADER = 1;
+const STYLE_MONEY = 2;
+const STYLE_DATE = 3;
+
+function escapeXML(value: string): string {
+  return value
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const escapeHTML = escapeXML;
+
+/**
+ * Spreadsheet column name for a zero-based index (0 -> A, 26 -> AA)
+ */
+export function columnName(index: number): string {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+function sanitizeSheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[\[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  let suffix = 2;
+  while (used.has(candidate.toLowerCase())) {
+    candidate = `${base.slice(0, 28)} ${suffix++}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+function formatMoney(amount: number, currency: string): string {
+  const sign = amount < 0 ? '-' : '';
+  const [integer, decimals] = Math.abs(amount).toFixed(2).split('.');
+  return `${sign}${currency} ${integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${decimals}`;
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+function cellXML(value: SheetCell, ref: string, header: boolean): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  if (header) {
+    return `<c r="${ref}" t="inlineStr" s="${STYLE_HEADER}"><is><t>${escapeXML(String(value))}</t></is></c>`;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return '';
+    const style = Number.isInteger(value) ? '' : ` s="${STYLE_MONEY}"`;
+    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (ISO_DATE.test(value)) {
+    // Store dates as serial numbers so they sort and filter as dates
+    const serial = Math.round((Date.parse(`${value}T00:00:00Z`) - EXCEL_EPOCH) / DAY_MS);
+    return `<c r="${ref}" s="${STYLE_DATE}"><v>${serial}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`;
+}
+
+function worksheetXML(sheet: WorksheetData): string {
+  const allRows = [sheet.columns, ...sheet.rows];
+  const rowsXML = allRows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((value, colIndex) => cellXML(value, `${columnName(colIndex)}${rowIndex + 1}`, rowIndex === 0))
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const widths = sheet.columns.map((column, index) => sheet.widths?.[index] ?? Math.max(10, column.length + 2));
+  const colsXML = widths
+    .map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+    .join('');
+
+  const lastRef = `${columnName(Math.max(sheet.columns.length - 1, 0))}${allRows.length}`;
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews>' +
+    `<cols>${colsXML}</cols>` +
+    `<sheetData>${rowsXML}</sheetData>` +
+    (sheet.rows.length > 0 ? `<autoFilter ref="A1:${lastRef}"/>` : '') +
+    '</worksheet>'
+  );
+}
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>' +
+  '<fill><patternFill patternType="solid"><fgColor rgb="FFE6F9EF"/><bgColor indexed="64"/></patternFill></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '</styleSheet>';
+
+/**
+ * Build an XLSX (Office Open XML) workbook with one worksheet per entry
+ */
+export function buildWorkbook(sheets: WorksheetData[]): Uint8Array {
+  if (sheets.length === 0) {
+    throw new Error('A workbook needs at least one sheet');
+  }
+
+  const used = new Set<string>();
+  const names = sheets.map((sheet) => sanitizeSheetName(sheet.name, used));
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets
+        .map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+        .join('') +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+      names.map((name, i) => `<sheet name="${escapeXML(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+      '</sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets
+        .map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+        .join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+    ),
+    'xl/styles.xml': strToU8(STYLES_XML),
+  };
+
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(worksheetXML(sheet));
+  });
+
+  return zipSync(files, { level: 6 });
+}
+
+/**
+ * Spending per category per month (YYYY-MM), largest categories first
+ */
+export function buildCategoryPivot(transactions: ReportData['transactions']): CategoryPivot {
+  const spending = transactions.filter((tx) => tx.amount < 0);
+  const months = Array.from(new Set(spending.map((tx) => tx.date.slice(0, 7)))).sort();
+  const monthIndex = new Map(months.map((month, i) => [month, i]));
+
+  const byCategory = new Map<string, number[]>();
+  for (const tx of spending) {
+    const values = byCategory.get(tx.category) || new Array(months.length).fill(0);
+    values[monthIndex.get(tx.date.slice(0, 7))!] += Math.abs(tx.amount);
+    byCategory.set(tx.category, values);
+  }
+
+  const rows = Array.from(byCategory.entries())
+    .map(([category, values]) => ({
+      category,
+      values: values.map(round2),
+      total: round2(values.reduce((sum, value) => sum + value, 0)),
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  const totals = months.map((_, i) => round2(rows.reduce((sum, row) => sum + row.values[i], 0)));
+
+  return {
+    months,
+    rows,
+    totals,
+    grandTotal: round2(totals.reduce((sum, value) => sum + value, 0)),
+  };
+}
+
+/**
+ * Worksheets for the accountant workbook: summary, transactions, budgets,
+ * subscriptions and a category-by-month pivot
+ */
+export function buildReportWorksheets(data: ReportData): WorksheetData[] {
+  const { user, period, summary } = data;
+  const pivot = buildCategoryPivot(data.transactions);
+
+  return [
+    {
+      name: 'Summary',
+      columns: ['Item', 'Value'],
+      widths: [24, 32],
+      rows: [
+        ['Account', user.name],
+        ['Email', user.email],
+        ['Period', period.label],
+        ['From', period.startDate],
+        ['To', period.endDate],
+        ['Currency', user.currency],
+        ['Total Income', round2(summary.totalIncome)],
+        ['Total Expenses', round2(summary.totalExpenses)],
+        ['Net Savings', round2(summary.netSavings)],
+        ['Savings Rate %', round2(summary.savingsRate)],
+        ['Transactions', summary.transactionCount],
+        ['Exported', user.exportDate],
+      ],
+    },
+    {
+      name: 'Transactions',
+      columns: ['Date', 'Merchant', 'Category', 'Amount', 'Currency', 'Notes'],
+      widths: [12, 28, 20, 14, 10, 40],
+      rows: data.transactions.map((tx) => [tx.date, tx.merchant, tx.category, tx.amount, tx.currency, tx.notes || '']),
+    },
+    {
+      name: 'Budgets',
+      columns: ['Category', 'Budget', 'Spent', 'Remaining', '% Used'],
+      widths: [24, 14, 14, 14, 10],
+      rows: data.budgets.map((budget) => [
+        budget.category,
+        budget.budget,
+        round2(budget.spent),
+        round2(budget.remaining),
+        budget.budget > 0 ? Math.round((budget.spent / budget.budget) * 100) : 0,
+      ]),
+    },
+    {
+      name: 'Subscriptions',
+      columns: ['Name', 'Amount', 'Currency', 'Frequency', 'Status', 'Next Billing'],
+      widths: [28, 14, 10, 14, 12, 14],
+      rows: data.subscriptions.map((sub) => [
+        sub.name,
+        sub.amount,
+        sub.currency,
+        sub.frequency,
+        sub.status,
+        sub.nextBillingDate,
+      ]),
+    },
+    {
+      name: 'Category Pivot',
+      columns: ['Category', ...pivot.months, 'Total'],
+      widths: [24, ...pivot.months.map(() => 12), 14],
+      rows: [
+        ...pivot.rows.map((row) => [row.category, ...row.values, row.total]),
+        ['Total', ...pivot.totals, pivot.grandTotal],
+      ],
+    },
+  ];
+}
+
+// ============================================
+// PDF STATEMENT
+// ============================================
+
+const TRANSACTIONS_PER_PAGE = 28;
+const LIST_ROWS_PER_PAGE = 24;
+const CHART_COLORS = ['#00995c', '#00cc6a', '#33d98a', '#66e5a8', '#008545', '#99f0c6', '#006b3a', '#ccf7e2'];
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    pages.push(items.slice(i, i + size));
+  }
+  return pages;
+}
+
+function categoryChartSVG(breakdown: ReportData['categoryBreakdown'], currency: string): string {
+  const top = breakdown.slice(0, 8);
+  if (top.length === 0) return '<p class="muted">No spending in this period.</p>';
+
+  const max = Math.max(...top.map((item) => item.total), 1);
+  const rowHeight = 28;
+  const bars = top
+    .map((item, i) => {
+      const width = Math.max(2, Math.round((item.total / max) * 300));
+      const y = i * rowHeight;
+      return (
+        `<text x="0" y="${y + 18}" class="label">${escapeHTML(item.category.slice(0, 22))}</text>` +
+        `<rect x="170" y="${y + 6}" width="${width}" height="16" rx="3" fill="${CHART_COLORS[i % CHART_COLORS.length]}"/>` +
+        `<text x="${178 + width}" y="${y + 18}" class="value">${escapeHTML(formatMoney(item.total, currency))}</text>`
+      );
+    })
+    .join('');
+
+  return `<svg viewBox="0 0 600 ${top.length * rowHeight}" width="100%" xmlns="http://www.w3.org/2000/svg">${bars}</svg>`;
+}
+
+function monthlyChartSVG(transactions: ReportData['transactions']): string {
+  const byMonth = new Map<string, { income: number; expenses: number }>();
+  for (const tx of transactions) {
+    const month = tx.date.slice(0, 7);
+    const entry = byMonth.get(month) || { income: 0, expenses: 0 };
+    if (tx.amount >= 0) entry.income += tx.amount;
+    else entry.expenses += Math.abs(tx.amount);
+    byMonth.set(month, entry);
+  }
+
+  const months = Array.from(byMonth.keys()).sort().slice(-12);
+  if (months.length === 0) return '<p class="muted">No transactions in this period.</p>';
+
+  const max = Math.max(...months.map((m) => Math.max(byMonth.get(m)!.income, byMonth.get(m)!.expenses)), 1);
+  const chartHeight = 160;
+  const slot = 600 / months.length;
+  const barWidth = Math.min(20, slot / 3);
+
+  const bars = months
+    .map((month, i) => {
+      const { income, expenses } = byMonth.get(month)!;
+      const x = i * slot + slot / 2;
+      const incomeHeight = Math.round((income / max) * chartHeight);
+      const expenseHeight = Math.round((expenses / max) * chartHeight);
+      return (
+        `<rect x="${x - barWidth - 1}" y="${chartHeight - incomeHeight}" width="${barWidth}" height="${incomeHeight}" fill="#00cc6a"/>` +
+        `<rect x="${x + 1}" y="${chartHeight - expenseHeight}" width="${barWidth}" height="${expenseHeight}" fill="#e0456b"/>` +
+        `<text x="${x}" y="${chartHeight + 16}" text-anchor="middle" class="label">${month}</text>`
+      );
+    })
+    .join('');
+
+  return (
+    `<svg viewBox="0 0 600 ${chartHeight + 24}" width="100%" xmlns="http://www.w3.org/2000/svg">` +
+    `<line x1="0" y1="${chartHeight}" x2="600" y2="${chartHeight}" stroke="#cfd8d3"/>${bars}</svg>` +
+    '<p class="legend"><span class="swatch income"></span>Income <span class="swatch expense"></span>Expenses</p>'
+  );
+}
+
+function tableHTML(columns: string[], rows: string[][], numericColumns: number[] = []): string {
+  const head = columns
+    .map((column, i) => `<th${numericColumns.includes(i) ? ' class="num"' : ''}>${escapeHTML(column)}</th>`)
+    .join('');
+  const body = rows
+    .map((row) => `<tr>${row.map((cell, i) => `<td${numericColumns.includes(i) ? ' class="num"' : ''}>${escapeHTML(cell)}</td>`).join('')}</tr>`)
+    .join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+/**
+ * Build a paginated A4 statement for expo-print. Pages are split up front so
+ * every page gets a footer with its number.
+ */
+export function buildStatementHTML(data: ReportData): { html: string; pageCount: number } {
+  const { user, period, summary } = data;
+  const currency = user.currency;
+  const pages: string[] = [];
+
+  pages.push(`
+    <header>
+      <div class="brand">SPENDTRAK</div>
+      <h1>Account Statement</h1>
+      <p class="muted">${escapeHTML(user.name)}${user.email ? ` · ${escapeHTML(user.email)}` : ''}</p>
+      <p class="muted">${escapeHTML(period.label)}: ${escapeHTML(period.startDate || 'All time')} – ${escapeHTML(period.endDate)}</p>
+    </header>
+    <section class="summary">
+      <div class="card"><span>Income</span><strong class="income">${formatMoney(summary.totalIncome, currency)}</strong></div>
+      <div class="card"><span>Expenses</span><strong class="expense">${formatMoney(summary.totalExpenses, currency)}</strong></div>
+      <div class="card"><span>Net Savings</span><strong>${formatMoney(summary.netSavings, currency)}</strong></div>
+      <div class="card"><span>Savings Rate</span><strong>${summary.savingsRate.toFixed(1)}%</strong></div>
+    </section>
+    <h2>Spending by Category</h2>
+    ${categoryChartSVG(data.categoryBreakdown, currency)}
+    <h2>Monthly Income &amp; Expenses</h2>
+    ${monthlyChartSVG(data.transactions)}
+  `);
+
+  const budgetRows = data.budgets.map((b) => [
+    b.category,
+    formatMoney(b.budget, currency),
+    formatMoney(b.spent, currency),
+    formatMoney(b.remaining, currency),
+  ]);
+  const subscriptionRows = data.subscriptions.map((s) => [
+    s.name,
+    formatMoney(s.amount, s.currency),
+    s.frequency,
+    s.status,
+    s.nextBillingDate || '—',
+  ]);
+  const categoryRows = data.categoryBreakdown.map((c) => [
+    c.category,
+    String(c.count),
+    formatMoney(c.total, currency),
+    `${c.percentage.toFixed(1)}%`,
+  ]);
+
+  chunk(categoryRows, LIST_ROWS_PER_PAGE).forEach((rows, i) => {
+    pages.push(`<h2>Category Breakdown${i > 0 ? ' (cont.)' : ''}</h2>${tableHTML(['Category', 'Count', 'Total', 'Share'], rows, [1, 2, 3])}`);
+  });
+  chunk(budgetRows, LIST_ROWS_PER_PAGE).forEach((rows, i) => {
+    pages.push(`<h2>Budgets${i > 0 ? ' (cont.)' : ''}</h2>${tableHTML(['Category', 'Budget', 'Spent', 'Remaining'], rows, [1, 2, 3])}`);
+  });
+  chunk(subscriptionRows, LIST_ROWS_PER_PAGE).forEach((rows, i) => {
+    pages.push(`<h2>Subscriptions${i > 0 ? ' (cont.)' : ''}</h2>${tableHTML(['Name', 'Amount', 'Frequency', 'Status', 'Next Billing'], rows, [1])}`);
+  });
+
+  const transactionRows = data.transactions.map((tx) => [
+    tx.date,
+    tx.merchant,
+    tx.category,
+    formatMoney(tx.amount, tx.currency),
+  ]);
+  chunk(transactionRows, TRANSACTIONS_PER_PAGE).forEach((rows, i) => {
+    pages.push(`<h2>Transactions${i > 0 ? ' (cont.)' : ''}</h2>${tableHTML(['Date', 'Merchant', 'Category', 'Amount'], rows, [3])}`);
+  });
+
+  const pageCount = pages.length;
+  const body = pages
+    .map((content, i) => `
+      <div class="page">
+        <div class="content">${content}</div>
+        <footer>SpendTrak · ${escapeHTML(period.label)} · Generated ${escapeHTML(user.exportDate)} · Page ${i + 1} of ${pageCount}</footer>
+      </div>`)
+    .join('');
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>SpendTrak Statement</title>
+  <style>
+    @page { size: A4; margin: 0; }
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, 'Helvetica Neue', Arial, sans-serif; color: #1a2420; font-size: 11px; }
+    .page { width: 210mm; height: 297mm; padding: 16mm 14mm 20mm; position: relative; page-break-after: always; overflow: hidden; }
+    .page:last-child { page-break-after: auto; }
+    footer { position: absolute; bottom: 10mm; left: 14mm; right: 14mm; font-size: 9px; color: #7a8a83; border-top: 1px solid #dfe7e3; padding-top: 4px; text-align: center; }
+    header { text-align: center; margin-bottom: 16px; padding-bottom: 12px; border-bottom: 2px solid #00cc6a; }
+    .brand { font-family: 'Cinzel', Georgia, serif; font-size: 26px; letter-spacing: 4px; color: #008545; font-weight: 700; }
+    h1 { font-size: 16px; margin: 6px 0; }
+    h2 { font-size: 13px; color: #008545; margin: 16px 0 8px; text-transform: uppercase; letter-spacing: 1px; }
+    .muted { color: #6b7c74; margin-top: 2px; }
+    .summary { display: flex; gap: 8px; }
+    .card { flex: 1; border: 1px solid #cfe9dc; border-radius: 8px; padding: 10px; text-align: center; }
+    .card span { display: block; color: #6b7c74; font-size: 10px; text-transform: uppercase; margin-bottom: 4px; }
+    .card strong { font-size: 14px; }
+    .income { color: #00995c; }
+    .expense { color: #c73359; }
+    table { width: 100%; border-collapse: collapse; }
+    th { background: #e6f9ef; text-align: left; padding: 6px; font-size: 10px; text-transform: uppercase; }
+    td { padding: 5px 6px; border-bottom: 1px solid #eef2f0; }
+    .num { text-align: right; white-space: nowrap; }
+    svg .label { font-size: 11px; fill: #1a2420; }
+    svg .value { font-size: 10px; fill: #6b7c74; }
+    .legend { font-size: 10px; color: #6b7c74; margin-top: 4px; }
+    .swatch { display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 10px; vertical-align: middle; }
+    .swatch.income { background: #00cc6a; }
+    .swatch.expense { background: #e0456b; }
+  </style>
+</head>
+<body>${body}
+</body>
+</html>`;
+
+  return { html, pageCount };
+}
+
+export default {
+  buildWorkbook,
+  buildReportWorksheets,
+  buildCategoryPivot,
+  buildStatementHTML,
+  columnName,
+};
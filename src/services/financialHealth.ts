@@ -1,15 +1,16 @@
 /**
  * SPENDTRAK CINEMATIC EDITION - Financial Health Service
  * Calculates overall financial health score and component metrics
+ * Reads account data through a health data source (Supabase or dev storage)
+ * and keeps one score snapshot per month for the trend
  */
 
-import {
-  getDevAssets,
-  getDevLiabilities,
-  getDevBudgets,
-  getDevDebts,
-} from './devStorage';
-import { getCashFlowTrend, getBudgetPerformance } from './analytics';
+import { getHealthDataSource } from './healthDataSource';
+import type { HealthDataSource, HealthAccount } from './healthDataSource';
+import { convertAtTransactionRate } from './rateHistory';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { logger } from '@/utils/logger';
+import type { FinancialHealthSnapshot } from '@/types';
 
 // ============================================
 // TYPES
@@ -17,6 +18,24 @@ import { getCashFlowTrend, getBudgetPerformance } from './analytics';
 
 export type HealthGrade = 'Excellent' | 'Good' | 'Fair' | 'Needs Work' | 'Critical';
 
+export type HealthFactor = 'savingsRate' | 'debtRatio' | 'budgetAdherence' | 'emergencyFund';
+
+/** A transaction or account that moved a factor, amounts in the user's currency */
+export interface HealthDriver {
+  kind: 'transaction' | 'account';
+  id: string;
+  label: string;
+  amount: number;
+  /** Transaction date (YYYY-MM-DD), null for accounts */
+  date: string | null;
+  categoryName: string | null;
+}
+
+export interface HealthFactorExplanation {
+  summary: string;
+  drivers: HealthDriver[];
+}
+
 export interface HealthScore {
   overall: number; // 0-100
   grade: HealthGrade;
@@ -36,15 +55,43 @@ export interface HealthScore {
   hasEnoughData: boolean;
   /** Message explaining what data is missing */
   dataStatus: string;
+  /** What drove each factor */
+  explanations: Record<HealthFactor, HealthFactorExplanation>;
+  /** Month the score belongs to (YYYY-MM-01) */
+  month: string;
+  /** Change in the overall score since the previous monthly snapshot */
+  change: number | null;
+}
+
+/** Transaction with its amount converted to the user's currency */
+export interface HealthDataTransaction {
+  id: string;
+  label: string;
+  amount: number;
+  kind: 'income' | 'expense';
+  isDebtPayment: boolean;
+  date: string;
+  categoryId: string | null;
+  categoryName: string | null;
+}
+
+/** Everything the score is computed from, in the user's currency */
+export interface HealthData {
+  transactions: HealthDataTransaction[];
+  accounts: HealthAccount[];
+  budgets: { id: string; category_id: string; category_name: string | null; amount: number }[];
 }
 
 export interface HealthFactorDetails {
+  key: HealthFactor;
   name: string;
   score: number;
   actual: string;
   target: string;
   status: 'good' | 'warning' | 'poor';
   tip: string;
+  explanation: string;
+  drivers: HealthDriver[];
 }
 
 // ============================================
@@ -58,6 +105,50 @@ const WEIGHTS = {
   emergencyFund: 0.20,    // 20%
 };
 
+/** Months of cash flow behind the savings rate and emergency fund */
+const CASH_FLOW_MONTHS = 3;
+/** Drivers listed per factor */
+const MAX_DRIVERS = 5;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** First day of the month `offset` months from `today` (YYYY-MM-01) */
+function monthStart(today: string, offset: number = 0): string {
+  const [year, month] = today.split('-').map(Number);
+  return toDateString(new Date(year, month - 1 + offset, 1));
+}
+
+const transactionDriver = (t: HealthDataTransaction): HealthDriver => ({
+  kind: 'transaction',
+  id: t.id,
+  label: t.label,
+  amount: t.amount,
+  date: t.date,
+  categoryName: t.categoryName,
+});
+
+const accountDriver = (account: HealthAccount): HealthDriver => ({
+  kind: 'account',
+  id: account.id,
+  label: account.name,
+  amount: account.value,
+  date: null,
+  categoryName: null,
+});
+
+const largest = <T extends { amount: number }>(items: T[], count: number = MAX_DRIVERS): T[] =>
+  [...items].sort((a, b) => b.amount - a.amount).slice(0, count);
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
 // ============================================
 // GRADE THRESHOLDS
 // ============================================
@@ -79,18 +170,30 @@ function getGrade(score: number): HealthGrade {
  * Target: 20%+ savings rate = 100 points
  * Formula: (income - expenses) / income * 100
  */
-async function calculateSavingsRateScore(): Promise<{ score: number; actual: number }> {
-  const cashFlow = await getCashFlowTrend(3);
-
-  // Use average of last 3 months for stability
-  const totalIncome = cashFlow.reduce((sum, m) => sum + m.income, 0);
-  const totalExpenses = cashFlow.reduce((sum, m) => sum + m.expenses, 0);
+function calculateSavingsRateScore(
+  data: HealthData
+): { score: number; actual: number; explanation: HealthFactorExplanation } {
+  // Use the last 3 months for stability
+  const expenses = data.transactions.filter(t => t.kind === 'expense');
+  const totalIncome = sum(data.transactions.filter(t => t.kind === 'income').map(t => t.amount));
+  const totalExpenses = sum(expenses.map(t => t.amount));
+  const drivers = largest(expenses).map(transactionDriver);
 
   if (totalIncome === 0) {
-    return { score: 0, actual: 0 };
+    return {
+      score: 0,
+      actual: 0,
+      explanation: { summary: `No income recorded in the last ${CASH_FLOW_MONTHS} months`, drivers },
+    };
   }
 
   const savingsRate = ((totalIncome - totalExpenses) / totalIncome) * 100;
+  const explanation = {
+    summary: savingsRate >= 0
+      ? `You kept ${savingsRate.toFixed(1)}% of your income over the last ${CASH_FLOW_MONTHS} months`
+      : `You spent ${Math.abs(savingsRate).toFixed(1)}% more than you earned over the last ${CASH_FLOW_MONTHS} months`,
+    drivers,
+  };
 
   // Score mapping:
   // 20%+ savings rate = 100 points
@@ -116,7 +219,7 @@ async function calculateSavingsRateScore(): Promise<{ score: number; actual: num
     score = Math.max(0, 30 + savingsRate); // -30% = 0
   }
 
-  return { score: Math.min(100, Math.max(0, score)), actual: savingsRate };
+  return { score: Math.min(100, Math.max(0, score)), actual: savingsRate, explanation };
 }
 
 // ============================================
@@ -128,28 +231,37 @@ async function calculateSavingsRateScore(): Promise<{ score: number; actual: num
  * Based on debt-to-asset ratio
  * Lower debt = higher score
  */
-async function calculateDebtRatioScore(): Promise<{ score: number; actual: number }> {
-  const [assets, liabilities, debts] = await Promise.all([
-    getDevAssets(),
-    getDevLiabilities(),
-    getDevDebts(),
-  ]);
-
-  const totalAssets = assets.reduce((sum, a) => sum + a.value, 0);
-  const totalLiabilities = liabilities.reduce((sum, l) => sum + l.value, 0);
-  const totalDebts = debts.reduce((sum, d) => sum + d.balance, 0);
-
-  const totalDebt = totalLiabilities + totalDebts;
+function calculateDebtRatioScore(
+  data: HealthData
+): { score: number; actual: number; explanation: HealthFactorExplanation } {
+  const debts = data.accounts.filter(a => a.kind === 'debt' && a.value > 0);
+  const totalAssets = sum(data.accounts.filter(a => a.kind === 'asset').map(a => a.value));
+  const totalDebt = sum(debts.map(d => d.value));
+
+  // Largest balances, then the payments that brought them down
+  const drivers = [
+    ...largest(debts.map(accountDriver), 3),
+    ...largest(data.transactions.filter(t => t.isDebtPayment), MAX_DRIVERS - Math.min(debts.length, 3))
+      .map(transactionDriver),
+  ];
 
   // If no assets, check if there's debt
   if (totalAssets === 0) {
     if (totalDebt === 0) {
-      return { score: 100, actual: 0 }; // No assets, no debt = neutral
+      // No assets, no debt = neutral
+      return { score: 100, actual: 0, explanation: { summary: 'No debts recorded', drivers } };
     }
-    return { score: 20, actual: 100 }; // Debt but no assets = poor
+    // Debt but no assets = poor
+    return { score: 20, actual: 100, explanation: { summary: 'You have debts but no assets recorded', drivers } };
   }
 
   const debtRatio = (totalDebt / totalAssets) * 100;
+  const explanation = {
+    summary: totalDebt === 0
+      ? 'No debts recorded'
+      : `Your debts add up to ${debtRatio.toFixed(1)}% of your assets`,
+    drivers,
+  };
 
   // Score mapping:
   // 0% debt ratio = 100 points
@@ -176,7 +288,7 @@ async function calculateDebtRatioScore(): Promise<{ score: number; actual: numbe
     score = Math.max(0, 10 - (debtRatio - 100) / 10);
   }
 
-  return { score: Math.min(100, Math.max(0, score)), actual: debtRatio };
+  return { score: Math.min(100, Math.max(0, score)), actual: debtRatio, explanation };
 }
 
 // ============================================
@@ -185,17 +297,39 @@ async function calculateDebtRatioScore(): Promise<{ score: number; actual: numbe
 
 /**
  * Calculate budget adherence score
- * Based on average of all budget adherence percentages
+ * Based on average of all budget adherence percentages this month
  * Staying within budget = high score
  */
-async function calculateBudgetAdherenceScore(): Promise<{ score: number; actual: number }> {
-  const performance = await getBudgetPerformance();
+function calculateBudgetAdherenceScore(
+  data: HealthData,
+  today: string
+): { score: number; actual: number; explanation: HealthFactorExplanation } {
+  const thisMonth = data.transactions.filter(t => t.kind === 'expense' && t.date >= monthStart(today));
+  const performance = data.budgets.map(budget => {
+    const spent = sum(thisMonth.filter(t => t.categoryId === budget.category_id).map(t => t.amount));
+    return {
+      categoryId: budget.category_id,
+      categoryName: budget.category_name,
+      percentage: budget.amount > 0 ? (spent / budget.amount) * 100 : 0,
+    };
+  });
 
   if (performance.length === 0) {
     // No budgets set up - give a neutral score
-    return { score: 70, actual: 100 };
+    return { score: 70, actual: 100, explanation: { summary: 'No budgets set up yet', drivers: [] } };
   }
 
+  // Spending in the budgets that went over (or the fullest one when none did)
+  const over = performance.filter(p => p.percentage > 100);
+  const focus = over.length > 0 ? over : [performance.reduce((a, b) => (b.percentage > a.percentage ? b : a))];
+  const focusIds = new Set(focus.map(p => p.categoryId));
+  const explanation = {
+    summary: over.length > 0
+      ? `${over.length} of ${performance.length} budgets are over the limit this month: ${over.map(p => p.categoryName || 'Uncategorized').join(', ')}`
+      : `All ${performance.length} budgets are within their limits this month`,
+    drivers: largest(thisMonth.filter(t => t.categoryId && focusIds.has(t.categoryId))).map(transactionDriver),
+  };
+
   // Calculate average adherence
   // For budgets under limit: score based on how close to limit (using is good)
   // For budgets over limit: penalize proportionally
@@ -230,7 +364,7 @@ async function calculateBudgetAdherenceScore(): Promise<{ score: number; actual:
   const avgScore = scores.reduce((sum, s) => sum + s, 0) / scores.length;
   const avgAdherence = performance.reduce((sum, p) => sum + p.percentage, 0) / performance.length;
 
-  return { score: Math.min(100, Math.max(0, avgScore)), actual: avgAdherence };
+  return { score: Math.min(100, Math.max(0, avgScore)), actual: avgAdherence, explanation };
 }
 
 // ============================================
@@ -241,26 +375,31 @@ async function calculateBudgetAdherenceScore(): Promise<{ score: number; actual:
  * Calculate emergency fund score
  * Target: 6 months of expenses in liquid assets
  */
-async function calculateEmergencyFundScore(): Promise<{ score: number; actual: number }> {
-  const [assets, cashFlow] = await Promise.all([
-    getDevAssets(),
-    getCashFlowTrend(3),
-  ]);
+function calculateEmergencyFundScore(
+  data: HealthData
+): { score: number; actual: number; explanation: HealthFactorExplanation } {
+  const expenses = data.transactions.filter(t => t.kind === 'expense');
+  // Liquid assets = cash, checking, savings (not property, vehicles, investments)
+  const liquid = data.accounts.filter(a => a.kind === 'asset' && a.is_liquid);
+  const drivers = [
+    ...largest(liquid.map(accountDriver), 2),
+    ...largest(expenses, MAX_DRIVERS - Math.min(liquid.length, 2)).map(transactionDriver),
+  ];
 
   // Calculate average monthly expenses
-  const avgMonthlyExpenses = cashFlow.reduce((sum, m) => sum + m.expenses, 0) / cashFlow.length;
+  const avgMonthlyExpenses = sum(expenses.map(t => t.amount)) / CASH_FLOW_MONTHS;
 
   if (avgMonthlyExpenses === 0) {
-    return { score: 100, actual: 12 }; // No expenses = infinite runway
+    // No expenses = infinite runway
+    return { score: 100, actual: 12, explanation: { summary: 'No expenses recorded recently', drivers } };
   }
 
-  // Liquid assets = Savings, Checking (not property, vehicles, investments)
-  const liquidCategories = ['savings', 'checking', 'Savings', 'Checking'];
-  const liquidAssets = assets
-    .filter(a => liquidCategories.includes(a.category))
-    .reduce((sum, a) => sum + a.value, 0);
-
+  const liquidAssets = sum(liquid.map(a => a.value));
   const monthsCovered = liquidAssets / avgMonthlyExpenses;
+  const explanation = {
+    summary: `Your cash and savings cover ${monthsCovered.toFixed(1)} months of your average spending`,
+    drivers,
+  };
 
   // Score mapping:
   // 6+ months = 100 points
@@ -288,28 +427,86 @@ async function calculateEmergencyFundScore(): Promise<{ score: number; actual: n
     score = monthsCovered * 25;
   }
 
-  return { score: Math.min(100, Math.max(0, score)), actual: monthsCovered };
+  return { score: Math.min(100, Math.max(0, score)), actual: monthsCovered, explanation };
 }
 
 // ============================================
-// MAIN HEALTH SCORE CALCULATION
+// DATA LOADING
 // ============================================
 
 /**
- * Calculate comprehensive financial health score
+ * Load the last 3 months of transactions plus accounts and budgets from a
+ * data source, converted to the user's currency
  */
-export async function calculateHealthScore(): Promise<HealthScore> {
-  // First, check what data we have
-  const [cashFlow, assets, budgets] = await Promise.all([
-    getCashFlowTrend(3),
-    getDevAssets(),
-    getDevBudgets(),
+export async function loadHealthData(
+  source: HealthDataSource = getHealthDataSource(),
+  today: string = toDateString(new Date())
+): Promise<HealthData> {
+  const userCurrency = useSettingsStore.getState().currency || 'AED';
+  const [transactions, accounts, budgets] = await Promise.all([
+    source.getTransactions(monthStart(today, -(CASH_FLOW_MONTHS - 1))),
+    source.getAccounts(),
+    source.getBudgets(),
   ]);
 
-  // Determine data availability
-  const hasTransactions = cashFlow.some(m => m.income > 0 || m.expenses > 0);
-  const hasAssets = assets.length > 0;
-  const hasBudgets = budgets.length > 0;
+  const convert = async (
+    amount: number,
+    item: { currency: string | null; transaction_date: string; metadata?: Record<string, unknown> }
+  ): Promise<number> => {
+    if (!item.currency || item.currency === userCurrency) return amount;
+    try {
+      return await convertAtTransactionRate(amount, { ...item, currency: item.currency, metadata: item.metadata ?? {} }, userCurrency);
+    } catch {
+      // Use the original amount if conversion fails
+      return amount;
+    }
+  };
+
+  const converted: HealthDataTransaction[] = [];
+  for (const t of transactions) {
+    if (t.transaction_type === 'transfer' || Number(t.amount) === 0) continue;
+
+    // Income is marked explicitly in dev mode, otherwise it's money coming in that isn't a refund
+    const isIncome = t.type === 'income'
+      || (t.type !== 'expense' && Number(t.amount) > 0 && t.transaction_type !== 'refund');
+    if (!isIncome && t.type !== 'expense' && Number(t.amount) > 0) continue;
+
+    converted.push({
+      id: t.id,
+      label: t.merchant_name || t.category_name || 'Transaction',
+      amount: await convert(Math.abs(Number(t.amount)), t),
+      kind: isIncome ? 'income' : 'expense',
+      isDebtPayment: t.transaction_type === 'payment',
+      date: t.transaction_date,
+      categoryId: t.category_id,
+      categoryName: t.category_name,
+    });
+  }
+
+  const convertedAccounts: HealthAccount[] = [];
+  for (const account of accounts) {
+    convertedAccounts.push({
+      ...account,
+      value: await convert(account.value, { currency: account.currency, transaction_date: today }),
+      currency: userCurrency,
+    });
+  }
+
+  return { transactions: converted, accounts: convertedAccounts, budgets };
+}
+
+// ============================================
+// MAIN HEALTH SCORE CALCULATION
+// ============================================
+
+/**
+ * Compute the health score from loaded data (no storage access)
+ */
+export function computeHealthScore(data: HealthData, today: string = toDateString(new Date())): HealthScore {
+  // First, check what data we have
+  const hasTransactions = data.transactions.length > 0;
+  const hasAssets = data.accounts.some(a => a.kind === 'asset');
+  const hasBudgets = data.budgets.length > 0;
 
   // Build status message
   const missingData: string[] = [];
@@ -328,12 +525,10 @@ export async function calculateHealthScore(): Promise<HealthScore> {
     dataStatus = 'Score based on your complete financial data';
   }
 
-  const [savingsResult, debtResult, budgetResult, emergencyResult] = await Promise.all([
-    calculateSavingsRateScore(),
-    calculateDebtRatioScore(),
-    calculateBudgetAdherenceScore(),
-    calculateEmergencyFundScore(),
-  ]);
+  const savingsResult = calculateSavingsRateScore(data);
+  const debtResult = calculateDebtRatioScore(data);
+  const budgetResult = calculateBudgetAdherenceScore(data, today);
+  const emergencyResult = calculateEmergencyFundScore(data);
 
   // Calculate weighted overall score
   const overall = Math.round(
@@ -360,9 +555,55 @@ export async function calculateHealthScore(): Promise<HealthScore> {
     },
     hasEnoughData,
     dataStatus,
+    explanations: {
+      savingsRate: savingsResult.explanation,
+      debtRatio: debtResult.explanation,
+      budgetAdherence: budgetResult.explanation,
+      emergencyFund: emergencyResult.explanation,
+    },
+    month: monthStart(today),
+    change: null,
   };
 }
 
+/**
+ * Calculate comprehensive financial health score
+ * Also stores it as this month's snapshot and compares it with last month's
+ */
+export async function calculateHealthScore(): Promise<HealthScore> {
+  const source = getHealthDataSource();
+  const today = toDateString(new Date());
+  const healthScore = computeHealthScore(await loadHealthData(source, today), today);
+
+  // Snapshots are best effort: the score is still shown without them
+  try {
+    const previous = (await source.getSnapshots(2)).find(snapshot => snapshot.month < healthScore.month);
+    healthScore.change = previous ? healthScore.overall - previous.overall : null;
+
+    if (healthScore.hasEnoughData) {
+      await source.saveSnapshot({
+        month: healthScore.month,
+        overall: healthScore.overall,
+        grade: healthScore.grade,
+        factors: { ...healthScore.factors },
+        details: { ...healthScore.details },
+      });
+    }
+  } catch (error) {
+    logger.general.warn('Failed to update health score snapshot:', error);
+  }
+
+  return healthScore;
+}
+
+/**
+ * Monthly health score snapshots, oldest first
+ */
+export async function getHealthScoreHistory(months: number = 12): Promise<FinancialHealthSnapshot[]> {
+  const snapshots = await getHealthDataSource().getSnapshots(months);
+  return [...snapshots].sort((a, b) => a.month.localeCompare(b.month));
+}
+
 /**
  * Get detailed breakdown of each health factor
  */
@@ -375,8 +616,14 @@ export async function getHealthFactorDetails(): Promise<HealthFactorDetails[]> {
     return 'poor';
   };
 
+  const explain = (factor: HealthFactor) => ({
+    explanation: healthScore.explanations[factor].summary,
+    drivers: healthScore.explanations[factor].drivers,
+  });
+
   return [
     {
+      key: 'savingsRate',
       name: 'Savings Rate',
       score: healthScore.factors.savingsRate,
       actual: `${healthScore.details.savingsRateActual.toFixed(1)}%`,
@@ -385,8 +632,10 @@ export async function getHealthFactorDetails(): Promise<HealthFactorDetails[]> {
       tip: healthScore.factors.savingsRate < 70
         ? 'Try to save at least 20% of your income each month'
         : 'Great job! Keep maintaining your savings rate',
+      ...explain('savingsRate'),
     },
     {
+      key: 'debtRatio',
       name: 'Debt Ratio',
       score: healthScore.factors.debtRatio,
       actual: `${healthScore.details.debtToAssetRatio.toFixed(1)}%`,
@@ -395,8 +644,10 @@ export async function getHealthFactorDetails(): Promise<HealthFactorDetails[]> {
       tip: healthScore.factors.debtRatio < 70
         ? 'Focus on paying down high-interest debt first'
         : 'Your debt levels are well managed',
+      ...explain('debtRatio'),
     },
     {
+      key: 'budgetAdherence',
       name: 'Budget Adherence',
       score: healthScore.factors.budgetAdherence,
       actual: `${healthScore.details.budgetAdherenceAvg.toFixed(0)}%`,
@@ -405,8 +656,10 @@ export async function getHealthFactorDetails(): Promise<HealthFactorDetails[]> {
       tip: healthScore.factors.budgetAdherence < 70
         ? 'Review your spending categories and adjust budgets'
         : 'You\'re staying within your budgets well',
+      ...explain('budgetAdherence'),
     },
     {
+      key: 'emergencyFund',
       name: 'Emergency Fund',
       score: healthScore.factors.emergencyFund,
       actual: `${healthScore.details.emergencyFundMonths.toFixed(1)} mo`,
@@ -415,6 +668,7 @@ export async function getHealthFactorDetails(): Promise<HealthFactorDetails[]> {
       tip: healthScore.factors.emergencyFund < 70
         ? 'Build up 6 months of expenses in accessible savings'
         : 'Your emergency fund is in good shape',
+      ...explain('emergencyFund'),
     },
   ];
 }
@@ -423,20 +677,21 @@ export async function getHealthFactorDetails(): Promise<HealthFactorDetails[]> {
  * Get savings rate percentage
  */
 export async function getSavingsRate(): Promise<number> {
-  const result = await calculateSavingsRateScore();
-  return result.actual;
+  return calculateSavingsRateScore(await loadHealthData()).actual;
 }
 
 /**
  * Get emergency fund ratio (months covered)
  */
 export async function getEmergencyFundRatio(): Promise<number> {
-  const result = await calculateEmergencyFundScore();
-  return result.actual;
+  return calculateEmergencyFundScore(await loadHealthData()).actual;
 }
 
 export default {
   calculateHealthScore,
+  computeHealthScore,
+  loadHealthData,
+  getHealthScoreHistory,
   getHealthFactorDetails,
   getSavingsRate,
   getEmergencyFundRatio,
@@ -0,0 +1,314 @@
+/**
+ * Financial Health Data Sources
+ * The health score reads transactions, accounts and budgets through a data
+ * source so it works the same for signed-in users (Supabase) and dev mode
+ * (local AsyncStorage). Monthly score snapshots are stored alongside.
+ */
+
+import { supabase } from './supabase';
+import * as devStorage from './devStorage';
+import { isDevMode } from '@/utils/devMode';
+import type {
+  Budget,
+  Category,
+  FinancialHealthSnapshot,
+  FinancialHealthSnapshotInsert,
+  Transaction,
+} from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type HealthTransaction = Pick<
+  Transaction,
+  'id' | 'merchant_name' | 'amount' | 'currency' | 'transaction_date' | 'transaction_type' | 'category_id' | 'metadata'
+> & {
+  /** Dev transactions carry an explicit income/expense type */
+  type?: string;
+  category_name: string | null;
+};
+
+export interface HealthAccount {
+  id: string;
+  name: string;
+  kind: 'asset' | 'debt';
+  value: number;
+  /** Null when the value is already in the user's currency (dev mode) */
+  currency: string | null;
+  /** Cash that can cover an emergency (cash, checking, savings) */
+  is_liquid: boolean;
+}
+
+export interface HealthBudget {
+  id: string;
+  category_id: string;
+  category_name: string | null;
+  amount: number;
+}
+
+export type HealthSnapshotInput = Omit<FinancialHealthSnapshotInsert, 'user_id'>;
+
+export interface HealthDataSource {
+  id: 'device' | 'cloud';
+  /** Non-deleted transactions on or after `since` (YYYY-MM-DD) */
+  getTransactions(since: string): Promise<HealthTransaction[]>;
+  /** Active assets and debts; a liability linked to a debt is only listed once */
+  getAccounts(): Promise<HealthAccount[]>;
+  /** Active monthly budgets */
+  getBudgets(): Promise<HealthBudget[]>;
+  /** Stored snapshots, newest month first */
+  getSnapshots(limit: number): Promise<FinancialHealthSnapshot[]>;
+  /** Create or replace the snapshot for a month */
+  saveSnapshot(snapshot: HealthSnapshotInput): Promise<FinancialHealthSnapshot>;
+}
+
+const LIQUID_ASSET_TYPES = ['cash', 'checking', 'savings'];
+
+// ============================================
+// DEVICE (DEV MODE)
+// ============================================
+
+export const deviceHealthDataSource: HealthDataSource = {
+  id: 'device',
+
+  async getTransactions(since) {
+    const transactions = await devStorage.getDevTransactions();
+    return transactions
+      .filter((t) => !t.is_deleted && t.transaction_date >= since)
+      .map((t) => ({ ...t, category_name: t.category?.name ?? null }));
+  },
+
+  async getAccounts() {
+    const [assets, liabilities, debts] = await Promise.all([
+      devStorage.getDevAssets(),
+      devStorage.getDevLiabilities(),
+      devStorage.getDevDebts(),
+    ]);
+
+    return [
+      ...assets.map((a) => ({
+        id: a.id,
+        name: a.name,
+        kind: 'asset' as const,
+        value: a.value,
+        currency: null,
+        is_liquid: LIQUID_ASSET_TYPES.includes((a.category || '').toLowerCase()),
+      })),
+      ...liabilities.map((l) => ({
+        id: l.id,
+        name: l.name,
+        kind: 'debt' as const,
+        value: l.value,
+        currency: null,
+        is_liquid: false,
+      })),
+      ...debts
+        .filter((d) => d.status !== 'paid_off')
+        .map((d) => ({
+          id: d.id,
+          name: d.name,
+          kind: 'debt' as const,
+          value: d.balance,
+          currency: null,
+          is_liquid: false,
+        })),
+    ];
+  },
+
+  async getBudgets() {
+    const budgets = await devStorage.getDevBudgets();
+    return budgets
+      .filter((b) => b.is_active)
+      .map((b) => ({
+        id: b.id,
+        category_id: b.category_id,
+        category_name: b.category?.name ?? null,
+        amount: b.amount,
+      }));
+  },
+
+  async getSnapshots(limit) {
+    const snapshots = await devStorage.getDevCollection<FinancialHealthSnapshot>('HEALTH_SNAPSHOTS');
+    return snapshots.sort((a, b) => b.month.localeCompare(a.month)).slice(0, limit);
+  },
+
+  async saveSnapshot(snapshot) {
+    const snapshots = await devStorage.getDevCollection<FinancialHealthSnapshot>('HEALTH_SNAPSHOTS');
+    const existing = snapshots.find((s) => s.month === snapshot.month);
+    const now = new Date().toISOString();
+    const saved: FinancialHealthSnapshot = {
+      ...snapshot,
+      id: existing?.id ?? `dev-health-${snapshot.month}`,
+      user_id: existing?.user_id ?? 'dev_user',
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    };
+
+    await devStorage.setDevCollection('HEALTH_SNAPSHOTS', [
+      ...snapshots.filter((s) => s.month !== snapshot.month),
+      saved,
+    ]);
+    return saved;
+  },
+};
+
+// ============================================
+// CLOUD (SUPABASE)
+// ============================================
+
+/** Embedded category join; PostgREST types it as a list even though it returns one row */
+type CategoryJoin = Pick<Category, 'name'> | Pick<Category, 'name'>[] | null;
+
+const joinedCategoryName = (category: CategoryJoin): string | null =>
+  (Array.isArray(category) ? category[0]?.name : category?.name) ?? null;
+
+type TransactionRow = Omit<HealthTransaction, 'type' | 'category_name'> & { category: CategoryJoin };
+
+type BudgetRow = Pick<Budget, 'id' | 'category_id' | 'amount' | 'period'> & { category: CategoryJoin };
+
+async function getUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  return user.id;
+}
+
+export const cloudHealthDataSource: HealthDataSource = {
+  id: 'cloud',
+
+  async getTransactions(since) {
+    const userId = await getUserId();
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, merchant_name, amount, currency, transaction_date, transaction_type, category_id, metadata, category:categories(name)')
+      .eq('user_id', userId)
+      .eq('is_deleted', false)
+      .gte('transaction_date', since);
+
+    if (error) throw error;
+    const rows = (data || []) as unknown as TransactionRow[];
+    return rows.map(({ category, ...t }) => ({ ...t, category_name: joinedCategoryName(category) }));
+  },
+
+  async getAccounts() {
+    const userId = await getUserId();
+    const [assets, liabilities, debts] = await Promise.all([
+      supabase.from('assets').select('id, name, asset_type, current_value, currency, is_liquid')
+        .eq('user_id', userId).eq('is_active', true),
+      supabase.from('liabilities').select('id, name, current_balance, currency, linked_debt_id')
+        .eq('user_id', userId).eq('is_active', true),
+      supabase.from('debts').select('id, name, current_balance, currency')
+        .eq('user_id', userId).eq('is_active', true),
+    ]);
+
+    const error = assets.error || liabilities.error || debts.error;
+    if (error) throw error;
+
+    return [
+      ...(assets.data || []).map((a) => ({
+        id: a.id,
+        name: a.name,
+        kind: 'asset' as const,
+        value: Number(a.current_value),
+        currency: a.currency,
+        is_liquid: a.is_liquid || LIQUID_ASSET_TYPES.includes(a.asset_type),
+      })),
+      // Liabilities linked to a tracked debt are counted through the debt
+      ...(liabilities.data || [])
+        .filter((l) => !l.linked_debt_id)
+        .map((l) => ({
+          id: l.id,
+          name: l.name,
+          kind: 'debt' as const,
+          value: Number(l.current_balance),
+          currency: l.currency,
+          is_liquid: false,
+        })),
+      ...(debts.data || []).map((d) => ({
+        id: d.id,
+        name: d.name,
+        kind: 'debt' as const,
+        value: Number(d.current_balance),
+        currency: d.currency,
+        is_liquid: false,
+      })),
+    ];
+  },
+
+  async getBudgets() {
+    const userId = await getUserId();
+    const { data, error } = await supabase
+      .from('budgets')
+      .select('id, category_id, amount, period, category:categories(name)')
+      .eq('user_id', userId)
+      .eq('is_active', true);
+
+    if (error) throw error;
+    const rows = (data || []) as unknown as BudgetRow[];
+    // Adherence is measured per category, so budgets without one are left out
+    return rows
+      .filter((b): b is BudgetRow & { category_id: string } =>
+        b.category_id !== null && (!b.period || b.period === 'monthly')
+      )
+      .map((b) => ({
+        id: b.id,
+        category_id: b.category_id,
+        category_name: joinedCategoryName(b.category),
+        amount: Number(b.amount),
+      }));
+  },
+
+  async getSnapshots(limit) {
+    const userId = await getUserId();
+    const { data, error } = await supabase
+      .from('financial_health_snapshots')
+      .select('*')
+      .eq('user_id', userId)
+      .order('month', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async saveSnapshot(snapshot) {
+    const userId = await getUserId();
+    const { data, error } = await supabase
+      .from('financial_health_snapshots')
+      .upsert({ ...snapshot, user_id: userId }, { onConflict: 'user_id,month' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+};
+
+// ============================================
+// SELECTION
+// ============================================
+
+let overrideSource: HealthDataSource | null = null;
+
+/**
+ * Use a specific data source (tests, previews). Pass null to go back to the
+ * automatic choice.
+ */
+export function setHealthDataSource(source: HealthDataSource | null): void {
+  overrideSource = source;
+}
+
+/**
+ * Data source for the current account: local storage in dev mode, Supabase otherwise
+ */
+export function getHealthDataSource(): HealthDataSource {
+  if (overrideSource) return overrideSource;
+  return isDevMode() ? deviceHealthDataSource : cloudHealthDataSource;
+}
+
+export default {
+  deviceHealthDataSource,
+  cloudHealthDataSource,
+  setHealthDataSource,
+  getHealthDataSource,
+};
@@ -4,6 +4,7 @@
  */
 
 import { supabase } from './supabase';
+import { ruleFromFrequency, getOccurrences } from './recurrence';
 import type {
   Income,
   IncomeWithCategory,
@@ -13,6 +14,7 @@ import type {
   CashFlowSummary,
   IncomeBySource,
   IncomeSource,
+  DividendPayment,
 } from '@/types';
 
 // ============================================
@@ -163,6 +165,39 @@ export async function getTotalRecurringMonthlyIncome(): Promise<number> {
   }, 0);
 }
 
+/**
+ * Get the dates a recurring income entry pays out between two dates (inclusive).
+ * The income_date is the first payment; non-recurring entries only pay on that date.
+ */
+export function getIncomeOccurrences(
+  income: Pick<Income, 'income_date' | 'is_recurring' | 'frequency'>,
+  startDate: string,
+  endDate: string
+): string[] {
+  const frequency = income.is_recurring && income.frequency ? income.frequency : 'one_time';
+  return getOccurrences(ruleFromFrequency(frequency, income.income_date), startDate, endDate);
+}
+
+/**
+ * Project recurring income payments into a date range
+ */
+export async function getProjectedRecurringIncome(
+  startDate: string,
+  endDate: string
+): Promise<Array<{ income: Income; date: string; amount: number }>> {
+  const recurring = await getRecurringIncome();
+
+  return recurring
+    .flatMap((income) =>
+      getIncomeOccurrences(income, startDate, endDate).map((date) => ({
+        income,
+        date,
+        amount: Number(income.amount),
+      }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
 // ============================================
 // CASH FLOW ANALYSIS
 // ============================================
@@ -400,6 +435,30 @@ export async function getYearToDateIncome(): Promise<number> {
   return (data || []).reduce((sum, i) => sum + Number(i.amount), 0);
 }
 
+// ============================================
+// INVESTMENT INCOME
+// ============================================
+
+/**
+ * Record a dividend as 'investment' income so it counts in cash flow
+ */
+export async function recordDividendIncome(
+  dividend: Pick<DividendPayment, 'symbol' | 'amount' | 'currency' | 'payment_date' | 'reinvested'>
+): Promise<Income> {
+  return createIncome({
+    amount: dividend.amount,
+    currency: dividend.currency,
+    source: 'investment',
+    description: `${dividend.symbol} dividend`,
+    payer_name: dividend.symbol,
+    income_date: dividend.payment_date,
+    is_recurring: false,
+    frequency: null,
+    category_id: null,
+    notes: dividend.reinvested ? 'Reinvested' : null,
+  });
+}
+
 // ============================================
 // INCOME PREDICTIONS
 // ============================================
@@ -413,11 +472,17 @@ export async function predictNextMonthIncome(): Promise<{
   variable_portion: number;
   confidence: 'high' | 'medium' | 'low';
 }> {
-  // Get recurring monthly income
-  const recurringMonthly = await getTotalRecurringMonthlyIncome();
+  // Recurring payments actually scheduled next month (e.g. 3 biweekly paydays)
+  const today = new Date();
+  const nextMonthStart = new Date(Date.UTC(today.getFullYear(), today.getMonth() + 1, 1));
+  const nextMonthEnd = new Date(Date.UTC(today.getFullYear(), today.getMonth() + 2, 0));
+  const projected = await getProjectedRecurringIncome(
+    nextMonthStart.toISOString().split('T')[0],
+    nextMonthEnd.toISOString().split('T')[0]
+  );
+  const recurringMonthly = projected.reduce((sum, p) => sum + p.amount, 0);
 
   // Get last 3 months of non-recurring income for average
-  const today = new Date();
   const threeMonthsAgo = new Date(today.getFullYear(), today.getMonth() - 3, 1)
     .toISOString().split('T')[0];
 
@@ -463,10 +528,13 @@ export default {
   deleteIncome,
   getRecurringIncome,
   getTotalRecurringMonthlyIncome,
+  getIncomeOccurrences,
+  getProjectedRecurringIncome,
   getCashFlowForPeriod,
   getCashFlowSummary,
   getIncomeBySource,
   getMonthlyIncomeTotals,
   getYearToDateIncome,
+  recordDividendIncome,
   predictNextMonthIncome,
 };
@@ -64,11 +64,26 @@ export {
   cancelSubscription,
   getSubscriptionSummary,
   getUpcomingRenewals,
+  calculateNextBillingDate,
+  refreshBillingDates,
   getUnusedSubscriptions,
   markAsUsed as markSubscriptionAsUsed,
   generateCancellationEmail,
+  getPriceHistory as getSubscriptionPriceHistory,
+  trackSubscriptionCharge,
+  trackSubscriptionCharges,
+  checkMissedRenewals,
 } from './subscriptions';
 
+// Subscription Detection Service
+export * as subscriptionDetectionService from './subscriptionDetection';
+export {
+  detectRecurringCharges,
+  findRecurringCharges,
+  acceptRecurringCharge,
+  dismissRecurringCharge,
+} from './subscriptionDetection';
+
 // Alert Service
 export * as alertService from './alerts';
 export {
@@ -78,10 +93,7 @@ export {
   dismissAlert,
   getUnreadCount,
   getCriticalAlerts,
-  checkUnusualSpending,
-  checkDuplicateCharges,
-  checkBudgetStatus,
-  checkUpcomingRenewals,
+  sendAlertNotification,
 } from './alerts';
 
 // AI Service
@@ -104,18 +116,61 @@ export {
   unsplitTransaction,
   getTransactionWithSplits,
   getSpendingByCategoryWithSplits,
+  splitTransactionByItems,
 } from './transactionSplits';
 
+// Receipt Line Items
+export * as receiptItemsService from './receiptItems';
+export {
+  saveReceiptItems,
+  getReceiptItems,
+  getItemSpending,
+  getItemPriceTrend,
+} from './receiptItems';
+
+// Categorization Rules
+export * as categorizationRulesService from './categorizationRules';
+export {
+  getRules as getCategorizationRules,
+  createRule as createCategorizationRule,
+  updateRule as updateCategorizationRule,
+  deleteRule as deleteCategorizationRule,
+  reorderRules as reorderCategorizationRules,
+  previewRuleOnPast,
+  applyRuleToPast,
+} from './categorizationRules';
+
+// Category Classifier
+export * as categoryClassifierService from './categoryClassifier';
+export { suggestCategories, invalidateCategoryClassifier } from './categoryClassifier';
+
+// Merchants
+export * as merchantsService from './merchants';
+export {
+  resolveMerchant,
+  getMerchantSummaries,
+  mergeMerchants,
+} from './merchants';
+
 // Phase 1 Features - Export
 export * as exportService from './export';
 export {
   exportTransactionsCSV,
   exportSubscriptionsCSV,
   exportBudgetsCSV,
+  exportGainsReportCSV,
   exportTransactionsJSON,
   exportAllDataJSON,
+  exportReportXLSX,
+  exportStatementPDF,
   getExportHistory,
 } from './export';
+export * as exportFormatsService from './exportFormats';
+export { buildWorkbook, buildStatementHTML } from './exportFormats';
+
+// Backup & Restore
+export * as backupService from './backup';
+export { createBackup, previewBackup, restoreBackup, BackupValidationError } from './backup';
 
 // Phase 1 Features - Daily Spending Limit
 export * as dailyLimitService from './dailyLimit';
@@ -199,12 +254,50 @@ export {
   // Prices
   updatePrices,
   updateHoldingPrice,
+  // Rebalancing
+  getTargetAllocation,
+  saveTargetAllocation,
+  deleteTargetAllocation,
+  calculateRebalancePlan,
+  getRebalancePlan,
   // Utilities
   formatCurrency,
   formatPercentage,
   getGainColor,
 } from './investments';
 
+// Dividends
+export * as dividendService from './dividends';
+export {
+  getDividendPayments,
+  recordDividend,
+  syncDividendLedger,
+  summarizeDividends,
+  getDividendSummary,
+} from './dividends';
+
+// Tax Lots
+export * as taxLotService from './taxLots';
+export {
+  getTaxLots,
+  selectLots,
+  applySplit,
+  getLotDisposals,
+  buildGainsReport,
+  getGainsReport,
+} from './taxLots';
+
+// Watchlist
+export * as watchlistService from './watchlist';
+export {
+  getWatchlistItems,
+  refreshWatchlist,
+  addToWatchlist,
+  updateWatchlistItem,
+  removeFromWatchlist,
+  evaluateWatchlistTriggers,
+} from './watchlist';
+
 // Currency Converter
 export * as currencyConverterService from './currencyConverter';
 export {
@@ -216,6 +309,34 @@ export {
   getCacheInfo,
 } from './currencyConverter';
 
+// Exchange Rate Provider
+export * as rateProviderService from './rateProvider';
+export {
+  getRates,
+  getHistoricalRates,
+  setRateProviders,
+  createFixtureProvider,
+  fixtureRateProvider,
+} from './rateProvider';
+
+// Market Quote Provider
+export * as quoteProviderService from './quoteProvider';
+export {
+  getStockQuotes,
+  getCryptoQuotes,
+  setQuoteProviders,
+  createFixtureQuoteProvider,
+  fixtureQuoteProvider,
+} from './quoteProvider';
+
+// Exchange Rate History
+export * as rateHistoryService from './rateHistory';
+export {
+  getRatesForDate,
+  convertAtTransactionRate,
+  backfillTransactionRates,
+} from './rateHistory';
+
 // Phase 4 Features - Gamification
 export * as gamificationService from './gamification';
 export {
@@ -282,8 +403,13 @@ export {
   getHealthFactorDetails,
   getSavingsRate,
   getEmergencyFundRatio,
+  getHealthScoreHistory,
 } from './financialHealth';
 
+// Financial Health Data Sources
+export * as healthDataSourceService from './healthDataSource';
+export { getHealthDataSource, setHealthDataSource } from './healthDataSource';
+
 // Phase 6 - Behavioral Intelligence Layer
 export * as behaviorService from './behavior';
 export {
@@ -369,3 +495,32 @@ export {
 export * as frictionDetectorService from './frictionDetector';
 export * as upgradeDecisionEngineService from './upgradeDecisionEngine';
 export * as upgradeAnalyticsService from './upgradeAnalytics';
+
+// Statement Import (CSV, OFX/QFX, QIF)
+export * as statementImportService from './statementImport';
+export {
+  detectStatementFormat,
+  parseStatement,
+  suggestCsvMapping,
+  buildStatementPreview,
+  commitStatementImport,
+} from './statementImport';
+
+// Reconciliation (duplicate detection across sources)
+export * as reconciliationService from './reconciliation';
+export {
+  findDuplicateCandidates,
+  scanForDuplicates,
+  getReconciliationQueue,
+  resolveProposal,
+} from './reconciliation';
+
+// Recurrence Engine (bills, subscriptions, recurring income)
+export * as recurrenceService from './recurrence';
+export {
+  ruleFromFrequency,
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  getOccurrences,
+  getNextOccurrence,
+} from './recurrence';
@@ -8,6 +8,10 @@ import { getCurrentLocale } from '../utils/locale';
 import { useAuthStore, waitForAuthHydration } from '@/stores/authStore';
 import { isDevMode } from '@/utils/devMode';
 import { logger } from '@/utils/logger';
+import { getStockQuotes, getCryptoQuotes } from './quoteProvider';
+import { getRates, convertWithRates } from './rateProvider';
+import { recordDividend } from './dividends';
+import { prepareSale, recordSale, openLot, applySplit } from './taxLots';
 import type {
   InvestmentHolding,
   InvestmentHoldingWithPerformance,
@@ -24,7 +28,15 @@ import type {
   InvestmentType,
   StockQuote,
   CryptoQuote,
+  InvestmentPriceInsert,
+  PriceRefreshResult,
+  TargetAllocation,
+  SaveTargetAllocationInput,
+  RebalanceOptions,
+  RebalancePlan,
+  RebalanceRecommendation,
 } from '@/types';
+import { INVESTMENT_TYPE_LABELS } from '@/types';
 
 // ============================================
 // AUTH HELPER
@@ -463,12 +475,24 @@ export async function getTransactions(options: {
 }
 
 /**
- * Record an investment transaction
+ * Record an investment transaction.
+ * Buys, transfers in and reinvested dividends open tax lots; sells close
+ * lots by the chosen method and splits adjust them.
  */
 export async function recordTransaction(input: RecordTransactionInput): Promise<InvestmentTransaction> {
   const userId = await getCurrentUserId();
 
-  const amount = input.quantity * input.price;
+  const isSplit = input.transaction_type === 'split';
+  if (isSplit && !(input.split_ratio && input.split_ratio > 0)) {
+    throw new Error('Split ratio must be greater than zero');
+  }
+
+  // Pick the lots before anything is written, so an invalid selection records nothing
+  const sale = input.transaction_type === 'sell' ? await prepareSale(input) : null;
+
+  // Splits carry their ratio as the quantity
+  const quantity = isSplit ? input.split_ratio! : input.quantity;
+  const amount = quantity * input.price;
 
   const { data, error } = await supabase
     .from('investment_transactions')
@@ -477,7 +501,7 @@ export async function recordTransaction(input: RecordTransactionInput): Promise<
       holding_id: input.holding_id,
       symbol: input.symbol.toUpperCase(),
       transaction_type: input.transaction_type,
-      quantity: input.quantity,
+      quantity: quantity,
       price: input.price,
       amount: amount,
       fees: input.fees || 0,
@@ -491,20 +515,80 @@ export async function recordTransaction(input: RecordTransactionInput): Promise<
 
   if (error) throw error;
 
+  let soldCostBasis: number | undefined;
+  if (sale) {
+    try {
+      const disposals = await recordSale(data, sale);
+      soldCostBasis = disposals.reduce((sum, d) => sum + Number(d.cost_basis), 0);
+    } catch (lotError) {
+      // The holding falls back to average cost
+      logger.investment.warn('Failed to record lot disposals:', lotError);
+    }
+  }
+
   // Update holding if transaction affects it
   if (input.holding_id) {
-    await updateHoldingFromTransaction(input.holding_id, input);
+    await updateHoldingFromTransaction(input.holding_id, input, soldCostBasis);
+  }
+
+  await updateLotsFromTransaction(data, input);
+
+  if (input.transaction_type === 'dividend') {
+    try {
+      await recordDividend(data, {
+        ex_dividend_date: input.ex_dividend_date,
+        dividend_type: input.dividend_type,
+        reinvested_shares: input.reinvested_shares,
+      });
+    } catch (dividendError) {
+      // syncDividendLedger picks it up later
+      logger.investment.warn('Failed to record dividend:', dividendError);
+    }
   }
 
   return data;
 }
 
 /**
- * Update holding quantities based on transaction
+ * Open or adjust tax lots for a recorded transaction.
+ * Lots are bookkeeping on top of the holding, so failures are only logged.
+ */
+async function updateLotsFromTransaction(
+  transaction: InvestmentTransaction,
+  input: RecordTransactionInput
+): Promise<void> {
+  try {
+    switch (input.transaction_type) {
+      case 'buy':
+      case 'transfer_in':
+        await openLot(transaction, input.transaction_type);
+        break;
+      case 'dividend':
+        if (input.reinvested_shares && input.reinvested_shares > 0) {
+          await openLot(transaction, 'dividend_reinvestment', {
+            quantity: input.reinvested_shares,
+            cost: transaction.amount,
+          });
+        }
+        break;
+      case 'split':
+        await applySplit(input, input.split_ratio!);
+        break;
+    }
+  } catch (lotError) {
+    logger.investment.warn('Failed to update tax lots:', lotError);
+  }
+}
+
+/**
+ * Update holding quantities based on transaction.
+ * Sells remove the cost basis of the lots sold, or the average cost when
+ * the holding has no lots.
  */
 async function updateHoldingFromTransaction(
   holdingId: string,
-  transaction: RecordTransactionInput
+  transaction: RecordTransactionInput,
+  soldCostBasis?: number
 ): Promise<void> {
   let userId: string;
   try {
@@ -525,13 +609,20 @@ async function updateHoldingFromTransaction(
   let newQuantity = holding.quantity;
   let newCostBasis = holding.cost_basis;
 
-  if (transaction.transaction_type === 'buy') {
+  if (transaction.transaction_type === 'buy' || transaction.transaction_type === 'transfer_in') {
     newQuantity += transaction.quantity;
     newCostBasis += transaction.quantity * transaction.price;
   } else if (transaction.transaction_type === 'sell') {
     const avgCost = holding.cost_basis / holding.quantity;
     newQuantity -= transaction.quantity;
-    newCostBasis -= transaction.quantity * avgCost;
+    newCostBasis -= soldCostBasis ?? transaction.quantity * avgCost;
+  } else if (transaction.transaction_type === 'split') {
+    newQuantity *= transaction.split_ratio!;
+  } else if (transaction.transaction_type === 'dividend' && transaction.reinvested_shares) {
+    newQuantity += transaction.reinvested_shares;
+    newCostBasis += transaction.quantity * transaction.price;
+  } else {
+    return;
   }
 
   await supabase
@@ -664,9 +755,10 @@ export async function createSnapshot(notes?: string): Promise<InvestmentSnapshot
     };
   }
 
+  // One snapshot per day; later refreshes replace it
   const { data, error } = await supabase
     .from('investment_snapshots')
-    .insert({
+    .upsert({
       user_id: userId,
       snapshot_date: new Date().toISOString().split('T')[0],
       total_value: summary.total_value,
@@ -682,7 +774,7 @@ export async function createSnapshot(notes?: string): Promise<InvestmentSnapshot
         percentage: h.allocation_percentage,
       })),
       notes,
-    })
+    }, { onConflict: 'user_id,snapshot_date' })
     .select()
     .single();
 
@@ -787,28 +879,397 @@ export async function getPerformance(
 }
 
 // ============================================
-// PRICE UPDATES
+// TARGET ALLOCATIONS
 // ============================================
 
+const DEFAULT_DRIFT_THRESHOLD = 5;
+
 /**
- * Update holding prices (would typically call external API)
+ * Get the active target allocation, if the user has set one
  */
-export async function updatePrices(): Promise<void> {
+export async function getTargetAllocation(): Promise<TargetAllocation | null> {
   const userId = await getCurrentUserId();
 
-  // In a real implementation, this would:
-  // 1. Get all unique symbols from holdings
-  // 2. Call external price API (Yahoo Finance, Alpha Vantage, etc.)
-  // 3. Update all holdings with new prices
+  const { data, error } = await supabase
+    .from('target_allocations')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .maybeSingle();
 
-  // For now, just update the last_price_update timestamp
-  await supabase
-    .from('investment_holdings')
-    .update({
-      last_price_update: new Date().toISOString(),
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Create or replace the active target allocation.
+ * Percentages must add up to 100.
+ */
+export async function saveTargetAllocation(input: SaveTargetAllocationInput): Promise<TargetAllocation> {
+  const userId = await getCurrentUserId();
+
+  const allocations: Record<string, number> = {};
+  for (const [key, percentage] of Object.entries(input.allocations)) {
+    if (!(percentage >= 0)) throw new Error(`Invalid target percentage for ${key}`);
+    if (percentage === 0) continue;
+    allocations[input.target_type === 'holding' ? key.trim().toUpperCase() : key] = percentage;
+  }
+
+  const total = Object.values(allocations).reduce((sum, p) => sum + p, 0);
+  if (Math.abs(total - 100) > 0.01) {
+    throw new Error('Target allocations must add up to 100%');
+  }
+
+  const driftThreshold = input.drift_threshold ?? DEFAULT_DRIFT_THRESHOLD;
+  if (driftThreshold < 0 || driftThreshold > 100) {
+    throw new Error('Drift threshold must be between 0 and 100');
+  }
+
+  const values = {
+    name: input.name?.trim() || 'My Target',
+    target_type: input.target_type,
+    allocations,
+    drift_threshold: driftThreshold,
+  };
+
+  const existing = await getTargetAllocation();
+  const query = existing
+    ? supabase.from('target_allocations').update(values).eq('id', existing.id).eq('user_id', userId)
+    : supabase.from('target_allocations').insert({ ...values, user_id: userId, is_active: true });
+
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Remove a target allocation
+ */
+export async function deleteTargetAllocation(id: string): Promise<void> {
+  const userId = await getCurrentUserId();
+
+  const { error } = await supabase
+    .from('target_allocations')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+// ============================================
+// REBALANCING
+// ============================================
+
+/** Trades smaller than this are not worth placing */
+const MIN_TRADE_AMOUNT = 1;
+
+export type RebalanceHolding = Pick<
+  InvestmentHolding,
+  'symbol' | 'name' | 'investment_type' | 'quantity' | 'current_value'
+>;
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Work out the trades that bring a portfolio back to its target allocation.
+ *
+ * In 'full' mode every key moves to its target once any key drifts past the
+ * threshold (or new money is added). In 'contributions_only' mode nothing is
+ * sold: the contribution goes to underweight keys in proportion to how far
+ * they are below target.
+ */
+export function calculateRebalancePlan(
+  holdings: RebalanceHolding[],
+  target: TargetAllocation,
+  options: RebalanceOptions = {}
+): RebalancePlan {
+  const mode = options.mode ?? 'full';
+  const contribution = Math.max(0, options.contribution ?? 0);
+  const byHolding = target.target_type === 'holding';
+
+  const groups = new Map<string, { name: string; value: number; quantity: number }>();
+  for (const holding of holdings) {
+    const key = byHolding ? holding.symbol.toUpperCase() : holding.investment_type;
+    const group = groups.get(key) ?? {
+      name: byHolding ? holding.name : INVESTMENT_TYPE_LABELS[holding.investment_type] ?? key,
+      value: 0,
+      quantity: 0,
+    };
+    group.value += holding.current_value || 0;
+    group.quantity += holding.quantity || 0;
+    groups.set(key, group);
+  }
+
+  // Normalize so slightly-off targets still add up to 100
+  const targetSum = Object.values(target.allocations).reduce((sum, p) => sum + Math.max(0, p), 0);
+  const targets: Record<string, number> = {};
+  for (const [key, percentage] of Object.entries(target.allocations)) {
+    if (percentage > 0 && targetSum > 0) targets[key] = (percentage / targetSum) * 100;
+  }
+
+  const keys = [...new Set([...Object.keys(targets), ...groups.keys()])];
+  const totalValue = [...groups.values()].reduce((sum, g) => sum + g.value, 0);
+  const newTotal = totalValue + contribution;
+
+  const currentAllocations: Record<string, number> = {};
+  const drift: Record<string, number> = {};
+  for (const key of keys) {
+    currentAllocations[key] = totalValue > 0 ? ((groups.get(key)?.value ?? 0) / totalValue) * 100 : 0;
+    drift[key] = totalValue > 0 ? currentAllocations[key] - (targets[key] ?? 0) : 0;
+  }
+
+  const maxDrift = keys.reduce((max, key) => Math.max(max, Math.abs(drift[key])), 0);
+  const needsRebalance = totalValue > 0 && maxDrift >= target.drift_threshold;
+
+  const amounts: Record<string, number> = {};
+  if (mode === 'contributions_only') {
+    const deficits: Record<string, number> = {};
+    for (const key of keys) {
+      deficits[key] = Math.max(0, (newTotal * (targets[key] ?? 0)) / 100 - (groups.get(key)?.value ?? 0));
+    }
+    const deficitSum = Object.values(deficits).reduce((sum, d) => sum + d, 0);
+
+    for (const key of keys) {
+      if (contribution === 0) {
+        amounts[key] = 0;
+      } else if (deficitSum <= contribution) {
+        // Every gap can be closed; spread what's left by target weight
+        amounts[key] = deficits[key] + ((contribution - deficitSum) * (targets[key] ?? 0)) / 100;
+      } else {
+        amounts[key] = (contribution * deficits[key]) / deficitSum;
+      }
+    }
+  } else {
+    for (const key of keys) {
+      amounts[key] = needsRebalance || contribution > 0
+        ? (newTotal * (targets[key] ?? 0)) / 100 - (groups.get(key)?.value ?? 0)
+        : 0;
+    }
+  }
+
+  const recommendations: RebalanceRecommendation[] = keys
+    .map((key) => {
+      const group = groups.get(key);
+      const amount = roundTo(amounts[key], 2);
+      const action: RebalanceRecommendation['action'] =
+        amount >= MIN_TRADE_AMOUNT ? 'buy' : amount <= -MIN_TRADE_AMOUNT ? 'sell' : 'hold';
+      const price = group && group.quantity > 0 ? group.value / group.quantity : 0;
+      const tradeAmount = action === 'hold' ? 0 : Math.abs(amount);
+
+      return {
+        symbol: key,
+        name: group?.name ?? (byHolding ? key : INVESTMENT_TYPE_LABELS[key as InvestmentType] ?? key),
+        current_value: roundTo(group?.value ?? 0, 2),
+        current_allocation: roundTo(currentAllocations[key], 2),
+        target_allocation: roundTo(targets[key] ?? 0, 2),
+        difference: roundTo(drift[key], 2),
+        exceeds_threshold: totalValue > 0 && Math.abs(drift[key]) >= target.drift_threshold,
+        action,
+        amount: tradeAmount,
+        shares: byHolding && price > 0 ? roundTo(tradeAmount / price, 4) : 0,
+      };
     })
-    .eq('user_id', userId)
-    .eq('is_active', true);
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+
+  const estimatedTrades = recommendations.filter((r) => r.action !== 'hold').length;
+
+  return {
+    target_allocation: target,
+    mode,
+    contribution,
+    total_value: roundTo(totalValue, 2),
+    current_allocations: Object.fromEntries(keys.map((key) => [key, roundTo(currentAllocations[key], 2)])),
+    recommendations,
+    max_drift: roundTo(maxDrift, 2),
+    needs_rebalance: needsRebalance,
+    estimated_trades: estimatedTrades,
+    estimated_cost: roundTo(estimatedTrades * (options.trade_fee ?? 0), 2),
+  };
+}
+
+/**
+ * Rebalance plan for the user's holdings against the active target allocation.
+ * Returns null when no target allocation has been set.
+ */
+export async function getRebalancePlan(options: RebalanceOptions = {}): Promise<RebalancePlan | null> {
+  const target = await getTargetAllocation();
+  if (!target) return null;
+
+  const [holdings, cryptoHoldings] = await Promise.all([getHoldings(), getCryptoHoldings()]);
+
+  return calculateRebalancePlan(
+    [
+      ...holdings,
+      ...cryptoHoldings.map((c) => ({ ...c, investment_type: 'cryptocurrency' as InvestmentType })),
+    ],
+    target,
+    options
+  );
+}
+
+// ============================================
+// PRICE UPDATES
+// ============================================
+
+/** Holding types that have no market quote and keep their manual price */
+const UNQUOTED_TYPES: InvestmentType[] = ['cash', 'real_estate', 'other'];
+
+interface PricedRow {
+  table: 'investment_holdings' | 'crypto_holdings';
+  id: string;
+  symbol: string;
+  quantity: number;
+  currency: string | null;
+}
+
+interface ResolvedQuote {
+  price: number;
+  change: number;
+  changePercent: number;
+  currency: string;
+  provider: string;
+}
+
+/**
+ * Refresh holding prices from the market quote providers.
+ * Quotes are converted to each holding's currency, recorded in the daily
+ * price history and followed by today's portfolio snapshot.
+ */
+export async function updatePrices(
+  options: { forceRefresh?: boolean } = {}
+): Promise<PriceRefreshResult> {
+  const userId = await getCurrentUserId();
+  const refreshedAt = new Date().toISOString();
+  const today = refreshedAt.split('T')[0];
+
+  const [holdingsResult, cryptoResult] = await Promise.all([
+    supabase
+      .from('investment_holdings')
+      .select('id, symbol, investment_type, quantity, currency')
+      .eq('user_id', userId)
+      .eq('is_active', true),
+    supabase
+      .from('crypto_holdings')
+      .select('id, symbol, quantity, currency')
+      .eq('user_id', userId)
+      .eq('is_active', true),
+  ]);
+
+  if (holdingsResult.error) throw holdingsResult.error;
+  if (cryptoResult.error) throw cryptoResult.error;
+
+  const quoted = (holdingsResult.data || [])
+    .filter((h) => h.symbol && !UNQUOTED_TYPES.includes(h.investment_type))
+    .map((h) => ({ ...h, table: 'investment_holdings' as const }));
+  const stockRows: PricedRow[] = quoted.filter((h) => h.investment_type !== 'cryptocurrency');
+  const cryptoRows: PricedRow[] = [
+    ...quoted.filter((h) => h.investment_type === 'cryptocurrency'),
+    ...(cryptoResult.data || [])
+      .filter((h) => h.symbol)
+      .map((h) => ({ ...h, table: 'crypto_holdings' as const })),
+  ];
+
+  const [stocks, crypto] = await Promise.all([
+    getStockQuotes(stockRows.map((h) => h.symbol), options),
+    getCryptoQuotes(cryptoRows.map((h) => h.symbol), options),
+  ]);
+
+  const resolve = (quote: StockQuote | CryptoQuote | undefined, provider: string): ResolvedQuote | null => {
+    if (!quote) return null;
+    const isStock = 'change' in quote;
+    return {
+      price: quote.price,
+      change: isStock ? quote.change : quote.change_24h,
+      changePercent: isStock ? quote.change_percent : quote.change_24h_percent,
+      currency: quote.currency,
+      provider,
+    };
+  };
+
+  const priced: Array<{ row: PricedRow; quote: ResolvedQuote }> = [];
+  for (const row of stockRows) {
+    const symbol = row.symbol.toUpperCase();
+    const quote = resolve(stocks.quotes[symbol], stocks.sources[symbol]);
+    if (quote) priced.push({ row, quote });
+  }
+  for (const row of cryptoRows) {
+    const symbol = row.symbol.toUpperCase();
+    const quote = resolve(crypto.quotes[symbol], crypto.sources[symbol]);
+    if (quote) priced.push({ row, quote });
+  }
+
+  // Only load exchange rates when a quote is in another currency
+  const needsRates = priced.some(({ row, quote }) => (row.currency || 'USD') !== quote.currency);
+  const rates = needsRates ? (await getRates('USD')).rates : {};
+  const toHoldingCurrency = (amount: number, from: string, to: string) =>
+    from === to ? amount : convertWithRates(amount, from, to, rates);
+
+  const history = new Map<string, InvestmentPriceInsert>();
+  let updated = 0;
+
+  await Promise.all(priced.map(async ({ row, quote }) => {
+    const currency = row.currency || 'USD';
+    const price = toHoldingCurrency(quote.price, quote.currency, currency);
+
+    const { error } = await supabase
+      .from(row.table)
+      .update({
+        current_price: price,
+        current_value: Number(row.quantity) * price,
+        last_price_update: refreshedAt,
+        updated_at: refreshedAt,
+      })
+      .eq('id', row.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.investment.warn(`Failed to update price for ${row.symbol}:`, error);
+      return;
+    }
+    updated++;
+
+    const symbol = row.symbol.toUpperCase();
+    history.set(`${symbol}:${currency}`, {
+      symbol,
+      price,
+      currency,
+      change_amount: toHoldingCurrency(quote.change, quote.currency, currency),
+      change_percent: quote.changePercent,
+      price_date: today,
+      source: quote.provider === 'fixture' ? 'fixture' : 'api',
+    });
+  }));
+
+  // Price history is informational; a failure shouldn't undo the refresh
+  if (history.size > 0) {
+    const { error } = await supabase
+      .from('investment_prices')
+      .upsert([...history.values()], { onConflict: 'symbol,currency,price_date' });
+    if (error) logger.investment.warn('Failed to record price history:', error);
+  }
+
+  let snapshotCreated = false;
+  if (updated > 0) {
+    try {
+      await createSnapshot();
+      snapshotCreated = true;
+    } catch (error) {
+      logger.investment.warn('Failed to create portfolio snapshot:', error);
+    }
+  }
+
+  return {
+    updated,
+    missing: [...stocks.missing, ...crypto.missing],
+    providers: [...new Set(priced.map(({ quote }) => quote.provider))],
+    refreshed_at: refreshedAt,
+    snapshot_created: snapshotCreated,
+  };
 }
 
 /**
@@ -823,7 +1284,7 @@ export async function updateHoldingPrice(
   // Get current holding to calculate new value
   const { data: holding } = await supabase
     .from('investment_holdings')
-    .select('quantity')
+    .select('quantity, currency')
     .eq('id', id)
     .eq('user_id', userId)
     .single();
@@ -848,13 +1309,13 @@ export async function updateHoldingPrice(
   if (error) throw error;
 
   // Record price in history
-  await supabase.from('investment_prices').insert({
+  await supabase.from('investment_prices').upsert({
     symbol: data.symbol,
     price: newPrice,
-    currency: 'USD',
+    currency: holding.currency || 'USD',
     price_date: new Date().toISOString().split('T')[0],
     source: 'manual',
-  });
+  }, { onConflict: 'symbol,currency,price_date' });
 
   return data;
 }
@@ -0,0 +1,355 @@
+/**
+ * Merchants Service
+ * Resolves raw merchant descriptors to canonical merchants so "AMZN Mktp
+ * US*2K3", "Amazon.com" and "AMAZON" count as one. cleanMerchantName
+ * normalizes the descriptor; the user's own merchants (with the aliases their
+ * merges leave behind) are checked first, then the built-in directory. The
+ * canonical key is what transactions store in merchant_name_clean.
+ */
+
+import { supabase } from './supabase';
+import { getDevCollection, setDevCollection, getDevTransactions, updateDevTransaction } from './devStorage';
+import {
+  cleanMerchantName,
+  findKnownMerchant,
+  getKnownMerchant,
+  matchesMerchantAlias,
+  titleCaseMerchant,
+} from '@/config/merchants';
+import { useAuthStore } from '@/stores/authStore';
+import { isDevMode } from '@/utils/devMode';
+import { logger } from '@/utils/logger';
+import type { Merchant, Transaction } from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ResolvedMerchant {
+  /** Canonical key, stored in transactions.merchant_name_clean */
+  key: string;
+  name: string;
+  icon: string | null;
+  logo_url: string | null;
+  website: string | null;
+  /** The user's category id, or a DEFAULT_CATEGORIES id from the directory */
+  default_category_id: string | null;
+}
+
+export type MerchantResolver = (merchantName: string | null | undefined) => ResolvedMerchant;
+
+export interface MerchantSummary {
+  merchant: ResolvedMerchant;
+  transactionCount: number;
+  /** A few of the raw descriptors that resolve to this merchant */
+  variants: string[];
+}
+
+export const UNKNOWN_MERCHANT_KEY = 'unknown';
+/** Reload the user's merchants at most this often unless a merge invalidates them */
+const RESOLVER_TTL_MS = 10 * 60 * 1000;
+/** Most recent transactions the merchant list looks through */
+const TRANSACTION_LIMIT = 2000;
+const MAX_VARIANTS = 3;
+/** PostgREST returns at most this many rows per request */
+const BACKFILL_PAGE_SIZE = 1000;
+/** Transaction ids per backfill update, to keep the request URL short */
+const BACKFILL_UPDATE_SIZE = 200;
+
+let cachedResolver: { userId: string; loadedAt: number; resolve: MerchantResolver } | null = null;
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function getUserId(): Promise<string> {
+  if (isDevMode()) {
+    const userId = useAuthStore.getState().user?.id;
+    if (!userId) throw new Error('Not authenticated');
+    return userId;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  return user.id;
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Build a resolver over the user's merchants and the built-in directory
+ */
+export function createMerchantResolver(merchants: Merchant[] = []): MerchantResolver {
+  // Longest aliases first so the most specific one wins
+  const userAliases = merchants
+    .flatMap((merchant) => [merchant.key, ...merchant.aliases].map((alias) => ({ alias, merchant })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+  const findUserMerchant = (cleanedName: string) =>
+    userAliases.find(({ alias }) => matchesMerchantAlias(cleanedName, alias))?.merchant ?? null;
+
+  return (merchantName) => {
+    const cleaned = cleanMerchantName(merchantName);
+    if (!cleaned) {
+      return { key: UNKNOWN_MERCHANT_KEY, name: 'Unknown', icon: null, logo_url: null, website: null, default_category_id: null };
+    }
+
+    // The user's merchants win, whether they match the descriptor itself or
+    // the directory merchant it resolves to (merged into another merchant)
+    const known = findKnownMerchant(cleaned);
+    const own = findUserMerchant(cleaned) ?? (known ? findUserMerchant(known.id) : null);
+    const directory = own ? getKnownMerchant(own.key) : known;
+
+    return {
+      key: own?.key ?? known?.id ?? cleaned,
+      name: own?.name ?? directory?.name ?? titleCaseMerchant(cleaned),
+      icon: own?.icon ?? directory?.icon ?? null,
+      logo_url: own?.logo_url ?? null,
+      website: own?.website ?? directory?.website ?? null,
+      default_category_id: own?.default_category_id ?? directory?.category ?? null,
+    };
+  };
+}
+
+/**
+ * Get the user's own merchant records
+ */
+export async function getMerchants(): Promise<Merchant[]> {
+  if (isDevMode()) {
+    return getDevCollection<Merchant>('MERCHANTS');
+  }
+
+  const userId = await getUserId();
+  const { data, error } = await supabase
+    .from('merchants')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Resolver for the signed-in user, cached until a merge changes their merchants.
+ * Falls back to the built-in directory when their merchants can't be loaded.
+ */
+export async function getMerchantResolver(): Promise<MerchantResolver> {
+  let userId: string;
+  try {
+    userId = await getUserId();
+  } catch {
+    return createMerchantResolver();
+  }
+
+  if (cachedResolver && cachedResolver.userId === userId && Date.now() - cachedResolver.loadedAt < RESOLVER_TTL_MS) {
+    return cachedResolver.resolve;
+  }
+
+  try {
+    const resolve = createMerchantResolver(await getMerchants());
+    cachedResolver = { userId, loadedAt: Date.now(), resolve };
+    return resolve;
+  } catch (error) {
+    logger.transaction.warn('Could not load merchants, using the built-in directory:', error);
+    return createMerchantResolver();
+  }
+}
+
+/**
+ * Forget the cached resolver so the next lookup sees the latest merchants
+ */
+export function invalidateMerchantResolver(): void {
+  cachedResolver = null;
+}
+
+/**
+ * Canonical merchant for a raw descriptor
+ */
+export async function resolveMerchant(merchantName: string | null | undefined): Promise<ResolvedMerchant> {
+  const resolve = await getMerchantResolver();
+  return resolve(merchantName);
+}
+
+// ============================================
+// MERCHANT LIST & MERGING
+// ============================================
+
+async function loadMerchantTransactions(
+  userId: string
+): Promise<Pick<Transaction, 'id' | 'merchant_name' | 'merchant_name_clean'>[]> {
+  if (isDevMode()) {
+    return (await getDevTransactions()).slice(0, TRANSACTION_LIMIT);
+  }
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id, merchant_name, merchant_name_clean')
+    .eq('user_id', userId)
+    .eq('is_deleted', false)
+    .order('transaction_date', { ascending: false })
+    .limit(TRANSACTION_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+}
+
+async function loadAllMerchantTransactions(
+  userId: string
+): Promise<Pick<Transaction, 'id' | 'merchant_name' | 'merchant_name_clean'>[]> {
+  if (isDevMode()) {
+    return getDevTransactions();
+  }
+
+  const rows: Pick<Transaction, 'id' | 'merchant_name' | 'merchant_name_clean'>[] = [];
+  for (let from = 0; ; from += BACKFILL_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, merchant_name, merchant_name_clean')
+      .eq('user_id', userId)
+      .order('id')
+      .range(from, from + BACKFILL_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < BACKFILL_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * The user's merchants as their transactions resolve today, most used first
+ */
+export async function getMerchantSummaries(): Promise<MerchantSummary[]> {
+  const userId = await getUserId();
+  const [resolve, transactions] = await Promise.all([getMerchantResolver(), loadMerchantTransactions(userId)]);
+
+  const summaries = new Map<string, MerchantSummary>();
+  for (const transaction of transactions) {
+    const merchant = resolve(transaction.merchant_name);
+    if (merchant.key === UNKNOWN_MERCHANT_KEY) continue;
+
+    const summary = summaries.get(merchant.key) ?? { merchant, transactionCount: 0, variants: [] };
+    summary.transactionCount += 1;
+    if (summary.variants.length < MAX_VARIANTS && !summary.variants.includes(transaction.merchant_name)) {
+      summary.variants.push(transaction.merchant_name);
+    }
+    summaries.set(merchant.key, summary);
+  }
+
+  return Array.from(summaries.values()).sort(
+    (a, b) => b.transactionCount - a.transactionCount || a.merchant.name.localeCompare(b.merchant.name)
+  );
+}
+
+/**
+ * Merge merchants into one: the sources become aliases of the target, their
+ * own records go, and every transaction that now resolves to the target
+ * gets its key. Returns how many transactions were updated.
+ */
+export async function mergeMerchants(targetKey: string, sourceKeys: string[]): Promise<number> {
+  const sources = [...new Set(sourceKeys)].filter((key) => key !== targetKey && key !== UNKNOWN_MERCHANT_KEY);
+  if (sources.length === 0) return 0;
+
+  const userId = await getUserId();
+  const merchants = await getMerchants();
+  const existing = merchants.find((merchant) => merchant.key === targetKey);
+  const absorbed = merchants.filter((merchant) => sources.includes(merchant.key));
+
+  const aliases = [...new Set([
+    ...(existing?.aliases ?? []),
+    ...sources,
+    ...absorbed.flatMap((merchant) => merchant.aliases),
+  ])].filter((alias) => alias !== targetKey);
+
+  // Directory fields stay as fallbacks rather than being copied
+  const now = new Date().toISOString();
+  const target: Merchant = existing
+    ? { ...existing, aliases, updated_at: now }
+    : {
+        id: `dev-merchant-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+        user_id: userId,
+        key: targetKey,
+        name: createMerchantResolver(merchants)(targetKey).name,
+        aliases,
+        icon: null,
+        logo_url: null,
+        website: null,
+        default_category_id: null,
+        created_at: now,
+        updated_at: now,
+      };
+
+  const remaining = merchants.filter((merchant) => merchant !== existing && !absorbed.includes(merchant));
+
+  if (isDevMode()) {
+    await setDevCollection('MERCHANTS', [...remaining, target]);
+  } else {
+    const { error } = await supabase
+      .from('merchants')
+      .upsert({
+        user_id: userId,
+        key: target.key,
+        name: target.name,
+        aliases: target.aliases,
+        icon: target.icon,
+        logo_url: target.logo_url,
+        website: target.website,
+        default_category_id: target.default_category_id,
+      }, { onConflict: 'user_id,key' });
+    if (error) throw error;
+
+    if (absorbed.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('merchants')
+        .delete()
+        .in('id', absorbed.map((merchant) => merchant.id));
+      if (deleteError) throw deleteError;
+    }
+  }
+
+  invalidateMerchantResolver();
+
+  // Backfill every transaction stored under a merged key, however old. Rows
+  // without a key (webhook imports) or with a key from an older normalizer are
+  // re-resolved from their descriptor.
+  const mergedKeys = [...new Set([...sources, ...absorbed.flatMap((merchant) => merchant.aliases)])];
+  const resolve = createMerchantResolver([...remaining, target]);
+  const stale = (await loadAllMerchantTransactions(userId)).filter(
+    (t) =>
+      t.merchant_name_clean !== targetKey &&
+      ((t.merchant_name_clean !== null && mergedKeys.includes(t.merchant_name_clean)) ||
+        resolve(t.merchant_name).key === targetKey)
+  );
+  let updated = 0;
+
+  if (isDevMode()) {
+    for (const transaction of stale) {
+      await updateDevTransaction(transaction.id, { merchant_name_clean: targetKey });
+    }
+    updated = stale.length;
+  } else {
+    for (let i = 0; i < stale.length; i += BACKFILL_UPDATE_SIZE) {
+      const { count, error } = await supabase
+        .from('transactions')
+        .update({ merchant_name_clean: targetKey }, { count: 'exact' })
+        .eq('user_id', userId)
+        .in('id', stale.slice(i, i + BACKFILL_UPDATE_SIZE).map((t) => t.id));
+      if (error) throw error;
+      updated += count ?? 0;
+    }
+  }
+
+  logger.transaction.info(`Merged ${sources.length} merchant(s) into "${target.name}", updated ${updated} transaction(s)`);
+  return updated;
+}
+
+export default {
+  createMerchantResolver,
+  getMerchants,
+  getMerchantResolver,
+  invalidateMerchantResolver,
+  resolveMerchant,
+  getMerchantSummaries,
+  mergeMerchants,
+};
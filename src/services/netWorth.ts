@@ -571,9 +571,31 @@ export async function getLiabilitiesByType(): Promise<Record<LiabilityType, Liab
 
 /**
  * Link a liability to an existing debt
+ * The liability takes the debt's balance, which carries the payment history.
+ * From then on database triggers keep both balances equal, whichever changes.
  */
 export async function linkLiabilityToDebt(liabilityId: string, debtId: string): Promise<Liability> {
-  return updateLiability(liabilityId, { linked_debt_id: debtId });
+  const { data: debt, error } = await supabase
+    .from('debts')
+    .select('current_balance')
+    .eq('id', debtId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to fetch debt: ${error.message}`);
+  }
+
+  return updateLiability(liabilityId, {
+    linked_debt_id: debtId,
+    current_balance: debt.current_balance,
+  });
+}
+
+/**
+ * Stop mirroring a debt; both balances keep their current value
+ */
+export async function unlinkLiabilityFromDebt(liabilityId: string): Promise<Liability> {
+  return updateLiability(liabilityId, { linked_debt_id: null });
 }
 
 /**
@@ -7,7 +7,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import * as FileSystem from 'expo-file-system';
 import { logger } from '@/utils/logger';
-import { scanReceipt } from './receiptScanner';
+import { scanReceipt, scanReceiptPages } from './receiptScanner';
 import type { ReceiptData } from '@/types/receipt';
 
 // Storage keys
@@ -26,6 +26,8 @@ export type PendingReceiptStatus = 'pending' | 'processing' | 'failed' | 'comple
 export interface PendingReceipt {
   id: string;
   imageUri: string;
+  /** All photos of a multi-page receipt, in order (imageUri is the first) */
+  pageUris?: string[];
   timestamp: number;
   retries: number;
   status: PendingReceiptStatus;
@@ -162,29 +164,35 @@ class OfflineReceiptQueue {
 
   /**
    * Add a receipt to the queue for processing
+   * Pass several URIs for a receipt photographed in pages
    */
-  async addToQueue(imageUri: string, metadata?: PendingReceipt['metadata']): Promise<string> {
+  async addToQueue(imageUris: string | string[], metadata?: PendingReceipt['metadata']): Promise<string> {
     // Check queue size limit
     if (this.queue.length >= MAX_QUEUE_SIZE) {
       throw new Error('Receipt queue is full. Please process existing receipts first.');
     }
 
-    // Verify image exists
-    const fileInfo = await FileSystem.getInfoAsync(imageUri);
-    if (!fileInfo.exists) {
+    const pageUris = Array.isArray(imageUris) ? imageUris : [imageUris];
+    const imageUri = pageUris[0];
+
+    // Verify images exist
+    const fileInfos = await Promise.all(pageUris.map(uri => FileSystem.getInfoAsync(uri)));
+    if (!imageUri || fileInfos.some(info => !info.exists)) {
       throw new Error('Image file not found');
     }
+    const fileSize = fileInfos.reduce((sum, info) => sum + (info.exists && 'size' in info ? info.size : 0), 0);
 
     const pendingReceipt: PendingReceipt = {
       id: `receipt-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
       imageUri,
+      ...(pageUris.length > 1 && { pageUris }),
       timestamp: Date.now(),
       retries: 0,
       status: 'pending',
       metadata: {
         ...metadata,
         capturedAt: new Date().toISOString(),
-        fileSize: fileInfo.exists && 'size' in fileInfo ? fileInfo.size : undefined,
+        fileSize: fileSize || undefined,
       },
     };
 
@@ -279,7 +287,9 @@ class OfflineReceiptQueue {
         }
 
         // Attempt to scan the receipt
-        const result = await scanReceipt(receipt.imageUri);
+        const result = receipt.pageUris && receipt.pageUris.length > 1
+          ? await scanReceiptPages(receipt.pageUris)
+          : await scanReceipt(receipt.imageUri);
 
         if (result.success && result.data) {
           // Success - create processed receipt
@@ -0,0 +1,369 @@
+/**
+ * Market Quote Provider
+ * Stock and crypto prices for investment holdings come from a chain of
+ * pluggable backends. Each provider is asked for the symbols the ones before
+ * it could not quote. Dev mode and tests use a fixed fixture table so prices
+ * never depend on the network.
+ */
+
+import Constants from 'expo-constants';
+import { isDevMode } from '@/utils/devMode';
+import { logger } from '@/utils/logger';
+import type { StockQuote, CryptoQuote } from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface QuoteProvider {
+  /** Stable identifier, stored as the source of recorded prices */
+  id: string;
+  /** Quotes for as many of the symbols as the backend knows; unknown symbols are left out */
+  fetchStockQuotes?(symbols: string[]): Promise<StockQuote[]>;
+  fetchCryptoQuotes?(symbols: string[]): Promise<CryptoQuote[]>;
+}
+
+export interface QuoteBatch<T> {
+  /** Quotes keyed by upper-case symbol */
+  quotes: Record<string, T>;
+  /** Provider ID each quote came from */
+  sources: Record<string, string>;
+  /** Symbols no provider could quote */
+  missing: string[];
+}
+
+type QuoteKind = 'stock' | 'crypto';
+
+/** The fields read from a Yahoo Finance quote; any of them can be missing */
+interface YahooQuote {
+  symbol?: string;
+  longName?: string;
+  shortName?: string;
+  currency?: string;
+  regularMarketPrice?: number;
+  regularMarketChange?: number;
+  regularMarketChangePercent?: number;
+  regularMarketVolume?: number;
+  regularMarketTime?: number;
+  marketCap?: number;
+  trailingPE?: number;
+  trailingAnnualDividendYield?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+}
+
+/** The fields read from a CoinGecko market entry */
+interface CoinGeckoMarket {
+  symbol?: string;
+  name?: string;
+  current_price?: number;
+  price_change_24h?: number | null;
+  price_change_percentage_24h?: number | null;
+  total_volume?: number | null;
+  market_cap?: number | null;
+  circulating_supply?: number | null;
+  total_supply?: number | null;
+  ath?: number | null;
+  ath_date?: string | null;
+  last_updated?: string | null;
+}
+
+interface CachedQuote {
+  quote: StockQuote | CryptoQuote;
+  provider: string;
+  fetchedAt: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const QUOTE_CACHE_DURATION = 15 * 60 * 1000; // 15 minutes
+const MAX_SYMBOLS_PER_REQUEST = 50;
+
+// Fixture prices - updated January 2025
+const FIXTURE_STOCKS: Record<string, { name: string; price: number; currency: string }> = {
+  AAPL: { name: 'Apple Inc.', price: 229.98, currency: 'USD' },
+  MSFT: { name: 'Microsoft Corporation', price: 429.03, currency: 'USD' },
+  GOOGL: { name: 'Alphabet Inc.', price: 196.87, currency: 'USD' },
+  AMZN: { name: 'Amazon.com Inc.', price: 220.22, currency: 'USD' },
+  NVDA: { name: 'NVIDIA Corporation', price: 137.71, currency: 'USD' },
+  TSLA: { name: 'Tesla Inc.', price: 410.44, currency: 'USD' },
+  VOO: { name: 'Vanguard S&P 500 ETF', price: 541.12, currency: 'USD' },
+  VTI: { name: 'Vanguard Total Stock Market ETF', price: 294.8, currency: 'USD' },
+  SPY: { name: 'SPDR S&P 500 ETF Trust', price: 591.64, currency: 'USD' },
+  QQQ: { name: 'Invesco QQQ Trust', price: 520.23, currency: 'USD' },
+  BND: { name: 'Vanguard Total Bond Market ETF', price: 71.39, currency: 'USD' },
+  EMAAR: { name: 'Emaar Properties', price: 13.3, currency: 'AED' },
+  'VWRL.L': { name: 'Vanguard FTSE All-World UCITS ETF', price: 117.6, currency: 'GBP' },
+};
+
+const FIXTURE_CRYPTO: Record<string, { name: string; price: number }> = {
+  BTC: { name: 'Bitcoin', price: 102150 },
+  ETH: { name: 'Ethereum', price: 3290 },
+  SOL: { name: 'Solana', price: 252.4 },
+  BNB: { name: 'BNB', price: 690.1 },
+  XRP: { name: 'XRP', price: 3.12 },
+  ADA: { name: 'Cardano', price: 0.98 },
+  USDT: { name: 'Tether', price: 1 },
+  USDC: { name: 'USD Coin', price: 1 },
+};
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+async function fetchJson(url: string): Promise<unknown> {
+  const response = await fetch(url, { method: 'GET' });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch quotes: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Yahoo Finance quote endpoint: listed stocks, ETFs and funds in their exchange currency
+ */
+export const yahooFinanceProvider: QuoteProvider = {
+  id: 'yahoo-finance',
+  async fetchStockQuotes(symbols) {
+    const data = await fetchJson(
+      `https://query1.finance.yahoo.com/v7/finance/quote?symbols=${encodeURIComponent(symbols.join(','))}`
+    );
+    const results = (data as { quoteResponse?: { result?: unknown } } | null)?.quoteResponse?.result;
+    if (!Array.isArray(results)) throw new Error('Invalid quote response');
+
+    return (results as YahooQuote[])
+      .filter((q): q is YahooQuote & { regularMarketPrice: number; currency: string } =>
+        typeof q.regularMarketPrice === 'number' && !!q.currency
+      )
+      .map((q) => ({
+        symbol: String(q.symbol).toUpperCase(),
+        name: q.longName || q.shortName || String(q.symbol),
+        price: q.regularMarketPrice,
+        currency: String(q.currency).toUpperCase(),
+        change: q.regularMarketChange ?? 0,
+        change_percent: q.regularMarketChangePercent ?? 0,
+        volume: q.regularMarketVolume ?? 0,
+        market_cap: q.marketCap ?? 0,
+        pe_ratio: q.trailingPE ?? null,
+        dividend_yield: q.trailingAnnualDividendYield ?? null,
+        week_52_high: q.fiftyTwoWeekHigh ?? q.regularMarketPrice,
+        week_52_low: q.fiftyTwoWeekLow ?? q.regularMarketPrice,
+        updated_at: q.regularMarketTime
+          ? new Date(q.regularMarketTime * 1000).toISOString()
+          : new Date().toISOString(),
+      }));
+  },
+};
+
+/**
+ * CoinGecko markets endpoint: crypto prices in USD.
+ * Several coins can share a ticker; the largest by market cap wins.
+ */
+export const coinGeckoProvider: QuoteProvider = {
+  id: 'coingecko',
+  async fetchCryptoQuotes(symbols) {
+    const data = await fetchJson(
+      `https://api.coingecko.com/api/v3/coins/markets?vs_currency=usd&order=market_cap_desc&symbols=${encodeURIComponent(symbols.join(',').toLowerCase())}`
+    );
+    if (!Array.isArray(data)) throw new Error('Invalid quote response');
+
+    const bySymbol = new Map<string, CryptoQuote>();
+    for (const coin of data as CoinGeckoMarket[]) {
+      const symbol = String(coin.symbol).toUpperCase();
+      if (bySymbol.has(symbol) || typeof coin.current_price !== 'number') continue;
+      bySymbol.set(symbol, {
+        symbol,
+        name: coin.name ?? symbol,
+        price: coin.current_price,
+        currency: 'USD',
+        change_24h: coin.price_change_24h ?? 0,
+        change_24h_percent: coin.price_change_percentage_24h ?? 0,
+        volume_24h: coin.total_volume ?? 0,
+        market_cap: coin.market_cap ?? 0,
+        circulating_supply: coin.circulating_supply ?? 0,
+        total_supply: coin.total_supply ?? null,
+        ath: coin.ath ?? coin.current_price,
+        ath_date: coin.ath_date ?? '',
+        updated_at: coin.last_updated ?? new Date().toISOString(),
+      });
+    }
+    return [...bySymbol.values()];
+  },
+};
+
+/**
+ * Deterministic provider backed by fixed tables.
+ * Symbols missing from the tables are not quoted.
+ */
+export function createFixtureQuoteProvider(
+  stocks: Record<string, { name: string; price: number; currency: string }> = FIXTURE_STOCKS,
+  crypto: Record<string, { name: string; price: number }> = FIXTURE_CRYPTO,
+  id = 'fixture'
+): QuoteProvider {
+  const updatedAt = '2025-01-15T21:00:00.000Z';
+  return {
+    id,
+    async fetchStockQuotes(symbols) {
+      return symbols
+        .filter((symbol) => stocks[symbol])
+        .map((symbol) => ({
+          symbol,
+          name: stocks[symbol].name,
+          price: stocks[symbol].price,
+          currency: stocks[symbol].currency,
+          change: 0,
+          change_percent: 0,
+          volume: 0,
+          market_cap: 0,
+          pe_ratio: null,
+          dividend_yield: null,
+          week_52_high: stocks[symbol].price,
+          week_52_low: stocks[symbol].price,
+          updated_at: updatedAt,
+        }));
+    },
+    async fetchCryptoQuotes(symbols) {
+      return symbols
+        .filter((symbol) => crypto[symbol])
+        .map((symbol) => ({
+          symbol,
+          name: crypto[symbol].name,
+          price: crypto[symbol].price,
+          currency: 'USD',
+          change_24h: 0,
+          change_24h_percent: 0,
+          volume_24h: 0,
+          market_cap: 0,
+          circulating_supply: 0,
+          total_supply: null,
+          ath: crypto[symbol].price,
+          ath_date: updatedAt,
+          updated_at: updatedAt,
+        }));
+    },
+  };
+}
+
+export const fixtureQuoteProvider = createFixtureQuoteProvider();
+
+// Set EXPO_PUBLIC_QUOTE_PROVIDER=fixture to run fully offline with fixed prices
+const defaultProviders = (): QuoteProvider[] =>
+  isDevMode() || Constants.expoConfig?.extra?.quoteProvider === 'fixture'
+    ? [fixtureQuoteProvider]
+    : [yahooFinanceProvider, coinGeckoProvider];
+
+let overrideProviders: QuoteProvider[] | null = null;
+const cache = new Map<string, CachedQuote>();
+
+/**
+ * Replace the provider chain. Providers are tried in order.
+ */
+export function setQuoteProviders(chain: QuoteProvider[]): void {
+  overrideProviders = [...chain];
+  cache.clear();
+}
+
+/**
+ * Go back to the default chain (the fixture in dev mode, live backends otherwise)
+ */
+export function resetQuoteProviders(): void {
+  overrideProviders = null;
+  cache.clear();
+}
+
+export function getQuoteProviders(): QuoteProvider[] {
+  return overrideProviders ? [...overrideProviders] : defaultProviders();
+}
+
+/**
+ * Forget every cached quote
+ */
+export function clearQuoteCache(): void {
+  cache.clear();
+}
+
+// ============================================
+// QUOTES
+// ============================================
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function getQuotes<T extends StockQuote | CryptoQuote>(
+  kind: QuoteKind,
+  symbols: string[],
+  forceRefresh: boolean
+): Promise<QuoteBatch<T>> {
+  const wanted = [...new Set(symbols.map((s) => s.trim().toUpperCase()).filter(Boolean))];
+  const batch: QuoteBatch<T> = { quotes: {}, sources: {}, missing: [] };
+  const now = Date.now();
+
+  let remaining = wanted.filter((symbol) => {
+    const cached = cache.get(`${kind}:${symbol}`);
+    if (forceRefresh || !cached || now - cached.fetchedAt > QUOTE_CACHE_DURATION) return true;
+    batch.quotes[symbol] = cached.quote as T;
+    batch.sources[symbol] = cached.provider;
+    return false;
+  });
+
+  for (const provider of getQuoteProviders()) {
+    const canQuote = kind === 'stock' ? provider.fetchStockQuotes : provider.fetchCryptoQuotes;
+    if (!canQuote || remaining.length === 0) continue;
+
+    for (const symbols of chunk(remaining, MAX_SYMBOLS_PER_REQUEST)) {
+      try {
+        const quotes = (kind === 'stock'
+          ? await provider.fetchStockQuotes!(symbols)
+          : await provider.fetchCryptoQuotes!(symbols)) as T[];
+        for (const quote of quotes) {
+          if (!symbols.includes(quote.symbol) || !(quote.price > 0)) continue;
+          batch.quotes[quote.symbol] = quote;
+          batch.sources[quote.symbol] = provider.id;
+          cache.set(`${kind}:${quote.symbol}`, { quote, provider: provider.id, fetchedAt: now });
+        }
+      } catch (error) {
+        logger.investment.warn(`Quote provider ${provider.id} failed:`, error);
+      }
+    }
+    remaining = remaining.filter((symbol) => !batch.quotes[symbol]);
+  }
+
+  batch.missing = remaining;
+  return batch;
+}
+
+/**
+ * Latest quotes for stocks, ETFs and funds
+ */
+export async function getStockQuotes(
+  symbols: string[],
+  options: { forceRefresh?: boolean } = {}
+): Promise<QuoteBatch<StockQuote>> {
+  return getQuotes<StockQuote>('stock', symbols, !!options.forceRefresh);
+}
+
+/**
+ * Latest quotes for crypto assets
+ */
+export async function getCryptoQuotes(
+  symbols: string[],
+  options: { forceRefresh?: boolean } = {}
+): Promise<QuoteBatch<CryptoQuote>> {
+  return getQuotes<CryptoQuote>('crypto', symbols, !!options.forceRefresh);
+}
+
+export default {
+  getStockQuotes,
+  getCryptoQuotes,
+  setQuoteProviders,
+  resetQuoteProviders,
+  getQuoteProviders,
+  clearQuoteCache,
+};
@@ -0,0 +1,397 @@
+/**
+ * Exchange Rate History Service
+ * Keeps a local per-day history of exchange rates and records the rate that
+ * applied on each transaction's date, so multi-currency totals stay the same
+ * no matter when a report is generated.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger } from '@/utils/logger';
+import { getRates, getHistoricalRates, isSnapshotStale, getFixtureRates } from './rateProvider';
+import { getTransactions, updateTransaction } from './transactions';
+import type { Transaction } from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Where a set of rates came from:
+ * - live: latest rates fetched for today
+ * - historical: reference rates fetched for a past date
+ * - stored: nearest day in the local history (used offline)
+ * - fallback: built-in approximate rates, never persisted
+ */
+export type RateSource = 'live' | 'historical' | 'stored' | 'fallback';
+
+export interface RateHistoryEntry {
+  date: string;
+  /** Units of each currency per 1 USD */
+  rates: Record<string, number>;
+  source: 'live' | 'historical';
+  fetched_at: string;
+}
+
+export interface DailyRates {
+  /** Date the rates actually belong to (may differ from the requested date offline) */
+  date: string;
+  rates: Record<string, number>;
+  source: RateSource;
+}
+
+/**
+ * Exchange rate snapshot stored on a transaction under `metadata.fx`.
+ * Rates are units per 1 USD for the transaction currency and the user's base
+ * currency at the time it was recorded. Snapshots taken from the nearest
+ * stored day (`source: 'stored'`) are provisional: the backfill replaces them
+ * once the transaction date's own rates can be fetched.
+ */
+export interface TransactionFxRate {
+  date: string;
+  base: 'USD';
+  rates: Record<string, number>;
+  source: RateSource;
+}
+
+export interface BackfillResult {
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const RATE_HISTORY_KEY = 'spendtrak_rate_history';
+const HISTORY_BASE = 'USD';
+const RETRY_AFTER_FAILURE = 5 * 60 * 1000; // 5 minutes
+const BACKFILL_PAGE_SIZE = 100;
+
+let historyCache: Record<string, RateHistoryEntry> | null = null;
+let lastFailureAt = 0;
+const pendingFetches = new Map<string, Promise<RateHistoryEntry | null>>();
+
+// ============================================
+// HELPERS
+// ============================================
+
+const today = (): string => new Date().toISOString().split('T')[0];
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const toDay = (date: string): number => Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+
+async function loadHistory(): Promise<Record<string, RateHistoryEntry>> {
+  if (historyCache) return historyCache;
+
+  try {
+    const stored = await AsyncStorage.getItem(RATE_HISTORY_KEY);
+    historyCache = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    logger.currency.warn('Failed to load exchange rate history:', error);
+    historyCache = {};
+  }
+  return historyCache!;
+}
+
+async function saveHistory(history: Record<string, RateHistoryEntry>): Promise<void> {
+  try {
+    await AsyncStorage.setItem(RATE_HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    logger.currency.error('Failed to save exchange rate history:', error);
+  }
+}
+
+/**
+ * Find the stored day closest to the given date, preferring earlier days
+ */
+function findNearestEntry(
+  history: Record<string, RateHistoryEntry>,
+  date: string,
+  currencies: string[] = []
+): RateHistoryEntry | null {
+  const target = toDay(date);
+  let best: RateHistoryEntry | null = null;
+  let bestDistance = Infinity;
+
+  for (const entry of Object.values(history)) {
+    if (currencies.some((currency) => !entry.rates[currency])) continue;
+
+    const diff = toDay(entry.date) - target;
+    // Earlier days win ties by weighing later days slightly more
+    const distance = diff <= 0 ? -diff : diff + 0.5;
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+async function requestRates(date: string): Promise<RateHistoryEntry> {
+  if (date >= today()) {
+    // Only record fresh provider rates as today's rates
+    const snapshot = await getRates(HISTORY_BASE);
+    if (isSnapshotStale(snapshot)) {
+      throw new Error('Latest exchange rates unavailable');
+    }
+    return {
+      date,
+      rates: { ...snapshot.rates, [HISTORY_BASE]: 1 },
+      source: 'live',
+      fetched_at: new Date().toISOString(),
+    };
+  }
+
+  const { rates } = await getHistoricalRates(date, HISTORY_BASE);
+  return {
+    date,
+    rates: { ...rates, [HISTORY_BASE]: 1 },
+    source: 'historical',
+    fetched_at: new Date().toISOString(),
+  };
+}
+
+async function fetchAndStore(date: string): Promise<RateHistoryEntry | null> {
+  const pending = pendingFetches.get(date);
+  if (pending) return pending;
+
+  const request = (async () => {
+    try {
+      const entry = await requestRates(date);
+      const history = await loadHistory();
+      history[date] = entry;
+      await saveHistory(history);
+      return entry;
+    } catch (error) {
+      lastFailureAt = Date.now();
+      logger.currency.warn(`Exchange rates for ${date} unavailable, using local history:`, error);
+      return null;
+    } finally {
+      pendingFetches.delete(date);
+    }
+  })();
+
+  pendingFetches.set(date, request);
+  return request;
+}
+
+// ============================================
+// RATE HISTORY
+// ============================================
+
+/**
+ * Get USD-based rates for a date.
+ * Uses the local history first, then the network, then the nearest stored
+ * day and finally the built-in fallback rates. Future dates use today's rates.
+ * `cachedOnly` skips the network.
+ */
+export async function getRatesForDate(
+  date: string,
+  currencies: string[] = [],
+  options: { cachedOnly?: boolean } = {}
+): Promise<DailyRates> {
+  const now = today();
+  const lookupDate = date.slice(0, 10) > now ? now : date.slice(0, 10);
+  const history = await loadHistory();
+  const hasAll = (rates: Record<string, number>) => currencies.every((currency) => !!rates[currency]);
+
+  const stored = history[lookupDate];
+  if (stored && hasAll(stored.rates)) {
+    return { date: stored.date, rates: stored.rates, source: stored.source };
+  }
+
+  if (!options.cachedOnly && Date.now() - lastFailureAt > RETRY_AFTER_FAILURE) {
+    const fetched = await fetchAndStore(lookupDate);
+    if (fetched && hasAll(fetched.rates)) {
+      return { date: fetched.date, rates: fetched.rates, source: fetched.source };
+    }
+  }
+
+  const nearest = findNearestEntry(history, lookupDate, currencies);
+  if (nearest) {
+    return { date: nearest.date, rates: nearest.rates, source: 'stored' };
+  }
+
+  return { date: lookupDate, rates: getFixtureRates(), source: 'fallback' };
+}
+
+/**
+ * Add rates for a date to the local history (e.g. from an import or a test fixture)
+ */
+export async function recordRates(
+  date: string,
+  rates: Record<string, number>,
+  source: RateHistoryEntry['source'] = 'historical'
+): Promise<void> {
+  const history = await loadHistory();
+  history[date] = {
+    date,
+    rates: { ...rates, [HISTORY_BASE]: 1 },
+    source,
+    fetched_at: new Date().toISOString(),
+  };
+  await saveHistory(history);
+}
+
+/**
+ * Get all stored days, oldest first
+ */
+export async function getRateHistory(): Promise<RateHistoryEntry[]> {
+  const history = await loadHistory();
+  return Object.values(history).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Clear the local rate history
+ */
+export async function clearRateHistory(): Promise<void> {
+  historyCache = {};
+  lastFailureAt = 0;
+  await AsyncStorage.removeItem(RATE_HISTORY_KEY);
+}
+
+// ============================================
+// TRANSACTION RATES
+// ============================================
+
+/**
+ * Build the `metadata.fx` snapshot for a transaction.
+ * Returns null when only the built-in fallback rates are available, so the
+ * transaction can be backfilled with real rates later. `cachedOnly` builds it
+ * from the local history without waiting on the network.
+ */
+export async function buildFxSnapshot(
+  currency: string,
+  date: string,
+  baseCurrency?: string,
+  options: { cachedOnly?: boolean } = {}
+): Promise<TransactionFxRate | null> {
+  const currencies = Array.from(new Set([currency, baseCurrency].filter(Boolean) as string[]));
+  const daily = await getRatesForDate(date, currencies, options);
+
+  if (daily.source === 'fallback' || currencies.some((code) => !daily.rates[code])) {
+    return null;
+  }
+
+  const rates: Record<string, number> = {};
+  for (const code of currencies) {
+    rates[code] = daily.rates[code];
+  }
+
+  return { date: daily.date, base: HISTORY_BASE, rates, source: daily.source };
+}
+
+/**
+ * Read the exchange rate snapshot recorded on a transaction, if any
+ */
+export function getTransactionFx(transaction: Pick<Transaction, 'metadata'>): TransactionFxRate | null {
+  const fx = transaction.metadata?.fx as TransactionFxRate | undefined;
+  if (!fx || typeof fx !== 'object' || !fx.rates || typeof fx.date !== 'string') {
+    return null;
+  }
+  return fx;
+}
+
+/**
+ * Convert a transaction amount to another currency at the rate recorded for
+ * the transaction date. Transactions without a snapshot use the rate history
+ * for their transaction date.
+ */
+export async function convertAtTransactionRate(
+  amount: number,
+  transaction: Pick<Transaction, 'currency' | 'transaction_date' | 'metadata'>,
+  toCurrency: string
+): Promise<number> {
+  const fromCurrency = transaction.currency || 'AED';
+  if (fromCurrency === toCurrency) return amount;
+
+  const fx = getTransactionFx(transaction);
+  let fromRate = fx?.rates[fromCurrency];
+  let toRate = fx?.rates[toCurrency];
+
+  if (!fromRate || !toRate) {
+    const daily = await getRatesForDate(fx?.date ?? transaction.transaction_date, [fromCurrency, toCurrency]);
+    fromRate = fromRate || daily.rates[fromCurrency];
+    toRate = toRate || daily.rates[toCurrency];
+  }
+
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate from ${fromCurrency} to ${toCurrency}`);
+  }
+
+  return roundAmount((amount / fromRate) * toRate);
+}
+
+/**
+ * Record exchange rates on existing transactions that don't have them yet,
+ * or only have a provisional snapshot from a nearby day. Transactions whose
+ * date has no better rates available are skipped and can be picked up by a
+ * later run.
+ */
+export async function backfillTransactionRates(options: {
+  baseCurrency?: string;
+  onProgress?: (processed: number, total: number) => void;
+} = {}): Promise<BackfillResult> {
+  const result: BackfillResult = { updated: 0, skipped: 0, failed: 0 };
+  const pending: Transaction[] = [];
+
+  let page = 1;
+  let hasMore = true;
+  while (hasMore) {
+    const response = await getTransactions({
+      page,
+      pageSize: BACKFILL_PAGE_SIZE,
+      sortBy: 'transaction_date',
+      sortOrder: 'asc',
+    });
+    pending.push(...response.data.filter((t) => {
+      const fx = getTransactionFx(t);
+      return !fx || fx.source === 'stored';
+    }));
+    hasMore = response.hasMore;
+    page += 1;
+  }
+
+  for (let i = 0; i < pending.length; i++) {
+    const transaction = pending[i];
+    try {
+      const fx = await buildFxSnapshot(
+        transaction.currency || 'AED',
+        transaction.transaction_date,
+        options.baseCurrency
+      );
+
+      // A provisional snapshot is only worth replacing with the date's own rates
+      const provisional = getTransactionFx(transaction) !== null;
+      if (fx && !(provisional && fx.source === 'stored')) {
+        await updateTransaction(transaction.id, {
+          metadata: { ...(transaction.metadata || {}), fx },
+        });
+        result.updated += 1;
+      } else {
+        result.skipped += 1;
+      }
+    } catch (error) {
+      logger.currency.warn(`Failed to backfill exchange rate for ${transaction.id}:`, error);
+      result.failed += 1;
+    }
+    options.onProgress?.(i + 1, pending.length);
+  }
+
+  logger.currency.info('Exchange rate backfill complete:', result);
+  return result;
+}
+
+export default {
+  getRatesForDate,
+  recordRates,
+  getRateHistory,
+  clearRateHistory,
+  buildFxSnapshot,
+  getTransactionFx,
+  convertAtTransactionRate,
+  backfillTransactionRates,
+};
@@ -0,0 +1,438 @@
+/**
+ * Exchange Rate Provider
+ * Single source of exchange rates for the app. Rates come from a chain of
+ * pluggable backends, are cached in AsyncStorage and fall back to a fixed
+ * fixture table when every backend fails, so offline dev mode and tests
+ * always see the same numbers.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { logger } from '@/utils/logger';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RateProvider {
+  /** Stable identifier, stored with cached rates and shown in settings */
+  id: string;
+  /** Latest rates as units of each currency per 1 unit of `base` */
+  fetchLatestRates(base: string): Promise<Record<string, number>>;
+  /** Rates for a past date (YYYY-MM-DD), for backends that keep history */
+  fetchHistoricalRates?(date: string, base: string): Promise<Record<string, number>>;
+}
+
+export interface RatesSnapshot {
+  base: string;
+  rates: Record<string, number>;
+  /** ID of the provider the rates came from */
+  provider: string;
+  /** When the rates were fetched (ms since epoch) */
+  fetchedAt: number;
+  /** True when no provider answered and the fixture table was used */
+  isFallback: boolean;
+}
+
+interface RatesCache {
+  rates: Record<string, number>;
+  baseCurrency: string;
+  timestamp: number;
+  provider?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const EXCHANGE_RATES_KEY = 'spendtrak_exchange_rates';
+export const RATES_CACHE_DURATION = 6 * 60 * 60 * 1000; // 6 hours
+
+// Fixture rates (USD as base) - updated January 2025
+const FIXTURE_RATES: Record<string, number> = {
+  USD: 1,
+  AED: 3.6725,
+  EUR: 0.92,
+  GBP: 0.79,
+  SAR: 3.75,
+  QAR: 3.64,
+  KWD: 0.31,
+  BHD: 0.377,
+  OMR: 0.385,
+  EGP: 30.9,
+  INR: 83.12,
+  PKR: 278.5,
+  JPY: 149.5,
+  CNY: 7.24,
+  CHF: 0.88,
+  CAD: 1.36,
+  AUD: 1.53,
+};
+
+// Gulf currencies are pegged to USD but missing from the ECB reference set
+const USD_PEGS: Record<string, number> = {
+  AED: 3.6725,
+  SAR: 3.75,
+  QAR: 3.64,
+  BHD: 0.376,
+  OMR: 0.3845,
+};
+
+// ============================================
+// RATE MATH
+// ============================================
+
+/**
+ * Express a rate table in another base currency
+ */
+export function rebaseRates(
+  rates: Record<string, number>,
+  fromBase: string,
+  toBase: string
+): Record<string, number> {
+  if (fromBase === toBase) return { ...rates };
+
+  const baseRate = rates[toBase];
+  if (!baseRate) {
+    throw new Error(`Exchange rate not found for ${toBase}`);
+  }
+
+  const rebased: Record<string, number> = { [fromBase]: 1 / baseRate };
+  for (const [currency, rate] of Object.entries(rates)) {
+    rebased[currency] = rate / baseRate;
+  }
+  rebased[toBase] = 1;
+  return rebased;
+}
+
+/**
+ * Rate to turn one unit of `fromCurrency` into `toCurrency`.
+ * Currencies missing from the table count as 1.
+ */
+export function getCrossRate(
+  fromCurrency: string,
+  toCurrency: string,
+  rates: Record<string, number>
+): number {
+  if (fromCurrency === toCurrency) return 1;
+
+  const fromRate = rates[fromCurrency] || 1;
+  const toRate = rates[toCurrency] || 1;
+
+  return toRate / fromRate;
+}
+
+/**
+ * Convert an amount using a rate table (amount -> base -> target)
+ */
+export function convertWithRates(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  rates: Record<string, number>
+): number {
+  if (fromCurrency === toCurrency) return amount;
+
+  const fromRate = rates[fromCurrency] || 1;
+  const toRate = rates[toCurrency] || 1;
+
+  return (amount / fromRate) * toRate;
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+async function fetchJson(url: string): Promise<unknown> {
+  const response = await fetch(url, { method: 'GET' });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch exchange rates: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Read the `rates` table from a `{ base, rates: { EUR: 0.92, ... } }` response.
+ * Throws when the shape changes so a provider's new payload can't turn into NaN rates.
+ */
+function readRatesResponse(data: unknown, providerId: string): Record<string, number> {
+  const rates = typeof data === 'object' && data !== null ? (data as { rates?: unknown }).rates : undefined;
+  if (typeof rates !== 'object' || rates === null || Array.isArray(rates)) {
+    throw new Error(`Invalid exchange rate response from ${providerId}`);
+  }
+
+  const table: Record<string, number> = {};
+  for (const [currency, rate] of Object.entries(rates)) {
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Invalid ${currency} rate from ${providerId}`);
+    }
+    table[currency] = rate;
+  }
+  return table;
+}
+
+/**
+ * exchangerate-api.com free tier: latest rates for ~160 currencies
+ */
+export const exchangeRateApiProvider: RateProvider = {
+  id: 'exchangerate-api',
+  async fetchLatestRates(base) {
+    const data = await fetchJson(`https://api.exchangerate-api.com/v4/latest/${base}`);
+    return readRatesResponse(data, 'exchangerate-api');
+  },
+};
+
+/**
+ * Frankfurter (ECB reference rates): business-day history back to 1999.
+ * Adds the USD-pegged Gulf currencies the ECB doesn't publish.
+ */
+export const frankfurterProvider: RateProvider = {
+  id: 'frankfurter',
+  async fetchLatestRates(base) {
+    return frankfurterRates('latest', base);
+  },
+  async fetchHistoricalRates(date, base) {
+    return frankfurterRates(date, base);
+  },
+};
+
+async function frankfurterRates(path: string, base: string): Promise<Record<string, number>> {
+  const data = await fetchJson(`https://api.frankfurter.app/${path}?from=${base}`);
+  const rates: Record<string, number> = { ...readRatesResponse(data, 'frankfurter'), [base]: 1 };
+
+  const usdPerBase = base === 'USD' ? 1 : rates.USD;
+  if (usdPerBase) {
+    for (const [currency, peg] of Object.entries(USD_PEGS)) {
+      if (!rates[currency]) rates[currency] = peg * usdPerBase;
+    }
+  }
+  return rates;
+}
+
+/**
+ * Deterministic provider backed by a fixed table (USD base).
+ * Returns the same rates for every date.
+ */
+export function createFixtureProvider(
+  rates: Record<string, number> = FIXTURE_RATES,
+  id = 'fixture'
+): RateProvider {
+  return {
+    id,
+    async fetchLatestRates(base) {
+      return rebaseRates(rates, 'USD', base);
+    },
+    async fetchHistoricalRates(_date, base) {
+      return rebaseRates(rates, 'USD', base);
+    },
+  };
+}
+
+export const fixtureRateProvider = createFixtureProvider();
+
+/**
+ * Get a copy of the fixture rate table (USD base)
+ */
+export function getFixtureRates(): Record<string, number> {
+  return { ...FIXTURE_RATES };
+}
+
+// Set EXPO_PUBLIC_FX_PROVIDER=fixture to run fully offline with fixed rates
+const defaultProviders = (): RateProvider[] =>
+  Constants.expoConfig?.extra?.fxProvider === 'fixture'
+    ? [fixtureRateProvider]
+    : [exchangeRateApiProvider, frankfurterProvider];
+
+let providers: RateProvider[] = defaultProviders();
+let lastSnapshot: RatesSnapshot | null = null;
+
+/**
+ * Replace the provider chain. Providers are tried in order.
+ */
+export function setRateProviders(chain: RateProvider[]): void {
+  providers = [...chain];
+  lastSnapshot = null;
+}
+
+/**
+ * Restore the default provider chain
+ */
+export function resetRateProviders(): void {
+  setRateProviders(defaultProviders());
+}
+
+export function getRateProviders(): RateProvider[] {
+  return [...providers];
+}
+
+// ============================================
+// CACHE
+// ============================================
+
+async function readCache(): Promise<RatesSnapshot | null> {
+  try {
+    const cached = await AsyncStorage.getItem(EXCHANGE_RATES_KEY);
+    if (!cached) return null;
+
+    const parsed: RatesCache = JSON.parse(cached);
+    return {
+      base: parsed.baseCurrency,
+      rates: parsed.rates,
+      provider: parsed.provider || 'cache',
+      fetchedAt: parsed.timestamp,
+      isFallback: false,
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(snapshot: RatesSnapshot): Promise<void> {
+  try {
+    const cache: RatesCache = {
+      rates: snapshot.rates,
+      baseCurrency: snapshot.base,
+      timestamp: snapshot.fetchedAt,
+      provider: snapshot.provider,
+    };
+    await AsyncStorage.setItem(EXCHANGE_RATES_KEY, JSON.stringify(cache));
+  } catch (error) {
+    logger.exchange.error('Error caching exchange rates:', error);
+  }
+}
+
+/**
+ * Whether a snapshot is older than the cache duration or came from the fixture fallback
+ */
+export function isSnapshotStale(snapshot: RatesSnapshot, now: number = Date.now()): boolean {
+  return snapshot.isFallback || now - snapshot.fetchedAt > RATES_CACHE_DURATION;
+}
+
+/**
+ * Most recent rates served in this session, if any
+ */
+export function getLastRatesSnapshot(): RatesSnapshot | null {
+  return lastSnapshot;
+}
+
+/**
+ * Clear the in-memory and persisted rate cache
+ */
+export async function clearRatesCache(): Promise<void> {
+  lastSnapshot = null;
+  try {
+    await AsyncStorage.removeItem(EXCHANGE_RATES_KEY);
+  } catch (error) {
+    logger.exchange.warn('Error clearing exchange rate cache:', error);
+  }
+}
+
+// ============================================
+// RATES
+// ============================================
+
+/**
+ * Get the latest rates for a base currency.
+ * Order: fresh in-memory rates, fresh cached rates, each provider in turn,
+ * stale cached rates, and finally the fixture table.
+ */
+export async function getRates(
+  base: string = 'USD',
+  options: { forceRefresh?: boolean } = {}
+): Promise<RatesSnapshot> {
+  // Ignore rates cached by a provider that's no longer in the chain
+  const isUsable = (snapshot: RatesSnapshot | null): snapshot is RatesSnapshot =>
+    !!snapshot &&
+    snapshot.base === base &&
+    !isSnapshotStale(snapshot) &&
+    (snapshot.provider === 'cache' || providers.some((provider) => provider.id === snapshot.provider));
+
+  if (!options.forceRefresh) {
+    if (isUsable(lastSnapshot)) return lastSnapshot;
+
+    const cached = await readCache();
+    if (isUsable(cached)) {
+      lastSnapshot = cached;
+      return cached;
+    }
+  }
+
+  for (const provider of providers) {
+    try {
+      const rates = await provider.fetchLatestRates(base);
+      const snapshot: RatesSnapshot = {
+        base,
+        rates,
+        provider: provider.id,
+        fetchedAt: Date.now(),
+        isFallback: false,
+      };
+      await writeCache(snapshot);
+      lastSnapshot = snapshot;
+      return snapshot;
+    } catch (error) {
+      logger.exchange.warn(`Exchange rate provider ${provider.id} failed:`, error);
+    }
+  }
+
+  // Offline: prefer stale real rates over the fixture table
+  const stale = await readCache();
+  if (stale) {
+    try {
+      const snapshot = { ...stale, base, rates: rebaseRates(stale.rates, stale.base, base) };
+      lastSnapshot = snapshot;
+      return snapshot;
+    } catch {
+      // Cached table doesn't include the requested base
+    }
+  }
+
+  logger.exchange.warn('All exchange rate providers failed, using fixture rates');
+  const fallback: RatesSnapshot = {
+    base,
+    rates: rebaseRates(FIXTURE_RATES, 'USD', base),
+    provider: fixtureRateProvider.id,
+    fetchedAt: Date.now(),
+    isFallback: true,
+  };
+  lastSnapshot = fallback;
+  return fallback;
+}
+
+/**
+ * Get rates for a past date from the first provider that keeps history.
+ * Throws when no provider can answer, so callers can decide how to fall back.
+ */
+export async function getHistoricalRates(
+  date: string,
+  base: string = 'USD'
+): Promise<{ rates: Record<string, number>; provider: string }> {
+  for (const provider of providers) {
+    if (!provider.fetchHistoricalRates) continue;
+
+    try {
+      const rates = await provider.fetchHistoricalRates(date, base);
+      return { rates, provider: provider.id };
+    } catch (error) {
+      logger.exchange.warn(`Historical rates from ${provider.id} failed for ${date}:`, error);
+    }
+  }
+
+  throw new Error(`No exchange rates available for ${date}`);
+}
+
+export default {
+  getRates,
+  getHistoricalRates,
+  getLastRatesSnapshot,
+  isSnapshotStale,
+  clearRatesCache,
+  setRateProviders,
+  resetRateProviders,
+  getRateProviders,
+  convertWithRates,
+  getCrossRate,
+  rebaseRates,
+  getFixtureRates,
+  createFixtureProvider,
+};
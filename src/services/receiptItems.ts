@@ -0,0 +1,497 @@
+/**
+ * Receipt Items Service
+ * Stores the line items of scanned receipts against their transaction and
+ * answers item-level questions: how much was spent on a product over a period
+ * and how its unit price compares between stores.
+ */
+
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+import { getDevCollection, setDevCollection } from './devStorage';
+import { resolveCategoryId } from './transactions';
+import { convertAtTransactionRate } from './rateHistory';
+import { getCategoryById } from '@/config/categories';
+import { useAuthStore } from '@/stores/authStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { isDevMode } from '@/utils/devMode';
+import { logger } from '@/utils/logger';
+import { RECEIPT_TO_TRANSACTION_CATEGORY, type ReceiptData } from '@/types/receipt';
+import type { ReceiptLineItem, ReceiptLineItemInsert, Transaction } from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SaveReceiptItemsOptions {
+  receiptScanId?: string | null;
+  /** Category for items the scanner could not categorize (usually the transaction's) */
+  fallbackCategoryId?: string | null;
+}
+
+export interface ItemDateRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ItemMerchantSpending {
+  merchant: string;
+  totalSpent: number;
+  quantity: number;
+  purchaseCount: number;
+  averageUnitPrice: number;
+}
+
+export interface ItemSpendingSummary {
+  query: string;
+  currency: string;
+  totalSpent: number;
+  quantity: number;
+  /** Number of receipts the item appeared on */
+  purchaseCount: number;
+  averageUnitPrice: number;
+  firstPurchase: string | null;
+  lastPurchase: string | null;
+  /** Distinct item names that matched the query, most frequent first */
+  matchedNames: string[];
+  byMerchant: ItemMerchantSpending[];
+}
+
+export interface ItemPricePoint {
+  date: string;
+  merchant: string;
+  name: string;
+  unitPrice: number;
+}
+
+export interface ItemMerchantPrice {
+  merchant: string;
+  averageUnitPrice: number;
+  minUnitPrice: number;
+  maxUnitPrice: number;
+  latestUnitPrice: number;
+  latestDate: string;
+  purchaseCount: number;
+}
+
+export interface ItemPriceTrend {
+  query: string;
+  currency: string;
+  /** One point per purchase, oldest first */
+  points: ItemPricePoint[];
+  byMerchant: ItemMerchantPrice[];
+  cheapestMerchant: string | null;
+  /** Percent change from the first to the latest unit price, null with fewer than two purchases */
+  changePercent: number | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const UNKNOWN_MERCHANT = 'Unknown';
+
+// Sizes and pack counts ("1.5L", "500 g", "6pk", "x2") vary between receipts for the same product
+const SIZE_PATTERN = /\b\d+(?:[.,]\d+)?\s*(?:ml|cl|ltr|l|kg|gm|g|oz|lbs|lb|pk|pack|pcs|pc|x)\b/g;
+const MULTIPLIER_PATTERN = /\bx\s*\d+\b/g;
+const NON_WORD_PATTERN = /[^a-z0-9\u00c0-\u024f\u0600-\u06ff]+/g;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Normalize an item name so the same product matches across receipts
+ * ("MILK FULL FAT 2L" and "Milk full-fat 1L" both become "milk full fat")
+ */
+export function normalizeItemName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(SIZE_PATTERN, ' ')
+    .replace(MULTIPLIER_PATTERN, ' ')
+    .replace(NON_WORD_PATTERN, ' ')
+    .split(' ')
+    .filter((token) => token && !/^\d+$/.test(token))
+    .join(' ');
+}
+
+/**
+ * Whether a normalized item name matches a search query.
+ * Every query word must appear as a whole word, ignoring a plural "s".
+ */
+export function matchesItemQuery(normalizedName: string, query: string): boolean {
+  const queryTokens = normalizeItemName(query).split(' ').filter(Boolean);
+  if (queryTokens.length === 0) return false;
+
+  const singular = (token: string) => (token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token);
+  const nameTokens = new Set(normalizedName.split(' ').map(singular));
+
+  return queryTokens.every((token) => nameTokens.has(singular(token)));
+}
+
+/**
+ * Turn the items of a scanned receipt into rows for the transaction they were saved as.
+ * Category IDs are app category slugs; the cloud path resolves them to UUIDs.
+ */
+export function buildReceiptLineItems(
+  transaction: Pick<Transaction, 'id' | 'user_id' | 'merchant_name' | 'transaction_date' | 'currency'>,
+  receipt: ReceiptData,
+  options: SaveReceiptItemsOptions = {}
+): ReceiptLineItemInsert[] {
+  return receipt.items
+    .filter((item) => item.name?.trim() && Number.isFinite(Number(item.total_price)))
+    .map((item, index) => {
+      const quantity = Number(item.quantity) > 0 ? Number(item.quantity) : 1;
+      const totalPrice = roundAmount(Number(item.total_price));
+      const unitPrice = Number(item.unit_price) > 0
+        ? roundAmount(Number(item.unit_price))
+        : roundAmount(totalPrice / quantity);
+
+      return {
+        user_id: transaction.user_id,
+        transaction_id: transaction.id,
+        receipt_scan_id: options.receiptScanId ?? null,
+        position: index,
+        name: item.name.trim(),
+        normalized_name: normalizeItemName(item.name),
+        quantity,
+        unit_price: unitPrice,
+        total_price: totalPrice,
+        currency: transaction.currency || receipt.currency || 'AED',
+        item_category: item.category ?? null,
+        category_id: item.category
+          ? RECEIPT_TO_TRANSACTION_CATEGORY[item.category] ?? options.fallbackCategoryId ?? null
+          : options.fallbackCategoryId ?? null,
+        merchant_name: transaction.merchant_name || receipt.merchant?.name || null,
+        purchase_date: transaction.transaction_date,
+      };
+    });
+}
+
+/**
+ * Total spending on the items matching a query. Amounts must already be in one currency.
+ */
+export function summarizeItemSpending(
+  items: ReceiptLineItem[],
+  query: string,
+  currency: string
+): ItemSpendingSummary {
+  const merchants = new Map<string, ItemMerchantSpending & { transactions: Set<string> }>();
+  const names = new Map<string, number>();
+  const transactions = new Set<string>();
+  let totalSpent = 0;
+  let quantity = 0;
+
+  for (const item of items) {
+    const merchant = item.merchant_name || UNKNOWN_MERCHANT;
+    const entry = merchants.get(merchant) || {
+      merchant,
+      totalSpent: 0,
+      quantity: 0,
+      purchaseCount: 0,
+      averageUnitPrice: 0,
+      transactions: new Set<string>(),
+    };
+
+    entry.totalSpent += Number(item.total_price);
+    entry.quantity += Number(item.quantity);
+    entry.transactions.add(item.transaction_id);
+    merchants.set(merchant, entry);
+
+    names.set(item.name, (names.get(item.name) || 0) + 1);
+    transactions.add(item.transaction_id);
+    totalSpent += Number(item.total_price);
+    quantity += Number(item.quantity);
+  }
+
+  const dates = items.map((item) => item.purchase_date).sort();
+
+  return {
+    query,
+    currency,
+    totalSpent: roundAmount(totalSpent),
+    quantity,
+    purchaseCount: transactions.size,
+    averageUnitPrice: quantity > 0 ? roundAmount(totalSpent / quantity) : 0,
+    firstPurchase: dates[0] ?? null,
+    lastPurchase: dates[dates.length - 1] ?? null,
+    matchedNames: Array.from(names.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([name]) => name),
+    byMerchant: Array.from(merchants.values())
+      .map(({ transactions: ids, ...entry }) => ({
+        ...entry,
+        totalSpent: roundAmount(entry.totalSpent),
+        purchaseCount: ids.size,
+        averageUnitPrice: entry.quantity > 0 ? roundAmount(entry.totalSpent / entry.quantity) : 0,
+      }))
+      .sort((a, b) => b.totalSpent - a.totalSpent),
+  };
+}
+
+/**
+ * Unit price history for the items matching a query, per purchase and per store.
+ * Amounts must already be in one currency.
+ */
+export function buildItemPriceTrend(
+  items: ReceiptLineItem[],
+  query: string,
+  currency: string
+): ItemPriceTrend {
+  const points: ItemPricePoint[] = items
+    .map((item) => ({
+      date: item.purchase_date,
+      merchant: item.merchant_name || UNKNOWN_MERCHANT,
+      name: item.name,
+      unitPrice: Number(item.unit_price),
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const merchants = new Map<string, ItemPricePoint[]>();
+  for (const point of points) {
+    merchants.set(point.merchant, [...(merchants.get(point.merchant) || []), point]);
+  }
+
+  const byMerchant: ItemMerchantPrice[] = Array.from(merchants.entries())
+    .map(([merchant, merchantPoints]) => {
+      const prices = merchantPoints.map((p) => p.unitPrice);
+      const latest = merchantPoints[merchantPoints.length - 1];
+      return {
+        merchant,
+        averageUnitPrice: roundAmount(prices.reduce((sum, p) => sum + p, 0) / prices.length),
+        minUnitPrice: Math.min(...prices),
+        maxUnitPrice: Math.max(...prices),
+        latestUnitPrice: latest.unitPrice,
+        latestDate: latest.date,
+        purchaseCount: merchantPoints.length,
+      };
+    })
+    .sort((a, b) => a.averageUnitPrice - b.averageUnitPrice);
+
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  return {
+    query,
+    currency,
+    points,
+    byMerchant,
+    cheapestMerchant: byMerchant[0]?.merchant ?? null,
+    changePercent: points.length > 1 && first.unitPrice > 0
+      ? roundAmount(((last.unitPrice - first.unitPrice) / first.unitPrice) * 100)
+      : null,
+  };
+}
+
+/**
+ * Resolve app category slugs on the rows to category UUIDs for the cloud
+ */
+async function resolveItemCategories(rows: ReceiptLineItemInsert[]): Promise<ReceiptLineItemInsert[]> {
+  const resolved = new Map<string, string | null>();
+
+  for (const row of rows) {
+    const slug = row.category_id;
+    if (!slug || resolved.has(slug)) continue;
+    resolved.set(slug, await resolveCategoryId(getCategoryById(slug)?.name ?? slug));
+  }
+
+  return rows.map((row) => ({
+    ...row,
+    category_id: row.category_id ? resolved.get(row.category_id) ?? null : null,
+  }));
+}
+
+/**
+ * Convert item prices to one currency at the rate for each purchase date
+ */
+async function convertItems(items: ReceiptLineItem[], currency: string): Promise<ReceiptLineItem[]> {
+  const converted: ReceiptLineItem[] = [];
+
+  for (const item of items) {
+    if ((item.currency || currency) === currency) {
+      converted.push(item);
+      continue;
+    }
+
+    const rateContext = { currency: item.currency, transaction_date: item.purchase_date, metadata: {} };
+    try {
+      converted.push({
+        ...item,
+        currency,
+        unit_price: await convertAtTransactionRate(Number(item.unit_price), rateContext, currency),
+        total_price: await convertAtTransactionRate(Number(item.total_price), rateContext, currency),
+      });
+    } catch (error) {
+      logger.receipt.warn(`Failed to convert ${item.currency} to ${currency}, using original amount`);
+      converted.push(item);
+    }
+  }
+
+  return converted;
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * Save the line items of a receipt for a transaction, replacing any saved before
+ */
+export async function saveReceiptItems(
+  transaction: Pick<Transaction, 'id' | 'user_id' | 'merchant_name' | 'transaction_date' | 'currency'>,
+  receipt: ReceiptData,
+  options: SaveReceiptItemsOptions = {}
+): Promise<ReceiptLineItem[]> {
+  const rows = buildReceiptLineItems(transaction, receipt, options);
+
+  if (isDevMode()) {
+    const now = new Date().toISOString();
+    const existing = await getDevCollection<ReceiptLineItem>('RECEIPT_ITEMS');
+    const items: ReceiptLineItem[] = rows.map((row) => ({
+      ...row,
+      id: Crypto.randomUUID(),
+      created_at: now,
+      updated_at: now,
+    }));
+
+    await setDevCollection('RECEIPT_ITEMS', [
+      ...existing.filter((item) => item.transaction_id !== transaction.id),
+      ...items,
+    ]);
+    logger.receipt.info(`Saved ${items.length} receipt items for transaction ${transaction.id}`);
+    return items;
+  }
+
+  await deleteReceiptItems(transaction.id);
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('receipt_items')
+    .insert(await resolveItemCategories(rows))
+    .select();
+
+  if (error) throw error;
+  logger.receipt.info(`Saved ${data?.length ?? 0} receipt items for transaction ${transaction.id}`);
+  return data || [];
+}
+
+/**
+ * Get the line items of a transaction in receipt order
+ */
+export async function getReceiptItems(transactionId: string): Promise<ReceiptLineItem[]> {
+  if (isDevMode()) {
+    const items = await getDevCollection<ReceiptLineItem>('RECEIPT_ITEMS');
+    return items
+      .filter((item) => item.transaction_id === transactionId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  const { data, error } = await supabase
+    .from('receipt_items')
+    .select('*')
+    .eq('transaction_id', transactionId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Delete the line items of a transaction
+ */
+export async function deleteReceiptItems(transactionId: string): Promise<void> {
+  if (isDevMode()) {
+    const items = await getDevCollection<ReceiptLineItem>('RECEIPT_ITEMS');
+    await setDevCollection('RECEIPT_ITEMS', items.filter((item) => item.transaction_id !== transactionId));
+    return;
+  }
+
+  const { error } = await supabase
+    .from('receipt_items')
+    .delete()
+    .eq('transaction_id', transactionId);
+
+  if (error) throw error;
+}
+
+/**
+ * Find line items matching a product query within a date range
+ */
+export async function searchReceiptItems(
+  query: string,
+  range: ItemDateRange = {}
+): Promise<ReceiptLineItem[]> {
+  const normalizedQuery = normalizeItemName(query);
+  if (!normalizedQuery) return [];
+
+  let items: ReceiptLineItem[];
+
+  if (isDevMode()) {
+    const userId = useAuthStore.getState().user?.id;
+    items = (await getDevCollection<ReceiptLineItem>('RECEIPT_ITEMS'))
+      .filter((item) => !userId || item.user_id === userId)
+      .filter((item) => (!range.startDate || item.purchase_date >= range.startDate)
+        && (!range.endDate || item.purchase_date <= range.endDate));
+  } else {
+    // Narrow on the first word server-side; whole-word matching happens below
+    let request = supabase
+      .from('receipt_items')
+      .select('*')
+      .ilike('normalized_name', `%${normalizedQuery.split(' ')[0].replace(/s$/, '')}%`);
+
+    if (range.startDate) request = request.gte('purchase_date', range.startDate);
+    if (range.endDate) request = request.lte('purchase_date', range.endDate);
+
+    const { data, error } = await request.order('purchase_date', { ascending: true });
+    if (error) throw error;
+    items = data || [];
+  }
+
+  return items.filter((item) => matchesItemQuery(item.normalized_name, normalizedQuery));
+}
+
+// ============================================
+// ANALYTICS
+// ============================================
+
+/**
+ * How much was spent on an item, e.g. getItemSpending('milk', { startDate: '2026-01-01' }).
+ * Amounts are in the user's currency.
+ */
+export async function getItemSpending(
+  query: string,
+  range: ItemDateRange = {}
+): Promise<ItemSpendingSummary> {
+  const currency = useSettingsStore.getState().currency || 'AED';
+  const items = await convertItems(await searchReceiptItems(query, range), currency);
+  return summarizeItemSpending(items, query, currency);
+}
+
+/**
+ * Unit price of an item over time and across stores, in the user's currency
+ */
+export async function getItemPriceTrend(
+  query: string,
+  range: ItemDateRange = {}
+): Promise<ItemPriceTrend> {
+  const currency = useSettingsStore.getState().currency || 'AED';
+  const items = await convertItems(await searchReceiptItems(query, range), currency);
+  return buildItemPriceTrend(items, query, currency);
+}
+
+export default {
+  normalizeItemName,
+  matchesItemQuery,
+  buildReceiptLineItems,
+  summarizeItemSpending,
+  buildItemPriceTrend,
+  saveReceiptItems,
+  getReceiptItems,
+  deleteReceiptItems,
+  searchReceiptItems,
+  getItemSpending,
+  getItemPriceTrend,
+};
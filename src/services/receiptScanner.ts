@@ -12,7 +12,14 @@ import * as FileSystemModule from 'expo-file-system';
 const FileSystem = FileSystemModule as any;
 import { logger } from '@/utils/logger';
 import { supabase } from './supabase';
-import type { ReceiptData, ReceiptScanResult, ReceiptScanOptions } from '@/types/receipt';
+import type {
+  ReceiptData,
+  ReceiptItem,
+  ReceiptPayment,
+  ReceiptScanResult,
+  ReceiptScanOptions,
+  ReceiptReconciliation,
+} from '@/types/receipt';
 import { getErrorMessage, isErrorWithName } from '@/utils/errors';
 import { getCurrentTier, hasPremiumAccess } from '@/stores/tierStore';
 
@@ -230,7 +237,8 @@ async function compressImage(uri: string): Promise<string> {
  */
 async function callGeminiAPI(
   base64Image: string,
-  timeout: number
+  timeout: number,
+  page?: { index: number; count: number }
 ): Promise<ReceiptData> {
   try {
     // Get current session for authentication
@@ -241,7 +249,7 @@ async function callGeminiAPI(
 
     // Call Edge Function with timeout using Promise.race
     const edgeFunctionPromise = supabase.functions.invoke('scan-receipt', {
-      body: { image: base64Image, mimeType: 'image/jpeg' },
+      body: { image: base64Image, mimeType: 'image/jpeg', ...(page && { page }) },
     });
 
     const timeoutPromise = new Promise<{ data: null; error: Error }>((resolve) =>
@@ -278,6 +286,91 @@ async function callGeminiAPI(
   }
 }
 
+type ExtractionOutcome =
+  | { success: true; data: ReceiptData; cached: boolean }
+  | { success: false; error: string };
+
+/**
+ * Extract receipt data from one image, with caching and retries.
+ * Does not check or track quota - callers count the scan once.
+ */
+async function extractReceiptData(
+  base64Image: string,
+  opts: Required<ReceiptScanOptions>,
+  page?: { index: number; count: number }
+): Promise<ExtractionOutcome> {
+  let lastError: Error | null = null;
+
+  // Check cache (cached results don't count against quota)
+  const cacheKey = page
+    ? `${generateCacheKey(base64Image)}#${page.index}/${page.count}`
+    : generateCacheKey(base64Image);
+  const cachedResult = getCachedResult(cacheKey);
+  if (cachedResult) {
+    return { success: true, data: cachedResult, cached: true };
+  }
+
+  // Retry logic with Edge Function
+  for (let attempt = 0; attempt <= opts.maxRetries; attempt++) {
+    try {
+      const result = await callGeminiAPI(base64Image, opts.timeout, page);
+
+      // Cache successful result
+      cacheResult(cacheKey, result);
+
+      return { success: true, data: result, cached: false };
+    } catch (error: unknown) {
+      lastError = error instanceof Error ? error : new Error(getErrorMessage(error));
+      logger.receipt.error(`Scan attempt ${attempt + 1} failed:`, getErrorMessage(error));
+
+      // Handle specific errors
+      const msg = getErrorMessage(error);
+      if (msg === 'RATE_LIMIT') {
+        // Exponential backoff for rate limits
+        const delay = Math.pow(2, attempt) * 1000;
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      if (msg === 'TIMEOUT') {
+        if (attempt < opts.maxRetries) {
+          continue; // Retry on timeout
+        }
+        return {
+          success: false,
+          error: 'Request timed out. Please try again.',
+        };
+      }
+
+      // Don't retry on other errors
+      if (attempt === opts.maxRetries) {
+        break;
+      }
+    }
+  }
+
+  // All retries exhausted
+  return {
+    success: false,
+    error: lastError?.message || 'Failed to scan receipt',
+  };
+}
+
+/**
+ * Quota check shared by all scan entry points
+ */
+function quotaExceededResult(): (ReceiptScanResult & { quotaExceeded: boolean }) | null {
+  const quotaCheck = checkScanQuota();
+  if (quotaCheck.allowed) return null;
+
+  logger.receipt.warn('Receipt scan quota exceeded');
+  return {
+    success: false,
+    error: quotaCheck.message || 'Receipt scan limit reached. Please upgrade to continue.',
+    quotaExceeded: true,
+  };
+}
+
 /**
  * Main receipt scanning function
  * Checks subscription quota before scanning
@@ -287,82 +380,30 @@ export async function scanReceipt(
   options: ReceiptScanOptions = {}
 ): Promise<ReceiptScanResult> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  let lastError: Error | null = null;
-  let base64Image: string;
 
   // Check subscription quota first
-  const quotaCheck = checkScanQuota();
-  if (!quotaCheck.allowed) {
-    logger.receipt.warn('Receipt scan quota exceeded');
-    return {
-      success: false,
-      error: quotaCheck.message || 'Receipt scan limit reached. Please upgrade to continue.',
-      quotaExceeded: true,
-    } as ReceiptScanResult & { quotaExceeded: boolean };
-  }
+  const quotaExceeded = quotaExceededResult();
+  if (quotaExceeded) return quotaExceeded;
 
   try {
     // Compress image before processing (reduces API costs and upload time)
     const compressedUri = opts.compressImage ? await compressImage(imageUri) : imageUri;
 
     // Convert URI to base64
-    base64Image = await uriToBase64(compressedUri);
+    const base64Image = await uriToBase64(compressedUri);
 
-    // Check cache (cached results don't count against quota)
-    const cacheKey = generateCacheKey(base64Image);
-    const cachedResult = getCachedResult(cacheKey);
-    if (cachedResult) {
-      return { success: true, data: cachedResult };
+    const outcome = await extractReceiptData(base64Image, opts);
+    if (!outcome.success) {
+      return { success: false, error: outcome.error };
     }
 
-    // Retry logic with Edge Function
-    for (let attempt = 0; attempt <= opts.maxRetries; attempt++) {
-      try {
-        const result = await callGeminiAPI(base64Image, opts.timeout);
-
-        // Track usage on successful scan
-        const usageResult = trackScanUsage();
-        logger.receipt.info(`Receipt scan successful. Remaining this month: ${usageResult.remaining}`);
-
-        // Cache successful result
-        cacheResult(cacheKey, result);
-
-        return { success: true, data: result };
-      } catch (error: unknown) {
-        lastError = error instanceof Error ? error : new Error(getErrorMessage(error));
-        logger.receipt.error(`Scan attempt ${attempt + 1} failed:`, getErrorMessage(error));
-
-        // Handle specific errors
-        const msg = getErrorMessage(error);
-        if (msg === 'RATE_LIMIT') {
-          // Exponential backoff for rate limits
-          const delay = Math.pow(2, attempt) * 1000;
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-
-        if (msg === 'TIMEOUT') {
-          if (attempt < opts.maxRetries) {
-            continue; // Retry on timeout
-          }
-          return {
-            success: false,
-            error: 'Request timed out. Please try again.',
-          };
-        }
-
-        // Don't retry on other errors
-        if (attempt === opts.maxRetries) {
-          break;
-        }
-      }
+    if (!outcome.cached) {
+      // Track usage on successful scan
+      const usageResult = trackScanUsage();
+      logger.receipt.info(`Receipt scan successful. Remaining this month: ${usageResult.remaining}`);
     }
 
-    // All retries exhausted
-    return {
-      success: false,
-      error: lastError?.message || 'Failed to scan receipt',
-    };
+    return { success: true, data: outcome.data };
   } catch (error: unknown) {
     logger.receipt.error('Receipt scan error:', error);
     return {
@@ -381,72 +422,199 @@ export async function scanReceiptFromBase64(
   options: ReceiptScanOptions = {}
 ): Promise<ReceiptScanResult> {
   const opts = { ...DEFAULT_OPTIONS, ...options, compressImage: false };
-  let lastError: Error | null = null;
 
   // Check subscription quota first
-  const quotaCheck = checkScanQuota();
-  if (!quotaCheck.allowed) {
-    logger.receipt.warn('Receipt scan quota exceeded');
-    return {
-      success: false,
-      error: quotaCheck.message || 'Receipt scan limit reached. Please upgrade to continue.',
-      quotaExceeded: true,
-    } as ReceiptScanResult & { quotaExceeded: boolean };
-  }
+  const quotaExceeded = quotaExceededResult();
+  if (quotaExceeded) return quotaExceeded;
 
   try {
-    // Check cache (cached results don't count against quota)
-    const cacheKey = generateCacheKey(base64Image);
-    const cachedResult = getCachedResult(cacheKey);
-    if (cachedResult) {
-      return { success: true, data: cachedResult };
+    const outcome = await extractReceiptData(base64Image, opts);
+    if (!outcome.success) {
+      return { success: false, error: outcome.error };
     }
 
-    // Retry logic
-    for (let attempt = 0; attempt <= opts.maxRetries; attempt++) {
-      try {
+    if (!outcome.cached) {
+      // Track usage on successful scan
+      const usageResult = trackScanUsage();
+      logger.receipt.info(`Receipt scan successful. Remaining this month: ${usageResult.remaining}`);
+    }
 
-        const result = await callGeminiAPI(base64Image, opts.timeout);
+    return { success: true, data: outcome.data };
+  } catch (error: unknown) {
+    logger.receipt.error('Receipt scan error:', error);
+    return {
+      success: false,
+      error: getErrorMessage(error) || 'Failed to process image',
+    };
+  }
+}
 
-        // Track usage on successful scan
-        const usageResult = trackScanUsage();
-        logger.receipt.info(`Receipt scan successful. Remaining this month: ${usageResult.remaining}`);
+// ==========================================
+// MULTI-PAGE RECEIPTS
+// ==========================================
 
-        // Cache successful result
-        cacheResult(cacheKey, result);
+export const MAX_RECEIPT_PAGES = 6;
 
-        return { success: true, data: result };
-      } catch (error: unknown) {
-        lastError = error instanceof Error ? error : new Error(getErrorMessage(error));
-        logger.receipt.error(`Scan attempt ${attempt + 1} failed:`, getErrorMessage(error));
+// Allowed gap between the summed items and the printed subtotal
+const RECONCILIATION_TOLERANCE = 0.05;
+// Confidence cap when the items don't add up to the payment section
+const UNBALANCED_CONFIDENCE = 0.6;
 
-        const msg = getErrorMessage(error);
-        if (msg === 'RATE_LIMIT') {
-          const delay = Math.pow(2, attempt) * 1000;
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
 
-        if (msg === 'TIMEOUT') {
-          if (attempt < opts.maxRetries) {
-            continue;
-          }
-          return {
-            success: false,
-            error: 'Request timed out. Please try again.',
-          };
-        }
+const firstPresent = <T>(values: Array<T | undefined | null>): T | undefined =>
+  values.find((value) => value !== undefined && value !== null && value !== '') ?? undefined;
 
-        if (attempt === opts.maxRetries) {
-          break;
-        }
-      }
+/** Identity of a line item for spotting the same line on two overlapping photos */
+const itemKey = (item: ReceiptItem): string =>
+  `${item.name.toLowerCase().replace(/[^a-z0-9]/g, '')}|${roundAmount(Number(item.total_price))}`;
+
+/**
+ * Number of items at the start of `next` that repeat the end of `existing`
+ * (consecutive photos of a long receipt usually overlap by a few lines)
+ */
+function overlapLength(existing: ReceiptItem[], next: ReceiptItem[]): number {
+  for (let size = Math.min(existing.length, next.length); size > 0; size--) {
+    const tail = existing.slice(existing.length - size);
+    if (tail.every((item, i) => itemKey(item) === itemKey(next[i]))) {
+      return size;
     }
+  }
+  return 0;
+}
+
+/**
+ * Merge the scans of consecutive pages/photos of one receipt.
+ * Items repeated where photos overlap are dropped, the payment section comes
+ * from the last page that has one, and the payment is reconciled against the
+ * summed items (missing subtotal/total are filled in; a mismatch lowers confidence).
+ */
+export function mergeReceiptPages(pages: ReceiptData[]): ReceiptData {
+  if (pages.length === 0) {
+    throw new Error('No receipt pages to merge');
+  }
 
+  const items: ReceiptItem[] = [];
+  let duplicatesRemoved = 0;
+  for (const page of pages) {
+    const pageItems = page.items || [];
+    const overlap = overlapLength(items, pageItems);
+    duplicatesRemoved += overlap;
+    items.push(...pageItems.slice(overlap));
+  }
+
+  // Totals are printed at the end, so prefer the last page that has them
+  const paymentPages = [...pages].reverse().map((page) => page.payment || ({} as ReceiptPayment));
+  const paymentPage = paymentPages.find((payment) => Number(payment.total) > 0) || paymentPages[0];
+  const pick = <K extends keyof ReceiptPayment>(key: K): ReceiptPayment[K] | undefined =>
+    firstPresent([paymentPage[key], ...paymentPages.map((payment) => payment[key])]);
+
+  const itemsTotal = roundAmount(items.reduce((sum, item) => sum + Number(item.total_price || 0), 0));
+  const tax = Number(pick('tax') || 0);
+  const tip = Number(pick('tip') || 0);
+  const discount = Number(pick('discount') || 0);
+  const subtotal = Number(paymentPage.subtotal) > 0 ? Number(paymentPage.subtotal) : itemsTotal;
+  const total = Number(paymentPage.total) > 0
+    ? Number(paymentPage.total)
+    : roundAmount(subtotal + tax + tip - discount);
+
+  // Tax-inclusive receipts list item prices that add up to the total instead of the subtotal
+  const balanced = Math.abs(itemsTotal - subtotal) <= RECONCILIATION_TOLERANCE
+    || Math.abs(itemsTotal - total) <= RECONCILIATION_TOLERANCE;
+  const reconciliation: ReceiptReconciliation = {
+    items_total: itemsTotal,
+    difference: roundAmount(itemsTotal - subtotal),
+    balanced,
+    duplicates_removed: duplicatesRemoved,
+  };
+
+  const confidence = Math.min(...pages.map((page) => Number(page.confidence_score ?? 0)));
+
+  if (!balanced) {
+    logger.receipt.warn(`Merged receipt items (${itemsTotal}) don't match subtotal (${subtotal})`);
+  }
+
+  return {
+    merchant: {
+      name: firstPresent(pages.map((page) => page.merchant?.name)) || '',
+      address: firstPresent(pages.map((page) => page.merchant?.address)),
+      phone: firstPresent(pages.map((page) => page.merchant?.phone)),
+    },
+    transaction: {
+      date: firstPresent(pages.map((page) => page.transaction?.date)) || '',
+      time: firstPresent(pages.map((page) => page.transaction?.time)),
+      receipt_number: firstPresent(pages.map((page) => page.transaction?.receipt_number)),
+    },
+    items,
+    payment: {
+      subtotal,
+      tax: pick('tax'),
+      tip: pick('tip'),
+      discount: pick('discount'),
+      total,
+      method: pick('method'),
+      card_last_four: pick('card_last_four'),
+    },
+    currency: firstPresent(pages.map((page) => page.currency)) || 'USD',
+    confidence_score: balanced ? confidence : Math.min(confidence, UNBALANCED_CONFIDENCE),
+    raw_text: pages.some((page) => page.raw_text)
+      ? pages.map((page) => page.raw_text || '').join('\n')
+      : undefined,
+    page_count: pages.length,
+    reconciliation,
+  };
+}
+
+/**
+ * Scan a receipt captured as several photos (long receipts, multi-page invoices).
+ * Pages are scanned in order and merged; the whole receipt counts as one scan.
+ */
+export async function scanReceiptPages(
+  imageUris: string[],
+  options: ReceiptScanOptions = {}
+): Promise<ReceiptScanResult> {
+  if (imageUris.length === 1) {
+    return scanReceipt(imageUris[0], options);
+  }
+  if (imageUris.length === 0 || imageUris.length > MAX_RECEIPT_PAGES) {
     return {
       success: false,
-      error: lastError?.message || 'Failed to scan receipt',
+      error: `A receipt needs between 1 and ${MAX_RECEIPT_PAGES} pages`,
     };
+  }
+
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+
+  // One quota check for the whole receipt
+  const quotaExceeded = quotaExceededResult();
+  if (quotaExceeded) return quotaExceeded;
+
+  try {
+    const pages: ReceiptData[] = [];
+    let scannedFresh = false;
+
+    for (let index = 0; index < imageUris.length; index++) {
+      const compressedUri = opts.compressImage ? await compressImage(imageUris[index]) : imageUris[index];
+      const base64Image = await uriToBase64(compressedUri);
+
+      const outcome = await extractReceiptData(base64Image, opts, { index: index + 1, count: imageUris.length });
+      if (!outcome.success) {
+        return { success: false, error: `Page ${index + 1}: ${outcome.error}` };
+      }
+
+      pages.push(outcome.data);
+      scannedFresh = scannedFresh || !outcome.cached;
+    }
+
+    const merged = mergeReceiptPages(pages);
+
+    if (scannedFresh) {
+      // Track usage once for the merged receipt
+      const usageResult = trackScanUsage();
+      logger.receipt.info(`${pages.length}-page receipt scan successful. Remaining this month: ${usageResult.remaining}`);
+    }
+
+    return { success: true, data: merged };
   } catch (error: unknown) {
     logger.receipt.error('Receipt scan error:', error);
     return {
@@ -479,6 +647,8 @@ export function getEstimatedScanCost(): number {
 export default {
   scanReceipt,
   scanReceiptFromBase64,
+  scanReceiptPages,
+  mergeReceiptPages,
   clearScanCache,
   getEstimatedScanCost,
   checkScanQuota,
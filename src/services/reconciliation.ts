@@ -0,0 +1,552 @@
+/**
+ * Transaction Reconciliation Service
+ * Fingerprints transactions from every source (email, receipt, manual, import),
+ * proposes merges for likely duplicates, and keeps a review queue
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuthStore } from '@/stores/authStore';
+import { logger } from '@/utils/logger';
+import { getMerchantKey } from '@/config/merchants';
+import type {
+  Transaction,
+  TransactionInsert,
+  TransactionUpdate,
+} from '@/types';
+import {
+  getTransactions,
+  createTransaction,
+  updateTransaction,
+  deleteTransaction,
+} from './transactions';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type IncomingTransaction = Omit<TransactionInsert, 'user_id'>;
+
+/** Minimal shape needed to fingerprint a transaction (stored or incoming) */
+type ReconcilableTransaction = Pick<
+  Transaction,
+  'amount' | 'currency' | 'merchant_name' | 'transaction_date' | 'card_last_four'
+> & Partial<Pick<Transaction, 'id' | 'merchant_name_clean' | 'metadata' | 'source'>>;
+
+export interface TransactionFingerprint {
+  amountCents: number;
+  currency: string;
+  date: string;
+  merchantKey: string;
+  cardLastFour: string | null;
+  bankId: string | null;
+}
+
+export type MatchReason =
+  | 'same_bank_id'
+  | 'amount_exact'
+  | 'amount_close'
+  | 'same_day'
+  | 'date_window'
+  | 'merchant_exact'
+  | 'merchant_similar'
+  | 'card_match';
+
+export interface DuplicateScore {
+  score: number;
+  reasons: MatchReason[];
+}
+
+export interface DuplicateMatch<T> extends DuplicateScore {
+  transaction: T;
+}
+
+export interface ReconciliationOptions {
+  /** Max days between the two transaction dates */
+  dateWindowDays: number;
+  /** Relative amount tolerance (0.02 = 2%) for tips and FX rounding */
+  amountTolerance: number;
+  /** Minimum score for a pair to be proposed */
+  minScore: number;
+}
+
+export const DEFAULT_RECONCILIATION_OPTIONS: ReconciliationOptions = {
+  dateWindowDays: 3,
+  amountTolerance: 0.02,
+  minScore: 0.6,
+};
+
+/**
+ * 'incoming' proposals hold a transaction that has not been inserted yet.
+ * 'existing' proposals pair two stored transactions (e.g. rows inserted by email webhooks).
+ */
+export type ReconciliationProposalKind = 'incoming' | 'existing';
+
+export interface ReconciliationProposal {
+  id: string;
+  kind: ReconciliationProposalKind;
+  /** The stored transaction that would be kept */
+  existing: Transaction;
+  /** Set for 'incoming' proposals */
+  incoming: IncomingTransaction | null;
+  /** Set for 'existing' proposals: the stored transaction that would be removed */
+  duplicate: Transaction | null;
+  score: number;
+  reasons: MatchReason[];
+  created_at: string;
+}
+
+export type ReconciliationResolution = 'merge' | 'keep_both' | 'discard';
+
+// Stored per user (see storageKey) so proposals don't follow an account switch
+const QUEUE_KEY = 'spendtrak_reconciliation_queue';
+const DISMISSED_KEY = 'spendtrak_reconciliation_dismissed';
+/** Transactions fetched per page when loading a matching window */
+const WINDOW_PAGE_SIZE = 1000;
+/** Days the background scan looks back for duplicates the email webhooks inserted */
+const RECENT_SCAN_DAYS = 7;
+/** Run the background scan at most this often */
+const RECENT_SCAN_INTERVAL_MS = 15 * 60 * 1000;
+
+let lastRecentScanAt = 0;
+
+/** Higher rank wins when merging fields from two sources */
+const SOURCE_RANK: Record<string, number> = {
+  receipt: 4,
+  manual: 3,
+  email: 2,
+  import: 1,
+};
+
+// ============================================
+// FINGERPRINTING
+// ============================================
+
+function getBankId(transaction: ReconcilableTransaction): string | null {
+  const importMeta = (transaction.metadata as { import?: { fit_id?: string | null } } | undefined)?.import;
+  return importMeta?.fit_id || null;
+}
+
+/**
+ * Build the fingerprint used for duplicate matching.
+ * Amounts are compared by absolute value: email imports store purchases as negatives.
+ */
+export function fingerprintTransaction(transaction: ReconcilableTransaction): TransactionFingerprint {
+  return {
+    amountCents: Math.round(Math.abs(Number(transaction.amount)) * 100),
+    currency: (transaction.currency || '').toUpperCase(),
+    date: transaction.transaction_date.split('T')[0],
+    merchantKey: getMerchantKey(transaction.merchant_name),
+    cardLastFour: transaction.card_last_four || null,
+    bankId: getBankId(transaction),
+  };
+}
+
+/**
+ * Similarity between two normalized merchant keys (0-1)
+ */
+export function merchantSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const compactA = a.replace(/\s/g, '');
+  const compactB = b.replace(/\s/g, '');
+  if (compactA === compactB) return 1;
+  if (compactA.startsWith(compactB) || compactB.startsWith(compactA)) return 0.9;
+
+  const tokensA = new Set(a.split(' '));
+  const tokensB = new Set(b.split(' '));
+  let shared = 0;
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared++;
+  });
+  const union = tokensA.size + tokensB.size - shared;
+  return union > 0 ? shared / union : 0;
+}
+
+function daysBetween(a: string, b: string): number {
+  const diff = Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime());
+  return Math.round(diff / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Score how likely two transactions are the same purchase.
+ * Returns null when a hard rule rules the pair out.
+ */
+export function scoreDuplicate(
+  a: ReconcilableTransaction,
+  b: ReconcilableTransaction,
+  options: ReconciliationOptions = DEFAULT_RECONCILIATION_OPTIONS
+): DuplicateScore | null {
+  const fa = fingerprintTransaction(a);
+  const fb = fingerprintTransaction(b);
+
+  // Bank ids are only unique within one account
+  if (fa.bankId && fb.bankId && !(fa.cardLastFour && fb.cardLastFour && fa.cardLastFour !== fb.cardLastFour)) {
+    return fa.bankId === fb.bankId ? { score: 1, reasons: ['same_bank_id'] } : null;
+  }
+
+  if (fa.currency && fb.currency && fa.currency !== fb.currency) return null;
+  if (fa.cardLastFour && fb.cardLastFour && fa.cardLastFour !== fb.cardLastFour) return null;
+
+  const dayGap = daysBetween(fa.date, fb.date);
+  if (dayGap > options.dateWindowDays) return null;
+
+  const largest = Math.max(fa.amountCents, fb.amountCents);
+  const amountGap = Math.abs(fa.amountCents - fb.amountCents);
+  if (largest === 0 || amountGap / largest > options.amountTolerance) return null;
+
+  const similarity = merchantSimilarity(fa.merchantKey, fb.merchantKey);
+  const cardMatch = !!fa.cardLastFour && fa.cardLastFour === fb.cardLastFour;
+
+  // Same amount on the same day is common; require the merchant or card to agree
+  if (similarity < 0.5 && !cardMatch) return null;
+
+  const reasons: MatchReason[] = [];
+  let score = 0;
+
+  if (amountGap === 0) {
+    score += 0.4;
+    reasons.push('amount_exact');
+  } else {
+    score += 0.3;
+    reasons.push('amount_close');
+  }
+
+  if (dayGap === 0) {
+    score += 0.25;
+    reasons.push('same_day');
+  } else {
+    score += 0.25 * (1 - dayGap / (options.dateWindowDays + 1));
+    reasons.push('date_window');
+  }
+
+  if (similarity === 1) {
+    score += 0.35;
+    reasons.push('merchant_exact');
+  } else if (similarity >= 0.5) {
+    score += 0.35 * similarity;
+    reasons.push('merchant_similar');
+  }
+
+  if (cardMatch) {
+    score += 0.1;
+    reasons.push('card_match');
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
+
+/**
+ * Whether a match is the same bank transaction (same FITID on the same
+ * account), which needs no review
+ */
+export function isSameBankTransaction(match: DuplicateScore): boolean {
+  return match.reasons.includes('same_bank_id');
+}
+
+/**
+ * Find stored transactions that look like duplicates of the candidate, best first
+ */
+export function findDuplicateCandidates<T extends ReconcilableTransaction>(
+  candidate: ReconcilableTransaction,
+  existing: T[],
+  options: ReconciliationOptions = DEFAULT_RECONCILIATION_OPTIONS
+): DuplicateMatch<T>[] {
+  const matches: DuplicateMatch<T>[] = [];
+
+  for (const transaction of existing) {
+    if (candidate.id && transaction.id === candidate.id) continue;
+    const result = scoreDuplicate(candidate, transaction, options);
+    if (result && result.score >= options.minScore) {
+      matches.push({ transaction, ...result });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+// ============================================
+// MERGING
+// ============================================
+
+/**
+ * Build the update that folds `other` into `primary`.
+ * Empty fields on the primary are filled in; the richer source wins for the merchant name.
+ */
+export function buildMergeUpdate(
+  primary: Transaction,
+  other: IncomingTransaction | Transaction
+): TransactionUpdate {
+  const update: TransactionUpdate = {};
+  const otherRanksHigher = (SOURCE_RANK[other.source] || 0) > (SOURCE_RANK[primary.source] || 0);
+
+  if (otherRanksHigher && other.merchant_name) {
+    update.merchant_name = other.merchant_name;
+  }
+  if (!primary.category_id && other.category_id) update.category_id = other.category_id;
+  if (!primary.transaction_time && other.transaction_time) update.transaction_time = other.transaction_time;
+  if (!primary.card_last_four && other.card_last_four) update.card_last_four = other.card_last_four;
+  if (!primary.bank_name && other.bank_name) update.bank_name = other.bank_name;
+  if (!primary.receipt_image_url && other.receipt_image_url) update.receipt_image_url = other.receipt_image_url;
+  if (other.is_recurring && !primary.is_recurring) update.is_recurring = true;
+
+  if (other.notes && other.notes !== primary.notes) {
+    update.notes = primary.notes ? `${primary.notes}\n${other.notes}` : other.notes;
+  }
+
+  const primaryMeta = primary.metadata || {};
+  const mergedSources = new Set<string>(
+    (primaryMeta.merged_sources as string[] | undefined) || [primary.source]
+  );
+  mergedSources.add(other.source);
+
+  const mergedFrom = [...((primaryMeta.merged_from as string[] | undefined) || [])];
+  if ('id' in other && other.id) mergedFrom.push(other.id);
+
+  update.metadata = {
+    ...(other.metadata || {}),
+    ...primaryMeta,
+    merged_sources: Array.from(mergedSources),
+    ...(mergedFrom.length > 0 ? { merged_from: mergedFrom } : {}),
+  };
+
+  return update;
+}
+
+// ============================================
+// REVIEW QUEUE STORAGE
+// ============================================
+
+function storageKey(base: string): string {
+  const userId = useAuthStore.getState().user?.id;
+  if (!userId) throw new Error('Not authenticated');
+  return `${base}_${userId}`;
+}
+
+/**
+ * Get pending reconciliation proposals, newest first
+ */
+export async function getReconciliationQueue(): Promise<ReconciliationProposal[]> {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(QUEUE_KEY));
+    const queue: ReconciliationProposal[] = stored ? JSON.parse(stored) : [];
+    return queue.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  } catch (error) {
+    logger.transaction.error('Failed to load reconciliation queue:', error);
+    return [];
+  }
+}
+
+async function saveQueue(queue: ReconciliationProposal[]): Promise<void> {
+  await AsyncStorage.setItem(storageKey(QUEUE_KEY), JSON.stringify(queue));
+}
+
+async function getDismissedPairs(): Promise<string[]> {
+  const stored = await AsyncStorage.getItem(storageKey(DISMISSED_KEY));
+  return stored ? JSON.parse(stored) : [];
+}
+
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join('|');
+}
+
+async function enqueue(proposal: Omit<ReconciliationProposal, 'id' | 'created_at'>): Promise<ReconciliationProposal> {
+  const queued: ReconciliationProposal = {
+    ...proposal,
+    id: `recon-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    created_at: new Date().toISOString(),
+  };
+  const queue = await getReconciliationQueue();
+  queue.push(queued);
+  await saveQueue(queue);
+  return queued;
+}
+
+/**
+ * Queue an incoming transaction for review against its best match
+ */
+export async function queueIncomingProposal(
+  incoming: IncomingTransaction,
+  match: DuplicateMatch<Transaction>
+): Promise<ReconciliationProposal> {
+  return enqueue({
+    kind: 'incoming',
+    existing: match.transaction,
+    incoming,
+    duplicate: null,
+    score: match.score,
+    reasons: match.reasons,
+  });
+}
+
+/**
+ * Remove all pending proposals
+ */
+export async function clearReconciliationQueue(): Promise<void> {
+  await AsyncStorage.removeItem(storageKey(QUEUE_KEY));
+}
+
+// ============================================
+// RECONCILIATION FLOWS
+// ============================================
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date.split('T')[0]}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+/**
+ * Load all stored transactions in a date range for matching
+ */
+export async function getTransactionsInWindow(startDate: string, endDate: string): Promise<Transaction[]> {
+  const transactions: Transaction[] = [];
+
+  for (let page = 1; ; page++) {
+    const response = await getTransactions({
+      startDate,
+      endDate,
+      page,
+      pageSize: WINDOW_PAGE_SIZE,
+      sortBy: 'transaction_date',
+      sortOrder: 'asc',
+    });
+    transactions.push(...response.data);
+    if (!response.hasMore || response.data.length === 0) break;
+  }
+
+  return transactions;
+}
+
+/**
+ * Find stored transactions that an incoming transaction likely duplicates, best first
+ */
+export async function findIncomingDuplicates(
+  incoming: IncomingTransaction,
+  options: ReconciliationOptions = DEFAULT_RECONCILIATION_OPTIONS
+): Promise<DuplicateMatch<Transaction>[]> {
+  const date = incoming.transaction_date || new Date().toISOString().split('T')[0];
+  const existing = await getTransactionsInWindow(
+    shiftDate(date, -options.dateWindowDays),
+    shiftDate(date, options.dateWindowDays)
+  );
+  return findDuplicateCandidates({ ...incoming, transaction_date: date }, existing, options);
+}
+
+/**
+ * Scan stored transactions for duplicate pairs that were inserted without review
+ * (e.g. by the email webhooks) and queue them. Returns the new proposals.
+ */
+export async function scanForDuplicates(
+  days: number = 30,
+  options: ReconciliationOptions = DEFAULT_RECONCILIATION_OPTIONS
+): Promise<ReconciliationProposal[]> {
+  const today = new Date().toISOString().split('T')[0];
+  const transactions = await getTransactionsInWindow(shiftDate(today, -days), today);
+
+  const [queue, dismissed] = await Promise.all([getReconciliationQueue(), getDismissedPairs()]);
+  const known = new Set(dismissed);
+  queue.forEach((p) => {
+    if (p.duplicate) known.add(pairKey(p.existing.id, p.duplicate.id));
+  });
+
+  const claimed = new Set<string>();
+  const created: ReconciliationProposal[] = [];
+
+  for (let i = 0; i < transactions.length; i++) {
+    const first = transactions[i];
+    if (claimed.has(first.id)) continue;
+
+    for (let j = i + 1; j < transactions.length; j++) {
+      const second = transactions[j];
+      if (daysBetween(first.transaction_date, second.transaction_date) > options.dateWindowDays) break;
+      if (claimed.has(second.id) || known.has(pairKey(first.id, second.id))) continue;
+
+      const result = scoreDuplicate(first, second, options);
+      if (!result || result.score < options.minScore) continue;
+
+      // Keep the older record; the newer one is the proposed duplicate
+      const [keep, drop] = first.created_at <= second.created_at ? [first, second] : [second, first];
+      created.push(await enqueue({
+        kind: 'existing',
+        existing: keep,
+        incoming: null,
+        duplicate: drop,
+        score: result.score,
+        reasons: result.reasons,
+      }));
+      claimed.add(first.id);
+      claimed.add(second.id);
+      break;
+    }
+  }
+
+  if (created.length > 0) {
+    logger.transaction.info(`Duplicate scan queued ${created.length} proposal(s)`);
+  }
+  return created;
+}
+
+/**
+ * Scan the last few days for duplicates the email webhooks inserted without
+ * review. Runs in the background when transactions load, at most every
+ * RECENT_SCAN_INTERVAL_MS.
+ */
+export async function scanRecentDuplicates(): Promise<ReconciliationProposal[]> {
+  if (Date.now() - lastRecentScanAt < RECENT_SCAN_INTERVAL_MS) return [];
+  lastRecentScanAt = Date.now();
+  return scanForDuplicates(RECENT_SCAN_DAYS);
+}
+
+/**
+ * Apply the user's decision for a queued proposal.
+ * Returns the transaction that remains (or was created), if any.
+ */
+export async function resolveProposal(
+  proposalId: string,
+  resolution: ReconciliationResolution
+): Promise<Transaction | null> {
+  const queue = await getReconciliationQueue();
+  const proposal = queue.find((p) => p.id === proposalId);
+  if (!proposal) throw new Error('Reconciliation proposal not found');
+
+  let result: Transaction | null = null;
+
+  if (proposal.kind === 'incoming' && proposal.incoming) {
+    if (resolution === 'merge') {
+      result = await updateTransaction(proposal.existing.id, buildMergeUpdate(proposal.existing, proposal.incoming));
+    } else if (resolution === 'keep_both') {
+      result = await createTransaction(proposal.incoming);
+    }
+  } else if (proposal.kind === 'existing' && proposal.duplicate) {
+    if (resolution === 'merge') {
+      result = await updateTransaction(proposal.existing.id, buildMergeUpdate(proposal.existing, proposal.duplicate));
+      await deleteTransaction(proposal.duplicate.id);
+    } else if (resolution === 'discard') {
+      await deleteTransaction(proposal.duplicate.id);
+      result = proposal.existing;
+    } else {
+      const dismissed = await getDismissedPairs();
+      dismissed.push(pairKey(proposal.existing.id, proposal.duplicate.id));
+      await AsyncStorage.setItem(storageKey(DISMISSED_KEY), JSON.stringify(dismissed));
+      result = proposal.existing;
+    }
+  }
+
+  await saveQueue(queue.filter((p) => p.id !== proposalId));
+  return result;
+}
+
+export default {
+  fingerprintTransaction,
+  scoreDuplicate,
+  findDuplicateCandidates,
+  buildMergeUpdate,
+  isSameBankTransaction,
+  findIncomingDuplicates,
+  scanForDuplicates,
+  scanRecentDuplicates,
+  getReconciliationQueue,
+  resolveProposal,
+  clearReconciliationQueue,
+};
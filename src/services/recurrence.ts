@@ -0,0 +1,9 @@
+/**
+ * Recurrence Engine
+ * RRULE-style schedules shared by bills, subscriptions and recurring income.
+ * The engine lives with the edge functions so the alert scheduler generates
+ * bill payments from exactly the same schedules as the app.
+ */
+
+export * from '../../supabase/functions/_shared/recurrence';
+export { default } from '../../supabase/functions/_shared/recurrence';
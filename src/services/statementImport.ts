@@ -0,0 +1,883 @@
+/**
+ * Statement Import Service
+ * Parses downloaded bank statements (CSV, OFX/QFX, QIF) into transactions,
+ * builds a preview, and commits the rows with source 'import'
+ */
+
+import { logger } from '@/utils/logger';
+import type { Transaction, TransactionInsert, TransactionType } from '@/types';
+import { createTransaction, getTransactions } from './transactions';
+import {
+  findDuplicateCandidates,
+  isSameBankTransaction,
+  getTransactionsInWindow,
+  queueIncomingProposal,
+  DEFAULT_RECONCILIATION_OPTIONS,
+  type ReconciliationProposal,
+} from './reconciliation';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** QFX is Quicken's branded OFX and is parsed as OFX */
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+/**
+ * Column mapping for CSV statements.
+ * Column values are zero-based indexes into each row.
+ * Either `amount` or at least one of `debit`/`credit` must be set.
+ */
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  currency?: number;
+  notes?: number;
+  dateFormat: StatementDateFormat;
+  decimalSeparator: '.' | ',';
+  /** Card statements list purchases as positive numbers */
+  invertSign: boolean;
+  hasHeader: boolean;
+  delimiter: string;
+}
+
+export interface StatementRow {
+  /** ISO date YYYY-MM-DD */
+  date: string;
+  /** Signed amount: negative = money out, positive = money in */
+  amount: number;
+  description: string;
+  memo: string | null;
+  currency: string | null;
+  /** Bank-assigned unique ID (OFX FITID), used to detect re-imports */
+  fitId: string | null;
+  checkNumber: string | null;
+  /** Raw bank transaction type (OFX TRNTYPE / QIF N field) */
+  rawType: string | null;
+}
+
+export interface StatementParseError {
+  line: number;
+  message: string;
+}
+
+export interface StatementParseResult {
+  format: StatementFormat;
+  rows: StatementRow[];
+  errors: StatementParseError[];
+  currency: string | null;
+  accountLastFour: string | null;
+  bankName: string | null;
+}
+
+export type StatementTransaction = Omit<TransactionInsert, 'user_id'>;
+
+export interface StatementPreviewItem {
+  row: StatementRow;
+  transaction: StatementTransaction;
+}
+
+export interface StatementPreview {
+  format: StatementFormat;
+  items: StatementPreviewItem[];
+  errors: StatementParseError[];
+  skippedCredits: number;
+  totalDebits: number;
+  totalCredits: number;
+  dateRange: { start: string; end: string } | null;
+}
+
+export interface StatementPreviewOptions {
+  /** Currency used when the statement doesn't specify one */
+  defaultCurrency: string;
+  /** Drop money-in rows (deposits, refunds) from the preview */
+  skipCredits?: boolean;
+  cardLastFour?: string | null;
+  bankName?: string | null;
+}
+
+export interface StatementImportResult {
+  imported: Transaction[];
+  /** Rows whose bank transaction id was already imported for the account, left out */
+  skipped: StatementPreviewItem[];
+  /** Rows that matched an existing transaction and wait in the reconciliation queue */
+  queued: ReconciliationProposal[];
+  failed: { item: StatementPreviewItem; error: string }[];
+}
+
+export interface StatementImportOptions {
+  /** Check rows against existing transactions before inserting (default true).
+   * Rows with a bank transaction id already imported are skipped either way. */
+  reconcile?: boolean;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// ============================================
+// FORMAT DETECTION
+// ============================================
+
+/**
+ * Detect statement format from the file name and content
+ */
+export function detectStatementFormat(content: string, fileName?: string): StatementFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+
+  const head = content.slice(0, 2048).trimStart();
+  if (/^OFXHEADER/i.test(head) || /<OFX>/i.test(head)) return 'ofx';
+  if (/^!(Type|Account|Option)/i.test(head)) return 'qif';
+  return 'csv';
+}
+
+// ============================================
+// VALUE PARSING HELPERS
+// ============================================
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += year < 70 ? 2000 : 1900;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return `${year}-${pad2(month)}-${pad2(day)}`;
+}
+
+/**
+ * Parse a statement date into YYYY-MM-DD.
+ * Accepts '/', '-', '.' and the QIF apostrophe year separator (1/5'24).
+ */
+export function parseStatementDate(value: string, format: StatementDateFormat): string | null {
+  const trimmed = value.trim().replace(/'/g, '/');
+  if (!trimmed) return null;
+
+  // ISO dates are unambiguous regardless of the configured format
+  const iso = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const parts = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (!parts) return null;
+
+  const first = Number(parts[1]);
+  const second = Number(parts[2]);
+  const year = Number(parts[3]);
+  return format === 'DD/MM/YYYY'
+    ? toIsoDate(year, second, first)
+    : toIsoDate(year, first, second);
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD[HHMMSS[.XXX]][TZ]) into YYYY-MM-DD
+ */
+export function parseOfxDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+}
+
+/**
+ * Parse a statement amount.
+ * Handles currency symbols, thousands separators, parentheses and trailing minus signs.
+ */
+export function parseStatementAmount(value: string, decimalSeparator: '.' | ',' = '.'): number | null {
+  let str = value.trim();
+  if (!str) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(str)) {
+    negative = true;
+    str = str.slice(1, -1);
+  }
+  if (str.endsWith('-')) {
+    negative = true;
+    str = str.slice(0, -1);
+  }
+  if (/\bDR$/i.test(str)) {
+    negative = true;
+    str = str.replace(/\s*DR$/i, '');
+  } else {
+    str = str.replace(/\s*CR$/i, '');
+  }
+
+  str = str.replace(/[^\d.,+-]/g, '');
+  str = decimalSeparator === ','
+    ? str.replace(/\./g, '').replace(',', '.')
+    : str.replace(/,/g, '');
+
+  if (str.startsWith('-')) {
+    negative = !negative;
+    str = str.slice(1);
+  } else if (str.startsWith('+')) {
+    str = str.slice(1);
+  }
+
+  if (!/^\d*\.?\d+$/.test(str)) return null;
+  const amount = parseFloat(str);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Guess the CSV delimiter from the first lines of the file
+ */
+export function detectCsvDelimiter(content: string): string {
+  const sample = content.split(/\r?\n/).slice(0, 5).join('\n');
+  const candidates = [',', ';', '\t', '|'];
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = sample.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split CSV content into rows of fields (RFC 4180 quoting)
+ */
+export function parseCsv(content: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+const HEADER_PATTERNS: Record<'date' | 'description' | 'amount' | 'debit' | 'credit' | 'currency' | 'notes', RegExp> = {
+  date: /^(transaction |posting |posted |value |booking )?date$|^date posted$|^datum$/i,
+  description: /description|merchant|payee|narrative|details|particulars|name/i,
+  amount: /^(transaction )?amount$|^value$|^betrag$/i,
+  debit: /debit|withdrawal|money out|paid out/i,
+  credit: /credit|deposit|money in|paid in/i,
+  currency: /^currency$|^ccy$/i,
+  notes: /memo|note|reference|remarks/i,
+};
+
+/**
+ * Suggest a column mapping from the CSV header row and a few sample rows.
+ * The user confirms or adjusts the mapping before parsing.
+ */
+export function suggestCsvMapping(content: string): CsvColumnMapping {
+  const delimiter = detectCsvDelimiter(content);
+  const rows = parseCsv(content, delimiter);
+  const header = rows[0] || [];
+
+  const hasHeader = header.length > 0 &&
+    header.every((cell) => parseStatementAmount(cell) === null && parseStatementDate(cell, 'MM/DD/YYYY') === null);
+
+  const findColumn = (pattern: RegExp, exclude: number[] = []): number | undefined => {
+    const index = header.findIndex((cell, i) => !exclude.includes(i) && pattern.test(cell.trim()));
+    return index >= 0 ? index : undefined;
+  };
+
+  const mapping: CsvColumnMapping = {
+    date: 0,
+    description: 1,
+    dateFormat: 'MM/DD/YYYY',
+    decimalSeparator: '.',
+    invertSign: false,
+    hasHeader,
+    delimiter,
+  };
+
+  if (hasHeader) {
+    mapping.date = findColumn(HEADER_PATTERNS.date) ?? findColumn(/date/i) ?? 0;
+    mapping.description = findColumn(HEADER_PATTERNS.description, [mapping.date]) ?? 1;
+    mapping.amount = findColumn(HEADER_PATTERNS.amount);
+    if (mapping.amount === undefined) {
+      mapping.debit = findColumn(HEADER_PATTERNS.debit);
+      mapping.credit = findColumn(HEADER_PATTERNS.credit);
+    }
+    mapping.currency = findColumn(HEADER_PATTERNS.currency);
+    mapping.notes = findColumn(HEADER_PATTERNS.notes, [mapping.description]);
+  } else {
+    mapping.amount = 2;
+  }
+
+  const samples = rows.slice(hasHeader ? 1 : 0, 20);
+
+  // Day-first dates are certain once any first component exceeds 12
+  const dateSamples = samples.map((r) => r[mapping.date] || '');
+  if (dateSamples.some((d) => /^\d{4}[-/.]/.test(d.trim()))) {
+    mapping.dateFormat = 'YYYY-MM-DD';
+  } else if (dateSamples.some((d) => Number(d.trim().split(/[-/.]/)[0]) > 12)) {
+    mapping.dateFormat = 'DD/MM/YYYY';
+  }
+
+  // European amounts use a comma decimal separator ("1.234,56" or "12,50")
+  const amountColumns = [mapping.amount, mapping.debit, mapping.credit].filter(
+    (c): c is number => c !== undefined
+  );
+  const amountSamples = samples.flatMap((r) => amountColumns.map((c) => r[c] || ''));
+  if (amountSamples.some((a) => /\d,\d{2}$/.test(a.trim())) && delimiter !== ',') {
+    mapping.decimalSeparator = ',';
+  }
+
+  return mapping;
+}
+
+/**
+ * Parse CSV statement content using a confirmed column mapping
+ */
+export function parseCsvStatement(content: string, mapping: CsvColumnMapping): StatementParseResult {
+  const rows = parseCsv(content, mapping.delimiter);
+  const result: StatementParseResult = {
+    format: 'csv',
+    rows: [],
+    errors: [],
+    currency: null,
+    accountLastFour: null,
+    bankName: null,
+  };
+
+  if (mapping.amount === undefined && mapping.debit === undefined && mapping.credit === undefined) {
+    result.errors.push({ line: 0, message: 'No amount column mapped' });
+    return result;
+  }
+
+  const startIndex = mapping.hasHeader ? 1 : 0;
+
+  for (let i = startIndex; i < rows.length; i++) {
+    const cells = rows[i];
+    const line = i + 1;
+    const cell = (index?: number): string => (index === undefined ? '' : (cells[index] || '').trim());
+
+    const date = parseStatementDate(cell(mapping.date), mapping.dateFormat);
+    if (!date) {
+      result.errors.push({ line, message: `Invalid date "${cell(mapping.date)}"` });
+      continue;
+    }
+
+    let amount: number | null = null;
+    if (mapping.amount !== undefined) {
+      amount = parseStatementAmount(cell(mapping.amount), mapping.decimalSeparator);
+    } else {
+      const debit = parseStatementAmount(cell(mapping.debit), mapping.decimalSeparator);
+      const credit = parseStatementAmount(cell(mapping.credit), mapping.decimalSeparator);
+      if (debit !== null && debit !== 0) {
+        amount = -Math.abs(debit);
+      } else if (credit !== null) {
+        amount = Math.abs(credit);
+      }
+    }
+
+    if (amount === null) {
+      result.errors.push({ line, message: 'Missing or invalid amount' });
+      continue;
+    }
+    if (mapping.invertSign) amount = -amount;
+
+    const description = collapseWhitespace(cell(mapping.description));
+    if (!description) {
+      result.errors.push({ line, message: 'Missing description' });
+      continue;
+    }
+
+    const notes = cell(mapping.notes);
+    const currency = cell(mapping.currency).toUpperCase();
+
+    result.rows.push({
+      date,
+      amount,
+      description,
+      memo: notes || null,
+      currency: /^[A-Z]{3}$/.test(currency) ? currency : null,
+      fitId: null,
+      checkNumber: null,
+      rawType: null,
+    });
+  }
+
+  return result;
+}
+
+// ============================================
+// OFX / QFX
+// ============================================
+
+/**
+ * Read the value of an OFX element.
+ * Works for both SGML (unclosed tags, OFX 1.x) and XML (OFX 2.x).
+ */
+function getOfxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return null;
+  const value = match[1].trim();
+  return value ? decodeOfxEntities(value) : null;
+}
+
+function decodeOfxEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse OFX/QFX statement content (bank and credit card statements)
+ */
+export function parseOfxStatement(content: string): StatementParseResult {
+  const result: StatementParseResult = {
+    format: 'ofx',
+    rows: [],
+    errors: [],
+    currency: getOfxValue(content, 'CURDEF')?.toUpperCase() || null,
+    accountLastFour: null,
+    bankName: getOfxValue(content, 'ORG'),
+  };
+
+  const accountId = getOfxValue(content, 'ACCTID');
+  if (accountId) {
+    const digits = accountId.replace(/\D/g, '');
+    result.accountLastFour = digits.length >= 4 ? digits.slice(-4) : null;
+  }
+
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+  if (blocks.length === 0 && !/<OFX>/i.test(content)) {
+    result.errors.push({ line: 0, message: 'Not a valid OFX file' });
+    return result;
+  }
+
+  blocks.forEach((rawBlock, index) => {
+    const block = rawBlock.split(/<\/STMTTRN>/i)[0];
+    const line = index + 1;
+
+    const date = parseOfxDate(getOfxValue(block, 'DTPOSTED') || getOfxValue(block, 'DTUSER') || '');
+    if (!date) {
+      result.errors.push({ line, message: 'Transaction is missing DTPOSTED' });
+      return;
+    }
+
+    const amount = parseStatementAmount(getOfxValue(block, 'TRNAMT') || '');
+    if (amount === null) {
+      result.errors.push({ line, message: 'Transaction is missing TRNAMT' });
+      return;
+    }
+
+    const name = getOfxValue(block, 'NAME') || getOfxValue(block, 'PAYEE');
+    const memo = getOfxValue(block, 'MEMO');
+    const description = collapseWhitespace(name || memo || '');
+    if (!description) {
+      result.errors.push({ line, message: 'Transaction has no NAME or MEMO' });
+      return;
+    }
+
+    const currency = getOfxValue(block, 'CURSYM') || getOfxValue(block, 'ORIGCURRENCY');
+
+    result.rows.push({
+      date,
+      amount,
+      description,
+      memo: memo && memo !== name ? collapseWhitespace(memo) : null,
+      currency: currency?.toUpperCase() || result.currency,
+      fitId: getOfxValue(block, 'FITID'),
+      checkNumber: getOfxValue(block, 'CHECKNUM'),
+      rawType: getOfxValue(block, 'TRNTYPE')?.toUpperCase() || null,
+    });
+  });
+
+  return result;
+}
+
+// ============================================
+// QIF
+// ============================================
+
+/**
+ * Parse QIF statement content.
+ * QIF has no date format marker, so the caller supplies the bank's convention.
+ */
+export function parseQifStatement(
+  content: string,
+  dateFormat: StatementDateFormat = 'MM/DD/YYYY'
+): StatementParseResult {
+  const result: StatementParseResult = {
+    format: 'qif',
+    rows: [],
+    errors: [],
+    currency: null,
+    accountLastFour: null,
+    bankName: null,
+  };
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let record: Record<string, string> = {};
+  let recordStart = 1;
+
+  const flush = () => {
+    if (Object.keys(record).length === 0) return;
+
+    const date = parseStatementDate(record.D || '', dateFormat);
+    const amount = parseStatementAmount(record.T || record.U || '');
+    const description = collapseWhitespace(record.P || record.M || '');
+
+    if (!date) {
+      result.errors.push({ line: recordStart, message: `Invalid date "${record.D || ''}"` });
+    } else if (amount === null) {
+      result.errors.push({ line: recordStart, message: 'Missing or invalid amount' });
+    } else if (!description) {
+      result.errors.push({ line: recordStart, message: 'Missing payee' });
+    } else {
+      const checkNumber = record.N && /^\d+$/.test(record.N) ? record.N : null;
+      result.rows.push({
+        date,
+        amount,
+        description,
+        memo: record.M && record.P ? collapseWhitespace(record.M) : null,
+        currency: null,
+        fitId: null,
+        checkNumber,
+        rawType: record.N && !checkNumber ? record.N.toUpperCase() : null,
+      });
+    }
+
+    record = {};
+  };
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      flush();
+      return;
+    }
+
+    if (line === '^') {
+      flush();
+      recordStart = index + 2;
+      return;
+    }
+
+    const code = line[0];
+    // Split lines (S/E/$) describe categories inside a transaction; the total is in T
+    if (code === 'S' || code === 'E' || code === '$') return;
+    if (Object.keys(record).length === 0) recordStart = index + 1;
+    record[code] = line.slice(1);
+  });
+
+  flush();
+  return result;
+}
+
+// ============================================
+// PARSE + PREVIEW
+// ============================================
+
+/**
+ * Parse a statement file of any supported format.
+ * CSV files need a mapping; when omitted the suggested mapping is used.
+ */
+export function parseStatement(
+  content: string,
+  options: { fileName?: string; csvMapping?: CsvColumnMapping; qifDateFormat?: StatementDateFormat } = {}
+): StatementParseResult {
+  const format = detectStatementFormat(content, options.fileName);
+
+  switch (format) {
+    case 'ofx':
+      return parseOfxStatement(content);
+    case 'qif':
+      return parseQifStatement(content, options.qifDateFormat);
+    case 'csv':
+    default:
+      return parseCsvStatement(content, options.csvMapping || suggestCsvMapping(content));
+  }
+}
+
+const OFX_TYPE_MAP: Record<string, TransactionType> = {
+  ATM: 'atm',
+  CASH: 'atm',
+  XFER: 'transfer',
+  DEP: 'transfer',
+  DIRECTDEP: 'transfer',
+  PAYMENT: 'payment',
+  REPEATPMT: 'payment',
+  DIRECTDEBIT: 'payment',
+};
+
+/**
+ * Map a statement row's bank type and direction to a transaction type
+ */
+function resolveTransactionType(row: StatementRow): TransactionType {
+  if (row.rawType && OFX_TYPE_MAP[row.rawType]) {
+    return OFX_TYPE_MAP[row.rawType];
+  }
+  if (/\b(ATM|CASH WITHDRAWAL)\b/i.test(row.description)) return 'atm';
+  return row.amount < 0 ? 'purchase' : 'refund';
+}
+
+/**
+ * Convert a parsed statement row into a transaction ready for createTransaction
+ */
+export function statementRowToTransaction(
+  row: StatementRow,
+  format: StatementFormat,
+  options: StatementPreviewOptions
+): StatementTransaction {
+  return {
+    amount: Math.round(Math.abs(row.amount) * 100) / 100,
+    currency: row.currency || options.defaultCurrency,
+    merchant_name: row.description,
+    merchant_name_clean: null,
+    category_id: null,
+    transaction_date: row.date,
+    transaction_time: null,
+    source: 'import',
+    card_last_four: options.cardLastFour || null,
+    bank_name: options.bankName || null,
+    receipt_image_url: null,
+    notes: row.memo,
+    transaction_type: resolveTransactionType(row),
+    is_recurring: false,
+    is_reviewed: false,
+    is_deleted: false,
+    deleted_at: null,
+    metadata: {
+      import: {
+        format,
+        direction: row.amount < 0 ? 'debit' : 'credit',
+        fit_id: row.fitId,
+        check_number: row.checkNumber,
+        raw_type: row.rawType,
+      },
+    },
+  };
+}
+
+/**
+ * Build an import preview from a parsed statement
+ */
+export function buildStatementPreview(
+  parsed: StatementParseResult,
+  options: StatementPreviewOptions
+): StatementPreview {
+  const previewOptions: StatementPreviewOptions = {
+    ...options,
+    defaultCurrency: parsed.currency || options.defaultCurrency,
+    cardLastFour: options.cardLastFour ?? parsed.accountLastFour,
+    bankName: options.bankName ?? parsed.bankName,
+  };
+
+  let skippedCredits = 0;
+  let totalDebits = 0;
+  let totalCredits = 0;
+  const items: StatementPreviewItem[] = [];
+
+  for (const row of parsed.rows) {
+    if (row.amount === 0) continue;
+
+    if (row.amount > 0) {
+      if (options.skipCredits) {
+        skippedCredits++;
+        continue;
+      }
+      totalCredits += row.amount;
+    } else {
+      totalDebits += Math.abs(row.amount);
+    }
+
+    items.push({ row, transaction: statementRowToTransaction(row, parsed.format, previewOptions) });
+  }
+
+  const dates = items.map((item) => item.row.date).sort();
+
+  return {
+    format: parsed.format,
+    items,
+    errors: parsed.errors,
+    skippedCredits,
+    totalDebits: Math.round(totalDebits * 100) / 100,
+    totalCredits: Math.round(totalCredits * 100) / 100,
+    dateRange: dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null,
+  };
+}
+
+// ============================================
+// COMMIT
+// ============================================
+
+/** Imported transactions fetched per page when looking up bank transaction ids */
+const IMPORTED_PAGE_SIZE = 1000;
+
+/**
+ * Create transactions for the previewed rows.
+ * Rows are inserted one at a time so a single bad row doesn't abort the import.
+ * Rows whose bank transaction id (OFX FITID) was already imported for the same
+ * account are skipped, so importing a statement twice adds nothing. Other rows
+ * that look like transactions already on file go to the reconciliation queue.
+ */
+export async function commitStatementImport(
+  items: StatementPreviewItem[],
+  options: StatementImportOptions = {}
+): Promise<StatementImportResult> {
+  const { reconcile = true, onProgress } = options;
+  const result: StatementImportResult = { imported: [], skipped: [], queued: [], failed: [] };
+
+  let importedBankIds = new Set<string>();
+  if (items.some((item) => getBankIdKey(item.transaction))) {
+    try {
+      importedBankIds = await getImportedBankIds();
+    } catch (error) {
+      logger.transaction.warn('Could not load imported bank transaction ids:', error);
+    }
+  }
+
+  // Load existing transactions once for the whole statement period
+  let existing: Transaction[] = [];
+  if (reconcile && items.length > 0) {
+    const dates = items.map((item) => item.row.date).sort();
+    const window = DEFAULT_RECONCILIATION_OPTIONS.dateWindowDays;
+    try {
+      existing = await getTransactionsInWindow(
+        shiftIsoDate(dates[0], -window),
+        shiftIsoDate(dates[dates.length - 1], window)
+      );
+    } catch (error) {
+      logger.transaction.warn('Could not load existing transactions for reconciliation:', error);
+    }
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const bankIdKey = getBankIdKey(item.transaction);
+    try {
+      const [match] = findDuplicateCandidates(item.transaction, existing);
+      if ((bankIdKey && importedBankIds.has(bankIdKey)) || (match && isSameBankTransaction(match))) {
+        result.skipped.push(item);
+      } else if (match) {
+        result.queued.push(await queueIncomingProposal(item.transaction, match));
+      } else {
+        const transaction = await createTransaction(item.transaction);
+        result.imported.push(transaction);
+        if (bankIdKey) importedBankIds.add(bankIdKey);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.transaction.warn(`Statement import row failed (${item.row.date} ${item.row.description}):`, message);
+      result.failed.push({ item, error: message });
+    }
+    onProgress?.(i + 1, items.length);
+  }
+
+  logger.transaction.info(
+    `Statement import complete: ${result.imported.length} imported, ${result.skipped.length} already imported, ` +
+      `${result.queued.length} queued for review, ${result.failed.length} failed`
+  );
+
+  return result;
+}
+
+/**
+ * Key a bank transaction id by its account (bank and card); FITIDs are only
+ * unique within one account
+ */
+function getBankIdKey(transaction: Pick<Transaction, 'bank_name' | 'card_last_four' | 'metadata'>): string | null {
+  const fitId = (transaction.metadata as { import?: { fit_id?: string | null } } | undefined)?.import?.fit_id;
+  if (!fitId) return null;
+  return [(transaction.bank_name || '').toLowerCase(), transaction.card_last_four || '', fitId].join('|');
+}
+
+/**
+ * Bank transaction id keys of every transaction imported so far
+ */
+async function getImportedBankIds(): Promise<Set<string>> {
+  const keys = new Set<string>();
+
+  for (let page = 1; ; page++) {
+    const response = await getTransactions({
+      source: 'import',
+      page,
+      pageSize: IMPORTED_PAGE_SIZE,
+      sortBy: 'transaction_date',
+      sortOrder: 'asc',
+    });
+    for (const transaction of response.data) {
+      const key = getBankIdKey(transaction);
+      if (key) keys.add(key);
+    }
+    if (!response.hasMore || response.data.length === 0) return keys;
+  }
+}
+
+function shiftIsoDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
+
+export default {
+  detectStatementFormat,
+  parseStatement,
+  parseCsv,
+  suggestCsvMapping,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement,
+  buildStatementPreview,
+  commitStatementImport,
+};
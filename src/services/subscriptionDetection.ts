@@ -0,0 +1,450 @@
+/**
+ * Subscription Detection Service
+ * Finds recurring charges in transaction history and proposes them as subscriptions.
+ * Charges are clustered by normalized merchant and amount, then the cadence
+ * (weekly/monthly/quarterly/yearly) is inferred from the gaps between them.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+import * as devStorage from './devStorage';
+import { addDays, daysBetween } from './recurrence';
+import {
+  calculateNextBillingDate,
+  createSubscription,
+  getSubscription,
+  getSubscriptions,
+  updateSubscription,
+} from './subscriptions';
+import { detectSubscription, getSubscriptionKey } from '@/config/subscriptions';
+import { useAuthStore } from '@/stores/authStore';
+import { isDevMode } from '@/utils/devMode';
+import { logger } from '@/utils/logger';
+import type { Subscription, SubscriptionFrequency, Transaction } from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ChargeTransaction = Pick<
+  Transaction,
+  'id' | 'merchant_name' | 'amount' | 'currency' | 'transaction_date' | 'transaction_type' | 'category_id'
+> & { type?: string };
+
+export interface PriceIncrease {
+  previousAmount: number;
+  currentAmount: number;
+  changePercent: number;
+  /** Date of the first charge at the new price */
+  effectiveDate: string;
+}
+
+export interface RecurringChargeCandidate {
+  /** Normalized merchant + currency, stable across runs */
+  key: string;
+  merchantName: string;
+  displayName: string;
+  amount: number;
+  currency: string;
+  frequency: SubscriptionFrequency;
+  intervalDays: number;
+  billingDay: number | null;
+  lastBillingDate: string;
+  nextBillingDate: string | null;
+  occurrences: number;
+  transactionIds: string[];
+  categoryId: string | null;
+  /** 0-1 */
+  confidence: number;
+  priceIncrease: PriceIncrease | null;
+  /** Set when the charge matches a subscription the user already tracks */
+  existingSubscriptionId: string | null;
+}
+
+export interface CadenceMatch {
+  frequency: SubscriptionFrequency;
+  intervalDays: number;
+  /** Share of gaps that fit the cadence (0-1) */
+  regularity: number;
+}
+
+export interface DetectionOptions {
+  /** Reference date for staleness and next billing dates (YYYY-MM-DD) */
+  today?: string;
+  /** Relative amount difference still treated as the same charge */
+  amountTolerance?: number;
+  minConfidence?: number;
+  existingSubscriptions?: Pick<Subscription, 'id' | 'merchant_name' | 'display_name' | 'status'>[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const CADENCES: { frequency: SubscriptionFrequency; days: number; tolerance: number; minOccurrences: number }[] = [
+  { frequency: 'weekly', days: 7, tolerance: 1, minOccurrences: 4 },
+  { frequency: 'monthly', days: 30.4, tolerance: 4, minOccurrences: 3 },
+  { frequency: 'quarterly', days: 91.3, tolerance: 8, minOccurrences: 2 },
+  { frequency: 'yearly', days: 365, tolerance: 15, minOccurrences: 2 },
+];
+
+const DEFAULT_AMOUNT_TOLERANCE = 0.1;
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+const DEFAULT_LOOKBACK_DAYS = 400;
+/** Price changes below this are treated as FX or rounding noise */
+const PRICE_CHANGE_THRESHOLD = 0.02;
+/** A price step up to this ratio can still continue the same subscription */
+const MAX_PRICE_STEP = 1.5;
+
+const DISMISSED_KEY = '@spendtrak:dismissed_recurring_charges';
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+function isCharge(transaction: ChargeTransaction): boolean {
+  if (transaction.type === 'income') return false;
+  if (transaction.transaction_type === 'refund' || transaction.transaction_type === 'transfer') return false;
+  return Number(transaction.amount) !== 0 && !!transaction.merchant_name;
+}
+
+const withinTolerance = (a: number, b: number, tolerance: number): boolean =>
+  Math.abs(a - b) <= Math.max(a, b) * tolerance;
+
+/**
+ * Infer the billing cadence from charge dates (sorted, one per day).
+ * Returns null unless most gaps fit one cadence.
+ */
+export function inferCadence(dates: string[]): CadenceMatch | null {
+  const intervals: number[] = [];
+  for (let i = 1; i < dates.length; i++) {
+    const gap = daysBetween(dates[i - 1], dates[i]);
+    if (gap > 0) intervals.push(gap);
+  }
+  if (intervals.length === 0) return null;
+
+  const typical = median(intervals);
+  const cadence = CADENCES.find((c) => Math.abs(typical - c.days) <= c.tolerance);
+  if (!cadence) return null;
+
+  const regular = intervals.filter((gap) => Math.abs(gap - cadence.days) <= cadence.tolerance).length;
+  // A median that only fits by averaging uneven gaps isn't a schedule
+  if (regular / intervals.length < 0.5) return null;
+
+  return {
+    frequency: cadence.frequency,
+    intervalDays: Math.round(typical),
+    regularity: regular / intervals.length,
+  };
+}
+
+/**
+ * Most recent price step up, if the current price is still in effect
+ */
+export function findPriceIncrease(amounts: number[], dates: string[]): PriceIncrease | null {
+  for (let i = amounts.length - 1; i > 0; i--) {
+    if (amounts[i] > amounts[i - 1] * (1 + PRICE_CHANGE_THRESHOLD)) {
+      return {
+        previousAmount: amounts[i - 1],
+        currentAmount: amounts[amounts.length - 1],
+        changePercent: round(((amounts[amounts.length - 1] - amounts[i - 1]) / amounts[i - 1]) * 100),
+        effectiveDate: dates[i],
+      };
+    }
+    if (amounts[i] < amounts[i - 1] * (1 - PRICE_CHANGE_THRESHOLD)) return null;
+  }
+  return null;
+}
+
+/**
+ * Split one merchant's charges into chains of similar amounts (chronological).
+ * Each charge joins the chain whose latest amount is closest within tolerance,
+ * then chains that follow on from each other at a higher price are merged so a
+ * price increase doesn't split the subscription.
+ */
+function chainCharges(charges: ChargeTransaction[], tolerance: number): ChargeTransaction[][] {
+  const chains: ChargeTransaction[][] = [];
+
+  for (const charge of charges) {
+    const amount = Math.abs(Number(charge.amount));
+    const chain = chains
+      .filter((c) => withinTolerance(Math.abs(Number(c[c.length - 1].amount)), amount, tolerance))
+      .sort((a, b) =>
+        Math.abs(Math.abs(Number(a[a.length - 1].amount)) - amount) -
+        Math.abs(Math.abs(Number(b[b.length - 1].amount)) - amount)
+      )[0];
+
+    if (chain) chain.push(charge);
+    else chains.push([charge]);
+  }
+
+  const merged: ChargeTransaction[][] = [];
+  for (const chain of chains) {
+    const previous = merged.find((candidate) => {
+      const last = candidate[candidate.length - 1];
+      const first = chain[0];
+      const step = Math.abs(Number(first.amount)) / Math.abs(Number(last.amount));
+      if (last.transaction_date >= first.transaction_date || step <= 1 || step > MAX_PRICE_STEP) return false;
+
+      // The gap to the first new-price charge should look like one more billing period
+      const cadence = inferCadence(candidate.map((c) => c.transaction_date)) ||
+        inferCadence(chain.map((c) => c.transaction_date));
+      if (!cadence) return false;
+      const expected = CADENCES.find((c) => c.frequency === cadence.frequency)!;
+      return Math.abs(daysBetween(last.transaction_date, first.transaction_date) - expected.days) <= expected.tolerance;
+    });
+
+    if (previous) previous.push(...chain);
+    else merged.push(chain);
+  }
+
+  return merged;
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\b\w/g, (char) => char.toUpperCase());
+}
+
+function buildCandidate(
+  key: string,
+  chain: ChargeTransaction[],
+  today: string
+): RecurringChargeCandidate | null {
+  // One charge per day; same-day duplicates don't add evidence
+  const byDate = new Map<string, ChargeTransaction>();
+  chain.forEach((charge) => byDate.set(charge.transaction_date, charge));
+  const charges = [...byDate.values()];
+
+  const dates = charges.map((c) => c.transaction_date);
+  const cadence = inferCadence(dates);
+  if (!cadence) return null;
+
+  const pattern = detectSubscription(charges[charges.length - 1].merchant_name);
+  const rules = CADENCES.find((c) => c.frequency === cadence.frequency)!;
+  // A known subscription service only needs one repeat to be believable
+  const minOccurrences = pattern ? 2 : rules.minOccurrences;
+  if (charges.length < minOccurrences) return null;
+
+  const last = charges[charges.length - 1];
+  // Stopped charging: more than one missed period since the last charge
+  if (daysBetween(last.transaction_date, today) > rules.days * 1.5 + rules.tolerance) return null;
+
+  const amounts = charges.map((c) => Math.abs(Number(c.amount)));
+  const priceIncrease = findPriceIncrease(amounts, dates);
+  const currentAmounts = priceIncrease
+    ? amounts.slice(dates.indexOf(priceIncrease.effectiveDate))
+    : amounts;
+  const mean = currentAmounts.reduce((sum, a) => sum + a, 0) / currentAmounts.length;
+  const spread = Math.sqrt(currentAmounts.reduce((sum, a) => sum + (a - mean) ** 2, 0) / currentAmounts.length);
+
+  const occurrenceScore = Math.min(1, (charges.length - 1) / 5);
+  const amountScore = 1 - Math.min(1, (spread / mean) * 10);
+  const confidence = Math.min(
+    0.99,
+    cadence.regularity * 0.45 + occurrenceScore * 0.25 + amountScore * 0.2 + (pattern ? 0.1 : 0)
+  );
+
+  const billingDay = cadence.frequency === 'weekly' ? null : Number(last.transaction_date.split('-')[2]);
+  const nextBillingDate = calculateNextBillingDate(
+    { frequency: cadence.frequency, billing_day: billingDay, next_billing_date: null, last_billing_date: last.transaction_date },
+    today
+  );
+
+  return {
+    key,
+    merchantName: last.merchant_name,
+    displayName: pattern?.displayName || titleCase(key.split('|')[0]),
+    amount: amounts[amounts.length - 1],
+    currency: last.currency,
+    frequency: cadence.frequency,
+    intervalDays: cadence.intervalDays,
+    billingDay,
+    lastBillingDate: last.transaction_date,
+    nextBillingDate,
+    occurrences: charges.length,
+    transactionIds: charges.map((c) => c.id),
+    categoryId: last.category_id,
+    confidence: round(confidence),
+    priceIncrease,
+    existingSubscriptionId: null,
+  };
+}
+
+/**
+ * Detect recurring charges in a list of transactions.
+ * Charges already tracked as subscriptions are only returned when their price went up.
+ */
+export function detectRecurringCharges(
+  transactions: ChargeTransaction[],
+  options: DetectionOptions = {}
+): RecurringChargeCandidate[] {
+  const today = options.today || new Date().toISOString().split('T')[0];
+  const tolerance = options.amountTolerance ?? DEFAULT_AMOUNT_TOLERANCE;
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+
+  const groups = new Map<string, ChargeTransaction[]>();
+  for (const transaction of transactions) {
+    if (!isCharge(transaction)) continue;
+    const merchantKey = getSubscriptionKey(transaction.merchant_name);
+    if (!merchantKey) continue;
+
+    const key = `${merchantKey}|${transaction.currency}`;
+    groups.set(key, [...(groups.get(key) || []), transaction]);
+  }
+
+  const tracked = new Map<string, string>();
+  for (const subscription of options.existingSubscriptions || []) {
+    if (subscription.status === 'cancelled' || subscription.status === 'expired') continue;
+    tracked.set(getSubscriptionKey(subscription.merchant_name), subscription.id);
+    if (subscription.display_name) tracked.set(getSubscriptionKey(subscription.display_name), subscription.id);
+  }
+
+  const candidates: RecurringChargeCandidate[] = [];
+  for (const [key, charges] of groups) {
+    charges.sort((a, b) => a.transaction_date.localeCompare(b.transaction_date));
+
+    for (const chain of chainCharges(charges, tolerance)) {
+      const candidate = buildCandidate(key, chain, today);
+      if (!candidate || candidate.confidence < minConfidence) continue;
+
+      candidate.existingSubscriptionId = tracked.get(key.split('|')[0]) ?? null;
+      if (candidate.existingSubscriptionId && !candidate.priceIncrease) continue;
+
+      candidates.push(candidate);
+    }
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+// ============================================
+// DATA ACCESS
+// ============================================
+
+async function getChargeHistory(since: string): Promise<ChargeTransaction[]> {
+  if (isDevMode()) {
+    const transactions = await devStorage.getDevTransactions();
+    return transactions.filter((t) => !t.is_deleted && t.transaction_date >= since);
+  }
+
+  const userId = useAuthStore.getState().user?.id;
+  if (!userId) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id, merchant_name, amount, currency, transaction_date, transaction_type, category_id')
+    .eq('user_id', userId)
+    .eq('is_deleted', false)
+    .gte('transaction_date', since)
+    .order('transaction_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Keys of proposals the user dismissed
+ */
+export async function getDismissedRecurringCharges(): Promise<string[]> {
+  try {
+    const stored = await AsyncStorage.getItem(DISMISSED_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Hide a proposal from future detection runs
+ */
+export async function dismissRecurringCharge(key: string): Promise<void> {
+  const dismissed = await getDismissedRecurringCharges();
+  if (!dismissed.includes(key)) {
+    await AsyncStorage.setItem(DISMISSED_KEY, JSON.stringify([...dismissed, key]));
+  }
+}
+
+/**
+ * Scan the last ~13 months of transactions for subscriptions the user isn't tracking yet
+ */
+export async function findRecurringCharges(
+  options: { minConfidence?: number; lookbackDays?: number } = {}
+): Promise<RecurringChargeCandidate[]> {
+  const today = new Date().toISOString().split('T')[0];
+  const [transactions, subscriptions, dismissed] = await Promise.all([
+    getChargeHistory(addDays(today, -(options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS))),
+    getSubscriptions(),
+    getDismissedRecurringCharges(),
+  ]);
+
+  const candidates = detectRecurringCharges(transactions, {
+    today,
+    minConfidence: options.minConfidence,
+    existingSubscriptions: subscriptions,
+  });
+
+  logger.general.info(`Recurring charge detection: ${candidates.length} candidates from ${transactions.length} transactions`);
+  return candidates.filter((candidate) => !dismissed.includes(candidate.key));
+}
+
+/**
+ * Save a proposal as a subscription, or update the tracked one after a price increase
+ */
+export async function acceptRecurringCharge(candidate: RecurringChargeCandidate): Promise<Subscription> {
+  const detection = {
+    detected_from: candidate.transactionIds,
+    interval_days: candidate.intervalDays,
+    price_increase: candidate.priceIncrease,
+  };
+
+  if (candidate.existingSubscriptionId) {
+    const existing = await getSubscription(candidate.existingSubscriptionId);
+    return updateSubscription(candidate.existingSubscriptionId, {
+      amount: candidate.amount,
+      last_billing_date: candidate.lastBillingDate,
+      next_billing_date: candidate.nextBillingDate,
+      metadata: { ...existing?.metadata, detection },
+    });
+  }
+
+  return createSubscription({
+    merchant_name: candidate.merchantName,
+    display_name: candidate.displayName,
+    icon: null,
+    category_id: candidate.categoryId,
+    amount: candidate.amount,
+    currency: candidate.currency,
+    frequency: candidate.frequency,
+    billing_day: candidate.billingDay,
+    next_billing_date: candidate.nextBillingDate,
+    last_billing_date: candidate.lastBillingDate,
+    trial_end_date: null,
+    status: 'active',
+    cancellation_url: null,
+    cancellation_instructions: null,
+    auto_detected: true,
+    detection_confidence: candidate.confidence,
+    last_used_at: null,
+    usage_count: 0,
+    notes: null,
+    metadata: { detection },
+  });
+}
+
+export default {
+  inferCadence,
+  findPriceIncrease,
+  detectRecurringCharges,
+  findRecurringCharges,
+  acceptRecurringCharge,
+  dismissRecurringCharge,
+  getDismissedRecurringCharges,
+};
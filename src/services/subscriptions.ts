@@ -13,11 +13,18 @@ import type {
   SubscriptionSummary,
   SubscriptionStatus,
   SubscriptionFrequency,
+  SubscriptionCharge,
+  SubscriptionChargeInsert,
+  Transaction,
+  AlertInsert,
 } from '@/types';
-import { detectSubscription, SUBSCRIPTION_PATTERNS } from '@/config/subscriptions';
+import { detectSubscription, getSubscriptionKey, SUBSCRIPTION_PATTERNS } from '@/config/subscriptions';
 import { useAuthStore } from '@/stores/authStore';
 import * as devStorage from './devStorage';
+import { createAlert } from './alerts';
+import { ruleFromFrequency, getOccurrences, getNextOccurrence, addDays } from './recurrence';
 import { isDevMode } from '@/utils/devMode';
+import { logger } from '@/utils/logger';
 
 /**
  * Get the current user ID (from Supabase or dev mode)
@@ -125,6 +132,11 @@ export async function createSubscription(
       subscriptionData.cancellation_instructions || pattern.cancellationInstructions || null;
   }
 
+  // Derive the next billing date from the billing cycle when not provided
+  if (!subscriptionData.next_billing_date) {
+    subscriptionData.next_billing_date = calculateNextBillingDate(subscriptionData);
+  }
+
   // In dev mode, save to local storage
   if (isDevMode()) {
     const mockSubscription: Subscription = {
@@ -140,6 +152,7 @@ export async function createSubscription(
       billing_day: subscriptionData.billing_day || null,
       next_billing_date: subscriptionData.next_billing_date || null,
       last_billing_date: subscriptionData.last_billing_date || null,
+      trial_end_date: subscriptionData.trial_end_date || null,
       status: subscriptionData.status || 'active',
       cancellation_url: subscriptionData.cancellation_url || null,
       cancellation_instructions: subscriptionData.cancellation_instructions || null,
@@ -321,6 +334,56 @@ export async function getUpcomingRenewals(days: number = 7): Promise<Subscriptio
   return data || [];
 }
 
+/**
+ * Calculate the next billing date on or after `from`, following the billing cycle
+ * from the last known billing date (or billing_day when there is no history)
+ */
+export function calculateNextBillingDate(
+  subscription: Pick<Subscription, 'frequency' | 'billing_day' | 'next_billing_date' | 'last_billing_date'>,
+  from: string = new Date().toISOString().split('T')[0]
+): string | null {
+  const anchor = subscription.last_billing_date || subscription.next_billing_date;
+  if (!anchor && !subscription.billing_day) return null;
+
+  const rule = ruleFromFrequency(subscription.frequency, anchor || from, {
+    dayOfMonth: subscription.billing_day,
+  });
+
+  // A charge on the last billing date itself doesn't count as the next one
+  const after = subscription.last_billing_date ? addDays(subscription.last_billing_date, 1) : from;
+  return getNextOccurrence(rule, after > from ? after : from);
+}
+
+/**
+ * Roll forward active subscriptions whose next billing date has passed.
+ * Returns the subscriptions that were updated.
+ */
+export async function refreshBillingDates(): Promise<Subscription[]> {
+  const today = new Date().toISOString().split('T')[0];
+  const subscriptions = await getSubscriptions('active');
+  const updated: Subscription[] = [];
+
+  for (const subscription of subscriptions) {
+    if (!subscription.next_billing_date || subscription.next_billing_date >= today) continue;
+
+    // Charges that happened since the stored next billing date
+    const rule = ruleFromFrequency(subscription.frequency, subscription.next_billing_date, {
+      dayOfMonth: subscription.billing_day,
+    });
+    const missed = getOccurrences(rule, subscription.next_billing_date, addDays(today, -1));
+    const lastBillingDate = missed[missed.length - 1] || subscription.next_billing_date;
+
+    updated.push(
+      await updateSubscription(subscription.id, {
+        last_billing_date: lastBillingDate,
+        next_billing_date: getNextOccurrence(rule, today),
+      })
+    );
+  }
+
+  return updated;
+}
+
 /**
  * Get unused subscriptions
  */
@@ -420,6 +483,362 @@ export function getCancellationInfo(merchantName: string): {
   };
 }
 
+// ============================================
+// PRICE HISTORY & CHARGE TRACKING
+// ============================================
+
+export type ChargeableTransaction = Pick<
+  Transaction,
+  'id' | 'merchant_name' | 'amount' | 'currency' | 'transaction_date' | 'transaction_type'
+> & { type?: string };
+
+export type SubscriptionChargeEvent = 'price_increase' | 'trial_converted';
+
+export interface TrackedCharge {
+  charge: SubscriptionCharge;
+  /** Subscription after the charge was applied */
+  subscription: Subscription;
+  events: SubscriptionChargeEvent[];
+}
+
+export interface ChargeTrackingResult {
+  charges: TrackedCharge[];
+  /** Subscriptions whose expected renewal never showed up */
+  missedRenewals: Subscription[];
+}
+
+/** Price changes below this are treated as FX or rounding noise */
+const PRICE_CHANGE_THRESHOLD = 0.02;
+/** Charges further than this multiple from the stored amount are other purchases */
+const MAX_CHARGE_RATIO = 3;
+/** Days after the expected renewal before a missing charge is reported */
+const RENEWAL_GRACE_DAYS: Record<SubscriptionFrequency, number> = {
+  weekly: 2,
+  monthly: 5,
+  quarterly: 7,
+  yearly: 10,
+};
+const TRACKING_LOOKBACK_DAYS = 45;
+
+const todayString = (): string => new Date().toISOString().split('T')[0];
+const roundPercent = (value: number): number => Math.round(value * 10000) / 100;
+
+function isSubscriptionCharge(transaction: ChargeableTransaction): boolean {
+  if (transaction.type === 'income') return false;
+  if (transaction.transaction_type === 'refund' || transaction.transaction_type === 'transfer') return false;
+  return Number(transaction.amount) !== 0 && !!transaction.merchant_name;
+}
+
+/**
+ * Find the active subscription a transaction pays for.
+ * Merchants are compared by normalized key; when a merchant has several plans
+ * the one closest in price wins.
+ */
+export function matchChargeToSubscription<T extends Pick<Subscription, 'merchant_name' | 'display_name' | 'amount' | 'currency' | 'status'>>(
+  transaction: ChargeableTransaction,
+  subscriptions: T[]
+): T | null {
+  if (!isSubscriptionCharge(transaction)) return null;
+
+  const key = getSubscriptionKey(transaction.merchant_name);
+  if (!key) return null;
+  const amount = Math.abs(Number(transaction.amount));
+
+  const candidates = subscriptions.filter((subscription) => {
+    if (subscription.status !== 'active' || subscription.currency !== transaction.currency) return false;
+    const keys = [subscription.merchant_name, subscription.display_name].map(getSubscriptionKey);
+    if (!keys.includes(key)) return false;
+    // Free plans (amount 0) accept any first paid charge
+    return subscription.amount <= 0
+      || (amount <= subscription.amount * MAX_CHARGE_RATIO && amount >= subscription.amount / MAX_CHARGE_RATIO);
+  });
+
+  return candidates.reduce<T | null>(
+    (best, subscription) =>
+      !best || Math.abs(subscription.amount - amount) < Math.abs(best.amount - amount) ? subscription : best,
+    null
+  );
+}
+
+/**
+ * Charges recorded against the current user's subscriptions, oldest first
+ */
+async function getRecordedCharges(subscriptionId?: string): Promise<SubscriptionCharge[]> {
+  if (isDevMode()) {
+    const charges = await devStorage.getDevCollection<SubscriptionCharge>('SUBSCRIPTION_CHARGES');
+    return charges
+      .filter((charge) => !subscriptionId || charge.subscription_id === subscriptionId)
+      .sort((a, b) => a.charged_on.localeCompare(b.charged_on));
+  }
+
+  let query = supabase
+    .from('subscription_charges')
+    .select('*')
+    .order('charged_on', { ascending: true });
+
+  if (subscriptionId) {
+    query = query.eq('subscription_id', subscriptionId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+}
+
+async function insertCharge(charge: SubscriptionChargeInsert): Promise<SubscriptionCharge> {
+  if (isDevMode()) {
+    const saved: SubscriptionCharge = {
+      ...charge,
+      id: `dev-subcharge-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      created_at: new Date().toISOString(),
+    };
+    const charges = await devStorage.getDevCollection<SubscriptionCharge>('SUBSCRIPTION_CHARGES');
+    await devStorage.setDevCollection('SUBSCRIPTION_CHARGES', [...charges, saved]);
+    return saved;
+  }
+
+  const { data, error } = await supabase
+    .from('subscription_charges')
+    .insert(charge)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Price history of a subscription (every matched charge, oldest first)
+ */
+export async function getPriceHistory(subscriptionId: string): Promise<SubscriptionCharge[]> {
+  return getRecordedCharges(subscriptionId);
+}
+
+/**
+ * Raise an alert for a subscription event. Alerts are best effort: a failure
+ * never stops the charge from being recorded.
+ */
+async function raiseSubscriptionAlert(
+  alert: Pick<AlertInsert, 'alert_type' | 'severity' | 'title' | 'message' | 'action_label' | 'related_entity_type' | 'related_entity_id' | 'data'>
+): Promise<void> {
+  try {
+    await createAlert({
+      ...alert,
+      action_url: null,
+      is_read: false,
+      is_dismissed: false,
+      is_actioned: false,
+      read_at: null,
+      expires_at: null,
+    });
+  } catch (error) {
+    logger.general.warn('Failed to create subscription alert:', error);
+  }
+}
+
+/**
+ * Record a transaction as a charge of a subscription.
+ * Updates the billing dates, raises a price_increase alert when the charge is
+ * above the stored amount and a trial_converted alert when a free trial turns
+ * into a paid plan. Returns null when the transaction was already recorded.
+ */
+export async function recordSubscriptionCharge(
+  subscription: Subscription,
+  transaction: ChargeableTransaction,
+  recorded?: SubscriptionCharge[]
+): Promise<TrackedCharge | null> {
+  const history = recorded
+    ? recorded.filter((charge) => charge.subscription_id === subscription.id)
+    : await getRecordedCharges(subscription.id);
+  if (history.some((charge) => charge.transaction_id === transaction.id)) return null;
+
+  const amount = Math.abs(Number(transaction.amount));
+  const chargedOn = transaction.transaction_date;
+  const previous = history[history.length - 1]?.amount ?? null;
+
+  const charge = await insertCharge({
+    user_id: subscription.user_id,
+    subscription_id: subscription.id,
+    transaction_id: transaction.id,
+    amount,
+    currency: transaction.currency,
+    charged_on: chargedOn,
+    previous_amount: previous,
+    change_percent: previous ? roundPercent(amount / previous - 1) : null,
+  });
+
+  const name = subscription.display_name || subscription.merchant_name;
+  const events: SubscriptionChargeEvent[] = [];
+  const updates: SubscriptionUpdate = {};
+
+  // A charge from the last day of the trial onwards is the first paid one
+  const trialEnded = !!subscription.trial_end_date && chargedOn >= addDays(subscription.trial_end_date, -1);
+
+  if (trialEnded) {
+    events.push('trial_converted');
+    updates.trial_end_date = null;
+    updates.amount = amount;
+    await raiseSubscriptionAlert({
+      alert_type: 'trial_converted',
+      severity: 'warning',
+      title: `${name} trial is now paid`,
+      message: `Your free trial of ${name} ended and you were charged ${transaction.currency} ${amount.toFixed(2)}`,
+      action_label: 'Manage subscription',
+      related_entity_type: 'subscription',
+      related_entity_id: subscription.id,
+      data: { subscription_id: subscription.id, amount, transaction_id: transaction.id, trial_end_date: subscription.trial_end_date },
+    });
+  } else if (!subscription.trial_end_date && subscription.amount > 0
+    && amount > subscription.amount * (1 + PRICE_CHANGE_THRESHOLD)) {
+    const changePercent = roundPercent(amount / subscription.amount - 1);
+    events.push('price_increase');
+    updates.amount = amount;
+    await raiseSubscriptionAlert({
+      alert_type: 'price_increase',
+      severity: 'warning',
+      title: `${name} price went up`,
+      message: `${name} charged you ${transaction.currency} ${amount.toFixed(2)} instead of ${transaction.currency} ${subscription.amount.toFixed(2)} (+${changePercent}%)`,
+      action_label: 'Manage subscription',
+      related_entity_type: 'subscription',
+      related_entity_id: subscription.id,
+      data: {
+        subscription_id: subscription.id,
+        previous_amount: subscription.amount,
+        new_amount: amount,
+        change_percent: changePercent,
+        transaction_id: transaction.id,
+      },
+    });
+  }
+
+  // Older charges found later only add to the history
+  if (!subscription.last_billing_date || chargedOn >= subscription.last_billing_date) {
+    updates.last_billing_date = chargedOn;
+    updates.next_billing_date = calculateNextBillingDate({ ...subscription, last_billing_date: chargedOn }, chargedOn);
+  }
+
+  const updated = Object.keys(updates).length > 0
+    ? await updateSubscription(subscription.id, updates)
+    : subscription;
+
+  return { charge, subscription: updated, events };
+}
+
+/**
+ * Match a single new transaction against the active subscriptions
+ */
+export async function trackSubscriptionCharge(transaction: ChargeableTransaction): Promise<TrackedCharge | null> {
+  if (!isSubscriptionCharge(transaction)) return null;
+
+  const subscription = matchChargeToSubscription(transaction, await getSubscriptions('active'));
+  return subscription ? recordSubscriptionCharge(subscription, transaction) : null;
+}
+
+/**
+ * Report subscriptions whose renewal never showed up.
+ * Only subscriptions with a charge history are checked: the expected renewal
+ * follows the last recorded charge, and each missed date is reported once.
+ */
+export async function checkMissedRenewals(
+  today: string = todayString(),
+  context?: { subscriptions: Subscription[]; charges: SubscriptionCharge[] }
+): Promise<Subscription[]> {
+  const subscriptions = context?.subscriptions ?? await getSubscriptions('active');
+  const charges = context?.charges ?? await getRecordedCharges();
+  const missed: Subscription[] = [];
+
+  for (const subscription of subscriptions) {
+    if (subscription.status !== 'active') continue;
+
+    const history = charges.filter((charge) => charge.subscription_id === subscription.id);
+    const lastCharge = history[history.length - 1];
+    if (!lastCharge) continue;
+
+    const expected = calculateNextBillingDate(
+      { ...subscription, last_billing_date: lastCharge.charged_on },
+      lastCharge.charged_on
+    );
+    if (!expected || addDays(expected, RENEWAL_GRACE_DAYS[subscription.frequency]) >= today) continue;
+    if (subscription.metadata?.missed_renewal_date === expected) continue;
+
+    const name = subscription.display_name || subscription.merchant_name;
+    await raiseSubscriptionAlert({
+      alert_type: 'missed_renewal',
+      severity: 'warning',
+      title: `${name} renewal not found`,
+      message: `Expected a ${subscription.currency} ${subscription.amount.toFixed(2)} charge from ${name} around ${expected}. Check whether the payment failed or the subscription ended.`,
+      action_label: 'Manage subscription',
+      related_entity_type: 'subscription',
+      related_entity_id: subscription.id,
+      data: { subscription_id: subscription.id, expected_date: expected, last_charge_date: lastCharge.charged_on },
+    });
+
+    missed.push(
+      await updateSubscription(subscription.id, {
+        metadata: { ...subscription.metadata, missed_renewal_date: expected },
+      })
+    );
+  }
+
+  return missed;
+}
+
+async function getRecentCharges(since: string): Promise<ChargeableTransaction[]> {
+  if (isDevMode()) {
+    const transactions = await devStorage.getDevTransactions();
+    return transactions.filter((t) => !t.is_deleted && t.transaction_date >= since);
+  }
+
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('id, merchant_name, amount, currency, transaction_date, transaction_type')
+    .eq('user_id', await getCurrentUserId())
+    .eq('is_deleted', false)
+    .gte('transaction_date', since)
+    .order('transaction_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Match recent transactions (including imported ones) to subscriptions,
+ * then report missed renewals
+ */
+export async function trackSubscriptionCharges(today: string = todayString()): Promise<ChargeTrackingResult> {
+  const [transactions, subscriptions, charges] = await Promise.all([
+    getRecentCharges(addDays(today, -TRACKING_LOOKBACK_DAYS)),
+    getSubscriptions('active'),
+    getRecordedCharges(),
+  ]);
+
+  const recordedIds = new Set(charges.map((charge) => charge.transaction_id));
+  const current = new Map<string, Subscription>(subscriptions.map((s) => [s.id, s]));
+  const tracked: TrackedCharge[] = [];
+
+  for (const transaction of transactions) {
+    if (recordedIds.has(transaction.id)) continue;
+
+    const subscription = matchChargeToSubscription(transaction, Array.from(current.values()));
+    if (!subscription) continue;
+
+    const result = await recordSubscriptionCharge(subscription, transaction, charges);
+    if (!result) continue;
+
+    charges.push(result.charge);
+    current.set(subscription.id, result.subscription);
+    tracked.push(result);
+  }
+
+  const missedRenewals = await checkMissedRenewals(today, {
+    subscriptions: Array.from(current.values()),
+    charges,
+  });
+
+  return { charges: tracked, missedRenewals };
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -482,8 +901,16 @@ export default {
   cancelSubscription,
   getSubscriptionSummary,
   getUpcomingRenewals,
+  calculateNextBillingDate,
+  refreshBillingDates,
   getUnusedSubscriptions,
   markAsUsed,
   generateCancellationEmail,
   getCancellationInfo,
+  matchChargeToSubscription,
+  getPriceHistory,
+  recordSubscriptionCharge,
+  trackSubscriptionCharge,
+  checkMissedRenewals,
+  trackSubscriptionCharges,
 };
@@ -0,0 +1,566 @@
+/**
+ * Tax Lot Service
+ * Tracks each purchase as its own lot. Sells close lots by FIFO, LIFO,
+ * highest cost or specific ID and record the realized gain of every lot
+ * sold; splits adjust open lots and reinvested dividends open new ones.
+ * The yearly gains report splits realized and unrealized gains into
+ * short and long term.
+ */
+
+import { supabase } from './supabase';
+import type {
+  TaxLot,
+  TaxLotInsert,
+  TaxLotSource,
+  LotDisposal,
+  LotDisposalInsert,
+  LotSelection,
+  LotSelectionMethod,
+  GainTerm,
+  GainsReport,
+  GainsTotals,
+  UnrealizedLotGain,
+  InvestmentHolding,
+  InvestmentTransaction,
+  RecordTransactionInput,
+} from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type LotHolding = Pick<
+  InvestmentHolding,
+  'id' | 'user_id' | 'symbol' | 'quantity' | 'cost_basis' | 'current_price' | 'currency' | 'created_at'
+>;
+
+export interface SaleDetails {
+  quantity: number;
+  price: number;
+  fees?: number;
+  date: string;
+  transaction_id?: string | null;
+}
+
+/** Lots chosen for a sell, worked out before the transaction is recorded */
+export interface PreparedSale {
+  lots: TaxLot[];
+  selections: LotSelection[];
+}
+
+const EPSILON = 1e-8;
+const HOLDING_FIELDS = 'id, user_id, symbol, quantity, cost_basis, current_price, currency, created_at';
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function getUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  return user.id;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundShares(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+/** Add years to a YYYY-MM-DD date; Feb 29 becomes Feb 28 */
+function addYears(date: string, years: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year + years, month, 0)).getUTCDate();
+  return new Date(Date.UTC(year + years, month - 1, Math.min(day, lastDay))).toISOString().split('T')[0];
+}
+
+function emptyTotals(): GainsTotals {
+  return { proceeds: 0, cost_basis: 0, gain: 0 };
+}
+
+/**
+ * Long term once held for more than a year: a lot bought on 2025-03-10
+ * is long term when sold on 2026-03-11 or later.
+ */
+export function gainTerm(acquiredDate: string, disposedDate: string): GainTerm {
+  return disposedDate > addYears(acquiredDate, 1) ? 'long' : 'short';
+}
+
+// ============================================
+// LOT MATH
+// ============================================
+
+const LOT_ORDER: Record<Exclude<LotSelectionMethod, 'specific_id'>, (a: TaxLot, b: TaxLot) => number> = {
+  fifo: (a, b) => a.acquired_date.localeCompare(b.acquired_date) || a.created_at.localeCompare(b.created_at),
+  lifo: (a, b) => b.acquired_date.localeCompare(a.acquired_date) || b.created_at.localeCompare(a.created_at),
+  highest_cost: (a, b) => b.cost_per_share - a.cost_per_share || a.acquired_date.localeCompare(b.acquired_date),
+};
+
+/**
+ * Pick the open lots a sell of `quantity` shares comes out of.
+ * With 'specific_id' the caller's selections are checked and used as given.
+ */
+export function selectLots(
+  lots: TaxLot[],
+  quantity: number,
+  method: LotSelectionMethod = 'fifo',
+  selections: LotSelection[] = []
+): LotSelection[] {
+  if (!(quantity > 0)) throw new Error('Quantity must be greater than zero');
+
+  const open = lots.filter((lot) => lot.remaining_quantity > EPSILON);
+
+  if (method === 'specific_id') {
+    const remaining = new Map(open.map((lot) => [lot.id, lot.remaining_quantity]));
+    let total = 0;
+    for (const selection of selections) {
+      const available = remaining.get(selection.lot_id);
+      if (available === undefined) throw new Error('Selected lot is not open');
+      if (!(selection.quantity > 0) || selection.quantity > available + EPSILON) {
+        throw new Error(`Selected lot has only ${available} shares left`);
+      }
+      remaining.set(selection.lot_id, available - selection.quantity);
+      total += selection.quantity;
+    }
+    if (Math.abs(total - quantity) > EPSILON) {
+      throw new Error('Selected lots must add up to the quantity sold');
+    }
+    return selections.map((selection) => ({ ...selection }));
+  }
+
+  const available = open.reduce((sum, lot) => sum + lot.remaining_quantity, 0);
+  if (quantity > available + EPSILON) {
+    throw new Error(`Not enough shares to sell: ${roundShares(available)} held`);
+  }
+
+  const picked: LotSelection[] = [];
+  let remaining = quantity;
+  for (const lot of [...open].sort(LOT_ORDER[method])) {
+    if (remaining <= EPSILON) break;
+    const take = Math.min(lot.remaining_quantity, remaining);
+    picked.push({ lot_id: lot.id, quantity: roundShares(take) });
+    remaining -= take;
+  }
+  return picked;
+}
+
+/**
+ * One disposal per lot sold. Proceeds net of fees are shared across the
+ * lots by quantity.
+ */
+export function disposeLots(
+  lots: TaxLot[],
+  selections: LotSelection[],
+  sale: SaleDetails
+): LotDisposalInsert[] {
+  const byId = new Map(lots.map((lot) => [lot.id, lot]));
+  const netPerShare = (sale.quantity * sale.price - (sale.fees || 0)) / sale.quantity;
+
+  return selections.map(({ lot_id, quantity }) => {
+    const lot = byId.get(lot_id);
+    if (!lot) throw new Error('Selected lot is not open');
+
+    const proceeds = roundCents(quantity * netPerShare);
+    const costBasis = roundCents(quantity * lot.cost_per_share);
+    return {
+      user_id: lot.user_id,
+      lot_id,
+      sell_transaction_id: sale.transaction_id ?? null,
+      symbol: lot.symbol,
+      quantity,
+      acquired_date: lot.acquired_date,
+      disposed_date: sale.date,
+      proceeds,
+      cost_basis: costBasis,
+      realized_gain: roundCents(proceeds - costBasis),
+      term: gainTerm(lot.acquired_date, sale.date),
+      currency: lot.currency,
+    };
+  });
+}
+
+/**
+ * Share counts and cost per share after a split; total cost is unchanged
+ */
+export function splitLot(
+  lot: Pick<TaxLot, 'quantity' | 'remaining_quantity' | 'cost_per_share'>,
+  ratio: number
+): Pick<TaxLot, 'quantity' | 'remaining_quantity' | 'cost_per_share'> {
+  return {
+    quantity: roundShares(lot.quantity * ratio),
+    remaining_quantity: roundShares(lot.remaining_quantity * ratio),
+    cost_per_share: roundShares(lot.cost_per_share / ratio),
+  };
+}
+
+/**
+ * Lot for the shares of a holding that no lot covers, such as a quantity
+ * entered on the holding itself or bought before lots were tracked. It is
+ * dated when the holding was created and carries the cost basis the
+ * holding's lots don't.
+ */
+export function openingLotFor(holding: LotHolding, lots: TaxLot[]): TaxLotInsert | null {
+  const open = lots.filter((lot) => lot.remaining_quantity > EPSILON);
+  const lotShares = open.reduce((sum, lot) => sum + lot.remaining_quantity, 0);
+  const lotCost = open.reduce((sum, lot) => sum + lot.remaining_quantity * lot.cost_per_share, 0);
+  const quantity = roundShares(holding.quantity - lotShares);
+
+  if (quantity <= EPSILON) return null;
+
+  return {
+    user_id: holding.user_id,
+    holding_id: holding.id,
+    investment_transaction_id: null,
+    symbol: holding.symbol.toUpperCase(),
+    source: 'opening_balance',
+    acquired_date: holding.created_at.split('T')[0],
+    quantity,
+    remaining_quantity: quantity,
+    cost_per_share: roundShares(Math.max(0, holding.cost_basis - lotCost) / quantity),
+    currency: holding.currency || 'USD',
+  };
+}
+
+/**
+ * Realized gains for the year and unrealized gains on open lots at current
+ * prices, each split into short and long term
+ */
+export function buildGainsReport(
+  lots: TaxLot[],
+  disposals: LotDisposal[],
+  holdings: LotHolding[],
+  year: number,
+  today: Date = new Date()
+): GainsReport {
+  const todayString = today.toISOString().split('T')[0];
+  const realized = disposals
+    .filter((d) => d.disposed_date.startsWith(`${year}-`))
+    .sort((a, b) => a.disposed_date.localeCompare(b.disposed_date) || a.symbol.localeCompare(b.symbol));
+
+  const shortTerm = emptyTotals();
+  const longTerm = emptyTotals();
+  for (const disposal of realized) {
+    const totals = disposal.term === 'long' ? longTerm : shortTerm;
+    totals.proceeds += disposal.proceeds;
+    totals.cost_basis += disposal.cost_basis;
+    totals.gain += disposal.realized_gain;
+  }
+
+  // Lots without a holding are priced from any holding of the same symbol
+  const holdingsById = new Map(holdings.map((h) => [h.id, h]));
+  const holdingsBySymbol = new Map(holdings.map((h) => [h.symbol.toUpperCase(), h]));
+  const openLots: Array<TaxLot | (TaxLotInsert & { id: string })> = [...lots];
+  for (const holding of holdings) {
+    const opening = openingLotFor(holding, lots.filter((lot) => lot.holding_id === holding.id));
+    if (opening) openLots.push({ ...opening, id: `opening-${holding.id}` });
+  }
+
+  const unrealized: UnrealizedLotGain[] = [];
+  for (const lot of openLots) {
+    if (lot.remaining_quantity <= EPSILON) continue;
+    const holding = (lot.holding_id && holdingsById.get(lot.holding_id)) || holdingsBySymbol.get(lot.symbol);
+    if (!holding) continue;
+
+    const costBasis = roundCents(lot.remaining_quantity * lot.cost_per_share);
+    const marketValue = roundCents(lot.remaining_quantity * holding.current_price);
+    unrealized.push({
+      lot_id: lot.id,
+      symbol: lot.symbol,
+      acquired_date: lot.acquired_date,
+      quantity: lot.remaining_quantity,
+      cost_basis: costBasis,
+      market_value: marketValue,
+      unrealized_gain: roundCents(marketValue - costBasis),
+      term: gainTerm(lot.acquired_date, todayString),
+    });
+  }
+  unrealized.sort((a, b) => a.symbol.localeCompare(b.symbol) || a.acquired_date.localeCompare(b.acquired_date));
+
+  const unrealizedTotal = (term: GainTerm) =>
+    roundCents(unrealized.filter((u) => u.term === term).reduce((sum, u) => sum + u.unrealized_gain, 0));
+  const round = (totals: GainsTotals): GainsTotals => ({
+    proceeds: roundCents(totals.proceeds),
+    cost_basis: roundCents(totals.cost_basis),
+    gain: roundCents(totals.gain),
+  });
+
+  return {
+    year,
+    realized,
+    unrealized,
+    short_term: round(shortTerm),
+    long_term: round(longTerm),
+    unrealized_short_term: unrealizedTotal('short'),
+    unrealized_long_term: unrealizedTotal('long'),
+    total_realized_gain: roundCents(shortTerm.gain + longTerm.gain),
+    total_unrealized_gain: roundCents(unrealizedTotal('short') + unrealizedTotal('long')),
+  };
+}
+
+// ============================================
+// LOTS
+// ============================================
+
+/**
+ * Get tax lots, oldest first
+ */
+export async function getTaxLots(options: {
+  holdingId?: string;
+  symbol?: string;
+  openOnly?: boolean;
+} = {}): Promise<TaxLot[]> {
+  const userId = await getUserId();
+
+  let query = supabase
+    .from('tax_lots')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (options.holdingId) {
+    query = query.eq('holding_id', options.holdingId);
+  }
+  if (options.symbol) {
+    query = query.eq('symbol', options.symbol.toUpperCase());
+  }
+  if (options.openOnly) {
+    query = query.gt('remaining_quantity', 0);
+  }
+
+  const { data, error } = await query.order('acquired_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Lots a transaction draws on: the holding's lots, or lots of the symbol
+ * recorded without a holding
+ */
+async function getLotsFor(userId: string, holdingId: string | null | undefined, symbol: string): Promise<TaxLot[]> {
+  let query = supabase
+    .from('tax_lots')
+    .select('*')
+    .eq('user_id', userId);
+
+  query = holdingId
+    ? query.eq('holding_id', holdingId)
+    : query.eq('symbol', symbol.toUpperCase()).is('holding_id', null);
+
+  const { data, error } = await query.order('acquired_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Open a lot for a buy, transfer in or reinvested dividend.
+ * Cost defaults to the transaction amount plus fees.
+ */
+export async function openLot(
+  transaction: InvestmentTransaction,
+  source: TaxLotSource = 'buy',
+  lot: { quantity?: number; cost?: number } = {}
+): Promise<TaxLot> {
+  const quantity = lot.quantity ?? transaction.quantity;
+  const cost = lot.cost ?? transaction.quantity * transaction.price + (transaction.fees || 0);
+
+  if (!(quantity > 0)) throw new Error('Quantity must be greater than zero');
+
+  const insert: TaxLotInsert = {
+    user_id: transaction.user_id,
+    holding_id: transaction.holding_id,
+    investment_transaction_id: transaction.id,
+    symbol: transaction.symbol.toUpperCase(),
+    source,
+    acquired_date: transaction.transaction_date,
+    quantity: roundShares(quantity),
+    remaining_quantity: roundShares(quantity),
+    cost_per_share: roundShares(cost / quantity),
+    currency: transaction.currency || 'USD',
+  };
+
+  const { data, error } = await supabase
+    .from('tax_lots')
+    .insert(insert)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Choose the lots a sell comes out of. Throws when the lots can't cover it,
+ * so nothing is recorded. Returns null when the position has no lots.
+ */
+export async function prepareSale(
+  input: Pick<RecordTransactionInput, 'holding_id' | 'symbol' | 'quantity' | 'lot_method' | 'lot_selections'>
+): Promise<PreparedSale | null> {
+  const userId = await getUserId();
+  const lots = await getLotsFor(userId, input.holding_id, input.symbol);
+
+  if (input.holding_id) {
+    const { data: holding, error } = await supabase
+      .from('investment_holdings')
+      .select(HOLDING_FIELDS)
+      .eq('id', input.holding_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const opening = holding ? openingLotFor(holding, lots) : null;
+    if (opening) {
+      const { data, error: insertError } = await supabase
+        .from('tax_lots')
+        .insert(opening)
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+      lots.push(data);
+    }
+  }
+
+  if (lots.length === 0) return null;
+
+  return {
+    lots,
+    selections: selectLots(lots, input.quantity, input.lot_method, input.lot_selections),
+  };
+}
+
+/**
+ * Record the disposals of a prepared sell and reduce the lots it came from
+ */
+export async function recordSale(
+  transaction: InvestmentTransaction,
+  sale: PreparedSale
+): Promise<LotDisposal[]> {
+  const disposals = disposeLots(sale.lots, sale.selections, {
+    quantity: transaction.quantity,
+    price: transaction.price,
+    fees: transaction.fees,
+    date: transaction.transaction_date,
+    transaction_id: transaction.id,
+  });
+
+  const { data, error } = await supabase
+    .from('lot_disposals')
+    .insert(disposals)
+    .select();
+
+  if (error) throw error;
+
+  const lotsById = new Map(sale.lots.map((lot) => [lot.id, lot]));
+  for (const selection of sale.selections) {
+    const lot = lotsById.get(selection.lot_id)!;
+    const { error: updateError } = await supabase
+      .from('tax_lots')
+      .update({
+        remaining_quantity: Math.max(0, roundShares(lot.remaining_quantity - selection.quantity)),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', lot.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return data || [];
+}
+
+/**
+ * Adjust the open lots acquired on or before a split. Returns the number of
+ * lots adjusted.
+ */
+export async function applySplit(
+  input: Pick<RecordTransactionInput, 'holding_id' | 'symbol' | 'transaction_date'>,
+  ratio: number
+): Promise<number> {
+  if (!(ratio > 0)) throw new Error('Split ratio must be greater than zero');
+
+  const userId = await getUserId();
+  const lots = (await getLotsFor(userId, input.holding_id, input.symbol)).filter(
+    (lot) => lot.remaining_quantity > EPSILON && lot.acquired_date <= input.transaction_date
+  );
+
+  for (const lot of lots) {
+    const { error } = await supabase
+      .from('tax_lots')
+      .update({ ...splitLot(lot, ratio), updated_at: new Date().toISOString() })
+      .eq('id', lot.id);
+
+    if (error) throw error;
+  }
+
+  return lots.length;
+}
+
+// ============================================
+// GAINS REPORT
+// ============================================
+
+/**
+ * Get lot disposals, newest first
+ */
+export async function getLotDisposals(options: {
+  year?: number;
+  symbol?: string;
+} = {}): Promise<LotDisposal[]> {
+  const userId = await getUserId();
+
+  let query = supabase
+    .from('lot_disposals')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (options.year) {
+    query = query
+      .gte('disposed_date', `${options.year}-01-01`)
+      .lte('disposed_date', `${options.year}-12-31`);
+  }
+  if (options.symbol) {
+    query = query.eq('symbol', options.symbol.toUpperCase());
+  }
+
+  const { data, error } = await query.order('disposed_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Realized and unrealized gains for a tax year
+ */
+export async function getGainsReport(year: number = new Date().getFullYear()): Promise<GainsReport> {
+  const userId = await getUserId();
+
+  const [lots, disposals, holdings] = await Promise.all([
+    getTaxLots({ openOnly: true }),
+    getLotDisposals({ year }),
+    supabase
+      .from('investment_holdings')
+      .select(HOLDING_FIELDS)
+      .eq('user_id', userId)
+      .eq('is_active', true),
+  ]);
+
+  if (holdings.error) throw holdings.error;
+
+  return buildGainsReport(lots, disposals, holdings.data || [], year);
+}
+
+export default {
+  getTaxLots,
+  openLot,
+  prepareSale,
+  recordSale,
+  applySplit,
+  getLotDisposals,
+  getGainsReport,
+  selectLots,
+  disposeLots,
+  buildGainsReport,
+};
@@ -10,8 +10,11 @@ import type {
   TransactionSplitInsert,
   TransactionSplitUpdate,
   Transaction,
+  ReceiptLineItem,
 } from '@/types';
 
+type ItemSplit = { category_id: string; amount: number; notes?: string };
+
 /**
  * Get all splits for a transaction
  */
@@ -144,6 +147,80 @@ export async function splitTransaction(
   return data || [];
 }
 
+/**
+ * Work out category splits from receipt line items.
+ * Items are grouped by category and scaled so tax, tips and discounts are
+ * shared proportionally and the splits add up to the transaction amount
+ * (rounding residue goes to the largest split). Uncategorized items use
+ * the fallback category.
+ */
+export function allocateItemSplits(
+  items: Array<Pick<ReceiptLineItem, 'name' | 'category_id' | 'total_price'>>,
+  transactionAmount: number,
+  fallbackCategoryId: string | null = null
+): ItemSplit[] {
+  const groups = new Map<string, { total: number; names: string[] }>();
+
+  for (const item of items) {
+    const categoryId = item.category_id || fallbackCategoryId;
+    const price = Number(item.total_price);
+    if (!categoryId || !(price > 0)) continue;
+
+    const group = groups.get(categoryId) || { total: 0, names: [] };
+    group.total += price;
+    group.names.push(item.name);
+    groups.set(categoryId, group);
+  }
+
+  const itemsTotal = Array.from(groups.values()).reduce((sum, g) => sum + g.total, 0);
+  if (itemsTotal <= 0 || transactionAmount <= 0) return [];
+
+  const splits = Array.from(groups.entries())
+    .map(([category_id, group]) => ({
+      category_id,
+      amount: Math.round((group.total / itemsTotal) * transactionAmount * 100) / 100,
+      notes: group.names.length > 3
+        ? `${group.names.slice(0, 3).join(', ')} +${group.names.length - 3} more`
+        : group.names.join(', '),
+    }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const residue = Math.round((transactionAmount - splits.reduce((sum, s) => sum + s.amount, 0)) * 100) / 100;
+  splits[0].amount = Math.round((splits[0].amount + residue) * 100) / 100;
+
+  return splits.filter((s) => s.amount > 0);
+}
+
+/**
+ * Split a transaction across the categories of its receipt line items.
+ * Returns an empty array (and leaves the transaction as is) when all items
+ * fall into a single category.
+ */
+export async function splitTransactionByItems(
+  transactionId: string
+): Promise<TransactionSplitWithCategory[]> {
+  const { data: transaction, error: txError } = await supabase
+    .from('transactions')
+    .select('amount, category_id')
+    .eq('id', transactionId)
+    .single();
+
+  if (txError) throw txError;
+  if (!transaction) throw new Error('Transaction not found');
+
+  const { data: items, error: itemsError } = await supabase
+    .from('receipt_items')
+    .select('name, category_id, total_price')
+    .eq('transaction_id', transactionId);
+
+  if (itemsError) throw itemsError;
+
+  const splits = allocateItemSplits(items || [], Number(transaction.amount), transaction.category_id);
+
+  if (splits.length < 2) return [];
+  return splitTransaction(transactionId, splits);
+}
+
 /**
  * Get transaction with its splits
  */
@@ -261,6 +338,8 @@ export default {
   deleteTransactionSplit,
   deleteAllTransactionSplits,
   splitTransaction,
+  allocateItemSplits,
+  splitTransactionByItems,
   getTransactionWithSplits,
   unsplitTransaction,
   getSpendingByCategoryWithSplits,
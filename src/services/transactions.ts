@@ -16,21 +16,32 @@ import type {
   TransactionListParams,
   PaginatedResponse,
   CategorySpending,
+  Category,
 } from '@/types';
-import { suggestCategory } from '@/config/categories';
 import { useAuthStore, waitForAuthHydration } from '@/stores/authStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import * as devStorage from './devStorage';
+import { buildFxSnapshot, convertAtTransactionRate } from './rateHistory';
+import { suggestCategories, learnCategory, invalidateCategoryClassifier } from './categoryClassifier';
+import { getMerchantResolver, resolveMerchant } from './merchants';
+import { getCategoryById } from '@/config/categories';
 import { isDevMode } from '@/utils/devMode';
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
+type MonthlySummaryCategory = Pick<Category, 'id' | 'name' | 'icon' | 'color'>;
+
+/** Row shape of the getMonthlySummary select */
+type MonthlySummaryRow = Pick<Transaction, 'amount' | 'currency' | 'transaction_date' | 'metadata' | 'source'> & {
+  category: MonthlySummaryCategory | MonthlySummaryCategory[] | null;
+};
+
 /**
  * Resolve a category ID or slug/name to its UUID.
  * If the input is already a UUID, returns it as-is.
  * Otherwise queries the categories table by name.
  */
-async function resolveCategoryId(categoryIdOrSlug: string): Promise<string | null> {
+export async function resolveCategoryId(categoryIdOrSlug: string): Promise<string | null> {
   if (UUID_REGEX.test(categoryIdOrSlug)) {
     return categoryIdOrSlug;
   }
@@ -320,63 +331,95 @@ export async function createTransaction(
     }
   }
 
-  // Auto-suggest category if not provided
-  if (!transactionData.category_id && transactionData.merchant_name) {
-    const suggested = suggestCategory(transactionData.merchant_name);
+  // The user's categorization rules run first so a renamed merchant is
+  // resolved under its new name; the insert trigger skips transactions they
+  // already ran on. Imported lazily to avoid a require cycle.
+  try {
+    const { applyRulesToNewTransaction } = await import('./categorizationRules');
+    Object.assign(transactionData, await applyRulesToNewTransaction(transactionData));
+  } catch (error) {
+    logger.transaction.warn('Could not apply categorization rules:', error);
+  }
+
+  // Canonical merchant: its key groups the descriptor variants
+  const merchant = await resolveMerchant(transactionData.merchant_name);
+  transactionData.merchant_name_clean = merchant.key;
 
-    // In dev mode, just use the suggested category ID directly
-    if (!isDevMode()) {
-      // Get category ID from database
+  // Auto-suggest category if not provided, learned from the user's own
+  // categorized transactions, else the merchant's default category, else
+  // the keyword scan
+  if (!transactionData.category_id && transactionData.merchant_name) {
+    const [suggested] = await suggestCategories(transactionData, { limit: 1 });
+    const categoryId = suggested?.source === 'classifier'
+      ? suggested.categoryId
+      : merchant.default_category_id ?? suggested?.categoryId;
+
+    if (categoryId && (isDevMode() || UUID_REGEX.test(categoryId))) {
+      // Learned suggestions and the user's own merchants already use their
+      // category ids, and dev mode uses the config ids directly
+      transactionData.category_id = categoryId;
+    } else if (categoryId) {
+      // Get config category ID from database
       const { data: category } = await supabase
         .from('categories')
         .select('id')
-        .eq('name', suggested.name)
+        .eq('name', getCategoryById(categoryId)?.name ?? categoryId)
         .single();
 
       if (category) {
         transactionData.category_id = category.id;
       }
-    } else {
-      // In dev mode, use the category id from config
-      transactionData.category_id = suggested.id;
     }
   }
 
-  // Clean merchant name
-  transactionData.merchant_name_clean = transactionData.merchant_name
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, '')
-    .trim();
+  // Record the exchange rate for the transaction date so reports stay stable.
+  // Only stored rates are used so saving never waits on the network; without
+  // them the transaction is picked up by backfillTransactionRates later.
+  const baseCurrency = useSettingsStore.getState()?.currency || 'AED';
+  const transactionCurrency = transactionData.currency || baseCurrency;
+  const transactionDate = transactionData.transaction_date || new Date().toISOString().split('T')[0];
+  if (!transactionData.metadata?.fx) {
+    try {
+      const fx = await buildFxSnapshot(transactionCurrency, transactionDate, baseCurrency, { cachedOnly: true });
+      if (fx) {
+        transactionData.metadata = { ...(transactionData.metadata || {}), fx };
+      }
+    } catch (error) {
+      logger.transaction.warn('Could not record exchange rate for transaction:', error);
+    }
+  }
 
   // In dev mode, save to local storage
   if (isDevMode()) {
     const mockTransaction = {
-      id: 'dev-txn-' + Date.now(),
+      id: `dev-txn-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
       user_id: userId,
       amount: transactionData.amount,
-      currency: transactionData.currency || useSettingsStore.getState().currency || 'AED',
+      currency: transactionCurrency,
       transaction_type: transactionData.transaction_type || 'purchase',
       merchant_name: transactionData.merchant_name,
       merchant_name_clean: transactionData.merchant_name_clean || '',
       category_id: transactionData.category_id || null,
-      transaction_date: transactionData.transaction_date || new Date().toISOString().split('T')[0],
-      transaction_time: null,
+      transaction_date: transactionDate,
+      transaction_time: transactionData.transaction_time || null,
       source: transactionData.source || 'manual',
-      card_last_four: null,
-      bank_name: null,
-      receipt_image_url: null,
+      card_last_four: transactionData.card_last_four || null,
+      bank_name: transactionData.bank_name || null,
+      receipt_image_url: transactionData.receipt_image_url || null,
       notes: transactionData.notes || null,
-      is_recurring: false,
+      is_recurring: transactionData.is_recurring || false,
       is_reviewed: false,
       is_deleted: false,
       deleted_at: null,
-      metadata: {},
+      metadata: transactionData.metadata || {},
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     } as Transaction;
 
     // Save to local storage
-    return devStorage.saveDevTransaction(mockTransaction);
+    const saved = await devStorage.saveDevTransaction(mockTransaction);
+    learnCategory(saved);
+    return saved;
   }
 
   const { data, error } = await supabase
@@ -386,6 +429,7 @@ export async function createTransaction(
     .single();
 
   if (error) throw error;
+  learnCategory(data);
   return data;
 }
 
@@ -396,11 +440,19 @@ export async function updateTransaction(
   id: string,
   updates: TransactionUpdate
 ): Promise<Transaction> {
+  // A corrected category is new training data
+  if (updates.category_id !== undefined) invalidateCategoryClassifier();
+
   // In dev mode, update in local storage
   if (isDevMode()) {
     return devStorage.updateDevTransaction(id, updates);
   }
 
+  // Category pickers pass slugs; store the UUID
+  if (updates.category_id && !UUID_REGEX.test(updates.category_id)) {
+    updates = { ...updates, category_id: await resolveCategoryId(updates.category_id) };
+  }
+
   const { data, error } = await supabase
     .from('transactions')
     .update(updates)
@@ -456,6 +508,9 @@ export async function getMonthlySummary(
     .from('transactions')
     .select(`
       amount,
+      currency,
+      transaction_date,
+      metadata,
       source,
       category:categories(id, name, icon, color)
     `)
@@ -465,16 +520,30 @@ export async function getMonthlySummary(
 
   if (error) throw error;
 
-  const total = transactions?.reduce((sum, t) => sum + Number(t.amount), 0) || 0;
-  const transactionCount = transactions?.length || 0;
+  // Convert to the user's currency at each transaction's recorded rate
+  const rows = (transactions || []) as MonthlySummaryRow[];
+  const userCurrency = useSettingsStore.getState()?.currency || 'AED';
+  const amounts: number[] = [];
+  for (const t of rows) {
+    let amount = Number(t.amount);
+    try {
+      amount = await convertAtTransactionRate(amount, t, userCurrency);
+    } catch (conversionError) {
+      logger.transaction.warn(`Failed to convert ${t.currency} to ${userCurrency}, using original amount`);
+    }
+    amounts.push(amount);
+  }
+
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  const transactionCount = rows.length;
 
   // Group by category
   const categoryMap = new Map<string, { name: string; icon: string; color: string; amount: number; count: number }>();
-  transactions?.forEach((t: any) => {
+  rows.forEach((t, index) => {
     const cat = Array.isArray(t.category) ? t.category[0] : t.category;
     if (cat) {
       const existing = categoryMap.get(cat.id) || { name: cat.name, icon: cat.icon, color: cat.color, amount: 0, count: 0 };
-      existing.amount += Number(t.amount);
+      existing.amount += amounts[index];
       existing.count += 1;
       categoryMap.set(cat.id, existing);
     }
@@ -492,9 +561,9 @@ export async function getMonthlySummary(
 
   // Group by source
   const bySource = { email: 0, receipt: 0, manual: 0, import: 0 };
-  transactions?.forEach((t: any) => {
+  rows.forEach((t, index) => {
     if (t.source in bySource) {
-      bySource[t.source as keyof typeof bySource] += Number(t.amount);
+      bySource[t.source as keyof typeof bySource] += amounts[index];
     }
   });
 
@@ -584,9 +653,11 @@ export async function getTopMerchants(
   limit: number = 5,
   month?: Date
 ): Promise<{ merchant: string; amount: number; count: number }[]> {
+  const resolve = await getMerchantResolver();
+
   // In dev mode, use local storage
   if (isDevMode()) {
-    return devStorage.getDevTopMerchants(limit, month);
+    return devStorage.getDevTopMerchants(limit, month, resolve);
   }
 
   let query = supabase
@@ -604,17 +675,17 @@ export async function getTopMerchants(
 
   if (error) throw error;
 
-  // Aggregate by merchant
-  const merchantMap = new Map<string, { amount: number; count: number }>();
+  // Aggregate by canonical merchant
+  const merchantMap = new Map<string, { merchant: string; amount: number; count: number }>();
   data?.forEach((t) => {
-    const existing = merchantMap.get(t.merchant_name) || { amount: 0, count: 0 };
+    const { key, name } = resolve(t.merchant_name);
+    const existing = merchantMap.get(key) || { merchant: name, amount: 0, count: 0 };
     existing.amount += Number(t.amount);
     existing.count += 1;
-    merchantMap.set(t.merchant_name, existing);
+    merchantMap.set(key, existing);
   });
 
-  return Array.from(merchantMap.entries())
-    .map(([merchant, data]) => ({ merchant, ...data }))
+  return Array.from(merchantMap.values())
     .sort((a, b) => b.amount - a.amount)
     .slice(0, limit);
 }
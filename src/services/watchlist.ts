@@ -0,0 +1,398 @@
+/**
+ * Watchlist Service
+ * Symbols the user follows without holding them. Each item can carry a
+ * target price, above/below levels and a percent-move trigger. Triggers are
+ * checked against fresh quotes and raise 'price_target' alerts, which are
+ * also pushed to the user's devices.
+ */
+
+import { supabase } from './supabase';
+import { getStockQuotes, getCryptoQuotes } from './quoteProvider';
+import { createAlert, sendAlertNotification } from './alerts';
+import { logger } from '@/utils/logger';
+import type {
+  Alert,
+  WatchlistItem,
+  WatchlistItemInsert,
+  WatchlistItemUpdate,
+  WatchlistItemWithPrice,
+  WatchlistTrigger,
+  AddWatchlistItemInput,
+} from '@/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface WatchlistQuote {
+  price: number;
+  currency: string;
+  change: number;
+  change_percent: number;
+}
+
+export interface WatchlistRefreshResult {
+  items: WatchlistItemWithPrice[];
+  /** Alerts raised by this refresh */
+  alerts: Alert[];
+}
+
+const LEVEL_FIELDS = ['target_price', 'alert_above', 'alert_below', 'alert_percent_change'] as const;
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function getUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  return user.id;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function formatPrice(price: number, currency: string): string {
+  return `${price >= 1 ? price.toFixed(2) : price.toPrecision(4)} ${currency}`;
+}
+
+function validateLevels(levels: Partial<Pick<WatchlistItem, typeof LEVEL_FIELDS[number]>>): void {
+  for (const field of LEVEL_FIELDS) {
+    const value = levels[field];
+    if (value !== undefined && value !== null && !(value > 0)) {
+      throw new Error('Alert levels must be greater than zero');
+    }
+  }
+}
+
+/**
+ * Latest quotes for watchlist items, keyed by symbol
+ */
+async function fetchQuotes(
+  items: Pick<WatchlistItem, 'symbol' | 'investment_type'>[],
+  forceRefresh: boolean
+): Promise<Record<string, WatchlistQuote>> {
+  const crypto = items.filter((i) => i.investment_type === 'cryptocurrency').map((i) => i.symbol);
+  const stocks = items.filter((i) => i.investment_type !== 'cryptocurrency').map((i) => i.symbol);
+
+  const [stockBatch, cryptoBatch] = await Promise.all([
+    stocks.length > 0 ? getStockQuotes(stocks, { forceRefresh }) : null,
+    crypto.length > 0 ? getCryptoQuotes(crypto, { forceRefresh }) : null,
+  ]);
+
+  const quotes: Record<string, WatchlistQuote> = {};
+  for (const [symbol, quote] of Object.entries(stockBatch?.quotes ?? {})) {
+    quotes[symbol] = {
+      price: quote.price,
+      currency: quote.currency,
+      change: quote.change,
+      change_percent: quote.change_percent,
+    };
+  }
+  for (const [symbol, quote] of Object.entries(cryptoBatch?.quotes ?? {})) {
+    quotes[symbol] = {
+      price: quote.price,
+      currency: quote.currency,
+      change: quote.change_24h,
+      change_percent: quote.change_24h_percent,
+    };
+  }
+  return quotes;
+}
+
+// ============================================
+// TRIGGERS
+// ============================================
+
+/**
+ * Triggers a new price sets off. Above/below levels fire when the price
+ * crosses them since the last check, or straight away when there is no
+ * earlier price. The target fires when the price moves through it from
+ * either side. The percent move is measured from reference_price.
+ */
+export function evaluateWatchlistTriggers(item: WatchlistItem, price: number): WatchlistTrigger[] {
+  const previous = item.last_price;
+  const triggers: WatchlistTrigger[] = [];
+  const trigger = (type: WatchlistTrigger['type'], threshold: number) =>
+    triggers.push({ type, symbol: item.symbol, price, threshold });
+
+  if (item.target_price && previous !== null) {
+    const target = item.target_price;
+    if ((previous < target && price >= target) || (previous > target && price <= target)) {
+      trigger('target', target);
+    }
+  }
+
+  if (item.alert_above && price >= item.alert_above && (previous === null || previous < item.alert_above)) {
+    trigger('above', item.alert_above);
+  }
+
+  if (item.alert_below && price <= item.alert_below && (previous === null || previous > item.alert_below)) {
+    trigger('below', item.alert_below);
+  }
+
+  if (item.alert_percent_change && item.reference_price) {
+    const change = ((price - item.reference_price) / item.reference_price) * 100;
+    if (Math.abs(change) >= item.alert_percent_change) {
+      trigger('percent_move', roundTo(change, 2));
+    }
+  }
+
+  return triggers;
+}
+
+/**
+ * Price state to save after a check. The percent-move trigger re-arms from
+ * the price it fired at.
+ */
+export function nextTriggerState(
+  item: WatchlistItem,
+  price: number,
+  triggers: WatchlistTrigger[]
+): Pick<WatchlistItem, 'last_price' | 'reference_price'> {
+  const moved = triggers.some((t) => t.type === 'percent_move');
+  return {
+    last_price: price,
+    reference_price: moved || item.reference_price === null ? price : item.reference_price,
+  };
+}
+
+export function withPrice(item: WatchlistItem, quote?: WatchlistQuote): WatchlistItemWithPrice {
+  const price = quote?.price ?? item.last_price ?? 0;
+  return {
+    ...item,
+    current_price: price,
+    currency: quote?.currency ?? 'USD',
+    day_change: quote?.change ?? 0,
+    day_change_percentage: quote?.change_percent ?? 0,
+    distance_to_target: item.target_price && price > 0
+      ? roundTo(((item.target_price - price) / price) * 100, 2)
+      : null,
+  };
+}
+
+function describeTrigger(trigger: WatchlistTrigger, currency: string): { title: string; message: string } {
+  const price = formatPrice(trigger.price, currency);
+  switch (trigger.type) {
+    case 'target':
+      return {
+        title: `${trigger.symbol} reached your target`,
+        message: `${trigger.symbol} is at ${price}, through your target of ${formatPrice(trigger.threshold, currency)}`,
+      };
+    case 'above':
+      return {
+        title: `${trigger.symbol} rose above ${formatPrice(trigger.threshold, currency)}`,
+        message: `${trigger.symbol} is trading at ${price}`,
+      };
+    case 'below':
+      return {
+        title: `${trigger.symbol} fell below ${formatPrice(trigger.threshold, currency)}`,
+        message: `${trigger.symbol} is trading at ${price}`,
+      };
+    case 'percent_move':
+      return {
+        title: `${trigger.symbol} ${trigger.threshold >= 0 ? 'up' : 'down'} ${Math.abs(trigger.threshold)}%`,
+        message: `${trigger.symbol} moved ${trigger.threshold >= 0 ? '+' : ''}${trigger.threshold}% to ${price} since your last alert`,
+      };
+  }
+}
+
+async function raisePriceAlert(
+  item: WatchlistItem,
+  trigger: WatchlistTrigger,
+  currency: string
+): Promise<Alert | null> {
+  try {
+    const alert = await createAlert({
+      alert_type: 'price_target',
+      severity: 'info',
+      ...describeTrigger(trigger, currency),
+      action_url: '/settings/investments',
+      action_label: 'View watchlist',
+      related_entity_type: 'watchlist_item',
+      related_entity_id: item.id,
+      data: { symbol: item.symbol, trigger: trigger.type, price: trigger.price, threshold: trigger.threshold },
+      is_read: false,
+      is_dismissed: false,
+      is_actioned: false,
+      read_at: null,
+      expires_at: null,
+    });
+    await sendAlertNotification(alert);
+    return alert;
+  } catch (error) {
+    logger.investment.warn(`Failed to raise price alert for ${item.symbol}:`, error);
+    return null;
+  }
+}
+
+// ============================================
+// WATCHLIST
+// ============================================
+
+/**
+ * Get watchlist items, by symbol
+ */
+export async function getWatchlistItems(): Promise<WatchlistItem[]> {
+  const userId = await getUserId();
+
+  const { data, error } = await supabase
+    .from('watchlist_items')
+    .select('*')
+    .eq('user_id', userId)
+    .order('symbol', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Refresh quotes for the watchlist and raise alerts for any triggers the
+ * new prices set off
+ */
+export async function refreshWatchlist(
+  options: { forceRefresh?: boolean } = {}
+): Promise<WatchlistRefreshResult> {
+  const items = await getWatchlistItems();
+  if (items.length === 0) return { items: [], alerts: [] };
+
+  const quotes = await fetchQuotes(items, !!options.forceRefresh);
+  const now = new Date().toISOString();
+  const result: WatchlistRefreshResult = { items: [], alerts: [] };
+
+  for (const item of items) {
+    const quote = quotes[item.symbol];
+    if (!quote) {
+      result.items.push(withPrice(item));
+      continue;
+    }
+
+    const triggers = evaluateWatchlistTriggers(item, quote.price);
+    const state = { ...nextTriggerState(item, quote.price, triggers), last_price_update: now };
+
+    const { error } = await supabase
+      .from('watchlist_items')
+      .update({ ...state, updated_at: now })
+      .eq('id', item.id);
+
+    if (error) {
+      // Without the saved price the same crossing would alert again next time
+      logger.investment.warn(`Failed to save watchlist price for ${item.symbol}:`, error);
+      result.items.push(withPrice(item, quote));
+      continue;
+    }
+
+    for (const trigger of triggers) {
+      const alert = await raisePriceAlert(item, trigger, quote.currency);
+      if (alert) result.alerts.push(alert);
+    }
+    result.items.push(withPrice({ ...item, ...state }, quote));
+  }
+
+  return result;
+}
+
+/**
+ * Add a symbol to the watchlist. Triggers are armed from the current price.
+ */
+export async function addToWatchlist(input: AddWatchlistItemInput): Promise<WatchlistItem> {
+  const userId = await getUserId();
+  validateLevels(input);
+
+  const symbol = input.symbol.trim().toUpperCase();
+  let price: number | null = null;
+  try {
+    price = (await fetchQuotes([{ symbol, investment_type: input.investment_type }], false))[symbol]?.price ?? null;
+  } catch (error) {
+    logger.investment.warn(`Failed to quote ${symbol}:`, error);
+  }
+
+  const item: WatchlistItemInsert = {
+    user_id: userId,
+    symbol,
+    name: input.name.trim() || symbol,
+    investment_type: input.investment_type,
+    target_price: input.target_price ?? null,
+    alert_above: input.alert_above ?? null,
+    alert_below: input.alert_below ?? null,
+    alert_percent_change: input.alert_percent_change ?? null,
+    reference_price: price,
+    last_price: price,
+    last_price_update: price !== null ? new Date().toISOString() : null,
+    notes: input.notes ?? null,
+  };
+
+  const { data, error } = await supabase
+    .from('watchlist_items')
+    .insert(item)
+    .select()
+    .single();
+
+  if (error?.code === '23505') throw new Error(`${symbol} is already on your watchlist`);
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Update a watchlist item. Changing the percent move re-arms it from the
+ * last price.
+ */
+export async function updateWatchlistItem(id: string, updates: WatchlistItemUpdate): Promise<WatchlistItem> {
+  const userId = await getUserId();
+  validateLevels(updates);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('watchlist_items')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  if (existingError) throw existingError;
+
+  const changes: WatchlistItemUpdate = { ...updates, updated_at: new Date().toISOString() };
+  if (updates.symbol) changes.symbol = updates.symbol.trim().toUpperCase();
+  if (
+    updates.alert_percent_change !== undefined &&
+    updates.alert_percent_change !== existing.alert_percent_change
+  ) {
+    changes.reference_price = existing.last_price;
+  }
+
+  const { data, error } = await supabase
+    .from('watchlist_items')
+    .update(changes)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Remove a symbol from the watchlist
+ */
+export async function removeFromWatchlist(id: string): Promise<void> {
+  const userId = await getUserId();
+
+  const { error } = await supabase
+    .from('watchlist_items')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export default {
+  getWatchlistItems,
+  refreshWatchlist,
+  addToWatchlist,
+  updateWatchlistItem,
+  removeFromWatchlist,
+  evaluateWatchlistTriggers,
+};
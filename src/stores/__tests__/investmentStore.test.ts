@@ -5,6 +5,9 @@
 import { act } from '@testing-library/react-native';
 import { useInvestmentStore, usePortfolioValue, usePortfolioGain, useHoldingsCount } from '../investmentStore';
 import * as investmentService from '@/services/investments';
+import * as dividendService from '@/services/dividends';
+import * as watchlistService from '@/services/watchlist';
+import type { InvestmentHoldingWithPerformance, WatchlistItemWithPrice } from '@/types';
 
 // Mock investment service
 jest.mock('@/services/investments', () => ({
@@ -23,6 +26,25 @@ jest.mock('@/services/investments', () => ({
   updatePrices: jest.fn(),
   updateHoldingPrice: jest.fn(),
   createSnapshot: jest.fn(),
+  getTargetAllocation: jest.fn(),
+  saveTargetAllocation: jest.fn(),
+}));
+
+jest.mock('@/services/dividends', () => ({
+  syncDividendLedger: jest.fn(),
+  getDividendSummary: jest.fn(),
+}));
+
+jest.mock('@/services/taxLots', () => ({
+  getGainsReport: jest.fn(),
+}));
+
+jest.mock('@/services/watchlist', () => ({
+  refreshWatchlist: jest.fn(),
+  addToWatchlist: jest.fn(),
+  updateWatchlistItem: jest.fn(),
+  removeFromWatchlist: jest.fn(),
+  withPrice: jest.fn(),
 }));
 
 const mockHoldings = [
@@ -92,8 +114,15 @@ describe('Investment Store', () => {
       filterType: null,
       isLoading: false,
       isUpdatingPrices: false,
+      lastPriceRefresh: null,
+      targetAllocation: null,
+      dividendSummary: null,
+      gainsReport: null,
+      watchlist: [],
       error: null,
     });
+    (dividendService.syncDividendLedger as jest.Mock).mockResolvedValue(0);
+    (watchlistService.refreshWatchlist as jest.Mock).mockResolvedValue({ items: [], alerts: [] });
   });
 
   describe('Initial State', () => {
@@ -386,6 +415,89 @@ describe('Investment Store', () => {
     });
   });
 
+  describe('refreshPricesIfStale', () => {
+    const pricedHolding: InvestmentHoldingWithPerformance = {
+      id: 'holding-1',
+      user_id: 'user-1',
+      bank_account_id: null,
+      security_id: null,
+      symbol: 'AAPL',
+      name: 'Apple Inc.',
+      investment_type: 'stock',
+      quantity: 10,
+      cost_basis: 1500,
+      current_price: 175,
+      current_value: 1750,
+      currency: 'USD',
+      is_manual: true,
+      last_price_update: null,
+      institution_name: null,
+      account_name: null,
+      account_type: null,
+      notes: null,
+      is_active: true,
+      created_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z',
+      unrealized_gain: 250,
+      unrealized_gain_percentage: 16.67,
+      day_change: 0,
+      day_change_percentage: 0,
+      allocation_percentage: 100,
+    };
+    const refresh = (minutesAgo: number) => ({
+      updated: 2,
+      missing: [],
+      providers: ['fixture'],
+      refreshed_at: new Date(Date.now() - minutesAgo * 60 * 1000).toISOString(),
+      snapshot_created: true,
+    });
+
+    beforeEach(() => {
+      (investmentService.getHoldings as jest.Mock).mockResolvedValue(mockHoldings);
+      (investmentService.getCryptoHoldings as jest.Mock).mockResolvedValue(mockCryptoHoldings);
+      (investmentService.getPortfolioSummary as jest.Mock).mockResolvedValue(mockPortfolioSummary);
+    });
+
+    it('should refresh prices when the last refresh is stale', async () => {
+      (investmentService.updatePrices as jest.Mock).mockResolvedValue(refresh(0));
+      useInvestmentStore.setState({ holdings: [pricedHolding], lastPriceRefresh: refresh(20) });
+
+      await act(async () => {
+        await useInvestmentStore.getState().refreshPricesIfStale();
+      });
+
+      expect(investmentService.updatePrices).toHaveBeenCalled();
+      expect(useInvestmentStore.getState().lastPriceRefresh?.updated).toBe(2);
+    });
+
+    it('should not refresh recent prices or an empty portfolio', async () => {
+      useInvestmentStore.setState({ holdings: [pricedHolding], lastPriceRefresh: refresh(5) });
+      await act(async () => {
+        await useInvestmentStore.getState().refreshPricesIfStale();
+      });
+
+      useInvestmentStore.setState({ holdings: [], cryptoHoldings: [], lastPriceRefresh: null });
+      await act(async () => {
+        await useInvestmentStore.getState().refreshPricesIfStale();
+      });
+
+      expect(investmentService.updatePrices).not.toHaveBeenCalled();
+    });
+
+    it('should keep existing prices when the refresh fails', async () => {
+      (investmentService.updatePrices as jest.Mock).mockRejectedValue(new Error('offline'));
+      useInvestmentStore.setState({ holdings: [pricedHolding], lastPriceRefresh: null });
+
+      await act(async () => {
+        await useInvestmentStore.getState().refreshPricesIfStale();
+      });
+
+      const state = useInvestmentStore.getState();
+      expect(state.holdings).toEqual([pricedHolding]);
+      expect(state.error).toBe('offline');
+    });
+  });
+
   describe('updateHoldingPrice', () => {
     it('should update a single holding price', async () => {
       useInvestmentStore.setState({ holdings: mockHoldings as any });
@@ -406,6 +518,110 @@ describe('Investment Store', () => {
     });
   });
 
+  describe('saveTargetAllocation', () => {
+    it('should store the saved target allocation', async () => {
+      const saved = { id: 'target-1', target_type: 'type', allocations: { stock: 60, bond: 40 }, drift_threshold: 5 };
+      (investmentService.saveTargetAllocation as jest.Mock).mockResolvedValue(saved);
+
+      await act(async () => {
+        await useInvestmentStore.getState().saveTargetAllocation({
+          target_type: 'type',
+          allocations: { stock: 60, bond: 40 },
+        });
+      });
+
+      expect(useInvestmentStore.getState().targetAllocation).toEqual(saved);
+    });
+
+    it('should surface validation errors', async () => {
+      (investmentService.saveTargetAllocation as jest.Mock).mockRejectedValue(
+        new Error('Target allocations must add up to 100%')
+      );
+
+      await expect(
+        act(async () => {
+          await useInvestmentStore.getState().saveTargetAllocation({ target_type: 'type', allocations: { stock: 50 } });
+        })
+      ).rejects.toThrow('Target allocations must add up to 100%');
+
+      expect(useInvestmentStore.getState().error).toBe('Target allocations must add up to 100%');
+    });
+  });
+
+  describe('fetchDividendSummary', () => {
+    it('should load the summary even when the ledger sync fails', async () => {
+      const summary = { total_dividends_ytd: 120, projected_12m_income: 180 };
+      (dividendService.syncDividendLedger as jest.Mock).mockRejectedValue(new Error('offline'));
+      (dividendService.getDividendSummary as jest.Mock).mockResolvedValue(summary);
+
+      await act(async () => {
+        await useInvestmentStore.getState().fetchDividendSummary();
+      });
+
+      expect(useInvestmentStore.getState().dividendSummary).toEqual(summary);
+    });
+  });
+
+  describe('watchlist', () => {
+    const watched: WatchlistItemWithPrice = {
+      id: 'watch-1',
+      user_id: 'user-1',
+      symbol: 'NVDA',
+      name: 'NVIDIA',
+      investment_type: 'stock',
+      target_price: 150,
+      alert_above: null,
+      alert_below: null,
+      alert_percent_change: null,
+      reference_price: null,
+      last_price: 120,
+      last_price_update: null,
+      notes: null,
+      created_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z',
+      current_price: 120,
+      currency: 'USD',
+      day_change: 2,
+      day_change_percentage: 1.7,
+      distance_to_target: 25,
+    };
+
+    it('should reload the watchlist after adding a symbol', async () => {
+      (watchlistService.addToWatchlist as jest.Mock).mockResolvedValue({ id: 'watch-1' });
+      (watchlistService.refreshWatchlist as jest.Mock).mockResolvedValue({ items: [watched], alerts: [] });
+
+      await act(async () => {
+        await useInvestmentStore.getState().addToWatchlist({ symbol: 'nvda', name: 'NVIDIA', investment_type: 'stock' });
+      });
+
+      expect(watchlistService.addToWatchlist).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'nvda' }));
+      expect(useInvestmentStore.getState().watchlist).toEqual([watched]);
+    });
+
+    it('should keep the quote when updating and drop removed symbols', async () => {
+      useInvestmentStore.setState({ watchlist: [watched] });
+      (watchlistService.updateWatchlistItem as jest.Mock).mockResolvedValue({ ...watched, target_price: 180 });
+      (watchlistService.withPrice as jest.Mock).mockImplementation((item, quote) => ({ ...item, current_price: quote.price }));
+      (watchlistService.removeFromWatchlist as jest.Mock).mockResolvedValue(undefined);
+
+      await act(async () => {
+        await useInvestmentStore.getState().updateWatchlistItem('watch-1', { target_price: 180 });
+      });
+
+      expect(watchlistService.withPrice).toHaveBeenCalledWith(
+        expect.objectContaining({ target_price: 180 }),
+        { price: 120, currency: 'USD', change: 2, change_percent: 1.7 }
+      );
+      expect(useInvestmentStore.getState().watchlist[0].target_price).toBe(180);
+
+      await act(async () => {
+        await useInvestmentStore.getState().removeFromWatchlist('watch-1');
+      });
+
+      expect(useInvestmentStore.getState().watchlist).toEqual([]);
+    });
+  });
+
   describe('selectHolding', () => {
     it('should select a holding', () => {
       act(() => {
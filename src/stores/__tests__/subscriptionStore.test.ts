@@ -5,6 +5,7 @@
 import { act } from '@testing-library/react-native';
 import { useSubscriptionStore } from '../subscriptionStore';
 import * as subscriptionService from '@/services/subscriptions';
+import * as subscriptionDetection from '@/services/subscriptionDetection';
 import { mockSubscriptions, mockSubscriptionSummary } from '../../__mocks__/mockData';
 
 // Mock subscription service
@@ -13,6 +14,8 @@ jest.mock('@/services/subscriptions', () => ({
   getSubscription: jest.fn(),
   getSubscriptionSummary: jest.fn(),
   getUpcomingRenewals: jest.fn(),
+  refreshBillingDates: jest.fn(),
+  trackSubscriptionCharges: jest.fn(),
   createSubscription: jest.fn(),
   updateSubscription: jest.fn(),
   cancelSubscription: jest.fn(),
@@ -20,6 +23,12 @@ jest.mock('@/services/subscriptions', () => ({
   generateCancellationEmail: jest.fn(),
 }));
 
+jest.mock('@/services/subscriptionDetection', () => ({
+  findRecurringCharges: jest.fn(),
+  acceptRecurringCharge: jest.fn(),
+  dismissRecurringCharge: jest.fn(),
+}));
+
 describe('Subscription Store', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -29,6 +38,8 @@ describe('Subscription Store', () => {
       currentSubscription: null,
       summary: null,
       upcomingRenewals: [],
+      detectedCharges: [],
+      isDetecting: false,
       filters: { status: 'active' },
       isLoading: false,
       error: null,
@@ -83,6 +94,18 @@ describe('Subscription Store', () => {
 
       expect(subscriptionService.getSubscriptions).toHaveBeenCalledWith('cancelled');
     });
+
+    it('should still load subscriptions when charge tracking fails', async () => {
+      (subscriptionService.trackSubscriptionCharges as jest.Mock).mockRejectedValue(new Error('offline'));
+      (subscriptionService.getSubscriptions as jest.Mock).mockResolvedValue(mockSubscriptions);
+
+      await act(async () => {
+        await useSubscriptionStore.getState().fetchSubscriptions();
+      });
+
+      expect(subscriptionService.trackSubscriptionCharges).toHaveBeenCalled();
+      expect(useSubscriptionStore.getState().subscriptions).toEqual(mockSubscriptions);
+    });
   });
 
   describe('fetchSubscription', () => {
@@ -226,6 +249,36 @@ describe('Subscription Store', () => {
     });
   });
 
+  describe('detected recurring charges', () => {
+    const candidate = { key: 'netflix|AED', displayName: 'Netflix', amount: 55 } as any;
+
+    it('should load proposals from transaction history', async () => {
+      (subscriptionDetection.findRecurringCharges as jest.Mock).mockResolvedValue([candidate]);
+
+      await act(async () => {
+        await useSubscriptionStore.getState().detectRecurringCharges();
+      });
+
+      expect(useSubscriptionStore.getState().detectedCharges).toEqual([candidate]);
+      expect(useSubscriptionStore.getState().isDetecting).toBe(false);
+    });
+
+    it('should remove a proposal once accepted or dismissed', async () => {
+      useSubscriptionStore.setState({ detectedCharges: [candidate, { ...candidate, key: 'gym|AED' }] });
+      (subscriptionDetection.acceptRecurringCharge as jest.Mock).mockResolvedValue({ id: 'sub-1' });
+      (subscriptionService.getSubscriptions as jest.Mock).mockResolvedValue([]);
+
+      await act(async () => {
+        await useSubscriptionStore.getState().acceptDetectedCharge(candidate);
+        await useSubscriptionStore.getState().dismissDetectedCharge('gym|AED');
+      });
+
+      expect(subscriptionDetection.acceptRecurringCharge).toHaveBeenCalledWith(candidate);
+      expect(subscriptionDetection.dismissRecurringCharge).toHaveBeenCalledWith('gym|AED');
+      expect(useSubscriptionStore.getState().detectedCharges).toEqual([]);
+    });
+  });
+
   describe('setFilters', () => {
     it('should set filters and fetch subscriptions', async () => {
       (subscriptionService.getSubscriptions as jest.Mock).mockResolvedValue([]);
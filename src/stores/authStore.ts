@@ -547,6 +547,11 @@ export const clearAllStores = async (): Promise<void> => {
       holdings: [],
       cryptoHoldings: [],
       portfolioSummary: null,
+      lastPriceRefresh: null,
+      targetAllocation: null,
+      dividendSummary: null,
+      gainsReport: null,
+      watchlist: [],
       isLoading: false,
       error: null,
     });
@@ -8,6 +8,7 @@ import type {
   Debt,
   DebtWithPayments,
   PayoffPlan,
+  PayoffSchedule,
   DebtSummary,
   PayoffStrategy,
   DebtInsert,
@@ -15,6 +16,7 @@ import type {
   DebtPaymentInsert,
 } from '@/types';
 import debtService from '@/services/debtManagement';
+import type { LumpSumPayment, PayoffSimulationOptions } from '@/services/debtManagement';
 import { eventBus } from '@/services/eventBus';
 
 interface DebtState {
@@ -22,9 +24,12 @@ interface DebtState {
   debts: Debt[];
   selectedDebt: DebtWithPayments | null;
   payoffPlan: PayoffPlan[];
+  payoffSchedule: PayoffSchedule | null;
   summary: DebtSummary | null;
   preferredStrategy: PayoffStrategy;
   extraPayment: number;
+  lumpSums: LumpSumPayment[];
+  customOrder: string[];
 
   // UI state
   isLoading: boolean;
@@ -41,18 +46,32 @@ interface DebtState {
   calculatePayoffPlan: () => Promise<void>;
   setStrategy: (strategy: PayoffStrategy) => void;
   setExtraPayment: (amount: number) => void;
+  setLumpSums: (lumpSums: LumpSumPayment[]) => void;
+  setCustomOrder: (debtIds: string[]) => void;
   refreshAll: () => Promise<void>;
   clearError: () => void;
 }
 
+function getSimulationOptions(state: DebtState): PayoffSimulationOptions {
+  return {
+    strategy: state.preferredStrategy,
+    extraPayment: state.extraPayment,
+    lumpSums: state.lumpSums,
+    customOrder: state.customOrder,
+  };
+}
+
 export const useDebtStore = create<DebtState>((set, get) => ({
   // Initial state
   debts: [],
   selectedDebt: null,
   payoffPlan: [],
+  payoffSchedule: null,
   summary: null,
   preferredStrategy: 'avalanche',
   extraPayment: 0,
+  lumpSums: [],
+  customOrder: [],
   isLoading: false,
   isRefreshing: false,
   error: null,
@@ -61,6 +80,13 @@ export const useDebtStore = create<DebtState>((set, get) => ({
   fetchDebts: async () => {
     set({ isLoading: true, error: null });
     try {
+      // Record card and loan payments from the transaction list first
+      try {
+        await debtService.reconcileDebtPayments();
+      } catch {
+        // Reconciliation is best-effort; balances still load without it
+      }
+
       const [debts, summary] = await Promise.all([
         debtService.getDebts(true),
         debtService.getDebtSummary(),
@@ -69,12 +95,8 @@ export const useDebtStore = create<DebtState>((set, get) => ({
 
       // Also update payoff plan if debts exist
       if (debts.length > 0) {
-        const { preferredStrategy, extraPayment } = get();
-        const payoffPlan = await debtService.calculatePayoffPlan(
-          preferredStrategy,
-          extraPayment
-        );
-        set({ payoffPlan });
+        const payoffSchedule = debtService.simulatePayoff(debts, getSimulationOptions(get()));
+        set({ payoffSchedule, payoffPlan: payoffSchedule.plans });
       }
     } catch (error) {
       set({
@@ -214,13 +236,9 @@ export const useDebtStore = create<DebtState>((set, get) => ({
 
   // Calculate payoff plan
   calculatePayoffPlan: async () => {
-    const { preferredStrategy, extraPayment } = get();
     try {
-      const payoffPlan = await debtService.calculatePayoffPlan(
-        preferredStrategy,
-        extraPayment
-      );
-      set({ payoffPlan });
+      const payoffSchedule = await debtService.getPayoffSchedule(getSimulationOptions(get()));
+      set({ payoffSchedule, payoffPlan: payoffSchedule.plans });
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to calculate payoff plan',
@@ -240,22 +258,33 @@ export const useDebtStore = create<DebtState>((set, get) => ({
     get().calculatePayoffPlan();
   },
 
+  // Set one-off payments for the simulation
+  setLumpSums: (lumpSums) => {
+    set({ lumpSums });
+    get().calculatePayoffPlan();
+  },
+
+  // Set payoff priority for the custom strategy
+  setCustomOrder: (debtIds) => {
+    set({ customOrder: debtIds });
+    get().calculatePayoffPlan();
+  },
+
   // Refresh all data
   refreshAll: async () => {
     set({ isRefreshing: true });
     try {
-      const { preferredStrategy, extraPayment } = get();
-
-      const [debts, summary, payoffPlan] = await Promise.all([
+      const [debts, summary] = await Promise.all([
         debtService.getDebts(true),
         debtService.getDebtSummary(),
-        debtService.calculatePayoffPlan(preferredStrategy, extraPayment),
       ]);
+      const payoffSchedule = debtService.simulatePayoff(debts, getSimulationOptions(get()));
 
       set({
         debts,
         summary,
-        payoffPlan,
+        payoffSchedule,
+        payoffPlan: payoffSchedule.plans,
         isRefreshing: false,
       });
     } catch (error) {
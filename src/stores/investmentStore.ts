@@ -6,6 +6,9 @@
 import { create } from 'zustand';
 import { logger } from '@/utils/logger';
 import * as investmentService from '@/services/investments';
+import * as dividendService from '@/services/dividends';
+import * as taxLotService from '@/services/taxLots';
+import * as watchlistService from '@/services/watchlist';
 import type {
   InvestmentHoldingWithPerformance,
   CryptoHoldingWithPerformance,
@@ -17,8 +20,19 @@ import type {
   CreateCryptoHoldingInput,
   RecordTransactionInput,
   InvestmentType,
+  PriceRefreshResult,
+  TargetAllocation,
+  SaveTargetAllocationInput,
+  DividendSummary,
+  GainsReport,
+  WatchlistItemWithPrice,
+  WatchlistItemUpdate,
+  AddWatchlistItemInput,
 } from '@/types';
 
+/** Quotes older than this are refreshed when the portfolio is loaded */
+export const PRICE_REFRESH_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
 interface InvestmentState {
   // State
   holdings: InvestmentHoldingWithPerformance[];
@@ -31,6 +45,11 @@ interface InvestmentState {
   filterType: InvestmentType | null;
   isLoading: boolean;
   isUpdatingPrices: boolean;
+  lastPriceRefresh: PriceRefreshResult | null;
+  targetAllocation: TargetAllocation | null;
+  dividendSummary: DividendSummary | null;
+  gainsReport: GainsReport | null;
+  watchlist: WatchlistItemWithPrice[];
   error: string | null;
 
   // Actions
@@ -39,6 +58,10 @@ interface InvestmentState {
   fetchTransactions: (options?: { holdingId?: string; limit?: number }) => Promise<void>;
   fetchPortfolioSummary: () => Promise<void>;
   fetchPerformance: (period?: PortfolioPerformance['period']) => Promise<void>;
+  fetchTargetAllocation: () => Promise<void>;
+  fetchDividendSummary: () => Promise<void>;
+  fetchGainsReport: (year?: number) => Promise<void>;
+  fetchWatchlist: (options?: { forceRefresh?: boolean }) => Promise<void>;
   fetchAll: () => Promise<void>;
 
   createHolding: (input: CreateHoldingInput) => Promise<void>;
@@ -50,9 +73,15 @@ interface InvestmentState {
   deleteCryptoHolding: (id: string) => Promise<void>;
 
   recordTransaction: (input: RecordTransactionInput) => Promise<void>;
-  updatePrices: () => Promise<void>;
+  updatePrices: (options?: { forceRefresh?: boolean }) => Promise<void>;
+  refreshPricesIfStale: () => Promise<void>;
   updateHoldingPrice: (id: string, price: number) => Promise<void>;
   createSnapshot: (notes?: string) => Promise<void>;
+  saveTargetAllocation: (input: SaveTargetAllocationInput) => Promise<void>;
+
+  addToWatchlist: (input: AddWatchlistItemInput) => Promise<void>;
+  updateWatchlistItem: (id: string, updates: WatchlistItemUpdate) => Promise<void>;
+  removeFromWatchlist: (id: string) => Promise<void>;
 
   selectHolding: (holding: InvestmentHoldingWithPerformance | null) => void;
   setSelectedPeriod: (period: PortfolioPerformance['period']) => void;
@@ -72,6 +101,11 @@ export const useInvestmentStore = create<InvestmentState>((set, get) => ({
   filterType: null,
   isLoading: false,
   isUpdatingPrices: false,
+  lastPriceRefresh: null,
+  targetAllocation: null,
+  dividendSummary: null,
+  gainsReport: null,
+  watchlist: [],
   error: null,
 
   // Fetch all holdings
@@ -148,6 +182,52 @@ export const useInvestmentStore = create<InvestmentState>((set, get) => ({
     }
   },
 
+  // Fetch the active target allocation
+  fetchTargetAllocation: async () => {
+    try {
+      const targetAllocation = await investmentService.getTargetAllocation();
+      set({ targetAllocation: targetAllocation ?? null });
+    } catch (error) {
+      logger.investment.error('Failed to fetch target allocation:', error);
+    }
+  },
+
+  // Fetch dividend summary, recording any dividend transactions not yet in the ledger
+  fetchDividendSummary: async () => {
+    try {
+      await dividendService.syncDividendLedger().catch((error) => {
+        logger.investment.warn('Failed to sync dividend ledger:', error);
+      });
+      const dividendSummary = await dividendService.getDividendSummary();
+      set({ dividendSummary: dividendSummary ?? null });
+    } catch (error) {
+      logger.investment.error('Failed to fetch dividend summary:', error);
+    }
+  },
+
+  // Fetch realized and unrealized gains for a tax year
+  fetchGainsReport: async (year) => {
+    try {
+      const gainsReport = await taxLotService.getGainsReport(year);
+      set({ gainsReport: gainsReport ?? null });
+    } catch (error) {
+      logger.investment.error('Failed to fetch gains report:', error);
+    }
+  },
+
+  // Fetch watchlist quotes; any price triggers they set off raise alerts
+  fetchWatchlist: async (options = {}) => {
+    try {
+      const { items, alerts } = await watchlistService.refreshWatchlist(options);
+      set({ watchlist: items });
+      if (alerts.length > 0) {
+        logger.investment.info(`Watchlist raised ${alerts.length} price alert(s)`);
+      }
+    } catch (error) {
+      logger.investment.error('Failed to fetch watchlist:', error);
+    }
+  },
+
   // Fetch all investment data
   fetchAll: async () => {
     try {
@@ -158,9 +238,14 @@ export const useInvestmentStore = create<InvestmentState>((set, get) => ({
         get().fetchCryptoHoldings(),
         get().fetchPortfolioSummary(),
         get().fetchPerformance(),
+        get().fetchTargetAllocation(),
+        get().fetchDividendSummary(),
+        get().fetchWatchlist(),
       ]);
 
       set({ isLoading: false });
+
+      await get().refreshPricesIfStale();
     } catch (error) {
       set({
         error: (error as Error).message,
@@ -316,6 +401,13 @@ export const useInvestmentStore = create<InvestmentState>((set, get) => ({
       if (input.holding_id) {
         await get().fetchHoldings();
       }
+      if (input.transaction_type === 'dividend') {
+        await get().fetchDividendSummary();
+      }
+      const gainsReport = get().gainsReport;
+      if (gainsReport) {
+        await get().fetchGainsReport(gainsReport.year);
+      }
 
       set({ isLoading: false });
     } catch (error) {
@@ -328,18 +420,19 @@ export const useInvestmentStore = create<InvestmentState>((set, get) => ({
   },
 
   // Update all prices
-  updatePrices: async () => {
+  updatePrices: async (options = {}) => {
     try {
       set({ isUpdatingPrices: true, error: null });
 
-      await investmentService.updatePrices();
+      const result = await investmentService.updatePrices(options);
 
       // Refresh holdings with new prices
       await get().fetchHoldings();
       await get().fetchCryptoHoldings();
       await get().fetchPortfolioSummary();
+      await get().fetchWatchlist({ forceRefresh: options.forceRefresh });
 
-      set({ isUpdatingPrices: false });
+      set({ isUpdatingPrices: false, lastPriceRefresh: result ?? null });
     } catch (error) {
       set({
         error: (error as Error).message,
@@ -349,6 +442,22 @@ export const useInvestmentStore = create<InvestmentState>((set, get) => ({
     }
   },
 
+  // Refresh prices when the last refresh is older than PRICE_REFRESH_INTERVAL
+  refreshPricesIfStale: async () => {
+    const { holdings, cryptoHoldings, watchlist, isUpdatingPrices, lastPriceRefresh } = get();
+    if (isUpdatingPrices || (holdings.length === 0 && cryptoHoldings.length === 0 && watchlist.length === 0)) return;
+
+    const lastRefresh = lastPriceRefresh ? Date.parse(lastPriceRefresh.refreshed_at) : 0;
+    if (Date.now() - lastRefresh < PRICE_REFRESH_INTERVAL) return;
+
+    try {
+      await get().updatePrices();
+    } catch (error) {
+      // Stale prices are still usable; the error is kept in state
+      logger.investment.warn('Background price refresh failed:', error);
+    }
+  },
+
   // Update a single holding's price
   updateHoldingPrice: async (id, price) => {
     try {
@@ -391,6 +500,71 @@ export const useInvestmentStore = create<InvestmentState>((set, get) => ({
     }
   },
 
+  // Set the target allocation used for rebalancing
+  saveTargetAllocation: async (input) => {
+    try {
+      set({ error: null });
+
+      const targetAllocation = await investmentService.saveTargetAllocation(input);
+      set({ targetAllocation });
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
+  // Add a symbol to the watchlist
+  addToWatchlist: async (input) => {
+    try {
+      set({ error: null });
+
+      await watchlistService.addToWatchlist(input);
+      await get().fetchWatchlist();
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
+  // Update a watchlist item's alert levels or notes
+  updateWatchlistItem: async (id, updates) => {
+    try {
+      set({ error: null });
+
+      const updated = await watchlistService.updateWatchlistItem(id, updates);
+      set((state) => ({
+        watchlist: state.watchlist.map((item) =>
+          item.id === id
+            ? watchlistService.withPrice(updated, {
+                price: item.current_price,
+                currency: item.currency,
+                change: item.day_change,
+                change_percent: item.day_change_percentage,
+              })
+            : item
+        ),
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
+  // Remove a symbol from the watchlist
+  removeFromWatchlist: async (id) => {
+    try {
+      set({ error: null });
+
+      await watchlistService.removeFromWatchlist(id);
+      set((state) => ({
+        watchlist: state.watchlist.filter((item) => item.id !== id),
+      }));
+    } catch (error) {
+      set({ error: (error as Error).message });
+      throw error;
+    }
+  },
+
   // Select a holding for detail view
   selectHolding: (holding) => {
     set({ selectedHolding: holding });
@@ -5,7 +5,7 @@
 
 import { create } from 'zustand';
 import { offlineReceiptQueue, type ReceiptQueueStatus, type PendingReceipt, type ProcessedReceipt } from '@/services/offlineReceiptQueue';
-import { scanReceipt } from '@/services/receiptScanner';
+import { scanReceipt, scanReceiptPages } from '@/services/receiptScanner';
 import type { ReceiptData, ReceiptScanResult } from '@/types/receipt';
 import { logger } from '@/utils/logger';
 
@@ -31,9 +31,9 @@ interface ReceiptState {
   initialize: () => Promise<void>;
   cleanup: () => void;
 
-  // Scanning
-  scanReceipt: (imageUri: string) => Promise<ReceiptScanResult>;
-  queueReceiptForLater: (imageUri: string) => Promise<string>;
+  // Scanning (pass several URIs for a receipt photographed in pages)
+  scanReceipt: (imageUri: string | string[]) => Promise<ReceiptScanResult>;
+  queueReceiptForLater: (imageUri: string | string[]) => Promise<string>;
 
   // Queue management
   refreshQueueStatus: () => void;
@@ -127,10 +127,10 @@ export const useReceiptStore = create<ReceiptState>((set, get) => {
     },
 
     /**
-     * Scan a receipt image
+     * Scan a receipt image, or all pages of one receipt
      * Will queue for later if offline
      */
-    scanReceipt: async (imageUri: string): Promise<ReceiptScanResult> => {
+    scanReceipt: async (imageUri: string | string[]): Promise<ReceiptScanResult> => {
       set({ isScanning: true, scanError: null });
 
       try {
@@ -153,7 +153,9 @@ export const useReceiptStore = create<ReceiptState>((set, get) => {
         }
 
         // Online - scan immediately
-        const result = await scanReceipt(imageUri);
+        const result = Array.isArray(imageUri)
+          ? await scanReceiptPages(imageUri)
+          : await scanReceipt(imageUri);
 
         if (result.success && result.data) {
           set({
@@ -188,7 +190,7 @@ export const useReceiptStore = create<ReceiptState>((set, get) => {
     /**
      * Queue a receipt for later processing (when back online)
      */
-    queueReceiptForLater: async (imageUri: string): Promise<string> => {
+    queueReceiptForLater: async (imageUri: string | string[]): Promise<string> => {
       try {
         const receiptId = await offlineReceiptQueue.addToQueue(imageUri);
         set({
@@ -5,6 +5,8 @@
 
 import { create } from 'zustand';
 import * as subscriptionService from '@/services/subscriptions';
+import * as subscriptionDetection from '@/services/subscriptionDetection';
+import type { RecurringChargeCandidate } from '@/services/subscriptionDetection';
 import { eventBus } from '@/services/eventBus';
 import type {
   Subscription,
@@ -20,6 +22,8 @@ interface SubscriptionState {
   currentSubscription: SubscriptionWithCategory | null;
   summary: SubscriptionSummary | null;
   upcomingRenewals: Subscription[];
+  detectedCharges: RecurringChargeCandidate[];
+  isDetecting: boolean;
   filters: { status?: SubscriptionStatus };
   isLoading: boolean;
   error: string | null;
@@ -33,6 +37,9 @@ interface SubscriptionState {
   updateSubscription: (id: string, data: Partial<Subscription>) => Promise<void>;
   cancelSubscription: (id: string, reason?: string) => Promise<void>;
   markAsUsed: (id: string) => Promise<void>;
+  detectRecurringCharges: () => Promise<void>;
+  acceptDetectedCharge: (candidate: RecurringChargeCandidate) => Promise<void>;
+  dismissDetectedCharge: (key: string) => Promise<void>;
   setFilters: (filters: { status?: SubscriptionStatus }) => void;
   generateCancellationEmail: (subscription: Subscription) => string;
   clearError: () => void;
@@ -44,6 +51,8 @@ export const useSubscriptionStore = create<SubscriptionState>((set, get) => ({
   currentSubscription: null,
   summary: null,
   upcomingRenewals: [],
+  detectedCharges: [],
+  isDetecting: false,
   filters: { status: 'active' },
   isLoading: false,
   error: null,
@@ -54,6 +63,18 @@ export const useSubscriptionStore = create<SubscriptionState>((set, get) => ({
       set({ isLoading: true, error: null });
 
       const filterStatus = status || get().filters.status;
+
+      // Match new charges and keep next billing dates current before showing them (best effort)
+      try {
+        await subscriptionService.trackSubscriptionCharges();
+      } catch {
+        // Price changes are picked up on the next fetch
+      }
+      try {
+        await subscriptionService.refreshBillingDates();
+      } catch {
+        // Stale dates are still shown
+      }
       const subscriptions = await subscriptionService.getSubscriptions(filterStatus);
 
       set({
@@ -200,6 +221,46 @@ export const useSubscriptionStore = create<SubscriptionState>((set, get) => ({
     }
   },
 
+  // Scan transaction history for subscriptions the user isn't tracking
+  detectRecurringCharges: async () => {
+    try {
+      set({ isDetecting: true });
+      const detectedCharges = await subscriptionDetection.findRecurringCharges();
+      set({ detectedCharges, isDetecting: false });
+    } catch (error) {
+      // Silent fail - detection is a suggestion only
+      set({ isDetecting: false });
+    }
+  },
+
+  // Save a detected charge as a subscription (or apply its price increase)
+  acceptDetectedCharge: async (candidate) => {
+    try {
+      set({ isLoading: true, error: null });
+      await subscriptionDetection.acceptRecurringCharge(candidate);
+
+      set({
+        detectedCharges: get().detectedCharges.filter((c) => c.key !== candidate.key),
+        isLoading: false,
+      });
+
+      await get().fetchSubscriptions();
+      await get().fetchSummary();
+    } catch (error) {
+      set({
+        error: (error as Error).message,
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+
+  // Hide a detected charge
+  dismissDetectedCharge: async (key) => {
+    set({ detectedCharges: get().detectedCharges.filter((c) => c.key !== key) });
+    await subscriptionDetection.dismissRecurringCharge(key);
+  },
+
   // Set filters
   setFilters: (filters) => {
     set({ filters: { ...get().filters, ...filters } });
@@ -17,6 +17,11 @@ import {
   convertCurrency as convertAmountSync,
   getFallbackRates,
 } from '@/services/exchangeRates';
+import { getLastRatesSnapshot } from '@/services/rateProvider';
+import { trackSubscriptionCharge } from '@/services/subscriptions';
+import { reconcileDebtPayment } from '@/services/debtManagement';
+import { scanRecentDuplicates } from '@/services/reconciliation';
+import { isDevMode } from '@/utils/devMode';
 import type {
   Transaction,
   TransactionWithCategory,
@@ -141,7 +146,9 @@ export const useTransactionStore = create<TransactionState>((set, get) => ({
 
     // Get user's display currency and exchange rates for proper conversion
     const userCurrency = useSettingsStore.getState().currency || 'AED';
-    const rates = getFallbackRates();
+    // Use the same rates as CurrencyContext once they've loaded
+    const snapshot = getLastRatesSnapshot();
+    const rates = snapshot?.base === 'USD' ? snapshot.rates : getFallbackRates();
 
     // Helper: convert a transaction's amount to the user's display currency
     const toUserCurrency = (amount: number, txCurrency: string): number => {
@@ -246,6 +253,11 @@ export const useTransactionStore = create<TransactionState>((set, get) => ({
 
       // Recalculate summaries after fetching
       get()._recalculateSummaries();
+
+      // The email webhooks insert without review; queue any duplicates they added
+      scanRecentDuplicates().catch((err) => {
+        logger.transaction.warn('Duplicate scan failed:', err);
+      });
     } catch (error) {
       set({
         error: (error as Error).message,
@@ -391,6 +403,20 @@ export const useTransactionStore = create<TransactionState>((set, get) => ({
         // QUANTUM Acknowledgment - show on transaction (but non-blocking)
         behaviorStore.triggerAcknowledgment(transaction as TransactionWithCategory);
 
+        // Price changes and trial conversions of tracked subscriptions
+        if (isOnline) {
+          trackSubscriptionCharge(transaction).catch((err) => {
+            logger.transaction.warn('Subscription charge tracking failed:', err);
+          });
+        }
+
+        // Card and loan payments pay down the matching debt
+        if (isOnline && !isDevMode() && transaction.transaction_type === 'payment') {
+          reconcileDebtPayment(transaction).catch((err) => {
+            logger.transaction.warn('Debt payment reconciliation failed:', err);
+          });
+        }
+
         // Run behavior evaluation in background (only if enough transactions)
         if (transactions.length >= 10) {
           // Process transaction for behavioral moments (non-blocking)
@@ -348,6 +348,9 @@ export const en = {
     factorDebt: 'Debt',
     factorBudget: 'Budg',
     factorEmergency: 'Emrg',
+    healthScoreUp: '{{points}} points higher than last month',
+    healthScoreDown: '{{points}} points lower than last month',
+    healthScoreSame: 'Same as last month',
   },
 
   // ==================== CHARTS ====================
@@ -471,6 +474,16 @@ export const en = {
     usageCount: '{{count}} times used',
     updateFailed: 'Failed to update subscription',
     deleteFailed: 'Failed to delete subscription',
+    detectedTitle: 'Found in Your Transactions',
+    detectedSummary: '{{frequency}} · {{count}} charges · {{confidence}}% match',
+    detectedNextCharge: 'Next charge {{date}}',
+    priceIncreased: 'Price up {{percent}}% (was {{amount}})',
+    addDetected: 'Add',
+    updateAmount: 'Update Amount',
+    dismissDetected: 'Not a Subscription',
+    detecting: 'Checking your transactions...',
+    freeTrialDays: 'Free Trial (days)',
+    freeTrialDaysPlaceholder: 'Leave empty if no trial',
   },
 
   // ==================== DEBTS ====================
@@ -496,6 +509,18 @@ export const en = {
     outstanding: 'outstanding',
     debtNamePlaceholder: 'e.g., Chase Credit Card, Car Loan',
     interestRatePlaceholder: 'e.g., 18.9',
+    promoInterestRate: 'Promo Interest Rate',
+    promoInterestRatePlaceholder: 'e.g., 0',
+    promoMonths: 'Promo Months',
+    promoMonthsPlaceholder: 'e.g., 12',
+    payoffPlan: 'Payoff Plan',
+    strategySnowball: 'Snowball',
+    strategyAvalanche: 'Avalanche',
+    extraPayment: 'Extra Monthly Payment',
+    debtFreeBy: 'Debt-free by {{date}}',
+    payoffInterest: '{{amount}} total interest',
+    payoffNeverEnds: 'Minimum payments do not cover the interest. Add an extra payment to get out of debt.',
+    avalancheSaves: 'Avalanche saves {{amount}} in interest',
     typeCreditCard: 'Credit Card',
     typePersonalLoan: 'Personal Loan',
     typeCarLoan: 'Car Loan',
@@ -719,8 +744,15 @@ export const en = {
 
     // Currency screen
     exchangeRatesUpdated: 'Exchange rates are updated every 6 hours',
+    exchangeRatesUpdatedAgo: 'Rates updated {{time}} via {{provider}}',
+    exchangeRatesStale: 'Rates are out of date (last updated {{time}}). Tap refresh when online.',
+    exchangeRatesOffline: 'Offline: using built-in reference rates',
     exchangeRatesDisclaimer: 'Exchange rates are indicative and may differ from actual bank or transaction rates. For accurate conversions, check with your financial institution.',
     currenciesAvailable: '{{count}} currencies available',
+    backfillRates: 'Record Historical Rates',
+    backfillRatesRunning: 'Recording rates... {{processed}}/{{total}}',
+    backfillRatesDone: '{{updated}} transactions now use the rate from their purchase date. {{skipped}} will be updated when rates are available.',
+    backfillRatesError: 'Could not record historical rates. Please try again.',
 
     // FIX 10: Analytics toggle
     analytics: 'Analytics',
@@ -888,10 +920,24 @@ export const en = {
     dateRange: 'Date Range',
     pdfReport: 'PDF Report',
     csvSpreadsheet: 'CSV Spreadsheet',
+    excelWorkbook: 'Excel Workbook',
     jsonBackup: 'JSON Backup',
-    formattedReport: 'Formatted financial report',
+    formattedReport: 'Paginated statement with charts',
     forExcelOrSheets: 'For Excel or Google Sheets',
+    multiSheetWorkbook: 'Transactions, budgets, subscriptions and category pivot',
     completeDataBackup: 'Complete data backup',
+    restoreBackup: 'Restore from Backup',
+    restoreBackupDescription: 'Restore a SpendTrak JSON backup. Merge adds anything missing; replace deletes your current data first.',
+    restoreMerge: 'Merge',
+    restoreReplace: 'Replace',
+    restore: 'Restore',
+    restoreMergeTitle: 'Merge Backup?',
+    restoreReplaceTitle: 'Replace All Data?',
+    restoreMergeMessage: 'Add {{count}} records from the backup made on {{date}}. Records you already have are skipped.',
+    restoreReplaceMessage: 'Delete your current data and restore {{count}} records from the backup made on {{date}}. This cannot be undone.',
+    restoreDone: 'Restored {{restored}} records ({{skipped}} skipped, {{failed}} failed).',
+    restoreFailed: 'Could not restore this backup. Please try again.',
+    restoreRolledBack: 'Could not restore this backup, so nothing was changed. Your previous data was kept.',
     last7Days: 'Last 7 days',
     last30Days: 'Last 30 days',
     last3Months: 'Last 3 months',
@@ -932,6 +978,52 @@ export const en = {
     loadingInvestments: 'Loading investments...',
     deleteInvestment: 'Delete Investment',
     shares: 'shares',
+    rebalancing: 'Rebalancing',
+    setTargets: 'Set targets',
+    editTargets: 'Edit targets',
+    noTargetAllocation: 'Set a target allocation to see how far your portfolio has drifted.',
+    targetPercent: 'Target {{percent}}%',
+    rebalanceFull: 'Rebalance',
+    rebalanceContributionsOnly: 'New money only',
+    newContribution: 'New Contribution',
+    rebalanceBuy: 'Buy {{amount}} of {{name}}',
+    rebalanceSell: 'Sell {{amount}} of {{name}}',
+    rebalanceShares: '{{shares}} shares',
+    driftWithinThreshold: 'Everything is within {{threshold}}% of target',
+    dividends: 'Dividends',
+    dividendsYtd: 'This Year',
+    yieldOnCost: 'Yield on Cost',
+    projectedDividends: 'Next 12 Months',
+    dividendDates: 'Ex {{exDate}} ({{days}}d) · Pays {{payDate}}',
+    capitalGains: 'Capital Gains',
+    exportGains: 'Export',
+    shortTermGains: 'Short Term',
+    longTermGains: 'Long Term',
+    realizedGains: 'Realized',
+    unrealizedGains: 'Unrealized',
+    watchlist: 'Watchlist',
+    watchlistEmpty: 'Follow symbols you don\'t hold and get alerted when they hit your levels',
+    toTarget: '{{percent}}% to target',
+
+    // Watchlist item modal
+    addToWatchlist: 'Add to Watchlist',
+    editWatchlistItem: 'Edit Watchlist Item',
+    symbol: 'Symbol',
+    watchlistName: 'Name',
+    targetPrice: 'Target Price',
+    alertAbove: 'Alert Above',
+    alertBelow: 'Alert Below',
+    alertPercentMove: 'Alert on Move (%)',
+    alertLevelsPositive: 'Alert levels must be greater than zero',
+    removeFromWatchlist: 'Remove from Watchlist',
+
+    // Target allocation modal
+    targetAllocation: 'Target Allocation',
+    byAssetClass: 'By Asset Class',
+    byHolding: 'By Holding',
+    targetTotal: 'Total {{percent}}%',
+    targetsMustTotal100: 'Targets must add up to 100%',
+    driftThreshold: 'Drift Threshold (%)',
 
     // Investment modal
     investmentName: 'Investment Name',
@@ -953,6 +1045,7 @@ export const en = {
     typeCrypto: 'Crypto',
     typeRealEstate: 'Real Estate',
     typeCommodity: 'Commodity',
+    typeCash: 'Cash',
     typeOther: 'Other',
 
     // Edit Subscription modal
@@ -1486,6 +1579,10 @@ export const en = {
     grantPermission: 'Grant Permission',
     scanReceipt: 'Scan Receipt',
     positionReceipt: 'Position the receipt within the frame',
+    captureNextPart: 'Long receipt? Capture the next part with a little overlap, or tap ✓ to scan',
+    pagesCaptured: '{{count}} of {{max}} photos',
+    removeLastPage: 'Remove last photo',
+    scanPages: 'Scan receipt',
   },
 
   // ==================== BILLS ====================
@@ -1499,6 +1596,15 @@ export const en = {
     tapToAddFirst: 'Tap + to add your first bill',
     deleteBill: 'Delete Bill',
     deleteConfirmMessage: 'Are you sure you want to delete "{{name}}"? This action cannot be undone.',
+    oneTime: 'One Time',
+    biweekly: 'Every 2 Weeks',
+    lastBusinessDay: 'Last Business Day of Month',
+    onWeekends: 'If Due on a Weekend',
+    weekendKeep: 'Keep Date',
+    weekendPrevious: 'Friday Before',
+    weekendNext: 'Monday After',
+    nextDue: 'Next due {{date}}',
+    ended: 'Ended',
   },
 
   // ==================== ONBOARDING TUNNEL ====================
@@ -1611,6 +1717,184 @@ export const en = {
     compromisedMessage: 'This device appears to be jailbroken or rooted. Your financial data may be at risk. We recommend using SpendTrak on a secure device.',
     dismiss: 'I Understand',
   },
+
+  // ==================== RECONCILIATION ====================
+  reconciliation: {
+    title: 'Review Duplicates',
+    subtitle: 'Possible duplicates found across email, receipts, imports and manual entries',
+    scanNow: 'Scan for Duplicates',
+    scanning: 'Scanning...',
+    noProposals: 'No duplicates to review',
+    noProposalsDescription: 'We check new transactions against your history before saving them',
+    pendingCount: '{{count}} to review',
+    existing: 'Existing',
+    incoming: 'New',
+    duplicate: 'Possible duplicate',
+    match: '{{percent}}% match',
+    merge: 'Merge',
+    keepBoth: 'Keep Both',
+    discard: 'Discard',
+    resolveError: 'Could not resolve this duplicate. Please try again.',
+    scanComplete: '{{count}} new possible duplicates found',
+    duplicateFoundTitle: 'Possible Duplicate',
+    duplicateFoundMessage: 'This looks like {{merchant}} on {{date}} that is already recorded. Merge them?',
+    saveAnyway: 'Save Anyway',
+    reviewLater: 'Review Later',
+    reasons: {
+      same_bank_id: 'Same bank reference',
+      amount_exact: 'Same amount',
+      amount_close: 'Similar amount',
+      same_day: 'Same day',
+      date_window: 'Close dates',
+      merchant_exact: 'Same merchant',
+      merchant_similar: 'Similar merchant',
+      card_match: 'Same card',
+    },
+  },
+
+  // ==================== STATEMENT IMPORT ====================
+  statementImport: {
+    title: 'Import Statement',
+    description: 'Import transactions from a CSV, OFX/QFX or QIF statement downloaded from your bank. Check the columns and preview before anything is saved.',
+    chooseFile: 'Choose Statement File',
+    chooseAnother: 'Choose Another File',
+    readError: 'Could not read this file. Please choose a CSV, OFX, QFX or QIF statement.',
+    fileSummary: '{{name}} · {{format}}',
+    mappingTitle: 'Columns',
+    mappingDescription: 'Match the statement columns to transaction fields. Use either one amount column or separate debit and credit columns.',
+    column: 'Column {{number}}',
+    notMapped: 'None',
+    fields: {
+      date: 'Date',
+      description: 'Description',
+      amount: 'Amount',
+      debit: 'Debit (money out)',
+      credit: 'Credit (money in)',
+      currency: 'Currency',
+      notes: 'Notes',
+    },
+    dateFormat: 'Date format',
+    decimalSeparator: 'Number format',
+    hasHeader: 'First row is a header',
+    invertSign: 'Purchases are positive amounts',
+    previewTitle: 'Preview',
+    previewSummary_one: '{{count}} transaction from {{start}} to {{end}}',
+    previewSummary_other: '{{count}} transactions from {{start}} to {{end}}',
+    previewEmpty: 'No transactions found with these settings',
+    previewTotals: 'Money out {{debits}} · Money in {{credits}}',
+    skipCredits: 'Skip deposits and refunds',
+    skippedCredits_one: '{{count}} deposit or refund skipped',
+    skippedCredits_other: '{{count}} deposits and refunds skipped',
+    noAmountColumn: 'Map an amount column, or debit and credit columns',
+    rowErrors_one: '{{count}} row could not be read',
+    rowErrors_other: '{{count}} rows could not be read',
+    rowError: 'Line {{line}}: {{message}}',
+    moreRows_one: 'and {{count}} more',
+    moreRows_other: 'and {{count}} more',
+    import_one: 'Import {{count}} Transaction',
+    import_other: 'Import {{count}} Transactions',
+    importing: 'Importing {{completed}} of {{total}}...',
+    importError: 'The import could not be completed. Please try again.',
+    doneTitle: 'Import Complete',
+    doneMessage: '{{imported}} imported, {{skipped}} already imported, {{queued}} possible duplicates sent for review, {{failed}} failed',
+  },
+
+  // ==================== EMAIL DIGEST ====================
+  emailDigest: {
+    title: 'Email Digest',
+    description: 'A summary of your spending, budgets, upcoming bills and goals, sent to {{email}}.',
+    enable: 'Send me a digest',
+    frequency: 'Frequency',
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+    off: 'Off',
+    sendOn: 'Send on',
+    dayOfMonth: 'Day of the month',
+    weeklyHint: 'Covers the 7 days before the day it is sent.',
+    monthlyHint: 'Covers the previous calendar month.',
+    saveError: 'Could not save your digest settings. Please try again.',
+  },
+
+  categorizationRules: {
+    title: 'Categorization Rules',
+    description: 'Rules run on every new transaction, top to bottom. For each change, the first matching rule wins.',
+    empty: 'No rules yet. Add one, or correct a transaction\'s category and save it as a rule.',
+    addRule: 'Add Rule',
+    newRule: 'New Rule',
+    editRule: 'Edit Rule',
+    name: 'Rule name',
+    namePlaceholder: 'e.g. Coffee shops',
+    conditions: 'When',
+    actions: 'Then',
+    merchantPattern: 'Merchant matches',
+    merchantPatternHint: 'Regular expression, not case-sensitive. e.g. starbucks|costa',
+    invalidPattern: 'This is not a valid regular expression',
+    amountMin: 'Amount at least',
+    amountMax: 'Amount at most',
+    amountRangeInvalid: 'The minimum must not exceed the maximum',
+    cardLastFour: 'Card (last 4 digits)',
+    bankName: 'Bank',
+    source: 'Source',
+    anySource: 'Any',
+    sourceEmail: 'Email',
+    sourceReceipt: 'Receipt',
+    sourceManual: 'Manual',
+    sourceImport: 'Import',
+    setCategory: 'Set category',
+    renameMerchant: 'Rename merchant to',
+    appendNotes: 'Add to notes',
+    recurring: 'Recurring',
+    leaveAsIs: 'Leave as is',
+    markRecurring: 'Mark recurring',
+    markNotRecurring: 'Not recurring',
+    needsAction: 'Choose at least one change for the rule to make',
+    active: 'Active',
+    paused: 'Paused',
+    matchCount_one: 'Matched {{count}} transaction',
+    matchCount_other: 'Matched {{count}} transactions',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    deleteRule: 'Delete Rule',
+    deleteConfirm: 'Delete the rule "{{name}}"? Transactions it already changed stay as they are.',
+    pastTransactions: 'Past transactions',
+    previewPast: 'Preview matches',
+    noPastMatches: 'No past transactions would change',
+    pastMatches_one: '{{count}} past transaction would change. Untick any to leave alone.',
+    pastMatches_other: '{{count}} past transactions would change. Untick any to leave alone.',
+    applyToPast_one: 'Apply to {{count}} past transaction',
+    applyToPast_other: 'Apply to {{count}} past transactions',
+    appliedToPast_one: 'Updated {{count}} past transaction',
+    appliedToPast_other: 'Updated {{count}} past transactions',
+    // Correcting a transaction
+    createRuleTitle: 'Always categorize {{merchant}}?',
+    createRuleMessage: 'Create a rule so future transactions from {{merchant}} go to {{category}}.',
+    createRule: 'Create Rule',
+    notNow: 'Not Now',
+    saveError: 'Could not save the rule. Please try again.',
+  },
+
+  // Category Classifier
+  categoryClassifier: {
+    suggested: 'Suggested',
+    suggestionLabel: '{{category}}, {{confidence}}% likely',
+  },
+
+  // Merchants
+  merchants: {
+    title: 'Merchants',
+    description: 'Select merchants that are really the same place and merge them. Past transactions move to the merchant you keep.',
+    empty: 'Merchants show up here once you have transactions.',
+    transactionCount_one: '{{count}} transaction',
+    transactionCount_other: '{{count}} transactions',
+    keepAs: 'Keep as',
+    merge: 'Merge {{count}} merchants',
+    clearSelection: 'Clear selection',
+    mergeTitle: 'Merge into {{merchant}}?',
+    mergeMessage: '{{merchants}} will be shown as {{merchant}} from now on, including past transactions.',
+    merged_one: 'Merged. {{count}} transaction was updated.',
+    merged_other: 'Merged. {{count}} transactions were updated.',
+    mergeError: 'Could not merge the merchants. Please try again.',
+  },
 };
 
 export type TranslationKeys = typeof en;
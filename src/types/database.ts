@@ -15,6 +15,8 @@ export type AlertType =
   | 'duplicate_charge'
   | 'price_increase'
   | 'free_trial_ending'
+  | 'trial_converted'
+  | 'missed_renewal'
   | 'subscription_renewal'
   | 'large_transaction'
   | 'budget_warning'
@@ -23,7 +25,8 @@ export type AlertType =
   | 'low_balance'
   | 'goal_milestone'
   | 'weekly_summary'
-  | 'monthly_report';
+  | 'monthly_report'
+  | 'price_target';
 export type AlertSeverity = 'info' | 'warning' | 'critical';
 export type GoalType =
   | 'emergency_fund'
@@ -55,9 +58,14 @@ export type RewardType = 'cashback' | 'miles' | 'points';
 // USER TYPES
 // ============================================
 
+export type DigestFrequency = 'weekly' | 'monthly';
+
 export interface NotificationPreferences {
   push_enabled: boolean;
   email_digest: boolean;
+  email_digest_frequency: DigestFrequency;
+  /** Day the digest goes out: 0-6 (Sunday first) for weekly, 1-28 for monthly */
+  email_digest_day: number;
   alert_unusual_spending: boolean;
   alert_subscriptions: boolean;
   alert_budget: boolean;
@@ -164,6 +172,69 @@ export interface TransactionWithCategory extends Transaction {
 export type TransactionInsert = Omit<Transaction, 'id' | 'created_at' | 'updated_at'>;
 export type TransactionUpdate = Partial<Omit<Transaction, 'id' | 'user_id' | 'created_at'>>;
 
+/**
+ * User-defined rule applied to new transactions. Every condition that is set
+ * must match; rules run in ascending priority and, for each action, the first
+ * matching rule wins.
+ */
+export interface CategorizationRule {
+  id: string;
+  user_id: string;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  // Conditions (null = any)
+  /** Case-insensitive regular expression tested against the merchant name */
+  merchant_pattern: string | null;
+  /** Bounds on the absolute amount, inclusive */
+  amount_min: number | null;
+  amount_max: number | null;
+  card_last_four: string | null;
+  source: TransactionSource | null;
+  /** Case-insensitive exact bank name */
+  bank_name: string | null;
+  // Actions (null = leave as is)
+  set_category_id: string | null;
+  set_merchant_name: string | null;
+  /** Canonical key of set_merchant_name, resolved when the rule is saved */
+  set_merchant_key: string | null;
+  append_notes: string | null;
+  set_recurring: boolean | null;
+  match_count: number;
+  last_matched_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CategorizationRuleInsert = Omit<
+  CategorizationRule,
+  'id' | 'user_id' | 'set_merchant_key' | 'match_count' | 'last_matched_at' | 'created_at' | 'updated_at'
+>;
+export type CategorizationRuleUpdate = Partial<Omit<CategorizationRule, 'id' | 'user_id' | 'created_at'>>;
+
+/**
+ * A user's canonical merchant. Overrides the built-in directory entry with the
+ * same key; null fields fall back to it.
+ */
+export interface Merchant {
+  id: string;
+  user_id: string;
+  /** Canonical key, stored in transactions.merchant_name_clean */
+  key: string;
+  name: string;
+  /** Normalized descriptors and merged merchant keys that resolve here */
+  aliases: string[];
+  icon: string | null;
+  logo_url: string | null;
+  website: string | null;
+  default_category_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MerchantInsert = Omit<Merchant, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type MerchantUpdate = Partial<Omit<Merchant, 'id' | 'user_id' | 'key' | 'created_at'>>;
+
 // ============================================
 // SUBSCRIPTION TYPES
 // ============================================
@@ -181,6 +252,7 @@ export interface Subscription {
   billing_day: number | null;
   next_billing_date: string | null;
   last_billing_date: string | null;
+  trial_end_date: string | null;
   status: SubscriptionStatus;
   cancellation_url: string | null;
   cancellation_instructions: string | null;
@@ -201,6 +273,22 @@ export interface SubscriptionWithCategory extends Subscription {
 export type SubscriptionInsert = Omit<Subscription, 'id' | 'created_at' | 'updated_at'>;
 export type SubscriptionUpdate = Partial<Omit<Subscription, 'id' | 'user_id' | 'created_at'>>;
 
+/** A transaction matched to a subscription (its price history) */
+export interface SubscriptionCharge {
+  id: string;
+  user_id: string;
+  subscription_id: string;
+  transaction_id: string | null;
+  amount: number;
+  currency: string;
+  charged_on: string;
+  previous_amount: number | null;
+  change_percent: number | null;
+  created_at: string;
+}
+
+export type SubscriptionChargeInsert = Omit<SubscriptionCharge, 'id' | 'created_at'>;
+
 // ============================================
 // ALERT TYPES
 // ============================================
@@ -222,6 +310,10 @@ export interface Alert {
   is_actioned: boolean;
   read_at: string | null;
   expires_at: string | null;
+  /** Set on alerts raised by the run-alert-checks scheduler */
+  dedupe_key?: string | null;
+  /** When the scheduler pushed the alert */
+  pushed_at?: string | null;
   created_at: string;
 }
 
@@ -461,6 +553,31 @@ export interface ReceiptScanUsage {
   scans_limit: number;
 }
 
+/** A single line from a scanned receipt, linked to the transaction it was saved as */
+export interface ReceiptLineItem {
+  id: string;
+  user_id: string;
+  transaction_id: string;
+  receipt_scan_id: string | null;
+  position: number;
+  name: string;
+  /** Lowercased name without sizes/quantities, used to match the same product across receipts */
+  normalized_name: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  currency: string;
+  /** Category reported by the receipt scanner (food, grocery, ...) */
+  item_category: string | null;
+  category_id: string | null;
+  merchant_name: string | null;
+  purchase_date: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ReceiptLineItemInsert = Omit<ReceiptLineItem, 'id' | 'created_at' | 'updated_at'>;
+
 export interface AIChatUsage {
   id: string;
   user_id: string;
@@ -612,7 +729,7 @@ export type CustomDatePresetUpdate = Partial<Omit<CustomDatePreset, 'id' | 'user
 // ============================================
 
 export type ExportType = 'csv' | 'excel' | 'pdf' | 'json';
-export type ExportDataType = 'transactions' | 'subscriptions' | 'budgets' | 'all';
+export type ExportDataType = 'transactions' | 'subscriptions' | 'budgets' | 'investments' | 'all';
 
 export interface ExportHistory {
   id: string;
@@ -652,6 +769,9 @@ export interface Debt {
   original_balance: number;
   current_balance: number;
   interest_rate: number;
+  /** Rate charged until promo_end_date (balance transfers, 0% offers) */
+  promo_interest_rate: number | null;
+  promo_end_date: string | null;
   minimum_payment: number;
   due_date: number; // Day of month (1-31)
   currency: string;
@@ -699,6 +819,37 @@ export interface PayoffPlan {
   payoff_date: string;
 }
 
+/** One debt's line in a simulated month */
+export interface PayoffScheduleEntry {
+  debt_id: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface PayoffScheduleMonth {
+  month: number; // 1 = first simulated month
+  date: string; // YYYY-MM-01
+  entries: PayoffScheduleEntry[];
+  total_payment: number;
+  total_interest: number;
+  total_balance: number;
+}
+
+export interface PayoffSchedule {
+  strategy: PayoffStrategy;
+  months: PayoffScheduleMonth[];
+  /** Per-debt results, in payoff priority order */
+  plans: PayoffPlan[];
+  total_interest: number;
+  total_paid: number;
+  months_to_debt_free: number;
+  debt_free_date: string | null;
+  /** False when the payments never clear the balances within the horizon */
+  is_complete: boolean;
+}
+
 export interface DebtSummary {
   total_debt: number;
   total_minimum_payments: number;
@@ -892,6 +1043,22 @@ export type AssetUpdate = Partial<Omit<Asset, 'id' | 'user_id' | 'created_at'>>;
 export type LiabilityInsert = Omit<Liability, 'id' | 'created_at' | 'updated_at'>;
 export type LiabilityUpdate = Partial<Omit<Liability, 'id' | 'user_id' | 'created_at'>>;
 
+/** Monthly record of the financial health score (one row per user per month) */
+export interface FinancialHealthSnapshot {
+  id: string;
+  user_id: string;
+  /** First day of the month (YYYY-MM-01) */
+  month: string;
+  overall: number;
+  grade: string;
+  factors: Record<string, number>;
+  details: Record<string, number>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type FinancialHealthSnapshotInsert = Omit<FinancialHealthSnapshot, 'id' | 'created_at' | 'updated_at'>;
+
 // ============================================
 // PHASE 3 FEATURES - PARTNER/SPOUSE SHARING
 // ============================================
@@ -1035,6 +1202,8 @@ export interface Bill {
   frequency: IncomeFrequency;
   start_date: string;
   end_date: string | null;
+  /** Optional RRULE (e.g. last business day, weekend shift); overrides frequency + due_day */
+  recurrence_rule?: string | null;
   auto_pay: boolean;
   reminder_days: number;
   is_essential: boolean;
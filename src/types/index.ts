@@ -25,6 +25,7 @@ export type {
   CardType,
   RewardType,
   // User types
+  DigestFrequency,
   NotificationPreferences,
   User,
   UserInsert,
@@ -42,11 +43,19 @@ export type {
   TransactionWithCategory,
   TransactionInsert,
   TransactionUpdate,
+  CategorizationRule,
+  CategorizationRuleInsert,
+  CategorizationRuleUpdate,
+  Merchant,
+  MerchantInsert,
+  MerchantUpdate,
   // Subscription types
   Subscription,
   SubscriptionWithCategory,
   SubscriptionInsert,
   SubscriptionUpdate,
+  SubscriptionCharge,
+  SubscriptionChargeInsert,
   // Alert types
   Alert,
   AlertInsert,
@@ -80,6 +89,8 @@ export type {
   ReceiptParseResult,
   ReceiptScan,
   ReceiptScanUsage,
+  ReceiptLineItem,
+  ReceiptLineItemInsert,
   // AI Chat Usage (rate limiting)
   AIChatUsage,
   SavingsLog,
@@ -117,6 +128,9 @@ export type {
   DebtPayment,
   DebtWithPayments,
   PayoffPlan,
+  PayoffScheduleEntry,
+  PayoffScheduleMonth,
+  PayoffSchedule,
   DebtSummary,
   DebtInsert,
   DebtUpdate,
@@ -145,6 +159,8 @@ export type {
   AssetUpdate,
   LiabilityInsert,
   LiabilityUpdate,
+  FinancialHealthSnapshot,
+  FinancialHealthSnapshotInsert,
   // Phase 3 - Partner/Spouse Sharing
   HouseholdRole,
   InviteStatus,
@@ -225,19 +241,39 @@ export type {
   InvestmentTransactionWithHolding,
   InvestmentTransactionInsert,
   InvestmentTransactionUpdate,
+  // Tax lot types
+  LotSelectionMethod,
+  TaxLotSource,
+  GainTerm,
+  TaxLot,
+  TaxLotInsert,
+  LotDisposal,
+  LotDisposalInsert,
+  LotSelection,
+  UnrealizedLotGain,
+  GainsTotals,
+  GainsReport,
   // Portfolio summary types
   PortfolioSummary,
   PortfolioPerformance,
   // Dividend types
+  DividendType,
+  DividendFrequency,
   DividendPayment,
+  DividendPaymentInsert,
+  DividendCalendarEntry,
+  DividendHoldingYield,
   DividendSummary,
   // Watchlist types
   WatchlistItem,
   WatchlistItemWithPrice,
   WatchlistItemInsert,
   WatchlistItemUpdate,
+  WatchlistTriggerType,
+  WatchlistTrigger,
   // Rebalancing types
   TargetAllocation,
+  RebalanceMode,
   RebalanceRecommendation,
   RebalancePlan,
   // API input types
@@ -245,9 +281,13 @@ export type {
   UpdateHoldingInput,
   CreateCryptoHoldingInput,
   RecordTransactionInput,
+  AddWatchlistItemInput,
+  SaveTargetAllocationInput,
+  RebalanceOptions,
   // Price API types
   StockQuote,
   CryptoQuote,
+  PriceRefreshResult,
 } from './investments';
 
 export {
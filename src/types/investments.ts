@@ -91,8 +91,10 @@ export interface InvestmentPrice {
   symbol: string;
   price: number;
   currency: string;
+  change_amount: number | null;
+  change_percent: number | null;
   price_date: string;
-  source: 'plaid' | 'api' | 'manual';
+  source: 'plaid' | 'api' | 'manual' | 'fixture';
   created_at: string;
 }
 
@@ -194,6 +196,94 @@ export interface InvestmentTransactionWithHolding extends InvestmentTransaction
 export type InvestmentTransactionInsert = Omit<InvestmentTransaction, 'id' | 'created_at' | 'updated_at'>;
 export type InvestmentTransactionUpdate = Partial<Omit<InvestmentTransaction, 'id' | 'user_id' | 'created_at'>>;
 
+// ============================================
+// TAX LOT TYPES
+// ============================================
+
+export type LotSelectionMethod = 'fifo' | 'lifo' | 'highest_cost' | 'specific_id';
+
+export type TaxLotSource = 'buy' | 'transfer_in' | 'dividend_reinvestment' | 'opening_balance';
+
+/** Held more than a year is long term */
+export type GainTerm = 'short' | 'long';
+
+export interface TaxLot {
+  id: string;
+  user_id: string;
+  holding_id: string | null;
+  /** Transaction that opened the lot; null for opening balances */
+  investment_transaction_id: string | null;
+  symbol: string;
+  source: TaxLotSource;
+  acquired_date: string;
+  /** Shares acquired, adjusted for splits */
+  quantity: number;
+  remaining_quantity: number;
+  /** Including fees, adjusted for splits */
+  cost_per_share: number;
+  currency: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TaxLotInsert = Omit<TaxLot, 'id' | 'created_at' | 'updated_at'>;
+
+export interface LotDisposal {
+  id: string;
+  user_id: string;
+  lot_id: string;
+  sell_transaction_id: string | null;
+  symbol: string;
+  quantity: number;
+  acquired_date: string;
+  disposed_date: string;
+  /** Net of fees */
+  proceeds: number;
+  cost_basis: number;
+  realized_gain: number;
+  term: GainTerm;
+  currency: string;
+  created_at: string;
+}
+
+export type LotDisposalInsert = Omit<LotDisposal, 'id' | 'created_at'>;
+
+export interface LotSelection {
+  lot_id: string;
+  quantity: number;
+}
+
+export interface UnrealizedLotGain {
+  lot_id: string;
+  symbol: string;
+  acquired_date: string;
+  quantity: number;
+  cost_basis: number;
+  market_value: number;
+  unrealized_gain: number;
+  term: GainTerm;
+}
+
+export interface GainsTotals {
+  proceeds: number;
+  cost_basis: number;
+  gain: number;
+}
+
+export interface GainsReport {
+  year: number;
+  /** Lots sold during the year */
+  realized: LotDisposal[];
+  /** Lots still open, at current prices */
+  unrealized: UnrealizedLotGain[];
+  short_term: GainsTotals;
+  long_term: GainsTotals;
+  unrealized_short_term: number;
+  unrealized_long_term: number;
+  total_realized_gain: number;
+  total_unrealized_gain: number;
+}
+
 // ============================================
 // PORTFOLIO SUMMARY TYPES
 // ============================================
@@ -243,32 +333,72 @@ export interface PortfolioPerformance {
 // DIVIDEND TRACKING TYPES
 // ============================================
 
+export type DividendType = 'regular' | 'special' | 'qualified' | 'return_of_capital';
+
+export type DividendFrequency = 'monthly' | 'quarterly' | 'semi_annual' | 'annual';
+
 export interface DividendPayment {
   id: string;
-  holding_id: string;
+  user_id: string;
+  holding_id: string | null;
+  /** The 'dividend' investment transaction this payment was recorded from */
+  investment_transaction_id: string | null;
+  /** Matching income entry, so the dividend counts in cash flow */
+  income_id: string | null;
   symbol: string;
   amount: number;
+  currency: string;
+  amount_per_share: number | null;
+  shares: number | null;
   ex_dividend_date: string;
   payment_date: string;
   record_date: string | null;
-  dividend_type: 'regular' | 'special' | 'qualified' | 'return_of_capital';
+  dividend_type: DividendType;
   reinvested: boolean;
   reinvested_shares: number | null;
   created_at: string;
 }
 
+export type DividendPaymentInsert = Omit<DividendPayment, 'id' | 'created_at'>;
+
+export interface DividendCalendarEntry {
+  symbol: string;
+  name: string;
+  ex_date: string;
+  pay_date: string;
+  estimated_amount: number;
+  frequency: DividendFrequency;
+}
+
+export interface DividendHoldingYield {
+  symbol: string;
+  name: string;
+  /** Dividends received over the trailing 12 months */
+  trailing_dividends: number;
+  cost_basis: number;
+  /** Trailing 12-month dividends as a percentage of cost basis */
+  yield_on_cost: number;
+  frequency: DividendFrequency | null;
+}
+
 export interface DividendSummary {
   total_dividends_ytd: number;
   total_dividends_last_year: number;
+  /** Dividends received over the trailing 12 months */
+  trailing_12m_dividends: number;
   average_monthly_dividends: number;
+  /** Trailing 12 months against the 12 months before, as a percentage */
   dividend_growth_rate: number;
-  upcoming_dividends: Array<{
-    symbol: string;
-    name: string;
-    ex_date: string;
-    estimated_amount: number;
-  }>;
+  yield_on_cost: number;
+  /** Expected dividends over the next 12 months at current share counts */
+  projected_12m_income: number;
+  /** Next expected ex-date and pay date for each dividend payer */
+  upcoming_dividends: DividendCalendarEntry[];
+  /** Received dividends over the last 12 months (YYYY-MM -> amount) */
   dividend_by_month: Record<string, number>;
+  /** Projected dividends over the next 12 months (YYYY-MM -> amount) */
+  projected_by_month: Record<string, number>;
+  holdings: DividendHoldingYield[];
 }
 
 // ============================================
@@ -281,9 +411,17 @@ export interface WatchlistItem {
   symbol: string;
   name: string;
   investment_type: InvestmentType;
+  /** Alert when the price reaches this level from either side */
   target_price: number | null;
   alert_above: number | null;
   alert_below: number | null;
+  /** Alert when the price moves this many percent from reference_price */
+  alert_percent_change: number | null;
+  /** Price the percent-move trigger measures from; reset each time it fires */
+  reference_price: number | null;
+  /** Price at the last check, used to detect crossings */
+  last_price: number | null;
+  last_price_update: string | null;
   notes: string | null;
   created_at: string;
   updated_at: string;
@@ -291,11 +429,23 @@ export interface WatchlistItem {
 
 export interface WatchlistItemWithPrice extends WatchlistItem {
   current_price: number;
+  currency: string;
   day_change: number;
   day_change_percentage: number;
+  /** Percent the price still has to move to reach target_price */
   distance_to_target: number | null;
 }
 
+export type WatchlistTriggerType = 'target' | 'above' | 'below' | 'percent_move';
+
+export interface WatchlistTrigger {
+  type: WatchlistTriggerType;
+  symbol: string;
+  price: number;
+  /** The level crossed, or the percent move for 'percent_move' */
+  threshold: number;
+}
+
 export type WatchlistItemInsert = Omit<WatchlistItem, 'id' | 'created_at' | 'updated_at'>;
 export type WatchlistItemUpdate = Partial<Omit<WatchlistItem, 'id' | 'user_id' | 'created_at'>>;
 
@@ -307,8 +457,11 @@ export interface TargetAllocation {
   id: string;
   user_id: string;
   name: string;
-  target_type: 'type' | 'sector' | 'custom';
+  /** 'type' targets asset classes (InvestmentType), 'holding' targets symbols */
+  target_type: 'type' | 'holding';
   allocations: Record<string, number>; // key -> percentage
+  /** Percentage points a key may drift from its target before a rebalance is suggested */
+  drift_threshold: number;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -317,18 +470,31 @@ export interface TargetAllocation {
 export interface RebalanceRecommendation {
   symbol: string;
   name: string;
+  current_value: number;
   current_allocation: number;
   target_allocation: number;
+  /** Current minus target allocation, in percentage points */
   difference: number;
+  exceeds_threshold: boolean;
   action: 'buy' | 'sell' | 'hold';
   amount: number;
+  /** Shares to trade; 0 for asset-class targets */
   shares: number;
 }
 
+export type RebalanceMode = 'full' | 'contributions_only';
+
 export interface RebalancePlan {
   target_allocation: TargetAllocation;
+  mode: RebalanceMode;
+  /** New money to invest alongside the rebalance */
+  contribution: number;
+  total_value: number;
   current_allocations: Record<string, number>;
   recommendations: RebalanceRecommendation[];
+  /** Largest absolute drift from target, in percentage points */
+  max_drift: number;
+  needs_rebalance: boolean;
   estimated_trades: number;
   estimated_cost: number;
 }
@@ -350,6 +516,31 @@ export interface CreateHoldingInput {
   notes?: string;
 }
 
+export interface AddWatchlistItemInput {
+  symbol: string;
+  name: string;
+  investment_type: InvestmentType;
+  target_price?: number | null;
+  alert_above?: number | null;
+  alert_below?: number | null;
+  alert_percent_change?: number | null;
+  notes?: string | null;
+}
+
+export interface SaveTargetAllocationInput {
+  name?: string;
+  target_type: TargetAllocation['target_type'];
+  allocations: Record<string, number>;
+  drift_threshold?: number;
+}
+
+export interface RebalanceOptions {
+  mode?: RebalanceMode;
+  contribution?: number;
+  /** Flat cost per trade, used for estimated_cost */
+  trade_fee?: number;
+}
+
 export interface UpdateHoldingInput {
   quantity?: number;
   cost_basis?: number;
@@ -382,6 +573,17 @@ export interface RecordTransactionInput {
   fees?: number;
   transaction_date: string;
   notes?: string;
+  /** Dividends only; defaults to the transaction date */
+  ex_dividend_date?: string;
+  dividend_type?: DividendType;
+  /** Dividends only: shares bought by reinvesting the payment */
+  reinvested_shares?: number;
+  /** Sells only; defaults to FIFO */
+  lot_method?: LotSelectionMethod;
+  /** Sells with 'specific_id': the lots to sell from */
+  lot_selections?: LotSelection[];
+  /** Splits only: new shares per old share (2 for a 2-for-1 split, 0.1 for 1-for-10) */
+  split_ratio?: number;
 }
 
 // ============================================
@@ -392,6 +594,8 @@ export interface StockQuote {
   symbol: string;
   name: string;
   price: number;
+  /** Currency the exchange quotes the symbol in */
+  currency: string;
   change: number;
   change_percent: number;
   volume: number;
@@ -407,6 +611,7 @@ export interface CryptoQuote {
   symbol: string;
   name: string;
   price: number;
+  currency: string;
   change_24h: number;
   change_24h_percent: number;
   volume_24h: number;
@@ -418,6 +623,17 @@ export interface CryptoQuote {
   updated_at: string;
 }
 
+export interface PriceRefreshResult {
+  /** Holdings and crypto holdings whose price was refreshed */
+  updated: number;
+  /** Symbols no provider could quote */
+  missing: string[];
+  /** Providers that answered */
+  providers: string[];
+  refreshed_at: string;
+  snapshot_created: boolean;
+}
+
 // ============================================
 // COMMON CONSTANTS
 // ============================================
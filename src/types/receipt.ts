@@ -51,6 +51,16 @@ export interface ReceiptData {
   currency: string; // ISO code like USD, AED, EUR
   confidence_score: number; // 0-1 how confident the extraction is
   raw_text?: string; // optional: full OCR text for debugging
+  page_count?: number; // set when several photos were merged into one receipt
+  reconciliation?: ReceiptReconciliation;
+}
+
+// How a multi-page receipt's payment section compares with its summed items
+export interface ReceiptReconciliation {
+  items_total: number;
+  difference: number; // items_total - payment.subtotal
+  balanced: boolean;
+  duplicates_removed: number; // items dropped where consecutive photos overlapped
 }
 
 export interface ReceiptScanResult {
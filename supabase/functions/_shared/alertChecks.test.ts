@@ -0,0 +1,169 @@
+/**
+ * Scheduled alert check tests
+ * Run with: deno test supabase/functions/_shared/alertChecks.test.ts
+ */
+
+import { assert, assertEquals, assertObjectMatch } from 'jsr:@std/assert@1';
+import {
+  addDays,
+  findBudgetAlerts,
+  findDuplicateCharges,
+  findMissingBillPayments,
+  findUnusualSpending,
+  findUpcomingBills,
+  findUpcomingRenewals,
+  isAlertTypeEnabled,
+  isQuietHours,
+  localClock,
+  type CheckTransaction,
+} from './alertChecks.ts';
+
+const TODAY = '2026-10-19';
+
+const txn = (overrides: Partial<CheckTransaction>): CheckTransaction => ({
+  id: 't-1',
+  amount: 20,
+  transaction_date: TODAY,
+  category_id: 'food',
+  category_name: 'Food',
+  merchant_name: 'Cafe',
+  merchant_name_clean: 'cafe',
+  ...overrides,
+});
+
+Deno.test('localClock reads the date and time in the user timezone', () => {
+  const now = new Date('2026-10-19T22:30:00Z');
+
+  assertEquals(localClock(now, 'Asia/Dubai'), { date: '2026-10-20', minutes: 150 });
+  assertEquals(localClock(now, 'America/New_York'), { date: '2026-10-19', minutes: 18 * 60 + 30 });
+  assertEquals(localClock(now, 'Not/AZone'), { date: '2026-10-19', minutes: 22 * 60 + 30 });
+});
+
+Deno.test('isQuietHours handles ranges across midnight', () => {
+  const overnight = { quiet_hours_start: '22:00', quiet_hours_end: '07:00' };
+
+  assert(isQuietHours(overnight, 23 * 60));
+  assert(isQuietHours(overnight, 6 * 60 + 59));
+  assert(!isQuietHours(overnight, 7 * 60));
+  assert(isQuietHours({ quiet_hours_start: '13:00', quiet_hours_end: '14:00' }, 13 * 60 + 30));
+  assert(!isQuietHours({ quiet_hours_start: null, quiet_hours_end: '07:00' }, 60));
+});
+
+Deno.test('isAlertTypeEnabled follows the per-type toggles', () => {
+  assert(!isAlertTypeEnabled({ alert_unusual_spending: false }, 'duplicate_charge'));
+  assert(!isAlertTypeEnabled({ alert_budget: false }, 'budget_exceeded'));
+  assert(isAlertTypeEnabled({}, 'upcoming_bill'));
+  assert(isAlertTypeEnabled(null, 'subscription_renewal'));
+});
+
+Deno.test('findUnusualSpending compares the week with the 12 weeks before', () => {
+  const history = Array.from({ length: 12 }, (_, week) =>
+    txn({ id: `h-${week}`, amount: 50, transaction_date: `2026-0${week < 6 ? 8 : 9}-${String(10 + (week % 6)).padStart(2, '0')}` })
+  );
+
+  const [alert] = findUnusualSpending([...history, txn({ amount: 120 }), txn({ id: 't-2', amount: 60, transaction_date: '2026-10-15' })], TODAY, 'USD');
+
+  assertObjectMatch(alert, {
+    alert_type: 'unusual_spending',
+    severity: 'critical',
+    title: 'High Food spending',
+    related_entity_id: 'food',
+    dedupe_key: 'unusual_spending:food:2026-10-19',
+  });
+  assertEquals(alert.data.percentage_over, 260);
+  assertEquals(findUnusualSpending([...history, txn({ amount: 60 })], TODAY, 'USD'), []);
+});
+
+Deno.test('findDuplicateCharges keys on the charges involved', () => {
+  const alerts = findDuplicateCharges(
+    [
+      txn({ id: 'b', amount: 9.99, merchant_name: 'Netflix', merchant_name_clean: 'netflix' }),
+      txn({ id: 'a', amount: 9.99, merchant_name: 'Netflix', merchant_name_clean: 'netflix', transaction_date: '2026-10-17' }),
+      txn({ id: 'c', amount: 4.5 }),
+      txn({ id: 'd', amount: 4.5, transaction_date: '2026-10-01' }),
+    ],
+    TODAY,
+    'USD'
+  );
+
+  assertEquals(alerts.length, 1);
+  assertEquals(alerts[0].dedupe_key, 'duplicate_charge:a,b');
+  assertEquals(alerts[0].message, 'Netflix charged you $10 twice in the past week');
+});
+
+Deno.test('findBudgetAlerts raises one alert per budget and period', () => {
+  const budget = { id: 'bud-1', category_id: 'food', name: null, category_name: 'Food', amount: 400, period: 'monthly' as const, alert_threshold: 80 };
+  const spending = [txn({ amount: 200, transaction_date: '2026-10-02' }), txn({ id: 't-2', amount: 150 }), txn({ id: 't-3', amount: 500, transaction_date: '2026-09-30' })];
+
+  const [warning] = findBudgetAlerts([budget], spending, TODAY, 'USD');
+  assertObjectMatch(warning, { alert_type: 'budget_warning', dedupe_key: 'budget_warning:bud-1:2026-10-01' });
+  assertEquals(warning.data, { budget_id: 'bud-1', percentage: 88, remaining: 50, days_left: 12 });
+
+  const [exceeded] = findBudgetAlerts([{ ...budget, period: 'weekly' }], [...spending, txn({ id: 't-4', amount: 300 })], TODAY, 'USD');
+  assertObjectMatch(exceeded, { alert_type: 'budget_exceeded', severity: 'critical', dedupe_key: 'budget_exceeded:bud-1:2026-10-19' });
+});
+
+Deno.test('spending counts by size whether it is stored negative or positive', () => {
+  const budget = { id: 'bud-1', category_id: null, name: 'Overall', category_name: null, amount: 400, period: 'monthly' as const, alert_threshold: 80 };
+  // Email imports are negative, manual entries and statement imports positive
+  const spending = [txn({ amount: -200, transaction_date: '2026-10-02' }), txn({ id: 't-2', amount: 150, category_id: 'transport' })];
+
+  const [warning] = findBudgetAlerts([budget], spending, TODAY, 'USD');
+  assertEquals(warning.data, { budget_id: 'bud-1', percentage: 88, remaining: 50, days_left: 12 });
+
+  const history = Array.from({ length: 12 }, (_, week) =>
+    txn({ id: `h-${week}`, amount: week % 2 ? 50 : -50, transaction_date: addDays('2026-10-11', -7 * week) })
+  );
+  const [unusual] = findUnusualSpending([...history, txn({ id: 't-3', amount: -120 }), txn({ id: 't-4', amount: 60 })], TODAY, 'USD');
+  assertEquals(unusual.data.percentage_over, 260);
+
+  const duplicates = findDuplicateCharges([txn({ id: 'a', amount: -9.99 }), txn({ id: 'b', amount: 9.99 })], TODAY, 'USD');
+  assertEquals(duplicates[0].message, 'Cafe charged you $10 twice in the past week');
+});
+
+Deno.test('findUpcomingRenewals covers the next three days', () => {
+  const subs = [
+    { id: 'sub-1', merchant_name: 'Spotify', display_name: null, amount: 11.99, next_billing_date: '2026-10-20' },
+    { id: 'sub-2', merchant_name: 'Gym', display_name: 'Gym', amount: 40, next_billing_date: '2026-10-25' },
+  ];
+
+  const alerts = findUpcomingRenewals(subs, TODAY, 'USD');
+
+  assertEquals(alerts.length, 1);
+  assertObjectMatch(alerts[0], {
+    title: 'Spotify renews soon',
+    message: 'Your Spotify subscription ($12) renews in 1 day',
+    dedupe_key: 'subscription_renewal:sub-1:2026-10-20',
+  });
+});
+
+Deno.test('findUpcomingBills waits for the reminder date', () => {
+  const payment = { bill_id: 'bill-1', bill_name: 'Rent', due_date: '2026-10-22', amount_due: 1500, reminder_days: 3 };
+
+  const [alert] = findUpcomingBills([payment], TODAY, 'USD');
+  assertObjectMatch(alert, {
+    title: 'Rent is due in 3 days',
+    dedupe_key: 'upcoming_bill:bill-1:2026-10-22',
+    data: { reminder_date: '2026-10-19' },
+  });
+  assertEquals(findUpcomingBills([{ ...payment, reminder_days: 2 }], TODAY, 'USD'), []);
+});
+
+Deno.test('findMissingBillPayments extends each bill from its schedule', () => {
+  const bill = { frequency: 'monthly' as const, due_day: 1, start_date: '2026-01-01', end_date: null, recurrence_rule: null };
+  const bills = [
+    { ...bill, id: 'rent', amount: 1500 },
+    { ...bill, id: 'cleaner', amount: 200, frequency: 'weekly' as const, due_day: null, start_date: '2026-10-05' },
+    { ...bill, id: 'old-loan', amount: 300, end_date: '2026-10-01' },
+  ];
+
+  const missing = findMissingBillPayments(bills, [{ bill_id: 'cleaner', due_date: '2026-10-19' }], TODAY);
+
+  assertEquals(missing, [
+    { bill_id: 'rent', due_date: '2026-11-01', amount_due: 1500 },
+    { bill_id: 'cleaner', due_date: '2026-10-26', amount_due: 200 },
+    { bill_id: 'cleaner', due_date: '2026-11-02', amount_due: 200 },
+    { bill_id: 'cleaner', due_date: '2026-11-09', amount_due: 200 },
+    { bill_id: 'cleaner', due_date: '2026-11-16', amount_due: 200 },
+  ]);
+});
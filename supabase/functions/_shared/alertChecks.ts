@@ -0,0 +1,465 @@
+/**
+ * Shared alert checks for the run-alert-checks scheduler
+ * Unusual spending, duplicate charges, budgets, subscription renewals and bill
+ * reminders, plus the bill payments the reminders are read from. Everything
+ * here is pure: the scheduler loads the rows, these decide what to write.
+ */
+
+import { addDays, daysBetween, getBillRecurrenceRule, getOccurrences, type BillSchedule } from './recurrence.ts';
+
+export { addDays, daysBetween };
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ScheduledAlertType =
+  | 'unusual_spending'
+  | 'duplicate_charge'
+  | 'budget_warning'
+  | 'budget_exceeded'
+  | 'subscription_renewal'
+  | 'upcoming_bill';
+
+export interface NotificationPreferences {
+  push_enabled: boolean;
+  email_digest: boolean;
+  email_digest_frequency: 'weekly' | 'monthly';
+  email_digest_day: number;
+  alert_unusual_spending: boolean;
+  alert_subscriptions: boolean;
+  alert_budget: boolean;
+  alert_bills: boolean;
+  /** Local time, HH:MM */
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+export interface AlertCandidate {
+  alert_type: ScheduledAlertType;
+  severity: 'info' | 'warning' | 'critical';
+  title: string;
+  message: string;
+  action_url: string | null;
+  action_label: string | null;
+  related_entity_type: string | null;
+  related_entity_id: string | null;
+  data: Record<string, unknown>;
+  /** Names the condition so later runs don't raise it again */
+  dedupe_key: string;
+}
+
+export interface CheckTransaction {
+  id: string;
+  /** Email imports store spending as negative, other sources as positive */
+  amount: number;
+  transaction_date: string;
+  category_id: string | null;
+  category_name: string | null;
+  merchant_name: string;
+  merchant_name_clean: string | null;
+}
+
+export interface CheckBudget {
+  id: string;
+  category_id: string | null;
+  name: string | null;
+  category_name: string | null;
+  amount: number;
+  period: 'weekly' | 'monthly' | 'yearly';
+  alert_threshold: number;
+}
+
+export interface CheckSubscription {
+  id: string;
+  merchant_name: string;
+  display_name: string | null;
+  amount: number;
+  next_billing_date: string | null;
+}
+
+export interface CheckBill extends BillSchedule {
+  id: string;
+  amount: number;
+}
+
+/** A bill_payments row the scheduler needs to create */
+export interface MissingBillPayment {
+  bill_id: string;
+  due_date: string;
+  amount_due: number;
+}
+
+export interface CheckBillPayment {
+  bill_id: string;
+  bill_name: string;
+  due_date: string;
+  amount_due: number;
+  reminder_days: number;
+}
+
+export interface LocalClock {
+  /** YYYY-MM-DD in the user's timezone */
+  date: string;
+  /** Minutes since local midnight */
+  minutes: number;
+}
+
+/**
+ * Transaction types that count as spending. Debt payments are left out: the
+ * purchases they pay for are counted already.
+ */
+export const SPENDING_TYPES = ['purchase', 'atm'];
+
+/** Which preference toggle switches each alert type off */
+const PREFERENCE_FOR_TYPE: Record<ScheduledAlertType, keyof NotificationPreferences> = {
+  unusual_spending: 'alert_unusual_spending',
+  duplicate_charge: 'alert_unusual_spending',
+  budget_warning: 'alert_budget',
+  budget_exceeded: 'alert_budget',
+  subscription_renewal: 'alert_subscriptions',
+  upcoming_bill: 'alert_bills',
+};
+
+/** How far ahead bill payments are kept generated (covers the longest reminder) */
+export const BILL_PAYMENT_HORIZON_DAYS = 31;
+const RENEWAL_WINDOW_DAYS = 3;
+const UNUSUAL_SPENDING_RATIO = 1.5;
+const HISTORY_WEEKS = 12;
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+/** Monday of the week a date falls in */
+export function weekStart(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+export function periodStart(date: string, period: CheckBudget['period']): string {
+  if (period === 'weekly') return weekStart(date);
+  if (period === 'yearly') return `${date.slice(0, 4)}-01-01`;
+  return `${date.slice(0, 7)}-01`;
+}
+
+function daysLeftInMonth(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate() - day;
+}
+
+/**
+ * Date and time of day for a user. Unknown timezones fall back to UTC.
+ */
+export function localClock(now: Date, timeZone: string | null): LocalClock {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timeZone || 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    return localClock(now, 'UTC');
+  }
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '00';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function parseClockTime(value: string | null): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+/**
+ * Per-type toggles. Missing keys count as on, like the defaults.
+ */
+export function isAlertTypeEnabled(
+  preferences: Partial<NotificationPreferences> | null,
+  type: ScheduledAlertType
+): boolean {
+  return preferences?.[PREFERENCE_FOR_TYPE[type]] !== false;
+}
+
+/**
+ * Whether a local time falls inside the user's quiet hours. Ranges that
+ * wrap midnight (22:00-07:00) are supported; equal start and end means none.
+ */
+export function isQuietHours(preferences: Partial<NotificationPreferences> | null, minutes: number): boolean {
+  const start = parseClockTime(preferences?.quiet_hours_start ?? null);
+  const end = parseClockTime(preferences?.quiet_hours_end ?? null);
+  if (start === null || end === null || start === end) return false;
+
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+// ============================================
+// CHECKS
+// ============================================
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(0)}`;
+  }
+}
+
+/**
+ * Categories where the last 7 days run above 150% of the weekly average over
+ * the 12 weeks before
+ */
+export function findUnusualSpending(
+  transactions: CheckTransaction[],
+  today: string,
+  currency: string
+): AlertCandidate[] {
+  const weekAgo = addDays(today, -7);
+  const historyStart = addDays(weekAgo, -HISTORY_WEEKS * 7);
+
+  const current = new Map<string, { amount: number; name: string }>();
+  const history = new Map<string, number>();
+  for (const t of transactions) {
+    if (!t.category_id || t.transaction_date < historyStart || t.transaction_date > today) continue;
+    if (t.transaction_date >= weekAgo) {
+      const entry = current.get(t.category_id) || { amount: 0, name: t.category_name || 'Other' };
+      entry.amount += Math.abs(t.amount);
+      current.set(t.category_id, entry);
+    } else {
+      history.set(t.category_id, (history.get(t.category_id) || 0) + Math.abs(t.amount));
+    }
+  }
+
+  const candidates: AlertCandidate[] = [];
+  for (const [categoryId, spent] of current) {
+    const average = (history.get(categoryId) || 0) / HISTORY_WEEKS;
+    if (average <= 0 || spent.amount <= average * UNUSUAL_SPENDING_RATIO) continue;
+
+    const percentageOver = Math.round((spent.amount / average - 1) * 100);
+    candidates.push({
+      alert_type: 'unusual_spending',
+      severity: percentageOver > 200 ? 'critical' : 'warning',
+      title: `High ${spent.name} spending`,
+      message: `You spent ${formatMoney(spent.amount, currency)} on ${spent.name} this week — ${percentageOver}% more than your usual ${formatMoney(average, currency)}`,
+      action_url: '/(tabs)/stats',
+      action_label: null,
+      related_entity_type: 'category',
+      related_entity_id: categoryId,
+      data: {
+        category_id: categoryId,
+        category_name: spent.name,
+        current_amount: spent.amount,
+        average_amount: average,
+        percentage_over: percentageOver,
+      },
+      dedupe_key: `unusual_spending:${categoryId}:${weekStart(today)}`,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Same merchant and amount charged more than once in the last 7 days
+ */
+export function findDuplicateCharges(
+  transactions: CheckTransaction[],
+  today: string,
+  currency: string
+): AlertCandidate[] {
+  const weekAgo = addDays(today, -7);
+  const groups = new Map<string, CheckTransaction[]>();
+  for (const t of transactions) {
+    if (t.transaction_date < weekAgo || t.transaction_date > today) continue;
+    const key = `${t.merchant_name_clean || t.merchant_name.toLowerCase()}_${Math.abs(t.amount)}`;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  }
+
+  const candidates: AlertCandidate[] = [];
+  for (const charges of groups.values()) {
+    if (charges.length < 2) continue;
+
+    const [first] = charges;
+    const ids = charges.map((t) => t.id).sort();
+    candidates.push({
+      alert_type: 'duplicate_charge',
+      severity: 'warning',
+      title: 'Possible duplicate charge',
+      message: `${first.merchant_name} charged you ${formatMoney(Math.abs(first.amount), currency)} ${charges.length === 2 ? 'twice' : `${charges.length} times`} in the past week`,
+      action_url: '/(tabs)/transactions',
+      action_label: 'Review transactions',
+      related_entity_type: 'transaction',
+      related_entity_id: first.id,
+      data: { transaction_ids: ids, merchant: first.merchant_name, amount: Math.abs(first.amount) },
+      dedupe_key: `duplicate_charge:${ids.join(',')}`,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Budgets past their alert threshold or over their amount this period.
+ * Overall budgets (no category) count all spending.
+ */
+export function findBudgetAlerts(
+  budgets: CheckBudget[],
+  transactions: CheckTransaction[],
+  today: string,
+  currency: string
+): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+
+  for (const budget of budgets) {
+    if (!(budget.amount > 0)) continue;
+
+    const start = periodStart(today, budget.period);
+    const spent = transactions
+      .filter((t) => t.transaction_date >= start && t.transaction_date <= today)
+      .filter((t) => !budget.category_id || t.category_id === budget.category_id)
+      .reduce((sum, t) => sum + Math.abs(t.amount), 0);
+    const percentage = Math.round((spent / budget.amount) * 100);
+    const name = budget.category_name || budget.name || 'Overall';
+
+    if (percentage >= 100) {
+      candidates.push({
+        alert_type: 'budget_exceeded',
+        severity: 'critical',
+        title: `${name} budget exceeded`,
+        message: `You've spent ${formatMoney(spent, currency)} of your ${formatMoney(budget.amount, currency)} budget (${percentage}%)`,
+        action_url: '/settings/budgets',
+        action_label: null,
+        related_entity_type: 'budget',
+        related_entity_id: budget.id,
+        data: { budget_id: budget.id, percentage, spent },
+        dedupe_key: `budget_exceeded:${budget.id}:${start}`,
+      });
+    } else if (percentage >= budget.alert_threshold) {
+      const remaining = budget.amount - spent;
+      const daysLeft = budget.period === 'monthly' ? daysLeftInMonth(today) : null;
+      candidates.push({
+        alert_type: 'budget_warning',
+        severity: 'warning',
+        title: `${name} budget alert`,
+        message: `You've used ${percentage}% of your budget. ${formatMoney(remaining, currency)} remaining${daysLeft !== null ? ` for ${daysLeft} days` : ''}`,
+        action_url: '/settings/budgets',
+        action_label: null,
+        related_entity_type: 'budget',
+        related_entity_id: budget.id,
+        data: { budget_id: budget.id, percentage, remaining, days_left: daysLeft },
+        dedupe_key: `budget_warning:${budget.id}:${start}`,
+      });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Active subscriptions renewing in the next 3 days
+ */
+export function findUpcomingRenewals(
+  subscriptions: CheckSubscription[],
+  today: string,
+  currency: string
+): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+
+  for (const sub of subscriptions) {
+    if (!sub.next_billing_date) continue;
+    const billingDate = sub.next_billing_date.split('T')[0];
+    const daysUntil = daysBetween(today, billingDate);
+    if (daysUntil < 0 || daysUntil > RENEWAL_WINDOW_DAYS) continue;
+
+    const name = sub.display_name || sub.merchant_name;
+    candidates.push({
+      alert_type: 'subscription_renewal',
+      severity: 'info',
+      title: `${name} renews soon`,
+      message: daysUntil === 0
+        ? `Your ${name} subscription (${formatMoney(Number(sub.amount), currency)}) renews today`
+        : `Your ${name} subscription (${formatMoney(Number(sub.amount), currency)}) renews in ${daysUntil} day${daysUntil === 1 ? '' : 's'}`,
+      action_url: '/settings/subscriptions',
+      action_label: 'Manage subscription',
+      related_entity_type: 'subscription',
+      related_entity_id: sub.id,
+      data: { subscription_id: sub.id, amount: sub.amount, days_until: daysUntil },
+      dedupe_key: `subscription_renewal:${sub.id}:${billingDate}`,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Due dates from each bill's schedule over the next BILL_PAYMENT_HORIZON_DAYS
+ * that have no bill_payments row yet. createBill only generates the first
+ * few months, so without this reminders would stop once those run out.
+ */
+export function findMissingBillPayments(
+  bills: CheckBill[],
+  existing: Pick<CheckBillPayment, 'bill_id' | 'due_date'>[],
+  today: string
+): MissingBillPayment[] {
+  const known = new Set(existing.map((payment) => `${payment.bill_id}|${payment.due_date}`));
+  const missing: MissingBillPayment[] = [];
+
+  for (const bill of bills) {
+    const dueDates = getOccurrences(getBillRecurrenceRule(bill), today, addDays(today, BILL_PAYMENT_HORIZON_DAYS));
+    for (const dueDate of dueDates) {
+      if (known.has(`${bill.id}|${dueDate}`)) continue;
+      missing.push({ bill_id: bill.id, due_date: dueDate, amount_due: bill.amount });
+    }
+  }
+  return missing;
+}
+
+/**
+ * Unpaid bills whose reminder date (due date minus reminder_days) has come
+ */
+export function findUpcomingBills(
+  payments: CheckBillPayment[],
+  today: string,
+  currency: string
+): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+
+  for (const payment of payments) {
+    const daysUntil = daysBetween(today, payment.due_date);
+    if (daysUntil < 0 || daysUntil > payment.reminder_days) continue;
+
+    candidates.push({
+      alert_type: 'upcoming_bill',
+      severity: daysUntil <= 1 ? 'warning' : 'info',
+      title: `${payment.bill_name} is due ${daysUntil === 0 ? 'today' : daysUntil === 1 ? 'tomorrow' : `in ${daysUntil} days`}`,
+      message: `${formatMoney(Number(payment.amount_due), currency)} due on ${payment.due_date}`,
+      action_url: '/settings/bills',
+      action_label: 'View bill',
+      related_entity_type: 'bill',
+      related_entity_id: payment.bill_id,
+      data: {
+        bill_id: payment.bill_id,
+        due_date: payment.due_date,
+        amount: payment.amount_due,
+        reminder_date: addDays(payment.due_date, -payment.reminder_days),
+      },
+      dedupe_key: `upcoming_bill:${payment.bill_id}:${payment.due_date}`,
+    });
+  }
+  return candidates;
+}
@@ -0,0 +1,198 @@
+/**
+ * Email digest building and rendering tests
+ * Run with: deno test --allow-read supabase/functions/_shared/digest.test.ts
+ */
+
+import { assert, assertEquals, assertObjectMatch, assertStringIncludes } from 'jsr:@std/assert@1';
+import {
+  buildDigest,
+  convertRecordedAmount,
+  findUpcomingPayments,
+  getDigestSchedule,
+  renderDigestHtml,
+  renderDigestText,
+  renderTemplate,
+  type DigestContent,
+  type DigestData,
+  type DigestTransaction,
+} from './digest.ts';
+
+const digest = (overrides: Partial<DigestContent> = {}): DigestContent => ({
+  frequency: 'weekly',
+  scheduled_for: '2026-10-19',
+  period_start: '2026-10-12',
+  period_end: '2026-10-18',
+  language: 'en',
+  dir: 'ltr',
+  subject: 'Your weekly SpendTrak digest',
+  heading: 'Your week in money',
+  intro: 'Oct 12 – Oct 18',
+  sections: [
+    {
+      title: 'Spending',
+      rows: [
+        { label: 'Total spent', value: '$412.50', detail: '12% less than last week', tone: 'good' },
+        { label: 'Food', value: '$310 of $300', tone: 'danger' },
+      ],
+    },
+    { title: 'Upcoming bills', rows: [], empty: 'Nothing due in the next 7 days' },
+  ],
+  cta_label: 'Open SpendTrak',
+  footer: 'You can change digest settings in the app.',
+  ...overrides,
+});
+
+Deno.test('renderTemplate fills placeholders like the auth templates', () => {
+  assertEquals(renderTemplate('<a href="{{ .AppURL }}">{{.Label}}</a>{{ .Missing }}', { AppURL: 'https://x', Label: 'Go' }), '<a href="https://x">Go</a>');
+});
+
+Deno.test('getDigestSchedule finds the latest weekly send day and the week before it', () => {
+  // 2026-10-19 is a Monday
+  assertEquals(getDigestSchedule({ email_digest_frequency: 'weekly', email_digest_day: 1 }, '2026-10-19'), {
+    frequency: 'weekly',
+    scheduledFor: '2026-10-19',
+    periodStart: '2026-10-12',
+    periodEnd: '2026-10-18',
+    previousStart: '2026-10-05',
+    previousEnd: '2026-10-11',
+  });
+  assertEquals(getDigestSchedule({ email_digest_frequency: 'weekly', email_digest_day: 3 }, '2026-10-19').scheduledFor, '2026-10-14');
+  assertEquals(getDigestSchedule(null, '2026-10-19').scheduledFor, '2026-10-19');
+});
+
+Deno.test('getDigestSchedule covers the previous calendar month for monthly digests', () => {
+  assertEquals(getDigestSchedule({ email_digest_frequency: 'monthly', email_digest_day: 5 }, '2026-03-05'), {
+    frequency: 'monthly',
+    scheduledFor: '2026-03-05',
+    periodStart: '2026-02-01',
+    periodEnd: '2026-02-28',
+    previousStart: '2026-01-01',
+    previousEnd: '2026-01-31',
+  });
+  // Before this month's send day, last month's digest is the latest
+  assertEquals(getDigestSchedule({ email_digest_frequency: 'monthly', email_digest_day: 20 }, '2026-01-19').scheduledFor, '2025-12-20');
+});
+
+Deno.test('convertRecordedAmount uses the rates recorded on the transaction', () => {
+  const fx = { base: 'USD', rates: { USD: 1, AED: 3.6725, EUR: 0.92 } };
+  assertEquals(convertRecordedAmount(-36.73, 'AED', fx, 'USD'), -10);
+  assertEquals(convertRecordedAmount(-50, 'GBP', fx, 'USD'), -50);
+  assertEquals(convertRecordedAmount(-50, 'USD', null, 'USD'), -50);
+});
+
+Deno.test('findUpcomingPayments lists bill due dates and renewals in the next week', () => {
+  const upcoming = findUpcomingPayments(
+    [
+      { name: 'Rent', amount: 1500, frequency: 'monthly', due_day: 21, start_date: '2026-01-21', end_date: null },
+      { name: 'Cleaner', amount: 30, frequency: 'weekly', due_day: null, start_date: '2026-10-01', end_date: null },
+      { name: 'Insurance', amount: 200, frequency: 'yearly', due_day: 21, start_date: '2026-03-21', end_date: null },
+    ],
+    [{ name: 'Netflix', amount: 15, next_billing_date: '2026-10-25' }],
+    '2026-10-19'
+  );
+
+  assertEquals(upcoming.map((item) => `${item.date} ${item.name}`), [
+    '2026-10-21 Rent',
+    '2026-10-22 Cleaner',
+    '2026-10-25 Netflix',
+  ]);
+});
+
+const txn = (overrides: Partial<DigestTransaction>): DigestTransaction => ({
+  amount: -20,
+  transaction_date: '2026-10-14',
+  transaction_type: 'purchase',
+  merchant_name: 'Cafe',
+  merchant_name_clean: 'cafe',
+  category_id: 'food',
+  ...overrides,
+});
+
+const data: DigestData = {
+  transactions: [
+    txn({ amount: -120, merchant_name: 'Carrefour', merchant_name_clean: 'carrefour' }),
+    txn({}),
+    // Entered by hand, so stored positive
+    txn({ amount: 30, transaction_date: '2026-10-16' }),
+    txn({ amount: 2000, transaction_type: 'payment', category_id: null }),
+    txn({ amount: -500, transaction_type: 'transfer' }),
+    txn({ amount: 45, transaction_type: 'refund' }),
+    // The week before
+    txn({ amount: -100, transaction_date: '2026-10-08' }),
+    // Earlier this month, counted towards the monthly budgets only
+    txn({ amount: -150, transaction_date: '2026-10-02' }),
+    txn({ amount: 80, category_id: 'transport', transaction_date: '2026-10-03' }),
+  ],
+  budgets: [
+    { name: null, category_id: 'food', category_name: 'Food', amount: 400, period: 'monthly' },
+    { name: 'Everything', category_id: null, category_name: null, amount: 1000, period: 'monthly' },
+  ],
+  bills: [],
+  subscriptions: [],
+  goals: [{ name: 'Holiday', target_amount: 1000, current_amount: 250 }],
+  netWorth: { current: 10500, previous: 10000 },
+};
+
+Deno.test('buildDigest summarizes the period from the user\'s rows', () => {
+  const content = buildDigest(data, getDigestSchedule(null, '2026-10-19'), 'USD');
+  const [spending, budgets, merchants, upcoming, goals, netWorth] = content.sections;
+
+  assertEquals(content.subject, 'Your weekly SpendTrak digest');
+  assertEquals(content.intro, 'Oct 12 – Oct 18');
+  assertEquals(spending.rows.map((row) => row.value), ['$170.00', '$2,000.00', '$1,830.00']);
+  assertEquals(spending.rows[0].detail, '+70% vs the previous week');
+  assertObjectMatch(budgets.rows[0], { label: 'Food', value: '$420.00 of $400.00', detail: '105% used', tone: 'danger' });
+  assertObjectMatch(budgets.rows[1], { label: 'Everything', value: '$500.00 of $1,000.00', detail: '50% used', tone: 'good' });
+  assertEquals(merchants.rows.map((row) => [row.label, row.value, row.detail]), [
+    ['Carrefour', '$120.00', '1 transaction'],
+    ['Cafe', '$50.00', '2 transactions'],
+  ]);
+  assertEquals(upcoming.rows, []);
+  assertObjectMatch(goals.rows[0], { label: 'Holiday', value: '25%' });
+  assertObjectMatch(netWorth.rows[0], { value: '$10,500.00', detail: '+$500.00 over the week', tone: 'good' });
+});
+
+Deno.test('buildDigest writes the digest in the user\'s language and direction', () => {
+  const schedule = getDigestSchedule({ email_digest_frequency: 'monthly', email_digest_day: 1 }, '2026-11-02');
+
+  const arabic = buildDigest(data, schedule, 'USD', 'ar');
+  assertObjectMatch(arabic, { language: 'ar', dir: 'rtl', heading: 'أموالك هذا الشهر', cta_label: 'افتح SpendTrak' });
+  assertStringIncludes(arabic.subject, 'أكتوبر');
+  assertEquals(arabic.sections[2].rows.map((row) => row.detail), ['٥ معاملات', 'معاملة واحدة']);
+
+  const french = buildDigest(data, schedule, 'EUR', 'fr');
+  assertObjectMatch(french, { language: 'fr', dir: 'ltr', subject: 'Votre résumé SpendTrak de octobre 2026' });
+
+  // Languages without digest strings fall back to English
+  assertObjectMatch(buildDigest(data, schedule, 'USD', 'ja'), { dir: 'ltr', heading: 'Your month in money' });
+  assertObjectMatch(buildDigest(data, schedule, 'USD', null), { language: 'en', dir: 'ltr' });
+});
+
+Deno.test('renderDigestHtml escapes text and follows the reading direction', async () => {
+  const template = await Deno.readTextFile(new URL('../../templates/digest.html', import.meta.url));
+  const html = renderDigestHtml(
+    template,
+    digest({
+      language: 'ar',
+      dir: 'rtl',
+      heading: '<script>alert(1)</script>',
+      sections: [{ title: 'Top merchants', rows: [{ label: 'Tom & Jerry\'s', value: '٥٠ د.إ' }] }],
+    }),
+    'https://spendtrak.app'
+  );
+
+  assertStringIncludes(html, '<html lang="ar" dir="rtl">');
+  assertStringIncludes(html, '&lt;script&gt;alert(1)&lt;/script&gt;');
+  assertStringIncludes(html, 'Tom &amp; Jerry&#39;s');
+  assertStringIncludes(html, 'align="left"');
+  assertStringIncludes(html, 'href="https://spendtrak.app"');
+  assert(!html.includes('{{'));
+});
+
+Deno.test('renderDigestText lists every section', () => {
+  const text = renderDigestText(digest(), 'https://spendtrak.app');
+
+  assertStringIncludes(text, 'SPENDING\n- Total spent: $412.50 (12% less than last week)\n- Food: $310 of $300');
+  assertStringIncludes(text, 'UPCOMING BILLS\nNothing due in the next 7 days');
+  assertStringIncludes(text, 'Open SpendTrak: https://spendtrak.app');
+});
@@ -0,0 +1,544 @@
+/**
+ * Shared email digest building and rendering for the send-email-digest function
+ * The function loads the user's rows; this works out which digest is due,
+ * turns the rows into sections in the user's language and fills
+ * supabase/templates/digest.html. Everything here is pure so it can be tested
+ * without a database or SMTP.
+ */
+
+import { periodStart, SPENDING_TYPES, type CheckBudget } from './alertChecks.ts';
+import { DIGEST_LOCALES, DIGEST_STRINGS, RTL_LANGUAGES } from './digestStrings.ts';
+import { addDays, getBillRecurrenceRule, getOccurrences, resolveMonthDay, type BillSchedule } from './recurrence.ts';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DigestFrequency = 'weekly' | 'monthly';
+
+export type DigestTone = 'good' | 'warning' | 'danger' | 'neutral';
+
+export interface DigestPreferences {
+  email_digest_frequency: DigestFrequency;
+  /** 0-6 (Sunday first) for weekly, 1-28 for monthly */
+  email_digest_day: number;
+}
+
+export interface DigestSchedule {
+  frequency: DigestFrequency;
+  /** Most recent chosen send day on or before today */
+  scheduledFor: string;
+  /** YYYY-MM-DD, inclusive */
+  periodStart: string;
+  periodEnd: string;
+  /** The period before, for comparison */
+  previousStart: string;
+  previousEnd: string;
+}
+
+export interface DigestTransaction {
+  /** In the user's currency. Email imports store spending as negative, other sources as positive */
+  amount: number;
+  transaction_date: string;
+  transaction_type: string;
+  merchant_name: string;
+  merchant_name_clean: string | null;
+  category_id: string | null;
+}
+
+export interface DigestBudget {
+  name: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  amount: number;
+  period: CheckBudget['period'];
+}
+
+export interface DigestBill extends BillSchedule {
+  name: string;
+  amount: number;
+}
+
+export interface DigestSubscription {
+  name: string;
+  amount: number;
+  next_billing_date: string | null;
+}
+
+export interface DigestGoal {
+  name: string;
+  target_amount: number;
+  current_amount: number;
+}
+
+export interface DigestData {
+  /** From previousStart (or the start of the longest budget period) to periodEnd */
+  transactions: DigestTransaction[];
+  budgets: DigestBudget[];
+  bills: DigestBill[];
+  subscriptions: DigestSubscription[];
+  goals: DigestGoal[];
+  netWorth: {
+    current: number;
+    /** Latest snapshot on or before the period start */
+    previous: number | null;
+  };
+}
+
+/** Recorded exchange rates in transaction metadata (see src/services/rateHistory.ts) */
+export interface RecordedFxRate {
+  base: string;
+  rates: Record<string, number>;
+}
+
+export interface DigestLocale {
+  /** App language code, e.g. 'ar' */
+  language: string;
+  /** Intl locale for numbers and dates */
+  locale: string;
+  dir: 'ltr' | 'rtl';
+  t: (key: string, params?: Record<string, string | number>) => string;
+}
+
+export interface DigestRow {
+  label: string;
+  value: string;
+  detail?: string;
+  tone?: DigestTone;
+}
+
+export interface DigestSection {
+  title: string;
+  rows: DigestRow[];
+  /** Shown instead of rows when there are none */
+  empty?: string;
+}
+
+export interface DigestContent {
+  frequency: DigestFrequency;
+  /** The user's chosen send day this digest is for, YYYY-MM-DD */
+  scheduled_for: string;
+  /** YYYY-MM-DD, inclusive */
+  period_start: string;
+  period_end: string;
+  language: string;
+  dir: 'ltr' | 'rtl';
+  subject: string;
+  heading: string;
+  intro: string;
+  sections: DigestSection[];
+  cta_label: string;
+  footer: string;
+}
+
+/** Bills and renewals this many days from the send day are listed */
+export const UPCOMING_DAYS = 7;
+const TOP_MERCHANTS = 5;
+
+const TONE_COLORS: Record<DigestTone, string> = {
+  good: '#39FF14',
+  warning: '#FFB020',
+  danger: '#FF4D4D',
+  neutral: '#e0e0e0',
+};
+
+const FONT = "'Cinzel','Georgia','Times New Roman',serif";
+
+// ============================================
+// SCHEDULE
+// ============================================
+
+function shiftMonth(date: string, months: number): { year: number; month: number } {
+  const [year, month] = date.split('-').map(Number);
+  const index = year * 12 + (month - 1) + months;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+function monthRange(date: string, months: number): { start: string; end: string } {
+  const { year, month } = shiftMonth(date, months);
+  return { start: resolveMonthDay(year, month, 1), end: resolveMonthDay(year, month, -1) };
+}
+
+/**
+ * Work out which digest is due as of `today` (the user's local date).
+ * Weekly digests go out on the chosen weekday and cover the 7 days before;
+ * monthly digests go out on the chosen day of the month and cover the
+ * previous calendar month.
+ */
+export function getDigestSchedule(preferences: Partial<DigestPreferences> | null, today: string): DigestSchedule {
+  const day = preferences?.email_digest_day ?? 1;
+
+  if (preferences?.email_digest_frequency === 'monthly') {
+    const sendDay = Math.min(Math.max(day, 1), 28);
+    const thisMonth = shiftMonth(today, 0);
+    let scheduledFor = resolveMonthDay(thisMonth.year, thisMonth.month, sendDay);
+    if (scheduledFor > today) {
+      const lastMonth = shiftMonth(today, -1);
+      scheduledFor = resolveMonthDay(lastMonth.year, lastMonth.month, sendDay);
+    }
+
+    const period = monthRange(scheduledFor, -1);
+    const previous = monthRange(scheduledFor, -2);
+    return {
+      frequency: 'monthly',
+      scheduledFor,
+      periodStart: period.start,
+      periodEnd: period.end,
+      previousStart: previous.start,
+      previousEnd: previous.end,
+    };
+  }
+
+  const weekday = ((day % 7) + 7) % 7;
+  const todayWeekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const scheduledFor = addDays(today, -((todayWeekday - weekday + 7) % 7));
+
+  return {
+    frequency: 'weekly',
+    scheduledFor,
+    periodStart: addDays(scheduledFor, -7),
+    periodEnd: addDays(scheduledFor, -1),
+    previousStart: addDays(scheduledFor, -14),
+    previousEnd: addDays(scheduledFor, -8),
+  };
+}
+
+// ============================================
+// BUILDING
+// ============================================
+
+/**
+ * Convert an amount to the user's currency at the rate recorded on the
+ * transaction. Amounts without recorded rates for both currencies are
+ * returned as they are.
+ */
+export function convertRecordedAmount(
+  amount: number,
+  fromCurrency: string | null,
+  fx: RecordedFxRate | null | undefined,
+  toCurrency: string
+): number {
+  if (!fromCurrency || fromCurrency === toCurrency) return amount;
+
+  const fromRate = fx?.rates?.[fromCurrency];
+  const toRate = fx?.rates?.[toCurrency];
+  if (!fromRate || !toRate) return amount;
+
+  return Math.round((amount / fromRate) * toRate * 100) / 100;
+}
+
+/**
+ * Strings, number and date formats for the user's app language.
+ * Plural keys end in the Intl plural category (`merchantCount_one`) and
+ * numbers in params are formatted for the locale.
+ */
+export function getDigestLocale(language: string | null | undefined): DigestLocale {
+  const code = language && DIGEST_LOCALES[language] ? language : 'en';
+  const locale = DIGEST_LOCALES[code];
+  const strings: Partial<Record<string, string>> = { ...DIGEST_STRINGS.en, ...DIGEST_STRINGS[code] };
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale);
+
+  const t = (key: string, params: Record<string, string | number> = {}) => {
+    const plural = typeof params.count === 'number'
+      ? strings[`${key}_${plurals.select(params.count)}`] ?? strings[`${key}_other`]
+      : undefined;
+    const template = plural ?? strings[key] ?? key;
+    return template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+      const value = params[name];
+      return typeof value === 'number' ? numbers.format(value) : value ?? '';
+    });
+  };
+
+  return { language: code, locale, dir: RTL_LANGUAGES.includes(code) ? 'rtl' : 'ltr', t };
+}
+
+function formatMoney(amount: number, currency: string, locale: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+// Gregorian dates in every locale: ar-SA would otherwise use the Hijri calendar
+function formatShortDate(date: string, locale: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+    calendar: 'gregory',
+  });
+}
+
+function formatMonth(date: string, locale: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+    calendar: 'gregory',
+  });
+}
+
+function formatChange(change: number): string {
+  const rounded = Math.round(change);
+  return `${rounded > 0 ? '+' : ''}${rounded}%`;
+}
+
+// Spending is decided by type and counted by size, since its sign depends on the source
+const isSpending = (t: DigestTransaction) => SPENDING_TYPES.includes(t.transaction_type);
+const isIncome = (t: DigestTransaction) =>
+  t.amount > 0 && !isSpending(t) && t.transaction_type !== 'refund' && t.transaction_type !== 'transfer';
+const sumSpending = (transactions: DigestTransaction[]) =>
+  transactions.filter(isSpending).reduce((sum, t) => sum + Math.abs(t.amount), 0);
+
+function totals(transactions: DigestTransaction[], start: string, end: string) {
+  const inRange = transactions.filter((t) => t.transaction_date >= start && t.transaction_date <= end);
+  const expenses = sumSpending(inRange);
+  const income = inRange.filter(isIncome).reduce((sum, t) => sum + t.amount, 0);
+  return { inRange, expenses, income };
+}
+
+/**
+ * Bills and subscription renewals due in the UPCOMING_DAYS from `from`
+ */
+export function findUpcomingPayments(
+  bills: DigestBill[],
+  subscriptions: DigestSubscription[],
+  from: string
+): { name: string; amount: number; date: string; kind: 'bill' | 'renewal' }[] {
+  const to = addDays(from, UPCOMING_DAYS - 1);
+
+  const billDates = bills.flatMap((bill) =>
+    getOccurrences(getBillRecurrenceRule(bill), from, to).map((date) => ({
+      name: bill.name,
+      amount: bill.amount,
+      date,
+      kind: 'bill' as const,
+    }))
+  );
+  const renewals = subscriptions
+    .filter((sub) => sub.next_billing_date && sub.next_billing_date >= from && sub.next_billing_date <= to)
+    .map((sub) => ({ name: sub.name, amount: sub.amount, date: sub.next_billing_date as string, kind: 'renewal' as const }));
+
+  return [...billDates, ...renewals].sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Turn the user's rows into the digest for a schedule, in their language
+ */
+export function buildDigest(
+  data: DigestData,
+  schedule: DigestSchedule,
+  currency: string,
+  language: string | null = 'en'
+): DigestContent {
+  const { t, locale, ...digestLocale } = getDigestLocale(language);
+  const weekly = schedule.frequency === 'weekly';
+  const money = (amount: number) => formatMoney(amount, currency, locale);
+  const shortDate = (date: string) => formatShortDate(date, locale);
+
+  const current = totals(data.transactions, schedule.periodStart, schedule.periodEnd);
+  const previous = totals(data.transactions, schedule.previousStart, schedule.previousEnd);
+  const net = current.income - current.expenses;
+
+  const spendingChange = previous.expenses > 0
+    ? ((current.expenses - previous.expenses) / previous.expenses) * 100
+    : null;
+
+  const spending: DigestSection = {
+    title: t('spending'),
+    rows: [
+      {
+        label: t('totalSpent'),
+        value: money(current.expenses),
+        detail: spendingChange === null
+          ? undefined
+          : t(weekly ? 'vsPreviousWeek' : 'vsPreviousMonth', { change: formatChange(spendingChange) }),
+        tone: spendingChange !== null && spendingChange > 0 ? 'warning' : 'good',
+      },
+      { label: t('income'), value: money(current.income) },
+      { label: t('net'), value: money(net), tone: net < 0 ? 'danger' : 'good' },
+    ],
+  };
+
+  // Each budget over its own period up to the end of the digest period;
+  // overall budgets (no category) count all spending
+  const budgets: DigestSection = {
+    title: t('budgets'),
+    rows: data.budgets
+      .filter((budget) => budget.amount > 0)
+      .map((budget) => {
+        const spent = sumSpending(
+          totals(data.transactions, periodStart(schedule.periodEnd, budget.period), schedule.periodEnd)
+            .inRange.filter((transaction) => !budget.category_id || transaction.category_id === budget.category_id)
+        );
+        const percentage = Math.round((spent / budget.amount) * 100);
+        return {
+          label: budget.name || budget.category_name || t('budget'),
+          value: t('budgetAmount', { spent: money(spent), limit: money(budget.amount) }),
+          detail: t('budgetUsed', { percentage }),
+          tone: percentage >= 100 ? 'danger' as const : percentage >= 80 ? 'warning' as const : 'good' as const,
+        };
+      }),
+    empty: t('noBudgets'),
+  };
+
+  const byMerchant = new Map<string, { name: string; amount: number; count: number }>();
+  for (const transaction of current.inRange.filter(isSpending)) {
+    const key = transaction.merchant_name_clean || transaction.merchant_name.toLowerCase();
+    const entry = byMerchant.get(key) ?? { name: transaction.merchant_name, amount: 0, count: 0 };
+    entry.amount += Math.abs(transaction.amount);
+    entry.count++;
+    byMerchant.set(key, entry);
+  }
+  const merchants: DigestSection = {
+    title: t('topMerchants'),
+    rows: Array.from(byMerchant.values())
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, TOP_MERCHANTS)
+      .map((merchant) => ({
+        label: merchant.name,
+        value: money(merchant.amount),
+        detail: t('merchantCount', { count: merchant.count }),
+      })),
+    empty: t('noMerchants'),
+  };
+
+  const upcoming: DigestSection = {
+    title: t('comingUp'),
+    rows: findUpcomingPayments(data.bills, data.subscriptions, schedule.scheduledFor).map((item) => ({
+      label: item.name,
+      value: money(item.amount),
+      detail: t(item.kind === 'bill' ? 'due' : 'renews', { date: shortDate(item.date) }),
+    })),
+    empty: t('nothingComingUp', { days: UPCOMING_DAYS }),
+  };
+
+  const goals: DigestSection = {
+    title: t('goals'),
+    rows: data.goals.map((goal) => ({
+      label: goal.name,
+      value: `${goal.target_amount > 0 ? Math.round((goal.current_amount / goal.target_amount) * 100) : 0}%`,
+      detail: t('goalProgress', { current: money(goal.current_amount), target: money(goal.target_amount) }),
+    })),
+    empty: t('noGoals'),
+  };
+
+  const netWorthChange = data.netWorth.previous === null ? null : data.netWorth.current - data.netWorth.previous;
+  const netWorth: DigestSection = {
+    title: t('netWorth'),
+    rows: [{
+      label: t('netWorth'),
+      value: money(data.netWorth.current),
+      detail: netWorthChange === null
+        ? undefined
+        : t(weekly ? 'netWorthChangeWeek' : 'netWorthChangeMonth', {
+            change: `${netWorthChange >= 0 ? '+' : '-'}${money(Math.abs(netWorthChange))}`,
+          }),
+      tone: netWorthChange !== null && netWorthChange < 0 ? 'danger' : 'good',
+    }],
+  };
+
+  return {
+    frequency: schedule.frequency,
+    scheduled_for: schedule.scheduledFor,
+    period_start: schedule.periodStart,
+    period_end: schedule.periodEnd,
+    language: digestLocale.language,
+    dir: digestLocale.dir,
+    subject: weekly
+      ? t('subjectWeekly')
+      : t('subjectMonthly', { month: formatMonth(schedule.periodStart, locale) }),
+    heading: t(weekly ? 'headingWeekly' : 'headingMonthly'),
+    intro: t('periodRange', { start: shortDate(schedule.periodStart), end: shortDate(schedule.periodEnd) }),
+    sections: [spending, budgets, merchants, upcoming, goals, netWorth],
+    cta_label: t('openApp'),
+    footer: t('footer'),
+  };
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Fill `{{ .Name }}` placeholders, the syntax the auth email templates use.
+ * Values are inserted as given; unknown placeholders are left empty.
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*\.(\w+)\s*\}\}/g, (_, name: string) => values[name] ?? '');
+}
+
+function renderRow(row: DigestRow, dir: 'ltr' | 'rtl'): string {
+  const end = dir === 'rtl' ? 'left' : 'right';
+  const detail = row.detail
+    ? `<br><span style="font-size:12px;color:#666666;">${escapeHtml(row.detail)}</span>`
+    : '';
+
+  return `<tr>
+  <td style="padding:8px 0;font-family:${FONT};font-size:14px;line-height:1.5;color:#8a8a8a;">${escapeHtml(row.label)}${detail}</td>
+  <td align="${end}" style="padding:8px 0;font-family:${FONT};font-size:14px;font-weight:600;color:${TONE_COLORS[row.tone ?? 'neutral']};white-space:nowrap;">${escapeHtml(row.value)}</td>
+</tr>`;
+}
+
+function renderSection(section: DigestSection, dir: 'ltr' | 'rtl'): string {
+  const body = section.rows.length > 0
+    ? section.rows.map((row) => renderRow(row, dir)).join('\n')
+    : `<tr><td colspan="2" style="padding:8px 0;font-family:${FONT};font-size:13px;color:#666666;">${escapeHtml(section.empty ?? '')}</td></tr>`;
+
+  return `<tr>
+  <td style="padding:20px 40px 0 40px;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
+      <tr>
+        <td colspan="2" style="padding-bottom:6px;border-bottom:1px solid #1a3a1a;font-family:${FONT};font-size:13px;font-weight:700;color:#39FF14;letter-spacing:2px;text-transform:uppercase;">${escapeHtml(section.title)}</td>
+      </tr>
+${body}
+    </table>
+  </td>
+</tr>`;
+}
+
+/**
+ * Render the HTML email from the digest template
+ */
+export function renderDigestHtml(template: string, digest: DigestContent, appUrl: string): string {
+  return renderTemplate(template, {
+    Lang: escapeHtml(digest.language),
+    Dir: digest.dir,
+    Subject: escapeHtml(digest.subject),
+    Heading: escapeHtml(digest.heading),
+    Intro: escapeHtml(digest.intro),
+    Sections: digest.sections.map((section) => renderSection(section, digest.dir)).join('\n'),
+    CtaLabel: escapeHtml(digest.cta_label),
+    AppURL: escapeHtml(appUrl),
+    Footer: escapeHtml(digest.footer),
+  });
+}
+
+/**
+ * Plain-text alternative for mail clients that don't show HTML
+ */
+export function renderDigestText(digest: DigestContent, appUrl: string): string {
+  const lines = [digest.heading, '', digest.intro];
+
+  for (const section of digest.sections) {
+    lines.push('', section.title.toUpperCase());
+    if (section.rows.length === 0 && section.empty) lines.push(section.empty);
+    for (const row of section.rows) {
+      lines.push(`- ${row.label}: ${row.value}${row.detail ? ` (${row.detail})` : ''}`);
+    }
+  }
+
+  lines.push('', `${digest.cta_label}: ${appUrl}`, '', digest.footer);
+  return lines.join('\n');
+}
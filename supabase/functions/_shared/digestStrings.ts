@@ -0,0 +1,346 @@
+/**
+ * Email digest strings by language
+ * The digest is written in the user's app language (users.language). Languages
+ * without their own strings fall back to English, as they do in the app.
+ */
+
+export interface DigestStrings {
+  subjectWeekly: string;
+  subjectMonthly: string;
+  headingWeekly: string;
+  headingMonthly: string;
+  periodRange: string;
+  spending: string;
+  totalSpent: string;
+  income: string;
+  net: string;
+  vsPreviousWeek: string;
+  vsPreviousMonth: string;
+  budgets: string;
+  budget: string;
+  budgetAmount: string;
+  budgetUsed: string;
+  noBudgets: string;
+  topMerchants: string;
+  merchantCount_one: string;
+  merchantCount_other: string;
+  /** Plural forms only some languages use */
+  merchantCount_two?: string;
+  merchantCount_many?: string;
+  noMerchants: string;
+  comingUp: string;
+  due: string;
+  renews: string;
+  nothingComingUp: string;
+  goals: string;
+  goalProgress: string;
+  noGoals: string;
+  netWorth: string;
+  netWorthChangeWeek: string;
+  netWorthChangeMonth: string;
+  openApp: string;
+  footer: string;
+}
+
+const en: DigestStrings = {
+  subjectWeekly: 'Your weekly SpendTrak digest',
+  subjectMonthly: 'Your SpendTrak digest for {{month}}',
+  headingWeekly: 'Your week in money',
+  headingMonthly: 'Your month in money',
+  periodRange: '{{start}} – {{end}}',
+  spending: 'Spending',
+  totalSpent: 'Total spent',
+  income: 'Income',
+  net: 'Net',
+  vsPreviousWeek: '{{change}} vs the previous week',
+  vsPreviousMonth: '{{change}} vs the month before',
+  budgets: 'Budgets',
+  budget: 'Budget',
+  budgetAmount: '{{spent}} of {{limit}}',
+  budgetUsed: '{{percentage}}% used',
+  noBudgets: 'No active budgets',
+  topMerchants: 'Top merchants',
+  merchantCount_one: '{{count}} transaction',
+  merchantCount_other: '{{count}} transactions',
+  noMerchants: 'No spending in this period',
+  comingUp: 'Coming up',
+  due: 'Due {{date}}',
+  renews: 'Renews {{date}}',
+  nothingComingUp: 'No bills or renewals in the next {{days}} days',
+  goals: 'Goals',
+  goalProgress: '{{current}} of {{target}}',
+  noGoals: 'No active goals',
+  netWorth: 'Net worth',
+  netWorthChangeWeek: '{{change}} over the week',
+  netWorthChangeMonth: '{{change}} over the month',
+  openApp: 'Open SpendTrak',
+  footer: 'You get this email because digests are on. Change or turn them off in Settings → Email Digest.',
+};
+
+const ar: DigestStrings = {
+  subjectWeekly: 'ملخص SpendTrak الأسبوعي',
+  subjectMonthly: 'ملخص SpendTrak لشهر {{month}}',
+  headingWeekly: 'أموالك هذا الأسبوع',
+  headingMonthly: 'أموالك هذا الشهر',
+  periodRange: '{{start}} – {{end}}',
+  spending: 'الإنفاق',
+  totalSpent: 'إجمالي الإنفاق',
+  income: 'الدخل',
+  net: 'الصافي',
+  vsPreviousWeek: '{{change}} مقارنة بالأسبوع السابق',
+  vsPreviousMonth: '{{change}} مقارنة بالشهر السابق',
+  budgets: 'الميزانيات',
+  budget: 'الميزانية',
+  budgetAmount: '{{spent}} من {{limit}}',
+  budgetUsed: 'تم استخدام {{percentage}}%',
+  noBudgets: 'لا توجد ميزانيات نشطة',
+  topMerchants: 'أكثر التجار إنفاقاً',
+  merchantCount_one: 'معاملة واحدة',
+  merchantCount_two: 'معاملتان',
+  merchantCount_many: '{{count}} معاملة',
+  merchantCount_other: '{{count}} معاملات',
+  noMerchants: 'لا يوجد إنفاق في هذه الفترة',
+  comingUp: 'القادم',
+  due: 'مستحق في {{date}}',
+  renews: 'يتجدد في {{date}}',
+  nothingComingUp: 'لا توجد فواتير أو تجديدات خلال الأيام الـ {{days}} القادمة',
+  goals: 'الأهداف',
+  goalProgress: '{{current}} من {{target}}',
+  noGoals: 'لا توجد أهداف نشطة',
+  netWorth: 'صافي الثروة',
+  netWorthChangeWeek: '{{change}} خلال الأسبوع',
+  netWorthChangeMonth: '{{change}} خلال الشهر',
+  openApp: 'افتح SpendTrak',
+  footer: 'تصلك هذه الرسالة لأن الملخصات مفعّلة. يمكنك تغييرها أو إيقافها من الإعدادات ← ملخص البريد.',
+};
+
+const de: DigestStrings = {
+  subjectWeekly: 'Deine wöchentliche SpendTrak-Zusammenfassung',
+  subjectMonthly: 'Deine SpendTrak-Zusammenfassung für {{month}}',
+  headingWeekly: 'Deine Woche in Zahlen',
+  headingMonthly: 'Dein Monat in Zahlen',
+  periodRange: '{{start}} – {{end}}',
+  spending: 'Ausgaben',
+  totalSpent: 'Ausgaben gesamt',
+  income: 'Einnahmen',
+  net: 'Saldo',
+  vsPreviousWeek: '{{change}} gegenüber der Vorwoche',
+  vsPreviousMonth: '{{change}} gegenüber dem Vormonat',
+  budgets: 'Budgets',
+  budget: 'Budget',
+  budgetAmount: '{{spent}} von {{limit}}',
+  budgetUsed: '{{percentage}} % verbraucht',
+  noBudgets: 'Keine aktiven Budgets',
+  topMerchants: 'Top-Händler',
+  merchantCount_one: '{{count}} Transaktion',
+  merchantCount_other: '{{count}} Transaktionen',
+  noMerchants: 'Keine Ausgaben in diesem Zeitraum',
+  comingUp: 'Demnächst',
+  due: 'Fällig am {{date}}',
+  renews: 'Verlängert sich am {{date}}',
+  nothingComingUp: 'Keine Rechnungen oder Verlängerungen in den nächsten {{days}} Tagen',
+  goals: 'Ziele',
+  goalProgress: '{{current}} von {{target}}',
+  noGoals: 'Keine aktiven Ziele',
+  netWorth: 'Nettovermögen',
+  netWorthChangeWeek: '{{change}} in dieser Woche',
+  netWorthChangeMonth: '{{change}} in diesem Monat',
+  openApp: 'SpendTrak öffnen',
+  footer: 'Du erhältst diese E-Mail, weil Zusammenfassungen aktiviert sind. Ändern oder abschalten unter Einstellungen → E-Mail-Zusammenfassung.',
+};
+
+const es: DigestStrings = {
+  subjectWeekly: 'Tu resumen semanal de SpendTrak',
+  subjectMonthly: 'Tu resumen de SpendTrak de {{month}}',
+  headingWeekly: 'Tu semana en dinero',
+  headingMonthly: 'Tu mes en dinero',
+  periodRange: '{{start}} – {{end}}',
+  spending: 'Gastos',
+  totalSpent: 'Total gastado',
+  income: 'Ingresos',
+  net: 'Neto',
+  vsPreviousWeek: '{{change}} frente a la semana anterior',
+  vsPreviousMonth: '{{change}} frente al mes anterior',
+  budgets: 'Presupuestos',
+  budget: 'Presupuesto',
+  budgetAmount: '{{spent}} de {{limit}}',
+  budgetUsed: '{{percentage}} % usado',
+  noBudgets: 'No hay presupuestos activos',
+  topMerchants: 'Principales comercios',
+  merchantCount_one: '{{count}} transacción',
+  merchantCount_other: '{{count}} transacciones',
+  noMerchants: 'Sin gastos en este periodo',
+  comingUp: 'Próximamente',
+  due: 'Vence el {{date}}',
+  renews: 'Se renueva el {{date}}',
+  nothingComingUp: 'No hay facturas ni renovaciones en los próximos {{days}} días',
+  goals: 'Metas',
+  goalProgress: '{{current}} de {{target}}',
+  noGoals: 'No hay metas activas',
+  netWorth: 'Patrimonio neto',
+  netWorthChangeWeek: '{{change}} en la semana',
+  netWorthChangeMonth: '{{change}} en el mes',
+  openApp: 'Abrir SpendTrak',
+  footer: 'Recibes este correo porque los resúmenes están activados. Cámbialos o desactívalos en Ajustes → Resumen por correo.',
+};
+
+const fr: DigestStrings = {
+  subjectWeekly: 'Votre résumé hebdomadaire SpendTrak',
+  subjectMonthly: 'Votre résumé SpendTrak de {{month}}',
+  headingWeekly: 'Votre semaine en chiffres',
+  headingMonthly: 'Votre mois en chiffres',
+  periodRange: '{{start}} – {{end}}',
+  spending: 'Dépenses',
+  totalSpent: 'Total dépensé',
+  income: 'Revenus',
+  net: 'Solde',
+  vsPreviousWeek: '{{change}} par rapport à la semaine précédente',
+  vsPreviousMonth: '{{change}} par rapport au mois précédent',
+  budgets: 'Budgets',
+  budget: 'Budget',
+  budgetAmount: '{{spent}} sur {{limit}}',
+  budgetUsed: '{{percentage}} % utilisé',
+  noBudgets: 'Aucun budget actif',
+  topMerchants: 'Principaux commerçants',
+  merchantCount_one: '{{count}} transaction',
+  merchantCount_other: '{{count}} transactions',
+  noMerchants: 'Aucune dépense sur cette période',
+  comingUp: 'À venir',
+  due: 'Échéance le {{date}}',
+  renews: 'Renouvellement le {{date}}',
+  nothingComingUp: 'Aucune facture ni aucun renouvellement dans les {{days}} prochains jours',
+  goals: 'Objectifs',
+  goalProgress: '{{current}} sur {{target}}',
+  noGoals: 'Aucun objectif actif',
+  netWorth: 'Patrimoine net',
+  netWorthChangeWeek: '{{change}} sur la semaine',
+  netWorthChangeMonth: '{{change}} sur le mois',
+  openApp: 'Ouvrir SpendTrak',
+  footer: 'Vous recevez cet e-mail car les résumés sont activés. Modifiez-les ou désactivez-les dans Paramètres → Résumé par e-mail.',
+};
+
+const hi: DigestStrings = {
+  subjectWeekly: 'आपका साप्ताहिक SpendTrak डाइजेस्ट',
+  subjectMonthly: '{{month}} के लिए आपका SpendTrak डाइजेस्ट',
+  headingWeekly: 'इस सप्ताह आपका पैसा',
+  headingMonthly: 'इस महीने आपका पैसा',
+  periodRange: '{{start}} – {{end}}',
+  spending: 'खर्च',
+  totalSpent: 'कुल खर्च',
+  income: 'आय',
+  net: 'शुद्ध',
+  vsPreviousWeek: 'पिछले सप्ताह की तुलना में {{change}}',
+  vsPreviousMonth: 'पिछले महीने की तुलना में {{change}}',
+  budgets: 'बजट',
+  budget: 'बजट',
+  budgetAmount: '{{limit}} में से {{spent}}',
+  budgetUsed: '{{percentage}}% उपयोग हुआ',
+  noBudgets: 'कोई सक्रिय बजट नहीं',
+  topMerchants: 'शीर्ष व्यापारी',
+  merchantCount_one: '{{count}} लेनदेन',
+  merchantCount_other: '{{count}} लेनदेन',
+  noMerchants: 'इस अवधि में कोई खर्च नहीं',
+  comingUp: 'आगामी',
+  due: '{{date}} को देय',
+  renews: '{{date}} को नवीनीकरण',
+  nothingComingUp: 'अगले {{days}} दिनों में कोई बिल या नवीनीकरण नहीं',
+  goals: 'लक्ष्य',
+  goalProgress: '{{target}} में से {{current}}',
+  noGoals: 'कोई सक्रिय लक्ष्य नहीं',
+  netWorth: 'कुल संपत्ति',
+  netWorthChangeWeek: 'इस सप्ताह {{change}}',
+  netWorthChangeMonth: 'इस महीने {{change}}',
+  openApp: 'SpendTrak खोलें',
+  footer: 'आपको यह ईमेल इसलिए मिला क्योंकि डाइजेस्ट चालू है। इसे सेटिंग्स → ईमेल डाइजेस्ट में बदलें या बंद करें।',
+};
+
+const pt: DigestStrings = {
+  subjectWeekly: 'Seu resumo semanal do SpendTrak',
+  subjectMonthly: 'Seu resumo do SpendTrak de {{month}}',
+  headingWeekly: 'Sua semana em dinheiro',
+  headingMonthly: 'Seu mês em dinheiro',
+  periodRange: '{{start}} – {{end}}',
+  spending: 'Gastos',
+  totalSpent: 'Total gasto',
+  income: 'Receitas',
+  net: 'Saldo',
+  vsPreviousWeek: '{{change}} em relação à semana anterior',
+  vsPreviousMonth: '{{change}} em relação ao mês anterior',
+  budgets: 'Orçamentos',
+  budget: 'Orçamento',
+  budgetAmount: '{{spent}} de {{limit}}',
+  budgetUsed: '{{percentage}}% usado',
+  noBudgets: 'Nenhum orçamento ativo',
+  topMerchants: 'Principais estabelecimentos',
+  merchantCount_one: '{{count}} transação',
+  merchantCount_other: '{{count}} transações',
+  noMerchants: 'Nenhum gasto neste período',
+  comingUp: 'Em breve',
+  due: 'Vence em {{date}}',
+  renews: 'Renova em {{date}}',
+  nothingComingUp: 'Nenhuma conta ou renovação nos próximos {{days}} dias',
+  goals: 'Metas',
+  goalProgress: '{{current}} de {{target}}',
+  noGoals: 'Nenhuma meta ativa',
+  netWorth: 'Patrimônio líquido',
+  netWorthChangeWeek: '{{change}} na semana',
+  netWorthChangeMonth: '{{change}} no mês',
+  openApp: 'Abrir SpendTrak',
+  footer: 'Você recebe este e-mail porque os resumos estão ativados. Altere ou desative em Configurações → Resumo por e-mail.',
+};
+
+const ur: DigestStrings = {
+  subjectWeekly: 'آپ کا ہفتہ وار SpendTrak ڈائجسٹ',
+  subjectMonthly: '{{month}} کے لیے آپ کا SpendTrak ڈائجسٹ',
+  headingWeekly: 'اس ہفتے آپ کا پیسہ',
+  headingMonthly: 'اس مہینے آپ کا پیسہ',
+  periodRange: '{{start}} – {{end}}',
+  spending: 'اخراجات',
+  totalSpent: 'کل خرچ',
+  income: 'آمدنی',
+  net: 'خالص',
+  vsPreviousWeek: 'پچھلے ہفتے کے مقابلے میں {{change}}',
+  vsPreviousMonth: 'پچھلے مہینے کے مقابلے میں {{change}}',
+  budgets: 'بجٹ',
+  budget: 'بجٹ',
+  budgetAmount: '{{limit}} میں سے {{spent}}',
+  budgetUsed: '{{percentage}}% استعمال ہوا',
+  noBudgets: 'کوئی فعال بجٹ نہیں',
+  topMerchants: 'سرفہرست دکاندار',
+  merchantCount_one: '{{count}} لین دین',
+  merchantCount_other: '{{count}} لین دین',
+  noMerchants: 'اس مدت میں کوئی خرچ نہیں',
+  comingUp: 'آنے والے',
+  due: '{{date}} کو واجب الادا',
+  renews: '{{date}} کو تجدید',
+  nothingComingUp: 'اگلے {{days}} دنوں میں کوئی بل یا تجدید نہیں',
+  goals: 'اہداف',
+  goalProgress: '{{target}} میں سے {{current}}',
+  noGoals: 'کوئی فعال ہدف نہیں',
+  netWorth: 'کل مالیت',
+  netWorthChangeWeek: 'اس ہفتے {{change}}',
+  netWorthChangeMonth: 'اس مہینے {{change}}',
+  openApp: 'SpendTrak کھولیں',
+  footer: 'آپ کو یہ ای میل اس لیے ملی کیونکہ ڈائجسٹ آن ہیں۔ انہیں ترتیبات ← ای میل ڈائجسٹ میں تبدیل یا بند کریں۔',
+};
+
+export const DIGEST_STRINGS: Record<string, DigestStrings> = { en, ar, de, es, fr, hi, pt, ur };
+
+/** Intl locale per app language, as in src/utils/locale.ts */
+export const DIGEST_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  ar: 'ar-SA',
+  fr: 'fr-FR',
+  es: 'es-ES',
+  de: 'de-DE',
+  hi: 'hi-IN',
+  ur: 'ur-PK',
+  zh: 'zh-CN',
+  ja: 'ja-JP',
+  pt: 'pt-BR',
+  ru: 'ru-RU',
+  tr: 'tr-TR',
+};
+
+/** Right-to-left app languages, as in src/config/languages.ts */
+export const RTL_LANGUAGES = ['ar', 'ur'];
@@ -0,0 +1,265 @@
+/**
+ * Shared PDF invoice import for the email edge functions
+ * Extracts invoices from PDF attachments (Gemini first, local text parser as
+ * fallback) and records them as transactions and, for recurring bills, Bills.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  base64ToBytes,
+  buildInvoiceBill,
+  buildInvoiceTransaction,
+  extractPdfText,
+  parseInvoiceText,
+  type InvoiceData,
+  type InvoiceHints,
+  type PdfAttachment,
+} from './pdfInvoice.ts';
+
+const MIN_INVOICE_CONFIDENCE = 0.6;
+
+export interface InvoiceImportContext {
+  userId: string;
+  categoryMap: Record<string, string>;
+  defaultCategoryId: string;
+  /** Shown in transaction notes, e.g. "email" or "iCloud forwarding" */
+  sourceLabel: string;
+  geminiApiKey?: string | null;
+  hints: InvoiceHints;
+}
+
+export interface InvoiceImportResult {
+  invoices: Array<InvoiceData & { filename: string }>;
+  transactionIds: string[];
+  billIds: string[];
+  skipped: Array<{ filename: string; reason: string }>;
+}
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+/**
+ * Ask Gemini to read the PDF directly (handles scanned and font-encoded PDFs)
+ */
+async function extractInvoiceWithGemini(
+  attachment: PdfAttachment,
+  hints: InvoiceHints,
+  apiKey: string
+): Promise<InvoiceData | null> {
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{
+          parts: [
+            { inline_data: { mime_type: 'application/pdf', data: attachment.data } },
+            {
+              text: `This PDF was attached to an email from "${hints.from || ''}" with subject "${hints.subject || ''}".
+Extract the invoice, bill, ticket or receipt it contains.
+
+Return ONLY valid JSON (no markdown, no explanation):
+{
+  "merchant": { "name": "company name", "address": "optional" },
+  "transaction": { "date": "YYYY-MM-DD (issue date)", "receipt_number": "invoice/booking number" },
+  "items": [{ "name": "line description", "quantity": 1, "unit_price": 0.00, "total_price": 0.00 }],
+  "payment": { "subtotal": 0.00, "tax": 0.00, "total": 0.00 },
+  "currency": "ISO code",
+  "confidence_score": 0.0 to 1.0,
+  "document_type": "invoice" | "utility_bill" | "ticket" | "receipt" | "other",
+  "category": "Food" | "Transport" | "Shopping" | "Entertainment" | "Utilities" | "Subscriptions" | "Travel" | "Health" | "Education" | "Other",
+  "is_recurring": true if this is a periodic bill (utility, telecom, subscription, rent),
+  "billing_frequency": "weekly" | "biweekly" | "monthly" | "quarterly" | "yearly" | null,
+  "due_date": "YYYY-MM-DD" or null,
+  "is_paid": false if an amount is still due, otherwise true,
+  "account_reference": "account or contract number, if any"
+}
+
+If the PDF is not a financial document, return: {"confidence_score": 0.0}`,
+            },
+          ],
+        }],
+        generationConfig: {
+          temperature: 0.1,
+          maxOutputTokens: 2048,
+        },
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Gemini API ${response.status}`);
+  }
+
+  const data = await response.json();
+  const text = (data.candidates?.[0]?.content?.parts?.[0]?.text || '')
+    .replace(/```json\n?/g, '')
+    .replace(/```/g, '')
+    .trim();
+  if (!text) throw new Error('Empty Gemini response');
+
+  const parsed = JSON.parse(text);
+  if (!parsed.payment?.total || !parsed.merchant?.name) return null;
+
+  return {
+    ...parsed,
+    transaction: {
+      ...parsed.transaction,
+      date: parsed.transaction?.date || hints.date || new Date().toISOString().split('T')[0],
+    },
+    items: Array.isArray(parsed.items) ? parsed.items : [],
+    currency: parsed.currency || 'USD',
+    document_type: parsed.document_type || 'invoice',
+    category: parsed.category || 'Other',
+    is_recurring: parsed.is_recurring === true,
+    billing_frequency: parsed.is_recurring ? parsed.billing_frequency || 'monthly' : null,
+    due_date: parsed.due_date || null,
+    is_paid: parsed.is_paid !== false,
+  };
+}
+
+/**
+ * Extract an invoice from a PDF attachment.
+ * Uses Gemini when a key is configured and falls back to the local text parser.
+ */
+export async function extractInvoice(
+  attachment: PdfAttachment,
+  hints: InvoiceHints,
+  geminiApiKey?: string | null
+): Promise<InvoiceData | null> {
+  if (geminiApiKey) {
+    try {
+      return await extractInvoiceWithGemini(attachment, hints, geminiApiKey);
+    } catch (error: any) {
+      console.warn(`Gemini PDF extraction failed for ${attachment.filename}, using text parser:`, error.message);
+    }
+  }
+
+  const text = await extractPdfText(base64ToBytes(attachment.data));
+  return text ? parseInvoiceText(text, hints) : null;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Find the user's bill for this payee, creating it on the first invoice
+ */
+async function upsertBill(
+  supabase: SupabaseClient,
+  invoice: InvoiceData,
+  userId: string,
+  categoryId: string
+): Promise<string | null> {
+  const bill = buildInvoiceBill(invoice, userId, categoryId);
+
+  const { data: existing } = await supabase
+    .from('bills')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .ilike('payee_name', bill.payee_name || bill.name)
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    // Keep the expected amount in line with the latest invoice
+    await supabase
+      .from('bills')
+      .update({ amount: bill.amount, currency: bill.currency, ...(bill.due_day && { due_day: bill.due_day }) })
+      .eq('id', existing.id);
+    return existing.id;
+  }
+
+  const { data: created, error } = await supabase.from('bills').insert(bill).select('id').single();
+  if (error) {
+    console.error('Failed to create bill from invoice:', error);
+    return null;
+  }
+  return created.id;
+}
+
+/**
+ * Turn PDF attachments into transactions and recurring bills.
+ * Unpaid bills only get a pending bill payment; the transaction is recorded
+ * once the bill is paid so spending isn't counted twice.
+ */
+export async function importPdfInvoices(
+  supabase: SupabaseClient,
+  attachments: PdfAttachment[],
+  context: InvoiceImportContext
+): Promise<InvoiceImportResult> {
+  const result: InvoiceImportResult = { invoices: [], transactionIds: [], billIds: [], skipped: [] };
+
+  for (const attachment of attachments) {
+    try {
+      const invoice = await extractInvoice(attachment, context.hints, context.geminiApiKey);
+
+      if (!invoice || invoice.confidence_score < MIN_INVOICE_CONFIDENCE || invoice.payment.total <= 0) {
+        result.skipped.push({ filename: attachment.filename, reason: invoice ? 'low confidence' : 'no invoice found' });
+        continue;
+      }
+
+      result.invoices.push({ ...invoice, filename: attachment.filename });
+      const categoryId = context.categoryMap[invoice.category] || context.defaultCategoryId;
+
+      let transactionId: string | null = null;
+      if (invoice.is_paid) {
+        const { data: transaction, error } = await supabase
+          .from('transactions')
+          .insert(buildInvoiceTransaction(invoice, context.userId, categoryId, context.sourceLabel))
+          .select('id')
+          .single();
+
+        if (error) {
+          console.error(`Failed to insert transaction for ${attachment.filename}:`, error);
+        } else {
+          transactionId = transaction.id;
+          result.transactionIds.push(transaction.id);
+        }
+      }
+
+      if (invoice.is_recurring) {
+        const billId = await upsertBill(supabase, invoice, context.userId, categoryId);
+        if (billId) {
+          result.billIds.push(billId);
+          await supabase.from('bill_payments').insert({
+            bill_id: billId,
+            user_id: context.userId,
+            due_date: invoice.due_date || invoice.transaction.date,
+            amount_due: invoice.payment.total,
+            amount_paid: invoice.is_paid ? invoice.payment.total : 0,
+            status: invoice.is_paid ? 'paid' : 'pending',
+            paid_date: invoice.is_paid ? invoice.transaction.date : null,
+            transaction_id: transactionId,
+            notes: invoice.transaction.receipt_number ? `Invoice ${invoice.transaction.receipt_number}` : null,
+          });
+        }
+      }
+
+      console.log(`PDF invoice: ${invoice.merchant.name} - ${invoice.payment.total} ${invoice.currency} (${invoice.document_type}${invoice.is_recurring ? ', recurring' : ''})`);
+    } catch (error: any) {
+      console.error(`Failed to import PDF ${attachment.filename}:`, error.message);
+      result.skipped.push({ filename: attachment.filename, reason: error.message });
+    }
+  }
+
+  return result;
+}
+
+/** Summary stored alongside the email's gemini_response */
+export const summarizeInvoiceImport = (result: InvoiceImportResult) => ({
+  invoices: result.invoices.map((invoice) => ({
+    filename: invoice.filename,
+    merchant: invoice.merchant.name,
+    total: invoice.payment.total,
+    currency: invoice.currency,
+    document_type: invoice.document_type,
+    is_recurring: invoice.is_recurring,
+    due_date: invoice.due_date,
+  })),
+  skipped: result.skipped,
+});
@@ -0,0 +1,126 @@
+/**
+ * PDF invoice extraction tests
+ * Run with: deno test --allow-read supabase/functions/_shared/
+ */
+
+import { assert, assertEquals, assertObjectMatch } from 'jsr:@std/assert@1';
+import {
+  buildInvoiceBill,
+  buildInvoiceTransaction,
+  extractPdfAttachmentsFromMime,
+  extractPdfText,
+  findGmailPdfParts,
+  base64ToBytes,
+  parseInvoiceDate,
+  parseInvoiceText,
+} from './pdfInvoice.ts';
+
+const fixture = (name: string) => new URL(`./fixtures/${name}`, import.meta.url);
+
+async function parseFixture(name: string, hints: { from?: string; subject?: string }) {
+  const text = await extractPdfText(await Deno.readFile(fixture(name)));
+  return parseInvoiceText(text, hints);
+}
+
+Deno.test('extractPdfText reads FlateDecode content streams', async () => {
+  const text = await extractPdfText(await Deno.readFile(fixture('utility-bill.pdf')));
+
+  assert(text.includes('Dubai Electricity and Water Authority'));
+  assert(text.includes('Total Amount Due AED 523.01'));
+});
+
+Deno.test('extractPdfText turns TJ kerning gaps into spaces', async () => {
+  const text = await extractPdfText(await Deno.readFile(fixture('airline-ticket.pdf')));
+
+  assert(text.split('\n').includes('E-TICKET RECEIPT'));
+});
+
+Deno.test('parseInvoiceDate handles day-first and written dates', () => {
+  assertEquals(parseInvoiceDate('14/09/2026'), '2026-09-14');
+  assertEquals(parseInvoiceDate('09/14/2026'), '2026-09-14');
+  assertEquals(parseInvoiceDate('02 Sep 2026'), '2026-09-02');
+  assertEquals(parseInvoiceDate('Sep 21, 2026'), '2026-09-21');
+  assertEquals(parseInvoiceDate('no date'), null);
+});
+
+Deno.test('utility bill becomes an unpaid monthly bill', async () => {
+  const invoice = await parseFixture('utility-bill.pdf', { from: 'DEWA <ebill@dewa.gov.ae>' });
+
+  assertObjectMatch(invoice!, {
+    merchant: { name: 'DEWA' },
+    transaction: { date: '2026-09-14' },
+    payment: { subtotal: 498.1, tax: 24.91, total: 523.01 },
+    currency: 'AED',
+    document_type: 'utility_bill',
+    category: 'Utilities',
+    is_recurring: true,
+    billing_frequency: 'monthly',
+    due_date: '2026-10-05',
+    is_paid: false,
+    account_reference: '2034518876',
+  });
+
+  assertObjectMatch(buildInvoiceBill(invoice!, 'user-1', 'cat-utilities'), {
+    name: 'DEWA',
+    amount: 523.01,
+    due_day: 5,
+    frequency: 'monthly',
+    is_essential: true,
+  });
+});
+
+Deno.test('airline e-ticket becomes a paid travel purchase', async () => {
+  const invoice = await parseFixture('airline-ticket.pdf', { from: 'Emirates <do-not-reply@emirates.com>' });
+
+  assertObjectMatch(invoice!, {
+    merchant: { name: 'Emirates' },
+    transaction: { date: '2026-09-02', receipt_number: 'XK7P2Q' },
+    payment: { total: 3062.5 },
+    document_type: 'ticket',
+    category: 'Travel',
+    is_recurring: false,
+    is_paid: true,
+  });
+});
+
+Deno.test('e-commerce invoice keeps its line items', async () => {
+  const invoice = await parseFixture('ecommerce-invoice.pdf', { from: 'noreply@noon.com' });
+
+  assertEquals(invoice!.merchant.name, 'Noon');
+  assertEquals(invoice!.items.map((item) => [item.name, item.quantity, item.total_price]), [
+    ['USB-C Charger 65W', 1, 119],
+    ['Phone Case', 2, 70],
+    ['Screen Protector', 1, 29],
+  ]);
+  assertObjectMatch(invoice!.payment, { subtotal: 218, tax: 10.9, total: 228.9 });
+
+  assertObjectMatch(buildInvoiceTransaction(invoice!, 'user-1', 'cat-shopping', 'email'), {
+    amount: -228.9,
+    currency: 'AED',
+    merchant_name: 'Noon',
+    transaction_date: '2026-09-21',
+    source: 'email',
+  });
+});
+
+Deno.test('extractPdfAttachmentsFromMime finds PDFs in forwarded emails', async () => {
+  const attachments = extractPdfAttachmentsFromMime(await Deno.readTextFile(fixture('forwarded-bill.eml')));
+
+  assertEquals(attachments.length, 1);
+  assertEquals(attachments[0].filename, 'DEWA_Bill_Sep2026.pdf');
+  const text = await extractPdfText(base64ToBytes(attachments[0].data));
+  assert(text.includes('Total Amount Due AED 523.01'));
+});
+
+Deno.test('findGmailPdfParts walks nested parts', () => {
+  const parts = findGmailPdfParts({
+    mimeType: 'multipart/mixed',
+    parts: [
+      { mimeType: 'multipart/alternative', parts: [{ mimeType: 'text/plain', body: { data: 'aGk' } }] },
+      { mimeType: 'application/pdf', filename: 'invoice.pdf', body: { attachmentId: 'att-1', size: 900 } },
+      { mimeType: 'image/png', filename: 'logo.png', body: { attachmentId: 'att-2', size: 100 } },
+    ],
+  });
+
+  assertEquals(parts, [{ filename: 'invoice.pdf', attachmentId: 'att-1' }]);
+});
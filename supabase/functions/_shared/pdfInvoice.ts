@@ -0,0 +1,590 @@
+/**
+ * PDF invoice extraction for the email pipeline
+ * Finds PDF attachments in emails, pulls their text and parses invoices,
+ * tickets and utility bills into the app's ReceiptData shape.
+ *
+ * Dependency-free (web APIs only) so it can be tested locally against the
+ * fixture PDFs: deno test --allow-read supabase/functions/_shared/
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+// Mirrors ReceiptData in src/types/receipt.ts
+export interface ReceiptItem {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  category?: 'food' | 'grocery' | 'transport' | 'entertainment' | 'utilities' | 'healthcare' | 'shopping' | 'other';
+}
+
+export interface ReceiptData {
+  merchant: { name: string; address?: string; phone?: string };
+  transaction: { date: string; time?: string; receipt_number?: string };
+  items: ReceiptItem[];
+  payment: {
+    subtotal: number;
+    tax?: number;
+    tip?: number;
+    discount?: number;
+    total: number;
+    method?: string;
+    card_last_four?: string;
+  };
+  currency: string;
+  confidence_score: number;
+  raw_text?: string;
+}
+
+export type InvoiceDocumentType = 'invoice' | 'utility_bill' | 'ticket' | 'receipt' | 'other';
+export type InvoiceFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+/** ReceiptData plus the invoice details needed to create transactions and bills */
+export interface InvoiceData extends ReceiptData {
+  document_type: InvoiceDocumentType;
+  /** Email category name ("Utilities", "Travel", ...) used with the shared category map */
+  category: string;
+  is_recurring: boolean;
+  billing_frequency: InvoiceFrequency | null;
+  due_date: string | null;
+  is_paid: boolean;
+  account_reference?: string;
+}
+
+export interface PdfAttachment {
+  filename: string;
+  /** Base64 (standard alphabet) file content */
+  data: string;
+}
+
+export interface InvoiceHints {
+  from?: string;
+  subject?: string;
+  /** Fallback date (the email date), YYYY-MM-DD */
+  date?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MAX_PDF_BYTES = 5 * 1024 * 1024;
+export const MAX_PDFS_PER_EMAIL = 3;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '₹': 'INR' };
+const CURRENCY_CODES = ['AED', 'USD', 'EUR', 'GBP', 'SAR', 'QAR', 'KWD', 'BHD', 'OMR', 'INR', 'EGP', 'CAD', 'AUD'];
+
+// Most specific label first: "amount due" beats a plain "total"
+const TOTAL_LABELS = [
+  /total\s+amount\s+due/i,
+  /amount\s+due/i,
+  /total\s+payable/i,
+  /balance\s+due/i,
+  /grand\s+total/i,
+  /total\s+(?:amount|paid|charged)/i,
+  /^\s*total\b/i,
+];
+const SUBTOTAL_LABEL = /sub[\s-]?total/i;
+const TAX_LABEL = /\b(?:vat|tax|gst)\b/i;
+const ISSUE_DATE_LABEL = /(?:invoice|bill|issue|statement|booking|order)\s+date|date\s+of\s+issue/i;
+const DUE_DATE_LABEL = /due\s+date|pay\s+by|payment\s+due/i;
+const REFERENCE_LABEL = /(?:account|contract|customer|invoice|booking)\s+(?:no\.?|number|#|ref(?:erence)?)|\bpnr\b/i;
+
+const AMOUNT_PATTERN = /-?\d{1,3}(?:,\d{3})*(?:\.\d{2})|-?\d+\.\d{2}/g;
+
+// ============================================
+// MIME ATTACHMENTS
+// ============================================
+
+const isPdf = (contentType: string, filename: string): boolean =>
+  /application\/pdf/i.test(contentType) || /\.pdf$/i.test(filename);
+
+/** Estimated decoded size of base64 content */
+const base64Size = (data: string): number => Math.floor((data.replace(/[^A-Za-z0-9+/]/g, '').length * 3) / 4);
+
+function headerParam(headers: string, name: string): string {
+  const match = headers.match(new RegExp(`${name}\\*?=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return (match?.[1] ?? match?.[2] ?? '').trim();
+}
+
+/**
+ * Find base64-encoded PDF attachments in a raw RFC 822 email (forwarded mail)
+ */
+export function extractPdfAttachmentsFromMime(rawEmail: string): PdfAttachment[] {
+  const attachments: PdfAttachment[] = [];
+
+  const walk = (entity: string) => {
+    const split = entity.search(/\r?\n\r?\n/);
+    if (split === -1) return;
+    const headers = entity.slice(0, split).replace(/\r?\n[ \t]+/g, ' ');
+    const body = entity.slice(split).replace(/^\r?\n\r?\n/, '');
+    const contentType = headers.match(/^content-type:\s*([^\r\n]+)/im)?.[1] ?? 'text/plain';
+
+    if (/^multipart\//i.test(contentType)) {
+      const boundary = headerParam(contentType, 'boundary');
+      if (!boundary) return;
+      const parts = body.split(`--${boundary}`).slice(1);
+      for (const part of parts) {
+        if (part.startsWith('--')) break;
+        walk(part.replace(/^\r?\n/, ''));
+      }
+      return;
+    }
+
+    const disposition = headers.match(/^content-disposition:\s*([^\r\n]+)/im)?.[1] ?? '';
+    const filename = headerParam(disposition, 'filename') || headerParam(contentType, 'name') || 'attachment.pdf';
+    const encoding = headers.match(/^content-transfer-encoding:\s*(\S+)/im)?.[1]?.toLowerCase();
+
+    if (isPdf(contentType, filename) && encoding === 'base64') {
+      const data = body.replace(/\s+/g, '');
+      if (data && base64Size(data) <= MAX_PDF_BYTES) {
+        attachments.push({ filename, data });
+      }
+    }
+  };
+
+  walk(rawEmail);
+  return attachments.slice(0, MAX_PDFS_PER_EMAIL);
+}
+
+/** A PDF part of a Gmail API message (content is fetched separately when attachmentId is set) */
+export interface GmailPdfPart {
+  filename: string;
+  attachmentId?: string;
+  data?: string;
+}
+
+/**
+ * Find PDF parts in a Gmail API message payload (format=full)
+ */
+export function findGmailPdfParts(payload: any): GmailPdfPart[] {
+  const parts: GmailPdfPart[] = [];
+
+  const walk = (part: any) => {
+    if (!part) return;
+    const filename = part.filename || '';
+    if (isPdf(part.mimeType || '', filename) && (part.body?.size ?? 0) <= MAX_PDF_BYTES) {
+      if (part.body?.attachmentId) {
+        parts.push({ filename: filename || 'attachment.pdf', attachmentId: part.body.attachmentId });
+      } else if (part.body?.data) {
+        parts.push({ filename: filename || 'attachment.pdf', data: fromBase64Url(part.body.data) });
+      }
+    }
+    (part.parts || []).forEach(walk);
+  };
+
+  walk(payload);
+  return parts.slice(0, MAX_PDFS_PER_EMAIL);
+}
+
+/** Gmail returns base64url; convert it to standard base64 */
+export const fromBase64Url = (data: string): string => {
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  return base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+};
+
+export function base64ToBytes(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// ============================================
+// PDF TEXT
+// ============================================
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let text = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    text += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return text;
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(bytes)]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Read a PDF literal string starting after "(", returning the text and the index after ")" */
+function readLiteralString(content: string, start: number): [string, number] {
+  let depth = 1;
+  let text = '';
+  let i = start;
+
+  while (i < content.length && depth > 0) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[i + 1];
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '', '(': '(', ')': ')', '\\': '\\' };
+      if (next in escapes) {
+        text += escapes[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        text += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else {
+        i += 2; // line continuation or unknown escape
+      }
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth > 0) text += char;
+    i++;
+  }
+
+  return [text, i];
+}
+
+/**
+ * Pull the text out of a page content stream.
+ * Handles Tj/TJ/'/" strings (literal and single-byte hex) and starts a new line on
+ * text positioning operators; kerning gaps in TJ arrays become spaces.
+ */
+export function extractContentText(content: string): string {
+  const lines: string[] = [];
+  let line = '';
+  let inArray = false;
+  let i = 0;
+
+  const newLine = () => {
+    if (line.trim()) lines.push(line.replace(/\s+/g, ' ').trim());
+    line = '';
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === '(') {
+      const [text, next] = readLiteralString(content, i + 1);
+      line += text;
+      i = next;
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end).replace(/\s+/g, '');
+      for (let h = 0; h + 1 < hex.length; h += 2) {
+        line += String.fromCharCode(parseInt(hex.slice(h, h + 2), 16));
+      }
+      i = end + 1;
+    } else if (char === '[') {
+      inArray = true;
+      i++;
+    } else if (char === ']') {
+      inArray = false;
+      i++;
+    } else if (/[-\d.]/.test(char)) {
+      const number = content.slice(i).match(/^-?\d*\.?\d+/)?.[0] ?? char;
+      // Large negative kerning inside TJ is a word gap
+      if (inArray && Number(number) < -150) line += ' ';
+      i += number.length;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      if (['Td', 'TD', 'T*', 'Tm', 'ET', "'", '"'].includes(operator)) newLine();
+      i += operator.length;
+    } else {
+      i++;
+    }
+  }
+
+  newLine();
+  return lines.join('\n');
+}
+
+/**
+ * Extract the text of a PDF (uncompressed or FlateDecode content streams).
+ * Returns an empty string for scanned or font-encoded PDFs, which need the AI path.
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const pdf = bytesToLatin1(bytes);
+  if (!pdf.startsWith('%PDF')) return '';
+
+  const texts: string[] = [];
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(pdf)) !== null) {
+    const start = match.index + match[0].length;
+    const end = pdf.indexOf('endstream', start);
+    if (end === -1) break;
+
+    const dictionary = pdf.slice(pdf.lastIndexOf(' obj', match.index), match.index);
+    streamPattern.lastIndex = end;
+
+    // Skip images, fonts and other binary streams
+    if (/\/(?:Subtype\s*\/Image|Length1|FontFile|XRef|ObjStm)/.test(dictionary)) continue;
+
+    let raw = bytes.subarray(start, end);
+    if (/\/Filter\s*\/FlateDecode/.test(dictionary)) {
+      try {
+        raw = await inflate(raw);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const content = bytesToLatin1(raw);
+    if (/\b(?:Tj|TJ)\b/.test(content)) {
+      texts.push(extractContentText(content));
+    }
+  }
+
+  return texts.join('\n').trim();
+}
+
+// ============================================
+// INVOICE PARSING
+// ============================================
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const toAmount = (value: string): number => Number(value.replace(/,/g, ''));
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Parse the first date in a string to YYYY-MM-DD (numeric dates are read day-first)
+ */
+export function parseInvoiceDate(text: string): string | null {
+  const build = (year: number, month: number, day: number): string | null => {
+    if (month < 1 || month > 12 || day < 1 || day > 31 || year < 1990) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+  };
+
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return build(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})\b/);
+  if (numeric) {
+    const [a, b] = [Number(numeric[1]), Number(numeric[2])];
+    // Day-first unless that can't be right
+    return b > 12 ? build(Number(numeric[3]), a, b) : build(Number(numeric[3]), b, a);
+  }
+
+  const dayMonth = text.match(/\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3})[a-z]*\.?[\s,-]+(\d{4})\b/);
+  if (dayMonth && MONTHS[dayMonth[2].toLowerCase()]) {
+    return build(Number(dayMonth[3]), MONTHS[dayMonth[2].toLowerCase()], Number(dayMonth[1]));
+  }
+
+  const monthDay = text.match(/\b([A-Za-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/);
+  if (monthDay && MONTHS[monthDay[1].toLowerCase()]) {
+    return build(Number(monthDay[3]), MONTHS[monthDay[1].toLowerCase()], Number(monthDay[2]));
+  }
+
+  return null;
+}
+
+/** Value after a label on the same line, or on the next line for two-row tables */
+function findLabeled<T>(lines: string[], label: RegExp, parse: (text: string) => T | null): T | null {
+  for (let i = 0; i < lines.length; i++) {
+    const found = lines[i].match(label);
+    if (!found) continue;
+
+    const after = lines[i].slice((found.index ?? 0) + found[0].length);
+    const value = parse(after) ?? (i + 1 < lines.length ? parse(lines[i + 1]) : null);
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+const lastAmount = (text: string): number | null => {
+  const amounts = text.match(AMOUNT_PATTERN);
+  return amounts ? toAmount(amounts[amounts.length - 1]) : null;
+};
+
+function detectCurrency(text: string): string | null {
+  const code = text.match(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`));
+  if (code) return code[1];
+  if (/\bDhs?\b|د\.إ/i.test(text)) return 'AED';
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find((s) => text.includes(s));
+  return symbol ? CURRENCY_SYMBOLS[symbol] : null;
+}
+
+function classifyDocument(text: string, hints: InvoiceHints): {
+  documentType: InvoiceDocumentType;
+  category: string;
+  frequency: InvoiceFrequency | null;
+} {
+  const haystack = `${hints.subject || ''}\n${text}`.toLowerCase();
+
+  let frequency: InvoiceFrequency | null = null;
+  if (/\bquarterly\b/.test(haystack)) frequency = 'quarterly';
+  else if (/\b(?:annual|yearly)\b/.test(haystack)) frequency = 'yearly';
+  else if (/\bmonthly\b|billing period|statement period|bill period/.test(haystack)) frequency = 'monthly';
+
+  if (/e-?ticket|boarding|flight|itinerary|\bpnr\b|passenger/.test(haystack)) {
+    return { documentType: 'ticket', category: 'Travel', frequency: null };
+  }
+  if (/electricity|water|sewerage|\bgas\b|internet|broadband|mobile plan|telecom|kwh|meter reading|billing period/.test(haystack)) {
+    return { documentType: 'utility_bill', category: 'Utilities', frequency: frequency ?? 'monthly' };
+  }
+  if (/subscription|membership|renewal/.test(haystack)) {
+    return { documentType: 'invoice', category: 'Subscriptions', frequency: frequency ?? 'monthly' };
+  }
+  if (/\breceipt\b/.test(haystack) && !/\binvoice\b/.test(haystack)) {
+    return { documentType: 'receipt', category: 'Shopping', frequency };
+  }
+  if (/\binvoice\b|order/.test(haystack)) {
+    return { documentType: 'invoice', category: 'Shopping', frequency };
+  }
+  return { documentType: 'other', category: 'Other', frequency };
+}
+
+/** "Name <billing@dewa.gov.ae>" -> "Name"; bare addresses use the domain */
+export function senderName(from: string | undefined): string {
+  if (!from) return '';
+  const display = from.replace(/<[^>]*>/, '').replace(/["']/g, '').trim();
+  if (display && !display.includes('@')) return display;
+  const domain = from.match(/@([^>.\s]+)/)?.[1] ?? '';
+  return domain ? domain.charAt(0).toUpperCase() + domain.slice(1) : '';
+}
+
+/** Line items laid out as "Description  Qty  Unit price  Amount" */
+function parseItems(lines: string[]): ReceiptItem[] {
+  const items: ReceiptItem[] = [];
+  const row = /^(.+?)\s+(\d+(?:\.\d+)?)\s+(-?[\d,]+\.\d{2})\s+(-?[\d,]+\.\d{2})$/;
+
+  for (const line of lines) {
+    const match = line.match(row);
+    if (!match || TOTAL_LABELS.some((label) => label.test(match[1])) || SUBTOTAL_LABEL.test(match[1])) continue;
+    items.push({
+      name: match[1].trim(),
+      quantity: Number(match[2]),
+      unit_price: toAmount(match[3]),
+      total_price: toAmount(match[4]),
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Parse invoice text (from extractPdfText) without AI.
+ * Used when Gemini is unavailable and in local tests; returns null when no total is found.
+ */
+export function parseInvoiceText(text: string, hints: InvoiceHints = {}): InvoiceData | null {
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) return null;
+
+  let total: number | null = null;
+  for (const label of TOTAL_LABELS) {
+    total = findLabeled(lines, label, lastAmount);
+    if (total !== null) break;
+  }
+  if (total === null || total <= 0) return null;
+
+  const items = parseItems(lines);
+  const itemsTotal = roundAmount(items.reduce((sum, item) => sum + item.total_price, 0));
+  const subtotal = findLabeled(lines, SUBTOTAL_LABEL, lastAmount) ?? (itemsTotal > 0 ? itemsTotal : total);
+  const tax = findLabeled(lines.filter((line) => !SUBTOTAL_LABEL.test(line)), TAX_LABEL, lastAmount);
+  const issueDate = findLabeled(lines, ISSUE_DATE_LABEL, parseInvoiceDate) ?? parseInvoiceDate(text);
+  const dueDate = findLabeled(lines, DUE_DATE_LABEL, parseInvoiceDate);
+  const reference = findLabeled(lines, REFERENCE_LABEL, (after) => after.match(/[A-Z0-9][A-Z0-9-]{3,}/i)?.[0] ?? null);
+  const currency = detectCurrency(text);
+  const merchant = senderName(hints.from) || lines[0];
+  const { documentType, category, frequency } = classifyDocument(text, hints);
+
+  // An amount still due means the bill hasn't been paid yet
+  const hasAmountDue = /amount\s+due|balance\s+due|pay\s+by|due\s+date/i.test(text);
+  const isPaid = /\bpaid\b|payment\s+received|thank\s+you\s+for\s+your\s+payment/i.test(text) || !hasAmountDue;
+
+  let confidence = 0.4;
+  if (issueDate) confidence += 0.15;
+  if (currency) confidence += 0.1;
+  if (merchant) confidence += 0.1;
+  if (items.length > 0 && Math.abs(itemsTotal - subtotal) < 0.05) confidence += 0.1;
+
+  return {
+    merchant: { name: merchant },
+    transaction: {
+      date: issueDate || hints.date || new Date().toISOString().split('T')[0],
+      ...(reference && { receipt_number: reference }),
+    },
+    items,
+    payment: {
+      subtotal,
+      ...(tax !== null && tax < total && { tax }),
+      total,
+    },
+    currency: currency || 'USD',
+    confidence_score: roundAmount(Math.min(confidence, 0.85)),
+    raw_text: text.substring(0, 4000),
+    document_type: documentType,
+    category,
+    is_recurring: frequency !== null,
+    billing_frequency: frequency,
+    due_date: dueDate,
+    is_paid: isPaid,
+    ...(reference && { account_reference: reference }),
+  };
+}
+
+// ============================================
+// RECORD BUILDERS
+// ============================================
+
+/**
+ * Transaction row for an invoice (email imports store purchases as negative amounts)
+ */
+export function buildInvoiceTransaction(
+  invoice: InvoiceData,
+  userId: string,
+  categoryId: string,
+  sourceLabel: string
+) {
+  const reference = invoice.account_reference ? ` #${invoice.account_reference}` : '';
+  return {
+    user_id: userId,
+    amount: -Math.abs(invoice.payment.total),
+    currency: invoice.currency || 'USD',
+    transaction_type: 'purchase',
+    category_id: categoryId,
+    merchant_name: invoice.merchant.name || 'Unknown',
+    notes: `${invoice.document_type.replace('_', ' ')}${reference} [Imported from ${sourceLabel} PDF]`,
+    transaction_date: invoice.transaction.date,
+    source: 'email',
+    metadata: {
+      invoice: {
+        document_type: invoice.document_type,
+        due_date: invoice.due_date,
+        items: invoice.items.length,
+        confidence: invoice.confidence_score,
+      },
+    },
+  };
+}
+
+/**
+ * Bill row for a recurring invoice; the due day comes from the due date (or issue date)
+ */
+export function buildInvoiceBill(invoice: InvoiceData, userId: string, categoryId: string) {
+  const dueDate = invoice.due_date || invoice.transaction.date;
+  return {
+    user_id: userId,
+    name: invoice.merchant.name || 'Bill',
+    amount: Math.abs(invoice.payment.total),
+    currency: invoice.currency || 'USD',
+    category_id: categoryId,
+    payee_name: invoice.merchant.name || null,
+    due_day: Number(dueDate.split('-')[2]) || null,
+    frequency: invoice.billing_frequency || 'monthly',
+    start_date: invoice.transaction.date,
+    auto_pay: false,
+    reminder_days: 3,
+    is_essential: invoice.document_type === 'utility_bill',
+    notes: invoice.account_reference ? `Account ${invoice.account_reference} [Imported from email PDF]` : '[Imported from email PDF]',
+    is_active: true,
+  };
+}
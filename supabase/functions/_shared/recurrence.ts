@@ -0,0 +1,402 @@
+/**
+ * Recurrence Engine
+ * RRULE-style schedules shared by bills, subscriptions and recurring income.
+ * All dates are plain YYYY-MM-DD strings so results don't shift with the device timezone.
+ * The app (src/services/recurrence.ts) and the edge functions both use this
+ * file, so it has no imports.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * What to do when an occurrence lands on a Saturday or Sunday
+ * - none: keep the date
+ * - skip: drop the occurrence
+ * - previous: move to the Friday before
+ * - next: move to the Monday after
+ */
+export type WeekendAdjustment = 'none' | 'skip' | 'previous' | 'next';
+
+/** The app's income, subscription and bill frequencies */
+export type ScheduleFrequency = 'one_time' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Every N days/weeks/months/years */
+  interval: number;
+  /**
+   * Days of month for monthly/yearly rules. Negative values count from the end
+   * of the month (-1 = last day). Days past the end of a short month are clamped.
+   */
+  byMonthDay: number[];
+  /** Month (1-12) for yearly rules, defaults to the start month */
+  byMonth: number | null;
+  /** Use the last weekday (Mon-Fri) of the month instead of byMonthDay */
+  lastBusinessDay: boolean;
+  weekendAdjustment: WeekendAdjustment;
+  /** First possible occurrence (YYYY-MM-DD) */
+  start: string;
+  /** Last possible occurrence (inclusive) */
+  until: string | null;
+  /** Maximum number of occurrences, counted from start */
+  count: number | null;
+}
+
+export interface RuleFromFrequencyOptions {
+  dayOfMonth?: number | null;
+  weekendAdjustment?: WeekendAdjustment;
+  until?: string | null;
+}
+
+/** Safety limit so malformed rules can never loop forever */
+const MAX_ITERATIONS = 5000;
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+function parseIsoDate(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number);
+  return { year, month, day };
+}
+
+function formatIsoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function toUtc(date: string): number {
+  const { year, month, day } = parseIsoDate(date);
+  return Date.UTC(year, month - 1, day);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(toUtc(date) + days * 86400000);
+  return formatIsoDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / 86400000);
+}
+
+/**
+ * Check if a date falls on Monday-Friday
+ */
+export function isBusinessDay(date: string): boolean {
+  const weekday = new Date(toUtc(date)).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * Apply a weekend adjustment. Returns null when the occurrence is skipped.
+ */
+export function adjustForWeekend(date: string, adjustment: WeekendAdjustment): string | null {
+  if (adjustment === 'none' || isBusinessDay(date)) return date;
+  if (adjustment === 'skip') return null;
+
+  const step = adjustment === 'previous' ? -1 : 1;
+  let adjusted = date;
+  while (!isBusinessDay(adjusted)) {
+    adjusted = addDays(adjusted, step);
+  }
+  return adjusted;
+}
+
+/**
+ * Resolve a by-month-day value for a month, clamping to the month length
+ */
+export function resolveMonthDay(year: number, month: number, day: number): string {
+  const length = daysInMonth(year, month);
+  const resolved = day < 0 ? Math.max(1, length + day + 1) : Math.min(Math.max(day, 1), length);
+  return formatIsoDate(year, month, resolved);
+}
+
+/**
+ * Last Monday-Friday of a month
+ */
+export function lastBusinessDayOfMonth(year: number, month: number): string {
+  let date = formatIsoDate(year, month, daysInMonth(year, month));
+  while (!isBusinessDay(date)) {
+    date = addDays(date, -1);
+  }
+  return date;
+}
+
+// ============================================
+// RULE CONSTRUCTION
+// ============================================
+
+/**
+ * Build a rule, filling defaults from the start date
+ */
+export function createRecurrenceRule(
+  rule: Partial<RecurrenceRule> & Pick<RecurrenceRule, 'frequency' | 'start'>
+): RecurrenceRule {
+  const start = rule.start.split('T')[0];
+  const isMonthBased = rule.frequency === 'monthly' || rule.frequency === 'yearly';
+
+  return {
+    frequency: rule.frequency,
+    interval: Math.max(1, Math.floor(rule.interval ?? 1)),
+    byMonthDay: rule.byMonthDay && rule.byMonthDay.length > 0
+      ? rule.byMonthDay
+      : isMonthBased ? [parseIsoDate(start).day] : [],
+    byMonth: rule.byMonth ?? null,
+    lastBusinessDay: rule.lastBusinessDay ?? false,
+    weekendAdjustment: rule.weekendAdjustment ?? 'none',
+    start,
+    until: rule.until ? rule.until.split('T')[0] : null,
+    count: rule.count ?? null,
+  };
+}
+
+/**
+ * Map the app's frequency enums onto a rule.
+ * one_time becomes a single occurrence on the start date.
+ */
+export function ruleFromFrequency(
+  frequency: ScheduleFrequency,
+  start: string,
+  options: RuleFromFrequencyOptions = {}
+): RecurrenceRule {
+  const byMonthDay = options.dayOfMonth ? [options.dayOfMonth] : undefined;
+  const base = {
+    start,
+    until: options.until ?? null,
+    weekendAdjustment: options.weekendAdjustment ?? 'none',
+  };
+
+  switch (frequency) {
+    case 'one_time':
+      return createRecurrenceRule({ ...base, frequency: 'daily', count: 1 });
+    case 'weekly':
+      return createRecurrenceRule({ ...base, frequency: 'weekly' });
+    case 'biweekly':
+      return createRecurrenceRule({ ...base, frequency: 'weekly', interval: 2 });
+    case 'quarterly':
+      return createRecurrenceRule({ ...base, frequency: 'monthly', interval: 3, byMonthDay });
+    case 'yearly':
+      return createRecurrenceRule({ ...base, frequency: 'yearly', byMonthDay });
+    case 'monthly':
+    default:
+      return createRecurrenceRule({ ...base, frequency: 'monthly', byMonthDay });
+  }
+}
+
+// ============================================
+// RRULE STRINGS
+// ============================================
+
+const BUSINESS_DAYS = 'MO,TU,WE,TH,FR';
+const WEEKEND_KEY = 'X-WEEKEND';
+
+/**
+ * Parse an RRULE string such as "FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1".
+ * Supports FREQ, INTERVAL, BYMONTHDAY, BYMONTH, COUNT, UNTIL,
+ * BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1 (last business day) and X-WEEKEND=SKIP|PREVIOUS|NEXT.
+ */
+export function parseRecurrenceRule(rrule: string, start: string): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  rrule
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .map((part) => part.split('='))
+    .forEach(([key, value]) => {
+      if (key && value) parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+    });
+
+  const frequency = parts.get('FREQ')?.toLowerCase() as RecurrenceFrequency | undefined;
+  if (!frequency || !['daily', 'weekly', 'monthly', 'yearly'].includes(frequency)) return null;
+
+  const until = parts.get('UNTIL');
+  const weekend = parts.get(WEEKEND_KEY)?.toLowerCase() as WeekendAdjustment | undefined;
+
+  return createRecurrenceRule({
+    frequency,
+    start,
+    interval: parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1,
+    byMonthDay: parts.get('BYMONTHDAY')?.split(',').map(Number).filter((d) => d !== 0 && !isNaN(d)),
+    byMonth: parts.has('BYMONTH') ? Number(parts.get('BYMONTH')) : null,
+    lastBusinessDay: parts.get('BYDAY') === BUSINESS_DAYS && parts.get('BYSETPOS') === '-1',
+    weekendAdjustment: weekend && ['none', 'skip', 'previous', 'next'].includes(weekend) ? weekend : 'none',
+    until: until ? `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}` : null,
+    count: parts.has('COUNT') ? Number(parts.get('COUNT')) : null,
+  });
+}
+
+/**
+ * Serialize a rule to an RRULE string (the start date is stored separately)
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.lastBusinessDay) {
+    parts.push(`BYDAY=${BUSINESS_DAYS}`, 'BYSETPOS=-1');
+  } else if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.weekendAdjustment !== 'none') parts.push(`${WEEKEND_KEY}=${rule.weekendAdjustment.toUpperCase()}`);
+  return parts.join(';');
+}
+
+// ============================================
+// OCCURRENCES
+// ============================================
+
+/**
+ * Unadjusted dates for the k-th period of a rule, in ascending order
+ */
+function periodDates(rule: RecurrenceRule, period: number): string[] {
+  const start = parseIsoDate(rule.start);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return [addDays(rule.start, period * rule.interval)];
+    case 'weekly':
+      return [addDays(rule.start, period * rule.interval * 7)];
+    case 'monthly':
+    case 'yearly': {
+      const monthIndex = rule.frequency === 'monthly'
+        ? start.year * 12 + (start.month - 1) + period * rule.interval
+        : (start.year + period * rule.interval) * 12 + ((rule.byMonth ?? start.month) - 1);
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+
+      if (rule.lastBusinessDay) return [lastBusinessDayOfMonth(year, month)];
+      const dates = rule.byMonthDay.map((day) => resolveMonthDay(year, month, day));
+      return Array.from(new Set(dates)).sort();
+    }
+  }
+}
+
+/**
+ * First period that can contain dates on or after `from`. Rules with a count
+ * always start at period 0 so the count stays accurate.
+ */
+function firstPeriodFor(rule: RecurrenceRule, from: string): number {
+  if (rule.count !== null || from <= rule.start) return 0;
+
+  const start = parseIsoDate(rule.start);
+  const target = parseIsoDate(from);
+  let units: number;
+
+  switch (rule.frequency) {
+    case 'daily':
+      units = daysBetween(rule.start, from);
+      break;
+    case 'weekly':
+      units = daysBetween(rule.start, from) / 7;
+      break;
+    case 'monthly':
+      units = (target.year - start.year) * 12 + (target.month - start.month);
+      break;
+    case 'yearly':
+      units = target.year - start.year;
+      break;
+  }
+
+  // Step back one period so weekend shifts across the boundary aren't missed
+  return Math.max(0, Math.floor(units / rule.interval) - 1);
+}
+
+/**
+ * Walk the schedule from `from`, yielding adjusted occurrence dates in order
+ */
+function* iterateOccurrences(rule: RecurrenceRule, from: string): Generator<string> {
+  let emitted = 0;
+
+  for (let period = firstPeriodFor(rule, from), i = 0; i < MAX_ITERATIONS; period++, i++) {
+    for (const date of periodDates(rule, period)) {
+      if (date < rule.start) continue;
+      if (rule.until && date > rule.until) return;
+      if (rule.count !== null && emitted >= rule.count) return;
+      emitted++;
+
+      const adjusted = adjustForWeekend(date, rule.weekendAdjustment);
+      if (adjusted && adjusted >= from) yield adjusted;
+    }
+  }
+}
+
+/**
+ * All occurrences between two dates (inclusive)
+ */
+export function getOccurrences(rule: RecurrenceRule, from: string, to: string): string[] {
+  const end = to.split('T')[0];
+  const occurrences: string[] = [];
+
+  for (const date of iterateOccurrences(rule, from.split('T')[0])) {
+    if (date > end) break;
+    occurrences.push(date);
+  }
+  return occurrences;
+}
+
+/**
+ * First occurrence on or after a date, or null when the schedule has ended
+ */
+export function getNextOccurrence(rule: RecurrenceRule, onOrAfter: string): string | null {
+  const next = iterateOccurrences(rule, onOrAfter.split('T')[0]).next();
+  return next.done ? null : next.value;
+}
+
+// ============================================
+// BILLS
+// ============================================
+
+/**
+ * Fields needed to build a bill's schedule
+ */
+export interface BillSchedule {
+  frequency: ScheduleFrequency | null;
+  due_day: number | null;
+  start_date: string;
+  end_date: string | null;
+  recurrence_rule?: string | null;
+}
+
+/**
+ * Build the recurrence rule for a bill. A stored RRULE takes precedence over
+ * frequency + due_day.
+ */
+export function getBillRecurrenceRule(bill: BillSchedule): RecurrenceRule {
+  const start = bill.start_date.split('T')[0];
+  const custom = bill.recurrence_rule ? parseRecurrenceRule(bill.recurrence_rule, start) : null;
+  if (custom) {
+    return bill.end_date && !custom.until ? { ...custom, until: bill.end_date.split('T')[0] } : custom;
+  }
+
+  return ruleFromFrequency(bill.frequency || 'monthly', start, {
+    dayOfMonth: bill.due_day,
+    until: bill.end_date,
+  });
+}
+
+export default {
+  createRecurrenceRule,
+  ruleFromFrequency,
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  getOccurrences,
+  getNextOccurrence,
+  getBillRecurrenceRule,
+  adjustForWeekend,
+  isBusinessDay,
+  lastBusinessDayOfMonth,
+};
@@ -6,10 +6,13 @@
  * - Saves ALL emails to processed_emails_oauth (not just receipts)
  * - Stores gemini_response for debugging
  * - Only creates transactions for confirmed receipts
+ * - Parses PDF invoice attachments into transactions and recurring bills
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 import { getCategoryMap } from '../_shared/categories.ts';
+import { extractPdfAttachmentsFromMime } from '../_shared/pdfInvoice.ts';
+import { importPdfInvoices, summarizeInvoiceImport } from '../_shared/invoiceImport.ts';
 
 const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
@@ -79,6 +82,21 @@ Deno.serve(async (req) => {
     console.log(`Analyzing email: "${subject}" from ${from}`);
     console.log(`Email body length: ${bodyText.length} chars`);
 
+    // PDF attachments (invoices, tickets, utility bills) are itemized, so they take precedence over the body
+    const pdfAttachments = extractPdfAttachmentsFromMime(bodyText);
+    const invoiceImport = await importPdfInvoices(supabase, pdfAttachments, {
+      userId,
+      categoryMap: CATEGORY_MAP,
+      defaultCategoryId: DEFAULT_CATEGORY_ID,
+      sourceLabel: 'iCloud forwarding',
+      geminiApiKey: GEMINI_API_KEY,
+      hints: { from, subject, date: date ? new Date(date).toISOString().split('T')[0] : undefined },
+    });
+    const importedInvoices = invoiceImport.invoices.length > 0;
+    if (pdfAttachments.length > 0) {
+      console.log(`PDF attachments: ${pdfAttachments.length}, invoices imported: ${invoiceImport.invoices.length}`);
+    }
+
     // Send ALL emails to Gemini for intelligent financial transaction detection
     const geminiResponse = await fetch(
       `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${GEMINI_API_KEY}`,
@@ -142,8 +160,8 @@ If not a financial transaction, return: {"isReceipt": false, "confidence": 0.0}`
         email_from: (from || '').substring(0, 255),
         email_date: date ? new Date(date).toISOString() : new Date().toISOString(),
         email_body: bodyText.substring(0, 10000),
-        was_receipt: false,
-        gemini_response: { error: `Gemini API ${geminiResponse.status}` },
+        was_receipt: importedInvoices,
+        gemini_response: { error: `Gemini API ${geminiResponse.status}`, attachments: summarizeInvoiceImport(invoiceImport) },
       });
 
       return new Response(JSON.stringify({ error: 'Gemini API error', saved: true }), {
@@ -192,8 +210,8 @@ If not a financial transaction, return: {"isReceipt": false, "confidence": 0.0}`
         email_from: (from || '').substring(0, 255),
         email_date: date ? new Date(date).toISOString() : new Date().toISOString(),
         email_body: bodyText.substring(0, 10000),
-        was_receipt: false,
-        gemini_response: geminiResponseToSave,
+        was_receipt: importedInvoices,
+        gemini_response: { ...geminiResponseToSave, attachments: summarizeInvoiceImport(invoiceImport) },
       });
 
       return new Response(JSON.stringify({ error: 'Failed to parse Gemini response', saved: true }), {
@@ -211,10 +229,23 @@ If not a financial transaction, return: {"isReceipt": false, "confidence": 0.0}`
       email_from: (from || '').substring(0, 255),
       email_date: date ? new Date(date).toISOString() : new Date().toISOString(),
       email_body: bodyText.substring(0, 10000),
-      was_receipt: parsedReceipt.isReceipt === true,
-      gemini_response: parsedReceipt,
+      was_receipt: parsedReceipt.isReceipt === true || importedInvoices,
+      gemini_response: { ...parsedReceipt, attachments: summarizeInvoiceImport(invoiceImport) },
     });
 
+    if (importedInvoices) {
+      return new Response(JSON.stringify({
+        success: true,
+        wasReceipt: true,
+        invoices: invoiceImport.invoices.length,
+        transactionIds: invoiceImport.transactionIds,
+        billIds: invoiceImport.billIds,
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Create transaction only if valid receipt (matches gmail/outlook webhook logic)
     if (parsedReceipt.isReceipt && parsedReceipt.confidence > 0.6 && parsedReceipt.amount > 0) {
       const categoryId = CATEGORY_MAP[parsedReceipt.category] || DEFAULT_CATEGORY_ID;
@@ -2,14 +2,47 @@
  * Supabase Edge Function: gmail-webhook
  * Receives Gmail push notifications via Google Pub/Sub
  * Sends ALL emails to Gemini AI for intelligent financial transaction detection
+ * PDF invoice attachments are parsed into transactions and recurring bills
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { getCorsHeaders, handleCors } from '../_shared/cors.ts';
 import { getCategoryMap } from '../_shared/categories.ts';
+import { findGmailPdfParts, fromBase64Url, type PdfAttachment } from '../_shared/pdfInvoice.ts';
+import { importPdfInvoices, summarizeInvoiceImport } from '../_shared/invoiceImport.ts';
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Download the PDF parts of a message (large attachments are fetched by id)
+async function fetchPdfAttachments(msgId: string, payload: any, accessToken: string): Promise<PdfAttachment[]> {
+  const attachments: PdfAttachment[] = [];
+
+  for (const part of findGmailPdfParts(payload)) {
+    if (part.data) {
+      attachments.push({ filename: part.filename, data: part.data });
+      continue;
+    }
+
+    const response = await fetch(
+      `https://gmail.googleapis.com/gmail/v1/users/me/messages/${msgId}/attachments/${part.attachmentId}`,
+      {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      }
+    );
+    if (!response.ok) {
+      console.error(`Failed to fetch attachment ${part.filename}:`, response.status);
+      continue;
+    }
+
+    const attachment = await response.json();
+    if (attachment.data) {
+      attachments.push({ filename: part.filename, data: fromBase64Url(attachment.data) });
+    }
+  }
+
+  return attachments;
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   const corsResponse = handleCors(req);
@@ -148,6 +181,7 @@ Deno.serve(async (req) => {
     let emailsAnalyzed = 0;
     let receiptsFound = 0;
     let receiptsImported = 0;
+    let invoicesImported = 0;
 
     // Process each new message - send ALL to Gemini AI
     for (const msgId of messageIds) {
@@ -203,6 +237,19 @@ Deno.serve(async (req) => {
         console.log(`Analyzing email ${emailsAnalyzed}/${messageIds.length}: "${subject}" from ${from}`);
         console.log(`Email body length: ${bodyText.length} chars`);
 
+        // PDF attachments (invoices, tickets, utility bills) are itemized, so they take precedence over the body
+        const pdfAttachments = await fetchPdfAttachments(msgId, msgData.payload, accessToken);
+        const invoiceImport = await importPdfInvoices(supabase, pdfAttachments, {
+          userId: connection.user_id,
+          categoryMap: CATEGORY_MAP,
+          defaultCategoryId: DEFAULT_CATEGORY_ID,
+          sourceLabel: 'email',
+          geminiApiKey,
+          hints: { from, subject, date: date ? new Date(date).toISOString().split('T')[0] : undefined },
+        });
+        const importedInvoices = invoiceImport.invoices.length > 0;
+        invoicesImported += invoiceImport.invoices.length;
+
         // Throttle Gemini calls
         await delay(1500);
 
@@ -298,8 +345,8 @@ If not a financial transaction, return: {"isReceipt": false, "confidence": 0.0}`
             email_from: from.substring(0, 255),
             email_date: date ? new Date(date).toISOString() : null,
             email_body: bodyText.substring(0, 10000),
-            was_receipt: false,
-            gemini_response: geminiResponseToSave,
+            was_receipt: importedInvoices,
+            gemini_response: { ...geminiResponseToSave, attachments: summarizeInvoiceImport(invoiceImport) },
           });
           continue;
         }
@@ -313,12 +360,14 @@ If not a financial transaction, return: {"isReceipt": false, "confidence": 0.0}`
           email_from: from.substring(0, 255),
           email_date: date ? new Date(date).toISOString() : null,
           email_body: bodyText.substring(0, 10000),
-          was_receipt: parsedReceipt.isReceipt === true,
-          gemini_response: parsedReceipt,
+          was_receipt: parsedReceipt.isReceipt === true || importedInvoices,
+          gemini_response: { ...parsedReceipt, attachments: summarizeInvoiceImport(invoiceImport) },
         });
 
         // Create transaction if valid receipt (safety checks)
-        if (parsedReceipt.isReceipt && parsedReceipt.confidence > 0.6 && parsedReceipt.amount > 0) {
+        if (importedInvoices) {
+          console.log(`Skipped body: ${invoiceImport.invoices.length} PDF invoice(s) imported`);
+        } else if (parsedReceipt.isReceipt && parsedReceipt.confidence > 0.6 && parsedReceipt.amount > 0) {
           receiptsFound++;
           // Map category name to category_id
           const categoryId = CATEGORY_MAP[parsedReceipt.category] || DEFAULT_CATEGORY_ID;
@@ -358,10 +407,10 @@ If not a financial transaction, return: {"isReceipt": false, "confidence": 0.0}`
       updated_at: new Date().toISOString(),
     }).eq('id', connection.id);
 
-    console.log(`Processed: ${emailsAnalyzed} emails analyzed, ${receiptsFound} receipts found, ${receiptsImported} imported`);
+    console.log(`Processed: ${emailsAnalyzed} emails analyzed, ${receiptsFound} receipts found, ${receiptsImported} imported, ${invoicesImported} PDF invoices`);
 
     return new Response(
-      JSON.stringify({ success: true, receiptsFound, receiptsImported }),
+      JSON.stringify({ success: true, receiptsFound, receiptsImported, invoicesImported }),
       { headers: { ...getCorsHeaders(origin), 'Content-Type': 'application/json' } }
     );
 
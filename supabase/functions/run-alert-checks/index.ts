@@ -0,0 +1,483 @@
+/**
+ * Supabase Edge Function: run-alert-checks
+ *
+ * Runs the alert checks for every user (or one user) and pushes new alerts:
+ * unusual spending, duplicate charges, budget thresholds, subscription
+ * renewals and bill reminders. Bill payments are generated ahead from each
+ * bill's recurrence rule so reminders never run out. Alert types the user switched off are not
+ * raised; alerts raised during quiet hours (in the user's timezone) are held
+ * and pushed on the first run after quiet hours end.
+ *
+ * Each alert carries a dedupe key, so running the checks more often than
+ * conditions change never repeats an alert. Schedule it hourly so quiet
+ * hours end on time for every timezone:
+ *
+ *   select cron.schedule(
+ *     'run-alert-checks',
+ *     '5 * * * *',               -- every hour at :05
+ *     $$select net.http_post(
+ *       url := '<SUPABASE_URL>/functions/v1/run-alert-checks',
+ *       headers := jsonb_build_object(
+ *         'Authorization', 'Bearer <SERVICE_ROLE_KEY>',
+ *         'Content-Type', 'application/json'
+ *       ),
+ *       body := '{}'::jsonb
+ *     )$$
+ *   );
+ *
+ * Locally, run `npm run supabase:functions:serve` and POST to
+ * http://localhost:54321/functions/v1/run-alert-checks with the service role
+ * key. Pass { "userId": "..." } to check a single user.
+ */
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  addDays,
+  BILL_PAYMENT_HORIZON_DAYS,
+  findBudgetAlerts,
+  findDuplicateCharges,
+  findMissingBillPayments,
+  findUnusualSpending,
+  findUpcomingBills,
+  findUpcomingRenewals,
+  isAlertTypeEnabled,
+  isQuietHours,
+  localClock,
+  SPENDING_TYPES,
+  type AlertCandidate,
+  type CheckBill,
+  type CheckBudget,
+  type CheckTransaction,
+  type NotificationPreferences,
+} from '../_shared/alertChecks.ts';
+
+/** Held alerts older than this are left in the app instead of pushed late */
+const MAX_PUSH_DELAY_MS = 24 * 60 * 60 * 1000;
+const USER_PAGE_SIZE = 500;
+/** PostgREST returns at most 1000 rows per request */
+const TRANSACTION_PAGE_SIZE = 1000;
+
+interface SchedulerUser {
+  id: string;
+  timezone: string | null;
+  default_currency: string | null;
+  notification_preferences: Partial<NotificationPreferences> | null;
+}
+
+interface UserRunResult {
+  raised: number;
+  pushed: number;
+  held: number;
+}
+
+/** Embedded join; PostgREST may type it as a list even though it returns one row */
+type Joined<T> = T | T[] | null;
+
+interface TransactionRow {
+  id: string;
+  amount: number | string;
+  transaction_date: string;
+  category_id: string | null;
+  merchant_name: string | null;
+  merchant_name_clean: string | null;
+  category: Joined<{ name: string }>;
+}
+
+type BudgetRow = Omit<CheckBudget, 'amount' | 'category_name'> & {
+  amount: number | string;
+  category: Joined<{ name: string }>;
+};
+
+type BillRow = Omit<CheckBill, 'amount'> & { amount: number | string };
+
+interface BillPaymentRow {
+  bill_id: string;
+  due_date: string;
+  amount_due: number | string;
+  bill: Joined<{ name: string; reminder_days: number }>;
+}
+
+interface RaisedAlertRow {
+  id: string;
+  alert_type: string;
+  related_entity_id: string | null;
+  data: { reminder_date?: string } | null;
+}
+
+interface PendingAlertRow extends RaisedAlertRow {
+  title: string;
+  message: string;
+  action_url: string | null;
+}
+
+function joined<T>(value: Joined<T>): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+// ============================================
+// DATA LOADING
+// ============================================
+
+/**
+ * Spending from the start of the 13-week window (or the year, for yearly
+ * budgets) through today, a page at a time
+ */
+async function loadTransactions(
+  supabase: SupabaseClient,
+  userId: string,
+  since: string,
+  today: string
+): Promise<CheckTransaction[]> {
+  const rows: TransactionRow[] = [];
+  for (let from = 0; ; from += TRANSACTION_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, amount, transaction_date, category_id, merchant_name, merchant_name_clean, category:categories(name)')
+      .eq('user_id', userId)
+      .eq('is_deleted', false)
+      .in('transaction_type', SPENDING_TYPES)
+      .gte('transaction_date', since)
+      .lte('transaction_date', today)
+      .order('id')
+      .range(from, from + TRANSACTION_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as TransactionRow[]));
+    if (!data || data.length < TRANSACTION_PAGE_SIZE) break;
+  }
+
+  return rows.map((t) => ({
+    id: t.id,
+    amount: Number(t.amount),
+    transaction_date: String(t.transaction_date).slice(0, 10),
+    category_id: t.category_id,
+    category_name: joined(t.category)?.name ?? null,
+    merchant_name: t.merchant_name || '',
+    merchant_name_clean: t.merchant_name_clean,
+  }));
+}
+
+async function loadCandidates(
+  supabase: SupabaseClient,
+  user: SchedulerUser,
+  today: string
+): Promise<AlertCandidate[]> {
+  const prefs = user.notification_preferences;
+  const currency = user.default_currency || 'USD';
+  const enabled = (type: AlertCandidate['alert_type']) => isAlertTypeEnabled(prefs, type);
+  const candidates: AlertCandidate[] = [];
+
+  const wantsSpending = enabled('unusual_spending');
+  const wantsBudgets = enabled('budget_warning');
+
+  if (wantsSpending || wantsBudgets) {
+    const historyStart = addDays(today, -13 * 7);
+    const yearStart = `${today.slice(0, 4)}-01-01`;
+    const transactions = await loadTransactions(
+      supabase,
+      user.id,
+      wantsBudgets && yearStart < historyStart ? yearStart : historyStart,
+      today
+    );
+
+    if (wantsSpending) {
+      candidates.push(...findUnusualSpending(transactions, today, currency));
+      candidates.push(...findDuplicateCharges(transactions, today, currency));
+    }
+
+    if (wantsBudgets) {
+      const { data: budgets, error } = await supabase
+        .from('budgets')
+        .select('id, category_id, name, amount, period, alert_threshold, category:categories(name)')
+        .eq('user_id', user.id)
+        .eq('is_active', true);
+
+      if (error) throw error;
+      candidates.push(...findBudgetAlerts(
+        ((budgets || []) as BudgetRow[]).map(({ category, ...b }) => ({
+          ...b,
+          amount: Number(b.amount),
+          category_name: joined(category)?.name ?? null,
+        })),
+        transactions,
+        today,
+        currency
+      ));
+    }
+  }
+
+  if (enabled('subscription_renewal')) {
+    const { data: subscriptions, error } = await supabase
+      .from('subscriptions')
+      .select('id, merchant_name, display_name, amount, next_billing_date')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .gte('next_billing_date', today)
+      .lte('next_billing_date', addDays(today, 3));
+
+    if (error) throw error;
+    candidates.push(...findUpcomingRenewals(subscriptions || [], today, currency));
+  }
+
+  if (enabled('upcoming_bill')) {
+    await topUpBillPayments(supabase, user.id, today);
+
+    const { data: payments, error } = await supabase
+      .from('bill_payments')
+      .select('bill_id, due_date, amount_due, bill:bills!inner(name, reminder_days, is_active)')
+      .eq('user_id', user.id)
+      .in('status', ['pending', 'scheduled'])
+      .eq('bill.is_active', true)
+      .gt('bill.reminder_days', 0)
+      .gte('due_date', today)
+      .lte('due_date', addDays(today, BILL_PAYMENT_HORIZON_DAYS));
+
+    if (error) throw error;
+    const upcoming = ((payments || []) as BillPaymentRow[]).flatMap((p) => {
+      const bill = joined(p.bill);
+      if (!bill) return [];
+      return [{
+        bill_id: p.bill_id,
+        bill_name: bill.name,
+        due_date: String(p.due_date).slice(0, 10),
+        amount_due: Number(p.amount_due),
+        reminder_days: bill.reminder_days,
+      }];
+    });
+    candidates.push(...findUpcomingBills(upcoming, today, currency));
+  }
+
+  return candidates;
+}
+
+/**
+ * Create the bill_payments rows the coming weeks need. createBill only
+ * generates a few months ahead, so the scheduler keeps extending each
+ * active bill's payments from its recurrence rule.
+ */
+async function topUpBillPayments(supabase: SupabaseClient, userId: string, today: string): Promise<void> {
+  const { data: bills, error } = await supabase
+    .from('bills')
+    .select('id, amount, frequency, due_day, start_date, end_date, recurrence_rule')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .gt('reminder_days', 0);
+
+  if (error) throw error;
+  const rows = (bills || []) as BillRow[];
+  if (rows.length === 0) return;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('bill_payments')
+    .select('bill_id, due_date')
+    .eq('user_id', userId)
+    .in('bill_id', rows.map((bill) => bill.id))
+    .gte('due_date', today)
+    .lte('due_date', addDays(today, BILL_PAYMENT_HORIZON_DAYS));
+
+  if (existingError) throw existingError;
+
+  const missing = findMissingBillPayments(
+    rows.map((bill) => ({ ...bill, amount: Number(bill.amount) })),
+    ((existing || []) as { bill_id: string; due_date: string }[]).map((p) => ({
+      bill_id: p.bill_id,
+      due_date: String(p.due_date).slice(0, 10),
+    })),
+    today
+  );
+  if (missing.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('bill_payments')
+    .insert(missing.map((payment) => ({ ...payment, user_id: userId, amount_paid: 0, status: 'pending' })));
+
+  if (insertError) throw insertError;
+}
+
+// ============================================
+// RAISING AND DELIVERY
+// ============================================
+
+/**
+ * Insert new alerts; ones whose dedupe key already exists are skipped
+ */
+async function raiseAlerts(
+  supabase: SupabaseClient,
+  userId: string,
+  candidates: AlertCandidate[]
+): Promise<number> {
+  if (candidates.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('alerts')
+    .upsert(
+      candidates.map((candidate) => ({ ...candidate, user_id: userId })),
+      { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true }
+    )
+    .select('id, alert_type, related_entity_id, data');
+
+  if (error) throw error;
+
+  // Mirror bill alerts into bill_reminders for the app's reminder list
+  const reminders = ((data || []) as RaisedAlertRow[])
+    .filter((alert) => alert.alert_type === 'upcoming_bill' && alert.related_entity_id && alert.data?.reminder_date)
+    .map((alert) => ({
+      bill_id: alert.related_entity_id,
+      user_id: userId,
+      reminder_date: alert.data?.reminder_date,
+    }));
+
+  if (reminders.length > 0) {
+    const { error: reminderError } = await supabase
+      .from('bill_reminders')
+      .upsert(reminders, { onConflict: 'bill_id,reminder_date', ignoreDuplicates: true });
+
+    if (reminderError) console.error(`Failed to save bill reminders for ${userId}:`, reminderError.message);
+  }
+
+  return data?.length || 0;
+}
+
+/**
+ * Push scheduled alerts that haven't been delivered yet
+ */
+async function pushPendingAlerts(supabase: SupabaseClient, userId: string, now: Date): Promise<number> {
+  const { data: pending, error } = await supabase
+    .from('alerts')
+    .select('id, alert_type, title, message, action_url, related_entity_id, data')
+    .eq('user_id', userId)
+    .is('pushed_at', null)
+    .not('dedupe_key', 'is', null)
+    .eq('is_dismissed', false)
+    .gte('created_at', new Date(now.getTime() - MAX_PUSH_DELAY_MS).toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  let pushed = 0;
+  for (const alert of (pending || []) as PendingAlertRow[]) {
+    const { error: pushError } = await supabase.functions.invoke('send-push-notification', {
+      body: {
+        userId,
+        title: alert.title,
+        body: alert.message,
+        data: { alert_id: alert.id, alert_type: alert.alert_type, action_url: alert.action_url },
+      },
+    });
+
+    if (pushError) {
+      console.error(`Push failed for alert ${alert.id}:`, pushError.message);
+      continue;
+    }
+
+    const sentAt = new Date().toISOString();
+    await supabase.from('alerts').update({ pushed_at: sentAt }).eq('id', alert.id);
+
+    if (alert.alert_type === 'upcoming_bill' && alert.data?.reminder_date) {
+      await supabase
+        .from('bill_reminders')
+        .update({ is_sent: true, sent_at: sentAt })
+        .eq('bill_id', alert.related_entity_id)
+        .eq('reminder_date', alert.data.reminder_date);
+    }
+    pushed++;
+  }
+
+  return pushed;
+}
+
+async function runForUser(supabase: SupabaseClient, user: SchedulerUser, now: Date): Promise<UserRunResult> {
+  const prefs = user.notification_preferences;
+  const clock = localClock(now, user.timezone);
+
+  const raised = await raiseAlerts(supabase, user.id, await loadCandidates(supabase, user, clock.date));
+
+  if (prefs?.push_enabled === false) {
+    return { raised, pushed: 0, held: 0 };
+  }
+  if (isQuietHours(prefs, clock.minutes)) {
+    return { raised, pushed: 0, held: raised };
+  }
+  return { raised, pushed: await pushPendingAlerts(supabase, user.id, now), held: 0 };
+}
+
+// ============================================
+// HANDLER
+// ============================================
+
+Deno.serve(async (req) => {
+  try {
+    // Only allow POST (from cron) or GET (manual trigger)
+    if (req.method !== 'POST' && req.method !== 'GET') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const userId: string | undefined = body.userId;
+    const now = new Date();
+
+    let users = 0;
+    let raised = 0;
+    let pushed = 0;
+    let held = 0;
+    const errors: string[] = [];
+
+    for (let from = 0; ; from += USER_PAGE_SIZE) {
+      let query = supabase
+        .from('users')
+        .select('id, timezone, default_currency, notification_preferences')
+        .order('id')
+        .range(from, from + USER_PAGE_SIZE - 1);
+      if (userId) query = query.eq('id', userId);
+
+      const { data: page, error: queryError } = await query;
+
+      if (queryError) {
+        console.error('Failed to query users:', queryError);
+        return new Response(
+          JSON.stringify({ success: false, error: queryError.message }),
+          { status: 500, headers: { 'Content-Type': 'application/json' } },
+        );
+      }
+
+      for (const user of page || []) {
+        users++;
+        try {
+          const result = await runForUser(supabase, user, now);
+          raised += result.raised;
+          pushed += result.pushed;
+          held += result.held;
+        } catch (userError: any) {
+          console.error(`Alert checks failed for ${user.id}:`, userError.message);
+          errors.push(`${user.id}: ${userError.message}`);
+        }
+      }
+
+      if (!page || page.length < USER_PAGE_SIZE) break;
+    }
+
+    console.log(`Alert checks complete: ${users} users, ${raised} raised, ${pushed} pushed, ${held} held`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        users,
+        raised,
+        pushed,
+        held,
+        errors: errors.length > 0 ? errors : undefined,
+      }),
+      { headers: { 'Content-Type': 'application/json' } },
+    );
+  } catch (error: any) {
+    console.error('run-alert-checks error:', error.message);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -70,13 +70,38 @@ Return ONLY valid JSON matching this exact schema:
 
 No explanations, only valid JSON.`;
 
+type PageHint = { index: number; count: number };
+
+/**
+ * Extra instructions when the image is one photo of a longer receipt.
+ * The app merges the pages, so only what is visible should be extracted.
+ */
+function pagePrompt(page: PageHint): string {
+  return `
+
+This image is photo ${page.index} of ${page.count} of ONE long receipt, taken top to bottom.
+- Extract only the line items fully visible in this photo, in printed order (photos may overlap; the app removes repeats)
+- Omit merchant, date or payment fields that are not visible in this photo (use 0 for missing subtotal/total)`;
+}
+
+/**
+ * Validate the optional { index, count } page hint sent by the app
+ */
+function parsePageHint(value: unknown): PageHint | null {
+  const page = value as PageHint | null;
+  if (!page || !Number.isInteger(page.index) || !Number.isInteger(page.count)) return null;
+  if (page.count < 2 || page.index < 1 || page.index > page.count) return null;
+  return { index: page.index, count: page.count };
+}
+
 /**
  * Call Gemini Vision API with timeout
  */
 async function callGeminiVisionWithTimeout(
   base64Image: string,
   mimeType: string,
-  timeoutMs: number
+  timeoutMs: number,
+  page: PageHint | null = null
 ): Promise<Response> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
@@ -89,7 +114,7 @@ async function callGeminiVisionWithTimeout(
         contents: [
           {
             parts: [
-              { text: RECEIPT_EXTRACTION_PROMPT },
+              { text: page ? RECEIPT_EXTRACTION_PROMPT + pagePrompt(page) : RECEIPT_EXTRACTION_PROMPT },
               {
                 inline_data: {
                   mime_type: mimeType,
@@ -118,7 +143,7 @@ async function callGeminiVisionWithTimeout(
 /**
  * Parse and validate receipt JSON from Gemini response
  */
-function parseReceiptJson(textContent: string): Record<string, unknown> {
+function parseReceiptJson(textContent: string, isPartialPage = false): Record<string, unknown> {
   // Remove markdown code blocks if present
   const jsonString = textContent
     .replace(/```json\n?/g, '')
@@ -128,7 +153,8 @@ function parseReceiptJson(textContent: string): Record<string, unknown> {
   const parsedData = JSON.parse(jsonString);
 
   // Validate required fields and adjust confidence if missing
-  if (!parsedData.merchant?.name || !parsedData.payment?.total) {
+  // (a single page of a long receipt is not expected to show all of them)
+  if (!isPartialPage && (!parsedData.merchant?.name || !parsedData.payment?.total)) {
     parsedData.confidence_score = Math.min(parsedData.confidence_score || 0.5, 0.5);
   }
 
@@ -199,6 +225,7 @@ Deno.serve(async (req) => {
     // Parse request body
     const body = await req.json();
     const { image, mimeType: providedMimeType } = body;
+    const page = parsePageHint(body.page);
 
     if (!image || typeof image !== 'string') {
       return new Response(
@@ -221,7 +248,7 @@ Deno.serve(async (req) => {
     // Call Gemini Vision API with timeout
     let geminiResponse: Response;
     try {
-      geminiResponse = await callGeminiVisionWithTimeout(image, mimeType, REQUEST_TIMEOUT_MS);
+      geminiResponse = await callGeminiVisionWithTimeout(image, mimeType, REQUEST_TIMEOUT_MS, page);
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
         return new Response(
@@ -266,7 +293,7 @@ Deno.serve(async (req) => {
     // Parse the JSON response
     let parsedData;
     try {
-      parsedData = parseReceiptJson(textContent);
+      parsedData = parseReceiptJson(textContent, page !== null);
     } catch (parseError) {
       console.error('Failed to parse receipt JSON:', textContent.substring(0, 500));
       return new Response(
@@ -0,0 +1,402 @@
+/**
+ * Supabase Edge Function: send-email-digest
+ *
+ * Sends the weekly or monthly email digest to every user who turned it on,
+ * on the day they chose (in their timezone). The digest is built here from
+ * the user's transactions, budgets, bills, subscriptions, goals and net worth
+ * in their app language (see _shared/digest.ts), rendered with supabase/templates/digest.html and
+ * sent over SMTP to the user's own address. email_digests records each send
+ * so a digest never goes out twice. Schedule it hourly so every timezone
+ * gets its digest in the morning:
+ *
+ *   select cron.schedule(
+ *     'send-email-digest',
+ *     '15 * * * *',              -- every hour at :15
+ *     $$select net.http_post(
+ *       url := '<SUPABASE_URL>/functions/v1/send-email-digest',
+ *       headers := jsonb_build_object(
+ *         'Authorization', 'Bearer <SERVICE_ROLE_KEY>',
+ *         'Content-Type', 'application/json'
+ *       ),
+ *       body := '{}'::jsonb
+ *     )$$
+ *   );
+ *
+ * Pass { "userId": "...", "force": true } to resend a user's latest digest
+ * now (for testing templates).
+ *
+ * SMTP settings come from SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS,
+ * SMTP_FROM and SMTP_TLS. Locally, point them at Inbucket (supabase start)
+ * in supabase/functions/.env and open http://localhost:54324 to read mail:
+ *
+ *   SMTP_HOST=host.docker.internal
+ *   SMTP_PORT=54325
+ *   SMTP_FROM=SpendTrak <digest@spendtrak.local>
+ */
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { localClock, periodStart } from '../_shared/alertChecks.ts';
+import {
+  buildDigest,
+  convertRecordedAmount,
+  getDigestSchedule,
+  renderDigestHtml,
+  renderDigestText,
+  type DigestBudget,
+  type DigestContent,
+  type DigestData,
+  type DigestPreferences,
+  type DigestSchedule,
+  type RecordedFxRate,
+} from '../_shared/digest.ts';
+import type { BillSchedule } from '../_shared/recurrence.ts';
+
+const TEMPLATE_URL = new URL('../../templates/digest.html', import.meta.url);
+const APP_URL = Deno.env.get('APP_URL') || 'https://spendtrak.app';
+/** Digests go out on the first run after this local time on the chosen day */
+const SEND_AFTER_MINUTES = 8 * 60;
+const USER_PAGE_SIZE = 500;
+/** PostgREST returns at most 1000 rows per request */
+const TRANSACTION_PAGE_SIZE = 1000;
+
+interface DigestUser {
+  id: string;
+  email: string;
+  timezone: string | null;
+  default_currency: string | null;
+  language: string | null;
+  notification_preferences: (Partial<DigestPreferences> & { email_digest?: boolean }) | null;
+}
+
+/** Embedded join; PostgREST may type it as a list even though it returns one row */
+type Joined<T> = T | T[] | null;
+
+interface TransactionRow {
+  amount: number | string;
+  currency: string | null;
+  transaction_date: string;
+  transaction_type: string;
+  merchant_name: string | null;
+  merchant_name_clean: string | null;
+  category_id: string | null;
+  metadata: { fx?: RecordedFxRate } | null;
+}
+
+type BudgetRow = Omit<DigestBudget, 'amount' | 'category_name'> & {
+  amount: number | string;
+  category: Joined<{ name: string }>;
+};
+
+type BillRow = BillSchedule & { name: string; amount: number | string };
+
+interface SubscriptionRow {
+  merchant_name: string;
+  display_name: string | null;
+  amount: number | string;
+  next_billing_date: string | null;
+}
+
+interface GoalRow {
+  name: string;
+  target_amount: number | string;
+  current_amount: number | string | null;
+}
+
+function joined<T>(value: Joined<T>): T | null {
+  return Array.isArray(value) ? value[0] ?? null : value;
+}
+
+let templateCache: string | null = null;
+
+async function loadTemplate(): Promise<string> {
+  templateCache ??= await Deno.readTextFile(TEMPLATE_URL);
+  return templateCache;
+}
+
+// ============================================
+// DATA LOADING
+// ============================================
+
+async function loadTransactions(
+  supabase: SupabaseClient,
+  userId: string,
+  since: string,
+  until: string
+): Promise<TransactionRow[]> {
+  const rows: TransactionRow[] = [];
+  for (let from = 0; ; from += TRANSACTION_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('amount, currency, transaction_date, transaction_type, merchant_name, merchant_name_clean, category_id, metadata')
+      .eq('user_id', userId)
+      .eq('is_deleted', false)
+      .gte('transaction_date', since)
+      .lte('transaction_date', until)
+      .order('id')
+      .range(from, from + TRANSACTION_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as TransactionRow[]));
+    if (!data || data.length < TRANSACTION_PAGE_SIZE) return rows;
+  }
+}
+
+async function loadDigestData(
+  supabase: SupabaseClient,
+  user: DigestUser,
+  schedule: DigestSchedule,
+  currency: string
+): Promise<DigestData> {
+  const { data: budgets, error: budgetError } = await supabase
+    .from('budgets')
+    .select('category_id, name, amount, period, category:categories(name)')
+    .eq('user_id', user.id)
+    .eq('is_active', true);
+  if (budgetError) throw budgetError;
+
+  const budgetRows = ((budgets || []) as BudgetRow[]).map(({ category, ...budget }) => ({
+    ...budget,
+    amount: Number(budget.amount),
+    category_name: joined(category)?.name ?? null,
+  }));
+
+  // Far enough back for the previous period and every budget's own period
+  const since = [schedule.previousStart, ...budgetRows.map((b) => periodStart(schedule.periodEnd, b.period))].sort()[0];
+
+  const [transactions, bills, subscriptions, goals, assets, liabilities, snapshot] = await Promise.all([
+    loadTransactions(supabase, user.id, since, schedule.periodEnd),
+    supabase
+      .from('bills')
+      .select('name, amount, frequency, due_day, start_date, end_date, recurrence_rule')
+      .eq('user_id', user.id)
+      .eq('is_active', true),
+    supabase
+      .from('subscriptions')
+      .select('merchant_name, display_name, amount, next_billing_date')
+      .eq('user_id', user.id)
+      .eq('status', 'active'),
+    supabase
+      .from('financial_goals')
+      .select('name, target_amount, current_amount')
+      .eq('user_id', user.id)
+      .eq('status', 'active'),
+    supabase
+      .from('assets')
+      .select('current_value')
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .eq('include_in_net_worth', true),
+    supabase
+      .from('liabilities')
+      .select('current_balance')
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .eq('include_in_net_worth', true),
+    supabase
+      .from('net_worth_history')
+      .select('net_worth')
+      .eq('user_id', user.id)
+      .lte('snapshot_date', schedule.periodStart)
+      .order('snapshot_date', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  for (const result of [bills, subscriptions, goals, assets, liabilities, snapshot]) {
+    if (result.error) throw result.error;
+  }
+
+  const totalAssets = ((assets.data || []) as { current_value: number | string }[])
+    .reduce((sum, a) => sum + Number(a.current_value), 0);
+  const totalLiabilities = ((liabilities.data || []) as { current_balance: number | string }[])
+    .reduce((sum, l) => sum + Number(l.current_balance), 0);
+  const previousNetWorth = (snapshot.data as { net_worth: number | string } | null)?.net_worth;
+
+  return {
+    transactions: transactions.map((t) => ({
+      amount: convertRecordedAmount(Number(t.amount), t.currency, t.metadata?.fx, currency),
+      transaction_date: String(t.transaction_date).slice(0, 10),
+      transaction_type: t.transaction_type,
+      merchant_name: t.merchant_name || 'Unknown',
+      merchant_name_clean: t.merchant_name_clean,
+      category_id: t.category_id,
+    })),
+    budgets: budgetRows,
+    bills: ((bills.data || []) as BillRow[]).map((bill) => ({ ...bill, amount: Number(bill.amount) })),
+    subscriptions: ((subscriptions.data || []) as SubscriptionRow[]).map((sub) => ({
+      name: sub.display_name || sub.merchant_name,
+      amount: Number(sub.amount),
+      next_billing_date: sub.next_billing_date ? String(sub.next_billing_date).slice(0, 10) : null,
+    })),
+    goals: ((goals.data || []) as GoalRow[]).map((goal) => ({
+      name: goal.name,
+      target_amount: Number(goal.target_amount),
+      current_amount: Number(goal.current_amount || 0),
+    })),
+    netWorth: {
+      current: totalAssets - totalLiabilities,
+      previous: previousNetWorth === undefined ? null : Number(previousNetWorth),
+    },
+  };
+}
+
+// ============================================
+// SENDING
+// ============================================
+
+async function sendMail(to: string, digest: DigestContent): Promise<void> {
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) throw new Error('SMTP_HOST is not configured');
+
+  const port = Number(Deno.env.get('SMTP_PORT') || 587);
+  const username = Deno.env.get('SMTP_USER');
+  const password = Deno.env.get('SMTP_PASS');
+  const tls = Deno.env.get('SMTP_TLS') === 'true';
+
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port,
+      tls,
+      auth: username && password ? { username, password } : undefined,
+    },
+    // Local stand-ins like Inbucket speak plain SMTP without STARTTLS
+    debug: tls ? undefined : { allowUnsecure: true, noStartTLS: !username },
+  });
+
+  try {
+    await client.send({
+      from: Deno.env.get('SMTP_FROM') || 'SpendTrak <noreply@spendtrak.app>',
+      to,
+      subject: digest.subject,
+      content: renderDigestText(digest, APP_URL),
+      html: renderDigestHtml(await loadTemplate(), digest, APP_URL),
+    });
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Build and send the user's digest if today is their send day. Returns
+ * whether an email went out.
+ */
+async function runForUser(supabase: SupabaseClient, user: DigestUser, now: Date, force: boolean): Promise<boolean> {
+  const clock = localClock(now, user.timezone);
+  const schedule = getDigestSchedule(user.notification_preferences, clock.date);
+
+  if (!force && (schedule.scheduledFor !== clock.date || clock.minutes < SEND_AFTER_MINUTES)) {
+    return false;
+  }
+
+  // Claim the send first so overlapping runs can't both send
+  const { data: claimed, error: claimError } = await supabase
+    .from('email_digests')
+    .upsert(
+      {
+        user_id: user.id,
+        frequency: schedule.frequency,
+        scheduled_for: schedule.scheduledFor,
+        period_start: schedule.periodStart,
+        period_end: schedule.periodEnd,
+        sent_to: user.email,
+        sent_at: now.toISOString(),
+      },
+      { onConflict: 'user_id,frequency,scheduled_for', ignoreDuplicates: !force }
+    )
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return false;
+
+  try {
+    const currency = user.default_currency || 'USD';
+    const digest = buildDigest(await loadDigestData(supabase, user, schedule, currency), schedule, currency, user.language);
+    await sendMail(user.email, digest);
+  } catch (error) {
+    // Release the claim so the next run retries
+    await supabase.from('email_digests').delete().eq('id', claimed[0].id);
+    throw error;
+  }
+
+  console.log(`Sent ${schedule.frequency} digest for ${schedule.scheduledFor} to user ${user.id}`);
+  return true;
+}
+
+// ============================================
+// HANDLER
+// ============================================
+
+Deno.serve(async (req) => {
+  try {
+    // Only allow POST (from cron) or GET (manual trigger)
+    if (req.method !== 'POST' && req.method !== 'GET') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const userId: string | undefined = body.userId;
+    // Resending is only allowed for a single user
+    const force = Boolean(userId && body.force === true);
+    const now = new Date();
+
+    let users = 0;
+    let sent = 0;
+    const errors: string[] = [];
+
+    for (let from = 0; ; from += USER_PAGE_SIZE) {
+      let query = supabase
+        .from('users')
+        .select('id, email, timezone, default_currency, language, notification_preferences')
+        .order('id')
+        .range(from, from + USER_PAGE_SIZE - 1);
+      query = userId ? query.eq('id', userId) : query.eq('notification_preferences->>email_digest', 'true');
+
+      const { data: page, error: queryError } = await query;
+
+      if (queryError) {
+        console.error('Failed to query users:', queryError);
+        return new Response(
+          JSON.stringify({ success: false, error: queryError.message }),
+          { status: 500, headers: { 'Content-Type': 'application/json' } },
+        );
+      }
+
+      for (const user of (page || []) as DigestUser[]) {
+        if (!force && user.notification_preferences?.email_digest !== true) continue;
+        users++;
+        try {
+          if (await runForUser(supabase, user, now, force)) sent++;
+        } catch (userError: any) {
+          console.error(`Email digest failed for ${user.id}:`, userError.message);
+          errors.push(`${user.id}: ${userError.message}`);
+        }
+      }
+
+      if (!page || page.length < USER_PAGE_SIZE) break;
+    }
+
+    console.log(`Email digests complete: ${users} users, ${sent} sent`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        users,
+        sent,
+        errors: errors.length > 0 ? errors : undefined,
+      }),
+      { headers: { 'Content-Type': 'application/json' } },
+    );
+  } catch (error: any) {
+    console.error('send-email-digest error:', error.message);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } },
+    );
+  }
+});
@@ -0,0 +1,7 @@
+-- Bill recurrence rules
+-- Optional RRULE-style schedule for bills that don't fit frequency + due_day,
+-- e.g. "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1" (last business day)
+-- or "FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=15;X-WEEKEND=NEXT".
+-- Nullable — existing bills keep using frequency + due_day
+
+ALTER TABLE bills ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
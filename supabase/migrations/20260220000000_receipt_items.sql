@@ -0,0 +1,47 @@
+-- Receipt line items
+-- Each line of a scanned receipt is stored against the transaction it was
+-- saved as, so spending can be queried per item ("milk this year") and unit
+-- prices compared across stores. normalized_name is the matching key
+-- (lowercased, sizes and pack counts stripped).
+
+-- ============================================
+-- 1. RECEIPT ITEMS TABLE
+-- ============================================
+
+CREATE TABLE public.receipt_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+    receipt_scan_id UUID REFERENCES public.receipt_scans(id) ON DELETE SET NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    name TEXT NOT NULL,
+    normalized_name TEXT NOT NULL,
+    quantity DECIMAL(12, 3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    unit_price DECIMAL(12, 2) NOT NULL,
+    total_price DECIMAL(12, 2) NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'AED',
+    item_category TEXT,
+    category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    merchant_name TEXT,
+    purchase_date DATE NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for receipt items
+CREATE INDEX idx_receipt_items_transaction ON public.receipt_items(transaction_id);
+CREATE INDEX idx_receipt_items_user_name ON public.receipt_items(user_id, normalized_name);
+CREATE INDEX idx_receipt_items_user_date ON public.receipt_items(user_id, purchase_date DESC);
+
+CREATE TRIGGER update_receipt_items_updated_at BEFORE UPDATE ON public.receipt_items
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.receipt_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own receipt items"
+    ON public.receipt_items FOR ALL
+    USING (user_id = auth.uid());
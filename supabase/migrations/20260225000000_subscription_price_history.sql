@@ -0,0 +1,54 @@
+-- Subscription price history
+-- Every transaction matched to a subscription is recorded as a charge, so
+-- price changes can be traced over time. trial_end_date marks subscriptions
+-- that started as a free trial; the first paid charge after it raises a
+-- trial_converted alert. Renewals that never show up raise missed_renewal.
+
+-- ============================================
+-- 1. SUBSCRIPTION CHARGES TABLE
+-- ============================================
+
+CREATE TABLE public.subscription_charges (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    subscription_id UUID NOT NULL REFERENCES public.subscriptions(id) ON DELETE CASCADE,
+    transaction_id UUID UNIQUE REFERENCES public.transactions(id) ON DELETE SET NULL,
+    amount DECIMAL(12, 2) NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'AED',
+    charged_on DATE NOT NULL,
+    previous_amount DECIMAL(12, 2),
+    change_percent DECIMAL(7, 2),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for subscription charges
+CREATE INDEX idx_subscription_charges_subscription ON public.subscription_charges(subscription_id, charged_on DESC);
+CREATE INDEX idx_subscription_charges_user ON public.subscription_charges(user_id);
+
+-- ============================================
+-- 2. FREE TRIALS
+-- ============================================
+
+ALTER TABLE public.subscriptions ADD COLUMN trial_end_date DATE;
+
+-- ============================================
+-- 3. ALERT TYPES
+-- ============================================
+
+ALTER TABLE public.alerts DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+ALTER TABLE public.alerts ADD CONSTRAINT alerts_alert_type_check CHECK (alert_type IN (
+    'unusual_spending', 'duplicate_charge', 'price_increase', 'free_trial_ending',
+    'trial_converted', 'missed_renewal', 'subscription_renewal', 'large_transaction',
+    'budget_warning', 'budget_exceeded', 'upcoming_bill', 'low_balance',
+    'goal_milestone', 'weekly_summary', 'monthly_report'
+));
+
+-- ============================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.subscription_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own subscription charges"
+    ON public.subscription_charges FOR ALL
+    USING (user_id = auth.uid());
@@ -0,0 +1,37 @@
+-- Financial health snapshots
+-- One row per user per month with the health score and its factors, so the
+-- trend can be shown without recomputing past months from history. The row
+-- for the current month is overwritten each time the score is calculated.
+
+-- ============================================
+-- 1. FINANCIAL HEALTH SNAPSHOTS TABLE
+-- ============================================
+
+CREATE TABLE public.financial_health_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    month DATE NOT NULL,
+    overall INTEGER NOT NULL CHECK (overall BETWEEN 0 AND 100),
+    grade TEXT NOT NULL,
+    factors JSONB NOT NULL DEFAULT '{}',
+    details JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, month)
+);
+
+-- Indexes for financial health snapshots
+CREATE INDEX idx_financial_health_snapshots_user_month ON public.financial_health_snapshots(user_id, month DESC);
+
+CREATE TRIGGER update_financial_health_snapshots_updated_at BEFORE UPDATE ON public.financial_health_snapshots
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.financial_health_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own financial health snapshots"
+    ON public.financial_health_snapshots FOR ALL
+    USING (user_id = auth.uid());
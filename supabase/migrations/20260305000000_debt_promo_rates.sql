@@ -0,0 +1,15 @@
+-- Promotional debt rates
+-- Balance transfers and 0% purchase offers charge a lower rate until the
+-- promotion ends, then revert to interest_rate. The payoff simulator uses
+-- both so snowball and avalanche schedules reflect the rate actually paid.
+
+-- ============================================
+-- 1. PROMOTIONAL RATE COLUMNS
+-- ============================================
+
+ALTER TABLE public.debts ADD COLUMN promo_interest_rate DECIMAL(5,4); -- Stored as decimal like interest_rate
+ALTER TABLE public.debts ADD COLUMN promo_end_date DATE;
+
+ALTER TABLE public.debts ADD CONSTRAINT debts_promo_rate_check CHECK (
+    promo_interest_rate IS NULL OR (promo_interest_rate >= 0 AND promo_end_date IS NOT NULL)
+);
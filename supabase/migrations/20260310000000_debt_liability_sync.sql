@@ -0,0 +1,60 @@
+-- Debt and liability synchronization
+-- A liability linked to a debt (liabilities.linked_debt_id) mirrors the
+-- debt's balance. Whichever side changes, the other follows, so payments
+-- recorded against the debt show up in net worth and liability history.
+-- Each transaction can be reconciled to at most one debt payment.
+
+-- ============================================
+-- 1. DEBT -> LINKED LIABILITIES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION sync_linked_liabilities_from_debt()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.liabilities
+  SET
+    current_balance = NEW.current_balance,
+    updated_at = NOW()
+  WHERE linked_debt_id = NEW.id
+    AND current_balance IS DISTINCT FROM NEW.current_balance;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_sync_linked_liabilities
+  AFTER UPDATE OF current_balance ON public.debts
+  FOR EACH ROW
+  WHEN (OLD.current_balance IS DISTINCT FROM NEW.current_balance)
+  EXECUTE FUNCTION sync_linked_liabilities_from_debt();
+
+-- ============================================
+-- 2. LIABILITY -> LINKED DEBT
+-- ============================================
+
+-- The IS DISTINCT FROM guards stop the two triggers from bouncing forever
+CREATE OR REPLACE FUNCTION sync_debt_from_linked_liability()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.debts
+  SET
+    current_balance = NEW.current_balance,
+    updated_at = NOW()
+  WHERE id = NEW.linked_debt_id
+    AND current_balance IS DISTINCT FROM NEW.current_balance;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_sync_linked_debt
+  AFTER UPDATE OF current_balance ON public.liabilities
+  FOR EACH ROW
+  WHEN (NEW.linked_debt_id IS NOT NULL AND OLD.current_balance IS DISTINCT FROM NEW.current_balance)
+  EXECUTE FUNCTION sync_debt_from_linked_liability();
+
+-- ============================================
+-- 3. RECONCILED PAYMENTS
+-- ============================================
+
+CREATE UNIQUE INDEX idx_debt_payments_transaction
+  ON public.debt_payments(transaction_id)
+  WHERE transaction_id IS NOT NULL;
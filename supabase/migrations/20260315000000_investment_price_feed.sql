@@ -0,0 +1,37 @@
+-- Investment price feed
+-- Holdings are priced in their own currency from market quote providers.
+-- Each refresh records at most one price per symbol, currency and day, and
+-- the day's portfolio snapshot is replaced rather than duplicated.
+
+-- ============================================
+-- 1. HOLDING CURRENCY
+-- ============================================
+
+ALTER TABLE public.investment_holdings
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+ALTER TABLE public.crypto_holdings
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+-- ============================================
+-- 2. DAILY PRICE HISTORY
+-- ============================================
+
+ALTER TABLE public.investment_prices
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS price_date DATE NOT NULL DEFAULT CURRENT_DATE;
+
+UPDATE public.investment_prices
+SET price_date = recorded_at::date
+WHERE recorded_at IS NOT NULL;
+
+-- Keep the latest recorded price for each day before enforcing uniqueness
+DELETE FROM public.investment_prices p
+USING public.investment_prices newer
+WHERE p.symbol = newer.symbol
+  AND p.currency = newer.currency
+  AND p.price_date = newer.price_date
+  AND (p.recorded_at, p.id) < (newer.recorded_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_investment_prices_symbol_day
+  ON public.investment_prices(symbol, currency, price_date);
@@ -0,0 +1,38 @@
+-- Target allocations
+-- A user's desired portfolio mix, by asset class or by holding, with the
+-- drift (in percentage points) tolerated before a rebalance is suggested.
+-- Only one target allocation is active per user at a time.
+
+-- ============================================
+-- 1. TARGET ALLOCATIONS TABLE
+-- ============================================
+
+CREATE TABLE public.target_allocations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL DEFAULT 'My Target',
+    target_type TEXT NOT NULL CHECK (target_type IN ('type', 'holding')),
+    allocations JSONB NOT NULL DEFAULT '{}',
+    drift_threshold DECIMAL(5,2) NOT NULL DEFAULT 5 CHECK (drift_threshold >= 0 AND drift_threshold <= 100),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for target allocations
+CREATE UNIQUE INDEX idx_target_allocations_user_active
+    ON public.target_allocations(user_id)
+    WHERE is_active;
+
+CREATE TRIGGER update_target_allocations_updated_at BEFORE UPDATE ON public.target_allocations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.target_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own target allocations"
+    ON public.target_allocations FOR ALL
+    USING (user_id = auth.uid());
@@ -0,0 +1,46 @@
+-- Dividend ledger
+-- Every 'dividend' investment transaction is recorded here with its ex-date
+-- and pay date, and linked to an 'investment' income entry so dividends
+-- count in cash flow. Each transaction is recorded at most once.
+
+-- ============================================
+-- 1. DIVIDEND PAYMENTS TABLE
+-- ============================================
+
+CREATE TABLE public.dividend_payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    holding_id UUID REFERENCES public.investment_holdings(id) ON DELETE SET NULL,
+    investment_transaction_id UUID REFERENCES public.investment_transactions(id) ON DELETE CASCADE,
+    income_id UUID REFERENCES public.income(id) ON DELETE SET NULL,
+    symbol TEXT NOT NULL,
+    amount DECIMAL(14,2) NOT NULL CHECK (amount >= 0),
+    currency TEXT NOT NULL DEFAULT 'USD',
+    amount_per_share DECIMAL(14,6),
+    shares DECIMAL(18,8),
+    ex_dividend_date DATE NOT NULL,
+    payment_date DATE NOT NULL,
+    record_date DATE,
+    dividend_type TEXT NOT NULL DEFAULT 'regular'
+        CHECK (dividend_type IN ('regular', 'special', 'qualified', 'return_of_capital')),
+    reinvested BOOLEAN NOT NULL DEFAULT false,
+    reinvested_shares DECIMAL(18,8),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for dividend payments
+CREATE INDEX idx_dividend_payments_user_date ON public.dividend_payments(user_id, payment_date DESC);
+CREATE INDEX idx_dividend_payments_user_symbol ON public.dividend_payments(user_id, symbol);
+CREATE UNIQUE INDEX idx_dividend_payments_transaction
+    ON public.dividend_payments(investment_transaction_id)
+    WHERE investment_transaction_id IS NOT NULL;
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.dividend_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own dividend payments"
+    ON public.dividend_payments FOR ALL
+    USING (user_id = auth.uid());
@@ -0,0 +1,78 @@
+-- Tax-lot accounting
+-- Buys, transfers in and reinvested dividends open lots; sells close them
+-- (FIFO, LIFO, highest cost or specific lots) and record one disposal per
+-- lot with its realized gain and holding term. Splits adjust open lots.
+
+-- ============================================
+-- 1. TAX LOTS TABLE
+-- ============================================
+
+CREATE TABLE public.tax_lots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    holding_id UUID REFERENCES public.investment_holdings(id) ON DELETE CASCADE,
+    investment_transaction_id UUID REFERENCES public.investment_transactions(id) ON DELETE SET NULL,
+    symbol TEXT NOT NULL,
+    source TEXT NOT NULL DEFAULT 'buy'
+        CHECK (source IN ('buy', 'transfer_in', 'dividend_reinvestment', 'opening_balance')),
+    acquired_date DATE NOT NULL,
+    quantity DECIMAL(18,8) NOT NULL CHECK (quantity > 0),
+    remaining_quantity DECIMAL(18,8) NOT NULL CHECK (remaining_quantity >= 0),
+    cost_per_share DECIMAL(18,8) NOT NULL CHECK (cost_per_share >= 0),
+    currency TEXT NOT NULL DEFAULT 'USD',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for tax lots
+CREATE INDEX idx_tax_lots_user_symbol ON public.tax_lots(user_id, symbol);
+CREATE INDEX idx_tax_lots_holding ON public.tax_lots(holding_id, acquired_date);
+CREATE INDEX idx_tax_lots_open ON public.tax_lots(user_id) WHERE remaining_quantity > 0;
+
+-- ============================================
+-- 2. LOT DISPOSALS TABLE
+-- ============================================
+
+CREATE TABLE public.lot_disposals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    lot_id UUID NOT NULL REFERENCES public.tax_lots(id) ON DELETE CASCADE,
+    sell_transaction_id UUID REFERENCES public.investment_transactions(id) ON DELETE SET NULL,
+    symbol TEXT NOT NULL,
+    quantity DECIMAL(18,8) NOT NULL CHECK (quantity > 0),
+    acquired_date DATE NOT NULL,
+    disposed_date DATE NOT NULL,
+    proceeds DECIMAL(14,2) NOT NULL,
+    cost_basis DECIMAL(14,2) NOT NULL,
+    realized_gain DECIMAL(14,2) NOT NULL,
+    term TEXT NOT NULL CHECK (term IN ('short', 'long')),
+    currency TEXT NOT NULL DEFAULT 'USD',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for lot disposals
+CREATE INDEX idx_lot_disposals_user_date ON public.lot_disposals(user_id, disposed_date DESC);
+CREATE INDEX idx_lot_disposals_lot ON public.lot_disposals(lot_id);
+
+-- ============================================
+-- 3. EXPORT HISTORY
+-- ============================================
+
+ALTER TABLE public.export_history DROP CONSTRAINT IF EXISTS export_history_data_type_check;
+ALTER TABLE public.export_history ADD CONSTRAINT export_history_data_type_check
+    CHECK (data_type IN ('transactions', 'subscriptions', 'budgets', 'investments', 'all'));
+
+-- ============================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.tax_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lot_disposals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own tax lots"
+    ON public.tax_lots FOR ALL
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can manage own lot disposals"
+    ON public.lot_disposals FOR ALL
+    USING (user_id = auth.uid());
@@ -0,0 +1,52 @@
+-- Investment watchlist
+-- Symbols the user follows without holding them, with target-price,
+-- above/below and percent-move triggers. Triggers are checked whenever
+-- quotes refresh and fire 'price_target' alerts.
+
+-- ============================================
+-- 1. WATCHLIST ITEMS TABLE
+-- ============================================
+
+CREATE TABLE public.watchlist_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    symbol TEXT NOT NULL,
+    name TEXT NOT NULL,
+    investment_type TEXT NOT NULL DEFAULT 'stock',
+    target_price DECIMAL(18,8) CHECK (target_price > 0),
+    alert_above DECIMAL(18,8) CHECK (alert_above > 0),
+    alert_below DECIMAL(18,8) CHECK (alert_below > 0),
+    alert_percent_change DECIMAL(6,2) CHECK (alert_percent_change > 0),
+    reference_price DECIMAL(18,8),
+    last_price DECIMAL(18,8),
+    last_price_update TIMESTAMPTZ,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, symbol)
+);
+
+-- Indexes for watchlist items
+CREATE INDEX idx_watchlist_items_user ON public.watchlist_items(user_id);
+
+-- ============================================
+-- 2. ALERT TYPES
+-- ============================================
+
+ALTER TABLE public.alerts DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+ALTER TABLE public.alerts ADD CONSTRAINT alerts_alert_type_check CHECK (alert_type IN (
+    'unusual_spending', 'duplicate_charge', 'price_increase', 'free_trial_ending',
+    'trial_converted', 'missed_renewal', 'subscription_renewal', 'large_transaction',
+    'budget_warning', 'budget_exceeded', 'upcoming_bill', 'low_balance',
+    'goal_milestone', 'weekly_summary', 'monthly_report', 'price_target'
+));
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.watchlist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own watchlist items"
+    ON public.watchlist_items FOR ALL
+    USING (user_id = auth.uid());
@@ -0,0 +1,30 @@
+-- Alert scheduler
+-- The run-alert-checks edge function raises spending, budget, renewal and
+-- bill alerts for every user. Each scheduled alert carries a dedupe key so a
+-- condition is only raised once, and pushed_at records delivery so alerts
+-- held back during quiet hours are pushed on a later run.
+
+-- ============================================
+-- 1. ALERT DELIVERY COLUMNS
+-- ============================================
+
+ALTER TABLE public.alerts
+    ADD COLUMN IF NOT EXISTS dedupe_key TEXT,
+    ADD COLUMN IF NOT EXISTS pushed_at TIMESTAMPTZ;
+
+-- NULL keys never conflict, so alerts raised in the app are unaffected
+ALTER TABLE public.alerts DROP CONSTRAINT IF EXISTS alerts_user_dedupe_key_key;
+ALTER TABLE public.alerts ADD CONSTRAINT alerts_user_dedupe_key_key UNIQUE (user_id, dedupe_key);
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+-- Scheduled alerts still waiting to be pushed
+CREATE INDEX IF NOT EXISTS idx_alerts_pending_push
+    ON public.alerts(user_id, created_at)
+    WHERE pushed_at IS NULL AND dedupe_key IS NOT NULL;
+
+-- Reminders already written for a bill
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bill_reminders_bill_date
+    ON public.bill_reminders(bill_id, reminder_date);
@@ -0,0 +1,59 @@
+-- Email digest
+-- Users who turn on email_digest get a weekly or monthly summary email on
+-- the day they choose. The scheduled send-email-digest edge function builds
+-- the digest from the user's data and sends it; email_digests records each
+-- scheduled send so a digest is never mailed twice.
+
+-- ============================================
+-- 1. DIGEST PREFERENCES
+-- ============================================
+
+ALTER TABLE public.users ALTER COLUMN notification_preferences SET DEFAULT '{
+    "push_enabled": true,
+    "email_digest": false,
+    "email_digest_frequency": "weekly",
+    "email_digest_day": 1,
+    "alert_unusual_spending": true,
+    "alert_subscriptions": true,
+    "alert_budget": true,
+    "alert_bills": true,
+    "quiet_hours_start": null,
+    "quiet_hours_end": null
+}'::jsonb;
+
+-- Existing users get a Monday weekly digest unless they already chose
+UPDATE public.users
+SET notification_preferences = '{"email_digest_frequency": "weekly", "email_digest_day": 1}'::jsonb
+    || COALESCE(notification_preferences, '{}'::jsonb)
+WHERE notification_preferences IS NULL
+   OR NOT notification_preferences ? 'email_digest_frequency';
+
+-- ============================================
+-- 2. EMAIL DIGESTS TABLE
+-- ============================================
+
+CREATE TABLE public.email_digests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+    scheduled_for DATE NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    sent_to TEXT NOT NULL,
+    sent_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, frequency, scheduled_for)
+);
+
+-- Indexes for email digests
+CREATE INDEX idx_email_digests_user ON public.email_digests(user_id, sent_at DESC);
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.email_digests ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge function with the service role
+CREATE POLICY "Users can view own email digests"
+    ON public.email_digests FOR SELECT
+    USING (user_id = auth.uid());
@@ -0,0 +1,153 @@
+-- Categorization rules
+-- User-defined rules that match new transactions on merchant (regex),
+-- amount range, card, source and bank, and set the category, rename the
+-- merchant, add notes or mark them recurring. A BEFORE INSERT trigger on
+-- transactions applies them, so transactions from every source (manual,
+-- receipts, statement imports and the email webhooks) get the same rules.
+
+-- ============================================
+-- 1. CATEGORIZATION RULES TABLE
+-- ============================================
+
+CREATE TABLE public.categorization_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Conditions (NULL = any)
+    merchant_pattern TEXT,
+    amount_min DECIMAL(12, 2) CHECK (amount_min >= 0),
+    amount_max DECIMAL(12, 2) CHECK (amount_max >= 0),
+    card_last_four TEXT,
+    source TEXT CHECK (source IN ('email', 'receipt', 'manual', 'import')),
+    bank_name TEXT,
+    -- Actions (NULL = leave as is)
+    set_category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    set_merchant_name TEXT,
+    append_notes TEXT,
+    set_recurring BOOLEAN,
+    match_count INTEGER NOT NULL DEFAULT 0,
+    last_matched_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (amount_min IS NULL OR amount_max IS NULL OR amount_min <= amount_max)
+);
+
+-- Indexes for categorization rules
+CREATE INDEX idx_categorization_rules_user ON public.categorization_rules(user_id, priority) WHERE is_active = TRUE;
+
+CREATE TRIGGER update_categorization_rules_updated_at BEFORE UPDATE ON public.categorization_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. APPLY RULES TO NEW TRANSACTIONS
+-- Rules run in ascending priority; for each action the first matching
+-- rule wins. A category the user picked on a manual entry is kept.
+-- Mirrors applyRules in src/services/categorizationRules.ts.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION apply_categorization_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+    rule RECORD;
+    matched BOOLEAN;
+    used BOOLEAN;
+    category_done BOOLEAN := (NEW.source = 'manual' AND NEW.category_id IS NOT NULL);
+    merchant_done BOOLEAN := FALSE;
+    notes_done BOOLEAN := FALSE;
+    recurring_done BOOLEAN := FALSE;
+    original_merchant TEXT := NEW.merchant_name;
+    applied UUID[] := '{}';
+BEGIN
+    FOR rule IN
+        SELECT * FROM public.categorization_rules
+        WHERE user_id = NEW.user_id AND is_active = TRUE
+        ORDER BY priority, created_at
+    LOOP
+        -- A pattern Postgres can't compile never matches instead of failing the insert
+        BEGIN
+            matched := rule.merchant_pattern IS NULL OR original_merchant ~* rule.merchant_pattern;
+        EXCEPTION WHEN invalid_regular_expression THEN
+            matched := FALSE;
+        END;
+
+        matched := COALESCE(
+            matched
+            AND (rule.amount_min IS NULL OR ABS(NEW.amount) >= rule.amount_min)
+            AND (rule.amount_max IS NULL OR ABS(NEW.amount) <= rule.amount_max)
+            AND (rule.card_last_four IS NULL OR NEW.card_last_four = rule.card_last_four)
+            AND (rule.source IS NULL OR NEW.source = rule.source)
+            AND (rule.bank_name IS NULL OR LOWER(NEW.bank_name) = LOWER(rule.bank_name)),
+            FALSE
+        );
+        CONTINUE WHEN NOT matched;
+
+        used := FALSE;
+
+        IF rule.set_category_id IS NOT NULL AND NOT category_done THEN
+            NEW.category_id := rule.set_category_id;
+            category_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF rule.set_merchant_name IS NOT NULL AND NOT merchant_done THEN
+            NEW.merchant_name := rule.set_merchant_name;
+            NEW.merchant_name_clean := TRIM(REGEXP_REPLACE(LOWER(rule.set_merchant_name), '[^a-z0-9\s]', '', 'g'));
+            merchant_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF rule.append_notes IS NOT NULL AND NOT notes_done THEN
+            IF POSITION(rule.append_notes IN COALESCE(NEW.notes, '')) = 0 THEN
+                NEW.notes := CASE
+                    WHEN COALESCE(NEW.notes, '') = '' THEN rule.append_notes
+                    ELSE NEW.notes || E'\n' || rule.append_notes
+                END;
+            END IF;
+            notes_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF rule.set_recurring IS NOT NULL AND NOT recurring_done THEN
+            NEW.is_recurring := rule.set_recurring;
+            recurring_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF used THEN
+            applied := applied || rule.id;
+        END IF;
+    END LOOP;
+
+    IF array_length(applied, 1) IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) || jsonb_build_object('applied_rules', to_jsonb(applied));
+    IF merchant_done AND NEW.merchant_name IS DISTINCT FROM original_merchant THEN
+        NEW.metadata := NEW.metadata || jsonb_build_object('original_merchant_name', original_merchant);
+    END IF;
+
+    UPDATE public.categorization_rules
+    SET match_count = match_count + 1, last_matched_at = NOW()
+    WHERE id = ANY(applied);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_apply_categorization_rules
+    BEFORE INSERT ON public.transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_categorization_rules();
+
+-- ============================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own categorization rules"
+    ON public.categorization_rules FOR ALL
+    USING (user_id = auth.uid());
@@ -0,0 +1,42 @@
+-- Merchants
+-- A user's canonical merchant records. The app normalizes raw descriptors
+-- ("AMZN Mktp US*2K3", "Amazon.com", "AMAZON") to a merchant key stored in
+-- transactions.merchant_name_clean; these rows add the user's own merchants
+-- and the aliases left behind when they merge merchants, on top of the
+-- built-in directory in src/config/merchants.ts.
+
+-- ============================================
+-- 1. MERCHANTS TABLE
+-- ============================================
+
+CREATE TABLE public.merchants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    name TEXT NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    icon TEXT,
+    logo_url TEXT,
+    website TEXT,
+    default_category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, key)
+);
+
+CREATE TRIGGER update_merchants_updated_at BEFORE UPDATE ON public.merchants
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Merchant backfills update transactions by user and key
+CREATE INDEX IF NOT EXISTS idx_transactions_user_merchant
+    ON public.transactions(user_id, merchant_name_clean);
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.merchants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own merchants"
+    ON public.merchants FOR ALL
+    USING (user_id = auth.uid());
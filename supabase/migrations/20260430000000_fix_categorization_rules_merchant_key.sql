@@ -0,0 +1,109 @@
+-- ============================================
+-- FIX: Rename rules no longer compute a merchant key
+--
+-- apply_categorization_rules wrote merchant_name_clean with its own
+-- normalization when a rule renamed the merchant, so renamed transactions
+-- got keys that never matched the app's canonical merchants
+-- (src/services/merchants.ts). A rename now only sets merchant_name and
+-- clears the stale key for the app to resolve from the new name.
+--
+-- createTransaction runs the rules itself before resolving the merchant;
+-- transactions it already ran them on (metadata.applied_rules) are left
+-- alone so rules aren't applied or counted twice.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION apply_categorization_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+    rule RECORD;
+    matched BOOLEAN;
+    used BOOLEAN;
+    category_done BOOLEAN := (NEW.source = 'manual' AND NEW.category_id IS NOT NULL);
+    merchant_done BOOLEAN := FALSE;
+    notes_done BOOLEAN := FALSE;
+    recurring_done BOOLEAN := FALSE;
+    original_merchant TEXT := NEW.merchant_name;
+    applied UUID[] := '{}';
+BEGIN
+    -- The app already ran the rules (and resolved the merchant) for this one
+    IF COALESCE(NEW.metadata, '{}'::jsonb) ? 'applied_rules' THEN
+        RETURN NEW;
+    END IF;
+
+    FOR rule IN
+        SELECT * FROM public.categorization_rules
+        WHERE user_id = NEW.user_id AND is_active = TRUE
+        ORDER BY priority, created_at
+    LOOP
+        -- A pattern Postgres can't compile never matches instead of failing the insert
+        BEGIN
+            matched := rule.merchant_pattern IS NULL OR original_merchant ~* rule.merchant_pattern;
+        EXCEPTION WHEN invalid_regular_expression THEN
+            matched := FALSE;
+        END;
+
+        matched := COALESCE(
+            matched
+            AND (rule.amount_min IS NULL OR ABS(NEW.amount) >= rule.amount_min)
+            AND (rule.amount_max IS NULL OR ABS(NEW.amount) <= rule.amount_max)
+            AND (rule.card_last_four IS NULL OR NEW.card_last_four = rule.card_last_four)
+            AND (rule.source IS NULL OR NEW.source = rule.source)
+            AND (rule.bank_name IS NULL OR LOWER(NEW.bank_name) = LOWER(rule.bank_name)),
+            FALSE
+        );
+        CONTINUE WHEN NOT matched;
+
+        used := FALSE;
+
+        IF rule.set_category_id IS NOT NULL AND NOT category_done THEN
+            NEW.category_id := rule.set_category_id;
+            category_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF rule.set_merchant_name IS NOT NULL AND NOT merchant_done THEN
+            NEW.merchant_name := rule.set_merchant_name;
+            merchant_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF rule.append_notes IS NOT NULL AND NOT notes_done THEN
+            IF POSITION(rule.append_notes IN COALESCE(NEW.notes, '')) = 0 THEN
+                NEW.notes := CASE
+                    WHEN COALESCE(NEW.notes, '') = '' THEN rule.append_notes
+                    ELSE NEW.notes || E'\n' || rule.append_notes
+                END;
+            END IF;
+            notes_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF rule.set_recurring IS NOT NULL AND NOT recurring_done THEN
+            NEW.is_recurring := rule.set_recurring;
+            recurring_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF used THEN
+            applied := applied || rule.id;
+        END IF;
+    END LOOP;
+
+    IF array_length(applied, 1) IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) || jsonb_build_object('applied_rules', to_jsonb(applied));
+    IF merchant_done AND NEW.merchant_name IS DISTINCT FROM original_merchant THEN
+        NEW.metadata := NEW.metadata || jsonb_build_object('original_merchant_name', original_merchant);
+        -- The key belonged to the old name; the app resolves the new one
+        NEW.merchant_name_clean := NULL;
+    END IF;
+
+    UPDATE public.categorization_rules
+    SET match_count = match_count + 1, last_matched_at = NOW()
+    WHERE id = ANY(applied);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
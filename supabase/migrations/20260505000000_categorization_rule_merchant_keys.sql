@@ -0,0 +1,144 @@
+-- ============================================
+-- FIX: Renamed transactions get a merchant key, match counts add up
+--
+-- A rename rule cleared merchant_name_clean and nothing resolved it again.
+-- Rules now store the canonical key of the name they set (set_merchant_key,
+-- resolved by the app when the rule is saved) and the trigger writes it.
+-- Rules saved before this migration get their key the next time the app
+-- loads them.
+--
+-- The app counted its own matches by writing match_count + n from a copy of
+-- the rule it had read, so concurrent inserts lost counts.
+-- record_rule_matches adds to the stored count instead.
+-- ============================================
+
+-- ============================================
+-- 1. MERCHANT KEY ON RULES
+-- ============================================
+
+ALTER TABLE public.categorization_rules ADD COLUMN IF NOT EXISTS set_merchant_key TEXT;
+
+-- ============================================
+-- 2. RULE TRIGGER
+-- ============================================
+
+CREATE OR REPLACE FUNCTION apply_categorization_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+    rule RECORD;
+    matched BOOLEAN;
+    used BOOLEAN;
+    category_done BOOLEAN := (NEW.source = 'manual' AND NEW.category_id IS NOT NULL);
+    merchant_done BOOLEAN := FALSE;
+    notes_done BOOLEAN := FALSE;
+    recurring_done BOOLEAN := FALSE;
+    original_merchant TEXT := NEW.merchant_name;
+    merchant_key TEXT;
+    applied UUID[] := '{}';
+BEGIN
+    -- The app already ran the rules (and resolved the merchant) for this one
+    IF COALESCE(NEW.metadata, '{}'::jsonb) ? 'applied_rules' THEN
+        RETURN NEW;
+    END IF;
+
+    FOR rule IN
+        SELECT * FROM public.categorization_rules
+        WHERE user_id = NEW.user_id AND is_active = TRUE
+        ORDER BY priority, created_at
+    LOOP
+        -- A pattern Postgres can't compile never matches instead of failing the insert
+        BEGIN
+            matched := rule.merchant_pattern IS NULL OR original_merchant ~* rule.merchant_pattern;
+        EXCEPTION WHEN invalid_regular_expression THEN
+            matched := FALSE;
+        END;
+
+        matched := COALESCE(
+            matched
+            AND (rule.amount_min IS NULL OR ABS(NEW.amount) >= rule.amount_min)
+            AND (rule.amount_max IS NULL OR ABS(NEW.amount) <= rule.amount_max)
+            AND (rule.card_last_four IS NULL OR NEW.card_last_four = rule.card_last_four)
+            AND (rule.source IS NULL OR NEW.source = rule.source)
+            AND (rule.bank_name IS NULL OR LOWER(NEW.bank_name) = LOWER(rule.bank_name)),
+            FALSE
+        );
+        CONTINUE WHEN NOT matched;
+
+        used := FALSE;
+
+        IF rule.set_category_id IS NOT NULL AND NOT category_done THEN
+            NEW.category_id := rule.set_category_id;
+            category_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF rule.set_merchant_name IS NOT NULL AND NOT merchant_done THEN
+            NEW.merchant_name := rule.set_merchant_name;
+            merchant_key := rule.set_merchant_key;
+            merchant_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF rule.append_notes IS NOT NULL AND NOT notes_done THEN
+            IF POSITION(rule.append_notes IN COALESCE(NEW.notes, '')) = 0 THEN
+                NEW.notes := CASE
+                    WHEN COALESCE(NEW.notes, '') = '' THEN rule.append_notes
+                    ELSE NEW.notes || E'\n' || rule.append_notes
+                END;
+            END IF;
+            notes_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF rule.set_recurring IS NOT NULL AND NOT recurring_done THEN
+            NEW.is_recurring := rule.set_recurring;
+            recurring_done := TRUE;
+            used := TRUE;
+        END IF;
+
+        IF used THEN
+            applied := applied || rule.id;
+        END IF;
+    END LOOP;
+
+    IF array_length(applied, 1) IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) || jsonb_build_object('applied_rules', to_jsonb(applied));
+    IF merchant_done AND NEW.merchant_name IS DISTINCT FROM original_merchant THEN
+        NEW.metadata := NEW.metadata || jsonb_build_object('original_merchant_name', original_merchant);
+        -- The app resolved the new name's key when the rule was saved; a
+        -- merchant merged since then lives on as an alias of its target
+        NEW.merchant_name_clean := COALESCE(
+            (SELECT m.key FROM public.merchants m
+             WHERE m.user_id = NEW.user_id AND merchant_key = ANY(m.aliases)
+             LIMIT 1),
+            merchant_key
+        );
+    END IF;
+
+    UPDATE public.categorization_rules
+    SET match_count = match_count + 1, last_matched_at = NOW()
+    WHERE id = ANY(applied);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 3. MATCH COUNTS
+-- ============================================
+
+-- Add matches to the caller's rules; counts[i] belongs to rule_ids[i]
+CREATE OR REPLACE FUNCTION record_rule_matches(rule_ids UUID[], counts INTEGER[])
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.categorization_rules AS rule
+    SET match_count = rule.match_count + matched.count, last_matched_at = NOW()
+    FROM unnest(rule_ids, counts) AS matched(id, count)
+    WHERE rule.id = matched.id AND rule.user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_rule_matches TO authenticated;